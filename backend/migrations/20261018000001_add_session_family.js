@@ -0,0 +1,77 @@
+/**
+ * Migration: Add Session Family
+ *
+ * This migration adds refresh token reuse detection support to the sessions
+ * collection. Every session belongs to a family shared by all sessions rotated
+ * from the same login, so a reused token can revoke the whole family.
+ *
+ * Fields added:
+ * - family: Lineage id shared by rotated sessions (backfilled with the session id)
+ *
+ * Migration steps:
+ * 1. Backfill family on existing sessions
+ * 2. Create index on family
+ *
+ * @param {Db} db - MongoDB database instance
+ * @param {MongoClient} client - MongoDB client instance
+ */
+
+module.exports = {
+  async up(db, client) {
+    const result = await db.collection('sessions').updateMany(
+      {
+        family: { $exists: false },
+      },
+      [
+        {
+          $set: {
+            family: { $toString: '$_id' },
+          },
+        },
+      ],
+    );
+
+    console.log(`✓ Updated ${result.modifiedCount} sessions with family id`);
+
+    try {
+      await db.collection('sessions').createIndex(
+        { family: 1 },
+        {
+          name: 'family_index',
+          background: true,
+        },
+      );
+      console.log('✓ Created index on family field');
+    } catch (error) {
+      console.log('⚠ family index already exists with different name');
+    }
+  },
+
+  async down(db, client) {
+    const result = await db.collection('sessions').updateMany(
+      {},
+      {
+        $unset: {
+          family: '',
+          rotatedAt: '',
+          replacedBy: '',
+          revokedReason: '',
+        },
+      },
+    );
+
+    console.log(
+      `✓ Removed session family fields from ${result.modifiedCount} sessions`,
+    );
+
+    try {
+      await db.collection('sessions').dropIndex('family_index');
+      console.log('✓ Dropped family index');
+    } catch (error) {
+      if (error.code !== 27) {
+        // Index not found error is acceptable
+        console.warn(`⚠ Warning: Could not drop index - ${error.message}`);
+      }
+    }
+  },
+};
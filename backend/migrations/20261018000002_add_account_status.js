@@ -0,0 +1,95 @@
+/**
+ * Migration: Add Account Status
+ *
+ * This migration adds the account status model to the users collection.
+ * Every authentication path rejects accounts that are not active, so existing
+ * soft-deleted users must be marked deactivated.
+ *
+ * Fields added:
+ * - status: active, suspended, deactivated or pending_deletion
+ *   (backfilled from isDeleted)
+ * - statusChangedAt: When the status last changed (backfilled from deletedAt)
+ *
+ * Migration steps:
+ * 1. Mark soft-deleted users as deactivated
+ * 2. Mark all other users as active
+ * 3. Create index on status
+ *
+ * @param {Db} db - MongoDB database instance
+ * @param {MongoClient} client - MongoDB client instance
+ */
+
+module.exports = {
+  async up(db, client) {
+    const deactivated = await db.collection('users').updateMany(
+      {
+        status: { $exists: false },
+        isDeleted: true,
+      },
+      [
+        {
+          $set: {
+            status: 'deactivated',
+            statusChangedAt: { $ifNull: ['$deletedAt', '$$NOW'] },
+          },
+        },
+      ],
+    );
+
+    console.log(
+      `✓ Marked ${deactivated.modifiedCount} deleted users as deactivated`,
+    );
+
+    const active = await db.collection('users').updateMany(
+      {
+        status: { $exists: false },
+      },
+      {
+        $set: { status: 'active' },
+      },
+    );
+
+    console.log(`✓ Marked ${active.modifiedCount} users as active`);
+
+    try {
+      await db.collection('users').createIndex(
+        { status: 1 },
+        {
+          name: 'status_index',
+          background: true,
+        },
+      );
+      console.log('✓ Created index on status field');
+    } catch (error) {
+      console.log('⚠ status index already exists with different name');
+    }
+  },
+
+  async down(db, client) {
+    // Suspended users have no equivalent without the status field
+    const result = await db.collection('users').updateMany(
+      {},
+      {
+        $unset: {
+          status: '',
+          statusReason: '',
+          statusChangedAt: '',
+        },
+      },
+    );
+
+    console.log(
+      `✓ Removed account status fields from ${result.modifiedCount} users`,
+    );
+
+    try {
+      await db.collection('users').dropIndex('status_index');
+      console.log('✓ Dropped status index');
+    } catch (error) {
+      if (error.code !== 27) {
+        // Index not found error is acceptable
+        console.warn(`⚠ Warning: Could not drop index - ${error.message}`);
+      }
+    }
+  },
+};
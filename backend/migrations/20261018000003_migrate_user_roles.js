@@ -0,0 +1,82 @@
+/**
+ * Migration: Migrate User Roles
+ *
+ * This migration moves each user's single role into the roles array.
+ * Permissions and hierarchy checks only read roles, so without it no one,
+ * admins included, could sign in with their old role.
+ *
+ * Fields changed:
+ * - roles: Role slugs, primary first (backfilled from role)
+ * - role: Removed
+ *
+ * Migration steps:
+ * 1. Put each user's role first in roles, keeping any roles already there
+ * 2. Give users with neither field the default "user" role
+ *
+ * @param {Db} db - MongoDB database instance
+ * @param {MongoClient} client - MongoDB client instance
+ */
+
+module.exports = {
+  async up(db, client) {
+    const migrated = await db.collection('users').updateMany(
+      {
+        role: { $type: 'string' },
+      },
+      [
+        {
+          $set: {
+            roles: {
+              $concatArrays: [
+                ['$role'],
+                {
+                  $filter: {
+                    input: { $ifNull: ['$roles', []] },
+                    cond: { $ne: ['$$this', '$role'] },
+                  },
+                },
+              ],
+            },
+          },
+        },
+        { $unset: 'role' },
+      ],
+    );
+
+    console.log(
+      `✓ Moved the role of ${migrated.modifiedCount} users into roles`,
+    );
+
+    const defaulted = await db.collection('users').updateMany(
+      {
+        roles: { $exists: false },
+      },
+      {
+        $set: { roles: ['user'] },
+      },
+    );
+
+    console.log(`✓ Gave ${defaulted.modifiedCount} users the default role`);
+  },
+
+  async down(db, client) {
+    // Only the primary role fits in the old field; additional roles are lost
+    const result = await db.collection('users').updateMany(
+      {
+        roles: { $exists: true },
+      },
+      [
+        {
+          $set: {
+            role: { $ifNull: [{ $arrayElemAt: ['$roles', 0] }, 'user'] },
+          },
+        },
+        { $unset: 'roles' },
+      ],
+    );
+
+    console.log(
+      `✓ Moved the primary role of ${result.modifiedCount} users back to role`,
+    );
+  },
+};
@@ -22,31 +22,48 @@ import {
 import { AdminService } from './admin.service';
 import { AuthGuard } from '../auth/guards/auth.guard';
 import { PermissionGuard } from '../common/guards/permission.guard';
-import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import {
+  RequirePermissions,
+  RequireScopedPermission,
+} from '../common/decorators/permissions.decorator';
+import { ScopedPermissionGuard } from '../organization/guards/scoped-permission.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
-import { UserRole } from '../user/enums/user-role.enum';
+import { AuthenticatedUser } from '../auth/guards/auth.guard';
+import { RequestAuditContext } from '../audit/decorators/audit-context.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
 import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { DeleteUserQueryDto } from './dto/delete-user-query.dto';
 import { UpdateUserStatusDto } from './dto/update-user-status.dto';
 import { UpdateUserRoleDto } from './dto/update-user-role.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { CreateUserDto } from './dto/create-user.dto';
 import { ApiResponse } from '../common/dto/api-response.dto';
-import { AdminUserDto, UserListData } from './dto/admin-user-response.dto';
+import {
+  AdminUserDto,
+  UserListData,
+  UserStatusData,
+} from './dto/admin-user-response.dto';
 import { UserService } from '../user/user.service';
 import { AddPermissionDto } from '../user/dto/add-permission.dto';
+import { DenyPermissionDto } from '../user/dto/deny-permission.dto';
+import { UserPermissionsResponseDto } from '../user/dto/user-permissions-response.dto';
 import {
   USER_PERMISSIONS,
   PERMISSION_PERMISSIONS,
+  PERMISSION_CATEGORIES,
+  PERMISSION_ACTIONS,
 } from '../common/constants/permissions';
 
 /**
  * Admin controller for user management operations.
  * All endpoints require specific permissions based on the operation.
+ * Listing, viewing and updating users also accept the team scope
+ * (users:update:team), which limits the actor to users on their teams.
  */
 @ApiTags('admin')
 @ApiBearerAuth('JWT-auth')
 @Controller('admin/users')
-@UseGuards(AuthGuard, PermissionGuard)
+@UseGuards(AuthGuard, PermissionGuard, ScopedPermissionGuard)
 export class AdminController {
   constructor(
     private readonly adminService: AdminService,
@@ -71,24 +88,26 @@ export class AdminController {
   @ApiBody({ type: CreateUserDto })
   async createUser(
     @Body() dto: CreateUserDto,
-    @CurrentUser('role') actorRole: UserRole,
+    @CurrentUser('roles') actorRoles: string[],
   ): Promise<ApiResponse<AdminUserDto>> {
-    return this.adminService.createUser(dto, actorRole);
+    return this.adminService.createUser(dto, actorRoles);
   }
 
   /**
    * List all users with pagination and filtering.
-   * Results are filtered based on actor's role hierarchy.
+   * Results are filtered based on actor's role hierarchy, and to the actor's
+   * teams when they only hold users:list:team.
    *
    * @example GET /admin/users?page=1&limit=10&search=john&role=user
    */
   @Get()
-  @RequirePermissions(USER_PERMISSIONS.LIST_ALL)
+  @RequireScopedPermission(PERMISSION_CATEGORIES.USERS, PERMISSION_ACTIONS.LIST)
   @ApiOperation({
     summary: 'List all users',
     description:
       'Returns a paginated list of users with optional filtering by search, role, and status. ' +
-      "Results are filtered based on actor's role hierarchy.",
+      "Results are filtered based on actor's role hierarchy. " +
+      "With users:list:team instead of users:list:all, only members of the actor's teams are listed.",
   })
   @ApiQuery({
     name: 'page',
@@ -129,9 +148,9 @@ export class AdminController {
   })
   async listUsers(
     @Query() query: ListUsersQueryDto,
-    @CurrentUser('role') actorRole: UserRole,
+    @CurrentUser() actor: AuthenticatedUser,
   ): Promise<ApiResponse<UserListData>> {
-    return this.adminService.listUsers(query, actorRole);
+    return this.adminService.listUsers(query, actor.roles, actor);
   }
 
   /**
@@ -141,12 +160,16 @@ export class AdminController {
    * @example GET /admin/users/:id
    */
   @Get(':id')
-  @RequirePermissions(USER_PERMISSIONS.READ_ALL)
+  @RequireScopedPermission(
+    PERMISSION_CATEGORIES.USERS,
+    PERMISSION_ACTIONS.READ,
+    'id',
+  )
   @ApiOperation({
     summary: 'Get user by ID',
     description:
       'Returns detailed information about a specific user. ' +
-      'Only users with same or lower role can be viewed.',
+      'Only users with same or lower role can be viewed, and with users:read:team only teammates.',
   })
   @ApiParam({
     name: 'id',
@@ -155,9 +178,9 @@ export class AdminController {
   })
   async getUserById(
     @Param('id') id: string,
-    @CurrentUser('role') actorRole: UserRole,
+    @CurrentUser('roles') actorRoles: string[],
   ): Promise<ApiResponse<AdminUserDto>> {
-    return this.adminService.getUserById(id, actorRole);
+    return this.adminService.getUserById(id, actorRoles);
   }
 
   /**
@@ -168,7 +191,11 @@ export class AdminController {
    * @example PATCH /admin/users/:id
    */
   @Patch(':id')
-  @RequirePermissions(USER_PERMISSIONS.UPDATE_ALL)
+  @RequireScopedPermission(
+    PERMISSION_CATEGORIES.USERS,
+    PERMISSION_ACTIONS.UPDATE,
+    'id',
+  )
   @ApiOperation({
     summary: 'Update user information',
     description:
@@ -184,24 +211,29 @@ export class AdminController {
     @Param('id') id: string,
     @Body() dto: UpdateUserDto,
     @CurrentUser('id') actorId: string,
-    @CurrentUser('role') actorRole: UserRole,
+    @CurrentUser('roles') actorRoles: string[],
   ): Promise<ApiResponse<AdminUserDto>> {
-    return this.adminService.updateUser(id, dto, actorId, actorRole);
+    return this.adminService.updateUser(id, dto, actorId, actorRoles);
   }
 
   /**
-   * Update user activation status (activate/deactivate).
+   * Update user account status (activate, suspend, deactivate).
    * Cannot modify users with higher or equal role.
    * Cannot modify own account.
    *
    * @example PATCH /admin/users/:id/status
    */
   @Patch(':id/status')
-  @RequirePermissions(USER_PERMISSIONS.UPDATE_ALL)
+  @RequireScopedPermission(
+    PERMISSION_CATEGORIES.USERS,
+    PERMISSION_ACTIONS.UPDATE,
+    'id',
+  )
   @ApiOperation({
     summary: 'Update user status',
     description:
-      'Updates the activation status of a user (activate or deactivate). ' +
+      'Updates the account status of a user (active, suspended, deactivated). ' +
+      'Any status other than active signs the user out of every session. ' +
       'Cannot modify users with higher or equal role. Cannot modify own account.',
   })
   @ApiParam({
@@ -214,28 +246,31 @@ export class AdminController {
     @Param('id') id: string,
     @Body() dto: UpdateUserStatusDto,
     @CurrentUser('id') actorId: string,
-    @CurrentUser('role') actorRole: UserRole,
-  ): Promise<
-    ApiResponse<{ id: string; isDeleted: boolean; deletedAt?: Date }>
-  > {
-    return this.adminService.updateUserStatus(id, dto, actorId, actorRole);
+    @CurrentUser('roles') actorRoles: string[],
+  ): Promise<ApiResponse<UserStatusData>> {
+    return this.adminService.updateUserStatus(id, dto, actorId, actorRoles);
   }
 
   /**
-   * Update user role.
+   * Update user roles.
    * Cannot assign ADMIN role via API.
    * Cannot modify users with higher or equal role.
-   * Cannot modify own role.
+   * Cannot modify own roles.
    *
    * @example PATCH /admin/users/:id/role
    */
   @Patch(':id/role')
-  @RequirePermissions(USER_PERMISSIONS.UPDATE_ALL)
+  @RequireScopedPermission(
+    PERMISSION_CATEGORIES.USERS,
+    PERMISSION_ACTIONS.UPDATE,
+    'id',
+  )
   @ApiOperation({
-    summary: 'Update user role',
+    summary: 'Update user roles',
     description:
-      'Updates the role of a user. Cannot assign ADMIN role via API. ' +
-      'Cannot modify users with higher or equal role. Cannot modify own role.',
+      'Replaces the roles of a user; the first is the primary role. ' +
+      'Cannot assign ADMIN role via API. Cannot modify users with higher ' +
+      'or equal role, or assign roles above your own. Cannot modify own roles.',
   })
   @ApiParam({
     name: 'id',
@@ -247,17 +282,25 @@ export class AdminController {
     @Param('id') id: string,
     @Body() dto: UpdateUserRoleDto,
     @CurrentUser('id') actorId: string,
-    @CurrentUser('role') actorRole: UserRole,
-  ): Promise<ApiResponse<{ id: string; role: UserRole }>> {
-    return this.adminService.updateUserRole(id, dto, actorId, actorRole);
+    @CurrentUser('roles') actorRoles: string[],
+    @RequestAuditContext() auditContext: AuditContext,
+  ): Promise<ApiResponse<{ id: string; roles: string[] }>> {
+    return this.adminService.updateUserRole(
+      id,
+      dto,
+      actorId,
+      actorRoles,
+      auditContext,
+    );
   }
 
   /**
-   * Soft delete a user.
+   * Soft delete a user, or erase them right away with `hard=true`.
    * Cannot delete users with higher or equal role.
    * Cannot delete own account.
    *
    * @example DELETE /admin/users/:id
+   * @example DELETE /admin/users/:id?hard=true
    */
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
@@ -265,19 +308,61 @@ export class AdminController {
   @ApiOperation({
     summary: 'Delete user',
     description:
-      'Soft deletes a user account. Cannot delete users with higher or equal role. Cannot delete own account.',
+      'Soft deletes a user account, which is erased once the grace period ends. ' +
+      'With hard=true the account and its data in every collection are erased immediately ' +
+      'and a tombstone records the erasure. Cannot delete users with higher or equal role. Cannot delete own account.',
   })
   @ApiParam({
     name: 'id',
     description: 'User ID',
     example: '507f1f77bcf86cd799439011',
   })
+  @ApiQuery({
+    name: 'hard',
+    required: false,
+    description: 'Erase immediately instead of after the grace period',
+    example: true,
+    type: Boolean,
+  })
   async deleteUser(
     @Param('id') id: string,
+    @Query() query: DeleteUserQueryDto,
     @CurrentUser('id') actorId: string,
-    @CurrentUser('role') actorRole: UserRole,
+    @CurrentUser('roles') actorRoles: string[],
   ): Promise<void> {
-    return this.adminService.deleteUser(id, actorId, actorRole);
+    return this.adminService.deleteUser(id, actorId, actorRoles, query.hard);
+  }
+
+  /**
+   * Clear the sign-in lock placed after repeated failed logins.
+   * Cannot modify users with higher or equal role.
+   *
+   * @example DELETE /admin/users/:id/lock
+   */
+  @Delete(':id/lock')
+  @HttpCode(HttpStatus.OK)
+  @RequireScopedPermission(
+    PERMISSION_CATEGORIES.USERS,
+    PERMISSION_ACTIONS.UPDATE,
+    'id',
+  )
+  @ApiOperation({
+    summary: 'Clear sign-in lock',
+    description:
+      'Resets the failed sign-in counter for a user and lifts any active lock on their email. ' +
+      'Cannot modify users with higher or equal role.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  async clearLoginLock(
+    @Param('id') id: string,
+    @CurrentUser('id') actorId: string,
+    @CurrentUser('roles') actorRoles: string[],
+  ): Promise<ApiResponse<{ id: string; wasLocked: boolean }>> {
+    return this.adminService.clearLoginLock(id, actorId, actorRoles);
   }
 
   /**
@@ -290,7 +375,8 @@ export class AdminController {
   @RequirePermissions(PERMISSION_PERMISSIONS.READ_ALL)
   @ApiOperation({
     summary: 'Get user permissions',
-    description: 'Returns all permissions assigned to a specific user.',
+    description:
+      'Returns all permissions assigned to a specific user, with the grantor and expiry of each active grant.',
   })
   @ApiParam({
     name: 'id',
@@ -299,9 +385,7 @@ export class AdminController {
   })
   async getUserPermissions(
     @Param('id') userId: string,
-  ): Promise<
-    ApiResponse<{ userId: string; permissions: string[]; role: string }>
-  > {
+  ): Promise<ApiResponse<UserPermissionsResponseDto>> {
     return this.userService.getUserPermissions(userId);
   }
 
@@ -317,7 +401,7 @@ export class AdminController {
   @ApiOperation({
     summary: 'Add permission to user',
     description:
-      'Adds a specific permission to a user. The permission must follow the format: resource:action[:scope]',
+      'Grants a specific permission to a user, optionally until expiresAt. The permission must follow the format: resource:action[:scope]',
   })
   @ApiParam({
     name: 'id',
@@ -328,8 +412,14 @@ export class AdminController {
   async addPermission(
     @Param('id') userId: string,
     @Body() dto: AddPermissionDto,
+    @RequestAuditContext() auditContext: AuditContext,
   ): Promise<ApiResponse<{ userId: string; permissions: string[] }>> {
-    return this.userService.addPermission(userId, dto.permission);
+    return this.userService.addPermission(
+      userId,
+      dto.permission,
+      dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+      auditContext,
+    );
   }
 
   /**
@@ -358,9 +448,82 @@ export class AdminController {
   async removePermission(
     @Param('id') userId: string,
     @Param('permission') permission: string,
+    @RequestAuditContext() auditContext: AuditContext,
   ): Promise<ApiResponse<{ userId: string; permissions: string[] }>> {
     // URL decode the permission parameter
     const decodedPermission = decodeURIComponent(permission);
-    return this.userService.removePermission(userId, decodedPermission);
+    return this.userService.removePermission(
+      userId,
+      decodedPermission,
+      auditContext,
+    );
+  }
+
+  /**
+   * Deny a permission to a user.
+   * Only ADMIN can deny permissions.
+   *
+   * @example POST /admin/users/:id/permissions/denials
+   */
+  @Post(':id/permissions/denials')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSION_PERMISSIONS.REVOKE_ALL)
+  @ApiOperation({
+    summary: 'Deny permission to user',
+    description:
+      'Denies a specific permission to a user, optionally until expiresAt. Denials override role and direct permissions, including the wildcard (*).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiBody({ type: DenyPermissionDto })
+  async denyPermission(
+    @Param('id') userId: string,
+    @Body() dto: DenyPermissionDto,
+    @RequestAuditContext() auditContext: AuditContext,
+  ): Promise<ApiResponse<{ userId: string; denied: string[] }>> {
+    return this.userService.denyPermission(
+      userId,
+      dto.permission,
+      dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+      auditContext,
+    );
+  }
+
+  /**
+   * Lift a permission denial.
+   * Only ADMIN can lift denials.
+   *
+   * @example DELETE /admin/users/:id/permissions/denials/:permission
+   */
+  @Delete(':id/permissions/denials/:permission')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(PERMISSION_PERMISSIONS.GRANT_ALL)
+  @ApiOperation({
+    summary: 'Remove permission denial',
+    description: "Lifts a denial so the user's other permissions apply again.",
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiParam({
+    name: 'permission',
+    description: 'Denied permission (URL encoded)',
+    example: 'users:delete:all',
+  })
+  async removeDenial(
+    @Param('id') userId: string,
+    @Param('permission') permission: string,
+    @RequestAuditContext() auditContext: AuditContext,
+  ): Promise<ApiResponse<{ userId: string; denied: string[] }>> {
+    return this.userService.removeDenial(
+      userId,
+      decodeURIComponent(permission),
+      auditContext,
+    );
   }
 }
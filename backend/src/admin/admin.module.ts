@@ -2,25 +2,42 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
+import { StatsController } from './stats.controller';
+import { StatsService } from './stats.service';
 import { User, UserSchema } from '../user/schemas/user.schema';
 import { Session, SessionSchema } from '../session/schemas/session.schema';
+import {
+  LoginAttempt,
+  LoginAttemptSchema,
+} from '../auth/schemas/login-attempt.schema';
 import { SessionService } from '../auth/services/session.service';
+import { LoginAttemptService } from '../auth/services/login-attempt.service';
+import { MailModule } from '../mail/mail.module';
+import { AuditModule } from '../audit/audit.module';
 import { UserModule } from '../user/user.module';
+import { PermissionModule } from '../permission/permission.module';
+import { OrganizationModule } from '../organization/organization.module';
 
 /**
  * Admin module for user management operations.
- * Provides endpoints for listing, viewing, updating, and deleting users.
+ * Provides endpoints for listing, viewing, updating, and deleting users,
+ * and the statistics shown on the dashboards.
  */
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: Session.name, schema: SessionSchema },
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
     ]),
     forwardRef(() => UserModule),
+    MailModule,
+    AuditModule,
+    PermissionModule, // Required for AuthGuard
+    OrganizationModule, // Required for ScopedPermissionGuard
   ],
-  controllers: [AdminController],
-  providers: [AdminService, SessionService],
+  controllers: [AdminController, StatsController],
+  providers: [AdminService, StatsService, SessionService, LoginAttemptService],
   exports: [AdminService],
 })
 export class AdminModule {}
@@ -1,13 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/mongoose';
 import { Types } from 'mongoose';
 import { HttpStatus } from '@nestjs/common';
 import { AdminService } from './admin.service';
 import { User } from '../user/schemas/user.schema';
 import { UserRole } from '../user/enums/user-role.enum';
+import { AccountStatus } from '../user/enums/account-status.enum';
 import { SessionService } from '../auth/services/session.service';
+import { LoginAttemptService } from '../auth/services/login-attempt.service';
+import { AccountErasureService } from '../user/services/account-erasure.service';
+import { AuditService } from '../audit/audit.service';
+import { PermissionService } from '../permission/permission.service';
+import { TeamService } from '../organization/team.service';
+import { USER_PERMISSIONS } from '../common/constants/permissions';
+import { ROLE_HIERARCHY } from '../common/utils/role-hierarchy';
 import { AppException } from '../common/exceptions/app.exception';
 import { ErrorCode } from '../common/enums/error-code.enum';
+import { OrganizationRole } from '../organization/enums/organization-role.enum';
 
 describe('AdminService', () => {
   let service: AdminService;
@@ -19,7 +29,7 @@ describe('AdminService', () => {
     _id: new Types.ObjectId(mockUserId),
     email: 'user@example.com',
     name: 'Test User',
-    role: UserRole.USER,
+    roles: [UserRole.USER],
     isVerified: true,
     isDeleted: false,
     googleId: null,
@@ -37,6 +47,27 @@ describe('AdminService', () => {
     invalidateAllSessions: jest.fn().mockResolvedValue(1),
   };
 
+  const mockLoginAttemptService = {
+    getActiveLocks: jest.fn(),
+    clearLock: jest.fn(),
+  };
+
+  const mockAccountErasureService = {
+    eraseUser: jest.fn().mockResolvedValue({}),
+  };
+
+  const mockAuditService = {
+    record: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockPermissionService = {
+    getRoleLevels: jest.fn().mockResolvedValue(ROLE_HIERARCHY),
+  };
+
+  const mockTeamService = {
+    getTeammateIds: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -49,12 +80,41 @@ describe('AdminService', () => {
           provide: SessionService,
           useValue: mockSessionService,
         },
+        {
+          provide: LoginAttemptService,
+          useValue: mockLoginAttemptService,
+        },
+        {
+          provide: AccountErasureService,
+          useValue: mockAccountErasureService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+        {
+          provide: PermissionService,
+          useValue: mockPermissionService,
+        },
+        {
+          provide: TeamService,
+          useValue: mockTeamService,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (_key: string, defaultValue?: unknown) => defaultValue,
+            ),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<AdminService>(AdminService);
 
     jest.clearAllMocks();
+    mockLoginAttemptService.getActiveLocks.mockResolvedValue(new Map());
   });
 
   it('should be defined', () => {
@@ -79,10 +139,9 @@ describe('AdminService', () => {
     });
 
     it('should return paginated user list', async () => {
-      const result = await service.listUsers(
-        { page: 1, limit: 10 },
+      const result = await service.listUsers({ page: 1, limit: 10 }, [
         UserRole.ADMIN,
-      );
+      ]);
 
       expect(result.success).toBe(true);
       expect(result.data?.data).toHaveLength(2);
@@ -91,22 +150,67 @@ describe('AdminService', () => {
     });
 
     it('should filter by role when provided', async () => {
-      await service.listUsers(
-        { page: 1, limit: 10, role: UserRole.USER },
+      await service.listUsers({ page: 1, limit: 10, role: UserRole.USER }, [
         UserRole.ADMIN,
-      );
+      ]);
 
       expect(mockUserModel.find).toHaveBeenCalled();
     });
 
     it('should apply search filter', async () => {
-      await service.listUsers(
-        { page: 1, limit: 10, search: 'john' },
+      await service.listUsers({ page: 1, limit: 10, search: 'john' }, [
         UserRole.ADMIN,
-      );
+      ]);
 
       expect(mockUserModel.find).toHaveBeenCalled();
     });
+
+    describe('team scope', () => {
+      const organizationId = new Types.ObjectId().toString();
+      const teammateIds = [new Types.ObjectId(), new Types.ObjectId()];
+      const manager = {
+        id: mockActorId,
+        email: 'manager@example.com',
+        name: 'Manager',
+        roles: [UserRole.MANAGER],
+        isVerified: true,
+        organization: { id: organizationId, role: OrganizationRole.MEMBER },
+      };
+
+      beforeEach(() => {
+        mockTeamService.getTeammateIds.mockResolvedValue(teammateIds);
+      });
+
+      it('should only list teammates of actors with users:list:team', async () => {
+        await service.listUsers({ page: 1, limit: 10 }, manager.roles, {
+          ...manager,
+          permissions: [USER_PERMISSIONS.LIST_TEAM],
+        });
+
+        expect(mockTeamService.getTeammateIds).toHaveBeenCalledWith(
+          mockActorId,
+          organizationId,
+        );
+        expect(mockUserModel.find).toHaveBeenCalledWith(
+          expect.objectContaining({ _id: { $in: teammateIds } }),
+        );
+        expect(mockUserModel.countDocuments).toHaveBeenCalledWith(
+          expect.objectContaining({ _id: { $in: teammateIds } }),
+        );
+      });
+
+      it('should not limit actors with users:list:all', async () => {
+        await service.listUsers({ page: 1, limit: 10 }, manager.roles, {
+          ...manager,
+          permissions: [USER_PERMISSIONS.LIST_ALL, USER_PERMISSIONS.LIST_TEAM],
+        });
+
+        expect(mockTeamService.getTeammateIds).not.toHaveBeenCalled();
+        expect(mockUserModel.find).toHaveBeenCalledWith(
+          expect.not.objectContaining({ _id: expect.anything() }),
+        );
+      });
+    });
   });
 
   describe('getUserById', () => {
@@ -118,7 +222,7 @@ describe('AdminService', () => {
     });
 
     it('should return user by ID', async () => {
-      const result = await service.getUserById(mockUserId, UserRole.ADMIN);
+      const result = await service.getUserById(mockUserId, [UserRole.ADMIN]);
 
       expect(result.success).toBe(true);
       expect(result.data?.email).toBe('user@example.com');
@@ -131,7 +235,7 @@ describe('AdminService', () => {
       });
 
       await expect(
-        service.getUserById(mockUserId, UserRole.ADMIN),
+        service.getUserById(mockUserId, [UserRole.ADMIN]),
       ).rejects.toThrow(AppException);
     });
 
@@ -140,11 +244,11 @@ describe('AdminService', () => {
         select: jest.fn().mockReturnThis(),
         exec: jest
           .fn()
-          .mockResolvedValue({ ...mockUser, role: UserRole.ADMIN }),
+          .mockResolvedValue({ ...mockUser, roles: [UserRole.ADMIN] }),
       });
 
       await expect(
-        service.getUserById(mockUserId, UserRole.MANAGER),
+        service.getUserById(mockUserId, [UserRole.MANAGER]),
       ).rejects.toThrow(AppException);
     });
   });
@@ -171,22 +275,71 @@ describe('AdminService', () => {
         mockUserId,
         { isActive: false },
         mockActorId,
-        UserRole.ADMIN,
+        [UserRole.ADMIN],
       );
 
       expect(result.success).toBe(true);
+      expect(result.data?.status).toBe(AccountStatus.DEACTIVATED);
       expect(userToUpdate.save).toHaveBeenCalled();
       expect(mockSessionService.invalidateAllSessions).toHaveBeenCalled();
     });
 
+    it('should suspend user with a reason', async () => {
+      const userToUpdate = {
+        ...mockUser,
+        save: jest.fn().mockResolvedValue(true),
+      };
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(userToUpdate),
+      });
+
+      const result = await service.updateUserStatus(
+        mockUserId,
+        { status: AccountStatus.SUSPENDED, reason: 'Spam reports' },
+        mockActorId,
+        [UserRole.ADMIN],
+      );
+
+      expect(result.data).toMatchObject({
+        status: AccountStatus.SUSPENDED,
+        statusReason: 'Spam reports',
+        isDeleted: false,
+      });
+      expect(mockSessionService.invalidateAllSessions).toHaveBeenCalled();
+    });
+
+    it('should reactivate a deactivated user without touching sessions', async () => {
+      const userToUpdate = {
+        ...mockUser,
+        status: AccountStatus.DEACTIVATED,
+        isDeleted: true,
+        deletedAt: new Date(),
+        save: jest.fn().mockResolvedValue(true),
+      };
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(userToUpdate),
+      });
+
+      const result = await service.updateUserStatus(
+        mockUserId,
+        { isActive: true },
+        mockActorId,
+        [UserRole.ADMIN],
+      );
+
+      expect(result.data).toMatchObject({
+        status: AccountStatus.ACTIVE,
+        isDeleted: false,
+      });
+      expect(userToUpdate.deletedAt).toBeUndefined();
+      expect(mockSessionService.invalidateAllSessions).not.toHaveBeenCalled();
+    });
+
     it('should throw error when modifying self', async () => {
       await expect(
-        service.updateUserStatus(
-          mockUserId,
-          { isActive: false },
-          mockUserId,
+        service.updateUserStatus(mockUserId, { isActive: false }, mockUserId, [
           UserRole.ADMIN,
-        ),
+        ]),
       ).rejects.toThrow(
         new AppException(
           ErrorCode.CANNOT_MODIFY_SELF,
@@ -200,16 +353,13 @@ describe('AdminService', () => {
       mockUserModel.findById.mockReturnValue({
         exec: jest
           .fn()
-          .mockResolvedValue({ ...mockUser, role: UserRole.ADMIN }),
+          .mockResolvedValue({ ...mockUser, roles: [UserRole.ADMIN] }),
       });
 
       await expect(
-        service.updateUserStatus(
-          mockUserId,
-          { isActive: false },
-          mockActorId,
+        service.updateUserStatus(mockUserId, { isActive: false }, mockActorId, [
           UserRole.MANAGER,
-        ),
+        ]),
       ).rejects.toThrow(AppException);
     });
   });
@@ -235,23 +385,45 @@ describe('AdminService', () => {
 
       const result = await service.updateUserRole(
         mockUserId,
-        { role: UserRole.SUPPORT },
+        { roles: [UserRole.SUPPORT] },
         mockActorId,
-        UserRole.ADMIN,
+        [UserRole.ADMIN],
       );
 
       expect(result.success).toBe(true);
-      expect(result.data?.role).toBe(UserRole.SUPPORT);
+      expect(result.data?.roles).toEqual([UserRole.SUPPORT]);
       expect(mockSessionService.invalidateAllSessions).toHaveBeenCalled();
     });
 
+    it('should record the role change in the audit log', async () => {
+      await service.updateUserRole(
+        mockUserId,
+        { roles: [UserRole.SUPPORT] },
+        mockActorId,
+        [UserRole.ADMIN],
+        { ip: '203.0.113.7', userAgent: 'Mozilla/5.0' },
+      );
+
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actorId: mockActorId,
+          targetId: mockUserId,
+          ip: '203.0.113.7',
+          changes: {
+            before: { roles: [UserRole.USER] },
+            after: { roles: [UserRole.SUPPORT] },
+          },
+        }),
+      );
+    });
+
     it('should throw error when assigning ADMIN role', async () => {
       await expect(
         service.updateUserRole(
           mockUserId,
-          { role: UserRole.ADMIN },
+          { roles: [UserRole.ADMIN] },
           mockActorId,
-          UserRole.ADMIN,
+          [UserRole.ADMIN],
         ),
       ).rejects.toThrow(AppException);
     });
@@ -260,9 +432,43 @@ describe('AdminService', () => {
       await expect(
         service.updateUserRole(
           mockUserId,
-          { role: UserRole.SUPPORT },
+          { roles: [UserRole.SUPPORT] },
           mockUserId,
-          UserRole.ADMIN,
+          [UserRole.ADMIN],
+        ),
+      ).rejects.toThrow(AppException);
+    });
+
+    it('should rank custom roles by their stored level', async () => {
+      mockPermissionService.getRoleLevels.mockResolvedValueOnce({
+        ...ROLE_HIERARCHY,
+        'team-lead': 2.5,
+      });
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockImplementation(() =>
+          Promise.resolve({
+            ...mockUser,
+            roles: ['team-lead'],
+            save: jest.fn().mockResolvedValue(true),
+          }),
+        ),
+      });
+
+      const result = await service.updateUserRole(
+        mockUserId,
+        { roles: [UserRole.SUPPORT] },
+        mockActorId,
+        [UserRole.MANAGER],
+      );
+
+      expect(result.data?.roles).toEqual([UserRole.SUPPORT]);
+
+      await expect(
+        service.updateUserRole(
+          mockUserId,
+          { roles: [UserRole.SUPPORT] },
+          mockActorId,
+          [UserRole.MANAGER],
         ),
       ).rejects.toThrow(AppException);
     });
@@ -287,15 +493,20 @@ describe('AdminService', () => {
         exec: jest.fn().mockResolvedValue(userToDelete),
       });
 
-      await service.deleteUser(mockUserId, mockActorId, UserRole.ADMIN);
+      await service.deleteUser(mockUserId, mockActorId, [UserRole.ADMIN]);
 
+      expect(userToDelete).toMatchObject({
+        status: AccountStatus.PENDING_DELETION,
+        isDeleted: true,
+        scheduledDeletionAt: expect.any(Date) as Date,
+      });
       expect(userToDelete.save).toHaveBeenCalled();
       expect(mockSessionService.invalidateAllSessions).toHaveBeenCalled();
     });
 
     it('should throw error when deleting self', async () => {
       await expect(
-        service.deleteUser(mockUserId, mockUserId, UserRole.ADMIN),
+        service.deleteUser(mockUserId, mockUserId, [UserRole.ADMIN]),
       ).rejects.toThrow(AppException);
     });
 
@@ -305,8 +516,102 @@ describe('AdminService', () => {
       });
 
       await expect(
-        service.deleteUser(mockUserId, mockActorId, UserRole.ADMIN),
+        service.deleteUser(mockUserId, mockActorId, [UserRole.ADMIN]),
       ).rejects.toThrow(AppException);
     });
+
+    it('should erase the user right away when hard', async () => {
+      const userToDelete = {
+        ...mockUser,
+        save: jest.fn().mockResolvedValue(true),
+      };
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(userToDelete),
+      });
+
+      await service.deleteUser(mockUserId, mockActorId, [UserRole.ADMIN], true);
+
+      expect(mockAccountErasureService.eraseUser).toHaveBeenCalledWith(
+        userToDelete,
+        { trigger: 'admin', requestedBy: mockActorId },
+      );
+      expect(userToDelete.save).not.toHaveBeenCalled();
+    });
+
+    it('should hard delete a user already pending deletion', async () => {
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          ...mockUser,
+          isDeleted: true,
+          status: AccountStatus.PENDING_DELETION,
+        }),
+      });
+
+      await service.deleteUser(mockUserId, mockActorId, [UserRole.ADMIN], true);
+
+      expect(mockAccountErasureService.eraseUser).toHaveBeenCalled();
+    });
+
+    it('should not erase an anonymised user again', async () => {
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue({
+          ...mockUser,
+          isDeleted: true,
+          anonymizedAt: new Date(),
+        }),
+      });
+
+      await expect(
+        service.deleteUser(mockUserId, mockActorId, [UserRole.ADMIN], true),
+      ).rejects.toMatchObject({ code: ErrorCode.USER_ALREADY_DELETED });
+      expect(mockAccountErasureService.eraseUser).not.toHaveBeenCalled();
+    });
+
+    it('should not hard delete a user with a higher role', async () => {
+      mockUserModel.findById.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue({ ...mockUser, roles: [UserRole.ADMIN] }),
+      });
+
+      await expect(
+        service.deleteUser(mockUserId, mockActorId, [UserRole.MANAGER], true),
+      ).rejects.toMatchObject({ code: ErrorCode.CANNOT_MODIFY_HIGHER_ROLE });
+      expect(mockAccountErasureService.eraseUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('clearLoginLock', () => {
+    beforeEach(() => {
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(mockUser),
+      });
+    });
+
+    it('should clear the lock on the user email', async () => {
+      mockLoginAttemptService.clearLock.mockResolvedValue(true);
+
+      const result = await service.clearLoginLock(mockUserId, mockActorId, [
+        UserRole.ADMIN,
+      ]);
+
+      expect(mockLoginAttemptService.clearLock).toHaveBeenCalledWith(
+        mockUser.email,
+      );
+      expect(result.data).toEqual({ id: mockUserId, wasLocked: true });
+    });
+
+    it('should throw error when actor cannot manage user', async () => {
+      mockUserModel.findById.mockReturnValue({
+        exec: jest
+          .fn()
+          .mockResolvedValue({ ...mockUser, roles: [UserRole.ADMIN] }),
+      });
+
+      await expect(
+        service.clearLoginLock(mockUserId, mockActorId, [UserRole.MANAGER]),
+      ).rejects.toMatchObject({ code: ErrorCode.CANNOT_MODIFY_HIGHER_ROLE });
+      expect(mockLoginAttemptService.clearLock).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,12 +1,26 @@
 import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
 import { User, UserDocument } from '../user/schemas/user.schema';
-import { UserRole } from '../user/enums/user-role.enum';
+import { AccountStatus } from '../user/enums/account-status.enum';
 import { SessionService } from '../auth/services/session.service';
+import { LoginAttemptService } from '../auth/services/login-attempt.service';
+import { AccountErasureService } from '../user/services/account-erasure.service';
+import { AuditService } from '../audit/audit.service';
+import { PermissionService } from '../permission/permission.service';
+import { TeamService } from '../organization/team.service';
+import { AuthenticatedUser } from '../auth/guards/auth.guard';
+import { AuditAction, AuditTargetType } from '../audit/enums/audit-action.enum';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { diffChanges } from '../audit/utils/audit-diff';
 import { ListUsersQueryDto } from './dto/list-users-query.dto';
-import { AdminUserDto, UserListData } from './dto/admin-user-response.dto';
+import {
+  AdminUserDto,
+  UserListData,
+  UserStatusData,
+} from './dto/admin-user-response.dto';
 import { UpdateUserStatusDto } from './dto/update-user-status.dto';
 import { UpdateUserRoleDto } from './dto/update-user-role.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
@@ -19,7 +33,13 @@ import {
   getViewableRoles,
   isValidRoleAssignment,
 } from '../common/utils/role-hierarchy';
+import {
+  getAccountStatus,
+  setAccountStatus,
+} from '../common/utils/account-status';
 import { ApiResponse } from '../common/dto/api-response.dto';
+import { USER_PERMISSIONS } from '../common/constants/permissions';
+import { hasPermission } from '../common/utils/permission.utils';
 
 /**
  * Admin service for user management operations.
@@ -33,6 +53,12 @@ export class AdminService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private readonly sessionService: SessionService,
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly accountErasureService: AccountErasureService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+    private readonly permissionService: PermissionService,
+    private readonly teamService: TeamService,
   ) {}
 
   /**
@@ -41,7 +67,7 @@ export class AdminService {
    */
   async createUser(
     dto: CreateUserDto,
-    actorRole: UserRole,
+    actorRoles: string[],
   ): Promise<ApiResponse<AdminUserDto>> {
     const { email, name, password, role } = dto;
 
@@ -65,7 +91,8 @@ export class AdminService {
     }
 
     // Check if actor can manage this role
-    if (!canManageUser(actorRole, role)) {
+    const levels = await this.permissionService.getRoleLevels();
+    if (!canManageUser(actorRoles, role, levels)) {
       throw new AppException(
         ErrorCode.CANNOT_MODIFY_HIGHER_ROLE,
         'Cannot create user with higher or equal role',
@@ -81,7 +108,7 @@ export class AdminService {
       email,
       name,
       password: hashedPassword,
-      role,
+      roles: [role],
       isVerified: true, // Admin-created users are auto-verified
       permissions: [],
       authProvider: 'email',
@@ -101,11 +128,13 @@ export class AdminService {
 
   /**
    * List users with pagination and filtering.
-   * Results are filtered based on actor's role hierarchy.
+   * Results are filtered based on actor's role hierarchy. An `actor` who
+   * can only list users on their teams (users:list:team) sees just those.
    */
   async listUsers(
     query: ListUsersQueryDto,
-    actorRole: UserRole,
+    actorRoles: string[],
+    actor?: AuthenticatedUser,
   ): Promise<ApiResponse<UserListData>> {
     const {
       page = 1,
@@ -121,13 +150,30 @@ export class AdminService {
     const skip = (page - 1) * limit;
 
     // Get viewable roles based on actor's role hierarchy
-    const viewableRoles = getViewableRoles(actorRole);
+    const viewableRoles = getViewableRoles(
+      actorRoles,
+      await this.permissionService.getRoleLevels(),
+    );
 
     // Build base query
     const filterQuery: Record<string, unknown> = {};
 
-    // Filter by viewable roles (role hierarchy enforcement)
-    filterQuery.role = { $in: viewableRoles };
+    // Filter by viewable roles (role hierarchy enforcement): every role of a
+    // listed user must be viewable
+    const roleFilter: Record<string, unknown> = {
+      $not: { $elemMatch: { $nin: viewableRoles } },
+    };
+    filterQuery.roles = roleFilter;
+
+    // Limit team-scoped actors to members of their teams
+    if (actor && !hasPermission(actor.permissions, USER_PERMISSIONS.LIST_ALL)) {
+      filterQuery._id = {
+        $in: await this.teamService.getTeammateIds(
+          actor.id,
+          actor.organization?.id,
+        ),
+      };
+    }
 
     // Add text search
     if (search) {
@@ -139,7 +185,7 @@ export class AdminService {
 
     // Add role filter (only if it's within viewable roles)
     if (role && viewableRoles.includes(role)) {
-      filterQuery.role = role;
+      roleFilter.$all = [role];
     }
 
     // Add verification status filter
@@ -153,9 +199,19 @@ export class AdminService {
     } else if (status === 'inactive') {
       filterQuery.isVerified = false;
       filterQuery.isDeleted = false;
+      filterQuery.status = { $ne: AccountStatus.SUSPENDED };
     } else if (status === 'active') {
       filterQuery.isVerified = true;
       filterQuery.isDeleted = false;
+      filterQuery.status = { $ne: AccountStatus.SUSPENDED };
+    } else if (status === AccountStatus.SUSPENDED) {
+      filterQuery.status = AccountStatus.SUSPENDED;
+    } else if (status === AccountStatus.DEACTIVATED) {
+      // Legacy deleted users have no status and count as deactivated
+      filterQuery.isDeleted = true;
+      filterQuery.status = { $ne: AccountStatus.PENDING_DELETION };
+    } else if (status === AccountStatus.PENDING_DELETION) {
+      filterQuery.status = AccountStatus.PENDING_DELETION;
     }
 
     // Build sort
@@ -178,12 +234,19 @@ export class AdminService {
 
     const totalPages = Math.ceil(total / limit);
 
+    // Flag users whose sign-in is locked after repeated failures
+    const locks = await this.loginAttemptService.getActiveLocks(
+      users.map((user) => user.email),
+    );
+
     this.logger.log(
       `Listed ${users.length} users (page ${page}, total ${total})`,
     );
 
     return ApiResponse.success({
-      data: users.map((user) => this.mapToAdminUserDto(user)),
+      data: users.map((user) =>
+        this.mapToAdminUserDto(user, locks.get(user.email.toLowerCase())),
+      ),
       pagination: {
         page,
         limit,
@@ -199,7 +262,7 @@ export class AdminService {
    */
   async getUserById(
     id: string,
-    actorRole: UserRole,
+    actorRoles: string[],
   ): Promise<ApiResponse<AdminUserDto>> {
     const user = await this.userModel
       .findById(id)
@@ -218,9 +281,10 @@ export class AdminService {
     }
 
     // Check if actor can view this user based on role hierarchy
-    if (!canViewUser(actorRole, user.role)) {
+    const levels = await this.permissionService.getRoleLevels();
+    if (!canViewUser(actorRoles, user.roles, levels)) {
       this.logger.warn(
-        `Access denied: ${actorRole} cannot view ${user.role} user`,
+        `Access denied: ${actorRoles.join(', ')} cannot view ${user.roles.join(', ')} user`,
       );
       throw new AppException(
         ErrorCode.CANNOT_MODIFY_HIGHER_ROLE,
@@ -229,8 +293,12 @@ export class AdminService {
       );
     }
 
+    const locks = await this.loginAttemptService.getActiveLocks([user.email]);
+
     this.logger.log(`Retrieved user: ${user.email}`);
-    return ApiResponse.success(this.mapToAdminUserDto(user));
+    return ApiResponse.success(
+      this.mapToAdminUserDto(user, locks.get(user.email.toLowerCase())),
+    );
   }
 
   /**
@@ -240,7 +308,7 @@ export class AdminService {
     id: string,
     dto: UpdateUserDto,
     actorId: string,
-    actorRole: UserRole,
+    actorRoles: string[],
   ): Promise<ApiResponse<AdminUserDto>> {
     const { name, email } = dto;
 
@@ -264,7 +332,8 @@ export class AdminService {
     }
 
     // Check if actor can manage target
-    if (!canManageUser(actorRole, targetUser.role)) {
+    const levels = await this.permissionService.getRoleLevels();
+    if (!canManageUser(actorRoles, targetUser.roles, levels)) {
       throw new AppException(
         ErrorCode.CANNOT_MODIFY_HIGHER_ROLE,
         'Cannot modify user with higher or equal role',
@@ -301,21 +370,22 @@ export class AdminService {
   }
 
   /**
-   * Update user activation status.
+   * Update user account status (activate, suspend, deactivate).
+   * Any status other than active signs the user out everywhere.
    */
   async updateUserStatus(
     id: string,
     dto: UpdateUserStatusDto,
     actorId: string,
-    actorRole: UserRole,
-  ): Promise<
-    ApiResponse<{ id: string; isDeleted: boolean; deletedAt?: Date }>
-  > {
-    const { isActive } = dto;
+    actorRoles: string[],
+  ): Promise<ApiResponse<UserStatusData>> {
+    const status =
+      dto.status ??
+      (dto.isActive ? AccountStatus.ACTIVE : AccountStatus.DEACTIVATED);
 
-    // Find target user
+    // Find target user (inactive users can be reactivated)
     const targetUser = await this.userModel.findById(id).exec();
-    if (!targetUser || targetUser.isDeleted) {
+    if (!targetUser) {
       throw new AppException(
         ErrorCode.USER_NOT_FOUND,
         'User not found',
@@ -333,7 +403,8 @@ export class AdminService {
     }
 
     // Check if actor can manage target
-    if (!canManageUser(actorRole, targetUser.role)) {
+    const levels = await this.permissionService.getRoleLevels();
+    if (!canManageUser(actorRoles, targetUser.roles, levels)) {
       throw new AppException(
         ErrorCode.CANNOT_MODIFY_HIGHER_ROLE,
         'Cannot modify user with higher or equal role',
@@ -342,42 +413,37 @@ export class AdminService {
     }
 
     // Update user status
-    if (isActive) {
-      targetUser.isDeleted = false;
-      targetUser.deletedAt = undefined;
-    } else {
-      targetUser.isDeleted = true;
-      targetUser.deletedAt = new Date();
-    }
-
+    setAccountStatus(targetUser, status, dto.reason);
     await targetUser.save();
 
-    // Invalidate sessions if deactivating
-    if (!isActive) {
+    // Invalidate sessions unless activating
+    if (status !== AccountStatus.ACTIVE) {
       await this.sessionService.invalidateAllSessions(new Types.ObjectId(id));
     }
 
-    this.logger.log(
-      `User ${id} status updated to ${isActive ? 'active' : 'inactive'} by ${actorId}`,
-    );
+    this.logger.log(`User ${id} status updated to ${status} by ${actorId}`);
 
     return ApiResponse.success({
       id: targetUser._id.toString(),
+      status: targetUser.status,
+      statusReason: targetUser.statusReason,
       isDeleted: targetUser.isDeleted,
       deletedAt: targetUser.deletedAt,
     });
   }
 
   /**
-   * Update user role.
+   * Update user roles.
+   * The change is recorded in the audit log with the request details from `context`.
    */
   async updateUserRole(
     id: string,
     dto: UpdateUserRoleDto,
     actorId: string,
-    actorRole: UserRole,
-  ): Promise<ApiResponse<{ id: string; role: UserRole }>> {
-    const { role: newRole } = dto;
+    actorRoles: string[],
+    context?: AuditContext,
+  ): Promise<ApiResponse<{ id: string; roles: string[] }>> {
+    const { roles: newRoles } = dto;
 
     // Find target user
     const targetUser = await this.userModel.findById(id).exec();
@@ -399,7 +465,7 @@ export class AdminService {
     }
 
     // Check if role assignment is valid
-    if (!isValidRoleAssignment(newRole)) {
+    if (!newRoles.every((role) => isValidRoleAssignment(role))) {
       throw new AppException(
         ErrorCode.INVALID_ROLE_ASSIGNMENT,
         'Cannot assign ADMIN role via API',
@@ -407,8 +473,22 @@ export class AdminService {
       );
     }
 
-    // Check if actor can manage target
-    if (!canManageUser(actorRole, targetUser.role)) {
+    // Every role must exist; the level map lists all roles
+    const levels = await this.permissionService.getRoleLevels();
+    const unknownRole = newRoles.find((role) => !(role in levels));
+    if (unknownRole) {
+      throw new AppException(
+        ErrorCode.INVALID_ROLE_ASSIGNMENT,
+        `Role "${unknownRole}" does not exist`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Check if actor can manage target, before and after the change
+    if (
+      !canManageUser(actorRoles, targetUser.roles, levels) ||
+      !canManageUser(actorRoles, newRoles, levels)
+    ) {
       throw new AppException(
         ErrorCode.CANNOT_MODIFY_HIGHER_ROLE,
         'Cannot modify user with higher or equal role',
@@ -416,32 +496,57 @@ export class AdminService {
       );
     }
 
-    // Update user role
-    targetUser.role = newRole;
+    // Update user roles
+    const previousRoles = [...targetUser.roles];
+    targetUser.roles = newRoles;
     await targetUser.save();
 
     // Invalidate sessions to force re-authentication
-    await this.sessionService.invalidateAllSessions(new Types.ObjectId(id));
+    const revokedSessions = await this.sessionService.invalidateAllSessions(
+      new Types.ObjectId(id),
+    );
 
-    this.logger.log(`User ${id} role changed to ${newRole} by ${actorId}`);
+    this.logger.log(
+      `User ${id} roles changed to ${newRoles.join(', ')} by ${actorId}`,
+    );
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.USER_ROLE_UPDATED,
+      actorId,
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      targetUser: id,
+      changes: diffChanges({ roles: previousRoles }, { roles: newRoles }),
+      metadata: { revokedSessions },
+    });
 
     return ApiResponse.success({
       id: targetUser._id.toString(),
-      role: newRole,
+      roles: newRoles,
     });
   }
 
   /**
    * Soft delete user.
+   * The account is marked pending deletion and can no longer sign in.
+   * It is erased by the account deletion job once the grace period ends.
+   * With `hard`, the account is erased right away, including one that is
+   * already soft deleted.
    */
   async deleteUser(
     id: string,
     actorId: string,
-    actorRole: UserRole,
+    actorRoles: string[],
+    hard = false,
   ): Promise<void> {
     // Find target user
     const targetUser = await this.userModel.findById(id).exec();
-    if (!targetUser || targetUser.isDeleted) {
+    if (
+      !targetUser ||
+      targetUser.anonymizedAt ||
+      (targetUser.isDeleted && !hard)
+    ) {
       throw new AppException(
         ErrorCode.USER_ALREADY_DELETED,
         'User not found or already deleted',
@@ -459,7 +564,8 @@ export class AdminService {
     }
 
     // Check if actor can manage target
-    if (!canManageUser(actorRole, targetUser.role)) {
+    const levels = await this.permissionService.getRoleLevels();
+    if (!canManageUser(actorRoles, targetUser.roles, levels)) {
       throw new AppException(
         ErrorCode.CANNOT_MODIFY_HIGHER_ROLE,
         'Cannot delete user with higher or equal role',
@@ -467,9 +573,25 @@ export class AdminService {
       );
     }
 
-    // Soft delete user
-    targetUser.isDeleted = true;
-    targetUser.deletedAt = new Date();
+    // Erase across every collection now; sessions go with it
+    if (hard) {
+      await this.accountErasureService.eraseUser(targetUser, {
+        trigger: 'admin',
+        requestedBy: actorId,
+      });
+      this.logger.log(`User ${id} erased by ${actorId}`);
+      return;
+    }
+
+    // Soft delete user; removed for good once the grace period ends
+    setAccountStatus(targetUser, AccountStatus.PENDING_DELETION);
+    targetUser.scheduledDeletionAt = new Date(
+      Date.now() +
+        this.configService.get<number>(
+          'accountDeletion.gracePeriod',
+          2592000000,
+        ),
+    );
     await targetUser.save();
 
     // Invalidate all sessions
@@ -478,23 +600,66 @@ export class AdminService {
     this.logger.log(`User ${id} deleted by ${actorId}`);
   }
 
+  /**
+   * Clear the sign-in lock placed on a user after repeated failed logins.
+   */
+  async clearLoginLock(
+    id: string,
+    actorId: string,
+    actorRoles: string[],
+  ): Promise<ApiResponse<{ id: string; wasLocked: boolean }>> {
+    const targetUser = await this.userModel.findById(id).exec();
+    if (!targetUser || targetUser.isDeleted) {
+      throw new AppException(
+        ErrorCode.USER_NOT_FOUND,
+        'User not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    // Check if actor can manage target
+    const levels = await this.permissionService.getRoleLevels();
+    if (!canManageUser(actorRoles, targetUser.roles, levels)) {
+      throw new AppException(
+        ErrorCode.CANNOT_MODIFY_HIGHER_ROLE,
+        'Cannot modify user with higher or equal role',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const wasLocked = await this.loginAttemptService.clearLock(
+      targetUser.email,
+    );
+
+    this.logger.log(`Sign-in lock for user ${id} cleared by ${actorId}`);
+
+    return ApiResponse.success({ id: targetUser._id.toString(), wasLocked });
+  }
+
   /**
    * Map user document to admin DTO.
    */
-  private mapToAdminUserDto(user: UserDocument): AdminUserDto {
+  private mapToAdminUserDto(
+    user: UserDocument,
+    lockedUntil?: Date,
+  ): AdminUserDto {
     return {
       id: user._id.toString(),
       email: user.email,
       name: user.name,
-      role: user.role,
+      role: user.roles[0],
+      roles: user.roles,
       permissions: user.permissions || [],
       authProvider: user.authProvider,
       isVerified: user.isVerified,
       isDeleted: user.isDeleted,
+      status: getAccountStatus(user),
+      statusReason: user.statusReason,
       googleId: user.googleId,
       facebookId: user.facebookId,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
+      lockedUntil: lockedUntil ?? null,
     };
   }
 }
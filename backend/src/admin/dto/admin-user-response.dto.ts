@@ -1,4 +1,5 @@
 import { AuthProvider } from '../../user/enums/auth-provider.enum';
+import { AccountStatus } from '../../user/enums/account-status.enum';
 import { ApiResponse } from '../../common/dto/api-response.dto';
 import { ApiProperty } from '@nestjs/swagger';
 
@@ -26,11 +27,18 @@ export class AdminUserDto {
 
   @ApiProperty({
     description:
-      'User role slug (user, support, manager, admin, or custom roles)',
+      'Primary role slug, the first of roles (user, support, manager, admin, or custom roles)',
     example: 'user',
   })
   role!: string;
 
+  @ApiProperty({
+    description: 'All role slugs of the user',
+    example: ['support', 'billing-viewer'],
+    type: [String],
+  })
+  roles!: string[];
+
   @ApiProperty({
     description: 'User permissions array',
     example: ['profile:read:own', 'profile:update:own'],
@@ -57,6 +65,20 @@ export class AdminUserDto {
   })
   isDeleted!: boolean;
 
+  @ApiProperty({
+    description: 'Account status',
+    enum: AccountStatus,
+    example: AccountStatus.ACTIVE,
+  })
+  status!: AccountStatus;
+
+  @ApiProperty({
+    description: 'Reason given for the current status',
+    example: null,
+    required: false,
+  })
+  statusReason?: string;
+
   @ApiProperty({
     description: 'Google OAuth ID (if authenticated via Google)',
     example: null,
@@ -82,6 +104,53 @@ export class AdminUserDto {
     example: '2024-01-15T10:30:00.000Z',
   })
   updatedAt?: Date;
+
+  @ApiProperty({
+    description:
+      'End of the sign-in lock after repeated failed logins (null when not locked)',
+    example: null,
+    required: false,
+    nullable: true,
+  })
+  lockedUntil?: Date | null;
+}
+
+/**
+ * Result of a user status update.
+ */
+export class UserStatusData {
+  @ApiProperty({
+    description: 'User ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: 'New account status',
+    enum: AccountStatus,
+    example: AccountStatus.SUSPENDED,
+  })
+  status!: AccountStatus;
+
+  @ApiProperty({
+    description: 'Reason given for the status change',
+    example: 'Chargeback under review',
+    required: false,
+  })
+  statusReason?: string;
+
+  @ApiProperty({
+    description: 'Whether the user account is deleted (soft delete)',
+    example: false,
+  })
+  isDeleted!: boolean;
+
+  @ApiProperty({
+    description: 'Soft delete timestamp',
+    example: null,
+    required: false,
+  })
+  deletedAt?: Date;
 }
 
 /**
@@ -0,0 +1,22 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query parameters for deleting a user.
+ */
+export class DeleteUserQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Erase the account and its data across every collection now instead of after the grace period',
+    example: true,
+    type: Boolean,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(
+    ({ value }: { value: unknown }) => value === true || value === 'true',
+  )
+  hard?: boolean = false;
+}
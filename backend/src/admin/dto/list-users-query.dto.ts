@@ -10,6 +10,7 @@ import {
 import { Type } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { UserRole } from '../../user/enums/user-role.enum';
+import { AccountStatus } from '../../user/enums/account-status.enum';
 
 /**
  * Query parameters for listing users with pagination and filtering.
@@ -61,14 +62,29 @@ export class ListUsersQueryDto {
   role?: UserRole;
 
   @ApiPropertyOptional({
-    description: 'Filter by status (active, inactive, deleted)',
-    enum: ['active', 'inactive', 'deleted'],
+    description:
+      'Filter by status (active, inactive, deleted, suspended, deactivated, pending_deletion)',
+    enum: [
+      'active',
+      'inactive',
+      'deleted',
+      AccountStatus.SUSPENDED,
+      AccountStatus.DEACTIVATED,
+      AccountStatus.PENDING_DELETION,
+    ],
     example: 'active',
     type: String,
   })
   @IsOptional()
-  @IsIn(['active', 'inactive', 'deleted'])
-  status?: 'active' | 'inactive' | 'deleted';
+  @IsIn([
+    'active',
+    'inactive',
+    'deleted',
+    AccountStatus.SUSPENDED,
+    AccountStatus.DEACTIVATED,
+    AccountStatus.PENDING_DELETION,
+  ])
+  status?: 'active' | 'inactive' | 'deleted' | AccountStatus;
 
   @ApiPropertyOptional({
     description: 'Filter by verification status',
@@ -0,0 +1,170 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Query parameters for dashboard statistics
+ */
+export class StatsQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Number of days covered by time series (default: 30, max: 365)',
+    example: 30,
+    minimum: 1,
+    maximum: 365,
+    type: Number,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  @Type(() => Number)
+  days?: number = 30;
+}
+
+/**
+ * Count for one UTC day of a time series
+ */
+export class DailyCountDto {
+  @ApiProperty({ example: '2026-10-01' })
+  date!: string;
+
+  @ApiProperty({ example: 12 })
+  count!: number;
+}
+
+/**
+ * Count for one value of a grouped field, e.g. a role or provider
+ */
+export class GroupCountDto {
+  @ApiProperty({ example: 'user' })
+  key!: string;
+
+  @ApiProperty({ example: 42 })
+  count!: number;
+}
+
+/**
+ * Registered accounts, excluding erased ones
+ */
+export class UserTotalsDto {
+  @ApiProperty({ example: 120 })
+  total!: number;
+
+  @ApiProperty({ example: 100 })
+  verified!: number;
+
+  @ApiProperty({ example: 20 })
+  unverified!: number;
+
+  @ApiProperty({
+    description: 'Accounts created during the requested period',
+    example: 14,
+  })
+  newInPeriod!: number;
+}
+
+/**
+ * Rejected password sign-ins and current lockouts
+ */
+export class FailedLoginStatsDto {
+  @ApiProperty({
+    description: 'Failed sign-ins during the requested period',
+    example: 37,
+  })
+  total!: number;
+
+  @ApiProperty({ type: [DailyCountDto] })
+  daily!: DailyCountDto[];
+
+  @ApiProperty({ description: 'Emails currently locked', example: 2 })
+  lockedEmails!: number;
+
+  @ApiProperty({ description: 'IP addresses currently locked', example: 1 })
+  lockedIps!: number;
+}
+
+/**
+ * Statistics for the admin dashboard
+ */
+export class AdminStatsDto {
+  @ApiProperty({ example: 30 })
+  days!: number;
+
+  @ApiProperty({ type: UserTotalsDto })
+  users!: UserTotalsDto;
+
+  @ApiProperty({ type: [DailyCountDto] })
+  signups!: DailyCountDto[];
+
+  @ApiProperty({ description: 'Sessions that can still be used', example: 58 })
+  activeSessions!: number;
+
+  @ApiProperty({ type: [GroupCountDto] })
+  usersByRole!: GroupCountDto[];
+
+  @ApiProperty({
+    type: [GroupCountDto],
+    description: 'Grouped by the provider each account registered with',
+  })
+  usersByProvider!: GroupCountDto[];
+
+  @ApiProperty({ type: FailedLoginStatsDto })
+  failedLogins!: FailedLoginStatsDto;
+}
+
+/**
+ * Statistics for the manager dashboard
+ */
+export class ManagerStatsDto {
+  @ApiProperty({ example: 30 })
+  days!: number;
+
+  @ApiProperty({ type: UserTotalsDto })
+  users!: UserTotalsDto;
+
+  @ApiProperty({ type: [DailyCountDto] })
+  signups!: DailyCountDto[];
+
+  @ApiProperty({
+    description: 'Users with a session used during the requested period',
+    example: 64,
+  })
+  activeUsers!: number;
+
+  @ApiProperty({ type: [GroupCountDto] })
+  usersByStatus!: GroupCountDto[];
+
+  @ApiProperty({ type: [GroupCountDto] })
+  usersByRole!: GroupCountDto[];
+}
+
+/**
+ * Statistics for the support dashboard
+ */
+export class SupportStatsDto {
+  @ApiProperty({ example: 30 })
+  days!: number;
+
+  @ApiProperty({ description: 'Sessions that can still be used', example: 58 })
+  activeSessions!: number;
+
+  @ApiProperty({ type: [GroupCountDto] })
+  activeSessionsByDevice!: GroupCountDto[];
+
+  @ApiProperty({ type: FailedLoginStatsDto })
+  failedLogins!: FailedLoginStatsDto;
+
+  @ApiProperty({
+    description: 'Password resets during the requested period',
+    example: 5,
+  })
+  passwordResets!: number;
+
+  @ApiProperty({
+    description:
+      'Session families revoked after refresh token reuse during the requested period',
+    example: 0,
+  })
+  tokenReuseRevocations!: number;
+}
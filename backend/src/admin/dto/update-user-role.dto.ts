@@ -1,18 +1,20 @@
-import { IsEnum, IsIn } from 'class-validator';
+import { ArrayMinSize, ArrayUnique, IsArray, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { UserRole } from '../../user/enums/user-role.enum';
 
 /**
- * DTO for updating user role.
+ * DTO for updating user roles.
  * ADMIN role cannot be assigned via API.
  */
 export class UpdateUserRoleDto {
   @ApiProperty({
-    description: 'New user role (ADMIN cannot be assigned via API)',
-    enum: ['USER', 'SUPPORT', 'MANAGER'],
-    example: 'MANAGER',
+    description:
+      'New role slugs; the first is the primary role. Permissions are the union across all roles (ADMIN cannot be assigned via API)',
+    example: ['support', 'billing-viewer'],
+    type: [String],
   })
-  @IsEnum(UserRole)
-  @IsIn([UserRole.USER, UserRole.SUPPORT, UserRole.MANAGER])
-  role!: UserRole;
+  @IsArray()
+  @ArrayMinSize(1, { message: 'User must have at least one role' })
+  @ArrayUnique()
+  @IsString({ each: true })
+  roles!: string[];
 }
@@ -1,19 +1,40 @@
-import { IsBoolean, IsOptional, IsString, MaxLength } from 'class-validator';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AccountStatus } from '../../user/enums/account-status.enum';
 
 /**
- * DTO for updating user activation status.
+ * DTO for updating user account status.
+ * Either `status` or the legacy `isActive` flag must be provided.
  */
 export class UpdateUserStatusDto {
-  @ApiProperty({
-    description: 'User activation status (true = active, false = deleted)',
+  @ApiPropertyOptional({
+    description: 'Account status to apply (takes precedence over isActive)',
+    enum: AccountStatus,
+    example: AccountStatus.SUSPENDED,
+  })
+  @IsOptional()
+  @IsEnum(AccountStatus)
+  status?: AccountStatus;
+
+  @ApiPropertyOptional({
+    description:
+      'User activation status (true = active, false = deactivated). Required when status is omitted',
     example: false,
   })
+  @ValidateIf((dto: UpdateUserStatusDto) => dto.status === undefined)
   @IsBoolean()
-  isActive!: boolean;
+  isActive?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Reason for status change',
+    description:
+      'Reason for status change (shown to the user at sign-in when suspended)',
     example: 'Account closed per user request',
     maxLength: 500,
   })
@@ -0,0 +1,92 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { StatsService } from './stats.service';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../common/guards/permission.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import {
+  USER_PERMISSIONS,
+  REPORT_PERMISSIONS,
+  SESSION_PERMISSIONS,
+} from '../common/constants/permissions';
+import { ApiResponse } from '../common/dto/api-response.dto';
+import {
+  AdminStatsDto,
+  ManagerStatsDto,
+  StatsQueryDto,
+  SupportStatsDto,
+} from './dto/stats.dto';
+
+/**
+ * Stats controller.
+ * Serves the figures shown on the admin, manager and support dashboards.
+ */
+@ApiTags('admin')
+@ApiBearerAuth('JWT-auth')
+@Controller('admin/stats')
+@UseGuards(AuthGuard, PermissionGuard)
+export class StatsController {
+  constructor(private readonly statsService: StatsService) {}
+
+  /**
+   * Statistics for the admin dashboard.
+   *
+   * @example GET /admin/stats?days=30
+   */
+  @Get()
+  @RequirePermissions(USER_PERMISSIONS.LIST_ALL)
+  @ApiOperation({
+    summary: 'Get admin dashboard statistics',
+    description:
+      'Signups per day, verified vs. unverified users, users per role and ' +
+      'auth provider, active sessions and failed sign-ins.',
+  })
+  async getAdminStats(
+    @Query() query: StatsQueryDto,
+  ): Promise<ApiResponse<AdminStatsDto>> {
+    return ApiResponse.success(
+      await this.statsService.getAdminStats(query.days ?? 30),
+    );
+  }
+
+  /**
+   * Statistics for the manager dashboard.
+   *
+   * @example GET /admin/stats/manager?days=30
+   */
+  @Get('manager')
+  @RequirePermissions(REPORT_PERMISSIONS.READ_ALL)
+  @ApiOperation({
+    summary: 'Get manager dashboard statistics',
+    description:
+      'Signups per day, active users, and users per status and role.',
+  })
+  async getManagerStats(
+    @Query() query: StatsQueryDto,
+  ): Promise<ApiResponse<ManagerStatsDto>> {
+    return ApiResponse.success(
+      await this.statsService.getManagerStats(query.days ?? 30),
+    );
+  }
+
+  /**
+   * Statistics for the support dashboard.
+   *
+   * @example GET /admin/stats/support?days=7
+   */
+  @Get('support')
+  @RequirePermissions(SESSION_PERMISSIONS.READ_ALL)
+  @ApiOperation({
+    summary: 'Get support dashboard statistics',
+    description:
+      'Active sessions per device type, failed sign-ins, current lockouts, ' +
+      'password resets and token reuse revocations.',
+  })
+  async getSupportStats(
+    @Query() query: StatsQueryDto,
+  ): Promise<ApiResponse<SupportStatsDto>> {
+    return ApiResponse.success(
+      await this.statsService.getSupportStats(query.days ?? 30),
+    );
+  }
+}
@@ -0,0 +1,171 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { StatsService } from './stats.service';
+import { User } from '../user/schemas/user.schema';
+import { Session } from '../session/schemas/session.schema';
+import { LoginAttempt } from '../auth/schemas/login-attempt.schema';
+import { AuditLog } from '../audit/schemas/audit-log.schema';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+
+describe('StatsService', () => {
+  let service: StatsService;
+
+  const query = <T>(value: T) => ({
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const today = () => new Date().toISOString().slice(0, 10);
+
+  const mockUserModel = { aggregate: jest.fn() };
+  const mockSessionModel = {
+    aggregate: jest.fn(),
+    countDocuments: jest.fn(),
+    distinct: jest.fn(),
+  };
+  const mockLoginAttemptModel = { aggregate: jest.fn() };
+  const mockAuditLogModel = { aggregate: jest.fn(), countDocuments: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockUserModel.aggregate.mockReturnValue(
+      query([
+        {
+          totals: [{ total: 10, verified: 7 }],
+          newInPeriod: [{ count: 3 }],
+          signups: [{ _id: today(), count: 3 }],
+          byRole: [
+            { _id: 'user', count: 8 },
+            { _id: 'admin', count: 2 },
+          ],
+          byProvider: [
+            { _id: 'google', count: 4 },
+            { _id: 'email', count: 6 },
+          ],
+          byStatus: [{ _id: 'active', count: 10 }],
+        },
+      ]),
+    );
+    mockSessionModel.countDocuments.mockReturnValue(query(5));
+    mockSessionModel.distinct.mockReturnValue(query(['a', 'b']));
+    mockSessionModel.aggregate.mockReturnValue(
+      query([
+        { _id: 'desktop', count: 3 },
+        { _id: null, count: 1 },
+        { _id: 'mobile', count: 2 },
+      ]),
+    );
+    mockLoginAttemptModel.aggregate.mockReturnValue(
+      query([
+        { _id: 'email', count: 2 },
+        { _id: 'ip', count: 1 },
+      ]),
+    );
+    mockAuditLogModel.aggregate.mockReturnValue(
+      query([{ _id: today(), count: 4 }]),
+    );
+    mockAuditLogModel.countDocuments.mockReturnValue(query(1));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StatsService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: getModelToken(Session.name), useValue: mockSessionModel },
+        {
+          provide: getModelToken(LoginAttempt.name),
+          useValue: mockLoginAttemptModel,
+        },
+        { provide: getModelToken(AuditLog.name), useValue: mockAuditLogModel },
+      ],
+    }).compile();
+
+    service = module.get<StatsService>(StatsService);
+  });
+
+  describe('getAdminStats', () => {
+    it('should combine user, session and failed sign-in figures', async () => {
+      const stats = await service.getAdminStats(7);
+
+      expect(stats.users).toEqual({
+        total: 10,
+        verified: 7,
+        unverified: 3,
+        newInPeriod: 3,
+      });
+      expect(stats.activeSessions).toBe(5);
+      expect(stats.usersByProvider).toEqual([
+        { key: 'email', count: 6 },
+        { key: 'google', count: 4 },
+      ]);
+      expect(stats.failedLogins).toMatchObject({
+        total: 4,
+        lockedEmails: 2,
+        lockedIps: 1,
+      });
+    });
+
+    it('should return one entry per day with zeros for quiet days', async () => {
+      const stats = await service.getAdminStats(7);
+
+      expect(stats.signups).toHaveLength(7);
+      expect(stats.signups[6]).toEqual({ date: today(), count: 3 });
+      expect(stats.signups.slice(0, 6).every((day) => day.count === 0)).toBe(
+        true,
+      );
+    });
+
+    it('should report zeros when there are no users', async () => {
+      mockUserModel.aggregate.mockReturnValue(
+        query([
+          {
+            totals: [],
+            newInPeriod: [],
+            signups: [],
+            byRole: [],
+            byProvider: [],
+            byStatus: [],
+          },
+        ]),
+      );
+
+      const stats = await service.getAdminStats(1);
+
+      expect(stats.users).toEqual({
+        total: 0,
+        verified: 0,
+        unverified: 0,
+        newInPeriod: 0,
+      });
+      expect(stats.signups).toEqual([{ date: today(), count: 0 }]);
+    });
+  });
+
+  describe('getManagerStats', () => {
+    it('should count distinct users with recent sessions', async () => {
+      const stats = await service.getManagerStats(30);
+
+      expect(stats.activeUsers).toBe(2);
+      expect(stats.usersByStatus).toEqual([{ key: 'active', count: 10 }]);
+      expect(stats.signups).toHaveLength(30);
+    });
+  });
+
+  describe('getSupportStats', () => {
+    it('should group active sessions by device and count recovery events', async () => {
+      const stats = await service.getSupportStats(7);
+
+      expect(stats.activeSessions).toBe(6);
+      expect(stats.activeSessionsByDevice).toEqual([
+        { key: 'desktop', count: 3 },
+        { key: 'mobile', count: 2 },
+        { key: 'unknown', count: 1 },
+      ]);
+      expect(stats.passwordResets).toBe(1);
+      expect(mockAuditLogModel.countDocuments).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.SESSION_FAMILY_REVOKED,
+        }),
+      );
+    });
+  });
+});
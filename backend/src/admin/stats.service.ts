@@ -0,0 +1,296 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, PipelineStage } from 'mongoose';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import { Session, SessionDocument } from '../session/schemas/session.schema';
+import {
+  LoginAttempt,
+  LoginAttemptDocument,
+} from '../auth/schemas/login-attempt.schema';
+import { AuditLog, AuditLogDocument } from '../audit/schemas/audit-log.schema';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import {
+  AdminStatsDto,
+  DailyCountDto,
+  FailedLoginStatsDto,
+  GroupCountDto,
+  ManagerStatsDto,
+  SupportStatsDto,
+  UserTotalsDto,
+} from './dto/stats.dto';
+
+const DAY = 86400000;
+
+interface GroupRow {
+  _id: string | null;
+  count: number;
+}
+
+interface UserFacets {
+  totals: { total: number; verified: number }[];
+  newInPeriod: { count: number }[];
+  signups: GroupRow[];
+  byRole: GroupRow[];
+  byProvider: GroupRow[];
+  byStatus: GroupRow[];
+}
+
+/**
+ * Stats Service
+ * Aggregates users, sessions, sign-in failures and audit entries for the
+ * admin, manager and support dashboards.
+ */
+@Injectable()
+export class StatsService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    @InjectModel(LoginAttempt.name)
+    private loginAttemptModel: Model<LoginAttemptDocument>,
+    @InjectModel(AuditLog.name) private auditLogModel: Model<AuditLogDocument>,
+  ) {}
+
+  /**
+   * Signups, verification, roles, providers, sessions and failed sign-ins
+   * @param days - Length of the period covered by time series
+   */
+  async getAdminStats(days: number): Promise<AdminStatsDto> {
+    const since = this.startOfPeriod(days);
+    const [users, activeSessions, failedLogins] = await Promise.all([
+      this.aggregateUsers(since),
+      this.countActiveSessions(),
+      this.getFailedLoginStats(since, days),
+    ]);
+
+    return {
+      days,
+      users: this.toUserTotals(users),
+      signups: this.toDailySeries(users.signups, since, days),
+      activeSessions,
+      usersByRole: this.toGroupCounts(users.byRole),
+      usersByProvider: this.toGroupCounts(users.byProvider),
+      failedLogins,
+    };
+  }
+
+  /**
+   * Team growth and activity
+   * @param days - Length of the period covered by time series
+   */
+  async getManagerStats(days: number): Promise<ManagerStatsDto> {
+    const since = this.startOfPeriod(days);
+    const [users, activeUsers] = await Promise.all([
+      this.aggregateUsers(since),
+      this.sessionModel
+        .distinct('user', { lastUsedAt: { $gte: since } })
+        .exec(),
+    ]);
+
+    return {
+      days,
+      users: this.toUserTotals(users),
+      signups: this.toDailySeries(users.signups, since, days),
+      activeUsers: activeUsers.length,
+      usersByStatus: this.toGroupCounts(users.byStatus),
+      usersByRole: this.toGroupCounts(users.byRole),
+    };
+  }
+
+  /**
+   * Sessions, lockouts and account recovery activity
+   * @param days - Length of the period covered by time series
+   */
+  async getSupportStats(days: number): Promise<SupportStatsDto> {
+    const since = this.startOfPeriod(days);
+    const [byDevice, failedLogins, passwordResets, tokenReuseRevocations] =
+      await Promise.all([
+        this.sessionModel
+          .aggregate<GroupRow>([
+            { $match: this.activeSessionFilter() },
+            { $group: { _id: '$device.type', count: { $sum: 1 } } },
+          ])
+          .exec(),
+        this.getFailedLoginStats(since, days),
+        this.auditLogModel
+          .countDocuments({
+            action: AuditAction.PASSWORD_RESET,
+            createdAt: { $gte: since },
+          })
+          .exec(),
+        this.auditLogModel
+          .countDocuments({
+            action: AuditAction.SESSION_FAMILY_REVOKED,
+            createdAt: { $gte: since },
+          })
+          .exec(),
+      ]);
+
+    const activeSessionsByDevice = this.toGroupCounts(byDevice, 'unknown');
+
+    return {
+      days,
+      activeSessions: activeSessionsByDevice.reduce(
+        (sum, group) => sum + group.count,
+        0,
+      ),
+      activeSessionsByDevice,
+      failedLogins,
+      passwordResets,
+      tokenReuseRevocations,
+    };
+  }
+
+  /**
+   * Every user breakdown in a single pass over the collection
+   * Erased accounts are left out.
+   */
+  private async aggregateUsers(since: Date): Promise<UserFacets> {
+    const groupBy = (field: string): PipelineStage.FacetPipelineStage[] => [
+      { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    ];
+
+    const [facets] = await this.userModel
+      .aggregate<UserFacets>([
+        { $match: { anonymizedAt: { $exists: false } } },
+        {
+          $facet: {
+            totals: [
+              {
+                $group: {
+                  _id: null,
+                  total: { $sum: 1 },
+                  verified: { $sum: { $cond: ['$isVerified', 1, 0] } },
+                },
+              },
+            ],
+            newInPeriod: [
+              { $match: { createdAt: { $gte: since } } },
+              { $count: 'count' },
+            ],
+            signups: [
+              { $match: { createdAt: { $gte: since } } },
+              ...this.groupByDay('createdAt'),
+            ],
+            // Users with several roles count once towards each
+            byRole: [{ $unwind: '$roles' }, ...groupBy('roles')],
+            byProvider: groupBy('authProvider'),
+            byStatus: groupBy('status'),
+          },
+        },
+      ])
+      .exec();
+
+    return facets;
+  }
+
+  private async getFailedLoginStats(
+    since: Date,
+    days: number,
+  ): Promise<FailedLoginStatsDto> {
+    const now = new Date();
+    const [daily, locks] = await Promise.all([
+      this.auditLogModel
+        .aggregate<GroupRow>([
+          {
+            $match: {
+              action: AuditAction.LOGIN_FAILED,
+              createdAt: { $gte: since },
+            },
+          },
+          ...this.groupByDay('createdAt'),
+        ])
+        .exec(),
+      this.loginAttemptModel
+        .aggregate<GroupRow>([
+          { $match: { lockedUntil: { $gt: now } } },
+          { $group: { _id: '$scope', count: { $sum: 1 } } },
+        ])
+        .exec(),
+    ]);
+
+    const lockCount = (scope: string) =>
+      locks.find((row) => row._id === scope)?.count ?? 0;
+
+    return {
+      total: daily.reduce((sum, row) => sum + row.count, 0),
+      daily: this.toDailySeries(daily, since, days),
+      lockedEmails: lockCount('email'),
+      lockedIps: lockCount('ip'),
+    };
+  }
+
+  private countActiveSessions(): Promise<number> {
+    return this.sessionModel.countDocuments(this.activeSessionFilter()).exec();
+  }
+
+  private activeSessionFilter(): FilterQuery<SessionDocument> {
+    return { isValid: true, expiresAt: { $gt: new Date() } };
+  }
+
+  /**
+   * Group documents by UTC day of a date field
+   */
+  private groupByDay(field: string): PipelineStage.FacetPipelineStage[] {
+    return [
+      {
+        $group: {
+          _id: { $dateToString: { format: '%Y-%m-%d', date: `$${field}` } },
+          count: { $sum: 1 },
+        },
+      },
+    ];
+  }
+
+  /**
+   * Midnight UTC at the start of a period ending today
+   */
+  private startOfPeriod(days: number): Date {
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    return new Date(today.getTime() - (days - 1) * DAY);
+  }
+
+  /**
+   * One entry per day of the period, with zero for days without documents
+   */
+  private toDailySeries(
+    rows: GroupRow[],
+    since: Date,
+    days: number,
+  ): DailyCountDto[] {
+    const counts = new Map(rows.map((row) => [row._id, row.count]));
+
+    return Array.from({ length: days }, (_, index) => {
+      const date = new Date(since.getTime() + index * DAY)
+        .toISOString()
+        .slice(0, 10);
+      return { date, count: counts.get(date) ?? 0 };
+    });
+  }
+
+  /**
+   * Largest groups first
+   */
+  private toGroupCounts(rows: GroupRow[], fallback = 'none'): GroupCountDto[] {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      const key = row._id ?? fallback;
+      counts.set(key, (counts.get(key) ?? 0) + row.count);
+    }
+
+    return [...counts.entries()]
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+  }
+
+  private toUserTotals(users: UserFacets): UserTotalsDto {
+    const { total = 0, verified = 0 } = users.totals[0] ?? {};
+
+    return {
+      total,
+      verified,
+      unverified: total - verified,
+      newInPeriod: users.newInPeriod[0]?.count ?? 0,
+    };
+  }
+}
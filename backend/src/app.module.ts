@@ -17,7 +17,10 @@ import { CommonModule } from './common/common.module';
 import { MailModule } from './mail/mail.module';
 import { DatabaseModule } from './database/database.module';
 import { RoleModule } from './role/role.module';
+import { SamlModule } from './saml/saml.module';
 import { MigrationModule } from './database/migrations/migration.module';
+import { AuditModule } from './audit/audit.module';
+import { OrganizationModule } from './organization/organization.module';
 import configuration, { EnvironmentVariables } from './config/configuration';
 import { Connection } from 'mongoose';
 
@@ -72,12 +75,15 @@ import { Connection } from 'mongoose';
     MailModule,
     DatabaseModule,
     MigrationModule,
+    AuditModule,
     UserModule,
     SessionModule,
     PermissionModule,
     RoleModule,
     AuthModule,
     AdminModule,
+    SamlModule,
+    OrganizationModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  UseGuards,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
+import { AuditService } from './audit.service';
+import {
+  AuditLogListDto,
+  ExportAuditLogsQueryDto,
+  ListAuditLogsQueryDto,
+} from './dto/audit-log.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../common/guards/permission.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { AUDIT_PERMISSIONS } from '../common/constants/permissions';
+import { ApiResponse } from '../common/dto/api-response.dto';
+
+/**
+ * Audit log controller.
+ * Lets administrators browse and export the audit log.
+ */
+@ApiTags('audit')
+@ApiBearerAuth('JWT-auth')
+@Controller('admin/audit')
+@UseGuards(AuthGuard, PermissionGuard)
+@RequirePermissions(AUDIT_PERMISSIONS.READ_ALL)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * List audit log entries, newest first.
+   *
+   * @example GET /admin/audit?action=user.role_updated&limit=50
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List audit log entries',
+    description:
+      'Filters by actor, target user (ID or email), action and date range. ' +
+      'Pass `nextCursor` from the response as `cursor` to load the next page.',
+  })
+  async findAll(
+    @Query() query: ListAuditLogsQueryDto,
+  ): Promise<ApiResponse<AuditLogListDto>> {
+    return ApiResponse.success(await this.auditService.findLogs(query));
+  }
+
+  /**
+   * Download the filtered audit log.
+   *
+   * @example GET /admin/audit/export?format=csv&actor=admin@example.com
+   */
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export audit log entries',
+    description:
+      'Returns the newest 10,000 entries matching the filters as a CSV or JSON attachment.',
+  })
+  async export(
+    @Query() query: ExportAuditLogsQueryDto,
+    @Res() response: Response,
+  ) {
+    const file = await this.auditService.exportLogs(query);
+
+    response.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+      'Content-Length': file.data.length.toString(),
+      'Cache-Control': 'no-store',
+    });
+
+    return response.status(HttpStatus.OK).send(file.data);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { AuditLog, AuditLogSchema } from './schemas/audit-log.schema';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { PermissionModule } from '../permission/permission.module';
+
+/**
+ * Audit module
+ * Provides the append-only audit log used to record security-relevant actions,
+ * and the admin endpoints for browsing and exporting it.
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AuditLog.name, schema: AuditLogSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    forwardRef(() => AuthModule), // Required for AuthGuard
+    PermissionModule, // Required for AuthGuard
+  ],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [MongooseModule, AuditService],
+})
+export class AuditModule {}
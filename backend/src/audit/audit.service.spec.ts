@@ -0,0 +1,357 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Mongoose, Types } from 'mongoose';
+import { AuditService } from './audit.service';
+import {
+  AUDIT_ERASURE_OPTION,
+  AuditLog,
+  AuditLogSchema,
+} from './schemas/audit-log.schema';
+import { User } from '../user/schemas/user.schema';
+import { AuditAction, AuditTargetType } from './enums/audit-action.enum';
+import { diffChanges } from './utils/audit-diff';
+
+describe('AuditService', () => {
+  let service: AuditService;
+
+  const actorId = new Types.ObjectId().toString();
+  const targetId = new Types.ObjectId().toString();
+  const mockAuditLogModel = {
+    create: jest.fn(),
+    find: jest.fn(),
+    updateMany: jest.fn(),
+  };
+  const setErasureOptions = jest.fn();
+  const mockUserModel = { findOne: jest.fn(), find: jest.fn() };
+
+  const query = <T>(value: T) => ({
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const logEntry = (overrides: Record<string, unknown> = {}) => ({
+    _id: new Types.ObjectId(),
+    action: AuditAction.USER_ROLE_UPDATED,
+    actor: new Types.ObjectId(actorId),
+    targetType: AuditTargetType.USER,
+    targetId,
+    targetUser: new Types.ObjectId(targetId),
+    changes: { before: { role: 'user' }, after: { role: 'manager' } },
+    ip: '203.0.113.7',
+    createdAt: new Date('2026-10-01T12:00:00.000Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockAuditLogModel.create.mockResolvedValue({});
+    mockAuditLogModel.find.mockReturnValue(query([]));
+    mockAuditLogModel.updateMany.mockReturnValue({
+      setOptions: setErasureOptions,
+    });
+    setErasureOptions.mockResolvedValue({ modifiedCount: 1 });
+    mockUserModel.findOne.mockReturnValue(query(null));
+    mockUserModel.find.mockReturnValue(
+      query([
+        {
+          _id: new Types.ObjectId(actorId),
+          email: 'admin@example.com',
+          name: 'Jane Admin',
+        },
+      ]),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuditService,
+        {
+          provide: getModelToken(AuditLog.name),
+          useValue: mockAuditLogModel,
+        },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'audit.retention' ? 86400000 : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AuditService>(AuditService);
+  });
+
+  describe('record', () => {
+    it('should store the entry with an expiry from the retention period', async () => {
+      const before = Date.now();
+
+      await service.record({
+        action: AuditAction.USER_ROLE_UPDATED,
+        actorId,
+        targetType: AuditTargetType.USER,
+        targetId,
+        targetUser: targetId,
+        changes: { before: { role: 'user' }, after: { role: 'manager' } },
+        ip: '203.0.113.7',
+        userAgent: 'Mozilla/5.0',
+      });
+
+      const [stored] = mockAuditLogModel.create.mock.calls[0] as [
+        Record<string, unknown> & { expiresAt: Date },
+      ];
+      expect(stored).toMatchObject({
+        actor: new Types.ObjectId(actorId),
+        action: AuditAction.USER_ROLE_UPDATED,
+        targetId,
+        targetUser: new Types.ObjectId(targetId),
+        changes: { before: { role: 'user' }, after: { role: 'manager' } },
+        ip: '203.0.113.7',
+      });
+      expect(stored.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 86400000,
+      );
+    });
+
+    it('should leave the actor unset for anonymous actions', async () => {
+      await service.record({
+        action: AuditAction.SESSION_FAMILY_REVOKED,
+        targetType: AuditTargetType.SESSION,
+        targetId,
+      });
+
+      expect(mockAuditLogModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ actor: undefined }),
+      );
+    });
+
+    it('should not throw when the entry cannot be stored', async () => {
+      mockAuditLogModel.create.mockRejectedValue(new Error('write failed'));
+
+      await expect(
+        service.record({
+          action: AuditAction.LOGOUT,
+          targetType: AuditTargetType.SESSION,
+          targetId,
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('findLogs', () => {
+    it('should return a page with a cursor to the next one', async () => {
+      const logs = [logEntry(), logEntry(), logEntry()];
+      mockAuditLogModel.find.mockReturnValue(query(logs));
+
+      const result = await service.findLogs({ limit: 2 });
+
+      expect(result.items).toHaveLength(2);
+      expect(result.nextCursor).toBe(logs[1]._id.toString());
+      expect(result.items[0]).toMatchObject({
+        actor: { id: actorId, email: 'admin@example.com' },
+        targetUser: { id: targetId, email: undefined },
+      });
+    });
+
+    it('should filter by actor email, action, date range and cursor', async () => {
+      const cursor = new Types.ObjectId().toString();
+      mockUserModel.findOne.mockReturnValue(
+        query({ _id: new Types.ObjectId(actorId) }),
+      );
+
+      await service.findLogs({
+        actor: ' Admin@Example.com',
+        action: AuditAction.LOGIN,
+        from: '2026-10-01T00:00:00.000Z',
+        cursor,
+      });
+
+      expect(mockUserModel.findOne).toHaveBeenCalledWith({
+        email: 'admin@example.com',
+      });
+      expect(mockAuditLogModel.find).toHaveBeenCalledWith({
+        actor: new Types.ObjectId(actorId),
+        action: AuditAction.LOGIN,
+        createdAt: { $gte: new Date('2026-10-01T00:00:00.000Z') },
+        _id: { $lt: new Types.ObjectId(cursor) },
+      });
+    });
+
+    it('should return nothing when a user filter matches nobody', async () => {
+      const result = await service.findLogs({
+        targetUser: 'nobody@example.com',
+      });
+
+      expect(result).toEqual({ items: [] });
+      expect(mockAuditLogModel.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportLogs', () => {
+    it('should build a CSV file with user emails and serialized changes', async () => {
+      mockAuditLogModel.find.mockReturnValue(query([logEntry()]));
+
+      const file = await service.exportLogs({ format: 'csv' });
+      const [header, row] = file.data.toString().split('\r\n');
+
+      expect(file.contentType).toBe('text/csv; charset=utf-8');
+      expect(file.fileName).toMatch(/^audit-log-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(header).toBe(
+        'createdAt,action,actorId,actorEmail,targetType,targetId,targetUserId,targetUserEmail,ip,userAgent,changes,metadata',
+      );
+      expect(row).toContain(`${actorId},admin@example.com,user,${targetId}`);
+      expect(row).toContain(
+        '"{""before"":{""role"":""user""},""after"":{""role"":""manager""}}"',
+      );
+    });
+
+    it('should build a JSON file', async () => {
+      mockAuditLogModel.find.mockReturnValue(query([logEntry()]));
+
+      const file = await service.exportLogs({ format: 'json' });
+      const [entry] = JSON.parse(file.data.toString()) as Record<
+        string,
+        unknown
+      >[];
+
+      expect(file.contentType).toBe('application/json');
+      expect(entry).toMatchObject({
+        action: AuditAction.USER_ROLE_UPDATED,
+        actor: { id: actorId, email: 'admin@example.com' },
+      });
+    });
+  });
+
+  describe('findUserHistory', () => {
+    it("should return the user's entries without other people's personal data", async () => {
+      const userId = new Types.ObjectId(targetId);
+      mockAuditLogModel.find.mockReturnValue(
+        query([
+          logEntry({ userAgent: 'AdminBrowser/1.0' }),
+          logEntry({
+            action: AuditAction.LOGIN,
+            actor: userId,
+            userAgent: 'Mozilla/5.0',
+          }),
+        ]),
+      );
+
+      const [byAdmin, own] = await service.findUserHistory(userId);
+
+      expect(mockAuditLogModel.find).toHaveBeenCalledWith({
+        $or: [{ actor: userId }, { targetUser: userId }],
+      });
+      expect(byAdmin.actor).toEqual({ id: actorId });
+      expect(byAdmin.ip).toBeUndefined();
+      expect(byAdmin.userAgent).toBeUndefined();
+      expect(own).toMatchObject({
+        actor: { id: targetId },
+        ip: '203.0.113.7',
+        userAgent: 'Mozilla/5.0',
+      });
+    });
+  });
+
+  describe('anonymizeUser', () => {
+    const userId = new Types.ObjectId(targetId);
+
+    it("should remove the user's IP addresses and user agents", async () => {
+      await service.anonymizeUser(userId, 'user@example.com');
+
+      expect(mockAuditLogModel.updateMany).toHaveBeenCalledWith(
+        {
+          $or: [
+            { actor: userId },
+            { actor: { $exists: false }, targetUser: userId },
+          ],
+        },
+        { $unset: { ip: 1, userAgent: 1 } },
+      );
+      expect(setErasureOptions).toHaveBeenCalledWith({
+        [AUDIT_ERASURE_OPTION]: true,
+      });
+    });
+
+    it('should replace the email address wherever it was recorded', async () => {
+      await service.anonymizeUser(userId, 'user@example.com');
+
+      expect(mockAuditLogModel.updateMany).toHaveBeenCalledWith(
+        { targetId: 'user@example.com' },
+        {
+          $set: { targetId },
+          $unset: { ip: 1, userAgent: 1 },
+        },
+      );
+      expect(mockAuditLogModel.updateMany).toHaveBeenCalledWith(
+        { 'metadata.email': 'user@example.com' },
+        { $unset: { 'metadata.email': 1 } },
+      );
+    });
+
+    it('should return how many entries were changed', async () => {
+      await expect(
+        service.anonymizeUser(userId, 'user@example.com'),
+      ).resolves.toBe(3);
+    });
+  });
+
+  describe('AuditLogSchema', () => {
+    const mongoose = new Mongoose();
+    const AuditLogModel = mongoose.model(AuditLog.name, AuditLogSchema);
+
+    it('should reject updates and deletes', async () => {
+      await expect(
+        AuditLogModel.updateOne({}, { ip: '10.0.0.1' }).exec(),
+      ).rejects.toThrow('append-only');
+      await expect(AuditLogModel.deleteMany({}).exec()).rejects.toThrow(
+        'append-only',
+      );
+    });
+
+    it('should only allow the erasure option on updateMany', async () => {
+      await expect(
+        AuditLogModel.updateMany({}, { ip: '10.0.0.1' }).exec(),
+      ).rejects.toThrow('append-only');
+      await expect(
+        AuditLogModel.updateOne({}, { ip: '10.0.0.1' })
+          .setOptions({ [AUDIT_ERASURE_OPTION]: true })
+          .exec(),
+      ).rejects.toThrow('append-only');
+    });
+
+    it('should reject saving an existing entry', async () => {
+      const entry = AuditLogModel.hydrate({
+        _id: new Types.ObjectId(),
+        action: AuditAction.LOGIN,
+        targetType: AuditTargetType.SESSION,
+        targetId,
+        expiresAt: new Date(),
+      });
+      entry.ip = '10.0.0.1';
+
+      await expect(entry.save()).rejects.toThrow('append-only');
+    });
+  });
+});
+
+describe('diffChanges', () => {
+  it('should keep only the fields that changed', () => {
+    expect(
+      diffChanges(
+        { name: 'Editor', permissions: ['posts:read'] },
+        { name: 'Editor', permissions: ['posts:read', 'posts:update'] },
+      ),
+    ).toEqual({
+      before: { permissions: ['posts:read'] },
+      after: { permissions: ['posts:read', 'posts:update'] },
+    });
+  });
+
+  it('should return undefined when nothing changed', () => {
+    expect(diffChanges({ role: 'user' }, { role: 'user' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,358 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types, UpdateQuery } from 'mongoose';
+import {
+  AUDIT_ERASURE_OPTION,
+  AuditLog,
+  AuditLogDocument,
+} from './schemas/audit-log.schema';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import { AuditEntry } from './interfaces/audit.interface';
+import {
+  AuditLogListDto,
+  AuditLogResponseDto,
+  AuditUserDto,
+  ExportAuditLogsQueryDto,
+  ListAuditLogsQueryDto,
+} from './dto/audit-log.dto';
+import { toCsv } from '../common/utils/csv';
+
+/** Most entries a single export may contain */
+const EXPORT_LIMIT = 10000;
+
+const OBJECT_ID_PATTERN = /^[a-f\d]{24}$/i;
+
+/**
+ * A filtered audit log ready to be sent to the browser
+ */
+export interface AuditLogExportFile {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Audit Service
+ * Appends structured entries describing who did what to the audit log,
+ * and lets administrators browse and export them.
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+  private readonly retention: number;
+
+  constructor(
+    @InjectModel(AuditLog.name) private auditLogModel: Model<AuditLogDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    this.retention = this.configService.get<number>(
+      'audit.retention',
+      31536000000,
+    );
+  }
+
+  /**
+   * Append an entry to the audit log
+   * Failures are logged rather than thrown so the audited action still succeeds.
+   */
+  async record(entry: AuditEntry): Promise<void> {
+    try {
+      await this.auditLogModel.create({
+        actor: this.toObjectId(entry.actorId),
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        targetUser: this.toObjectId(entry.targetUser),
+        changes: entry.changes,
+        ip: entry.ip,
+        userAgent: entry.userAgent,
+        metadata: entry.metadata,
+        expiresAt: new Date(Date.now() + this.retention),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record audit entry ${entry.action} for ${entry.targetType} ${entry.targetId}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * List entries matching the filters, newest first
+   * Pass the returned `nextCursor` back as `cursor` to load the next page.
+   */
+  async findLogs(query: ListAuditLogsQueryDto): Promise<AuditLogListDto> {
+    const filter = await this.buildFilter(query);
+
+    if (!filter) {
+      return { items: [] };
+    }
+
+    if (query.cursor) {
+      filter._id = { $lt: new Types.ObjectId(query.cursor) };
+    }
+
+    const limit = query.limit ?? 50;
+    const logs = await this.auditLogModel
+      .find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .exec();
+    const page = logs.slice(0, limit);
+
+    return {
+      items: await this.toResponseDtos(page),
+      nextCursor:
+        logs.length > limit ? page[page.length - 1]._id.toString() : undefined,
+    };
+  }
+
+  /**
+   * Build a CSV or JSON file of the entries matching the filters
+   * At most the newest 10,000 entries are included.
+   */
+  async exportLogs(
+    query: ExportAuditLogsQueryDto,
+  ): Promise<AuditLogExportFile> {
+    const filter = await this.buildFilter(query);
+    const logs = filter
+      ? await this.auditLogModel
+          .find(filter)
+          .sort({ _id: -1 })
+          .limit(EXPORT_LIMIT)
+          .exec()
+      : [];
+    const items = await this.toResponseDtos(logs);
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (query.format === 'json') {
+      return {
+        fileName: `audit-log-${date}.json`,
+        contentType: 'application/json',
+        data: Buffer.from(JSON.stringify(items, null, 2), 'utf8'),
+      };
+    }
+
+    const csv = toCsv(
+      [
+        'createdAt',
+        'action',
+        'actorId',
+        'actorEmail',
+        'targetType',
+        'targetId',
+        'targetUserId',
+        'targetUserEmail',
+        'ip',
+        'userAgent',
+        'changes',
+        'metadata',
+      ],
+      items.map((item) => [
+        item.createdAt.toISOString(),
+        item.action,
+        item.actor?.id,
+        item.actor?.email,
+        item.targetType,
+        item.targetId,
+        item.targetUser?.id,
+        item.targetUser?.email,
+        item.ip,
+        item.userAgent,
+        item.changes && JSON.stringify(item.changes),
+        item.metadata && JSON.stringify(item.metadata),
+      ]),
+    );
+
+    return {
+      fileName: `audit-log-${date}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      data: Buffer.from(csv, 'utf8'),
+    };
+  }
+
+  /**
+   * List the entries a user acted in or was the target of, newest first
+   * Used for the user's own data export, so other people are reduced to
+   * their IDs: their names, emails, IP addresses and user agents are left out.
+   *
+   * @param userId - User whose history to list
+   */
+  async findUserHistory(
+    userId: Types.ObjectId,
+  ): Promise<AuditLogResponseDto[]> {
+    const logs = await this.auditLogModel
+      .find({ $or: [{ actor: userId }, { targetUser: userId }] })
+      .sort({ _id: -1 })
+      .limit(EXPORT_LIMIT)
+      .exec();
+    const self = userId.toString();
+
+    const withoutOthers = (user?: AuditUserDto): AuditUserDto | undefined =>
+      user && user.id !== self ? { id: user.id } : user;
+
+    return (await this.toResponseDtos(logs)).map((item) => {
+      const byOther = !!item.actor && item.actor.id !== self;
+
+      return {
+        ...item,
+        actor: withoutOthers(item.actor),
+        targetUser: withoutOthers(item.targetUser),
+        ip: byOther ? undefined : item.ip,
+        userAgent: byOther ? undefined : item.userAgent,
+      };
+    });
+  }
+
+  /**
+   * Strip an erased user's personal data from the audit log
+   * The entries are kept so the trail of actions stays complete, but the
+   * user's IP addresses, user agents and email address are removed.
+   *
+   * @param userId - Erased user
+   * @param email - The user's lowercased email address
+   * @returns Number of entries changed
+   */
+  async anonymizeUser(userId: Types.ObjectId, email: string): Promise<number> {
+    // Network details of the user's own actions, and of anonymous attempts
+    // against the account such as failed sign-ins
+    const own = await this.updateForErasure(
+      {
+        $or: [
+          { actor: userId },
+          { actor: { $exists: false }, targetUser: userId },
+        ],
+      },
+      { $unset: { ip: 1, userAgent: 1 } },
+    );
+
+    // Failed sign-ins recorded against the bare email address
+    const byEmail = await this.updateForErasure(
+      { targetId: email },
+      {
+        $set: { targetId: userId.toString() },
+        $unset: { ip: 1, userAgent: 1 },
+      },
+    );
+
+    // Invites sent to the email address
+    const invites = await this.updateForErasure(
+      { 'metadata.email': email },
+      { $unset: { 'metadata.email': 1 } },
+    );
+
+    return own.modifiedCount + byEmail.modifiedCount + invites.modifiedCount;
+  }
+
+  /**
+   * Translate query filters into a Mongo filter
+   * @returns null when a user filter matches nobody, so nothing can match
+   */
+  private async buildFilter(
+    query: ExportAuditLogsQueryDto | ListAuditLogsQueryDto,
+  ): Promise<FilterQuery<AuditLogDocument> | null> {
+    const filter: FilterQuery<AuditLogDocument> = {};
+
+    if (query.actor) {
+      const actor = await this.resolveUserId(query.actor);
+      if (!actor) return null;
+      filter.actor = actor;
+    }
+
+    if (query.targetUser) {
+      const targetUser = await this.resolveUserId(query.targetUser);
+      if (!targetUser) return null;
+      filter.targetUser = targetUser;
+    }
+
+    if (query.action) {
+      filter.action = query.action;
+    }
+
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: new Date(query.from) }),
+        ...(query.to && { $lte: new Date(query.to) }),
+      };
+    }
+
+    return filter;
+  }
+
+  /**
+   * Accept either a user ID or an email address
+   */
+  private async resolveUserId(value: string): Promise<Types.ObjectId | null> {
+    if (OBJECT_ID_PATTERN.test(value)) {
+      return new Types.ObjectId(value);
+    }
+
+    const user = await this.userModel
+      .findOne({ email: value.trim().toLowerCase() })
+      .select('_id')
+      .exec();
+
+    return user?._id ?? null;
+  }
+
+  /**
+   * Map entries to DTOs, looking up the users they reference in one query
+   */
+  private async toResponseDtos(
+    logs: AuditLogDocument[],
+  ): Promise<AuditLogResponseDto[]> {
+    const userIds = new Set<string>();
+    for (const log of logs) {
+      if (log.actor) userIds.add(log.actor.toString());
+      if (log.targetUser) userIds.add(log.targetUser.toString());
+    }
+
+    const users = userIds.size
+      ? await this.userModel
+          .find({ _id: { $in: [...userIds] } })
+          .select('email name')
+          .exec()
+      : [];
+    const usersById = new Map(users.map((user) => [user._id.toString(), user]));
+
+    const toUserDto = (id?: Types.ObjectId): AuditUserDto | undefined => {
+      if (!id) return undefined;
+      const user = usersById.get(id.toString());
+      return { id: id.toString(), email: user?.email, name: user?.name };
+    };
+
+    return logs.map((log) => ({
+      id: log._id.toString(),
+      action: log.action,
+      actor: toUserDto(log.actor),
+      targetType: log.targetType,
+      targetId: log.targetId,
+      targetUser: toUserDto(log.targetUser),
+      changes: log.changes,
+      ip: log.ip,
+      userAgent: log.userAgent,
+      metadata: log.metadata,
+      createdAt: log.createdAt,
+    }));
+  }
+
+  /**
+   * Update entries with the option the append-only schema hook lets through
+   */
+  private updateForErasure(
+    filter: FilterQuery<AuditLogDocument>,
+    update: UpdateQuery<AuditLogDocument>,
+  ) {
+    return this.auditLogModel
+      .updateMany(filter, update)
+      .setOptions({ [AUDIT_ERASURE_OPTION]: true });
+  }
+
+  private toObjectId(id?: string): Types.ObjectId | undefined {
+    return id && Types.ObjectId.isValid(id)
+      ? new Types.ObjectId(id)
+      : undefined;
+  }
+}
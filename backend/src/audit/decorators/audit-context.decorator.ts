@@ -0,0 +1,20 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { RequestWithUser } from '../../auth/guards/auth.guard';
+import { AuditContext } from '../interfaces/audit.interface';
+
+/**
+ * Extract the actor, IP and user agent to record in audit entries
+ * Usage:
+ *   @RequestAuditContext() context: AuditContext
+ */
+export const RequestAuditContext = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuditContext => {
+    const request = ctx.switchToHttp().getRequest<RequestWithUser>();
+
+    return {
+      actorId: request.user?.id,
+      ip: request.ip || '127.0.0.1',
+      userAgent: request.headers['user-agent'] || 'Unknown',
+    };
+  },
+);
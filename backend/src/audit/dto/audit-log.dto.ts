@@ -0,0 +1,181 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { AuditAction, AuditTargetType } from '../enums/audit-action.enum';
+
+export type AuditLogExportFormat = 'csv' | 'json';
+
+/**
+ * Query parameters for browsing the audit log, newest first
+ */
+export class ListAuditLogsQueryDto {
+  @ApiPropertyOptional({
+    description: 'Actor user ID or email',
+    example: 'admin@example.com',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(254)
+  actor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Target user ID or email',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(254)
+  targetUser?: string;
+
+  @ApiPropertyOptional({
+    description: 'Action type',
+    enum: AuditAction,
+    example: AuditAction.USER_ROLE_UPDATED,
+  })
+  @IsOptional()
+  @IsEnum(AuditAction)
+  action?: AuditAction;
+
+  @ApiPropertyOptional({
+    description: 'Only entries at or after this time',
+    example: '2026-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only entries at or before this time',
+    example: '2026-01-31T23:59:59.999Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the last entry of the previous page',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @IsOptional()
+  @IsMongoId()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Entries per page (default: 50, max: 100)',
+    example: 50,
+    minimum: 1,
+    maximum: 100,
+    type: Number,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 50;
+}
+
+/**
+ * Query parameters for downloading the filtered audit log
+ */
+export class ExportAuditLogsQueryDto extends OmitType(ListAuditLogsQueryDto, [
+  'cursor',
+  'limit',
+] as const) {
+  @ApiPropertyOptional({
+    description: 'File format',
+    enum: ['csv', 'json'],
+    default: 'csv',
+  })
+  @IsOptional()
+  @IsIn(['csv', 'json'], { message: 'Format must be csv or json' })
+  format: AuditLogExportFormat = 'csv';
+}
+
+/**
+ * User referenced by an audit entry
+ * Email and name are missing once the user has been erased.
+ */
+export class AuditUserDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  id!: string;
+
+  @ApiPropertyOptional({ example: 'admin@example.com' })
+  email?: string;
+
+  @ApiPropertyOptional({ example: 'Jane Admin' })
+  name?: string;
+}
+
+/**
+ * DTO for an audit log entry
+ */
+export class AuditLogResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  id!: string;
+
+  @ApiProperty({ enum: AuditAction, example: AuditAction.USER_ROLE_UPDATED })
+  action!: AuditAction;
+
+  @ApiPropertyOptional({
+    type: AuditUserDto,
+    description: 'Unset for anonymous or system actions',
+  })
+  actor?: AuditUserDto;
+
+  @ApiProperty({ enum: AuditTargetType, example: AuditTargetType.USER })
+  targetType!: AuditTargetType;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  targetId!: string;
+
+  @ApiPropertyOptional({ type: AuditUserDto })
+  targetUser?: AuditUserDto;
+
+  @ApiPropertyOptional({
+    description: 'Fields that changed, before and after',
+    example: { before: { role: 'user' }, after: { role: 'manager' } },
+  })
+  changes?: {
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+  };
+
+  @ApiPropertyOptional({ example: '203.0.113.7' })
+  ip?: string;
+
+  @ApiPropertyOptional({ example: 'Mozilla/5.0' })
+  userAgent?: string;
+
+  @ApiPropertyOptional({ example: { revokedSessions: 2 } })
+  metadata?: Record<string, unknown>;
+
+  @ApiProperty({ example: '2026-01-08T12:00:00.000Z' })
+  createdAt!: Date;
+}
+
+/**
+ * A page of audit log entries
+ */
+export class AuditLogListDto {
+  @ApiProperty({ type: [AuditLogResponseDto] })
+  items!: AuditLogResponseDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Pass as `cursor` to load the next page; unset on the last page',
+    example: '507f1f77bcf86cd799439011',
+  })
+  nextCursor?: string;
+}
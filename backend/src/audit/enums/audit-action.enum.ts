@@ -0,0 +1,54 @@
+/**
+ * Audit action enum.
+ * Names follow "<subject>.<event>" so entries can be filtered by prefix.
+ */
+export enum AuditAction {
+  /** A user signed in and a session was created */
+  LOGIN = 'auth.login',
+  /** A password sign-in was rejected */
+  LOGIN_FAILED = 'auth.login_failed',
+  /** A user signed out of the current session */
+  LOGOUT = 'auth.logout',
+  /** A password was reset with an emailed code */
+  PASSWORD_RESET = 'auth.password_reset',
+  /** An administrator changed a user's role */
+  USER_ROLE_UPDATED = 'user.role_updated',
+  /** A direct permission was granted to a user */
+  PERMISSION_GRANTED = 'user.permission_granted',
+  /** A direct permission was removed from a user */
+  PERMISSION_REVOKED = 'user.permission_revoked',
+  /** A permission was explicitly denied to a user */
+  PERMISSION_DENIED = 'user.permission_denied',
+  /** A permission denial was lifted */
+  PERMISSION_DENIAL_REMOVED = 'user.permission_denial_removed',
+  /** A role's name, description or permissions were edited */
+  ROLE_UPDATED = 'role.updated',
+  /** An organization was created */
+  ORGANIZATION_CREATED = 'organization.created',
+  /** An organization was deleted with its memberships and invites */
+  ORGANIZATION_DELETED = 'organization.deleted',
+  /** Someone was invited to join an organization */
+  ORGANIZATION_MEMBER_INVITED = 'organization.member_invited',
+  /** A user accepted an invite and joined an organization */
+  ORGANIZATION_MEMBER_JOINED = 'organization.member_joined',
+  /** A member's role in an organization was changed */
+  ORGANIZATION_MEMBER_ROLE_UPDATED = 'organization.member_role_updated',
+  /** A member was removed from or left an organization */
+  ORGANIZATION_MEMBER_REMOVED = 'organization.member_removed',
+  /** A single session was revoked */
+  SESSION_REVOKED = 'session.revoked',
+  /** Every other session of a user was revoked */
+  SESSIONS_REVOKED = 'session.revoked_all',
+  /** A session family was revoked after token reuse */
+  SESSION_FAMILY_REVOKED = 'session.family_revoked',
+}
+
+/**
+ * Kind of record an audit entry is about
+ */
+export enum AuditTargetType {
+  USER = 'user',
+  ROLE = 'role',
+  SESSION = 'session',
+  ORGANIZATION = 'organization',
+}
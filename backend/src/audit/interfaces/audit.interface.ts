@@ -0,0 +1,32 @@
+import { AuditAction, AuditTargetType } from '../enums/audit-action.enum';
+
+/**
+ * Who made a request and where it came from
+ */
+export interface AuditContext {
+  /** Authenticated user making the request, if any */
+  actorId?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Fields that changed, with their values before and after the change
+ */
+export interface AuditChanges {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * An audit entry to record
+ */
+export interface AuditEntry extends AuditContext {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  /** User the action affects, used to find every entry about a user */
+  targetUser?: string;
+  changes?: AuditChanges;
+  metadata?: Record<string, unknown>;
+}
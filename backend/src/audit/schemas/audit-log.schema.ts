@@ -0,0 +1,94 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+import { AuditAction, AuditTargetType } from '../enums/audit-action.enum';
+
+/**
+ * A structured record of who did what.
+ * Entries are append-only: they are never deleted by the application and
+ * are only removed by the TTL index once retention ends. The one update
+ * allowed is stripping an erased user's personal data.
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class AuditLog {
+  @Prop({ type: Types.ObjectId, ref: 'User', index: true })
+  actor?: Types.ObjectId; // Unset for anonymous or system actions
+
+  @Prop({ type: String, enum: Object.values(AuditAction), required: true })
+  action!: AuditAction;
+
+  @Prop({ type: String, enum: Object.values(AuditTargetType), required: true })
+  targetType!: AuditTargetType;
+
+  @Prop({ required: true })
+  targetId!: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', index: true })
+  targetUser?: Types.ObjectId;
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  changes?: {
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+  };
+
+  @Prop()
+  ip?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop({ type: MongooseSchema.Types.Mixed })
+  metadata?: Record<string, unknown>;
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp field (automatically managed by Mongoose)
+  createdAt!: Date;
+}
+
+export type AuditLogDocument = HydratedDocument<AuditLog>;
+
+export const AuditLogSchema: MongooseSchema<AuditLog> =
+  SchemaFactory.createForClass(AuditLog);
+
+// Indexes for the admin audit views
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ action: 1, createdAt: -1 });
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+const APPEND_ONLY_ERROR = 'Audit log entries are append-only';
+
+/** Query option marking an `updateMany` that anonymises an erased user's entries */
+export const AUDIT_ERASURE_OPTION = 'auditErasure';
+
+// Reject every query that would change or remove existing entries
+AuditLogSchema.pre(
+  [
+    'updateOne',
+    'findOneAndUpdate',
+    'replaceOne',
+    'findOneAndReplace',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+  ],
+  { document: true, query: true },
+  function () {
+    throw new Error(APPEND_ONLY_ERROR);
+  },
+);
+
+// Only account erasure may update entries, to strip personal data
+AuditLogSchema.pre('updateMany', function () {
+  if (this.getOptions()[AUDIT_ERASURE_OPTION] !== true) {
+    throw new Error(APPEND_ONLY_ERROR);
+  }
+});
+
+AuditLogSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error(APPEND_ONLY_ERROR));
+  }
+  next();
+});
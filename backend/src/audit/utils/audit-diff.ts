@@ -0,0 +1,23 @@
+import { AuditChanges } from '../interfaces/audit.interface';
+
+/**
+ * Keep only the fields whose value changed between two snapshots
+ * Values are compared by their JSON form so arrays and ObjectIds compare by content.
+ * @returns The changed fields, or undefined when nothing changed
+ */
+export function diffChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+): AuditChanges | undefined {
+  const changes: AuditChanges = { before: {}, after: {} };
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.before[key] = before[key];
+      changes.after[key] = after[key];
+    }
+  }
+
+  return Object.keys(changes.after).length > 0 ? changes : undefined;
+}
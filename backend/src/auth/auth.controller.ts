@@ -15,11 +15,22 @@ import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { ActivateDto } from './dto/activate.dto';
 import { LoginDto } from './dto/login.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { ResendActivationDto } from './dto/resend-activation.dto';
+import { RequestPasswordlessLoginDto } from './dto/request-passwordless-login.dto';
+import {
+  VerifyPasswordlessCodeDto,
+  VerifyMagicLinkDto,
+} from './dto/verify-passwordless-login.dto';
+import { UnlockAccountDto } from './dto/unlock-account.dto';
+import { RequestReactivationDto } from './dto/request-reactivation.dto';
+import { ReactivateAccountDto } from './dto/reactivate-account.dto';
 import { Public } from './decorators/public.decorator';
 import { AuthGuard } from './guards/auth.guard';
+import { RequestAuditContext } from '../audit/decorators/audit-context.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
 import { Throttle } from '@nestjs/throttler';
 
 @ApiTags('auth')
@@ -94,7 +105,9 @@ export class AuthController {
     summary: 'Login user',
     description:
       'Authenticates a user with email and password. ' +
-      'Returns JWT token and sets session cookie upon successful authentication.',
+      'Returns JWT token and sets session cookie upon successful authentication. ' +
+      'If the account has 2FA enabled, returns a challenge token instead and no cookie is set. ' +
+      'Repeated failures lock the email and IP address with growing delays (ACCOUNT_LOCKED).',
   })
   @ApiBody({ type: LoginDto })
   async login(@Body() dto: LoginDto, @Res() response: Response) {
@@ -102,6 +115,147 @@ export class AuthController {
     return response.status(HttpStatus.OK).json(result);
   }
 
+  /**
+   * Complete login with a 2FA code
+   * POST /api/auth/2fa/verify
+   */
+  @Public()
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify 2FA login',
+    description:
+      'Completes a login that returned a 2FA challenge. ' +
+      'Verifies the authenticator code and sets the session cookie.',
+  })
+  @ApiBody({ type: VerifyTwoFactorDto })
+  async verifyTwoFactor(
+    @Body() dto: VerifyTwoFactorDto,
+    @Res() response: Response,
+  ) {
+    const result = await this.authService.verifyTwoFactorLogin(dto, response);
+    return response.status(HttpStatus.OK).json(result);
+  }
+
+  /**
+   * Request a passwordless sign-in link and code
+   * POST /api/auth/passwordless/request
+   */
+  @Public()
+  @Throttle({ default: { limit: 5, ttl: 900000 } })
+  @Post('passwordless/request')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request passwordless login',
+    description:
+      'Emails a single-use sign-in link and 6-digit code, both expiring in 15 minutes. ' +
+      'Responds the same way when the email is not registered.',
+  })
+  @ApiBody({ type: RequestPasswordlessLoginDto })
+  async requestPasswordlessLogin(@Body() dto: RequestPasswordlessLoginDto) {
+    return this.authService.requestPasswordlessLogin(dto);
+  }
+
+  /**
+   * Login with the emailed code
+   * POST /api/auth/passwordless/verify
+   */
+  @Public()
+  @Post('passwordless/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify passwordless code',
+    description:
+      'Signs in with the email address and the emailed 6-digit code. ' +
+      'If the account has 2FA enabled, returns a challenge token instead and no cookie is set.',
+  })
+  @ApiBody({ type: VerifyPasswordlessCodeDto })
+  async verifyPasswordlessCode(
+    @Body() dto: VerifyPasswordlessCodeDto,
+    @Res() response: Response,
+  ) {
+    const result = await this.authService.verifyPasswordlessCode(dto, response);
+    return response.status(HttpStatus.OK).json(result);
+  }
+
+  /**
+   * Login with the token from the emailed link
+   * POST /api/auth/passwordless/verify-link
+   */
+  @Public()
+  @Post('passwordless/verify-link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify magic link',
+    description:
+      'Signs in with the token from the emailed sign-in link. The client page posts the token, ' +
+      'so mail scanners that prefetch the link do not use it up. ' +
+      'If the account has 2FA enabled, returns a challenge token instead and no cookie is set.',
+  })
+  @ApiBody({ type: VerifyMagicLinkDto })
+  async verifyMagicLink(
+    @Body() dto: VerifyMagicLinkDto,
+    @Res() response: Response,
+  ) {
+    const result = await this.authService.verifyMagicLink(dto, response);
+    return response.status(HttpStatus.OK).json(result);
+  }
+
+  /**
+   * Lift a sign-in lock with the token from the account locked email
+   * POST /api/auth/unlock
+   */
+  @Public()
+  @Post('unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unlock account',
+    description:
+      'Lifts the lock placed on an email address after repeated failed sign-ins, ' +
+      'using the single-use token from the account locked email.',
+  })
+  @ApiBody({ type: UnlockAccountDto })
+  async unlockAccount(@Body() dto: UnlockAccountDto) {
+    return this.authService.unlockAccount(dto);
+  }
+
+  /**
+   * Request a code for reactivating a deleted account
+   * POST /api/auth/reactivate/request
+   */
+  @Public()
+  @Throttle({ default: { limit: 5, ttl: 900000 } })
+  @Post('reactivate/request')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request account reactivation',
+    description:
+      'Sends a 6-digit reactivation code if the account was deleted by its owner and ' +
+      'the deletion grace period has not ended. Responds the same way for every email address.',
+  })
+  @ApiBody({ type: RequestReactivationDto })
+  async requestReactivation(@Body() dto: RequestReactivationDto) {
+    return this.authService.requestReactivation(dto);
+  }
+
+  /**
+   * Reactivate a deleted account with email and code
+   * POST /api/auth/reactivate
+   */
+  @Public()
+  @Post('reactivate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reactivate account',
+    description:
+      'Restores a deleted account using the email address and the emailed 6-digit code, ' +
+      'cancelling the scheduled deletion. The user signs in again afterwards.',
+  })
+  @ApiBody({ type: ReactivateAccountDto })
+  async reactivateAccount(@Body() dto: ReactivateAccountDto) {
+    return this.authService.reactivateAccount(dto);
+  }
+
   /**
    * Logout user by invalidating session
    * POST /api/auth/logout
@@ -117,12 +271,17 @@ export class AuthController {
       'Invalidates current user session and clears session cookie. ' +
       'Requires JWT authentication.',
   })
-  async logout(@Req() request: Request, @Res() response: Response) {
+  async logout(
+    @Req() request: Request,
+    @Res() response: Response,
+    @RequestAuditContext() auditContext: AuditContext,
+  ) {
     const cookieName = process.env.SESSION_COOKIE_NAME || 'sid';
     const sessionToken = request.cookies?.[cookieName];
 
     const result = await this.authService.logout(
       (sessionToken as string | undefined) ?? '',
+      auditContext,
     );
 
     // Clear session cookie
@@ -133,6 +292,31 @@ export class AuthController {
     return response.status(HttpStatus.OK).json(result);
   }
 
+  /**
+   * Refresh current session
+   * POST /api/auth/refresh
+   */
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh session',
+    description:
+      'Rotates the session token from the session cookie, extends the session expiry ' +
+      'and reissues the session cookie. Returns 401 if the session is invalid or expired.',
+  })
+  async refresh(@Req() request: Request, @Res() response: Response) {
+    const cookieName = process.env.SESSION_COOKIE_NAME || 'sid';
+    const sessionToken = request.cookies?.[cookieName];
+
+    const result = await this.authService.refresh(
+      (sessionToken as string | undefined) ?? '',
+      response,
+    );
+
+    return response.status(HttpStatus.OK).json(result);
+  }
+
   /**
    * Request password reset code
    * POST /api/auth/forgot-password
@@ -165,7 +349,10 @@ export class AuthController {
       'The code must be valid and not expired.',
   })
   @ApiBody({ type: ResetPasswordDto })
-  async resetPassword(@Body() dto: ResetPasswordDto) {
-    return this.authService.resetPassword(dto);
+  async resetPassword(
+    @Body() dto: ResetPasswordDto,
+    @RequestAuditContext() auditContext: AuditContext,
+  ) {
+    return this.authService.resetPassword(dto, auditContext);
   }
 }
@@ -1,9 +1,10 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { OAuthController } from './oauth.controller';
+import { WebAuthnController } from './webauthn.controller';
 import {
   PendingRegistration,
   PendingRegistrationSchema,
@@ -12,18 +13,55 @@ import {
   PendingPasswordReset,
   PendingPasswordResetSchema,
 } from './schemas/pending-password-reset.schema';
+import {
+  PendingReactivation,
+  PendingReactivationSchema,
+} from './schemas/pending-reactivation.schema';
+import {
+  PendingTwoFactorLogin,
+  PendingTwoFactorLoginSchema,
+} from './schemas/pending-two-factor-login.schema';
+import {
+  PendingPasswordlessLogin,
+  PendingPasswordlessLoginSchema,
+} from './schemas/pending-passwordless-login.schema';
+import {
+  PendingWebAuthnChallenge,
+  PendingWebAuthnChallengeSchema,
+} from './schemas/pending-webauthn-challenge.schema';
+import {
+  PendingOAuthState,
+  PendingOAuthStateSchema,
+} from './schemas/pending-oauth-state.schema';
+import {
+  WebAuthnCredential,
+  WebAuthnCredentialSchema,
+} from './schemas/webauthn-credential.schema';
+import {
+  LoginAttempt,
+  LoginAttemptSchema,
+} from './schemas/login-attempt.schema';
 import { User, UserSchema } from '../user/schemas/user.schema';
 import { Session, SessionSchema } from '../session/schemas/session.schema';
-import { Role, RoleSchema } from '../role/schemas/role.schema';
 import { SessionService } from './services/session.service';
 import { OAuthService } from './services/oauth.service';
+import { OAuthStateService } from './services/oauth-state.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { LoginAttemptService } from './services/login-attempt.service';
 import { GoogleOAuthStrategy } from './strategies/google-oauth.strategy';
 import { GitHubOAuthStrategy } from './strategies/github-oauth.strategy';
 import { FacebookOAuthStrategy } from './strategies/facebook-oauth.strategy';
+import {
+  OIDC_STRATEGIES,
+  createOidcStrategies,
+} from './strategies/oidc-oauth.strategy';
 import { CommonModule } from '../common/common.module';
 import { MailModule } from '../mail/mail.module';
+import { AuditModule } from '../audit/audit.module';
 import { UserModule } from '../user/user.module';
 import { SessionModule } from '../session/session.module';
+import { PermissionModule } from '../permission/permission.module';
 import { AuthGuard } from './guards/auth.guard';
 import { VerifiedGuard } from './guards/verified.guard';
 
@@ -33,24 +71,50 @@ import { VerifiedGuard } from './guards/verified.guard';
     MongooseModule.forFeature([
       { name: PendingRegistration.name, schema: PendingRegistrationSchema },
       { name: PendingPasswordReset.name, schema: PendingPasswordResetSchema },
+      { name: PendingReactivation.name, schema: PendingReactivationSchema },
+      {
+        name: PendingTwoFactorLogin.name,
+        schema: PendingTwoFactorLoginSchema,
+      },
+      {
+        name: PendingPasswordlessLogin.name,
+        schema: PendingPasswordlessLoginSchema,
+      },
+      {
+        name: PendingWebAuthnChallenge.name,
+        schema: PendingWebAuthnChallengeSchema,
+      },
+      { name: WebAuthnCredential.name, schema: WebAuthnCredentialSchema },
+      { name: PendingOAuthState.name, schema: PendingOAuthStateSchema },
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
       { name: User.name, schema: UserSchema },
       { name: Session.name, schema: SessionSchema },
-      { name: Role.name, schema: RoleSchema },
     ]),
     // ThrottlerModule is already configured globally in AppModule
     CommonModule,
     MailModule,
+    forwardRef(() => AuditModule),
     forwardRef(() => UserModule),
     SessionModule,
+    PermissionModule,
   ],
-  controllers: [AuthController, OAuthController],
+  controllers: [AuthController, OAuthController, WebAuthnController],
   providers: [
     AuthService,
     SessionService,
     OAuthService,
+    OAuthStateService,
+    TwoFactorService,
+    WebAuthnService,
+    LoginAttemptService,
     GoogleOAuthStrategy,
     GitHubOAuthStrategy,
     FacebookOAuthStrategy,
+    {
+      provide: OIDC_STRATEGIES,
+      useFactory: createOidcStrategies,
+      inject: [ConfigService],
+    },
     AuthGuard,
     VerifiedGuard,
   ],
@@ -58,6 +122,8 @@ import { VerifiedGuard } from './guards/verified.guard';
     AuthService,
     SessionService,
     OAuthService,
+    TwoFactorService,
+    WebAuthnService,
     AuthGuard,
     VerifiedGuard,
   ],
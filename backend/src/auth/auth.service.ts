@@ -5,7 +5,6 @@ import { Model } from 'mongoose';
 import { Response } from 'express';
 import * as crypto from 'crypto';
 import { User, UserDocument } from '../user/schemas/user.schema';
-import { Role, RoleDocument } from '../role/schemas/role.schema';
 import {
   PendingRegistration,
   PendingRegistrationDocument,
@@ -14,6 +13,18 @@ import {
   PendingPasswordReset,
   PendingPasswordResetDocument,
 } from './schemas/pending-password-reset.schema';
+import {
+  PendingReactivation,
+  PendingReactivationDocument,
+} from './schemas/pending-reactivation.schema';
+import {
+  PendingTwoFactorLogin,
+  PendingTwoFactorLoginDocument,
+} from './schemas/pending-two-factor-login.schema';
+import {
+  PendingPasswordlessLogin,
+  PendingPasswordlessLoginDocument,
+} from './schemas/pending-passwordless-login.schema';
 import { RegisterDto } from './dto/register.dto';
 import { ActivateDto } from './dto/activate.dto';
 import { LoginDto } from './dto/login.dto';
@@ -24,31 +35,75 @@ import { ActivateResponseDto } from './dto/activate-response.dto';
 import { LoginResponseDto } from './dto/login-response.dto';
 import { ForgotPasswordResponseDto } from './dto/forgot-password-response.dto';
 import { ResetPasswordResponseDto } from './dto/reset-password-response.dto';
+import { RequestPasswordlessLoginDto } from './dto/request-passwordless-login.dto';
+import {
+  VerifyPasswordlessCodeDto,
+  VerifyMagicLinkDto,
+} from './dto/verify-passwordless-login.dto';
+import { PasswordlessLoginResponseDto } from './dto/passwordless-login-response.dto';
+import { UnlockAccountDto } from './dto/unlock-account.dto';
+import { UnlockAccountResponseDto } from './dto/unlock-account-response.dto';
+import { RequestReactivationDto } from './dto/request-reactivation.dto';
+import { RequestReactivationResponseDto } from './dto/request-reactivation-response.dto';
+import { ReactivateAccountDto } from './dto/reactivate-account.dto';
+import { ReactivateAccountResponseDto } from './dto/reactivate-account-response.dto';
 import { ResendActivationDto } from './dto/resend-activation.dto';
 import { ResendActivationResponseDto } from './dto/resend-activation-response.dto';
+import { RefreshSessionResponseDto } from './dto/refresh-session-response.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { TwoFactorChallengeResponseDto } from './dto/two-factor-challenge-response.dto';
+import { VerifyWebAuthnAuthenticationDto } from './dto/webauthn.dto';
 import { ApiResponse } from '../common/dto/api-response.dto';
 import { HashService } from '../common/services/hash.service';
 import { AppException } from '../common/exceptions/app.exception';
 import { ErrorCode } from '../common/enums/error-code.enum';
+import {
+  assertAccountActive,
+  canReactivateAccount,
+  getAccountStatus,
+  setAccountStatus,
+} from '../common/utils/account-status';
+import { AccountStatus } from '../user/enums/account-status.enum';
 import { MailService } from '../mail/mail.service';
 import { SessionService } from './services/session.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { WebAuthnService } from './services/webauthn.service';
+import {
+  LoginAttemptService,
+  LoginLock,
+} from './services/login-attempt.service';
+import { AuditService } from '../audit/audit.service';
+import { PermissionService } from '../permission/permission.service';
+import { AuditAction, AuditTargetType } from '../audit/enums/audit-action.enum';
+import { AuditContext } from '../audit/interfaces/audit.interface';
 
 @Injectable()
 export class AuthService {
   private readonly logger = new Logger(AuthService.name);
   private readonly codeExpiresIn: number;
   private readonly maxAttempts: number;
+  private readonly twoFactorChallengeExpiresIn: number;
 
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    @InjectModel(Role.name) private roleModel: Model<RoleDocument>,
     @InjectModel(PendingRegistration.name)
     private pendingRegistrationModel: Model<PendingRegistrationDocument>,
     @InjectModel(PendingPasswordReset.name)
     private pendingPasswordResetModel: Model<PendingPasswordResetDocument>,
+    @InjectModel(PendingTwoFactorLogin.name)
+    private pendingTwoFactorLoginModel: Model<PendingTwoFactorLoginDocument>,
+    @InjectModel(PendingPasswordlessLogin.name)
+    private pendingPasswordlessLoginModel: Model<PendingPasswordlessLoginDocument>,
+    @InjectModel(PendingReactivation.name)
+    private pendingReactivationModel: Model<PendingReactivationDocument>,
     private readonly hashService: HashService,
     private readonly mailService: MailService,
     private readonly sessionService: SessionService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly auditService: AuditService,
+    private readonly permissionService: PermissionService,
     private readonly configService: ConfigService,
   ) {
     this.codeExpiresIn = this.configService.get<number>(
@@ -59,6 +114,10 @@ export class AuthService {
       'activation.maxAttempts',
       5,
     );
+    this.twoFactorChallengeExpiresIn = this.configService.get<number>(
+      'twoFactor.challengeExpiresIn',
+      300000,
+    );
   }
 
   /**
@@ -214,28 +273,14 @@ export class AuthService {
       user._id,
       userAgent,
       ip,
+      'activation',
     );
 
     // Delete pending registration
     await this.pendingRegistrationModel.deleteOne({ email: dto.email });
 
     // Set HTTP-only cookie
-    const cookieName = this.configService.get<string>(
-      'session.cookieName',
-      'sid',
-    );
-    const cookieMaxAge = this.configService.get<number>(
-      'session.cookieMaxAge',
-      604800000,
-    );
-
-    response.cookie(cookieName, sessionToken, {
-      httpOnly: true,
-      secure: this.configService.get('NODE_ENV') === 'production',
-      sameSite: 'strict',
-      maxAge: cookieMaxAge,
-      path: '/',
-    });
+    this.sessionService.setSessionCookie(response, sessionToken);
 
     return ActivateResponseDto.success(user);
   }
@@ -296,25 +341,34 @@ export class AuthService {
 
   /**
    * Login user with email and password
+   * Accounts with 2FA enabled receive a challenge instead of a session.
+   * Repeated failures lock the email and the IP address with growing delays.
    * @param dto - Login data
    * @param response - Express response object for setting cookie
    * @throws UnauthorizedException for invalid credentials
+   * @throws AppException ACCOUNT_LOCKED while the email or IP is locked
+   * @throws AppException ACCOUNT_SUSPENDED, ACCOUNT_DEACTIVATED or
+   * ACCOUNT_PENDING_DELETION if the account is not active
    */
   async login(
     dto: LoginDto,
     response: Response,
-  ): Promise<ApiResponse<LoginResponseDto>> {
+  ): Promise<
+    ApiResponse<LoginResponseDto> | ApiResponse<TwoFactorChallengeResponseDto>
+  > {
+    const ip = response.req.ip || '127.0.0.1';
+
+    await this.loginAttemptService.assertNotLocked(dto.email, ip);
+
     // Find user with password field selected
     const user = await this.userModel
       .findOne({ email: dto.email })
       .select('+password');
 
+    const userAgent = response.req.headers['user-agent'] || 'Unknown';
+
     if (!user) {
-      throw new AppException(
-        ErrorCode.INVALID_CREDENTIALS,
-        'Invalid email or password',
-        HttpStatus.UNAUTHORIZED,
-      );
+      return this.failLogin(dto.email, { ip, userAgent }, null);
     }
 
     // Compare password
@@ -324,6 +378,41 @@ export class AuthService {
     );
 
     if (!isPasswordValid) {
+      return this.failLogin(dto.email, { ip, userAgent }, user);
+    }
+
+    // Only reveal the account state to someone who knows the password
+    assertAccountActive(user);
+
+    // Failures are only forgotten once the second factor has been passed too
+    if (user.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(user);
+    }
+
+    await this.loginAttemptService.clearFailures(dto.email);
+
+    return this.completeLogin(user, response, 'password');
+  }
+
+  /**
+   * Count a failed password sign-in and reject it
+   * When the failure locks the email, the account owner is emailed an unlock link.
+   * @throws AppException ACCOUNT_LOCKED if this failure caused a lock,
+   * INVALID_CREDENTIALS otherwise
+   */
+  private async failLogin(
+    email: string,
+    context: { ip: string; userAgent: string },
+    user: UserDocument | null,
+  ): Promise<never> {
+    const lock = await this.recordFailedSignIn(
+      email,
+      context,
+      user,
+      user ? 'invalid_password' : 'unknown_email',
+    );
+
+    if (!lock) {
       throw new AppException(
         ErrorCode.INVALID_CREDENTIALS,
         'Invalid email or password',
@@ -331,6 +420,240 @@ export class AuthService {
       );
     }
 
+    throw this.loginAttemptService.createLockedException(lock);
+  }
+
+  /**
+   * Count a failed sign-in step against the email and IP and audit it
+   * When the failure locks the email, the account owner is emailed an unlock link.
+   * @returns The lock this failure caused, if any
+   */
+  private async recordFailedSignIn(
+    email: string,
+    context: { ip: string; userAgent: string },
+    user: UserDocument | null,
+    reason: string,
+  ): Promise<LoginLock | null> {
+    const { lock, unlockToken } = await this.loginAttemptService.recordFailure(
+      email,
+      context.ip,
+    );
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.LOGIN_FAILED,
+      targetType: AuditTargetType.USER,
+      targetId: user ? user._id.toString() : email.toLowerCase(),
+      targetUser: user?._id.toString(),
+      metadata: {
+        reason,
+        ...(lock && { lockedUntil: lock.lockedUntil, lockScope: lock.scope }),
+      },
+    });
+
+    if (lock && user && unlockToken) {
+      const clientUrl = this.configService.get<string>(
+        'cors.clientUrl',
+        'http://localhost:3000',
+      );
+
+      // The lock still applies if the notice cannot be sent
+      try {
+        await this.mailService.sendAccountLocked(user.email, user.name, {
+          link: `${clientUrl}/auth/unlock?token=${unlockToken}`,
+          lockedUntil: lock.lockedUntil,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to send account locked email to ${user.email}`,
+          error,
+        );
+      }
+    }
+
+    return lock;
+  }
+
+  /**
+   * Lift an email lock with the token from the account locked email
+   * @param dto - Unlock token
+   * @throws AppException if the token is invalid or already used
+   */
+  async unlockAccount(
+    dto: UnlockAccountDto,
+  ): Promise<ApiResponse<UnlockAccountResponseDto>> {
+    const email = await this.loginAttemptService.unlockWithToken(dto.token);
+
+    if (!email) {
+      throw new AppException(
+        ErrorCode.UNLOCK_TOKEN_INVALID,
+        'Unlock link is invalid or has already been used',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return UnlockAccountResponseDto.success(email);
+  }
+
+  /**
+   * Complete a login that was challenged for a 2FA code
+   * Wrong codes count towards the email and IP lockout, so new challenges
+   * cannot be used to keep guessing codes.
+   * @param dto - Challenge token and authenticator code
+   * @param response - Express response object for setting cookie
+   * @throws AppException if the challenge is invalid/expired or the code is wrong
+   * @throws AppException ACCOUNT_LOCKED while the email or IP is locked
+   */
+  async verifyTwoFactorLogin(
+    dto: VerifyTwoFactorDto,
+    response: Response,
+  ): Promise<ApiResponse<LoginResponseDto>> {
+    const hashedToken = this.hashChallengeToken(dto.challengeToken);
+    const challenge = await this.pendingTwoFactorLoginModel.findOne({
+      hashedToken,
+    });
+
+    if (!challenge || challenge.expiresAt <= new Date()) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_CHALLENGE_INVALID,
+        'Login challenge is invalid or has expired. Please sign in again.',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    if (challenge.attempts >= this.maxAttempts) {
+      await this.pendingTwoFactorLoginModel.deleteOne({ _id: challenge._id });
+      throw new AppException(
+        ErrorCode.MAX_ATTEMPTS_EXCEEDED,
+        'Maximum verification attempts exceeded. Please sign in again.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const user = await this.userModel.findById(challenge.user);
+
+    if (!user) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_CHALLENGE_INVALID,
+        'Login challenge is invalid or has expired. Please sign in again.',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const context = {
+      ip: response.req.ip || '127.0.0.1',
+      userAgent: response.req.headers['user-agent'] || 'Unknown',
+    };
+
+    await this.loginAttemptService.assertNotLocked(user.email, context.ip);
+
+    if (dto.recoveryCode) {
+      const { valid } = await this.twoFactorService.consumeRecoveryCode(
+        challenge.user,
+        dto.recoveryCode,
+        context,
+      );
+
+      if (!valid) {
+        const remainingAttempts = await this.failTwoFactorLogin(
+          challenge,
+          user,
+          context,
+          'invalid_recovery_code',
+        );
+        throw new AppException(
+          ErrorCode.RECOVERY_CODE_INVALID,
+          `Invalid or already used recovery code. ${remainingAttempts} attempts remaining.`,
+          HttpStatus.UNAUTHORIZED,
+          { remainingAttempts },
+        );
+      }
+    } else {
+      const isCodeValid = await this.twoFactorService.verifyUserCode(
+        challenge.user,
+        dto.code ?? '',
+      );
+
+      if (!isCodeValid) {
+        const remainingAttempts = await this.failTwoFactorLogin(
+          challenge,
+          user,
+          context,
+          'invalid_two_factor_code',
+        );
+        throw new AppException(
+          ErrorCode.TWO_FACTOR_CODE_INVALID,
+          `Invalid authentication code. ${remainingAttempts} attempts remaining.`,
+          HttpStatus.UNAUTHORIZED,
+          { remainingAttempts },
+        );
+      }
+    }
+
+    await this.pendingTwoFactorLoginModel.deleteOne({ _id: challenge._id });
+    await this.loginAttemptService.clearFailures(user.email);
+
+    return this.completeLogin(user, response, 'two_factor');
+  }
+
+  /**
+   * Sign in with a passkey.
+   * A passkey already proves possession and user verification (PIN or
+   * biometric), so no separate 2FA step is required.
+   * @param dto - Assertion returned by the browser
+   * @param response - Express response object for setting cookie
+   * @throws AppException if the passkey cannot be verified
+   */
+  async loginWithPasskey(
+    dto: VerifyWebAuthnAuthenticationDto,
+    response: Response,
+  ): Promise<ApiResponse<LoginResponseDto>> {
+    const user = await this.webAuthnService.verifyAuthentication(
+      dto.credential,
+    );
+
+    return this.completeLogin(user, response, 'passkey');
+  }
+
+  /**
+   * Count a wrong code against the login challenge and the sign-in lockout
+   * @returns Attempts left before the challenge is discarded
+   * @throws AppException ACCOUNT_LOCKED if this failure locked the email or IP
+   */
+  private async failTwoFactorLogin(
+    challenge: PendingTwoFactorLoginDocument,
+    user: UserDocument,
+    context: { ip: string; userAgent: string },
+    reason: string,
+  ): Promise<number> {
+    const lock = await this.recordFailedSignIn(
+      user.email,
+      context,
+      user,
+      reason,
+    );
+
+    if (lock) {
+      await this.pendingTwoFactorLoginModel.deleteOne({ _id: challenge._id });
+      throw this.loginAttemptService.createLockedException(lock);
+    }
+
+    challenge.attempts += 1;
+    await challenge.save();
+
+    return this.maxAttempts - challenge.attempts;
+  }
+
+  /**
+   * Create a session for an authenticated user and set the session cookie
+   */
+  private async completeLogin(
+    user: UserDocument,
+    response: Response,
+    method: string,
+  ): Promise<ApiResponse<LoginResponseDto>> {
+    assertAccountActive(user);
+
     // Create session
     const userAgent = response.req.headers['user-agent'] || 'Unknown';
     const ip = response.req.ip || '127.0.0.1';
@@ -338,36 +661,27 @@ export class AuthService {
       user._id,
       userAgent,
       ip,
+      method,
     );
 
     this.logger.log(`User logged in: ${user.email}`);
 
     // Set HTTP-only cookie
-    const cookieName = this.configService.get<string>(
-      'session.cookieName',
-      'sid',
-    );
-    const cookieMaxAge = this.configService.get<number>(
-      'session.cookieMaxAge',
-      604800000,
-    );
-
-    response.cookie(cookieName, sessionToken, {
-      httpOnly: true,
-      secure: this.configService.get('NODE_ENV') === 'production',
-      sameSite: 'strict',
-      maxAge: cookieMaxAge,
-      path: '/',
-    });
+    this.sessionService.setSessionCookie(response, sessionToken);
 
-    // Compute effective permissions (role + direct)
-    const effectivePermissions = await this.getEffectivePermissions(user);
+    // Compute effective permissions (role + direct + grants - denials)
+    const [effectivePermissions, roleLevel] = await Promise.all([
+      this.permissionService.getEffectivePermissions(user),
+      this.permissionService.getRoleLevel(user.roles),
+    ]);
 
     return LoginResponseDto.success({
       id: user._id.toString(),
       email: user.email,
       name: user.name,
-      role: user.role,
+      role: user.roles[0],
+      roles: user.roles,
+      roleLevel,
       authProvider: user.authProvider,
       isVerified: user.isVerified,
       permissions: effectivePermissions,
@@ -375,41 +689,46 @@ export class AuthService {
   }
 
   /**
-   * Get effective permissions for a user (role permissions + direct permissions).
-   * @param user - User document
-   * @returns Array of effective permissions (deduplicated)
+   * Store a short-lived 2FA challenge for a user who passed the password step
    */
-  private async getEffectivePermissions(user: UserDocument): Promise<string[]> {
-    const rolePermissions: string[] = [];
-
-    // Fetch role permissions
-    if (user.role) {
-      const role = await this.roleModel.findOne({ slug: user.role }).exec();
-      if (role && role.permissions) {
-        rolePermissions.push(...role.permissions);
-      }
-    }
+  private async createTwoFactorChallenge(
+    user: UserDocument,
+  ): Promise<ApiResponse<TwoFactorChallengeResponseDto>> {
+    assertAccountActive(user);
+
+    const challengeToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + this.twoFactorChallengeExpiresIn);
+
+    await this.pendingTwoFactorLoginModel.create({
+      user: user._id,
+      hashedToken: this.hashChallengeToken(challengeToken),
+      expiresAt,
+    });
 
-    // Combine role permissions with direct user permissions
-    const directPermissions = user.permissions || [];
-    const allPermissions = [...rolePermissions, ...directPermissions];
+    this.logger.log(`2FA challenge issued for user: ${user.email}`);
 
-    // Deduplicate permissions
-    return [...new Set(allPermissions)];
+    return TwoFactorChallengeResponseDto.success(challengeToken, expiresAt);
+  }
+
+  private hashChallengeToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
   }
 
   /**
    * Logout user by invalidating session
    * @param sessionToken - Session token to invalidate
+   * @param context - Actor and request details for the audit log
    * @returns Success message
    */
   async logout(
     sessionToken: string,
+    context?: AuditContext,
   ): Promise<ApiResponse<{ message: string }>> {
+    const session = await this.sessionService.getSessionByToken(sessionToken);
     const invalidated =
       await this.sessionService.invalidateSession(sessionToken);
 
-    if (!invalidated) {
+    if (!session || !invalidated) {
       throw new AppException(
         ErrorCode.SESSION_INVALID,
         'Invalid session',
@@ -419,9 +738,55 @@ export class AuthService {
 
     this.logger.log(`User logged out with token: ${sessionToken}`);
 
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.LOGOUT,
+      targetType: AuditTargetType.SESSION,
+      targetId: session._id.toString(),
+      targetUser: session.user.toString(),
+    });
+
     return ApiResponse.success({ message: 'Logout successful' });
   }
 
+  /**
+   * Refresh the current session (sliding session)
+   * Rotates the session token, extends its expiry and reissues the cookie.
+   * @param sessionToken - Current session token from the cookie
+   * @param response - Express response object for setting cookie
+   * @throws UnauthorizedException if the session is missing, invalid or expired
+   * @throws AppException with the account status code if the account is not active
+   */
+  async refresh(
+    sessionToken: string,
+    response: Response,
+  ): Promise<ApiResponse<RefreshSessionResponseDto>> {
+    if (!sessionToken) {
+      throw new AppException(
+        ErrorCode.SESSION_REQUIRED,
+        'Authentication required',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const session = await this.sessionService.rotateSession(sessionToken, {
+      ip: response.req.ip || '127.0.0.1',
+      userAgent: response.req.headers['user-agent'] || 'Unknown',
+    });
+
+    if (!session) {
+      throw new AppException(
+        ErrorCode.SESSION_INVALID,
+        'Invalid or expired session',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    this.sessionService.setSessionCookie(response, session.refreshToken);
+
+    return RefreshSessionResponseDto.success(session.expiresAt);
+  }
+
   /**
    * Request password reset by sending 6-digit code to email
    * @param dto - Forgot password data
@@ -493,11 +858,13 @@ export class AuthService {
   /**
    * Reset password using email and 6-digit code
    * @param dto - Reset password data
+   * @param context - Request details for the audit log
    * @throws BadRequestException for invalid/expired code
    * @throws UnauthorizedException for max attempts exceeded
    */
   async resetPassword(
     dto: ResetPasswordDto,
+    context?: AuditContext,
   ): Promise<ApiResponse<ResetPasswordResponseDto>> {
     // Find pending reset (select hidden field for verification)
     const pending = await this.pendingPasswordResetModel
@@ -569,9 +936,371 @@ export class AuthService {
 
     this.logger.log(`Password reset successful for: ${user.email}`);
 
+    // The code proves mailbox access, so the account owner is the actor
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.PASSWORD_RESET,
+      actorId: user._id.toString(),
+      targetType: AuditTargetType.USER,
+      targetId: user._id.toString(),
+      targetUser: user._id.toString(),
+    });
+
     // Delete pending reset
     await this.pendingPasswordResetModel.deleteOne({ email: dto.email });
 
     return ResetPasswordResponseDto.success();
   }
+
+  /**
+   * Request a passwordless sign-in link and 6-digit code by email
+   * Responds the same way for unknown emails so accounts cannot be enumerated.
+   * @param dto - Passwordless login request data
+   * @throws BadRequestException if email sending fails
+   */
+  async requestPasswordlessLogin(
+    dto: RequestPasswordlessLoginDto,
+  ): Promise<ApiResponse<PasswordlessLoginResponseDto>> {
+    const user = await this.userModel.findOne({ email: dto.email });
+    if (!user) {
+      this.logger.log(`Passwordless login requested for unknown ${dto.email}`);
+      return PasswordlessLoginResponseDto.success(dto.email);
+    }
+
+    // Inactive accounts get no link, but the response stays the same
+    if (getAccountStatus(user) !== AccountStatus.ACTIVE) {
+      this.logger.log(`Passwordless login requested for inactive ${dto.email}`);
+      return PasswordlessLoginResponseDto.success(dto.email);
+    }
+
+    // Check if pending login exists (select hidden fields for update)
+    const existingLogin = await this.pendingPasswordlessLoginModel
+      .findOne({ email: dto.email })
+      .select('+hashedCode +hashedToken');
+
+    // Generate cryptographically secure 6-digit code and link token
+    const code = crypto.randomInt(100000, 1000000).toString();
+    const hashedCode = await this.hashService.hash(code);
+    const token = crypto.randomBytes(32).toString('hex');
+    const hashedToken = this.hashChallengeToken(token);
+
+    // Calculate expiry
+    const expiresAt = new Date(Date.now() + this.codeExpiresIn);
+
+    if (existingLogin) {
+      // Replace the previous link and code
+      existingLogin.hashedCode = hashedCode;
+      existingLogin.hashedToken = hashedToken;
+      existingLogin.attempts = 0;
+      existingLogin.expiresAt = expiresAt;
+      await existingLogin.save();
+
+      this.logger.log(`Updated pending passwordless login for ${dto.email}`);
+    } else {
+      // Create new pending login
+      await this.pendingPasswordlessLoginModel.create({
+        email: dto.email,
+        hashedCode,
+        hashedToken,
+        attempts: 0,
+        expiresAt,
+      });
+
+      this.logger.log(`Created pending passwordless login for ${dto.email}`);
+    }
+
+    const clientUrl = this.configService.get<string>(
+      'cors.clientUrl',
+      'http://localhost:3000',
+    );
+
+    // Send sign-in email
+    try {
+      await this.mailService.sendPasswordlessLogin(dto.email, user.name, {
+        link: `${clientUrl}/auth/magic-link?token=${token}`,
+        code,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send passwordless login email: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new AppException(
+        ErrorCode.EMAIL_SEND_FAILED,
+        'Failed to send sign-in email',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return PasswordlessLoginResponseDto.success(dto.email);
+  }
+
+  /**
+   * Sign in with email and the emailed 6-digit code
+   * Accounts with 2FA enabled receive a challenge instead of a session.
+   * @param dto - Email and sign-in code
+   * @param response - Express response object for setting cookie
+   * @throws BadRequestException for invalid/expired code
+   * @throws UnauthorizedException for max attempts exceeded
+   */
+  async verifyPasswordlessCode(
+    dto: VerifyPasswordlessCodeDto,
+    response: Response,
+  ): Promise<
+    ApiResponse<LoginResponseDto> | ApiResponse<TwoFactorChallengeResponseDto>
+  > {
+    // Find pending login (select hidden field for verification)
+    const pending = await this.pendingPasswordlessLoginModel
+      .findOne({ email: dto.email })
+      .select('+hashedCode');
+
+    if (!pending) {
+      throw new AppException(
+        ErrorCode.NO_PENDING_PASSWORDLESS_LOGIN,
+        'No sign-in code was requested for this email',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Check if expired
+    if (new Date() > pending.expiresAt) {
+      await this.pendingPasswordlessLoginModel.deleteOne({ email: dto.email });
+      throw new AppException(
+        ErrorCode.PASSWORDLESS_CODE_EXPIRED,
+        'Sign-in code has expired',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Check attempts
+    if (pending.attempts >= this.maxAttempts) {
+      await this.pendingPasswordlessLoginModel.deleteOne({ email: dto.email });
+      throw new AppException(
+        ErrorCode.MAX_ATTEMPTS_EXCEEDED,
+        'Maximum attempts exceeded. Please request a new code.',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    // Verify code
+    const isCodeValid = await this.hashService.compare(
+      dto.code,
+      pending.hashedCode,
+    );
+
+    if (!isCodeValid) {
+      // Increment attempts
+      pending.attempts += 1;
+      await pending.save();
+
+      const remainingAttempts = this.maxAttempts - pending.attempts;
+      throw new AppException(
+        ErrorCode.PASSWORDLESS_CODE_INVALID,
+        `Invalid code. ${remainingAttempts} attempts remaining.`,
+        HttpStatus.BAD_REQUEST,
+        { remainingAttempts },
+      );
+    }
+
+    // The code and link are single use
+    await this.pendingPasswordlessLoginModel.deleteOne({ email: dto.email });
+
+    return this.completePasswordlessLogin(dto.email, response);
+  }
+
+  /**
+   * Sign in with the token from the emailed sign-in link
+   * Accounts with 2FA enabled receive a challenge instead of a session.
+   * @param dto - Sign-in link token
+   * @param response - Express response object for setting cookie
+   * @throws BadRequestException if the link is invalid, expired or already used
+   */
+  async verifyMagicLink(
+    dto: VerifyMagicLinkDto,
+    response: Response,
+  ): Promise<
+    ApiResponse<LoginResponseDto> | ApiResponse<TwoFactorChallengeResponseDto>
+  > {
+    // Consume atomically so a link can only be used once
+    const pending = await this.pendingPasswordlessLoginModel.findOneAndDelete({
+      hashedToken: this.hashChallengeToken(dto.token),
+    });
+
+    if (!pending || new Date() > pending.expiresAt) {
+      throw new AppException(
+        ErrorCode.MAGIC_LINK_INVALID,
+        'Sign-in link is invalid, expired or was already used',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return this.completePasswordlessLogin(pending.email, response);
+  }
+
+  /**
+   * Request a 6-digit code for reactivating a deleted account
+   * Only accounts the owner deactivated that are still inside the deletion
+   * grace period get a code, but the response is always the same so accounts
+   * cannot be enumerated.
+   * @param dto - Reactivation request data
+   */
+  async requestReactivation(
+    dto: RequestReactivationDto,
+  ): Promise<ApiResponse<RequestReactivationResponseDto>> {
+    const user = await this.userModel.findOne({ email: dto.email });
+    if (!user || !canReactivateAccount(user)) {
+      this.logger.log(`Reactivation requested for ineligible ${dto.email}`);
+      return RequestReactivationResponseDto.success(dto.email);
+    }
+
+    // Check if pending reactivation exists (select hidden field for update)
+    const existingReactivation = await this.pendingReactivationModel
+      .findOne({ email: dto.email })
+      .select('+hashedCode');
+
+    // Generate cryptographically secure 6-digit reactivation code
+    const code = crypto.randomInt(100000, 1000000).toString();
+    const hashedCode = await this.hashService.hash(code);
+
+    // Calculate expiry
+    const expiresAt = new Date(Date.now() + this.codeExpiresIn);
+
+    if (existingReactivation) {
+      // Replace the previous code
+      existingReactivation.hashedCode = hashedCode;
+      existingReactivation.attempts = 0;
+      existingReactivation.expiresAt = expiresAt;
+      await existingReactivation.save();
+
+      this.logger.log(`Updated pending reactivation for ${dto.email}`);
+    } else {
+      // Create new pending reactivation
+      await this.pendingReactivationModel.create({
+        email: dto.email,
+        hashedCode,
+        attempts: 0,
+        expiresAt,
+      });
+
+      this.logger.log(`Created pending reactivation for ${dto.email}`);
+    }
+
+    // Send reactivation email; a failure must not reveal the account is eligible
+    try {
+      await this.mailService.sendReactivationCode(dto.email, code, user.name);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send reactivation email: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return RequestReactivationResponseDto.success(dto.email);
+  }
+
+  /**
+   * Reactivate a deleted account using email and 6-digit code
+   * Cancels the scheduled deletion; the user signs in again afterwards.
+   * @param dto - Reactivation data
+   * @throws BadRequestException for invalid/expired code or an ended grace period
+   * @throws UnauthorizedException for max attempts exceeded
+   */
+  async reactivateAccount(
+    dto: ReactivateAccountDto,
+  ): Promise<ApiResponse<ReactivateAccountResponseDto>> {
+    // Find pending reactivation (select hidden field for verification)
+    const pending = await this.pendingReactivationModel
+      .findOne({ email: dto.email })
+      .select('+hashedCode');
+
+    if (!pending) {
+      throw new AppException(
+        ErrorCode.NO_PENDING_REACTIVATION,
+        'No reactivation request found',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Check if expired
+    if (new Date() > pending.expiresAt) {
+      await this.pendingReactivationModel.deleteOne({ email: dto.email });
+      throw new AppException(
+        ErrorCode.REACTIVATION_CODE_EXPIRED,
+        'Reactivation code has expired',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    // Check attempts
+    if (pending.attempts >= this.maxAttempts) {
+      await this.pendingReactivationModel.deleteOne({ email: dto.email });
+      throw new AppException(
+        ErrorCode.MAX_ATTEMPTS_EXCEEDED,
+        'Maximum attempts exceeded. Please request a new code.',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    // Verify code
+    const isCodeValid = await this.hashService.compare(
+      dto.code,
+      pending.hashedCode,
+    );
+
+    if (!isCodeValid) {
+      // Increment attempts
+      pending.attempts += 1;
+      await pending.save();
+
+      const remainingAttempts = this.maxAttempts - pending.attempts;
+      throw new AppException(
+        ErrorCode.REACTIVATION_CODE_INVALID,
+        `Invalid code. ${remainingAttempts} attempts remaining.`,
+        HttpStatus.BAD_REQUEST,
+        { remainingAttempts },
+      );
+    }
+
+    // The grace period may have ended since the code was sent
+    await this.pendingReactivationModel.deleteOne({ email: dto.email });
+    const user = await this.userModel.findOne({ email: dto.email });
+    if (!user || !canReactivateAccount(user)) {
+      throw new AppException(
+        ErrorCode.NO_PENDING_REACTIVATION,
+        'This account can no longer be reactivated',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    setAccountStatus(user, AccountStatus.ACTIVE);
+    await user.save();
+
+    this.logger.log(`Account reactivated: ${user.email}`);
+
+    return ReactivateAccountResponseDto.success(user.email);
+  }
+
+  /**
+   * Sign in a user who proved access to their mailbox
+   * The emailed link or code replaces the password, not the second factor.
+   */
+  private async completePasswordlessLogin(
+    email: string,
+    response: Response,
+  ): Promise<
+    ApiResponse<LoginResponseDto> | ApiResponse<TwoFactorChallengeResponseDto>
+  > {
+    const user = await this.userModel.findOne({ email });
+    if (!user) {
+      throw new AppException(
+        ErrorCode.USER_NOT_FOUND,
+        'User not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      return this.createTwoFactorChallenge(user);
+    }
+
+    return this.completeLogin(user, response, 'passwordless');
+  }
 }
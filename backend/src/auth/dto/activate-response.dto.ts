@@ -11,7 +11,7 @@ export class ActivateResponseDto {
     _id: { toString(): string };
     email: string;
     name: string;
-    role: string;
+    roles: string[];
   }): ApiResponse<ActivateResponseDto> {
     const dto = new ActivateResponseDto();
     dto.user = UserResponseDto.fromDocument(user);
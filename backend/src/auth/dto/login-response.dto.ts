@@ -7,6 +7,8 @@ export class LoginResponseDto {
     email: string;
     name: string;
     role: string;
+    roles: string[];
+    roleLevel: number;
     authProvider: AuthProvider;
     isVerified: boolean;
     permissions: string[];
@@ -17,6 +19,8 @@ export class LoginResponseDto {
     email: string;
     name: string;
     role: string;
+    roles: string[];
+    roleLevel: number;
     authProvider: AuthProvider;
     isVerified: boolean;
     permissions: string[];
@@ -1,6 +1,7 @@
-import { IsString, IsNotEmpty, IsEnum } from 'class-validator';
+import { IsString, IsNotEmpty, Matches } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { OAuthProvider } from '../services/oauth.service';
+import { OAUTH_PROVIDER_NAME_PATTERN } from '../utils/oauth-provider.utils';
 
 /**
  * OAuth Callback DTO
@@ -8,12 +9,12 @@ import { OAuthProvider } from '../services/oauth.service';
  */
 export class OAuthCallbackDto {
   @ApiProperty({
-    description: 'OAuth provider name',
-    enum: ['google', 'facebook', 'github'],
+    description:
+      'OAuth provider name (google, facebook, github or a configured OIDC provider)',
     example: 'google',
   })
-  @IsEnum(['google', 'facebook', 'github'], {
-    message: 'Provider must be google, facebook, or github',
+  @Matches(OAUTH_PROVIDER_NAME_PATTERN, {
+    message: 'Provider must be a valid provider name',
   })
   @IsNotEmpty()
   provider!: OAuthProvider;
@@ -57,12 +58,12 @@ export class OAuthAuthUrlResponseDto {
  */
 export class OAuthAuthUrlDto {
   @ApiProperty({
-    description: 'OAuth provider name',
-    enum: ['google', 'facebook', 'github'],
+    description:
+      'OAuth provider name (google, facebook, github or a configured OIDC provider)',
     example: 'google',
   })
-  @IsEnum(['google', 'facebook', 'github'], {
-    message: 'Provider must be google, facebook, or github',
+  @Matches(OAUTH_PROVIDER_NAME_PATTERN, {
+    message: 'Provider must be a valid provider name',
   })
   @IsNotEmpty()
   provider!: OAuthProvider;
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiResponse } from '../../common/dto/api-response.dto';
+
+export class PasswordlessLoginResponseDto {
+  @ApiProperty({
+    description: 'Email address the sign-in link and code were sent to',
+    example: 'user@example.com',
+  })
+  email!: string;
+
+  @ApiProperty({
+    description: 'Success message',
+    example: 'If this email is registered, a sign-in link is on its way',
+  })
+  message!: string;
+
+  static success(email: string): ApiResponse<PasswordlessLoginResponseDto> {
+    const dto = new PasswordlessLoginResponseDto();
+    dto.email = email;
+    dto.message = 'If this email is registered, a sign-in link is on its way';
+    return ApiResponse.success(dto, 'Sign-in link requested successfully');
+  }
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiResponse } from '../../common/dto/api-response.dto';
+
+export class ReactivateAccountResponseDto {
+  @ApiProperty({
+    description: 'Email address of the reactivated account',
+    example: 'user@example.com',
+  })
+  email!: string;
+
+  @ApiProperty({
+    description: 'Success message',
+    example: 'Your account is active again. You can sign in.',
+  })
+  message!: string;
+
+  static success(email: string): ApiResponse<ReactivateAccountResponseDto> {
+    const dto = new ReactivateAccountResponseDto();
+    dto.email = email;
+    dto.message = 'Your account is active again. You can sign in.';
+    return ApiResponse.success(dto, 'Account reactivated successfully');
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  Matches,
+  Length,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReactivateAccountDto {
+  @ApiProperty({
+    description: 'Email address of the deleted account',
+    example: 'user@example.com',
+    maxLength: 255,
+  })
+  @IsEmail({}, { message: 'Invalid email format' })
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  @IsNotEmpty({ message: 'Email is required' })
+  @Transform(({ value }: { value: string }) => value?.toLowerCase()?.trim())
+  email!: string;
+
+  @ApiProperty({
+    description: '6-digit reactivation code sent to email',
+    example: '123456',
+    minLength: 6,
+    maxLength: 6,
+    pattern: '^\\d{6}$',
+  })
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @Length(6, 6, { message: 'Code must be exactly 6 digits' })
+  @Matches(/^\d{6}$/, { message: 'Code must contain only numeric digits' })
+  @Transform(({ value }: { value: string }) => value?.trim())
+  code!: string;
+}
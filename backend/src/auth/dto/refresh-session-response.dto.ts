@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiResponse } from '../../common/dto/api-response.dto';
+
+export class RefreshSessionResponseDto {
+  @ApiProperty({
+    description: 'New session expiry timestamp',
+    example: '2024-01-27T10:30:00Z',
+  })
+  expiresAt!: Date;
+
+  static success(expiresAt: Date): ApiResponse<RefreshSessionResponseDto> {
+    const dto = new RefreshSessionResponseDto();
+    dto.expiresAt = expiresAt;
+    return ApiResponse.success(dto, 'Session refreshed');
+  }
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiResponse } from '../../common/dto/api-response.dto';
+
+export class RequestReactivationResponseDto {
+  @ApiProperty({
+    description: 'Email address the reactivation code was sent to',
+    example: 'user@example.com',
+  })
+  email!: string;
+
+  @ApiProperty({
+    description: 'Success message',
+    example:
+      'If the account can be reactivated, a code has been sent to your email',
+  })
+  message!: string;
+
+  static success(email: string): ApiResponse<RequestReactivationResponseDto> {
+    const dto = new RequestReactivationResponseDto();
+    dto.email = email;
+    dto.message =
+      'If the account can be reactivated, a code has been sent to your email';
+    return ApiResponse.success(dto, 'Reactivation code requested');
+  }
+}
@@ -0,0 +1,16 @@
+import { IsEmail, IsNotEmpty, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RequestReactivationDto {
+  @ApiProperty({
+    description: 'Email address of the deleted account',
+    example: 'user@example.com',
+    maxLength: 255,
+  })
+  @IsEmail({}, { message: 'Invalid email format' })
+  @MaxLength(255, { message: 'Email must not exceed 255 characters' })
+  @IsNotEmpty({ message: 'Email is required' })
+  @Transform(({ value }: { value: string }) => value?.toLowerCase()?.trim())
+  email!: string;
+}
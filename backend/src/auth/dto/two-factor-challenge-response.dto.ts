@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiResponse } from '../../common/dto/api-response.dto';
+
+export class TwoFactorChallengeResponseDto {
+  @ApiProperty({
+    description: 'Always true; the login must be completed with a 2FA code',
+    example: true,
+  })
+  twoFactorRequired!: true;
+
+  @ApiProperty({
+    description:
+      'Token identifying this login attempt in POST /auth/2fa/verify',
+    example: '3f2a9c...e71b',
+  })
+  challengeToken!: string;
+
+  @ApiProperty({
+    description: 'Challenge expiry timestamp',
+    example: '2024-01-20T10:35:00Z',
+  })
+  expiresAt!: Date;
+
+  static success(
+    challengeToken: string,
+    expiresAt: Date,
+  ): ApiResponse<TwoFactorChallengeResponseDto> {
+    const dto = new TwoFactorChallengeResponseDto();
+    dto.twoFactorRequired = true;
+    dto.challengeToken = challengeToken;
+    dto.expiresAt = expiresAt;
+    return ApiResponse.success(dto, 'Two-factor authentication required');
+  }
+}
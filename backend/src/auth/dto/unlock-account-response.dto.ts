@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiResponse } from '../../common/dto/api-response.dto';
+
+export class UnlockAccountResponseDto {
+  @ApiProperty({
+    description: 'Email address that was unlocked',
+    example: 'user@example.com',
+  })
+  email!: string;
+
+  @ApiProperty({
+    description: 'Success message',
+    example: 'Your account is unlocked. You can sign in again.',
+  })
+  message!: string;
+
+  static success(email: string): ApiResponse<UnlockAccountResponseDto> {
+    const dto = new UnlockAccountResponseDto();
+    dto.email = email;
+    dto.message = 'Your account is unlocked. You can sign in again.';
+    return ApiResponse.success(dto, 'Account unlocked successfully');
+  }
+}
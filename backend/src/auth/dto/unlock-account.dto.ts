@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnlockAccountDto {
+  @ApiProperty({
+    description: 'Token from the account locked email',
+    example: '3f2a9c...e71b',
+  })
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  @Matches(/^[a-f0-9]{64}$/, { message: 'Token is malformed' })
+  token!: string;
+}
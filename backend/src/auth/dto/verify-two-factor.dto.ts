@@ -0,0 +1,42 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class VerifyTwoFactorDto {
+  @ApiProperty({
+    description: 'Challenge token returned by the login endpoint',
+    example: '3f2a9c...e71b',
+  })
+  @IsString({ message: 'Challenge token must be a string' })
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challengeToken!: string;
+
+  @ApiPropertyOptional({
+    description:
+      '6-digit code from the authenticator app. Required unless a recovery code is sent.',
+    example: '123456',
+    minLength: 6,
+    maxLength: 6,
+  })
+  @ValidateIf((dto: VerifyTwoFactorDto) => !dto.recoveryCode)
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @Matches(/^\d{6}$/, { message: 'Code must be exactly 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Single-use recovery code, used instead of an authenticator code',
+    example: 'k7m2p-x9q4r',
+  })
+  @IsOptional()
+  @IsString({ message: 'Recovery code must be a string' })
+  @MaxLength(32, { message: 'Recovery code is too long' })
+  recoveryCode?: string;
+}
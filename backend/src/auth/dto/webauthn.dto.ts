@@ -0,0 +1,163 @@
+import {
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Attestation response produced by navigator.credentials.create()
+ * Binary fields are base64url-encoded.
+ */
+export class AuthenticatorAttestationResponseDto {
+  @ApiProperty({ description: 'base64url clientDataJSON' })
+  @IsString()
+  @IsNotEmpty()
+  clientDataJSON!: string;
+
+  @ApiProperty({ description: 'base64url CBOR attestation object' })
+  @IsString()
+  @IsNotEmpty()
+  attestationObject!: string;
+
+  @ApiPropertyOptional({
+    description: 'Transports reported by the authenticator',
+    example: ['internal', 'hybrid'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  transports?: string[];
+}
+
+/**
+ * Assertion response produced by navigator.credentials.get()
+ * Binary fields are base64url-encoded.
+ */
+export class AuthenticatorAssertionResponseDto {
+  @ApiProperty({ description: 'base64url clientDataJSON' })
+  @IsString()
+  @IsNotEmpty()
+  clientDataJSON!: string;
+
+  @ApiProperty({ description: 'base64url authenticator data' })
+  @IsString()
+  @IsNotEmpty()
+  authenticatorData!: string;
+
+  @ApiProperty({ description: 'base64url signature' })
+  @IsString()
+  @IsNotEmpty()
+  signature!: string;
+
+  @ApiPropertyOptional({ description: 'base64url user handle' })
+  @IsOptional()
+  @IsString()
+  userHandle?: string;
+}
+
+export class RegistrationCredentialDto {
+  @ApiProperty({ description: 'base64url credential ID' })
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @ApiProperty({ example: 'public-key' })
+  @IsIn(['public-key'])
+  type!: string;
+
+  @ApiProperty({ type: AuthenticatorAttestationResponseDto })
+  @ValidateNested()
+  @Type(() => AuthenticatorAttestationResponseDto)
+  response!: AuthenticatorAttestationResponseDto;
+}
+
+export class AuthenticationCredentialDto {
+  @ApiProperty({ description: 'base64url credential ID' })
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @ApiProperty({ example: 'public-key' })
+  @IsIn(['public-key'])
+  type!: string;
+
+  @ApiProperty({ type: AuthenticatorAssertionResponseDto })
+  @ValidateNested()
+  @Type(() => AuthenticatorAssertionResponseDto)
+  response!: AuthenticatorAssertionResponseDto;
+}
+
+/**
+ * DTO for finishing passkey registration
+ */
+export class VerifyWebAuthnRegistrationDto {
+  @ApiPropertyOptional({
+    description: 'Name for the passkey',
+    example: 'MacBook Touch ID',
+    maxLength: 64,
+  })
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @MaxLength(64, { message: 'Name must not exceed 64 characters' })
+  name?: string;
+
+  @ApiProperty({ type: RegistrationCredentialDto })
+  @ValidateNested()
+  @Type(() => RegistrationCredentialDto)
+  credential!: RegistrationCredentialDto;
+}
+
+/**
+ * DTO for signing in with a passkey
+ */
+export class VerifyWebAuthnAuthenticationDto {
+  @ApiProperty({ type: AuthenticationCredentialDto })
+  @ValidateNested()
+  @Type(() => AuthenticationCredentialDto)
+  credential!: AuthenticationCredentialDto;
+}
+
+/**
+ * DTO for renaming a passkey
+ */
+export class RenameWebAuthnCredentialDto {
+  @ApiProperty({
+    description: 'New name for the passkey',
+    example: 'Work YubiKey',
+    maxLength: 64,
+  })
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(64, { message: 'Name must not exceed 64 characters' })
+  name!: string;
+}
+
+/**
+ * Passkey as shown in account settings
+ */
+export class WebAuthnCredentialResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  id!: string;
+
+  @ApiProperty({ example: 'MacBook Touch ID' })
+  name!: string;
+
+  @ApiProperty({ example: ['internal'], type: [String] })
+  transports!: string[];
+
+  @ApiProperty({ description: 'Whether the passkey is synced', example: true })
+  backedUp!: boolean;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00.000Z' })
+  createdAt!: Date;
+
+  @ApiPropertyOptional({ example: '2024-01-20T08:12:00.000Z' })
+  lastUsedAt?: Date;
+}
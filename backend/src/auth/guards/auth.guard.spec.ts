@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { AuthGuard, RequestWithUser } from './auth.guard';
+import { SessionService } from '../services/session.service';
+import { PermissionService } from '../../permission/permission.service';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { AccountStatus } from '../../user/enums/account-status.enum';
+
+describe('AuthGuard', () => {
+  let guard: AuthGuard;
+  let sessionService: {
+    validateSession: jest.Mock;
+    invalidateSession: jest.Mock;
+    extendSession: jest.Mock;
+    setSessionCookie: jest.Mock;
+  };
+  let request: RequestWithUser;
+  let response: object;
+
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'test@example.com',
+    name: 'Test User',
+    roles: ['user'],
+    isVerified: true,
+  };
+  const session = { _id: new Types.ObjectId(), user };
+
+  const createContext = () =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    request = {
+      cookies: { sid: 'session-token' },
+      headers: { 'user-agent': 'agent' },
+      ip: '10.0.0.1',
+    } as unknown as RequestWithUser;
+    response = {};
+    sessionService = {
+      validateSession: jest.fn().mockResolvedValue(session),
+      invalidateSession: jest.fn().mockResolvedValue(undefined),
+      extendSession: jest.fn().mockResolvedValue(false),
+      setSessionCookie: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthGuard,
+        { provide: SessionService, useValue: sessionService },
+        {
+          provide: PermissionService,
+          useValue: {
+            getActiveMembership: jest.fn().mockResolvedValue(null),
+            getEffectivePermissions: jest
+              .fn()
+              .mockResolvedValue(['profile:read:own']),
+          },
+        },
+      ],
+    }).compile();
+
+    guard = module.get<AuthGuard>(AuthGuard);
+  });
+
+  it('should attach the user and session to the request', async () => {
+    await expect(guard.canActivate(createContext())).resolves.toBe(true);
+
+    expect(request.user).toMatchObject({
+      id: user._id.toString(),
+      email: user.email,
+      permissions: ['profile:read:own'],
+    });
+    expect(request.session).toBe(session);
+  });
+
+  it('should reissue the session cookie when the session was extended', async () => {
+    sessionService.extendSession.mockResolvedValue(true);
+
+    await guard.canActivate(createContext());
+
+    expect(sessionService.extendSession).toHaveBeenCalledWith(session);
+    expect(sessionService.setSessionCookie).toHaveBeenCalledWith(
+      response,
+      'session-token',
+    );
+  });
+
+  it('should leave the cookie alone when the session was not extended', async () => {
+    await guard.canActivate(createContext());
+
+    expect(sessionService.extendSession).toHaveBeenCalledWith(session);
+    expect(sessionService.setSessionCookie).not.toHaveBeenCalled();
+  });
+
+  it('should reject a request without a session cookie', async () => {
+    request.cookies = {};
+
+    await expect(guard.canActivate(createContext())).rejects.toMatchObject({
+      code: ErrorCode.SESSION_REQUIRED,
+    });
+    expect(sessionService.validateSession).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid session', async () => {
+    sessionService.validateSession.mockResolvedValue(null);
+
+    await expect(guard.canActivate(createContext())).rejects.toMatchObject({
+      code: ErrorCode.SESSION_INVALID,
+    });
+  });
+
+  it('should end the session of a suspended account without extending it', async () => {
+    sessionService.validateSession.mockResolvedValue({
+      ...session,
+      user: { ...user, status: AccountStatus.SUSPENDED },
+    });
+
+    await expect(guard.canActivate(createContext())).rejects.toMatchObject({
+      code: ErrorCode.ACCOUNT_SUSPENDED,
+    });
+    expect(sessionService.invalidateSession).toHaveBeenCalledWith(
+      'session-token',
+    );
+    expect(sessionService.extendSession).not.toHaveBeenCalled();
+  });
+});
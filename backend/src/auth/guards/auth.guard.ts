@@ -4,25 +4,36 @@ import {
   ExecutionContext,
   HttpStatus,
 } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Request } from 'express';
+import { Request, Response } from 'express';
 import { SessionService } from '../services/session.service';
 import { SessionDocument } from '../../session/schemas/session.schema';
 import { UserDocument } from '../../user/schemas/user.schema';
-import { Role, RoleDocument } from '../../role/schemas/role.schema';
+import { PermissionService } from '../../permission/permission.service';
 import { AppException } from '../../common/exceptions/app.exception';
 import { ErrorCode } from '../../common/enums/error-code.enum';
+import {
+  assertAccountActive,
+  getAccountStatus,
+} from '../../common/utils/account-status';
+import { AccountStatus } from '../../user/enums/account-status.enum';
+import { ActiveOrganization } from '../../organization/interfaces/active-organization.interface';
+
+/**
+ * The signed-in user as attached to the request
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  roles: string[];
+  permissions: string[];
+  isVerified: boolean;
+  /** Active organization and the user's role in it */
+  organization?: ActiveOrganization;
+}
 
 export interface RequestWithUser extends Request {
-  user?: {
-    id: string;
-    email: string;
-    name: string;
-    role: string;
-    permissions: string[];
-    isVerified: boolean;
-  };
+  user?: AuthenticatedUser;
   session?: SessionDocument;
 }
 
@@ -30,7 +41,7 @@ export interface RequestWithUser extends Request {
 export class AuthGuard implements CanActivate {
   constructor(
     private readonly sessionService: SessionService,
-    @InjectModel(Role.name) private roleModel: Model<RoleDocument>,
+    private readonly permissionService: PermissionService,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -46,7 +57,10 @@ export class AuthGuard implements CanActivate {
       );
     }
 
-    const session = await this.sessionService.validateSession(sessionToken);
+    const session = await this.sessionService.validateSession(sessionToken, {
+      ip: request.ip || '127.0.0.1',
+      userAgent: request.headers['user-agent'] || 'Unknown',
+    });
 
     if (!session) {
       throw new AppException(
@@ -56,46 +70,44 @@ export class AuthGuard implements CanActivate {
       );
     }
 
-    // Attach user and session to request for use in controllers
     const user = session.user as unknown as UserDocument;
 
-    // Compute effective permissions (role + direct)
-    const effectivePermissions = await this.getEffectivePermissions(user);
+    // Suspended or removed accounts lose access even with a live session
+    if (getAccountStatus(user) !== AccountStatus.ACTIVE) {
+      await this.sessionService.invalidateSession(sessionToken);
+      assertAccountActive(user);
+    }
+
+    // Keep sessions in active use alive instead of logging the user out mid-use
+    if (await this.sessionService.extendSession(session)) {
+      this.sessionService.setSessionCookie(
+        context.switchToHttp().getResponse<Response>(),
+        sessionToken,
+      );
+    }
+
+    // Compute effective permissions (roles + organization role + direct + grants - denials)
+    const membership = await this.permissionService.getActiveMembership(user);
+    const effectivePermissions =
+      await this.permissionService.getEffectivePermissions(user, membership);
 
+    // Attach user and session to request for use in controllers
     request.user = {
       id: user._id.toString(),
       email: user.email,
       name: user.name,
-      role: user.role,
+      roles: user.roles,
       permissions: effectivePermissions,
       isVerified: user.isVerified,
+      organization: membership
+        ? {
+            id: membership.organization.toString(),
+            role: membership.role,
+          }
+        : undefined,
     };
     request.session = session;
 
     return true;
   }
-
-  /**
-   * Get effective permissions for a user (role permissions + direct permissions).
-   * @param user - User document
-   * @returns Array of effective permissions (deduplicated)
-   */
-  private async getEffectivePermissions(user: UserDocument): Promise<string[]> {
-    const rolePermissions: string[] = [];
-
-    // Fetch role permissions
-    if (user.role) {
-      const role = await this.roleModel.findOne({ slug: user.role }).exec();
-      if (role && role.permissions) {
-        rolePermissions.push(...role.permissions);
-      }
-    }
-
-    // Combine role permissions with direct user permissions
-    const directPermissions = user.permissions || [];
-    const allPermissions = [...rolePermissions, ...directPermissions];
-
-    // Deduplicate permissions
-    return [...new Set(allPermissions)];
-  }
 }
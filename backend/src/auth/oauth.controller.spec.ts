@@ -16,19 +16,21 @@ describe('OAuthController', () => {
     email: 'test@example.com',
     name: 'Test User',
     role: 'user',
+    roles: ['user'],
     isVerified: true,
     provider: 'google',
   };
 
   beforeEach(async () => {
     oauthService = {
-      getAuthorizationUrl: jest.fn().mockReturnValue(mockAuthUrl),
+      getAuthorizationUrl: jest.fn().mockResolvedValue(mockAuthUrl),
       handleCallback: jest.fn().mockResolvedValue({
         success: true,
         data: mockOAuthData,
         message: 'User authenticated successfully',
       }),
-      getSupportedProviders: jest.fn().mockReturnValue(['google']),
+      getSupportedProviders: jest.fn().mockReturnValue(['google', 'okta']),
+      getProviderDisplayNames: jest.fn().mockReturnValue({ okta: 'Okta SSO' }),
     } as unknown as jest.Mocked<OAuthService>;
 
     mockResponse = {
@@ -55,15 +57,18 @@ describe('OAuthController', () => {
   });
 
   describe('getAuthorizationUrl', () => {
-    it('should return authorization URL for google provider', () => {
-      const result = controller.getAuthorizationUrl({ provider: 'google' });
+    it('should return authorization URL for google provider', async () => {
+      const result = await controller.getAuthorizationUrl(
+        { provider: 'google' },
+        mockResponse as Response,
+      );
 
       expect(result.success).toBe(true);
       expect(result.data?.url).toBe(mockAuthUrl);
       expect(result.data?.provider).toBe('google');
       expect(
         jest.mocked(oauthService.getAuthorizationUrl),
-      ).toHaveBeenCalledWith('google');
+      ).toHaveBeenCalledWith('google', mockResponse);
     });
   });
 
@@ -116,7 +121,8 @@ describe('OAuthController', () => {
       const result = controller.getProviders();
 
       expect(result.success).toBe(true);
-      expect(result.data?.providers).toEqual(['google']);
+      expect(result.data?.providers).toEqual(['google', 'okta']);
+      expect(result.data?.displayNames).toEqual({ okta: 'Okta SSO' });
       expect(
         jest.mocked(oauthService.getSupportedProviders),
       ).toHaveBeenCalled();
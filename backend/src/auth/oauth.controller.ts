@@ -34,21 +34,26 @@ export class OAuthController {
   @ApiOperation({
     summary: 'Get OAuth authorization URL',
     description:
-      'Returns the OAuth authorization URL for the specified provider (Google, Facebook). ' +
-      'User will be redirected to this URL to authenticate with the OAuth provider.',
+      'Returns the OAuth authorization URL for the specified provider (Google, Facebook, GitHub or a configured OIDC provider). ' +
+      'User will be redirected to this URL to authenticate with the OAuth provider. ' +
+      'Each URL carries a single-use state and a PKCE challenge that expire after OAUTH_STATE_EXPIRES_IN. ' +
+      'The state is bound to this browser through an httpOnly oauth_state cookie.',
   })
   @ApiQuery({
     name: 'provider',
     required: true,
     description:
-      'OAuth provider name (google, facebook, github). Only configured providers are available.',
-    enum: ['google', 'facebook', 'github'],
+      'OAuth provider name (google, facebook, github or an OIDC_PROVIDERS entry). Only configured providers are available.',
     example: 'google',
   })
-  getAuthorizationUrl(
+  async getAuthorizationUrl(
     @Query() query: OAuthAuthUrlDto,
-  ): ApiResponse<{ url: string; provider: string }> {
-    const url = this.oauthService.getAuthorizationUrl(query.provider);
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<ApiResponse<{ url: string; provider: string }>> {
+    const url = await this.oauthService.getAuthorizationUrl(
+      query.provider,
+      response,
+    );
     return ApiResponse.success({
       url,
       provider: query.provider,
@@ -66,7 +71,9 @@ export class OAuthController {
     summary: 'Handle OAuth callback',
     description:
       'Processes the OAuth callback from the provider after user authentication. ' +
-      'Exchanges the authorization code for access tokens and creates/updates user account.',
+      'Verifies and consumes the state, then exchanges the authorization code (with the PKCE verifier) ' +
+      'for access tokens and creates/updates user account. An unknown, expired or reused state, ' +
+      'or one issued to another browser, is rejected with OAUTH_STATE_MISMATCH.',
   })
   @ApiBody({ type: OAuthCallbackDto })
   async handleCallback(
@@ -93,10 +100,15 @@ export class OAuthController {
     summary: 'Get enabled OAuth providers',
     description:
       'Returns a list of enabled OAuth providers for authentication. ' +
-      'Only providers with complete configuration (clientId, clientSecret, callbackUrl) are enabled.',
+      'Only providers with complete configuration (clientId, clientSecret, callbackUrl) are enabled. ' +
+      'displayNames labels the configured OpenID Connect providers.',
   })
-  getProviders(): ApiResponse<{ providers: string[] }> {
+  getProviders(): ApiResponse<{
+    providers: string[];
+    displayNames: Record<string, string>;
+  }> {
     const providers = this.oauthService.getSupportedProviders();
-    return ApiResponse.success({ providers });
+    const displayNames = this.oauthService.getProviderDisplayNames();
+    return ApiResponse.success({ providers, displayNames });
   }
 }
@@ -0,0 +1,37 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+
+export type LoginAttemptScope = 'email' | 'ip';
+
+@Schema({ timestamps: true })
+export class LoginAttempt {
+  @Prop({ type: String, enum: ['email', 'ip'], required: true })
+  scope!: LoginAttemptScope;
+
+  @Prop({ required: true })
+  key!: string; // Lowercased email or client IP address
+
+  @Prop({ required: true, default: 0 })
+  failures!: number;
+
+  @Prop({ type: Date, default: null })
+  lockedUntil!: Date | null;
+
+  @Prop({ select: false })
+  hashedUnlockToken?: string; // SHA-256 of the token emailed when an email is locked
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date; // Counter is forgotten after a quiet window
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type LoginAttemptDocument = HydratedDocument<LoginAttempt>;
+
+export const LoginAttemptSchema: MongooseSchema<LoginAttempt> =
+  SchemaFactory.createForClass(LoginAttempt);
+
+LoginAttemptSchema.index({ scope: 1, key: 1 }, { unique: true });
+LoginAttemptSchema.index({ hashedUnlockToken: 1 }, { sparse: true });
@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class PendingOAuthState {
+  @Prop({ required: true, unique: true })
+  hashedState!: string; // SHA-256 of the state sent to the provider
+
+  @Prop({ required: true })
+  provider!: string;
+
+  @Prop({ required: true })
+  codeVerifier!: string; // PKCE verifier, sent to the provider with the code
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type PendingOAuthStateDocument = HydratedDocument<PendingOAuthState>;
+
+export const PendingOAuthStateSchema: MongooseSchema<PendingOAuthState> =
+  SchemaFactory.createForClass(PendingOAuthState);
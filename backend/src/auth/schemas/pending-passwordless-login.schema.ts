@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class PendingPasswordlessLogin {
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  email!: string;
+
+  @Prop({ required: true, select: false })
+  hashedCode!: string;
+
+  @Prop({ required: true, unique: true, select: false })
+  hashedToken!: string; // SHA-256 of the token in the emailed sign-in link
+
+  @Prop({ required: true, default: 0 })
+  attempts!: number;
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type PendingPasswordlessLoginDocument =
+  HydratedDocument<PendingPasswordlessLogin>;
+
+export const PendingPasswordlessLoginSchema: MongooseSchema<PendingPasswordlessLogin> =
+  SchemaFactory.createForClass(PendingPasswordlessLogin);
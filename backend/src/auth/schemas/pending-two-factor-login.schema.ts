@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class PendingTwoFactorLogin {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user!: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  hashedToken!: string; // SHA-256 of the challenge token returned to the client
+
+  @Prop({ required: true, default: 0 })
+  attempts!: number;
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type PendingTwoFactorLoginDocument =
+  HydratedDocument<PendingTwoFactorLogin>;
+
+export const PendingTwoFactorLoginSchema: MongooseSchema<PendingTwoFactorLogin> =
+  SchemaFactory.createForClass(PendingTwoFactorLogin);
@@ -0,0 +1,33 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type WebAuthnCeremony = 'registration' | 'authentication';
+
+@Schema({ timestamps: true })
+export class PendingWebAuthnChallenge {
+  @Prop({ required: true, unique: true })
+  challenge!: string; // base64url challenge the authenticator must sign
+
+  @Prop({
+    type: String,
+    enum: ['registration', 'authentication'],
+    required: true,
+  })
+  ceremony!: WebAuthnCeremony;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  user?: Types.ObjectId; // Set for registration; passkey sign-in is usernameless
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type PendingWebAuthnChallengeDocument =
+  HydratedDocument<PendingWebAuthnChallenge>;
+
+export const PendingWebAuthnChallengeSchema: MongooseSchema<PendingWebAuthnChallenge> =
+  SchemaFactory.createForClass(PendingWebAuthnChallenge);
@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+/**
+ * A passkey (WebAuthn public-key credential) registered by a user
+ */
+@Schema({ timestamps: true })
+export class WebAuthnCredential {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user!: Types.ObjectId;
+
+  @Prop({ required: true, unique: true })
+  credentialId!: string; // base64url credential ID chosen by the authenticator
+
+  @Prop({ required: true })
+  publicKey!: string; // base64url COSE_Key
+
+  @Prop({ required: true })
+  algorithm!: number; // COSE algorithm identifier (e.g., -7 for ES256)
+
+  @Prop({ required: true, default: 0 })
+  signCount!: number;
+
+  @Prop({ type: [String], default: [] })
+  transports!: string[]; // e.g., ['internal', 'hybrid']
+
+  @Prop({ required: true, trim: true })
+  name!: string; // User-facing label, e.g. "MacBook Touch ID"
+
+  @Prop({ default: false })
+  backedUp!: boolean; // Synced passkey (backup state flag)
+
+  @Prop()
+  lastUsedAt?: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type WebAuthnCredentialDocument = HydratedDocument<WebAuthnCredential>;
+
+export const WebAuthnCredentialSchema: MongooseSchema<WebAuthnCredential> =
+  SchemaFactory.createForClass(WebAuthnCredential);
+
+// Indexes
+WebAuthnCredentialSchema.index({ user: 1 });
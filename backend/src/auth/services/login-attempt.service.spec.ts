@@ -0,0 +1,298 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { HttpStatus } from '@nestjs/common';
+import { LoginAttemptService } from './login-attempt.service';
+import { LoginAttempt } from '../schemas/login-attempt.schema';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+interface StoredAttempt {
+  scope: 'email' | 'ip';
+  key: string;
+  failures: number;
+  lockedUntil: Date | null;
+  hashedUnlockToken?: string;
+  expiresAt: Date;
+  save: jest.Mock;
+}
+
+describe('LoginAttemptService', () => {
+  let service: LoginAttemptService;
+  let stored: StoredAttempt[];
+
+  const config: Record<string, number> = {
+    'lockout.emailThreshold': 3,
+    'lockout.ipThreshold': 5,
+    'lockout.baseDuration': 60000,
+    'lockout.maxDuration': 300000,
+    'lockout.window': 86400000,
+  };
+
+  const find = (scope: string, key: string) =>
+    stored.find((doc) => doc.scope === scope && doc.key === key);
+
+  const isLocked = (doc: StoredAttempt) =>
+    !!doc.lockedUntil && doc.lockedUntil > new Date();
+
+  const fail = async (
+    times: number,
+    email = 'user@example.com',
+    ip = '1.1.1.1',
+  ) => {
+    let result = await service.recordFailure(email, ip);
+    for (let i = 1; i < times; i++) {
+      result = await service.recordFailure(email, ip);
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    // In-memory stand-in for the collection, covering the queries the service makes
+    stored = [];
+    const loginAttemptModel = {
+      findOneAndUpdate: jest.fn(
+        (
+          filter: { scope: 'email' | 'ip'; key: string },
+          update: { $inc: { failures: number }; $set: { expiresAt: Date } },
+        ) => {
+          let doc = find(filter.scope, filter.key);
+          if (!doc) {
+            doc = {
+              ...filter,
+              failures: 0,
+              lockedUntil: null,
+              expiresAt: update.$set.expiresAt,
+              save: jest.fn().mockResolvedValue(undefined),
+            };
+            stored.push(doc);
+          }
+          doc.failures += update.$inc.failures;
+          doc.expiresAt = update.$set.expiresAt;
+          return Promise.resolve(doc);
+        },
+      ),
+      find: jest.fn(
+        (filter: {
+          $or?: { scope: string; key: string }[];
+          scope?: string;
+          key?: { $in: string[] };
+        }) =>
+          Promise.resolve(
+            stored.filter(
+              (doc) =>
+                isLocked(doc) &&
+                (filter.$or
+                  ? filter.$or.some(
+                      (f) => f.scope === doc.scope && f.key === doc.key,
+                    )
+                  : doc.scope === filter.scope &&
+                    filter.key!.$in.includes(doc.key)),
+            ),
+          ),
+      ),
+      findOneAndDelete: jest.fn(
+        (filter: {
+          scope: string;
+          key?: string;
+          hashedUnlockToken?: string;
+        }) => {
+          const index = stored.findIndex(
+            (doc) =>
+              doc.scope === filter.scope &&
+              (filter.key === undefined || doc.key === filter.key) &&
+              (filter.hashedUnlockToken === undefined ||
+                doc.hashedUnlockToken === filter.hashedUnlockToken),
+          );
+          const [doc] = index === -1 ? [null] : stored.splice(index, 1);
+          return Promise.resolve(doc);
+        },
+      ),
+      deleteOne: jest.fn((filter: { scope: string; key: string }) => {
+        stored = stored.filter(
+          (doc) => !(doc.scope === filter.scope && doc.key === filter.key),
+        );
+        return Promise.resolve({ deletedCount: 1 });
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptService,
+        {
+          provide: getModelToken(LoginAttempt.name),
+          useValue: loginAttemptModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string, defaultValue?: unknown) =>
+                config[key] ?? defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptService>(LoginAttemptService);
+  });
+
+  describe('recordFailure', () => {
+    it('should not lock below the email threshold', async () => {
+      const result = await fail(2);
+
+      expect(result).toEqual({ lock: null, unlockToken: null });
+      await expect(
+        service.assertNotLocked('user@example.com', '1.1.1.1'),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should lock the email with an unlock token at the threshold', async () => {
+      const before = Date.now();
+      const result = await fail(3);
+
+      expect(result.lock?.scope).toBe('email');
+      expect(result.unlockToken).toMatch(/^[a-f0-9]{64}$/);
+      expect(
+        result.lock!.lockedUntil.getTime() - before,
+      ).toBeGreaterThanOrEqual(60000);
+      expect(find('email', 'user@example.com')?.hashedUnlockToken).not.toBe(
+        result.unlockToken,
+      );
+    });
+
+    it('should double the lock duration for every failure past the threshold', async () => {
+      await fail(3);
+      const now = Date.now();
+      const fourth = await service.recordFailure('user@example.com', '2.2.2.2');
+      const fifth = await service.recordFailure('user@example.com', '3.3.3.3');
+
+      expect(fourth.lock!.lockedUntil.getTime() - now).toBeGreaterThanOrEqual(
+        120000,
+      );
+      expect(fourth.lock!.lockedUntil.getTime() - now).toBeLessThan(240000);
+      expect(fifth.lock!.lockedUntil.getTime() - now).toBeGreaterThanOrEqual(
+        240000,
+      );
+    });
+
+    it('should cap the lock duration', async () => {
+      const now = Date.now();
+      const result = await fail(10);
+
+      expect(result.lock!.lockedUntil.getTime() - now).toBeLessThanOrEqual(
+        300000 + 1000,
+      );
+    });
+
+    it('should lock an IP address guessing across many emails', async () => {
+      for (let i = 0; i < 4; i++) {
+        await service.recordFailure(`user${i}@example.com`, '9.9.9.9');
+      }
+      const result = await service.recordFailure(
+        'other@example.com',
+        '9.9.9.9',
+      );
+
+      expect(result.lock?.scope).toBe('ip');
+      expect(result.unlockToken).toBeNull();
+      await expect(
+        service.assertNotLocked('new@example.com', '9.9.9.9'),
+      ).rejects.toMatchObject({ code: ErrorCode.ACCOUNT_LOCKED });
+    });
+
+    it('should count emails case-insensitively', async () => {
+      await service.recordFailure('User@Example.com', '1.1.1.1');
+
+      expect(find('email', 'user@example.com')?.failures).toBe(1);
+    });
+  });
+
+  describe('assertNotLocked', () => {
+    it('should reject a locked email with the unlock time', async () => {
+      const { lock } = await fail(3);
+
+      const error: unknown = await service
+        .assertNotLocked('user@example.com', '4.4.4.4')
+        .catch((e: unknown) => e);
+
+      expect(error).toMatchObject({
+        code: ErrorCode.ACCOUNT_LOCKED,
+        details: {
+          lockedUntil: lock!.lockedUntil.toISOString(),
+          scope: 'email',
+        },
+      });
+      expect((error as { getStatus: () => number }).getStatus()).toBe(
+        HttpStatus.LOCKED,
+      );
+    });
+
+    it('should allow the email again once the lock has passed', async () => {
+      await fail(3);
+      find('email', 'user@example.com')!.lockedUntil = new Date(
+        Date.now() - 1000,
+      );
+
+      await expect(
+        service.assertNotLocked('user@example.com', '4.4.4.4'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('clearFailures', () => {
+    it('should reset the email counter but keep the IP counter', async () => {
+      await fail(2);
+
+      await service.clearFailures('user@example.com');
+
+      expect(find('email', 'user@example.com')).toBeUndefined();
+      expect(find('ip', '1.1.1.1')?.failures).toBe(2);
+    });
+  });
+
+  describe('unlockWithToken', () => {
+    it('should lift the lock once', async () => {
+      const { unlockToken } = await fail(3);
+
+      await expect(service.unlockWithToken(unlockToken!)).resolves.toBe(
+        'user@example.com',
+      );
+      await expect(
+        service.assertNotLocked('user@example.com', '4.4.4.4'),
+      ).resolves.toBeUndefined();
+      await expect(service.unlockWithToken(unlockToken!)).resolves.toBeNull();
+    });
+
+    it('should reject an unknown token', async () => {
+      await fail(3);
+
+      await expect(service.unlockWithToken('a'.repeat(64))).resolves.toBeNull();
+    });
+  });
+
+  describe('clearLock', () => {
+    it('should report whether the email was locked', async () => {
+      await fail(3);
+
+      await expect(service.clearLock('user@example.com')).resolves.toBe(true);
+      await expect(service.clearLock('user@example.com')).resolves.toBe(false);
+    });
+  });
+
+  describe('getActiveLocks', () => {
+    it('should return only locked emails', async () => {
+      const { lock } = await fail(3);
+      await service.recordFailure('other@example.com', '5.5.5.5');
+
+      const locks = await service.getActiveLocks([
+        'USER@example.com',
+        'other@example.com',
+      ]);
+
+      expect([...locks.entries()]).toEqual([
+        ['user@example.com', lock!.lockedUntil],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  LoginAttempt,
+  LoginAttemptDocument,
+  LoginAttemptScope,
+} from '../schemas/login-attempt.schema';
+import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+/**
+ * An active lock on an email address or IP address
+ */
+export interface LoginLock {
+  scope: LoginAttemptScope;
+  lockedUntil: Date;
+}
+
+/**
+ * Outcome of recording a failed sign-in
+ */
+export interface FailedLoginResult {
+  /** Set when this failure locked the email or IP */
+  lock: LoginLock | null;
+  /** Set when the email was locked; emailed so the owner can lift the lock */
+  unlockToken: string | null;
+}
+
+/**
+ * Counts failed password sign-ins per email and per IP address.
+ * Once a counter reaches its threshold the email or IP is locked, and every
+ * further failure doubles the lock duration up to a configured maximum.
+ */
+@Injectable()
+export class LoginAttemptService {
+  private readonly logger = new Logger(LoginAttemptService.name);
+  private readonly emailThreshold: number;
+  private readonly ipThreshold: number;
+  private readonly baseDuration: number;
+  private readonly maxDuration: number;
+  private readonly window: number;
+
+  constructor(
+    @InjectModel(LoginAttempt.name)
+    private loginAttemptModel: Model<LoginAttemptDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    this.emailThreshold = this.configService.get<number>(
+      'lockout.emailThreshold',
+      5,
+    );
+    this.ipThreshold = this.configService.get<number>(
+      'lockout.ipThreshold',
+      20,
+    );
+    this.baseDuration = this.configService.get<number>(
+      'lockout.baseDuration',
+      60000,
+    );
+    this.maxDuration = this.configService.get<number>(
+      'lockout.maxDuration',
+      3600000,
+    );
+    this.window = this.configService.get<number>('lockout.window', 86400000);
+  }
+
+  /**
+   * Reject the sign-in if the email or the IP address is currently locked
+   * @throws AppException ACCOUNT_LOCKED with the unlock time
+   */
+  async assertNotLocked(email: string, ip: string): Promise<void> {
+    const now = new Date();
+    const records = await this.loginAttemptModel.find({
+      $or: [
+        { scope: 'email', key: email.toLowerCase() },
+        { scope: 'ip', key: ip },
+      ],
+      lockedUntil: { $gt: now },
+    });
+
+    if (records.length === 0) {
+      return;
+    }
+
+    // Report whichever lock lasts longer
+    const latest = records.reduce((a, b) =>
+      a.lockedUntil! >= b.lockedUntil! ? a : b,
+    );
+
+    throw this.createLockedException({
+      scope: latest.scope,
+      lockedUntil: latest.lockedUntil!,
+    });
+  }
+
+  /**
+   * Count a failed sign-in against the email and the IP address
+   * The email counter is kept even for unknown addresses so that lockout
+   * behaviour does not reveal which emails are registered.
+   */
+  async recordFailure(email: string, ip: string): Promise<FailedLoginResult> {
+    const [emailRecord, ipRecord] = await Promise.all([
+      this.increment('email', email.toLowerCase()),
+      this.increment('ip', ip),
+    ]);
+
+    let lock: LoginLock | null = null;
+    let unlockToken: string | null = null;
+
+    const emailLockedUntil = this.getLockExpiry(
+      emailRecord.failures,
+      this.emailThreshold,
+    );
+    if (emailLockedUntil) {
+      unlockToken = crypto.randomBytes(32).toString('hex');
+      await this.applyLock(emailRecord, emailLockedUntil, unlockToken);
+      lock = { scope: 'email', lockedUntil: emailLockedUntil };
+      this.logger.warn(
+        `Email locked after ${emailRecord.failures} failed sign-ins until ${emailLockedUntil.toISOString()}`,
+      );
+    }
+
+    const ipLockedUntil = this.getLockExpiry(
+      ipRecord.failures,
+      this.ipThreshold,
+    );
+    if (ipLockedUntil) {
+      await this.applyLock(ipRecord, ipLockedUntil);
+      if (!lock || ipLockedUntil > lock.lockedUntil) {
+        lock = { scope: 'ip', lockedUntil: ipLockedUntil };
+      }
+      this.logger.warn(
+        `IP ${ip} locked after ${ipRecord.failures} failed sign-ins until ${ipLockedUntil.toISOString()}`,
+      );
+    }
+
+    return { lock, unlockToken };
+  }
+
+  /**
+   * Forget failed attempts for an email after a successful sign-in
+   * The IP counter is kept so that one valid account cannot be used to
+   * reset the counter while guessing passwords for others.
+   */
+  async clearFailures(email: string): Promise<void> {
+    await this.loginAttemptModel.deleteOne({
+      scope: 'email',
+      key: email.toLowerCase(),
+    });
+  }
+
+  /**
+   * Lift an email lock using the token from the lock notice email
+   * @returns The unlocked email address, or null if the token is unknown
+   */
+  async unlockWithToken(token: string): Promise<string | null> {
+    const record = await this.loginAttemptModel.findOneAndDelete({
+      scope: 'email',
+      hashedUnlockToken: this.hashToken(token),
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    this.logger.log(`Email lock lifted by unlock link: ${record.key}`);
+    return record.key;
+  }
+
+  /**
+   * Clear the failure counter and any lock for an email
+   * @returns Whether the email was locked
+   */
+  async clearLock(email: string): Promise<boolean> {
+    const record = await this.loginAttemptModel.findOneAndDelete({
+      scope: 'email',
+      key: email.toLowerCase(),
+    });
+
+    return !!record?.lockedUntil && record.lockedUntil > new Date();
+  }
+
+  /**
+   * Look up active email locks
+   * @returns Lock expiry keyed by lowercased email, for locked emails only
+   */
+  async getActiveLocks(emails: string[]): Promise<Map<string, Date>> {
+    const records = await this.loginAttemptModel.find({
+      scope: 'email',
+      key: { $in: emails.map((email) => email.toLowerCase()) },
+      lockedUntil: { $gt: new Date() },
+    });
+
+    return new Map(records.map((record) => [record.key, record.lockedUntil!]));
+  }
+
+  /**
+   * Build the ACCOUNT_LOCKED error for a lock
+   */
+  createLockedException(lock: LoginLock): AppException {
+    const retryAfter = Math.max(
+      1,
+      Math.ceil((lock.lockedUntil.getTime() - Date.now()) / 1000),
+    );
+
+    return new AppException(
+      ErrorCode.ACCOUNT_LOCKED,
+      `Too many failed sign-in attempts. Try again after ${lock.lockedUntil.toISOString()}.`,
+      HttpStatus.LOCKED,
+      {
+        lockedUntil: lock.lockedUntil.toISOString(),
+        retryAfter,
+        scope: lock.scope,
+      },
+    );
+  }
+
+  private async increment(
+    scope: LoginAttemptScope,
+    key: string,
+  ): Promise<LoginAttemptDocument> {
+    return this.loginAttemptModel.findOneAndUpdate(
+      { scope, key },
+      {
+        $inc: { failures: 1 },
+        $set: { expiresAt: new Date(Date.now() + this.window) },
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true },
+    );
+  }
+
+  /**
+   * Exponential back-off: the base duration at the threshold, doubling with
+   * every failure past it
+   * @returns When the lock ends, or null if the threshold is not reached
+   */
+  private getLockExpiry(failures: number, threshold: number): Date | null {
+    if (failures < threshold) {
+      return null;
+    }
+
+    const duration = Math.min(
+      this.baseDuration * 2 ** (failures - threshold),
+      this.maxDuration,
+    );
+
+    return new Date(Date.now() + duration);
+  }
+
+  private async applyLock(
+    record: LoginAttemptDocument,
+    lockedUntil: Date,
+    unlockToken?: string,
+  ): Promise<void> {
+    record.lockedUntil = lockedUntil;
+    if (unlockToken) {
+      record.hashedUnlockToken = this.hashToken(unlockToken);
+    }
+    // Never forget the counter while the lock is still running
+    if (record.expiresAt < lockedUntil) {
+      record.expiresAt = lockedUntil;
+    }
+    await record.save();
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,195 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Response } from 'express';
+import { OAUTH_STATE_COOKIE, OAuthStateService } from './oauth-state.service';
+import { PendingOAuthState } from '../schemas/pending-oauth-state.schema';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+interface StoredState {
+  hashedState: string;
+  provider: string;
+  codeVerifier: string;
+  expiresAt: Date;
+}
+
+describe('OAuthStateService', () => {
+  let service: OAuthStateService;
+  let stored: StoredState[];
+  let pendingStateModel: { create: jest.Mock; findOneAndDelete: jest.Mock };
+  let cookies: Record<string, string>;
+  let setCookie: jest.Mock;
+  let response: Response;
+
+  beforeEach(async () => {
+    // One browser: cookies set on the response are sent back with later requests
+    cookies = {};
+    setCookie = jest.fn((name: string, value: string) => {
+      cookies[name] = value;
+    });
+    response = {
+      req: { cookies },
+      cookie: setCookie,
+      clearCookie: jest.fn((name: string) => {
+        delete cookies[name];
+      }),
+    } as unknown as Response;
+
+    // In-memory stand-in for the collection so single use can be exercised
+    stored = [];
+    pendingStateModel = {
+      create: jest.fn((doc: StoredState) => {
+        stored.push(doc);
+        return Promise.resolve(doc);
+      }),
+      findOneAndDelete: jest.fn((filter: { hashedState: string }) => {
+        const index = stored.findIndex(
+          (doc) => doc.hashedState === filter.hashedState,
+        );
+        const [doc] = index === -1 ? [null] : stored.splice(index, 1);
+        return { exec: jest.fn().mockResolvedValue(doc) };
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthStateService,
+        {
+          provide: getModelToken(PendingOAuthState.name),
+          useValue: pendingStateModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (_key: string, defaultValue?: unknown) => defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OAuthStateService>(OAuthStateService);
+  });
+
+  describe('create', () => {
+    it('should store only a hash of the state with the code verifier', async () => {
+      const state = await service.create('google', 'verifier-1', response);
+
+      expect(state).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(stored).toHaveLength(1);
+      expect(stored[0].hashedState).not.toBe(state);
+      expect(stored[0]).toMatchObject({
+        provider: 'google',
+        codeVerifier: 'verifier-1',
+      });
+      expect(stored[0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should bind the state to the browser with an httpOnly cookie', async () => {
+      await service.create('google', 'verifier-1', response);
+
+      expect(setCookie).toHaveBeenCalledWith(
+        OAUTH_STATE_COOKIE,
+        stored[0].hashedState,
+        expect.objectContaining({ httpOnly: true, sameSite: 'lax' }),
+      );
+    });
+
+    it('should issue a different state for every request', async () => {
+      const first = await service.create('google', 'verifier-1', response);
+      const second = await service.create('google', 'verifier-2', response);
+
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('consume', () => {
+    it('should return the code verifier for a valid state', async () => {
+      const state = await service.create('github', 'verifier-1', response);
+
+      await expect(service.consume('github', state, response)).resolves.toBe(
+        'verifier-1',
+      );
+    });
+
+    it('should clear the state cookie once the state is consumed', async () => {
+      const state = await service.create('github', 'verifier-1', response);
+      await service.consume('github', state, response);
+
+      expect(cookies[OAUTH_STATE_COOKIE]).toBeUndefined();
+    });
+
+    it('should reject a state issued to another browser', async () => {
+      const state = await service.create('github', 'verifier-1', response);
+      const victimResponse = {
+        req: { cookies: {} },
+        clearCookie: jest.fn(),
+      } as unknown as Response;
+
+      await expect(
+        service.consume('github', state, victimResponse),
+      ).rejects.toMatchObject({ code: ErrorCode.OAUTH_STATE_MISMATCH });
+      // The attacker cannot retry the state either
+      expect(stored).toHaveLength(0);
+    });
+
+    it('should reject a state when the cookie belongs to another flow', async () => {
+      const state = await service.create('github', 'verifier-1', response);
+      await service.create('github', 'verifier-2', response);
+
+      await expect(
+        service.consume('github', state, response),
+      ).rejects.toMatchObject({ code: ErrorCode.OAUTH_STATE_MISMATCH });
+    });
+
+    it('should reject a state that was already used', async () => {
+      const state = await service.create('github', 'verifier-1', response);
+      await service.consume('github', state, response);
+
+      await expect(
+        service.consume('github', state, response),
+      ).rejects.toMatchObject({
+        code: ErrorCode.OAUTH_STATE_MISMATCH,
+      });
+    });
+
+    it('should reject an unknown state', async () => {
+      await expect(
+        service.consume('google', 'forged-state', response),
+      ).rejects.toMatchObject({ code: ErrorCode.OAUTH_STATE_MISMATCH });
+    });
+
+    it('should reject a missing state without querying', async () => {
+      await expect(
+        service.consume('google', undefined, response),
+      ).rejects.toMatchObject({
+        code: ErrorCode.OAUTH_STATE_MISMATCH,
+      });
+      expect(pendingStateModel.findOneAndDelete).not.toHaveBeenCalled();
+    });
+
+    it('should reject an expired state', async () => {
+      const state = await service.create('google', 'verifier-1', response);
+      stored[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(
+        service.consume('google', state, response),
+      ).rejects.toMatchObject({
+        code: ErrorCode.OAUTH_STATE_MISMATCH,
+      });
+    });
+
+    it('should reject a state issued for another provider', async () => {
+      const state = await service.create('google', 'verifier-1', response);
+
+      await expect(
+        service.consume('facebook', state, response),
+      ).rejects.toMatchObject({
+        code: ErrorCode.OAUTH_STATE_MISMATCH,
+      });
+      // The state is burned either way so it cannot be retried
+      expect(stored).toHaveLength(0);
+    });
+  });
+});
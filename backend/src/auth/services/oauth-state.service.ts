@@ -0,0 +1,121 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Response } from 'express';
+import * as crypto from 'crypto';
+import {
+  PendingOAuthState,
+  PendingOAuthStateDocument,
+} from '../schemas/pending-oauth-state.schema';
+import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+/**
+ * Cookie binding an OAuth state to the browser that started the flow
+ */
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+/**
+ * OAuth State Service
+ * Issues and verifies the `state` parameter of the OAuth authorization code flow.
+ * Each state is random, bound to one provider and to the browser that asked
+ * for it, expires and can be used once, which protects the callback against
+ * login CSRF. The PKCE code verifier is kept next to the state so it never has
+ * to leave the server.
+ */
+@Injectable()
+export class OAuthStateService {
+  private readonly logger = new Logger(OAuthStateService.name);
+
+  constructor(
+    @InjectModel(PendingOAuthState.name)
+    private pendingStateModel: Model<PendingOAuthStateDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Create a state for a new authorization request
+   * The state's hash is also set in a short-lived cookie so only this browser
+   * can complete the flow.
+   * @param provider - OAuth provider the user is sent to
+   * @param codeVerifier - PKCE verifier to redeem together with the code
+   * @param response - Express response object for setting the state cookie
+   * @returns Opaque state to include in the authorization URL
+   */
+  async create(
+    provider: string,
+    codeVerifier: string,
+    response: Response,
+  ): Promise<string> {
+    const state = crypto.randomBytes(32).toString('base64url');
+    const hashedState = this.hashState(state);
+    const expiresIn = this.configService.get<number>(
+      'oauth.stateExpiresIn',
+      600000,
+    );
+
+    await this.pendingStateModel.create({
+      hashedState,
+      provider,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + expiresIn),
+    });
+
+    // Lax so the cookie survives the top-level redirect back from the provider
+    response.cookie(OAUTH_STATE_COOKIE, hashedState, {
+      httpOnly: true,
+      secure: this.configService.get('NODE_ENV') === 'production',
+      sameSite: 'lax',
+      maxAge: expiresIn,
+      path: '/',
+    });
+
+    return state;
+  }
+
+  /**
+   * Verify and consume the state returned to the callback
+   * @param provider - OAuth provider the callback claims to come from
+   * @param state - State returned by the provider
+   * @param response - Express response object carrying the request's state cookie
+   * @returns PKCE code verifier stored with the state
+   * @throws AppException if the state is unknown, expired, used, for another
+   * provider or was issued to another browser
+   */
+  async consume(
+    provider: string,
+    state: string | undefined,
+    response: Response,
+  ): Promise<string> {
+    const stateCookie = response.req.cookies?.[OAUTH_STATE_COOKIE] as
+      | string
+      | undefined;
+    response.clearCookie(OAUTH_STATE_COOKIE, { path: '/' });
+
+    const hashedState = state ? this.hashState(state) : undefined;
+    const pending = hashedState
+      ? await this.pendingStateModel.findOneAndDelete({ hashedState }).exec()
+      : null;
+
+    if (
+      !pending ||
+      pending.expiresAt <= new Date() ||
+      pending.provider !== provider ||
+      stateCookie !== hashedState
+    ) {
+      this.logger.warn(`Rejected OAuth callback for ${provider}: bad state`);
+      throw new AppException(
+        ErrorCode.OAUTH_STATE_MISMATCH,
+        'OAuth request is invalid or has expired. Please try signing in again.',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return pending.codeVerifier;
+  }
+
+  private hashState(state: string): string {
+    return crypto.createHash('sha256').update(state).digest('hex');
+  }
+}
@@ -1,17 +1,20 @@
 /* eslint-disable @typescript-eslint/unbound-method */
 import { Test, TestingModule } from '@nestjs/testing';
-import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/mongoose';
 import { Response } from 'express';
 import { OAuthService, OAuthProvider } from './oauth.service';
 import { GoogleOAuthStrategy } from '../strategies/google-oauth.strategy';
 import { GitHubOAuthStrategy } from '../strategies/github-oauth.strategy';
 import { FacebookOAuthStrategy } from '../strategies/facebook-oauth.strategy';
+import { OIDC_STRATEGIES } from '../strategies/oidc-oauth.strategy';
 import { SessionService } from './session.service';
+import { OAuthStateService } from './oauth-state.service';
 import { User } from '../../user/schemas/user.schema';
 import { AuthProvider } from '../../user/enums/auth-provider.enum';
 import { OAuthUserProfile } from '../strategies/oauth.strategy.interface';
+import { HttpStatus } from '@nestjs/common';
 import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
 
 describe('OAuthService', () => {
   let service: OAuthService;
@@ -19,17 +22,17 @@ describe('OAuthService', () => {
   let githubStrategy: jest.Mocked<GitHubOAuthStrategy>;
   let facebookStrategy: jest.Mocked<FacebookOAuthStrategy>;
   let sessionService: jest.Mocked<SessionService>;
+  let oauthStateService: jest.Mocked<OAuthStateService>;
   let userModel: {
     findOne: jest.Mock;
     create: jest.Mock;
   };
-  let configService: jest.Mocked<ConfigService>;
 
   const mockUser = {
     _id: '507f1f77bcf86cd799439011',
     email: 'test@example.com',
     name: 'Test User',
-    role: 'user',
+    roles: ['user'],
     authProvider: AuthProvider.GOOGLE,
     isVerified: true,
     googleId: 'google-123',
@@ -46,59 +49,64 @@ describe('OAuthService', () => {
     emailVerified: true,
   };
 
+  const mockPkcePair = {
+    codeVerifier: 'code-verifier',
+    codeChallenge: 'code-challenge',
+  };
+
   const mockResponse = {
     req: {
       headers: { 'user-agent': 'test-agent' },
       ip: '127.0.0.1',
     },
-    cookie: jest.fn(),
   } as unknown as Response;
 
   beforeEach(async () => {
     // Mock GoogleOAuthStrategy
     googleStrategy = {
       provider: 'google',
+      isEnabled: true,
       getAuthorizationUrl: jest.fn(),
       getUserProfile: jest.fn(),
+      generatePkcePair: jest.fn().mockReturnValue(mockPkcePair),
     } as unknown as jest.Mocked<GoogleOAuthStrategy>;
 
     // Mock GitHubOAuthStrategy
     githubStrategy = {
       provider: 'github',
+      isEnabled: true,
       getAuthorizationUrl: jest.fn(),
       getUserProfile: jest.fn(),
+      generatePkcePair: jest.fn().mockReturnValue(mockPkcePair),
     } as unknown as jest.Mocked<GitHubOAuthStrategy>;
 
     // Mock FacebookOAuthStrategy
     facebookStrategy = {
       provider: 'facebook',
+      isEnabled: true,
       getAuthorizationUrl: jest.fn(),
       getUserProfile: jest.fn(),
+      generatePkcePair: jest.fn().mockReturnValue(mockPkcePair),
     } as unknown as jest.Mocked<FacebookOAuthStrategy>;
 
     // Mock SessionService
     sessionService = {
       createSession: jest.fn().mockResolvedValue('session-token-123'),
+      setSessionCookie: jest.fn(),
     } as unknown as jest.Mocked<SessionService>;
 
+    // Mock OAuthStateService
+    oauthStateService = {
+      create: jest.fn().mockResolvedValue('state-123'),
+      consume: jest.fn().mockResolvedValue('code-verifier'),
+    } as unknown as jest.Mocked<OAuthStateService>;
+
     // Mock UserModel
     userModel = {
       findOne: jest.fn(),
       create: jest.fn(),
     };
 
-    // Mock ConfigService
-    configService = {
-      get: jest.fn((key: string, defaultValue?: string | number) => {
-        const defaults: Record<string, string | number> = {
-          'session.cookieName': 'sid',
-          'session.cookieMaxAge': 604800000,
-          NODE_ENV: 'development',
-        };
-        return defaults[key] ?? defaultValue;
-      }),
-    } as unknown as jest.Mocked<ConfigService>;
-
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         OAuthService,
@@ -111,8 +119,8 @@ describe('OAuthService', () => {
           useValue: sessionService,
         },
         {
-          provide: ConfigService,
-          useValue: configService,
+          provide: OAuthStateService,
+          useValue: oauthStateService,
         },
         {
           provide: GoogleOAuthStrategy,
@@ -126,6 +134,10 @@ describe('OAuthService', () => {
           provide: FacebookOAuthStrategy,
           useValue: facebookStrategy,
         },
+        {
+          provide: OIDC_STRATEGIES,
+          useValue: [],
+        },
       ],
     }).compile();
 
@@ -137,23 +149,28 @@ describe('OAuthService', () => {
   });
 
   describe('getAuthorizationUrl', () => {
-    it('should return authorization URL for google provider', () => {
+    it('should return authorization URL for google provider', async () => {
       const expectedUrl = 'https://accounts.google.com/o/oauth2/v2/auth?...';
       googleStrategy.getAuthorizationUrl.mockReturnValue(expectedUrl);
 
-      const result = service.getAuthorizationUrl('google');
+      const result = await service.getAuthorizationUrl('google', mockResponse);
 
       expect(result).toBe(expectedUrl);
       expect(
         jest.mocked(googleStrategy.getAuthorizationUrl),
-      ).toHaveBeenCalled();
+      ).toHaveBeenCalledWith('state-123', 'code-challenge');
+      expect(jest.mocked(oauthStateService.create)).toHaveBeenCalledWith(
+        'google',
+        'code-verifier',
+        mockResponse,
+      );
     });
 
-    it('should return authorization URL for github provider', () => {
+    it('should return authorization URL for github provider', async () => {
       const expectedUrl = 'https://github.com/login/oauth/authorize?...';
       githubStrategy.getAuthorizationUrl.mockReturnValue(expectedUrl);
 
-      const result = service.getAuthorizationUrl('github');
+      const result = await service.getAuthorizationUrl('github', mockResponse);
 
       expect(result).toBe(expectedUrl);
       expect(
@@ -161,11 +178,14 @@ describe('OAuthService', () => {
       ).toHaveBeenCalled();
     });
 
-    it('should return authorization URL for facebook provider', () => {
+    it('should return authorization URL for facebook provider', async () => {
       const expectedUrl = 'https://www.facebook.com/v18.0/dialog/oauth?...';
       facebookStrategy.getAuthorizationUrl.mockReturnValue(expectedUrl);
 
-      const result = service.getAuthorizationUrl('facebook');
+      const result = await service.getAuthorizationUrl(
+        'facebook',
+        mockResponse,
+      );
 
       expect(result).toBe(expectedUrl);
       expect(
@@ -173,10 +193,10 @@ describe('OAuthService', () => {
       ).toHaveBeenCalled();
     });
 
-    it('should throw error for unsupported provider', () => {
-      expect(() =>
-        service.getAuthorizationUrl('twitter' as OAuthProvider),
-      ).toThrow(AppException);
+    it('should throw error for unsupported provider', async () => {
+      await expect(
+        service.getAuthorizationUrl('twitter' as OAuthProvider, mockResponse),
+      ).rejects.toThrow(AppException);
     });
   });
 
@@ -194,13 +214,9 @@ describe('OAuthService', () => {
 
       expect(result.success).toBe(true);
       expect(result.data?.email).toBe('test@example.com');
-      expect(jest.mocked(mockResponse.cookie)).toHaveBeenCalledWith(
-        'sid',
+      expect(jest.mocked(sessionService.setSessionCookie)).toHaveBeenCalledWith(
+        mockResponse,
         'session-token-123',
-        expect.objectContaining({
-          httpOnly: true,
-          path: '/',
-        }),
       );
     });
 
@@ -209,7 +225,11 @@ describe('OAuthService', () => {
         ...mockUser,
         googleId: undefined,
         authProvider: AuthProvider.EMAIL,
+        linkedProviders: [] as string[],
         save: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn((path: string, value: unknown) => {
+          (existingUser as Record<string, unknown>)[path] = value;
+        }),
       };
       userModel.findOne
         .mockResolvedValueOnce(null) // First call - find by provider ID
@@ -229,6 +249,30 @@ describe('OAuthService', () => {
       expect(existingUser.save).toHaveBeenCalled();
     });
 
+    it('should not link an unverified email to an existing user', async () => {
+      const existingUser = {
+        ...mockUser,
+        googleId: undefined,
+        authProvider: AuthProvider.EMAIL,
+        linkedProviders: [] as string[],
+        save: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn(),
+      };
+      userModel.findOne
+        .mockResolvedValueOnce(null) // First call - find by provider ID
+        .mockResolvedValueOnce(existingUser); // Second call - find by email
+      googleStrategy.getUserProfile.mockResolvedValue({
+        ...mockOAuthProfile,
+        emailVerified: false,
+      });
+
+      await expect(
+        service.handleCallback('google', 'code123', 'state', mockResponse),
+      ).rejects.toMatchObject({ code: ErrorCode.EMAIL_ALREADY_EXISTS });
+      expect(existingUser.set).not.toHaveBeenCalled();
+      expect(existingUser.save).not.toHaveBeenCalled();
+    });
+
     it('should create new user for first-time OAuth login', async () => {
       userModel.findOne.mockResolvedValue(null);
       userModel.create.mockResolvedValue(mockUser);
@@ -248,7 +292,9 @@ describe('OAuthService', () => {
         googleId: 'google-123',
         isVerified: true,
         authProvider: AuthProvider.GOOGLE,
-        role: 'user',
+        linkedProviders: ['google'],
+        primaryProvider: AuthProvider.GOOGLE,
+        roles: ['user'],
       });
     });
 
@@ -286,7 +332,7 @@ describe('OAuthService', () => {
       _id: '507f1f77bcf86cd799439012',
       email: 'github@example.com',
       name: 'GitHub User',
-      role: 'user',
+      roles: ['user'],
       authProvider: AuthProvider.GITHUB,
       isVerified: true,
       githubId: 'github-456',
@@ -336,7 +382,9 @@ describe('OAuthService', () => {
         githubId: 'github-456',
         isVerified: true,
         authProvider: AuthProvider.GITHUB,
-        role: 'user',
+        linkedProviders: ['github'],
+        primaryProvider: AuthProvider.GITHUB,
+        roles: ['user'],
       });
     });
 
@@ -345,7 +393,11 @@ describe('OAuthService', () => {
         ...mockGitHubUser,
         githubId: undefined,
         authProvider: AuthProvider.EMAIL,
+        linkedProviders: [] as string[],
         save: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn((path: string, value: unknown) => {
+          (existingUser as Record<string, unknown>)[path] = value;
+        }),
       };
       userModel.findOne
         .mockResolvedValueOnce(null) // First call - find by provider ID
@@ -371,7 +423,7 @@ describe('OAuthService', () => {
       _id: '507f1f77bcf86cd799439013',
       email: 'facebook@example.com',
       name: 'Facebook User',
-      role: 'user',
+      roles: ['user'],
       authProvider: AuthProvider.FACEBOOK,
       isVerified: true,
       facebookId: 'facebook-789',
@@ -425,7 +477,9 @@ describe('OAuthService', () => {
         facebookId: 'facebook-789',
         isVerified: true,
         authProvider: AuthProvider.FACEBOOK,
-        role: 'user',
+        linkedProviders: ['facebook'],
+        primaryProvider: AuthProvider.FACEBOOK,
+        roles: ['user'],
       });
     });
 
@@ -434,7 +488,11 @@ describe('OAuthService', () => {
         ...mockFacebookUser,
         facebookId: undefined,
         authProvider: AuthProvider.EMAIL,
+        linkedProviders: [] as string[],
         save: jest.fn().mockResolvedValue(undefined),
+        set: jest.fn((path: string, value: unknown) => {
+          (existingUser as Record<string, unknown>)[path] = value;
+        }),
       };
       userModel.findOne
         .mockResolvedValueOnce(null) // First call - find by provider ID
@@ -457,6 +515,59 @@ describe('OAuthService', () => {
     });
   });
 
+  describe('state verification', () => {
+    it('should exchange the code with the PKCE verifier stored for the state', async () => {
+      userModel.findOne.mockResolvedValue(mockUser);
+      googleStrategy.getUserProfile.mockResolvedValue(mockOAuthProfile);
+
+      await service.handleCallback('google', 'code123', 'state', mockResponse);
+
+      expect(jest.mocked(oauthStateService.consume)).toHaveBeenCalledWith(
+        'google',
+        'state',
+        mockResponse,
+      );
+      expect(jest.mocked(googleStrategy.getUserProfile)).toHaveBeenCalledWith(
+        'code123',
+        'code-verifier',
+      );
+    });
+
+    it('should reject a callback whose state does not match', async () => {
+      oauthStateService.consume.mockRejectedValue(
+        new AppException(
+          ErrorCode.OAUTH_STATE_MISMATCH,
+          'OAuth request is invalid or has expired',
+          HttpStatus.BAD_REQUEST,
+        ),
+      );
+
+      await expect(
+        service.handleCallback('google', 'code123', 'forged', mockResponse),
+      ).rejects.toMatchObject({ code: ErrorCode.OAUTH_STATE_MISMATCH });
+      expect(jest.mocked(googleStrategy.getUserProfile)).not.toHaveBeenCalled();
+      expect(jest.mocked(sessionService.createSession)).not.toHaveBeenCalled();
+    });
+
+    it('should verify the state when fetching a profile for account linking', async () => {
+      googleStrategy.getUserProfile.mockResolvedValue(mockOAuthProfile);
+
+      const profile = await service.getUserProfile(
+        'google',
+        'code123',
+        'state',
+        mockResponse,
+      );
+
+      expect(profile).toEqual(mockOAuthProfile);
+      expect(jest.mocked(oauthStateService.consume)).toHaveBeenCalledWith(
+        'google',
+        'state',
+        mockResponse,
+      );
+    });
+  });
+
   describe('error handling', () => {
     it('should throw error for invalid provider', async () => {
       await expect(
@@ -1,5 +1,4 @@
-import { Injectable, Logger, HttpStatus } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Injectable, Logger, HttpStatus, Inject } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Response } from 'express';
@@ -10,17 +9,32 @@ import {
 import { GoogleOAuthStrategy } from '../strategies/google-oauth.strategy';
 import { GitHubOAuthStrategy } from '../strategies/github-oauth.strategy';
 import { FacebookOAuthStrategy } from '../strategies/facebook-oauth.strategy';
+import {
+  OIDC_STRATEGIES,
+  OidcOAuthStrategy,
+} from '../strategies/oidc-oauth.strategy';
 import { User, UserDocument } from '../../user/schemas/user.schema';
 import { AuthProvider } from '../../user/enums/auth-provider.enum';
 import { ApiResponse } from '../../common/dto/api-response.dto';
 import { AppException } from '../../common/exceptions/app.exception';
 import { ErrorCode } from '../../common/enums/error-code.enum';
+import { assertAccountActive } from '../../common/utils/account-status';
 import { SessionService } from './session.service';
+import { OAuthStateService } from './oauth-state.service';
+import {
+  RESERVED_OAUTH_PROVIDER_NAMES,
+  getProviderIdField,
+  isBuiltInOAuthProvider,
+  isSamlProvider,
+  toAuthProvider,
+} from '../utils/oauth-provider.utils';
+import { UserRole } from '../../user/enums/user-role.enum';
 
 /**
  * OAuth Provider Type
+ * A built-in provider (google, facebook, github) or a configured OIDC provider name
  */
-export type OAuthProvider = 'google' | 'facebook' | 'github';
+export type OAuthProvider = string;
 
 /**
  * OAuth Service
@@ -34,10 +48,12 @@ export class OAuthService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private readonly sessionService: SessionService,
-    private readonly configService: ConfigService,
+    private readonly oauthStateService: OAuthStateService,
     private readonly googleStrategy: GoogleOAuthStrategy,
     private readonly githubStrategy: GitHubOAuthStrategy,
     private readonly facebookStrategy: FacebookOAuthStrategy,
+    @Inject(OIDC_STRATEGIES)
+    private readonly oidcStrategies: OidcOAuthStrategy[],
   ) {
     this.registerStrategies();
     this.logEnabledProviders();
@@ -45,6 +61,7 @@ export class OAuthService {
 
   /**
    * Register only enabled OAuth strategies
+   * OIDC providers may not reuse a built-in, reserved or SAML name
    */
   private registerStrategies(): void {
     const allStrategies: [OAuthProvider, IOAuthStrategy][] = [
@@ -58,6 +75,22 @@ export class OAuthService {
         this.strategies.set(provider, strategy);
       }
     }
+
+    for (const strategy of this.oidcStrategies) {
+      if (
+        RESERVED_OAUTH_PROVIDER_NAMES.includes(strategy.provider) ||
+        isSamlProvider(strategy.provider)
+      ) {
+        this.logger.warn(
+          `OIDC provider '${strategy.provider}' ignored: the name is reserved`,
+        );
+        continue;
+      }
+
+      if (strategy.isEnabled) {
+        this.strategies.set(strategy.provider, strategy);
+      }
+    }
   }
 
   /**
@@ -92,9 +125,8 @@ export class OAuthService {
 
     if (!strategy) {
       // Check if it's a known provider that's just disabled
-      const knownProviders: OAuthProvider[] = ['google', 'facebook', 'github'];
-      if (knownProviders.includes(provider)) {
-        const errorCodeMap: Record<OAuthProvider, ErrorCode> = {
+      if (isBuiltInOAuthProvider(provider)) {
+        const errorCodeMap: Record<typeof provider, ErrorCode> = {
           google: ErrorCode.GOOGLE_NOT_CONFIGURED,
           facebook: ErrorCode.FACEBOOK_NOT_CONFIGURED,
           github: ErrorCode.GITHUB_NOT_CONFIGURED,
@@ -118,13 +150,23 @@ export class OAuthService {
 
   /**
    * Get authorization URL for OAuth provider
+   * Issues a single-use state and PKCE challenge for this request
    * @param provider - OAuth provider name
+   * @param response - Express response object for setting the state cookie
    * @returns Authorization URL
    */
-  getAuthorizationUrl(provider: OAuthProvider): string {
+  async getAuthorizationUrl(
+    provider: OAuthProvider,
+    response: Response,
+  ): Promise<string> {
     const strategy = this.getStrategy(provider);
-    const state = this.generateState();
-    return strategy.getAuthorizationUrl(state);
+    const { codeVerifier, codeChallenge } = strategy.generatePkcePair();
+    const state = await this.oauthStateService.create(
+      provider,
+      codeVerifier,
+      response,
+    );
+    return strategy.getAuthorizationUrl(state, codeChallenge);
   }
 
   /**
@@ -144,8 +186,15 @@ export class OAuthService {
     try {
       const strategy = this.getStrategy(provider);
 
+      // Reject callbacks that were not started by us (login CSRF)
+      const codeVerifier = await this.oauthStateService.consume(
+        provider,
+        state,
+        response,
+      );
+
       // Get user profile from OAuth provider
-      const oauthProfile = await strategy.getUserProfile(code, state);
+      const oauthProfile = await strategy.getUserProfile(code, codeVerifier);
 
       this.logger.log(
         `Received OAuth profile from ${provider}: ${oauthProfile.email}`,
@@ -161,25 +210,11 @@ export class OAuthService {
         user._id,
         userAgent,
         ip,
+        provider,
       );
 
       // Set HTTP-only cookie
-      const cookieName = this.configService.get<string>(
-        'session.cookieName',
-        'sid',
-      );
-      const cookieMaxAge = this.configService.get<number>(
-        'session.cookieMaxAge',
-        604800000,
-      );
-
-      response.cookie(cookieName, sessionToken, {
-        httpOnly: true,
-        secure: this.configService.get('NODE_ENV') === 'production',
-        sameSite: 'strict',
-        maxAge: cookieMaxAge,
-        path: '/',
-      });
+      this.sessionService.setSessionCookie(response, sessionToken);
 
       this.logger.log(`User authenticated via ${provider}: ${user.email}`);
 
@@ -187,7 +222,8 @@ export class OAuthService {
         id: user._id.toString(),
         email: user.email,
         name: user.name,
-        role: user.role,
+        role: user.roles[0],
+        roles: user.roles,
         authProvider: user.authProvider,
         isVerified: user.isVerified,
         provider,
@@ -202,21 +238,27 @@ export class OAuthService {
 
   /**
    * Find existing user or create new user from OAuth profile
-   * @param provider - OAuth provider name
+   * Also used by SAML SSO so every external identity is linked the same way
+   * @param provider - OAuth provider name (or saml-<connection>)
    * @param oauthProfile - User profile from OAuth provider
    * @returns User document
+   * @throws AppException with the account status code if the matching account is not active
+   * @throws AppException EMAIL_ALREADY_EXISTS if an unverified email matches an existing account
    */
-  private async findOrCreateUser(
+  async findOrCreateUser(
     provider: OAuthProvider,
     oauthProfile: OAuthUserProfile,
   ): Promise<UserDocument> {
     // First, try to find user by provider ID
-    const providerIdField = `${provider}Id` as keyof User;
+    const providerIdField = getProviderIdField(provider);
+    const mappedProvider = toAuthProvider(provider);
     const existingUserByProvider = await this.userModel.findOne({
       [providerIdField]: oauthProfile.providerId,
     });
 
     if (existingUserByProvider) {
+      assertAccountActive(existingUserByProvider);
+
       // Update user info if needed (profile sync)
       let updated = false;
       if (
@@ -229,19 +271,16 @@ export class OAuthService {
       }
 
       // Update profile sync timestamp if this is the primary provider
-      const authProviderMap: Record<OAuthProvider, AuthProvider> = {
-        google: AuthProvider.GOOGLE,
-        facebook: AuthProvider.FACEBOOK,
-        github: AuthProvider.GITHUB,
-      };
-      const mappedProvider = authProviderMap[provider];
-
       if (existingUserByProvider.primaryProvider === mappedProvider) {
         existingUserByProvider.profileSyncedAt = new Date();
         existingUserByProvider.lastSyncedProvider = provider;
         updated = true;
       }
 
+      if (this.applyProviderRole(existingUserByProvider, oauthProfile.role)) {
+        updated = true;
+      }
+
       if (updated) {
         await existingUserByProvider.save();
       }
@@ -253,33 +292,38 @@ export class OAuthService {
       email: oauthProfile.email,
     });
 
-    // Map provider to AuthProvider enum
-    const authProviderMap: Record<OAuthProvider, AuthProvider> = {
-      google: AuthProvider.GOOGLE,
-      facebook: AuthProvider.FACEBOOK,
-      github: AuthProvider.GITHUB,
-    };
-    const mappedProvider = authProviderMap[provider];
-
     if (existingUserByEmail) {
+      // Never link a new identity to a blocked account
+      assertAccountActive(existingUserByEmail);
+
+      // Only a verified address proves ownership of the existing account
+      if (oauthProfile.emailVerified !== true) {
+        throw new AppException(
+          ErrorCode.EMAIL_ALREADY_EXISTS,
+          `An account with this email already exists. Sign in and link ${provider} from your account settings`,
+          HttpStatus.CONFLICT,
+        );
+      }
+
       // Link OAuth account to existing user (auto-linking)
-      (existingUserByEmail[providerIdField] as string) =
-        oauthProfile.providerId;
+      existingUserByEmail.set(providerIdField, oauthProfile.providerId);
       existingUserByEmail.isVerified = true;
 
       // Add provider to linkedProviders if not already present
-      if (!existingUserByEmail.linkedProviders.includes(mappedProvider)) {
-        existingUserByEmail.linkedProviders.push(mappedProvider);
+      if (!existingUserByEmail.linkedProviders.includes(provider)) {
+        existingUserByEmail.linkedProviders.push(provider);
       }
 
-      // If no primary provider set and this is an OAuth provider, set it as primary
+      // If no primary provider set, use this one (OIDC providers are never primary)
       if (
         !existingUserByEmail.primaryProvider &&
-        mappedProvider !== AuthProvider.EMAIL
+        isBuiltInOAuthProvider(provider)
       ) {
         existingUserByEmail.primaryProvider = mappedProvider;
       }
 
+      this.applyProviderRole(existingUserByEmail, oauthProfile.role);
+
       await existingUserByEmail.save();
 
       this.logger.log(
@@ -293,11 +337,13 @@ export class OAuthService {
       email: oauthProfile.email,
       name: oauthProfile.name,
       [providerIdField]: oauthProfile.providerId,
-      isVerified: oauthProfile.emailVerified ?? true,
+      isVerified: oauthProfile.emailVerified === true,
       authProvider: mappedProvider,
-      linkedProviders: [mappedProvider],
-      primaryProvider: mappedProvider,
-      role: 'user',
+      linkedProviders: [provider],
+      primaryProvider: isBuiltInOAuthProvider(provider)
+        ? mappedProvider
+        : undefined,
+      roles: [oauthProfile.role ?? 'user'],
     });
 
     this.logger.log(`Created new user via ${provider}: ${oauthProfile.email}`);
@@ -305,13 +351,27 @@ export class OAuthService {
   }
 
   /**
-   * Generate a random state string for CSRF protection
+   * Apply a role assigned by the identity provider
+   * The provider's role becomes the primary role; other roles are kept.
+   * Administrators are never re-roled by an external provider
+   * @returns Whether the user's roles changed
    */
-  private generateState(): string {
-    return (
-      Math.random().toString(36).substring(2, 15) +
-      Math.random().toString(36).substring(2, 15)
+  private applyProviderRole(user: UserDocument, role?: string): boolean {
+    const [primaryRole, ...otherRoles] = user.roles;
+
+    if (
+      !role ||
+      primaryRole === role ||
+      user.roles.includes(UserRole.ADMIN as string)
+    ) {
+      return false;
+    }
+
+    this.logger.log(
+      `Primary role of ${user.email} changed from ${primaryRole} to ${role} by identity provider`,
     );
+    user.roles = [role, ...otherRoles.filter((other) => other !== role)];
+    return true;
   }
 
   /**
@@ -320,15 +380,22 @@ export class OAuthService {
    * @param provider - OAuth provider name
    * @param code - Authorization code from OAuth callback
    * @param state - State parameter for CSRF protection
+   * @param response - Express response object carrying the state cookie
    * @returns OAuth user profile
    */
   async getUserProfile(
     provider: OAuthProvider,
     code: string,
-    state?: string,
+    state: string | undefined,
+    response: Response,
   ): Promise<OAuthUserProfile> {
     const strategy = this.getStrategy(provider);
-    return strategy.getUserProfile(code, state);
+    const codeVerifier = await this.oauthStateService.consume(
+      provider,
+      state,
+      response,
+    );
+    return strategy.getUserProfile(code, codeVerifier);
   }
 
   /**
@@ -338,6 +405,21 @@ export class OAuthService {
   getSupportedProviders(): OAuthProvider[] {
     return Array.from(this.strategies.keys());
   }
+
+  /**
+   * Get display names of enabled OIDC providers
+   * Built-in providers are labelled by the client
+   * @returns Map of provider name to display name
+   */
+  getProviderDisplayNames(): Record<string, string> {
+    return Object.fromEntries(
+      this.oidcStrategies
+        .filter(
+          (strategy) => this.strategies.get(strategy.provider) === strategy,
+        )
+        .map((strategy) => [strategy.provider, strategy.displayName]),
+    );
+  }
 }
 
 /**
@@ -348,6 +430,7 @@ export interface OAuthLoginResponseData {
   email: string;
   name: string;
   role: string;
+  roles: string[];
   authProvider: AuthProvider;
   isVerified: boolean;
   provider: string;
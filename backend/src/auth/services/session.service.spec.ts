@@ -0,0 +1,379 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SessionService } from './session.service';
+import { Session } from '../../session/schemas/session.schema';
+import { MailService } from '../../mail/mail.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditAction } from '../../audit/enums/audit-action.enum';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { AccountStatus } from '../../user/enums/account-status.enum';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let sessionModel: {
+    create: jest.Mock;
+    findOne: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    updateOne: jest.Mock;
+    updateMany: jest.Mock;
+  };
+  let mailService: { sendSessionReuseAlert: jest.Mock };
+  let auditService: { record: jest.Mock };
+
+  const userId = new Types.ObjectId();
+  const user = { _id: userId, email: 'test@example.com', name: 'Test User' };
+  const context = { ip: '10.0.0.1', userAgent: 'attacker-agent' };
+
+  const createMockSession = (overrides: Record<string, unknown> = {}) => ({
+    _id: new Types.ObjectId(),
+    user,
+    refreshToken: 'old-token',
+    family: 'family-1',
+    userAgent: 'agent',
+    ip: '127.0.0.1',
+    isValid: true,
+    expiresAt: new Date(Date.now() + 1000),
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  const mockFindOneWithUser = (session: unknown) => {
+    sessionModel.findOne.mockReturnValueOnce({
+      populate: jest.fn().mockResolvedValue(session),
+    });
+  };
+
+  beforeEach(async () => {
+    sessionModel = {
+      create: jest.fn((doc: Record<string, unknown>) =>
+        Promise.resolve({ _id: new Types.ObjectId(), ...doc }),
+      ),
+      findOne: jest.fn(),
+      findOneAndUpdate: jest.fn((filter: { _id: Types.ObjectId }) =>
+        Promise.resolve({ _id: filter._id }),
+      ),
+      updateOne: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+    };
+    mailService = {
+      sendSessionReuseAlert: jest.fn().mockResolvedValue(undefined),
+    };
+    auditService = { record: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        {
+          provide: getModelToken(Session.name),
+          useValue: sessionModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'session.cookieMaxAge' ? 60000 : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: MailService,
+          useValue: mailService,
+        },
+        {
+          provide: AuditService,
+          useValue: auditService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createSession', () => {
+    it('should create a session with a random token', async () => {
+      const token = await service.createSession(userId, 'agent', '127.0.0.1');
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(sessionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user: userId,
+          refreshToken: token,
+          userAgent: 'agent',
+          ip: '127.0.0.1',
+          family: expect.any(String) as string,
+        }),
+      );
+    });
+
+    it('should record the login with the sign-in method', async () => {
+      await service.createSession(userId, 'agent', '127.0.0.1', 'passkey');
+
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.LOGIN,
+          actorId: userId.toString(),
+          targetUser: userId.toString(),
+          ip: '127.0.0.1',
+          userAgent: 'agent',
+          metadata: { method: 'passkey' },
+        }),
+      );
+    });
+  });
+
+  describe('validateSession', () => {
+    it('should return a valid session and update its last used timestamp', async () => {
+      const session = createMockSession();
+      mockFindOneWithUser(session);
+
+      const result = await service.validateSession('old-token', context);
+
+      expect(result).toBe(session);
+      expect(session.save).toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a rotated token is reused', async () => {
+      const session = createMockSession({
+        isValid: false,
+        rotatedAt: new Date(Date.now() - 60000),
+      });
+      mockFindOneWithUser(session);
+
+      const result = await service.validateSession('old-token', context);
+
+      expect(result).toBeNull();
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
+        { family: 'family-1', isValid: true },
+        { isValid: false, revokedReason: 'token_reuse' },
+      );
+      expect(mailService.sendSessionReuseAlert).toHaveBeenCalledWith(
+        user.email,
+        user.name,
+        expect.objectContaining(context),
+      );
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.SESSION_FAMILY_REVOKED,
+          targetUser: userId.toString(),
+          ...context,
+          metadata: {
+            family: 'family-1',
+            reason: 'token_reuse',
+            revokedCount: 2,
+          },
+        }),
+      );
+    });
+
+    it('should not revoke the family when reuse happens within the grace period', async () => {
+      const session = createMockSession({
+        isValid: false,
+        rotatedAt: new Date(),
+      });
+      mockFindOneWithUser(session);
+      sessionModel.findOne.mockResolvedValueOnce(null);
+
+      const result = await service.validateSession('old-token', context);
+
+      expect(result).toBeNull();
+      expect(sessionModel.updateMany).not.toHaveBeenCalled();
+      expect(mailService.sendSessionReuseAlert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('extendSession', () => {
+    it('should extend a session that is close to expiring', async () => {
+      const session = createMockSession();
+      sessionModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      const before = Date.now();
+      const result = await service.extendSession(session as never);
+
+      expect(result).toBe(true);
+      expect(sessionModel.updateOne).toHaveBeenCalledWith(
+        { _id: session._id, isValid: true },
+        { expiresAt: session.expiresAt },
+      );
+      expect(session.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 60000,
+      );
+    });
+
+    it('should leave a session with plenty of time left alone', async () => {
+      const session = createMockSession({
+        expiresAt: new Date(Date.now() + 2 * 86400000),
+      });
+
+      const result = await service.extendSession(session as never);
+
+      expect(result).toBe(false);
+      expect(sessionModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should not extend a session revoked in the meantime', async () => {
+      const session = createMockSession();
+      sessionModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      const result = await service.extendSession(session as never);
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should replace the session with a new one in the same family', async () => {
+      const session = createMockSession();
+      const replacement = { _id: new Types.ObjectId() };
+      mockFindOneWithUser(session);
+      sessionModel.create.mockResolvedValue(replacement);
+
+      const before = Date.now();
+      const result = await service.rotateSession('old-token', context);
+
+      expect(result).toBe(replacement);
+
+      const created = sessionModel.create.mock.calls[0][0] as {
+        refreshToken: string;
+        family: string;
+        expiresAt: Date;
+      };
+      expect(created.refreshToken).toMatch(/^[0-9a-f]{64}$/);
+      expect(created.refreshToken).not.toBe('old-token');
+      expect(created.family).toBe('family-1');
+      expect(created.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 60000,
+      );
+      expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: session._id, rotatedAt: null, isValid: true },
+        expect.objectContaining({
+          isValid: false,
+          rotatedAt: expect.any(Date),
+        }),
+      );
+      const [, claim] = sessionModel.findOneAndUpdate.mock.calls[0] as [
+        unknown,
+        { replacedBy: Types.ObjectId },
+      ];
+      expect(sessionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ _id: claim.replacedBy }),
+      );
+    });
+
+    it('should not create a second replacement when a concurrent refresh claimed the token first', async () => {
+      const session = createMockSession();
+      const replacement = createMockSession({ refreshToken: 'new-token' });
+      mockFindOneWithUser(session);
+      sessionModel.findOneAndUpdate.mockResolvedValueOnce(null);
+      mockFindOneWithUser({
+        ...session,
+        isValid: false,
+        rotatedAt: new Date(),
+        replacedBy: replacement._id,
+      });
+      sessionModel.findOne.mockResolvedValueOnce(replacement);
+
+      const result = await service.rotateSession('old-token', context);
+
+      expect(result).toBe(replacement);
+      expect(sessionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the session was revoked before it could be claimed', async () => {
+      const session = createMockSession();
+      mockFindOneWithUser(session);
+      sessionModel.findOneAndUpdate.mockResolvedValueOnce(null);
+      mockFindOneWithUser({ ...session, isValid: false });
+
+      const result = await service.rotateSession('old-token', context);
+
+      expect(result).toBeNull();
+      expect(sessionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to extend a session for a suspended account', async () => {
+      mockFindOneWithUser(
+        createMockSession({
+          user: { ...user, status: AccountStatus.SUSPENDED },
+        }),
+      );
+
+      await expect(
+        service.rotateSession('old-token', context),
+      ).rejects.toMatchObject({ code: ErrorCode.ACCOUNT_SUSPENDED });
+      expect(sessionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the session is not valid', async () => {
+      mockFindOneWithUser(null);
+
+      const result = await service.rotateSession('unknown-token');
+
+      expect(result).toBeNull();
+    });
+
+    it('should return the replacement for a concurrent refresh within the grace period', async () => {
+      const replacement = createMockSession({ refreshToken: 'new-token' });
+      const session = createMockSession({
+        isValid: false,
+        rotatedAt: new Date(),
+        replacedBy: replacement._id,
+      });
+      mockFindOneWithUser(session);
+      sessionModel.findOne.mockResolvedValueOnce(replacement);
+
+      const result = await service.rotateSession('old-token', context);
+
+      expect(result).toBe(replacement);
+      expect(sessionModel.create).not.toHaveBeenCalled();
+      expect(sessionModel.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the family when a rotated token is reused after the grace period', async () => {
+      const session = createMockSession({
+        isValid: false,
+        rotatedAt: new Date(Date.now() - 60000),
+      });
+      mockFindOneWithUser(session);
+
+      const result = await service.rotateSession('old-token', context);
+
+      expect(result).toBeNull();
+      expect(sessionModel.create).not.toHaveBeenCalled();
+      expect(sessionModel.updateMany).toHaveBeenCalledWith(
+        { family: 'family-1', isValid: true },
+        { isValid: false, revokedReason: 'token_reuse' },
+      );
+      expect(mailService.sendSessionReuseAlert).toHaveBeenCalled();
+      expect(auditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.SESSION_FAMILY_REVOKED,
+          targetId: session._id.toString(),
+          ...context,
+          metadata: expect.objectContaining({ reason: 'token_reuse' }),
+        }),
+      );
+    });
+
+    it('should still revoke the family when the alert email fails', async () => {
+      const session = createMockSession({
+        isValid: false,
+        rotatedAt: new Date(Date.now() - 60000),
+      });
+      mockFindOneWithUser(session);
+      mailService.sendSessionReuseAlert.mockRejectedValue(
+        new Error('SMTP down'),
+      );
+
+      const result = await service.rotateSession('old-token', context);
+
+      expect(result).toBeNull();
+      expect(sessionModel.updateMany).toHaveBeenCalled();
+    });
+  });
+});
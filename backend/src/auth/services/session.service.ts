@@ -2,30 +2,62 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
+import { Response } from 'express';
 import * as crypto from 'crypto';
 import { Session, SessionDocument } from '../../session/schemas/session.schema';
 import { Types } from 'mongoose';
+import { UserDocument } from '../../user/schemas/user.schema';
+import { assertAccountActive } from '../../common/utils/account-status';
+import { MailService } from '../../mail/mail.service';
+import { AuditService } from '../../audit/audit.service';
+import {
+  AuditAction,
+  AuditTargetType,
+} from '../../audit/enums/audit-action.enum';
+
+/**
+ * Request details recorded when a session token is presented
+ */
+export interface SessionRequestContext {
+  ip: string;
+  userAgent: string;
+}
 
 @Injectable()
 export class SessionService {
   private readonly logger = new Logger(SessionService.name);
+  private readonly reuseGracePeriod: number;
+  private readonly renewThreshold: number;
 
   constructor(
     @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
     private readonly configService: ConfigService,
-  ) {}
+    private readonly mailService: MailService,
+    private readonly auditService: AuditService,
+  ) {
+    this.reuseGracePeriod = this.configService.get<number>(
+      'session.reuseGracePeriod',
+      10000,
+    );
+    this.renewThreshold = this.configService.get<number>(
+      'session.renewThreshold',
+      86400000,
+    );
+  }
 
   /**
    * Create a new session for a user
    * @param userId - The user's ObjectId
    * @param userAgent - The user's browser/user agent
    * @param ip - The user's IP address
+   * @param method - How the user signed in, recorded in the audit log
    * @returns The generated session token
    */
   async createSession(
     userId: Types.ObjectId,
     userAgent: string,
     ip: string,
+    method?: string,
   ): Promise<string> {
     const token = crypto.randomBytes(32).toString('hex');
     const cookieMaxAge = this.configService.get<number>(
@@ -35,37 +67,59 @@ export class SessionService {
 
     const expiresAt = new Date(Date.now() + cookieMaxAge);
 
-    await this.sessionModel.create({
+    const session = await this.sessionModel.create({
       user: userId,
       refreshToken: token,
       userAgent,
       ip,
       expiresAt,
+      family: crypto.randomUUID(),
     });
 
     this.logger.log(`Session created for user ${userId.toString()}`);
 
+    await this.auditService.record({
+      action: AuditAction.LOGIN,
+      actorId: userId.toString(),
+      targetType: AuditTargetType.SESSION,
+      targetId: session._id.toString(),
+      targetUser: userId.toString(),
+      ip,
+      userAgent,
+      metadata: method ? { method } : undefined,
+    });
+
     return token;
   }
 
   /**
    * Validate a session token
+   * Presenting a token that was already rotated revokes the whole session family.
    * @param token - The session token to validate
+   * @param context - Request details used for reuse alerts
    * @returns The session document if valid, null otherwise
    */
-  async validateSession(token: string): Promise<SessionDocument | null> {
+  async validateSession(
+    token: string,
+    context?: SessionRequestContext,
+  ): Promise<SessionDocument | null> {
     const session = await this.sessionModel
-      .findOne({
-        refreshToken: token,
-        isValid: true,
-        expiresAt: { $gt: new Date() },
-      })
+      .findOne({ refreshToken: token })
       .populate('user');
 
     if (!session) {
       return null;
     }
 
+    if (session.rotatedAt) {
+      await this.handleRotatedTokenUse(session, context);
+      return null;
+    }
+
+    if (!session.isValid || session.expiresAt <= new Date()) {
+      return null;
+    }
+
     // Update last used timestamp
     session.lastUsedAt = new Date();
     await session.save();
@@ -73,6 +127,219 @@ export class SessionService {
     return session;
   }
 
+  /**
+   * Extend a session in use once it nears its expiry (sliding session)
+   * Sessions with more than the renew threshold left are not touched, so
+   * most requests skip the write and keep their cookie.
+   * @param session - A session returned by validateSession
+   * @returns true if the expiry was extended and the cookie must be reissued
+   */
+  async extendSession(session: SessionDocument): Promise<boolean> {
+    const now = Date.now();
+
+    if (session.expiresAt.getTime() - now > this.renewThreshold) {
+      return false;
+    }
+
+    const cookieMaxAge = this.configService.get<number>(
+      'session.cookieMaxAge',
+      604800000,
+    );
+    const expiresAt = new Date(now + cookieMaxAge);
+
+    const result = await this.sessionModel.updateOne(
+      { _id: session._id, isValid: true },
+      { expiresAt },
+    );
+
+    if (result.modifiedCount === 0) {
+      return false;
+    }
+
+    session.expiresAt = expiresAt;
+
+    return true;
+  }
+
+  /**
+   * Set the HTTP-only session cookie
+   * @param response - Express response object
+   * @param sessionToken - Session token to store in the cookie
+   */
+  setSessionCookie(response: Response, sessionToken: string): void {
+    const cookieName = this.configService.get<string>(
+      'session.cookieName',
+      'sid',
+    );
+    const cookieMaxAge = this.configService.get<number>(
+      'session.cookieMaxAge',
+      604800000,
+    );
+
+    response.cookie(cookieName, sessionToken, {
+      httpOnly: true,
+      secure: this.configService.get('NODE_ENV') === 'production',
+      sameSite: 'strict',
+      maxAge: cookieMaxAge,
+      path: '/',
+    });
+  }
+
+  /**
+   * Rotate a session token and extend its expiry (sliding session)
+   * The current session is retired and replaced by a new session in the same family.
+   * @param token - The current session token
+   * @param context - Request details used for reuse alerts
+   * @returns The replacement session document, or null if the token is not a valid session
+   * @throws AppException with the account status code if the account is not active
+   */
+  async rotateSession(
+    token: string,
+    context?: SessionRequestContext,
+  ): Promise<SessionDocument | null> {
+    const session = await this.sessionModel
+      .findOne({ refreshToken: token })
+      .populate('user');
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.rotatedAt) {
+      return this.handleRotatedTokenUse(session, context);
+    }
+
+    if (!session.isValid || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const cookieMaxAge = this.configService.get<number>(
+      'session.cookieMaxAge',
+      604800000,
+    );
+    const now = new Date();
+    const user = session.user as unknown as UserDocument;
+
+    // Never extend a session for a suspended or removed account
+    assertAccountActive(user);
+
+    // Claim the token atomically so concurrent refreshes cannot both rotate it.
+    // It is kept until expiry so reuse can be detected.
+    const replacementId = new Types.ObjectId();
+    const claimed = await this.sessionModel.findOneAndUpdate(
+      { _id: session._id, rotatedAt: null, isValid: true },
+      { isValid: false, rotatedAt: now, replacedBy: replacementId },
+    );
+
+    if (!claimed) {
+      // Another request rotated or revoked the token since it was read
+      const current = await this.sessionModel
+        .findOne({ _id: session._id })
+        .populate('user');
+      return current?.rotatedAt
+        ? this.handleRotatedTokenUse(current, context)
+        : null;
+    }
+
+    const replacement = await this.sessionModel.create({
+      _id: replacementId,
+      user: user._id,
+      refreshToken: crypto.randomBytes(32).toString('hex'),
+      userAgent: session.userAgent,
+      device: session.device,
+      ip: session.ip,
+      deviceName: session.deviceName,
+      family: session.family,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + cookieMaxAge),
+    });
+
+    this.logger.log(`Session rotated for user ${user._id.toString()}`);
+
+    return replacement;
+  }
+
+  /**
+   * Revoke every session in a family (all sessions rotated from one login)
+   * @param family - The session family id
+   * @param reason - Why the family was revoked
+   * @returns The number of sessions invalidated
+   */
+  async revokeSessionFamily(family: string, reason: string): Promise<number> {
+    const result = await this.sessionModel.updateMany(
+      { family, isValid: true },
+      { isValid: false, revokedReason: reason },
+    );
+
+    this.logger.log(
+      `Session family ${family} revoked (${reason}): ${result.modifiedCount} document(s)`,
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Handle a request presenting a token that was already rotated.
+   * Within the grace period this is a concurrent request racing the refresh,
+   * so the replacement session is returned. Afterwards it is treated as theft.
+   * @param session - The rotated session (user populated)
+   * @param context - Request details used for reuse alerts
+   * @returns The still-valid replacement session, or null
+   */
+  private async handleRotatedTokenUse(
+    session: SessionDocument,
+    context?: SessionRequestContext,
+  ): Promise<SessionDocument | null> {
+    const rotatedAt = session.rotatedAt!.getTime();
+
+    if (Date.now() - rotatedAt <= this.reuseGracePeriod) {
+      return this.sessionModel.findOne({
+        _id: session.replacedBy,
+        isValid: true,
+        expiresAt: { $gt: new Date() },
+      });
+    }
+
+    const user = session.user as unknown as UserDocument;
+    const detectedAt = new Date();
+    const ip = context?.ip ?? 'unknown';
+    const userAgent = context?.userAgent ?? 'unknown';
+
+    const revokedCount = await this.revokeSessionFamily(
+      session.family,
+      'token_reuse',
+    );
+
+    await this.auditService.record({
+      action: AuditAction.SESSION_FAMILY_REVOKED,
+      targetType: AuditTargetType.SESSION,
+      targetId: session._id.toString(),
+      targetUser: user._id.toString(),
+      ip,
+      userAgent,
+      metadata: { family: session.family, reason: 'token_reuse', revokedCount },
+    });
+
+    this.logger.warn(
+      `Security event: session token reuse detected for user ${user._id.toString()} ` +
+        `(family ${session.family}, ip ${ip}, user agent ${userAgent})`,
+    );
+
+    try {
+      await this.mailService.sendSessionReuseAlert(user.email, user.name, {
+        ip,
+        userAgent,
+        detectedAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send session reuse alert: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return null;
+  }
+
   /**
    * Invalidate a session (logout)
    * @param token - The session token to invalidate
@@ -0,0 +1,376 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { TwoFactorService } from './two-factor.service';
+import { User } from '../../user/schemas/user.schema';
+import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { HashService } from '../../common/services/hash.service';
+import { MailService } from '../../mail/mail.service';
+
+// Base32 of the ASCII secret "12345678901234567890" from RFC 6238 Appendix B
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const ENCRYPTION_KEY = crypto.randomBytes(32);
+
+// The secret as stored: enc:v1:<iv>:<tag>:<ciphertext> under ENCRYPTION_KEY
+const encrypt = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+
+  return `enc:v1:${[iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString('base64url'))
+    .join(':')}`;
+};
+const STORED_SECRET = encrypt(RFC_SECRET);
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let userModel: { findById: jest.Mock; updateOne: jest.Mock };
+  let hashService: { hash: jest.Mock; compare: jest.Mock };
+  let mailService: { sendRecoveryCodeUsedAlert: jest.Mock };
+
+  const userId = new Types.ObjectId();
+
+  const createMockUser = (overrides: Record<string, unknown> = {}) => ({
+    _id: userId,
+    email: 'test@example.com',
+    name: 'Test User',
+    password: 'hashed-password',
+    isDeleted: false,
+    twoFactorEnabled: false,
+    twoFactorSecret: undefined as string | undefined,
+    twoFactorPendingSecret: undefined as string | undefined,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  const mockFindById = (user: unknown) => {
+    userModel.findById.mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(user),
+      }),
+      exec: jest.fn().mockResolvedValue(user),
+    });
+  };
+
+  beforeEach(async () => {
+    userModel = {
+      findById: jest.fn(),
+      updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+    };
+    // Fake hash: prefix the plain text so comparisons stay deterministic
+    hashService = {
+      hash: jest.fn((plain: string) => Promise.resolve(`hashed:${plain}`)),
+      compare: jest.fn((plain: string, hash: string) =>
+        Promise.resolve(hash === `hashed:${plain}`),
+      ),
+    };
+    mailService = {
+      sendRecoveryCodeUsedAlert: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        {
+          provide: getModelToken(User.name),
+          useValue: userModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'twoFactor.encryptionKey'
+                ? ENCRYPTION_KEY.toString('hex')
+                : defaultValue,
+            ),
+          },
+        },
+        { provide: HashService, useValue: hashService },
+        { provide: MailService, useValue: mailService },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('generateCode', () => {
+    it.each([
+      [59000, '287082'],
+      [1111111109000, '081804'],
+      [1234567890000, '005924'],
+      [2000000000000, '279037'],
+    ])('should match the RFC 6238 vector at %i', (timestamp, expected) => {
+      expect(service.generateCode(RFC_SECRET, timestamp)).toBe(expected);
+    });
+  });
+
+  describe('beginSetup', () => {
+    it('should store a pending secret and return an otpauth URI', async () => {
+      const user = createMockUser();
+      mockFindById(user);
+
+      const result = await service.beginSetup(userId.toString());
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(result.otpauthUri).toContain('otpauth://totp/');
+      expect(result.otpauthUri).toContain(`secret=${result.secret}`);
+      expect(user.twoFactorPendingSecret).toMatch(/^enc:v1:/);
+      expect(user.twoFactorPendingSecret).not.toContain(result.secret);
+      expect(user.save).toHaveBeenCalled();
+    });
+
+    it('should confirm with a code for the encrypted pending secret', async () => {
+      const user = createMockUser();
+      mockFindById(user);
+      const { secret } = await service.beginSetup(userId.toString());
+
+      await service.confirmSetup(
+        userId.toString(),
+        service.generateCode(secret),
+      );
+
+      expect(user.twoFactorEnabled).toBe(true);
+    });
+
+    it('should reject accounts without a password', async () => {
+      mockFindById(createMockUser({ password: undefined }));
+
+      await expect(service.beginSetup(userId.toString())).rejects.toThrow(
+        AppException,
+      );
+    });
+  });
+
+  describe('confirmSetup', () => {
+    it('should enable 2FA with a valid code', async () => {
+      const user = createMockUser({ twoFactorPendingSecret: STORED_SECRET });
+      mockFindById(user);
+
+      await service.confirmSetup(
+        userId.toString(),
+        service.generateCode(RFC_SECRET),
+      );
+
+      expect(user.twoFactorEnabled).toBe(true);
+      expect(user.twoFactorSecret).toMatch(/^enc:v1:/);
+      expect(user.twoFactorSecret).not.toContain(RFC_SECRET);
+      expect(user).toHaveProperty('twoFactorPendingSecret', undefined);
+    });
+
+    it('should issue hashed recovery codes', async () => {
+      const user = createMockUser({ twoFactorPendingSecret: STORED_SECRET });
+      mockFindById(user);
+
+      const codes = await service.confirmSetup(
+        userId.toString(),
+        service.generateCode(RFC_SECRET),
+      );
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach((code) =>
+        expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/),
+      );
+      expect(user).toHaveProperty(
+        'twoFactorRecoveryCodes',
+        codes.map((code) => `hashed:${code.replace('-', '')}`),
+      );
+    });
+
+    it('should reject an invalid code', async () => {
+      const user = createMockUser({ twoFactorPendingSecret: STORED_SECRET });
+      mockFindById(user);
+      const wrongCode = service.generateCode(
+        RFC_SECRET,
+        Date.now() + 10 * 60 * 1000,
+      );
+
+      await expect(
+        service.confirmSetup(userId.toString(), wrongCode),
+      ).rejects.toMatchObject({
+        code: ErrorCode.TWO_FACTOR_CODE_INVALID,
+      });
+      expect(user.twoFactorEnabled).toBe(false);
+    });
+
+    it('should require setup to be started first', async () => {
+      mockFindById(createMockUser());
+
+      await expect(
+        service.confirmSetup(userId.toString(), '123456'),
+      ).rejects.toMatchObject({
+        code: ErrorCode.TWO_FACTOR_SETUP_NOT_STARTED,
+      });
+    });
+  });
+
+  describe('verifyUserCode', () => {
+    it('should accept a valid code once and reject its replay', async () => {
+      const user = createMockUser({
+        twoFactorEnabled: true,
+        twoFactorSecret: STORED_SECRET,
+      });
+      mockFindById(user);
+      const code = service.generateCode(RFC_SECRET);
+
+      await expect(service.verifyUserCode(userId, code)).resolves.toBe(true);
+      await expect(service.verifyUserCode(userId, code)).resolves.toBe(false);
+    });
+
+    it('should verify codes against the secret stored at setup', async () => {
+      const user = createMockUser({ twoFactorPendingSecret: STORED_SECRET });
+      mockFindById(user);
+      await service.confirmSetup(
+        userId.toString(),
+        service.generateCode(RFC_SECRET, Date.now() - 30000),
+      );
+
+      await expect(
+        service.verifyUserCode(userId, service.generateCode(RFC_SECRET)),
+      ).resolves.toBe(true);
+    });
+
+    it('should refuse a secret that is not encrypted', async () => {
+      mockFindById(
+        createMockUser({ twoFactorEnabled: true, twoFactorSecret: RFC_SECRET }),
+      );
+
+      await expect(
+        service.verifyUserCode(userId, service.generateCode(RFC_SECRET)),
+      ).rejects.toThrow('Stored TOTP secret is not encrypted');
+    });
+
+    it('should reject codes when 2FA is not enabled', async () => {
+      mockFindById(createMockUser());
+
+      await expect(service.verifyUserCode(userId, '123456')).resolves.toBe(
+        false,
+      );
+    });
+  });
+
+  describe('consumeRecoveryCode', () => {
+    const context = { ip: '203.0.113.7', userAgent: 'jest' };
+
+    it('should accept a code once, remove it and send an alert', async () => {
+      mockFindById(
+        createMockUser({
+          twoFactorEnabled: true,
+          twoFactorRecoveryCodes: ['hashed:aaaaabbbbb', 'hashed:cccccddddd'],
+        }),
+      );
+
+      const result = await service.consumeRecoveryCode(
+        userId,
+        ' CCCCC-DDDDD ',
+        context,
+      );
+
+      expect(result).toEqual({ valid: true, remaining: 1 });
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: userId, twoFactorRecoveryCodes: 'hashed:cccccddddd' },
+        { $pull: { twoFactorRecoveryCodes: 'hashed:cccccddddd' } },
+      );
+      expect(mailService.sendRecoveryCodeUsedAlert).toHaveBeenCalledWith(
+        'test@example.com',
+        'Test User',
+        expect.objectContaining({ ...context, remaining: 1 }),
+      );
+    });
+
+    it('should reject an unknown code without burning any', async () => {
+      mockFindById(
+        createMockUser({
+          twoFactorEnabled: true,
+          twoFactorRecoveryCodes: ['hashed:aaaaabbbbb'],
+        }),
+      );
+
+      const result = await service.consumeRecoveryCode(
+        userId,
+        'zzzzz-zzzzz',
+        context,
+      );
+
+      expect(result).toEqual({ valid: false, remaining: 1 });
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+      expect(mailService.sendRecoveryCodeUsedAlert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a code already consumed by a concurrent request', async () => {
+      mockFindById(
+        createMockUser({
+          twoFactorEnabled: true,
+          twoFactorRecoveryCodes: ['hashed:aaaaabbbbb'],
+        }),
+      );
+      userModel.updateOne.mockResolvedValueOnce({ modifiedCount: 0 });
+
+      const result = await service.consumeRecoveryCode(
+        userId,
+        'aaaaa-bbbbb',
+        context,
+      );
+
+      expect(result.valid).toBe(false);
+      expect(mailService.sendRecoveryCodeUsedAlert).not.toHaveBeenCalled();
+    });
+
+    it('should report exhausted codes', async () => {
+      mockFindById(
+        createMockUser({ twoFactorEnabled: true, twoFactorRecoveryCodes: [] }),
+      );
+
+      await expect(
+        service.consumeRecoveryCode(userId, 'aaaaa-bbbbb', context),
+      ).rejects.toMatchObject({ code: ErrorCode.RECOVERY_CODES_EXHAUSTED });
+    });
+  });
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should replace the stored codes after a valid TOTP code', async () => {
+      const user = createMockUser({
+        twoFactorEnabled: true,
+        twoFactorSecret: STORED_SECRET,
+      });
+      mockFindById(user);
+
+      const codes = await service.regenerateRecoveryCodes(
+        userId.toString(),
+        service.generateCode(RFC_SECRET),
+      );
+
+      expect(codes).toHaveLength(10);
+      expect(userModel.updateOne).toHaveBeenCalledWith(
+        { _id: userId },
+        {
+          twoFactorRecoveryCodes: codes.map(
+            (code) => `hashed:${code.replace('-', '')}`,
+          ),
+        },
+      );
+    });
+
+    it('should reject an invalid TOTP code', async () => {
+      mockFindById(
+        createMockUser({
+          twoFactorEnabled: true,
+          twoFactorSecret: STORED_SECRET,
+        }),
+      );
+
+      await expect(
+        service.regenerateRecoveryCodes(userId.toString(), '000000'),
+      ).rejects.toMatchObject({ code: ErrorCode.TWO_FACTOR_CODE_INVALID });
+      expect(userModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
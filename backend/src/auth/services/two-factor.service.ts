@@ -0,0 +1,596 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { User, UserDocument } from '../../user/schemas/user.schema';
+import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { HashService } from '../../common/services/hash.service';
+import { MailService } from '../../mail/mail.service';
+import { SessionRequestContext } from './session.service';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+/** Accepted clock drift, in time steps either side of the current one */
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+/** Prefix of secrets encrypted at rest */
+const ENCRYPTED_SECRET_PREFIX = 'enc:v1:';
+/** Used only when TWO_FACTOR_ENCRYPTION_KEY is unset outside production */
+const DEVELOPMENT_ENCRYPTION_KEY = 'authboiler-development-two-factor-key';
+
+/**
+ * Authenticator-app enrolment details returned when 2FA setup starts
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Result of consuming a recovery code
+ */
+export interface RecoveryCodeResult {
+  valid: boolean;
+  remaining: number;
+}
+
+/**
+ * Two-factor authentication service.
+ * Implements TOTP (RFC 6238) codes, manages authenticator enrolment
+ * and the single-use recovery codes issued alongside it.
+ * TOTP secrets are stored encrypted with AES-256-GCM.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly issuer: string;
+  private readonly encryptionKey: Buffer;
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+    private readonly hashService: HashService,
+    private readonly mailService: MailService,
+  ) {
+    this.issuer = this.configService.get<string>(
+      'twoFactor.issuer',
+      'AuthBoiler',
+    );
+
+    const configuredKey = this.configService.get<string>(
+      'twoFactor.encryptionKey',
+      '',
+    );
+    if (configuredKey) {
+      this.encryptionKey = Buffer.from(configuredKey, 'hex');
+    } else {
+      this.logger.warn(
+        'TWO_FACTOR_ENCRYPTION_KEY is not set; TOTP secrets are encrypted with the development key',
+      );
+      this.encryptionKey = crypto
+        .createHash('sha256')
+        .update(DEVELOPMENT_ENCRYPTION_KEY)
+        .digest();
+    }
+  }
+
+  /**
+   * Start enrolment by generating a new secret for the user.
+   * The secret stays pending until confirmed with a valid code.
+   * @param userId - The user's ID
+   * @returns The secret and an otpauth:// URI for QR codes
+   */
+  async beginSetup(userId: string): Promise<TwoFactorSetup> {
+    const user = await this.findUser(userId, '+password');
+
+    if (!user.password) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_UNAVAILABLE,
+        'Two-factor authentication is only available for email/password accounts',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_ALREADY_ENABLED,
+        'Two-factor authentication is already enabled',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const secret = this.generateSecret();
+    user.twoFactorPendingSecret = this.encryptSecret(secret);
+    await user.save();
+
+    this.logger.log(`2FA setup started for user: ${user.email}`);
+
+    return {
+      secret,
+      otpauthUri: this.buildOtpAuthUri(user.email, secret),
+    };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app.
+   * @param userId - The user's ID
+   * @param code - 6-digit TOTP code
+   * @returns Freshly generated recovery codes (shown to the user once)
+   */
+  async confirmSetup(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId, '+twoFactorPendingSecret');
+
+    if (user.twoFactorEnabled) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_ALREADY_ENABLED,
+        'Two-factor authentication is already enabled',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_SETUP_NOT_STARTED,
+        'Two-factor setup has not been started',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const secret = this.decryptSecret(user.twoFactorPendingSecret);
+    const step = this.verifyCode(secret, code);
+
+    if (step === null) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_CODE_INVALID,
+        'Invalid authentication code',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    user.twoFactorSecret = this.encryptSecret(secret);
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorEnabled = true;
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = await this.hashRecoveryCodes(recoveryCodes);
+    await user.save();
+
+    this.logger.log(`2FA enabled for user: ${user.email}`);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Replace all recovery codes after verifying a current TOTP code.
+   * Previously issued codes stop working immediately.
+   * @param userId - The user's ID
+   * @param code - 6-digit TOTP code
+   * @returns The new recovery codes (shown to the user once)
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_NOT_ENABLED,
+        'Two-factor authentication is not enabled',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const isValid = await this.verifyUserCode(user._id, code);
+
+    if (!isValid) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_CODE_INVALID,
+        'Invalid authentication code',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userModel.updateOne(
+      { _id: user._id },
+      { twoFactorRecoveryCodes: await this.hashRecoveryCodes(recoveryCodes) },
+    );
+
+    this.logger.log(`2FA recovery codes regenerated for user: ${user.email}`);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Count the unused recovery codes for a user.
+   * @param userId - The user's ID
+   */
+  async getRemainingRecoveryCodes(userId: string): Promise<number> {
+    const user = await this.findUser(userId, '+twoFactorRecoveryCodes');
+
+    if (!user.twoFactorEnabled) {
+      return 0;
+    }
+
+    return user.twoFactorRecoveryCodes?.length ?? 0;
+  }
+
+  /**
+   * Sign-in fallback: check a recovery code and burn it on success.
+   * The account owner is emailed whenever a code is used.
+   * @param userId - The user's ObjectId
+   * @param recoveryCode - Recovery code as typed by the user
+   * @param context - Request details for the notification email
+   * @returns Whether the code matched and how many codes remain
+   */
+  async consumeRecoveryCode(
+    userId: Types.ObjectId,
+    recoveryCode: string,
+    context: SessionRequestContext,
+  ): Promise<RecoveryCodeResult> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+twoFactorRecoveryCodes')
+      .exec();
+
+    const hashes = user?.twoFactorEnabled
+      ? (user.twoFactorRecoveryCodes ?? [])
+      : [];
+
+    if (!user || hashes.length === 0) {
+      throw new AppException(
+        ErrorCode.RECOVERY_CODES_EXHAUSTED,
+        'No recovery codes left. Contact support to regain access.',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    const normalized = this.normalizeRecoveryCode(recoveryCode);
+    let matchedHash: string | undefined;
+
+    for (const hash of hashes) {
+      if (await this.hashService.compare(normalized, hash)) {
+        matchedHash = hash;
+        break;
+      }
+    }
+
+    if (!matchedHash) {
+      return { valid: false, remaining: hashes.length };
+    }
+
+    // $pull is atomic, so a code raced from two requests is only accepted once
+    const result = await this.userModel.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: matchedHash },
+      { $pull: { twoFactorRecoveryCodes: matchedHash } },
+    );
+
+    if (result.modifiedCount === 0) {
+      return { valid: false, remaining: hashes.length - 1 };
+    }
+
+    const remaining = hashes.length - 1;
+
+    this.logger.warn(
+      `2FA recovery code used for user: ${user.email} (${remaining} remaining)`,
+    );
+
+    try {
+      await this.mailService.sendRecoveryCodeUsedAlert(user.email, user.name, {
+        ip: context.ip,
+        userAgent: context.userAgent,
+        usedAt: new Date(),
+        remaining,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send recovery code alert: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    return { valid: true, remaining };
+  }
+
+  /**
+   * Disable two-factor authentication after verifying a current code.
+   * @param userId - The user's ID
+   * @param code - 6-digit TOTP code
+   */
+  async disable(userId: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+
+    if (!user.twoFactorEnabled) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_NOT_ENABLED,
+        'Two-factor authentication is not enabled',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const isValid = await this.verifyUserCode(user._id, code);
+
+    if (!isValid) {
+      throw new AppException(
+        ErrorCode.TWO_FACTOR_CODE_INVALID,
+        'Invalid authentication code',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        twoFactorEnabled: false,
+        $unset: {
+          twoFactorSecret: '',
+          twoFactorPendingSecret: '',
+          twoFactorLastUsedStep: '',
+          twoFactorRecoveryCodes: '',
+        },
+      },
+    );
+
+    this.logger.log(`2FA disabled for user: ${user.email}`);
+  }
+
+  /**
+   * Verify a TOTP code against a user's enrolled secret.
+   * Accepted codes cannot be replayed within their validity window.
+   * @param userId - The user's ObjectId
+   * @param code - 6-digit TOTP code
+   * @returns true if the code is valid
+   */
+  async verifyUserCode(userId: Types.ObjectId, code: string): Promise<boolean> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+twoFactorSecret +twoFactorLastUsedStep')
+      .exec();
+
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const secret = this.decryptSecret(user.twoFactorSecret);
+    const step = this.verifyCode(secret, code, user.twoFactorLastUsedStep);
+
+    if (step === null) {
+      return false;
+    }
+
+    user.twoFactorLastUsedStep = step;
+    await user.save();
+
+    return true;
+  }
+
+  /**
+   * Generate the TOTP code for a secret at a given time.
+   * @param secret - Base32-encoded secret
+   * @param timestamp - Unix time in milliseconds (defaults to now)
+   * @returns 6-digit code
+   */
+  generateCode(secret: string, timestamp: number = Date.now()): string {
+    return this.generateCodeForStep(secret, this.getTimeStep(timestamp));
+  }
+
+  /**
+   * Check a code against the time steps inside the drift window.
+   * @returns The matching time step, or null if the code is invalid or replayed
+   */
+  private verifyCode(
+    secret: string,
+    code: string,
+    lastUsedStep?: number,
+  ): number | null {
+    if (!/^\d{6}$/.test(code)) {
+      return null;
+    }
+
+    const currentStep = this.getTimeStep(Date.now());
+
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+      const step = currentStep + offset;
+
+      if (lastUsedStep !== undefined && step <= lastUsedStep) {
+        continue;
+      }
+
+      const expected = this.generateCodeForStep(secret, step);
+
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * HOTP (RFC 4226) value for a time step.
+   */
+  private generateCodeForStep(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto
+      .createHmac('sha1', this.base32Decode(secret))
+      .update(counter)
+      .digest();
+
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  private getTimeStep(timestamp: number): number {
+    return Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  }
+
+  private generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * Encrypt a Base32 secret for storage as enc:v1:<iv>:<tag>:<ciphertext>.
+   */
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return `${ENCRYPTED_SECRET_PREFIX}${[iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join(':')}`;
+  }
+
+  /**
+   * Decrypt a stored secret. Anything but an enc:v1 payload is rejected.
+   */
+  private decryptSecret(stored: string): string {
+    if (!stored.startsWith(ENCRYPTED_SECRET_PREFIX)) {
+      throw new Error('Stored TOTP secret is not encrypted');
+    }
+
+    const [iv, tag, ciphertext] = stored
+      .slice(ENCRYPTED_SECRET_PREFIX.length)
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.encryptionKey,
+      iv,
+    );
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(
+        { length: RECOVERY_CODE_GROUP_LENGTH * 2 },
+        () =>
+          RECOVERY_CODE_ALPHABET[
+            crypto.randomInt(RECOVERY_CODE_ALPHABET.length)
+          ],
+      ).join('');
+
+      return `${chars.slice(0, RECOVERY_CODE_GROUP_LENGTH)}-${chars.slice(RECOVERY_CODE_GROUP_LENGTH)}`;
+    });
+  }
+
+  private hashRecoveryCodes(codes: string[]): Promise<string[]> {
+    return Promise.all(
+      codes.map((code) =>
+        this.hashService.hash(this.normalizeRecoveryCode(code)),
+      ),
+    );
+  }
+
+  /**
+   * Recovery codes are matched case-insensitively, ignoring spaces and dashes.
+   */
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[\s-]/g, '');
+  }
+
+  private buildOtpAuthUri(email: string, secret: string): string {
+    const label = encodeURIComponent(`${this.issuer}:${email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: TOTP_DIGITS.toString(),
+      period: TOTP_PERIOD_SECONDS.toString(),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+
+      if (index === -1) {
+        continue;
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  private async findUser(
+    userId: string,
+    select?: string,
+  ): Promise<UserDocument> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppException(
+        ErrorCode.INVALID_INPUT,
+        'Invalid user ID format',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const query = this.userModel.findById(userId);
+    const user = await (select ? query.select(select) : query).exec();
+
+    if (!user || user.isDeleted) {
+      throw new AppException(
+        ErrorCode.USER_NOT_FOUND,
+        'User not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return user;
+  }
+}
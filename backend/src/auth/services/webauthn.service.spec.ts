@@ -0,0 +1,411 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { WebAuthnService } from './webauthn.service';
+import { User } from '../../user/schemas/user.schema';
+import { WebAuthnCredential } from '../schemas/webauthn-credential.schema';
+import { PendingWebAuthnChallenge } from '../schemas/pending-webauthn-challenge.schema';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+const RP_ID = 'localhost';
+const ORIGIN = 'http://localhost:3000';
+
+/**
+ * Tiny CBOR encoder covering what an authenticator emits
+ */
+const encodeCbor = (value: unknown): Buffer => {
+  const head = (major: number, length: number): Buffer => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 256) return Buffer.from([(major << 5) | 24, length]);
+    const buffer = Buffer.alloc(3);
+    buffer.writeUInt8((major << 5) | 25, 0);
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (value instanceof Map) {
+    const entries = [...(value as Map<unknown, unknown>).entries()];
+    return Buffer.concat([
+      head(5, entries.length),
+      ...entries.flatMap(([k, v]) => [encodeCbor(k), encodeCbor(v)]),
+    ]);
+  }
+  throw new Error('Unsupported value');
+};
+
+/**
+ * Software authenticator backed by a P-256 key pair
+ */
+const createAuthenticator = () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  const jwk = publicKey.export({ format: 'jwk' });
+  const credentialId = crypto.randomBytes(16);
+  const coseKey = encodeCbor(
+    new Map<number, unknown>([
+      [1, 2],
+      [3, -7],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')],
+    ]),
+  );
+
+  const authData = (
+    signCount: number,
+    attested: boolean,
+    userVerified = true,
+  ): Buffer => {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(signCount);
+    const parts: Buffer[] = [
+      crypto.createHash('sha256').update(RP_ID).digest(),
+      // UP (| UV) (| AT)
+      Buffer.from([0x01 | (userVerified ? 0x04 : 0) | (attested ? 0x40 : 0)]),
+      counter,
+    ];
+
+    if (attested) {
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(credentialId.length);
+      parts.push(Buffer.alloc(16), idLength, credentialId, coseKey);
+    }
+
+    return Buffer.concat(parts);
+  };
+
+  const clientData = (type: string, challenge: string, origin = ORIGIN) =>
+    Buffer.from(JSON.stringify({ type, challenge, origin }));
+
+  return {
+    id: credentialId.toString('base64url'),
+    coseKey,
+    register: (challenge: string, origin?: string) => ({
+      id: credentialId.toString('base64url'),
+      type: 'public-key',
+      response: {
+        clientDataJSON: clientData(
+          'webauthn.create',
+          challenge,
+          origin,
+        ).toString('base64url'),
+        attestationObject: encodeCbor(
+          new Map<string, unknown>([
+            ['fmt', 'none'],
+            ['attStmt', new Map()],
+            ['authData', authData(0, true)],
+          ]),
+        ).toString('base64url'),
+        transports: ['internal'],
+      },
+    }),
+    assert: (challenge: string, signCount: number, userVerified = true) => {
+      const data = authData(signCount, false, userVerified);
+      const clientDataJSON = clientData('webauthn.get', challenge);
+      const signature = crypto.sign(
+        'sha256',
+        Buffer.concat([
+          data,
+          crypto.createHash('sha256').update(clientDataJSON).digest(),
+        ]),
+        privateKey,
+      );
+
+      return {
+        id: credentialId.toString('base64url'),
+        type: 'public-key',
+        response: {
+          clientDataJSON: clientDataJSON.toString('base64url'),
+          authenticatorData: data.toString('base64url'),
+          signature: signature.toString('base64url'),
+        },
+      };
+    },
+  };
+};
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+  let userModel: { findById: jest.Mock };
+  let credentialModel: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    exists: jest.Mock;
+    countDocuments: jest.Mock;
+    create: jest.Mock;
+    deleteOne: jest.Mock;
+  };
+  let challengeModel: { create: jest.Mock; findOneAndDelete: jest.Mock };
+
+  const userId = new Types.ObjectId();
+  const user = {
+    _id: userId,
+    email: 'test@example.com',
+    name: 'Test User',
+    isDeleted: false,
+  };
+
+  const mockPendingChallenge = (
+    ceremony: 'registration' | 'authentication',
+    overrides: Record<string, unknown> = {},
+  ) => {
+    challengeModel.findOneAndDelete.mockReturnValue({
+      exec: jest.fn().mockResolvedValue({
+        ceremony,
+        user: ceremony === 'registration' ? userId : undefined,
+        expiresAt: new Date(Date.now() + 60000),
+        ...overrides,
+      }),
+    });
+  };
+
+  beforeEach(async () => {
+    userModel = {
+      findById: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(user),
+      }),
+    };
+    credentialModel = {
+      find: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          exec: jest.fn().mockResolvedValue([]),
+        }),
+      }),
+      findOne: jest.fn(),
+      exists: jest.fn().mockResolvedValue(null),
+      countDocuments: jest.fn().mockResolvedValue(0),
+      create: jest.fn((doc: Record<string, unknown>) =>
+        Promise.resolve({
+          _id: new Types.ObjectId(),
+          createdAt: new Date(),
+          ...doc,
+        }),
+      ),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    challengeModel = {
+      create: jest.fn().mockResolvedValue(undefined),
+      findOneAndDelete: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        { provide: getModelToken(User.name), useValue: userModel },
+        {
+          provide: getModelToken(WebAuthnCredential.name),
+          useValue: credentialModel,
+        },
+        {
+          provide: getModelToken(PendingWebAuthnChallenge.name),
+          useValue: challengeModel,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (_key: string, defaultValue?: unknown) => defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebAuthnService>(WebAuthnService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('generateRegistrationOptions', () => {
+    it('should store a registration challenge for the user', async () => {
+      const options = await service.generateRegistrationOptions(
+        userId.toString(),
+      );
+
+      expect(options.rp).toEqual({ id: RP_ID, name: 'AuthBoiler' });
+      expect(options.challenge).toMatch(/^[\w-]{43}$/);
+      expect(options.pubKeyCredParams.map((p) => p.alg)).toContain(-7);
+      expect(options.authenticatorSelection.userVerification).toBe('required');
+      expect(challengeModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          challenge: options.challenge,
+          ceremony: 'registration',
+          user: userId,
+        }),
+      );
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    it('should store a passkey from a valid attestation', async () => {
+      const authenticator = createAuthenticator();
+      mockPendingChallenge('registration');
+
+      const result = await service.verifyRegistration(userId.toString(), {
+        name: 'Laptop',
+        credential: authenticator.register('challenge-1'),
+      });
+
+      expect(result.name).toBe('Laptop');
+      expect(credentialModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user: userId,
+          credentialId: authenticator.id,
+          publicKey: authenticator.coseKey.toString('base64url'),
+          algorithm: -7,
+          signCount: 0,
+          transports: ['internal'],
+        }),
+      );
+    });
+
+    it('should reject a response from another origin', async () => {
+      const authenticator = createAuthenticator();
+      mockPendingChallenge('registration');
+
+      await expect(
+        service.verifyRegistration(userId.toString(), {
+          credential: authenticator.register(
+            'challenge-1',
+            'https://evil.example',
+          ),
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.WEBAUTHN_VERIFICATION_FAILED });
+      expect(credentialModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown or used challenge', async () => {
+      const authenticator = createAuthenticator();
+
+      await expect(
+        service.verifyRegistration(userId.toString(), {
+          credential: authenticator.register('challenge-1'),
+        }),
+      ).rejects.toMatchObject({ code: ErrorCode.WEBAUTHN_CHALLENGE_INVALID });
+    });
+  });
+
+  describe('verifyAuthentication', () => {
+    const mockStoredCredential = (
+      authenticator: ReturnType<typeof createAuthenticator>,
+      signCount = 0,
+    ) => {
+      const stored = {
+        _id: new Types.ObjectId(),
+        user: userId,
+        credentialId: authenticator.id,
+        publicKey: authenticator.coseKey.toString('base64url'),
+        signCount,
+        lastUsedAt: undefined as Date | undefined,
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      credentialModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(stored),
+      });
+      return stored;
+    };
+
+    it('should return the owner for a valid assertion', async () => {
+      const authenticator = createAuthenticator();
+      const stored = mockStoredCredential(authenticator, 4);
+      mockPendingChallenge('authentication');
+
+      const result = await service.verifyAuthentication(
+        authenticator.assert('challenge-2', 5),
+      );
+
+      expect(result).toBe(user);
+      expect(stored.signCount).toBe(5);
+      expect(stored.lastUsedAt).toBeInstanceOf(Date);
+      expect(stored.save).toHaveBeenCalled();
+    });
+
+    it('should reject a tampered signature', async () => {
+      const authenticator = createAuthenticator();
+      mockStoredCredential(authenticator);
+      mockPendingChallenge('authentication');
+      const assertion = authenticator.assert('challenge-2', 1);
+      assertion.response.signature = createAuthenticator().assert(
+        'challenge-2',
+        1,
+      ).response.signature;
+
+      await expect(
+        service.verifyAuthentication(assertion),
+      ).rejects.toMatchObject({ code: ErrorCode.WEBAUTHN_VERIFICATION_FAILED });
+    });
+
+    it('should reject a signature counter that did not increase', async () => {
+      const authenticator = createAuthenticator();
+      const stored = mockStoredCredential(authenticator, 7);
+      mockPendingChallenge('authentication');
+
+      await expect(
+        service.verifyAuthentication(authenticator.assert('challenge-2', 7)),
+      ).rejects.toMatchObject({ code: ErrorCode.WEBAUTHN_VERIFICATION_FAILED });
+      expect(stored.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an assertion without user verification', async () => {
+      const authenticator = createAuthenticator();
+      const stored = mockStoredCredential(authenticator);
+      mockPendingChallenge('authentication');
+
+      await expect(
+        service.verifyAuthentication(
+          authenticator.assert('challenge-2', 1, false),
+        ),
+      ).rejects.toMatchObject({ code: ErrorCode.WEBAUTHN_VERIFICATION_FAILED });
+      expect(stored.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown passkeys', async () => {
+      const authenticator = createAuthenticator();
+      credentialModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+      mockPendingChallenge('authentication');
+
+      await expect(
+        service.verifyAuthentication(authenticator.assert('challenge-2', 1)),
+      ).rejects.toMatchObject({
+        code: ErrorCode.WEBAUTHN_CREDENTIAL_NOT_FOUND,
+      });
+    });
+  });
+
+  describe('deleteCredential', () => {
+    it('should only delete passkeys owned by the user', async () => {
+      credentialModel.findOne.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(null),
+      });
+
+      await expect(
+        service.deleteCredential(
+          userId.toString(),
+          new Types.ObjectId().toString(),
+        ),
+      ).rejects.toMatchObject({
+        code: ErrorCode.WEBAUTHN_CREDENTIAL_NOT_FOUND,
+      });
+      expect(credentialModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+});
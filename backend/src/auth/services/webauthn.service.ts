@@ -0,0 +1,557 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { User, UserDocument } from '../../user/schemas/user.schema';
+import {
+  WebAuthnCredential,
+  WebAuthnCredentialDocument,
+} from '../schemas/webauthn-credential.schema';
+import {
+  PendingWebAuthnChallenge,
+  PendingWebAuthnChallengeDocument,
+  WebAuthnCeremony,
+} from '../schemas/pending-webauthn-challenge.schema';
+import {
+  AuthenticationCredentialDto,
+  VerifyWebAuthnRegistrationDto,
+  WebAuthnCredentialResponseDto,
+} from '../dto/webauthn.dto';
+import {
+  AUTHENTICATOR_FLAGS,
+  COSE_ALGORITHMS,
+  base64UrlDecode,
+  base64UrlEncode,
+  coseToPublicKey,
+  decodeCbor,
+  parseAuthenticatorData,
+  verifyCoseSignature,
+} from '../utils/webauthn.utils';
+import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+/**
+ * Options for navigator.credentials.create(), binary values base64url-encoded
+ */
+export interface WebAuthnRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: 'none';
+  excludeCredentials: {
+    type: 'public-key';
+    id: string;
+    transports: string[];
+  }[];
+  authenticatorSelection: {
+    residentKey: 'required';
+    userVerification: 'required';
+  };
+}
+
+/**
+ * Options for navigator.credentials.get(), binary values base64url-encoded
+ */
+export interface WebAuthnAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: 'required';
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+/**
+ * WebAuthn (passkey) service.
+ * Runs registration and authentication ceremonies and manages stored credentials.
+ * Attestation statements are not verified: registration requests `none` attestation.
+ */
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+  private readonly rpId: string;
+  private readonly rpName: string;
+  private readonly origin: string;
+  private readonly challengeExpiresIn: number;
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(WebAuthnCredential.name)
+    private credentialModel: Model<WebAuthnCredentialDocument>,
+    @InjectModel(PendingWebAuthnChallenge.name)
+    private challengeModel: Model<PendingWebAuthnChallengeDocument>,
+    private readonly configService: ConfigService,
+  ) {
+    this.rpId = this.configService.get<string>('webauthn.rpId', 'localhost');
+    this.rpName = this.configService.get<string>(
+      'webauthn.rpName',
+      'AuthBoiler',
+    );
+    this.origin = this.configService.get<string>(
+      'webauthn.origin',
+      'http://localhost:3000',
+    );
+    this.challengeExpiresIn = this.configService.get<number>(
+      'webauthn.challengeExpiresIn',
+      300000,
+    );
+  }
+
+  /**
+   * Start registering a passkey for the signed-in user.
+   * @param userId - The user's ID
+   * @returns Options for navigator.credentials.create()
+   */
+  async generateRegistrationOptions(
+    userId: string,
+  ): Promise<WebAuthnRegistrationOptions> {
+    const user = await this.findUser(userId);
+    const existing = await this.credentialModel
+      .find({ user: user._id })
+      .select('credentialId transports')
+      .exec();
+
+    const challenge = await this.createChallenge('registration', user._id);
+
+    return {
+      challenge,
+      rp: { id: this.rpId, name: this.rpName },
+      user: {
+        id: base64UrlEncode(Buffer.from(user._id.toString())),
+        name: user.email,
+        displayName: user.name,
+      },
+      pubKeyCredParams: [
+        COSE_ALGORITHMS.ES256,
+        COSE_ALGORITHMS.EdDSA,
+        COSE_ALGORITHMS.RS256,
+      ].map((alg) => ({ type: 'public-key' as const, alg })),
+      timeout: this.challengeExpiresIn,
+      attestation: 'none',
+      excludeCredentials: existing.map((credential) => ({
+        type: 'public-key' as const,
+        id: credential.credentialId,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'required',
+      },
+    };
+  }
+
+  /**
+   * Finish registration by verifying the authenticator's attestation response.
+   * @param userId - The user's ID
+   * @param dto - Credential returned by the browser and an optional name
+   * @returns The stored passkey
+   */
+  async verifyRegistration(
+    userId: string,
+    dto: VerifyWebAuthnRegistrationDto,
+  ): Promise<WebAuthnCredentialResponseDto> {
+    const user = await this.findUser(userId);
+    const { response } = dto.credential;
+    const clientDataJSON = base64UrlDecode(response.clientDataJSON);
+    const clientData = this.parseClientData(clientDataJSON, 'webauthn.create');
+
+    await this.consumeChallenge(clientData.challenge, 'registration', user._id);
+
+    const authData = this.verifyAttestation(response.attestationObject);
+    const attested = authData.attestedCredentialData!;
+    const credentialId = base64UrlEncode(attested.credentialId);
+
+    if (credentialId !== dto.credential.id) {
+      this.fail('Credential ID does not match attested credential data');
+    }
+
+    let algorithm: number;
+    try {
+      ({ algorithm } = coseToPublicKey(attested.publicKey));
+    } catch (error) {
+      this.fail(error instanceof Error ? error.message : 'Invalid public key');
+    }
+
+    if (await this.credentialModel.exists({ credentialId })) {
+      throw new AppException(
+        ErrorCode.WEBAUTHN_CREDENTIAL_ALREADY_REGISTERED,
+        'This passkey is already registered',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const count = await this.credentialModel.countDocuments({
+      user: user._id,
+    });
+
+    const credential = await this.credentialModel.create({
+      user: user._id,
+      credentialId,
+      publicKey: base64UrlEncode(attested.publicKey),
+      algorithm,
+      signCount: authData.signCount,
+      transports: response.transports ?? [],
+      name: dto.name?.trim() || `Passkey ${count + 1}`,
+      backedUp: !!(authData.flags & AUTHENTICATOR_FLAGS.BACKED_UP),
+    });
+
+    this.logger.log(`Passkey registered for user: ${user.email}`);
+
+    return this.mapToResponseDto(credential);
+  }
+
+  /**
+   * Start a usernameless passkey sign-in.
+   * @returns Options for navigator.credentials.get()
+   */
+  async generateAuthenticationOptions(): Promise<WebAuthnAuthenticationOptions> {
+    const challenge = await this.createChallenge('authentication');
+
+    return {
+      challenge,
+      rpId: this.rpId,
+      timeout: this.challengeExpiresIn,
+      userVerification: 'required',
+    };
+  }
+
+  /**
+   * Verify a passkey assertion.
+   * @param credential - Assertion returned by the browser
+   * @returns The user who owns the passkey
+   */
+  async verifyAuthentication(
+    credential: AuthenticationCredentialDto,
+  ): Promise<UserDocument> {
+    const { response } = credential;
+    const clientDataJSON = base64UrlDecode(response.clientDataJSON);
+    const clientData = this.parseClientData(clientDataJSON, 'webauthn.get');
+
+    await this.consumeChallenge(clientData.challenge, 'authentication');
+
+    const stored = await this.credentialModel
+      .findOne({ credentialId: credential.id })
+      .exec();
+
+    if (!stored) {
+      throw new AppException(
+        ErrorCode.WEBAUTHN_CREDENTIAL_NOT_FOUND,
+        'This passkey is not registered',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    if (
+      response.userHandle &&
+      base64UrlDecode(response.userHandle).toString() !== stored.user.toString()
+    ) {
+      this.fail('User handle does not match the passkey owner');
+    }
+
+    const authenticatorData = base64UrlDecode(response.authenticatorData);
+    const authData = this.parseAuthData(authenticatorData);
+
+    const signedData = Buffer.concat([
+      authenticatorData,
+      crypto.createHash('sha256').update(clientDataJSON).digest(),
+    ]);
+
+    let isSignatureValid = false;
+    try {
+      isSignatureValid = verifyCoseSignature(
+        base64UrlDecode(stored.publicKey),
+        signedData,
+        base64UrlDecode(response.signature),
+      );
+    } catch {
+      isSignatureValid = false;
+    }
+
+    if (!isSignatureValid) {
+      this.fail('Invalid passkey signature');
+    }
+
+    // A counter that does not increase suggests a cloned authenticator.
+    // Authenticators that do not implement counters always report 0.
+    if (
+      (authData.signCount > 0 || stored.signCount > 0) &&
+      authData.signCount <= stored.signCount
+    ) {
+      this.logger.warn(
+        `Security event: passkey signature counter did not increase ` +
+          `(credential ${stored._id.toString()}, user ${stored.user.toString()})`,
+      );
+      this.fail('Passkey signature counter did not increase');
+    }
+
+    const user = await this.userModel.findById(stored.user).exec();
+
+    if (!user || user.isDeleted) {
+      throw new AppException(
+        ErrorCode.WEBAUTHN_CREDENTIAL_NOT_FOUND,
+        'This passkey is not registered',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    stored.signCount = authData.signCount;
+    stored.lastUsedAt = new Date();
+    stored.backedUp = !!(authData.flags & AUTHENTICATOR_FLAGS.BACKED_UP);
+    await stored.save();
+
+    return user;
+  }
+
+  /**
+   * List a user's passkeys, most recently created first.
+   * @param userId - The user's ID
+   */
+  async listCredentials(
+    userId: string,
+  ): Promise<WebAuthnCredentialResponseDto[]> {
+    const user = await this.findUser(userId);
+    const credentials = await this.credentialModel
+      .find({ user: user._id })
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return credentials.map((credential) => this.mapToResponseDto(credential));
+  }
+
+  /**
+   * Rename one of the user's passkeys.
+   * @param userId - The user's ID
+   * @param credentialId - The passkey document ID
+   * @param name - New name
+   */
+  async renameCredential(
+    userId: string,
+    credentialId: string,
+    name: string,
+  ): Promise<WebAuthnCredentialResponseDto> {
+    const credential = await this.findOwnedCredential(userId, credentialId);
+
+    credential.name = name.trim();
+    await credential.save();
+
+    return this.mapToResponseDto(credential);
+  }
+
+  /**
+   * Remove one of the user's passkeys.
+   * The last passkey can be removed too: the user can still sign in with
+   * an emailed code even without a password or linked provider.
+   * @param userId - The user's ID
+   * @param credentialId - The passkey document ID
+   */
+  async deleteCredential(userId: string, credentialId: string): Promise<void> {
+    const credential = await this.findOwnedCredential(userId, credentialId);
+
+    await this.credentialModel.deleteOne({ _id: credential._id });
+
+    this.logger.log(`Passkey removed for user: ${userId}`);
+  }
+
+  private async createChallenge(
+    ceremony: WebAuthnCeremony,
+    user?: Types.ObjectId,
+  ): Promise<string> {
+    const challenge = base64UrlEncode(crypto.randomBytes(32));
+
+    await this.challengeModel.create({
+      challenge,
+      ceremony,
+      user,
+      expiresAt: new Date(Date.now() + this.challengeExpiresIn),
+    });
+
+    return challenge;
+  }
+
+  /**
+   * Delete a pending challenge so it cannot be replayed.
+   * @throws AppException if the challenge is unknown, expired or for another user
+   */
+  private async consumeChallenge(
+    challenge: string,
+    ceremony: WebAuthnCeremony,
+    user?: Types.ObjectId,
+  ): Promise<void> {
+    const pending = await this.challengeModel
+      .findOneAndDelete({ challenge, ceremony })
+      .exec();
+
+    const isValid =
+      !!pending &&
+      pending.expiresAt > new Date() &&
+      (!user || pending.user?.toString() === user.toString());
+
+    if (!isValid) {
+      throw new AppException(
+        ErrorCode.WEBAUTHN_CHALLENGE_INVALID,
+        'Passkey request is invalid or has expired. Please try again.',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  private parseClientData(clientDataJSON: Buffer, type: string): ClientData {
+    let clientData: ClientData;
+
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8')) as ClientData;
+    } catch {
+      this.fail('Malformed client data');
+    }
+
+    if (clientData.type !== type) {
+      this.fail(`Unexpected client data type "${clientData.type}"`);
+    }
+
+    if (clientData.origin !== this.origin) {
+      this.fail(`Unexpected origin "${clientData.origin}"`);
+    }
+
+    return clientData;
+  }
+
+  /**
+   * Decode the attestation object and check its authenticator data.
+   */
+  private verifyAttestation(attestationObject: string) {
+    let authData: Buffer;
+
+    try {
+      const { value } = decodeCbor(base64UrlDecode(attestationObject));
+      const data = value instanceof Map ? value.get('authData') : undefined;
+
+      if (!Buffer.isBuffer(data)) {
+        throw new Error('Missing authenticator data');
+      }
+
+      authData = data;
+    } catch {
+      this.fail('Malformed attestation object');
+    }
+
+    const parsed = this.parseAuthData(authData);
+
+    if (!parsed.attestedCredentialData) {
+      this.fail('Attestation is missing credential data');
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Parse authenticator data and check the RP ID hash, user presence and
+   * user verification.
+   */
+  private parseAuthData(data: Buffer) {
+    let parsed: ReturnType<typeof parseAuthenticatorData>;
+
+    try {
+      parsed = parseAuthenticatorData(data);
+    } catch {
+      this.fail('Malformed authenticator data');
+    }
+
+    const expectedRpIdHash = crypto
+      .createHash('sha256')
+      .update(this.rpId)
+      .digest();
+
+    if (!parsed.rpIdHash.equals(expectedRpIdHash)) {
+      this.fail('Passkey was created for a different site');
+    }
+
+    if (!(parsed.flags & AUTHENTICATOR_FLAGS.USER_PRESENT)) {
+      this.fail('User presence was not confirmed');
+    }
+
+    // Passkey sign-in skips the TOTP step, so a tap alone is not enough
+    if (!(parsed.flags & AUTHENTICATOR_FLAGS.USER_VERIFIED)) {
+      this.fail('User verification was not performed');
+    }
+
+    return parsed;
+  }
+
+  private fail(reason: string): never {
+    this.logger.warn(`Passkey verification failed: ${reason}`);
+    throw new AppException(
+      ErrorCode.WEBAUTHN_VERIFICATION_FAILED,
+      'Passkey verification failed',
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+
+  private async findOwnedCredential(
+    userId: string,
+    credentialId: string,
+  ): Promise<WebAuthnCredentialDocument> {
+    if (!Types.ObjectId.isValid(credentialId)) {
+      throw new AppException(
+        ErrorCode.INVALID_INPUT,
+        'Invalid passkey ID format',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const credential = await this.credentialModel
+      .findOne({ _id: credentialId, user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!credential) {
+      throw new AppException(
+        ErrorCode.WEBAUTHN_CREDENTIAL_NOT_FOUND,
+        'Passkey not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return credential;
+  }
+
+  private async findUser(userId: string): Promise<UserDocument> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppException(
+        ErrorCode.INVALID_INPUT,
+        'Invalid user ID format',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const user = await this.userModel.findById(userId).exec();
+
+    if (!user || user.isDeleted) {
+      throw new AppException(
+        ErrorCode.USER_NOT_FOUND,
+        'User not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return user;
+  }
+
+  private mapToResponseDto(
+    credential: WebAuthnCredentialDocument,
+  ): WebAuthnCredentialResponseDto {
+    return {
+      id: credential._id.toString(),
+      name: credential.name,
+      transports: credential.transports,
+      backedUp: credential.backedUp,
+      createdAt: credential.createdAt,
+      lastUsedAt: credential.lastUsedAt,
+    };
+  }
+}
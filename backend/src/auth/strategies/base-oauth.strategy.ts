@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
 import {
   IOAuthStrategy,
   OAuthConfig,
   OAuthUserProfile,
+  PkcePair,
 } from './oauth.strategy.interface';
 
 /**
@@ -21,7 +23,7 @@ export abstract class BaseOAuthStrategy implements IOAuthStrategy {
     protected readonly providerName: string,
   ) {
     this._isEnabled = this.configService.get<boolean>(
-      `oauth.${this.providerName}.enabled`,
+      `${this.configKey}.enabled`,
       false,
     );
     this.config = this._isEnabled ? this.loadConfig() : null;
@@ -47,19 +49,27 @@ export abstract class BaseOAuthStrategy implements IOAuthStrategy {
     return this.providerName;
   }
 
+  /**
+   * Configuration path holding this provider's settings
+   * Override when the provider is not configured under oauth.<provider>
+   */
+  protected get configKey(): string {
+    return `oauth.${this.providerName}`;
+  }
+
   /**
    * Load OAuth configuration from environment variables
    * Only called when provider is enabled
    */
   protected loadConfig(): OAuthConfig {
     const clientId = this.configService.get<string>(
-      `oauth.${this.providerName}.clientId`,
+      `${this.configKey}.clientId`,
     );
     const clientSecret = this.configService.get<string>(
-      `oauth.${this.providerName}.clientSecret`,
+      `${this.configKey}.clientSecret`,
     );
     const callbackUrl = this.configService.get<string>(
-      `oauth.${this.providerName}.callbackUrl`,
+      `${this.configKey}.callbackUrl`,
     );
     const scopes = this.getScopes();
 
@@ -103,38 +113,57 @@ export abstract class BaseOAuthStrategy implements IOAuthStrategy {
   /**
    * Get the authorization URL for the OAuth provider
    * @param state - Optional state parameter for CSRF protection
+   * @param codeChallenge - Optional PKCE code challenge (S256)
    * @returns Authorization URL
    */
-  abstract getAuthorizationUrl(state?: string): string;
+  abstract getAuthorizationUrl(
+    state?: string,
+    codeChallenge?: string,
+  ): string | Promise<string>;
 
   /**
    * Exchange authorization code for user profile
    * @param code - Authorization code from OAuth callback
-   * @param state - Optional state parameter for CSRF protection
+   * @param codeVerifier - Optional PKCE code verifier matching the challenge
    * @returns User profile from OAuth provider
    */
   abstract getUserProfile(
     code: string,
-    state?: string,
+    codeVerifier?: string,
   ): Promise<OAuthUserProfile>;
 
   /**
-   * Generate a random state string for CSRF protection
+   * Generate a PKCE code verifier and its S256 code challenge (RFC 7636)
    */
-  protected generateState(): string {
-    return (
-      Math.random().toString(36).substring(2, 15) +
-      Math.random().toString(36).substring(2, 15)
-    );
+  generatePkcePair(): PkcePair {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    return { codeVerifier, codeChallenge };
   }
 
   /**
-   * Validate state parameter for CSRF protection
-   * @param state - State from callback
-   * @param expectedState - Expected state from session
+   * Add state and PKCE parameters to an authorization request
+   * @param params - Authorization URL query parameters
+   * @param state - Optional state parameter for CSRF protection
+   * @param codeChallenge - Optional PKCE code challenge (S256)
    */
-  protected validateState(state: string, expectedState: string): boolean {
-    return state === expectedState;
+  protected appendAuthorizationParams(
+    params: URLSearchParams,
+    state?: string,
+    codeChallenge?: string,
+  ): void {
+    if (state) {
+      params.append('state', state);
+    }
+
+    if (codeChallenge) {
+      params.append('code_challenge', codeChallenge);
+      params.append('code_challenge_method', 'S256');
+    }
   }
 
   /**
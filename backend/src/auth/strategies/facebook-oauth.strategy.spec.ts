@@ -6,7 +6,8 @@ describe('FacebookOAuthStrategy', () => {
   let strategy: FacebookOAuthStrategy;
   let configService: jest.Mocked<ConfigService>;
 
-  const mockConfig: Record<string, string> = {
+  const mockConfig: Record<string, string | boolean> = {
+    'oauth.facebook.enabled': true,
     'oauth.facebook.clientId': 'test-app-id',
     'oauth.facebook.clientSecret': 'test-app-secret',
     'oauth.facebook.callbackUrl':
@@ -101,7 +102,10 @@ describe('FacebookOAuthStrategy', () => {
           json: () => Promise.resolve(mockUserProfile),
         } as Response);
 
-      const profile = await strategy.getUserProfile('test-code', 'test-state');
+      const profile = await strategy.getUserProfile(
+        'test-code',
+        'test-verifier',
+      );
 
       expect(profile).toEqual({
         providerId: '123456789',
@@ -111,6 +115,10 @@ describe('FacebookOAuthStrategy', () => {
         emailVerified: true,
       });
 
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('code_verifier=test-verifier'),
+        expect.anything(),
+      );
       expect(global.fetch).toHaveBeenCalledWith(
         expect.stringContaining(
           'https://graph.facebook.com/v18.0/oauth/access_token',
@@ -147,7 +155,10 @@ describe('FacebookOAuthStrategy', () => {
           json: () => Promise.resolve(mockUserProfile),
         } as Response);
 
-      const profile = await strategy.getUserProfile('test-code', 'test-state');
+      const profile = await strategy.getUserProfile(
+        'test-code',
+        'test-verifier',
+      );
 
       expect(profile.picture).toBeUndefined();
     });
@@ -175,7 +186,7 @@ describe('FacebookOAuthStrategy', () => {
         } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow('No email found on Facebook account');
     });
 
@@ -188,7 +199,7 @@ describe('FacebookOAuthStrategy', () => {
       } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow();
     });
 
@@ -207,7 +218,7 @@ describe('FacebookOAuthStrategy', () => {
       } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow('Facebook OAuth error: Invalid verification code');
     });
 
@@ -231,7 +242,7 @@ describe('FacebookOAuthStrategy', () => {
         } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow();
     });
 
@@ -261,7 +272,7 @@ describe('FacebookOAuthStrategy', () => {
         } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow('Facebook API error: Session has expired');
     });
   });
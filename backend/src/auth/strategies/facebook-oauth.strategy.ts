@@ -51,9 +51,10 @@ export class FacebookOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Get the authorization URL for Facebook OAuth
    * @param state - Optional state parameter for CSRF protection
+   * @param codeChallenge - Optional PKCE code challenge (S256)
    * @returns Authorization URL
    */
-  getAuthorizationUrl(state?: string): string {
+  getAuthorizationUrl(state?: string, codeChallenge?: string): string {
     const config = this.ensureEnabled();
     const params = new URLSearchParams({
       client_id: config.clientId,
@@ -62,9 +63,7 @@ export class FacebookOAuthStrategy extends BaseOAuthStrategy {
       response_type: 'code',
     });
 
-    if (state) {
-      params.append('state', state);
-    }
+    this.appendAuthorizationParams(params, state, codeChallenge);
 
     return `${this.AUTH_URL}?${params.toString()}`;
   }
@@ -72,16 +71,16 @@ export class FacebookOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Exchange authorization code for user profile
    * @param code - Authorization code from Facebook OAuth callback
-   * @param _state - Optional state parameter for CSRF protection (unused)
+   * @param codeVerifier - Optional PKCE code verifier matching the challenge
    * @returns User profile from Facebook
    */
   async getUserProfile(
     code: string,
-    _state?: string,
+    codeVerifier?: string,
   ): Promise<OAuthUserProfile> {
     try {
       // Exchange authorization code for access token
-      const tokenResponse = await this.exchangeCodeForToken(code);
+      const tokenResponse = await this.exchangeCodeForToken(code, codeVerifier);
 
       this.logger.log('Successfully obtained access token for Facebook OAuth');
 
@@ -114,10 +113,12 @@ export class FacebookOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Exchange authorization code for access token
    * @param code - Authorization code from Facebook
+   * @param codeVerifier - Optional PKCE code verifier
    * @returns Token response
    */
   private async exchangeCodeForToken(
     code: string,
+    codeVerifier?: string,
   ): Promise<FacebookTokenResponse> {
     const config = this.ensureEnabled();
     const params = new URLSearchParams({
@@ -127,6 +128,10 @@ export class FacebookOAuthStrategy extends BaseOAuthStrategy {
       code,
     });
 
+    if (codeVerifier) {
+      params.append('code_verifier', codeVerifier);
+    }
+
     const response = await fetch(`${this.TOKEN_URL}?${params.toString()}`, {
       method: 'GET',
       headers: {
@@ -6,7 +6,8 @@ describe('GitHubOAuthStrategy', () => {
   let strategy: GitHubOAuthStrategy;
   let configService: jest.Mocked<ConfigService>;
 
-  const mockConfig: Record<string, string> = {
+  const mockConfig: Record<string, string | boolean> = {
+    'oauth.github.enabled': true,
     'oauth.github.clientId': 'test-client-id',
     'oauth.github.clientSecret': 'test-client-secret',
     'oauth.github.callbackUrl':
@@ -117,7 +118,10 @@ describe('GitHubOAuthStrategy', () => {
           json: () => Promise.resolve(mockEmails),
         } as Response);
 
-      const profile = await strategy.getUserProfile('test-code', 'test-state');
+      const profile = await strategy.getUserProfile(
+        'test-code',
+        'test-verifier',
+      );
 
       expect(profile).toEqual({
         providerId: '12345',
@@ -135,6 +139,9 @@ describe('GitHubOAuthStrategy', () => {
             'Content-Type': 'application/json',
             Accept: 'application/json',
           },
+          body: expect.stringContaining(
+            '"code_verifier":"test-verifier"',
+          ) as string,
         }),
       );
     });
@@ -177,7 +184,10 @@ describe('GitHubOAuthStrategy', () => {
           json: () => Promise.resolve(mockEmails),
         } as Response);
 
-      const profile = await strategy.getUserProfile('test-code', 'test-state');
+      const profile = await strategy.getUserProfile(
+        'test-code',
+        'test-verifier',
+      );
 
       expect(profile.name).toBe('testuser');
     });
@@ -221,7 +231,7 @@ describe('GitHubOAuthStrategy', () => {
         } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow('No verified email found on GitHub account');
     });
 
@@ -234,7 +244,7 @@ describe('GitHubOAuthStrategy', () => {
       } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow();
     });
 
@@ -250,7 +260,7 @@ describe('GitHubOAuthStrategy', () => {
       } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow('GitHub OAuth error: bad_verification_code');
     });
 
@@ -274,7 +284,7 @@ describe('GitHubOAuthStrategy', () => {
         } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow();
     });
 
@@ -316,7 +326,10 @@ describe('GitHubOAuthStrategy', () => {
           json: () => Promise.resolve(mockEmails),
         } as Response);
 
-      const profile = await strategy.getUserProfile('test-code', 'test-state');
+      const profile = await strategy.getUserProfile(
+        'test-code',
+        'test-verifier',
+      );
 
       expect(profile.email).toBe('backup@example.com');
     });
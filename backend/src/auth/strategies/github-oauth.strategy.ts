@@ -58,9 +58,10 @@ export class GitHubOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Get the authorization URL for GitHub OAuth
    * @param state - Optional state parameter for CSRF protection
+   * @param codeChallenge - Optional PKCE code challenge (S256)
    * @returns Authorization URL
    */
-  getAuthorizationUrl(state?: string): string {
+  getAuthorizationUrl(state?: string, codeChallenge?: string): string {
     const config = this.ensureEnabled();
     const params = new URLSearchParams({
       client_id: config.clientId,
@@ -68,9 +69,7 @@ export class GitHubOAuthStrategy extends BaseOAuthStrategy {
       scope: config.scopes.join(' '),
     });
 
-    if (state) {
-      params.append('state', state);
-    }
+    this.appendAuthorizationParams(params, state, codeChallenge);
 
     return `${this.AUTH_URL}?${params.toString()}`;
   }
@@ -78,16 +77,16 @@ export class GitHubOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Exchange authorization code for user profile
    * @param code - Authorization code from GitHub OAuth callback
-   * @param _state - Optional state parameter for CSRF protection (unused in GitHub implementation)
+   * @param codeVerifier - Optional PKCE code verifier matching the challenge
    * @returns User profile from GitHub
    */
   async getUserProfile(
     code: string,
-    _state?: string,
+    codeVerifier?: string,
   ): Promise<OAuthUserProfile> {
     try {
       // Exchange authorization code for access token
-      const tokenResponse = await this.exchangeCodeForToken(code);
+      const tokenResponse = await this.exchangeCodeForToken(code, codeVerifier);
 
       this.logger.log('Successfully obtained access token for GitHub OAuth');
 
@@ -129,10 +128,12 @@ export class GitHubOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Exchange authorization code for access token
    * @param code - Authorization code from GitHub
+   * @param codeVerifier - Optional PKCE code verifier
    * @returns Token response
    */
   private async exchangeCodeForToken(
     code: string,
+    codeVerifier?: string,
   ): Promise<GitHubTokenResponse> {
     const config = this.ensureEnabled();
     const response = await fetch(this.TOKEN_URL, {
@@ -145,6 +146,7 @@ export class GitHubOAuthStrategy extends BaseOAuthStrategy {
         client_id: config.clientId,
         client_secret: config.clientSecret,
         code,
+        ...(codeVerifier && { code_verifier: codeVerifier }),
       }),
     });
 
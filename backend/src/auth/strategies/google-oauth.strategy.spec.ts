@@ -1,12 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import { GoogleOAuthStrategy } from './google-oauth.strategy';
 
 describe('GoogleOAuthStrategy', () => {
   let strategy: GoogleOAuthStrategy;
   let configService: jest.Mocked<ConfigService>;
 
-  const mockConfig: Record<string, string> = {
+  const mockConfig: Record<string, string | boolean> = {
+    'oauth.google.enabled': true,
     'oauth.google.clientId': 'test-client-id',
     'oauth.google.clientSecret': 'test-client-secret',
     'oauth.google.callbackUrl':
@@ -57,6 +59,13 @@ describe('GoogleOAuthStrategy', () => {
       expect(url).toContain('state=test-state');
     });
 
+    it('should add an S256 PKCE challenge when given', () => {
+      const url = strategy.getAuthorizationUrl('test-state', 'test-challenge');
+
+      expect(url).toContain('code_challenge=test-challenge');
+      expect(url).toContain('code_challenge_method=S256');
+    });
+
     it('should generate authorization URL without state', () => {
       const url = strategy.getAuthorizationUrl();
 
@@ -104,7 +113,10 @@ describe('GoogleOAuthStrategy', () => {
           json: () => Promise.resolve(mockUserProfile),
         } as Response);
 
-      const profile = await strategy.getUserProfile('test-code', 'test-state');
+      const profile = await strategy.getUserProfile(
+        'test-code',
+        'test-verifier',
+      );
 
       expect(profile).toEqual({
         providerId: 'google-123',
@@ -123,6 +135,9 @@ describe('GoogleOAuthStrategy', () => {
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded',
           },
+          body: expect.stringContaining(
+            'code_verifier=test-verifier',
+          ) as string,
         }),
       );
     });
@@ -156,7 +171,7 @@ describe('GoogleOAuthStrategy', () => {
         } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow('Google email is not verified');
     });
 
@@ -168,7 +183,7 @@ describe('GoogleOAuthStrategy', () => {
       } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow();
     });
 
@@ -191,11 +206,28 @@ describe('GoogleOAuthStrategy', () => {
         } as Response);
 
       await expect(
-        strategy.getUserProfile('test-code', 'test-state'),
+        strategy.getUserProfile('test-code', 'test-verifier'),
       ).rejects.toThrow();
     });
   });
 
+  describe('generatePkcePair', () => {
+    it('should derive the challenge as base64url SHA-256 of the verifier', () => {
+      const { codeVerifier, codeChallenge } = strategy.generatePkcePair();
+
+      expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(codeChallenge).toBe(
+        createHash('sha256').update(codeVerifier).digest('base64url'),
+      );
+    });
+
+    it('should generate a new verifier every time', () => {
+      expect(strategy.generatePkcePair().codeVerifier).not.toBe(
+        strategy.generatePkcePair().codeVerifier,
+      );
+    });
+  });
+
   describe('getScopes', () => {
     it('should return correct OAuth scopes', () => {
       // Access protected method for testing
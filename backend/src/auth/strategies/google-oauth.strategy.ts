@@ -54,9 +54,10 @@ export class GoogleOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Get the authorization URL for Google OAuth
    * @param state - Optional state parameter for CSRF protection
+   * @param codeChallenge - Optional PKCE code challenge (S256)
    * @returns Authorization URL
    */
-  getAuthorizationUrl(state?: string): string {
+  getAuthorizationUrl(state?: string, codeChallenge?: string): string {
     const config = this.ensureEnabled();
     const params = new URLSearchParams({
       client_id: config.clientId,
@@ -67,9 +68,7 @@ export class GoogleOAuthStrategy extends BaseOAuthStrategy {
       prompt: 'consent',
     });
 
-    if (state) {
-      params.append('state', state);
-    }
+    this.appendAuthorizationParams(params, state, codeChallenge);
 
     return `${this.AUTH_URL}?${params.toString()}`;
   }
@@ -77,12 +76,12 @@ export class GoogleOAuthStrategy extends BaseOAuthStrategy {
   /**
    * Exchange authorization code for user profile
    * @param code - Authorization code from Google OAuth callback
-   * @param _state - Optional state parameter for CSRF protection (unused in Google implementation)
+   * @param codeVerifier - Optional PKCE code verifier matching the challenge
    * @returns User profile from Google
    */
   async getUserProfile(
     code: string,
-    _state?: string,
+    codeVerifier?: string,
   ): Promise<OAuthUserProfile> {
     const config = this.ensureEnabled();
     try {
@@ -95,6 +94,7 @@ export class GoogleOAuthStrategy extends BaseOAuthStrategy {
           client_secret: config.clientSecret,
           redirect_uri: config.callbackUrl,
           grant_type: 'authorization_code',
+          ...(codeVerifier && { code_verifier: codeVerifier }),
         },
       );
 
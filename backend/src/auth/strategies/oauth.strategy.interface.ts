@@ -16,17 +16,45 @@ export interface IOAuthStrategy {
   /**
    * Get the authorization URL for the OAuth provider
    * @param state - Optional state parameter for CSRF protection
-   * @returns Authorization URL
+   * @param codeChallenge - Optional PKCE code challenge (S256)
+   * @returns Authorization URL (async for providers that use discovery)
    */
-  getAuthorizationUrl(state?: string): string;
+  getAuthorizationUrl(
+    state?: string,
+    codeChallenge?: string,
+  ): string | Promise<string>;
 
   /**
    * Exchange authorization code for user profile
    * @param code - Authorization code from OAuth callback
-   * @param state - Optional state parameter for CSRF protection
+   * @param codeVerifier - Optional PKCE code verifier matching the challenge
    * @returns User profile from OAuth provider
    */
-  getUserProfile(code: string, state?: string): Promise<OAuthUserProfile>;
+  getUserProfile(
+    code: string,
+    codeVerifier?: string,
+  ): Promise<OAuthUserProfile>;
+
+  /**
+   * Generate a PKCE code verifier and its code challenge
+   */
+  generatePkcePair(): PkcePair;
+}
+
+/**
+ * PKCE Pair Interface
+ * Proof Key for Code Exchange values for one authorization request
+ */
+export interface PkcePair {
+  /**
+   * Random secret kept on the server and sent with the token request
+   */
+  codeVerifier: string;
+
+  /**
+   * Base64url SHA-256 of the verifier, sent with the authorization request
+   */
+  codeChallenge: string;
 }
 
 /**
@@ -65,9 +93,14 @@ export interface OAuthUserProfile {
   picture?: string;
 
   /**
-   * Email verified status (optional, defaults to true for OAuth)
+   * Email verified status (an unverified email is never linked to an existing account)
    */
   emailVerified?: boolean;
+
+  /**
+   * Role assigned by the identity provider (optional, SAML role mapping)
+   */
+  role?: string;
 }
 
 /**
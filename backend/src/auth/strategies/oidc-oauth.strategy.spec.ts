@@ -0,0 +1,402 @@
+import { ConfigService } from '@nestjs/config';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { OidcOAuthStrategy, createOidcStrategies } from './oidc-oauth.strategy';
+
+describe('OidcOAuthStrategy', () => {
+  const issuer = 'https://sso.example.com/realms/main';
+  const discoveryUrl = `${issuer}/.well-known/openid-configuration`;
+  const jwksUri = `${issuer}/protocol/openid-connect/certs`;
+  const tokenEndpoint = `${issuer}/protocol/openid-connect/token`;
+  const userInfoEndpoint = `${issuer}/protocol/openid-connect/userinfo`;
+
+  const discovery = {
+    issuer,
+    authorization_endpoint: `${issuer}/protocol/openid-connect/auth`,
+    token_endpoint: tokenEndpoint,
+    userinfo_endpoint: userInfoEndpoint,
+    jwks_uri: jwksUri,
+  };
+
+  // Locally generated signing keys standing in for the provider's JWKS
+  const rsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ecKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const otherRsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  const toJwk = (key: KeyObject, kid: string) => ({
+    ...key.export({ format: 'jwk' }),
+    kid,
+    use: 'sig',
+  });
+
+  let jwks: { keys: Record<string, unknown>[] };
+  let mockConfig: Record<string, unknown>;
+  let configService: ConfigService;
+  let strategy: OidcOAuthStrategy;
+  let fetchMock: jest.Mock<Promise<Response>, [string, RequestInit?]>;
+  let tokenResponse: Record<string, unknown>;
+  let userInfo: Record<string, unknown>;
+
+  const signIdToken = (
+    claims: Record<string, unknown>,
+    options: {
+      alg?: 'RS256' | 'ES256';
+      kid?: string;
+      privateKey?: KeyObject;
+    } = {},
+  ): string => {
+    const alg = options.alg ?? 'RS256';
+    const header = { alg, kid: options.kid ?? 'rsa-1', typ: 'JWT' };
+    const encode = (value: object) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode(header)}.${encode(claims)}`;
+    const signature = sign('sha256', Buffer.from(signingInput), {
+      key:
+        options.privateKey ??
+        (alg === 'ES256' ? ecKeys.privateKey : rsaKeys.privateKey),
+      dsaEncoding: 'ieee-p1363',
+    });
+    return `${signingInput}.${signature.toString('base64url')}`;
+  };
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const validClaims = (overrides: Record<string, unknown> = {}) => ({
+    iss: issuer,
+    aud: 'test-client-id',
+    sub: 'subject-123',
+    iat: now(),
+    exp: now() + 300,
+    email: 'Jane@Example.com',
+    email_verified: true,
+    name: 'Jane Doe',
+    given_name: 'Jane',
+    family_name: 'Doe',
+    picture: 'https://example.com/jane.png',
+    ...overrides,
+  });
+
+  const jsonResponse = (body: unknown, ok = true) =>
+    ({
+      ok,
+      status: ok ? 200 : 500,
+      statusText: ok ? 'OK' : 'Internal Server Error',
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    }) as Response;
+
+  beforeEach(() => {
+    jwks = {
+      keys: [
+        toJwk(rsaKeys.publicKey, 'rsa-1'),
+        toJwk(ecKeys.publicKey, 'ec-1'),
+      ],
+    };
+    tokenResponse = {
+      access_token: 'access-token',
+      token_type: 'Bearer',
+      id_token: signIdToken(validClaims()),
+    };
+    userInfo = { sub: 'subject-123', email: 'jane@example.com' };
+
+    mockConfig = {
+      'oauth.oidc': { keycloak: {} },
+      'oauth.oidc.keycloak.enabled': true,
+      'oauth.oidc.keycloak.issuer': issuer,
+      'oauth.oidc.keycloak.clientId': 'test-client-id',
+      'oauth.oidc.keycloak.clientSecret': 'test-client-secret',
+      'oauth.oidc.keycloak.callbackUrl':
+        'http://localhost:3000/api/auth/oauth/callback/keycloak',
+      'oauth.oidc.keycloak.displayName': 'Company SSO',
+      'oauth.oidc.keycloak.scopes': ['email', 'profile'],
+    };
+    configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) =>
+        key in mockConfig ? mockConfig[key] : defaultValue,
+      ),
+    } as unknown as ConfigService;
+
+    fetchMock = jest.fn((url: string) => {
+      switch (url) {
+        case discoveryUrl:
+          return Promise.resolve(jsonResponse(discovery));
+        case jwksUri:
+          return Promise.resolve(jsonResponse(jwks));
+        case tokenEndpoint:
+          return Promise.resolve(jsonResponse(tokenResponse));
+        case userInfoEndpoint:
+          return Promise.resolve(jsonResponse(userInfo));
+        default:
+          return Promise.resolve(jsonResponse({}, false));
+      }
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    strategy = new OidcOAuthStrategy(configService, 'keycloak');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const requestedUrls = () => fetchMock.mock.calls.map(([url]) => url);
+
+  describe('configuration', () => {
+    it('should read its settings from oauth.oidc.<name>', () => {
+      expect(strategy.provider).toBe('keycloak');
+      expect(strategy.isEnabled).toBe(true);
+      expect(strategy.displayName).toBe('Company SSO');
+    });
+
+    it('should be disabled when the provider is incomplete', () => {
+      mockConfig['oauth.oidc.keycloak.enabled'] = false;
+
+      expect(new OidcOAuthStrategy(configService, 'keycloak').isEnabled).toBe(
+        false,
+      );
+    });
+
+    it('should create one strategy per configured provider', () => {
+      mockConfig['oauth.oidc'] = { keycloak: {}, okta: {} };
+
+      const strategies = createOidcStrategies(configService);
+
+      expect(strategies.map((s) => s.provider)).toEqual(['keycloak', 'okta']);
+    });
+  });
+
+  describe('getAuthorizationUrl', () => {
+    it('should build the URL from the discovery document', async () => {
+      const url = new URL(
+        await strategy.getAuthorizationUrl('test-state', 'test-challenge'),
+      );
+
+      expect(`${url.origin}${url.pathname}`).toBe(
+        discovery.authorization_endpoint,
+      );
+      expect(url.searchParams.get('client_id')).toBe('test-client-id');
+      expect(url.searchParams.get('response_type')).toBe('code');
+      expect(url.searchParams.get('scope')).toBe('openid email profile');
+      expect(url.searchParams.get('state')).toBe('test-state');
+      expect(url.searchParams.get('code_challenge')).toBe('test-challenge');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should fetch the discovery document only once', async () => {
+      await strategy.getAuthorizationUrl('state-1');
+      await strategy.getAuthorizationUrl('state-2');
+
+      expect(
+        requestedUrls().filter((url) => url === discoveryUrl),
+      ).toHaveLength(1);
+    });
+
+    it('should reject a discovery document for another issuer', async () => {
+      fetchMock.mockImplementationOnce(() =>
+        Promise.resolve(
+          jsonResponse({ ...discovery, issuer: 'https://evil.example.com' }),
+        ),
+      );
+
+      await expect(strategy.getAuthorizationUrl('state')).rejects.toThrow(
+        /does not match/,
+      );
+      // A failed discovery is retried on the next request
+      await expect(strategy.getAuthorizationUrl('state')).resolves.toContain(
+        discovery.authorization_endpoint,
+      );
+    });
+  });
+
+  describe('getUserProfile', () => {
+    it('should verify the ID token and map its claims', async () => {
+      const profile = await strategy.getUserProfile('code', 'test-verifier');
+
+      expect(profile).toEqual({
+        providerId: 'subject-123',
+        email: 'jane@example.com',
+        name: 'Jane Doe',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        picture: 'https://example.com/jane.png',
+        emailVerified: true,
+      });
+      expect(requestedUrls()).not.toContain(userInfoEndpoint);
+    });
+
+    it('should send the PKCE verifier with the token request', async () => {
+      await strategy.getUserProfile('code', 'test-verifier');
+
+      const [, tokenRequest] = fetchMock.mock.calls.find(
+        ([url]) => url === tokenEndpoint,
+      ) as [string, RequestInit];
+      const body = new URLSearchParams(tokenRequest.body as string);
+      expect(body.get('code')).toBe('code');
+      expect(body.get('code_verifier')).toBe('test-verifier');
+      expect(body.get('grant_type')).toBe('authorization_code');
+    });
+
+    it('should accept ES256 signed tokens', async () => {
+      tokenResponse.id_token = signIdToken(validClaims(), {
+        alg: 'ES256',
+        kid: 'ec-1',
+      });
+
+      await expect(strategy.getUserProfile('code')).resolves.toMatchObject({
+        providerId: 'subject-123',
+      });
+    });
+
+    it('should reject a token signed by an unknown key', async () => {
+      tokenResponse.id_token = signIdToken(validClaims(), {
+        privateKey: otherRsaKeys.privateKey,
+      });
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(
+        'ID token signature is invalid',
+      );
+    });
+
+    it('should refetch the JWKS when the key ID is unknown (key rotation)', async () => {
+      await strategy.getUserProfile('code');
+      jwks = { keys: [...jwks.keys, toJwk(otherRsaKeys.publicKey, 'rsa-2')] };
+      tokenResponse.id_token = signIdToken(validClaims(), {
+        kid: 'rsa-2',
+        privateKey: otherRsaKeys.privateKey,
+      });
+
+      await expect(strategy.getUserProfile('code')).resolves.toMatchObject({
+        providerId: 'subject-123',
+      });
+      expect(requestedUrls().filter((url) => url === jwksUri)).toHaveLength(2);
+    });
+
+    it('should reject an unsigned token', async () => {
+      const encode = (value: object) =>
+        Buffer.from(JSON.stringify(value)).toString('base64url');
+      tokenResponse.id_token = `${encode({ alg: 'none' })}.${encode(validClaims())}.`;
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(
+        'ID token signature is invalid',
+      );
+    });
+
+    it.each([
+      ['issuer', { iss: 'https://evil.example.com' }, 'issuer mismatch'],
+      ['audience', { aud: 'another-client' }, 'audience mismatch'],
+      [
+        'authorized party',
+        { aud: ['test-client-id', 'another-client'], azp: 'another-client' },
+        'authorized party mismatch',
+      ],
+      ['expiry', { exp: now() - 3600 }, 'has expired'],
+    ])('should reject a token with the wrong %s', async (_, claims, error) => {
+      tokenResponse.id_token = signIdToken(validClaims(claims));
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(error);
+    });
+
+    it('should reject a response without an ID token', async () => {
+      delete tokenResponse.id_token;
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(
+        'Token response did not include an ID token',
+      );
+    });
+
+    it('should reject an unverified email', async () => {
+      tokenResponse.id_token = signIdToken(
+        validClaims({ email_verified: false }),
+      );
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(
+        'keycloak email is not verified',
+      );
+    });
+
+    it('should reject an email without a verified claim by default', async () => {
+      tokenResponse.id_token = signIdToken(
+        validClaims({ email_verified: undefined }),
+      );
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(
+        'keycloak email is not verified',
+      );
+    });
+
+    it('should accept an email without a verified claim from a trusted provider', async () => {
+      mockConfig['oauth.oidc.keycloak.trustEmail'] = true;
+      tokenResponse.id_token = signIdToken(
+        validClaims({ email_verified: undefined }),
+      );
+
+      const profile = await strategy.getUserProfile('code');
+
+      expect(profile.emailVerified).toBe(true);
+    });
+
+    it('should reject an unverified email even from a trusted provider', async () => {
+      mockConfig['oauth.oidc.keycloak.trustEmail'] = true;
+      tokenResponse.id_token = signIdToken(
+        validClaims({ email_verified: false }),
+      );
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(
+        'keycloak email is not verified',
+      );
+    });
+
+    it('should fall back to UserInfo when the ID token has no email', async () => {
+      tokenResponse.id_token = signIdToken(validClaims({ email: undefined }));
+
+      const profile = await strategy.getUserProfile('code');
+
+      expect(profile.email).toBe('jane@example.com');
+      const [, userInfoRequest] = fetchMock.mock.calls.find(
+        ([url]) => url === userInfoEndpoint,
+      ) as [string, RequestInit];
+      expect(userInfoRequest.headers).toMatchObject({
+        Authorization: 'Bearer access-token',
+      });
+    });
+
+    it('should reject UserInfo for a different subject', async () => {
+      tokenResponse.id_token = signIdToken(validClaims({ email: undefined }));
+      userInfo.sub = 'someone-else';
+
+      await expect(strategy.getUserProfile('code')).rejects.toThrow(
+        'UserInfo subject does not match the ID token',
+      );
+    });
+
+    it('should apply the configured claim mapping', async () => {
+      mockConfig['oauth.oidc.keycloak.trustEmail'] = true;
+      mockConfig['oauth.oidc.keycloak.claims'] = {
+        id: 'oid',
+        email: 'preferred_username',
+        emailVerified: 'email_verified',
+        name: 'profile.display_name',
+        firstName: 'given_name',
+        lastName: 'family_name',
+        picture: 'picture',
+      };
+      tokenResponse.id_token = signIdToken(
+        validClaims({
+          oid: 'object-id-1',
+          preferred_username: 'jane@contoso.com',
+          email: undefined,
+          email_verified: undefined,
+          name: undefined,
+          profile: { display_name: 'Jane from Contoso' },
+        }),
+      );
+
+      const profile = await strategy.getUserProfile('code');
+
+      expect(profile).toMatchObject({
+        providerId: 'object-id-1',
+        email: 'jane@contoso.com',
+        name: 'Jane from Contoso',
+      });
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import { ConfigService } from '@nestjs/config';
+import { BaseOAuthStrategy } from './base-oauth.strategy';
+import { OAuthUserProfile } from './oauth.strategy.interface';
+import { OidcProviderConfig } from '../../config/configuration';
+import {
+  JsonWebKeyWithId,
+  JwtClaims,
+  decodeJwt,
+  getClaim,
+  selectJwk,
+  validateIdTokenClaims,
+  verifyJwtSignature,
+} from '../utils/oidc.utils';
+
+/**
+ * Injection token for the list of configured OIDC strategies
+ */
+export const OIDC_STRATEGIES = 'OIDC_STRATEGIES';
+
+/**
+ * OpenID Provider Metadata (subset of OIDC Discovery §3)
+ */
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+/**
+ * OIDC Token Response
+ */
+interface OidcTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  id_token?: string;
+}
+
+/**
+ * OpenID Connect Strategy
+ * Generic authorization code flow for any OIDC provider (Keycloak, Okta,
+ * Azure AD, Auth0...) configured through OIDC_<NAME>_* environment variables
+ */
+export class OidcOAuthStrategy extends BaseOAuthStrategy {
+  private discovery: Promise<OidcDiscoveryDocument> | null = null;
+  private jwks: JsonWebKeyWithId[] | null = null;
+
+  /**
+   * OIDC providers live under oauth.oidc.<name>
+   */
+  protected get configKey(): string {
+    return `oauth.oidc.${this.providerName}`;
+  }
+
+  /**
+   * Label shown to users for this provider
+   */
+  get displayName(): string {
+    return this.configService.get<string>(
+      `${this.configKey}.displayName`,
+      this.providerName,
+    );
+  }
+
+  /**
+   * Get OAuth scopes from configuration (openid is always requested)
+   */
+  protected getScopes(): string[] {
+    const scopes = this.configService.get<string[]>(
+      `${this.configKey}.scopes`,
+      ['openid', 'email', 'profile'],
+    );
+    return scopes.includes('openid') ? scopes : ['openid', ...scopes];
+  }
+
+  /**
+   * Get the authorization URL from the provider's discovery document
+   * @param state - Optional state parameter for CSRF protection
+   * @param codeChallenge - Optional PKCE code challenge (S256)
+   * @returns Authorization URL
+   */
+  async getAuthorizationUrl(
+    state?: string,
+    codeChallenge?: string,
+  ): Promise<string> {
+    const config = this.ensureEnabled();
+    const discovery = await this.getDiscoveryDocument();
+
+    const url = new URL(discovery.authorization_endpoint);
+    url.searchParams.append('client_id', config.clientId);
+    url.searchParams.append('redirect_uri', config.callbackUrl);
+    url.searchParams.append('response_type', 'code');
+    url.searchParams.append('scope', config.scopes.join(' '));
+
+    this.appendAuthorizationParams(url.searchParams, state, codeChallenge);
+
+    return url.toString();
+  }
+
+  /**
+   * Exchange authorization code for a verified ID token and map its claims
+   * @param code - Authorization code from the OIDC callback
+   * @param codeVerifier - Optional PKCE code verifier matching the challenge
+   * @returns User profile from the ID token (and UserInfo when needed)
+   */
+  async getUserProfile(
+    code: string,
+    codeVerifier?: string,
+  ): Promise<OAuthUserProfile> {
+    const config = this.ensureEnabled();
+    try {
+      const discovery = await this.getDiscoveryDocument();
+
+      const tokenResponse = await this.httpPostForm<OidcTokenResponse>(
+        discovery.token_endpoint,
+        {
+          code,
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          redirect_uri: config.callbackUrl,
+          grant_type: 'authorization_code',
+          ...(codeVerifier && { code_verifier: codeVerifier }),
+        },
+      );
+
+      if (!tokenResponse.id_token) {
+        throw new Error('Token response did not include an ID token');
+      }
+
+      let claims = await this.verifyIdToken(tokenResponse.id_token, discovery);
+
+      // Some providers only put profile claims in the UserInfo response
+      const claimNames = this.claimNames;
+      if (
+        discovery.userinfo_endpoint &&
+        getClaim(claims, claimNames.email) === undefined
+      ) {
+        const userInfo = await this.httpGet<JwtClaims>(
+          discovery.userinfo_endpoint,
+          { Authorization: `Bearer ${tokenResponse.access_token}` },
+        );
+
+        // UserInfo must describe the same subject as the ID token (OIDC Core §5.3.2)
+        if (userInfo.sub !== claims.sub) {
+          throw new Error('UserInfo subject does not match the ID token');
+        }
+
+        claims = { ...userInfo, ...claims };
+      }
+
+      return this.mapClaims(claims);
+    } catch (error) {
+      this.logger.error(
+        `Failed to get ${this.providerName} user profile: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Claim names configured for this provider
+   */
+  private get claimNames(): OidcProviderConfig['claims'] {
+    return this.configService.get<OidcProviderConfig['claims']>(
+      `${this.configKey}.claims`,
+      {
+        id: 'sub',
+        email: 'email',
+        emailVerified: 'email_verified',
+        name: 'name',
+        firstName: 'given_name',
+        lastName: 'family_name',
+        picture: 'picture',
+      },
+    );
+  }
+
+  /**
+   * Map ID token claims to the standardized profile
+   * @throws Error if the subject or email is missing, or the email is neither
+   * verified nor from a provider configured with trustEmail
+   */
+  private mapClaims(claims: JwtClaims): OAuthUserProfile {
+    const names = this.claimNames;
+    const readString = (path: string): string | undefined => {
+      const value = getClaim(claims, path);
+      return typeof value === 'string' && value ? value : undefined;
+    };
+
+    const providerId = readString(names.id);
+    if (!providerId) {
+      throw new Error(`ID token has no '${names.id}' claim`);
+    }
+
+    const email = readString(names.email);
+    if (!email) {
+      throw new Error(`${this.providerName} did not return an email address`);
+    }
+
+    // Providers that omit the claim (e.g. Azure AD) must be trusted explicitly
+    const verifiedClaim = getClaim(claims, names.emailVerified);
+    const emailVerified = verifiedClaim === true || verifiedClaim === 'true';
+    const trustEmail =
+      verifiedClaim === undefined &&
+      this.configService.get<boolean>(`${this.configKey}.trustEmail`, false);
+    if (!emailVerified && !trustEmail) {
+      throw new Error(`${this.providerName} email is not verified`);
+    }
+
+    const firstName = readString(names.firstName);
+    const lastName = readString(names.lastName);
+
+    return {
+      providerId,
+      email: email.toLowerCase(),
+      name:
+        readString(names.name) ||
+        [firstName, lastName].filter(Boolean).join(' ') ||
+        email.split('@')[0],
+      firstName,
+      lastName,
+      picture: readString(names.picture),
+      emailVerified: emailVerified || trustEmail,
+    };
+  }
+
+  /**
+   * Verify the ID token signature against the provider's JWKS and validate its claims
+   */
+  private async verifyIdToken(
+    idToken: string,
+    discovery: OidcDiscoveryDocument,
+  ): Promise<JwtClaims> {
+    const config = this.ensureEnabled();
+    const jwt = decodeJwt(idToken);
+
+    let key = selectJwk(await this.getJwks(discovery), jwt.header);
+    if (!key) {
+      // Unknown key ID: the provider may have rotated its keys
+      this.jwks = null;
+      key = selectJwk(await this.getJwks(discovery), jwt.header);
+    }
+
+    if (!key || !verifyJwtSignature(jwt, key)) {
+      throw new Error('ID token signature is invalid');
+    }
+
+    validateIdTokenClaims(jwt.payload, {
+      issuer: discovery.issuer,
+      clientId: config.clientId,
+    });
+
+    return jwt.payload;
+  }
+
+  /**
+   * Fetch (once) the provider's discovery document
+   */
+  private getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+    if (!this.discovery) {
+      this.discovery = this.fetchDiscoveryDocument().catch((error) => {
+        // Allow a retry on the next request instead of caching the failure
+        this.discovery = null;
+        throw error;
+      });
+    }
+    return this.discovery;
+  }
+
+  private async fetchDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+    const issuer = this.configService
+      .get<string>(`${this.configKey}.issuer`, '')
+      .replace(/\/+$/, '');
+
+    const discovery = await this.httpGet<OidcDiscoveryDocument>(
+      `${issuer}/.well-known/openid-configuration`,
+    );
+
+    // The document must belong to the configured issuer (OIDC Discovery §4.3)
+    if (discovery.issuer?.replace(/\/+$/, '') !== issuer) {
+      throw new Error(
+        `Discovery document issuer '${discovery.issuer}' does not match '${issuer}'`,
+      );
+    }
+
+    if (
+      !discovery.authorization_endpoint ||
+      !discovery.token_endpoint ||
+      !discovery.jwks_uri
+    ) {
+      throw new Error('Discovery document is missing required endpoints');
+    }
+
+    this.logger.log(`Loaded OIDC discovery document for ${this.providerName}`);
+    return discovery;
+  }
+
+  /**
+   * Fetch (and cache) the provider's signing keys
+   */
+  private async getJwks(
+    discovery: OidcDiscoveryDocument,
+  ): Promise<JsonWebKeyWithId[]> {
+    if (!this.jwks) {
+      const response = await this.httpGet<{ keys?: JsonWebKeyWithId[] }>(
+        discovery.jwks_uri,
+      );
+      this.jwks = response.keys ?? [];
+    }
+    return this.jwks;
+  }
+}
+
+/**
+ * Build one strategy per entry in OIDC_PROVIDERS
+ */
+export function createOidcStrategies(
+  configService: ConfigService,
+): OidcOAuthStrategy[] {
+  const providers = configService.get<Record<string, OidcProviderConfig>>(
+    'oauth.oidc',
+    {},
+  );
+
+  return Object.keys(providers).map(
+    (name) => new OidcOAuthStrategy(configService, name),
+  );
+}
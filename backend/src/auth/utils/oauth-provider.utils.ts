@@ -0,0 +1,83 @@
+import { AuthProvider } from '../../user/enums/auth-provider.enum';
+
+/**
+ * OAuth providers that ship with a dedicated strategy class
+ */
+export const BUILT_IN_OAUTH_PROVIDERS = [
+  'google',
+  'facebook',
+  'github',
+] as const;
+
+/**
+ * Built-in OAuth Provider Type
+ */
+export type BuiltInOAuthProvider = (typeof BUILT_IN_OAUTH_PROVIDERS)[number];
+
+/**
+ * Allowed shape of a provider name (also used for OIDC_PROVIDERS entries)
+ */
+export const OAUTH_PROVIDER_NAME_PATTERN = /^[a-z][a-z0-9-]{1,31}$/;
+
+/**
+ * Prefix of the provider name recorded for SAML connections (saml-<slug>)
+ */
+export const SAML_PROVIDER_PREFIX = 'saml-';
+
+/**
+ * Names that cannot be used for configured OIDC providers
+ */
+export const RESERVED_OAUTH_PROVIDER_NAMES: readonly string[] = [
+  ...BUILT_IN_OAUTH_PROVIDERS,
+  AuthProvider.EMAIL,
+  AuthProvider.OIDC,
+  AuthProvider.SAML,
+];
+
+/**
+ * Check whether a provider has a dedicated strategy and user ID field
+ * @param provider - Provider name
+ */
+export function isBuiltInOAuthProvider(
+  provider: string,
+): provider is BuiltInOAuthProvider {
+  return (BUILT_IN_OAUTH_PROVIDERS as readonly string[]).includes(provider);
+}
+
+/**
+ * Check whether a provider name belongs to a SAML connection
+ * @param provider - Provider name
+ */
+export function isSamlProvider(provider: string): boolean {
+  return provider.startsWith(SAML_PROVIDER_PREFIX);
+}
+
+/**
+ * Get the user document path that stores the provider's subject ID
+ * Built-in providers have their own field; OIDC and SAML providers share a map
+ * @param provider - Provider name
+ * @returns Path such as 'googleId' or 'externalSubjects.keycloak'
+ */
+export function getProviderIdField(provider: string): string {
+  return isBuiltInOAuthProvider(provider)
+    ? `${provider}Id`
+    : `externalSubjects.${provider}`;
+}
+
+/**
+ * Map a provider name to the AuthProvider recorded on the user
+ * @param provider - Provider name
+ */
+export function toAuthProvider(provider: string): AuthProvider {
+  const authProviderMap: Record<BuiltInOAuthProvider, AuthProvider> = {
+    google: AuthProvider.GOOGLE,
+    facebook: AuthProvider.FACEBOOK,
+    github: AuthProvider.GITHUB,
+  };
+
+  if (isBuiltInOAuthProvider(provider)) {
+    return authProviderMap[provider];
+  }
+
+  return isSamlProvider(provider) ? AuthProvider.SAML : AuthProvider.OIDC;
+}
@@ -0,0 +1,220 @@
+import * as crypto from 'crypto';
+
+/**
+ * Minimal OpenID Connect helpers: compact JWS decoding, JWK signature
+ * verification (RS*, PS*, ES*) and ID token claim validation.
+ */
+
+/** Clock skew tolerated when checking exp/nbf/iat, in seconds */
+export const ID_TOKEN_CLOCK_TOLERANCE = 60;
+
+export interface JsonWebKeyWithId extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+  alg?: string;
+}
+
+export interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+export type JwtClaims = Record<string, unknown>;
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: JwtClaims;
+  /** `<header>.<payload>` exactly as received, the bytes that were signed */
+  signingInput: string;
+  signature: Buffer;
+}
+
+/** Hash and key parameters for each supported JWS algorithm */
+const JWS_ALGORITHMS: Record<
+  string,
+  { hash: string; kty: string; padding?: number; dsaEncoding?: 'ieee-p1363' }
+> = {
+  RS256: { hash: 'sha256', kty: 'RSA' },
+  RS384: { hash: 'sha384', kty: 'RSA' },
+  RS512: { hash: 'sha512', kty: 'RSA' },
+  PS256: {
+    hash: 'sha256',
+    kty: 'RSA',
+    padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+  },
+  PS384: {
+    hash: 'sha384',
+    kty: 'RSA',
+    padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+  },
+  PS512: {
+    hash: 'sha512',
+    kty: 'RSA',
+    padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+  },
+  ES256: { hash: 'sha256', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+  ES512: { hash: 'sha512', kty: 'EC', dsaEncoding: 'ieee-p1363' },
+};
+
+export const SUPPORTED_JWS_ALGORITHMS = Object.keys(JWS_ALGORITHMS);
+
+/**
+ * Split a compact JWS into its parts without verifying it.
+ * @throws Error if the token is not a well-formed JWS
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Malformed JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  try {
+    const header = JSON.parse(
+      Buffer.from(encodedHeader, 'base64url').toString('utf8'),
+    ) as JwtHeader;
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString('utf8'),
+    ) as JwtClaims;
+
+    if (typeof header?.alg !== 'string' || typeof payload !== 'object') {
+      throw new Error('Missing JWT header or payload');
+    }
+
+    return {
+      header,
+      payload,
+      signingInput: `${encodedHeader}.${encodedPayload}`,
+      signature: Buffer.from(encodedSignature, 'base64url'),
+    };
+  } catch {
+    throw new Error('Malformed JWT');
+  }
+}
+
+/**
+ * Verify a decoded JWS against a JSON Web Key.
+ * Rejects `none`, HMAC and any algorithm that does not match the key type.
+ */
+export function verifyJwtSignature(
+  jwt: DecodedJwt,
+  jwk: JsonWebKeyWithId,
+): boolean {
+  const algorithm = JWS_ALGORITHMS[jwt.header.alg];
+  if (!algorithm || algorithm.kty !== jwk.kty) {
+    return false;
+  }
+
+  if (jwk.alg && jwk.alg !== jwt.header.alg) {
+    return false;
+  }
+
+  const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+  return crypto.verify(
+    algorithm.hash,
+    Buffer.from(jwt.signingInput),
+    {
+      key,
+      padding: algorithm.padding,
+      saltLength: algorithm.padding
+        ? crypto.constants.RSA_PSS_SALTLEN_DIGEST
+        : undefined,
+      dsaEncoding: algorithm.dsaEncoding,
+    },
+    jwt.signature,
+  );
+}
+
+/**
+ * Pick the signing key for a token from a JWKS.
+ * Without a `kid` the token may only match when the set has a single candidate.
+ */
+export function selectJwk(
+  keys: JsonWebKeyWithId[],
+  header: JwtHeader,
+): JsonWebKeyWithId | undefined {
+  const algorithm = JWS_ALGORITHMS[header.alg];
+  const candidates = keys.filter(
+    (key) =>
+      (!key.use || key.use === 'sig') &&
+      (!algorithm || key.kty === algorithm.kty),
+  );
+
+  if (header.kid) {
+    return candidates.find((key) => key.kid === header.kid);
+  }
+
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Validate the registered claims of an ID token (OIDC Core §3.1.3.7).
+ * @throws Error describing the first failed check
+ */
+export function validateIdTokenClaims(
+  claims: JwtClaims,
+  expected: { issuer: string; clientId: string },
+  now = Math.floor(Date.now() / 1000),
+): void {
+  if (claims.iss !== expected.issuer) {
+    throw new Error('ID token issuer mismatch');
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.clientId)) {
+    throw new Error('ID token audience mismatch');
+  }
+
+  if (
+    (audiences.length > 1 || claims.azp !== undefined) &&
+    claims.azp !== expected.clientId
+  ) {
+    throw new Error('ID token authorized party mismatch');
+  }
+
+  if (typeof claims.exp !== 'number') {
+    throw new Error('ID token has no expiry');
+  }
+
+  if (claims.exp + ID_TOKEN_CLOCK_TOLERANCE < now) {
+    throw new Error('ID token has expired');
+  }
+
+  if (
+    typeof claims.nbf === 'number' &&
+    claims.nbf - ID_TOKEN_CLOCK_TOLERANCE > now
+  ) {
+    throw new Error('ID token is not valid yet');
+  }
+
+  if (
+    typeof claims.iat === 'number' &&
+    claims.iat - ID_TOKEN_CLOCK_TOLERANCE > now
+  ) {
+    throw new Error('ID token was issued in the future');
+  }
+
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+}
+
+/**
+ * Read a claim by name or dot path (e.g. `address.country`)
+ */
+export function getClaim(claims: JwtClaims, path: string): unknown {
+  if (path in claims) {
+    return claims[path];
+  }
+
+  return path.split('.').reduce<unknown>((value, segment) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[segment];
+    }
+    return undefined;
+  }, claims);
+}
@@ -0,0 +1,251 @@
+import * as crypto from 'crypto';
+
+/**
+ * Minimal WebAuthn helpers: base64url, CBOR decoding, authenticator data
+ * parsing and COSE public keys (ES256, RS256, EdDSA).
+ * Only the subset of CBOR used by authenticators is supported.
+ */
+
+/** COSE algorithm identifiers offered to authenticators */
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EdDSA: -8,
+  RS256: -257,
+} as const;
+
+/** Authenticator data flag bits (WebAuthn §6.1) */
+export const AUTHENTICATOR_FLAGS = {
+  USER_PRESENT: 0x01,
+  USER_VERIFIED: 0x04,
+  BACKUP_ELIGIBLE: 0x08,
+  BACKED_UP: 0x10,
+  ATTESTED_CREDENTIAL_DATA: 0x40,
+} as const;
+
+export type CborValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export interface AttestedCredentialData {
+  aaguid: Buffer;
+  credentialId: Buffer;
+  /** Raw COSE_Key bytes */
+  publicKey: Buffer;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  attestedCredentialData?: AttestedCredentialData;
+}
+
+export function base64UrlEncode(buffer: Buffer): string {
+  return buffer.toString('base64url');
+}
+
+export function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/**
+ * Decode a single CBOR item.
+ * @returns The decoded value and the number of bytes it occupied
+ */
+export function decodeCbor(
+  buffer: Buffer,
+  offset = 0,
+): { value: CborValue; length: number } {
+  const start = offset;
+
+  const readLength = (additional: number): number => {
+    if (additional < 24) return additional;
+    if (additional === 24) return buffer.readUInt8(offset++);
+    if (additional === 25) {
+      const value = buffer.readUInt16BE(offset);
+      offset += 2;
+      return value;
+    }
+    if (additional === 26) {
+      const value = buffer.readUInt32BE(offset);
+      offset += 4;
+      return value;
+    }
+    if (additional === 27) {
+      const value = buffer.readBigUInt64BE(offset);
+      offset += 8;
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new Error('CBOR length exceeds safe integer range');
+      }
+      return Number(value);
+    }
+    throw new Error('Indefinite-length CBOR items are not supported');
+  };
+
+  const readItem = (): CborValue => {
+    const initial = buffer.readUInt8(offset++);
+    const majorType = initial >> 5;
+    const additional = initial & 0x1f;
+
+    switch (majorType) {
+      case 0:
+        return readLength(additional);
+      case 1:
+        return -1 - readLength(additional);
+      case 2: {
+        const length = readLength(additional);
+        const value = buffer.subarray(offset, offset + length);
+        offset += length;
+        return Buffer.from(value);
+      }
+      case 3: {
+        const length = readLength(additional);
+        const value = buffer.toString('utf8', offset, offset + length);
+        offset += length;
+        return value;
+      }
+      case 4: {
+        const length = readLength(additional);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(readItem());
+        }
+        return items;
+      }
+      case 5: {
+        const length = readLength(additional);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 6:
+        // Tags carry no meaning for WebAuthn structures; return the tagged item
+        readLength(additional);
+        return readItem();
+      default:
+        if (additional === 20) return false;
+        if (additional === 21) return true;
+        if (additional === 22) return null;
+        if (additional === 23) return undefined;
+        throw new Error('Unsupported CBOR simple or float value');
+    }
+  };
+
+  const value = readItem();
+
+  if (offset > buffer.length) {
+    throw new Error('Truncated CBOR data');
+  }
+
+  return { value, length: offset - start };
+}
+
+/**
+ * Parse authenticator data (WebAuthn §6.1).
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
+  const rpIdHash = data.subarray(0, 32);
+  const flags = data.readUInt8(32);
+  const signCount = data.readUInt32BE(33);
+
+  if (!(flags & AUTHENTICATOR_FLAGS.ATTESTED_CREDENTIAL_DATA)) {
+    return { rpIdHash, flags, signCount };
+  }
+
+  const aaguid = data.subarray(37, 53);
+  const credentialIdLength = data.readUInt16BE(53);
+  const credentialId = data.subarray(55, 55 + credentialIdLength);
+  const keyOffset = 55 + credentialIdLength;
+  const { length } = decodeCbor(data, keyOffset);
+
+  return {
+    rpIdHash,
+    flags,
+    signCount,
+    attestedCredentialData: {
+      aaguid,
+      credentialId,
+      publicKey: data.subarray(keyOffset, keyOffset + length),
+    },
+  };
+}
+
+/**
+ * Convert a COSE_Key into a Node public key.
+ * @returns The key and its COSE algorithm identifier
+ */
+export function coseToPublicKey(coseKey: Buffer): {
+  key: crypto.KeyObject;
+  algorithm: number;
+} {
+  const { value } = decodeCbor(coseKey);
+
+  if (!(value instanceof Map)) {
+    throw new Error('COSE key must be a map');
+  }
+
+  const keyType = value.get(1);
+  const algorithm = value.get(3);
+  const param = (label: number): string => {
+    const field = value.get(label);
+    if (!Buffer.isBuffer(field)) {
+      throw new Error(`COSE key parameter ${label} is missing`);
+    }
+    return base64UrlEncode(field);
+  };
+
+  let jwk: crypto.JsonWebKey;
+
+  if (keyType === 2 && algorithm === COSE_ALGORITHMS.ES256) {
+    if (value.get(-1) !== 1) {
+      throw new Error('Only the P-256 curve is supported');
+    }
+    jwk = { kty: 'EC', crv: 'P-256', x: param(-2), y: param(-3) };
+  } else if (keyType === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    jwk = { kty: 'RSA', n: param(-1), e: param(-2) };
+  } else if (keyType === 1 && algorithm === COSE_ALGORITHMS.EdDSA) {
+    if (value.get(-1) !== 6) {
+      throw new Error('Only the Ed25519 curve is supported');
+    }
+    jwk = { kty: 'OKP', crv: 'Ed25519', x: param(-2) };
+  } else {
+    throw new Error('Unsupported COSE key type or algorithm');
+  }
+
+  return {
+    key: crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    algorithm,
+  };
+}
+
+/**
+ * Verify an assertion signature with a COSE public key.
+ */
+export function verifyCoseSignature(
+  coseKey: Buffer,
+  data: Buffer,
+  signature: Buffer,
+): boolean {
+  const { key, algorithm } = coseToPublicKey(coseKey);
+
+  if (algorithm === COSE_ALGORITHMS.EdDSA) {
+    return crypto.verify(null, data, key, signature);
+  }
+
+  // ES256 signatures are DER-encoded, which is Node's default
+  return crypto.verify('sha256', data, key, signature);
+}
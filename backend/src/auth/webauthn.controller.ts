@@ -0,0 +1,195 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { AuthService } from './auth.service';
+import {
+  WebAuthnService,
+  WebAuthnAuthenticationOptions,
+  WebAuthnRegistrationOptions,
+} from './services/webauthn.service';
+import {
+  RenameWebAuthnCredentialDto,
+  VerifyWebAuthnAuthenticationDto,
+  VerifyWebAuthnRegistrationDto,
+  WebAuthnCredentialResponseDto,
+} from './dto/webauthn.dto';
+import { Public } from './decorators/public.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthGuard } from './guards/auth.guard';
+import { ApiResponse } from '../common/dto/api-response.dto';
+
+/**
+ * WebAuthn Controller
+ * Handles passkey registration, passkey sign-in and passkey management
+ */
+@ApiTags('webauthn')
+@Controller('auth/webauthn')
+export class WebAuthnController {
+  constructor(
+    private readonly webAuthnService: WebAuthnService,
+    private readonly authService: AuthService,
+  ) {}
+
+  /**
+   * Get options for registering a new passkey
+   * POST /api/auth/webauthn/registration/options
+   */
+  @UseGuards(AuthGuard)
+  @Post('registration/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Start passkey registration',
+    description:
+      'Returns options for navigator.credentials.create(). ' +
+      'Binary values are base64url-encoded.',
+  })
+  async registrationOptions(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponse<WebAuthnRegistrationOptions>> {
+    const options =
+      await this.webAuthnService.generateRegistrationOptions(userId);
+    return ApiResponse.success(options);
+  }
+
+  /**
+   * Verify and store a new passkey
+   * POST /api/auth/webauthn/registration/verify
+   */
+  @UseGuards(AuthGuard)
+  @Post('registration/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Finish passkey registration',
+    description:
+      'Verifies the attestation response from the authenticator and saves the passkey.',
+  })
+  @ApiBody({ type: VerifyWebAuthnRegistrationDto })
+  async verifyRegistration(
+    @CurrentUser('id') userId: string,
+    @Body() dto: VerifyWebAuthnRegistrationDto,
+  ): Promise<ApiResponse<WebAuthnCredentialResponseDto>> {
+    const credential = await this.webAuthnService.verifyRegistration(
+      userId,
+      dto,
+    );
+    return ApiResponse.success(credential, 'Passkey added');
+  }
+
+  /**
+   * Get options for signing in with a passkey
+   * POST /api/auth/webauthn/authentication/options
+   */
+  @Public()
+  @Post('authentication/options')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start passkey sign-in',
+    description:
+      'Returns options for navigator.credentials.get(). ' +
+      'No email is needed: the browser offers the passkeys saved for this site.',
+  })
+  async authenticationOptions(): Promise<
+    ApiResponse<WebAuthnAuthenticationOptions>
+  > {
+    const options = await this.webAuthnService.generateAuthenticationOptions();
+    return ApiResponse.success(options);
+  }
+
+  /**
+   * Sign in with a passkey
+   * POST /api/auth/webauthn/authentication/verify
+   */
+  @Public()
+  @Post('authentication/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Sign in with passkey',
+    description:
+      'Verifies the passkey assertion, creates a session and sets the session cookie. ' +
+      'Returns the same response as POST /api/auth/login.',
+  })
+  @ApiBody({ type: VerifyWebAuthnAuthenticationDto })
+  async verifyAuthentication(
+    @Body() dto: VerifyWebAuthnAuthenticationDto,
+    @Res() response: Response,
+  ) {
+    const result = await this.authService.loginWithPasskey(dto, response);
+    return response.status(HttpStatus.OK).json(result);
+  }
+
+  /**
+   * List the current user's passkeys
+   * GET /api/auth/webauthn/credentials
+   */
+  @UseGuards(AuthGuard)
+  @Get('credentials')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List passkeys' })
+  async listCredentials(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponse<WebAuthnCredentialResponseDto[]>> {
+    const credentials = await this.webAuthnService.listCredentials(userId);
+    return ApiResponse.success(credentials);
+  }
+
+  /**
+   * Rename a passkey
+   * PATCH /api/auth/webauthn/credentials/:id
+   */
+  @UseGuards(AuthGuard)
+  @Patch('credentials/:id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Rename passkey' })
+  @ApiParam({ name: 'id', description: 'Passkey ID' })
+  @ApiBody({ type: RenameWebAuthnCredentialDto })
+  async renameCredential(
+    @CurrentUser('id') userId: string,
+    @Param('id') id: string,
+    @Body() dto: RenameWebAuthnCredentialDto,
+  ): Promise<ApiResponse<WebAuthnCredentialResponseDto>> {
+    const credential = await this.webAuthnService.renameCredential(
+      userId,
+      id,
+      dto.name,
+    );
+    return ApiResponse.success(credential, 'Passkey renamed');
+  }
+
+  /**
+   * Remove a passkey
+   * DELETE /api/auth/webauthn/credentials/:id
+   */
+  @UseGuards(AuthGuard)
+  @Delete('credentials/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Remove passkey' })
+  @ApiParam({ name: 'id', description: 'Passkey ID' })
+  async deleteCredential(
+    @CurrentUser('id') userId: string,
+    @Param('id') id: string,
+  ): Promise<ApiResponse<null>> {
+    await this.webAuthnService.deleteCredential(userId, id);
+    return ApiResponse.success(null, 'Passkey removed');
+  }
+}
@@ -2,9 +2,10 @@
  * Comprehensive permission constants for the RBAC system.
  * Format: resource:action[:scope]
  *
- * Resources: profile, users, roles, permissions, sessions, reports
- * Actions: read, create, update, delete, list, manage
- * Scopes: own, all, team (optional)
+ * Resources: profile, users, roles, permissions, sessions, reports, sso, audit, organizations
+ * Actions: read, create, update, delete, list, manage, invite
+ * Scopes: own, all, team (optional); team permissions apply within the user's active organization,
+ * to the organization itself and, for users, to members of the teams the user belongs to there
  */
 
 // ========== Profile Permissions ==========
@@ -22,6 +23,9 @@ export const USER_PERMISSIONS = {
   UPDATE_ALL: 'users:update:all',
   DELETE_ALL: 'users:delete:all',
   UPDATE_OWN: 'users:update:own',
+  READ_TEAM: 'users:read:team',
+  LIST_TEAM: 'users:list:team',
+  UPDATE_TEAM: 'users:update:team',
 } as const;
 
 // ========== Role Management Permissions ==========
@@ -56,6 +60,29 @@ export const REPORT_PERMISSIONS = {
   CREATE_ALL: 'reports:create:all',
 } as const;
 
+// ========== SSO Connection Permissions ==========
+export const SSO_PERMISSIONS = {
+  READ_ALL: 'sso:read:all',
+  MANAGE_ALL: 'sso:manage:all',
+} as const;
+
+// ========== Audit Log Permissions ==========
+export const AUDIT_PERMISSIONS = {
+  READ_ALL: 'audit:read:all',
+} as const;
+
+// ========== Organization Permissions ==========
+/**
+ * Held through a membership role and only within the active organization
+ */
+export const ORGANIZATION_PERMISSIONS = {
+  READ_TEAM: 'organizations:read:team',
+  UPDATE_TEAM: 'organizations:update:team',
+  DELETE_TEAM: 'organizations:delete:team',
+  INVITE_TEAM: 'organizations:invite:team',
+  MANAGE_TEAM: 'organizations:manage:team',
+} as const;
+
 // ========== Wildcard Permission ==========
 /**
  * Wildcard permission grants all access.
@@ -63,6 +90,12 @@ export const REPORT_PERMISSIONS = {
  */
 export const WILDCARD_PERMISSION = '*' as const;
 
+/**
+ * Prefix marking a denied permission in a user's effective permissions.
+ * A denial wins over every grant, including the wildcard.
+ */
+export const DENIED_PERMISSION_PREFIX = '!' as const;
+
 // ========== Permission Categories ==========
 export const PERMISSION_CATEGORIES = {
   PROFILE: 'profile',
@@ -71,6 +104,9 @@ export const PERMISSION_CATEGORIES = {
   PERMISSIONS: 'permissions',
   SESSIONS: 'sessions',
   REPORTS: 'reports',
+  SSO: 'sso',
+  AUDIT: 'audit',
+  ORGANIZATIONS: 'organizations',
 } as const;
 
 // ========== Permission Actions ==========
@@ -83,6 +119,7 @@ export const PERMISSION_ACTIONS = {
   MANAGE: 'manage',
   GRANT: 'grant',
   REVOKE: 'revoke',
+  INVITE: 'invite',
 } as const;
 
 // ========== Permission Scopes ==========
@@ -101,6 +138,9 @@ export const ALL_PERMISSIONS = [
   ...Object.values(PERMISSION_PERMISSIONS),
   ...Object.values(SESSION_PERMISSIONS),
   ...Object.values(REPORT_PERMISSIONS),
+  ...Object.values(SSO_PERMISSIONS),
+  ...Object.values(AUDIT_PERMISSIONS),
+  ...Object.values(ORGANIZATION_PERMISSIONS),
 ] as const;
 
 /**
@@ -126,11 +166,18 @@ export const DEFAULT_ROLE_PERMISSIONS = {
   admin: [WILDCARD_PERMISSION],
 } as const;
 
+/**
+ * Wildcard for a single permission segment, as in users:* or *:read:own
+ */
+export const SEGMENT_WILDCARD = '*' as const;
+
 /**
  * Permission validation regex.
- * Matches: resource:action[:scope] or wildcard (*)
+ * Matches: resource:action[:scope] or wildcard (*).
+ * Any segment may be a wildcard (users:*, users:read:*, *:read:own).
  */
-export const PERMISSION_REGEX = /^([a-z-]+:[a-z-]+(:[a-z-]+)?|\*)$/;
+export const PERMISSION_REGEX =
+  /^(([a-z-]+|\*):([a-z-]+|\*)(:([a-z-]+|\*))?|\*)$/;
 
 /**
  * Type definition for all valid permissions
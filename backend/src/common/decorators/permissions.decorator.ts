@@ -45,3 +45,48 @@ export const ANY_PERMISSIONS_KEY = 'anyPermissions';
  */
 export const RequireAnyPermission = (...permissions: string[]) =>
   SetMetadata(ANY_PERMISSIONS_KEY, permissions);
+
+/**
+ * Metadata key for storing a permission whose scope depends on the target.
+ */
+export const SCOPED_PERMISSION_KEY = 'scopedPermission';
+
+/**
+ * A resource and action checked with the all scope first, then the team scope
+ */
+export interface ScopedPermission {
+  resource: string;
+  action: string;
+  /** Route parameter holding the ID of the user the request acts on */
+  param?: string;
+}
+
+/**
+ * Decorator to require a permission with the all scope, or with the team
+ * scope when the target user is on one of the actor's teams.
+ * Enforced by ScopedPermissionGuard. Without a param the team scope lets
+ * the request through and the handler limits results to the actor's teams.
+ *
+ * @param resource - Resource of the permission (e.g., 'users')
+ * @param action - Action of the permission (e.g., 'update')
+ * @param param - Route parameter holding the target user's ID
+ *
+ * @example
+ * ```typescript
+ * @RequireScopedPermission('users', 'update', 'id')
+ * @Patch(':id')
+ * async updateUser(@Param('id') id: string) {
+ *   // users:update:all, or users:update:team for a teammate
+ * }
+ * ```
+ */
+export const RequireScopedPermission = (
+  resource: string,
+  action: string,
+  param?: string,
+) =>
+  SetMetadata(SCOPED_PERMISSION_KEY, {
+    resource,
+    action,
+    param,
+  } satisfies ScopedPermission);
@@ -24,26 +24,34 @@ export class UserResponseDto {
   name!: string;
 
   @ApiProperty({
-    description: 'User role (USER, SUPPORT, MANAGER, ADMIN)',
-    example: 'USER',
+    description: 'Primary user role (the first of roles)',
+    example: 'user',
   })
   role!: string;
 
+  @ApiProperty({
+    description: 'All user roles',
+    example: ['user'],
+    type: [String],
+  })
+  roles!: string[];
+
   /**
    * Create a UserResponseDto from a user document
-   * @param user - User document with _id, email, name, role
+   * @param user - User document with _id, email, name, roles
    */
   static fromDocument(user: {
     _id: { toString(): string };
     email: string;
     name: string;
-    role: string;
+    roles: string[];
   }): UserResponseDto {
     const dto = new UserResponseDto();
     dto.id = user._id.toString();
     dto.email = user.email;
     dto.name = user.name;
-    dto.role = user.role;
+    dto.role = user.roles[0];
+    dto.roles = user.roles;
     return dto;
   }
 }
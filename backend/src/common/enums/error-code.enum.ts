@@ -9,6 +9,20 @@ export enum ErrorCode {
   /** Email address is already registered */
   EMAIL_ALREADY_EXISTS = 'EMAIL_ALREADY_EXISTS',
 
+  // Account lockout errors
+  /** Too many failed sign-ins; details include lockedUntil */
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  /** Unlock link is invalid, expired or already used */
+  UNLOCK_TOKEN_INVALID = 'UNLOCK_TOKEN_INVALID',
+
+  // Account status errors
+  /** Account suspended by an administrator; details include the reason */
+  ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED',
+  /** Account has been deactivated */
+  ACCOUNT_DEACTIVATED = 'ACCOUNT_DEACTIVATED',
+  /** Account has been deleted and is awaiting removal */
+  ACCOUNT_PENDING_DELETION = 'ACCOUNT_PENDING_DELETION',
+
   // Activation errors
   /** Activation code has expired */
   ACTIVATION_CODE_EXPIRED = 'ACTIVATION_CODE_EXPIRED',
@@ -76,6 +90,24 @@ export enum ErrorCode {
   OAUTH_AUTHENTICATION_FAILED = 'OAUTH_AUTHENTICATION_FAILED',
   /** OAuth code is invalid or expired */
   OAUTH_INVALID_CODE = 'OAUTH_INVALID_CODE',
+  /** OAuth state is unknown, expired, already used or issued for another provider */
+  OAUTH_STATE_MISMATCH = 'OAUTH_STATE_MISMATCH',
+
+  // SAML SSO errors
+  /** SAML connection does not exist or is disabled */
+  SAML_CONNECTION_NOT_FOUND = 'SAML_CONNECTION_NOT_FOUND',
+  /** A SAML connection with this slug already exists */
+  SAML_CONNECTION_ALREADY_EXISTS = 'SAML_CONNECTION_ALREADY_EXISTS',
+  /** IdP metadata could not be parsed or lacks an SSO endpoint or signing certificate */
+  SAML_METADATA_INVALID = 'SAML_METADATA_INVALID',
+  /** Role mapping refers to an unknown or unassignable role */
+  SAML_ROLE_MAPPING_INVALID = 'SAML_ROLE_MAPPING_INVALID',
+  /** SAML response does not answer a pending, unexpired request */
+  SAML_REQUEST_MISMATCH = 'SAML_REQUEST_MISMATCH',
+  /** SAML response failed signature or assertion validation */
+  SAML_RESPONSE_INVALID = 'SAML_RESPONSE_INVALID',
+  /** Asserted email is outside the connection's domains */
+  SAML_DOMAIN_NOT_ALLOWED = 'SAML_DOMAIN_NOT_ALLOWED',
 
   // Google OAuth errors
   /** Google ID token is invalid */
@@ -133,6 +165,32 @@ export enum ErrorCode {
   /** User not found for password reset */
   USER_NOT_FOUND_FOR_RESET = 'USER_NOT_FOUND_FOR_RESET',
 
+  // Passwordless login errors
+  /** No sign-in code was requested for email */
+  NO_PENDING_PASSWORDLESS_LOGIN = 'NO_PENDING_PASSWORDLESS_LOGIN',
+  /** Sign-in code has expired */
+  PASSWORDLESS_CODE_EXPIRED = 'PASSWORDLESS_CODE_EXPIRED',
+  /** Invalid sign-in code provided */
+  PASSWORDLESS_CODE_INVALID = 'PASSWORDLESS_CODE_INVALID',
+  /** Sign-in link is invalid, expired or already used */
+  MAGIC_LINK_INVALID = 'MAGIC_LINK_INVALID',
+
+  // Account reactivation errors
+  /** No reactivation code was requested for email */
+  NO_PENDING_REACTIVATION = 'NO_PENDING_REACTIVATION',
+  /** Reactivation code has expired */
+  REACTIVATION_CODE_EXPIRED = 'REACTIVATION_CODE_EXPIRED',
+  /** Invalid reactivation code provided */
+  REACTIVATION_CODE_INVALID = 'REACTIVATION_CODE_INVALID',
+
+  // Data export errors
+  /** A data export is already being generated */
+  DATA_EXPORT_IN_PROGRESS = 'DATA_EXPORT_IN_PROGRESS',
+  /** Data export does not exist, has expired or the link is invalid */
+  DATA_EXPORT_NOT_FOUND = 'DATA_EXPORT_NOT_FOUND',
+  /** Data export has not finished generating */
+  DATA_EXPORT_NOT_READY = 'DATA_EXPORT_NOT_READY',
+
   // Account linking errors
   /** Provider is already linked to this account */
   PROVIDER_ALREADY_LINKED = 'PROVIDER_ALREADY_LINKED',
@@ -147,6 +205,34 @@ export enum ErrorCode {
   /** Re-authentication required for sensitive operation */
   REAUTH_REQUIRED = 'REAUTH_REQUIRED',
 
+  // Two-factor authentication errors
+  /** Two-factor authentication is only available for email/password accounts */
+  TWO_FACTOR_UNAVAILABLE = 'TWO_FACTOR_UNAVAILABLE',
+  /** Two-factor authentication is already enabled */
+  TWO_FACTOR_ALREADY_ENABLED = 'TWO_FACTOR_ALREADY_ENABLED',
+  /** Two-factor authentication is not enabled */
+  TWO_FACTOR_NOT_ENABLED = 'TWO_FACTOR_NOT_ENABLED',
+  /** Two-factor enrolment has not been started */
+  TWO_FACTOR_SETUP_NOT_STARTED = 'TWO_FACTOR_SETUP_NOT_STARTED',
+  /** Invalid authenticator code provided */
+  TWO_FACTOR_CODE_INVALID = 'TWO_FACTOR_CODE_INVALID',
+  /** Two-factor login challenge is invalid or expired */
+  TWO_FACTOR_CHALLENGE_INVALID = 'TWO_FACTOR_CHALLENGE_INVALID',
+  /** Recovery code is invalid or has already been used */
+  RECOVERY_CODE_INVALID = 'RECOVERY_CODE_INVALID',
+  /** All recovery codes have been used */
+  RECOVERY_CODES_EXHAUSTED = 'RECOVERY_CODES_EXHAUSTED',
+
+  // WebAuthn (passkey) errors
+  /** Passkey ceremony challenge is invalid, expired or already used */
+  WEBAUTHN_CHALLENGE_INVALID = 'WEBAUTHN_CHALLENGE_INVALID',
+  /** Passkey response failed verification */
+  WEBAUTHN_VERIFICATION_FAILED = 'WEBAUTHN_VERIFICATION_FAILED',
+  /** Passkey is not registered */
+  WEBAUTHN_CREDENTIAL_NOT_FOUND = 'WEBAUTHN_CREDENTIAL_NOT_FOUND',
+  /** Passkey is already registered */
+  WEBAUTHN_CREDENTIAL_ALREADY_REGISTERED = 'WEBAUTHN_CREDENTIAL_ALREADY_REGISTERED',
+
   // Permission errors
   /** Permission already exists for user */
   PERMISSION_ALREADY_EXISTS = 'PERMISSION_ALREADY_EXISTS',
@@ -154,4 +240,34 @@ export enum ErrorCode {
   PERMISSION_NOT_FOUND = 'PERMISSION_NOT_FOUND',
   /** Invalid permission format */
   INVALID_PERMISSION_FORMAT = 'INVALID_PERMISSION_FORMAT',
+  /** Permission grant expiry is not in the future */
+  INVALID_PERMISSION_EXPIRY = 'INVALID_PERMISSION_EXPIRY',
+  /** Permission is already denied for user */
+  PERMISSION_ALREADY_DENIED = 'PERMISSION_ALREADY_DENIED',
+
+  // Organization errors
+  /** Organization does not exist or the user is not a member */
+  ORGANIZATION_NOT_FOUND = 'ORGANIZATION_NOT_FOUND',
+  /** The request needs an active organization */
+  NO_ACTIVE_ORGANIZATION = 'NO_ACTIVE_ORGANIZATION',
+  /** User is not a member of the organization */
+  ORGANIZATION_MEMBER_NOT_FOUND = 'ORGANIZATION_MEMBER_NOT_FOUND',
+  /** User is already a member of the organization */
+  ORGANIZATION_MEMBER_EXISTS = 'ORGANIZATION_MEMBER_EXISTS',
+  /** Only owners can make owners or change an owner's membership */
+  ORGANIZATION_OWNER_REQUIRED = 'ORGANIZATION_OWNER_REQUIRED',
+  /** The last owner cannot leave the organization */
+  ORGANIZATION_LAST_OWNER = 'ORGANIZATION_LAST_OWNER',
+  /** Invite link is invalid, expired or already used */
+  ORGANIZATION_INVITE_INVALID = 'ORGANIZATION_INVITE_INVALID',
+  /** Invite was sent to another email address */
+  ORGANIZATION_INVITE_EMAIL_MISMATCH = 'ORGANIZATION_INVITE_EMAIL_MISMATCH',
+
+  // Team errors
+  /** Team does not exist in the active organization */
+  TEAM_NOT_FOUND = 'TEAM_NOT_FOUND',
+  /** Another team in the organization has this name */
+  TEAM_NAME_EXISTS = 'TEAM_NAME_EXISTS',
+  /** Target user is not on any of the actor's teams */
+  USER_NOT_IN_TEAM = 'USER_NOT_IN_TEAM',
 }
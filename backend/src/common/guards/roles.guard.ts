@@ -51,8 +51,10 @@ export class RolesGuard implements CanActivate {
       );
     }
 
-    // Check if user's role is in the allowed roles
-    const hasPermission = requiredRoles.includes(user.role as UserRole);
+    // Check if any of the user's roles is in the allowed roles
+    const hasPermission = (user.roles as UserRole[]).some((role) =>
+      requiredRoles.includes(role),
+    );
 
     if (!hasPermission) {
       throw new AppException(
@@ -18,9 +18,12 @@ export { PermissionGuard } from './guards/permission.guard';
 export {
   RequirePermissions,
   RequireAnyPermission,
+  RequireScopedPermission,
   PERMISSIONS_KEY,
   ANY_PERMISSIONS_KEY,
+  SCOPED_PERMISSION_KEY,
 } from './decorators/permissions.decorator';
+export type { ScopedPermission } from './decorators/permissions.decorator';
 
 // Services
 export { HashService } from './services/hash.service';
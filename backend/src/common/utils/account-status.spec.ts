@@ -0,0 +1,156 @@
+import { HttpStatus } from '@nestjs/common';
+import { AccountStatus } from '../../user/enums/account-status.enum';
+import { ErrorCode } from '../enums/error-code.enum';
+import { AppException } from '../exceptions/app.exception';
+import {
+  assertAccountActive,
+  canReactivateAccount,
+  getAccountStatus,
+  setAccountStatus,
+} from './account-status';
+
+describe('Account Status Utilities', () => {
+  describe('getAccountStatus', () => {
+    it('should return the stored status', () => {
+      expect(getAccountStatus({ status: AccountStatus.SUSPENDED })).toBe(
+        AccountStatus.SUSPENDED,
+      );
+    });
+
+    it('should treat legacy deleted users as deactivated', () => {
+      expect(getAccountStatus({ isDeleted: true })).toBe(
+        AccountStatus.DEACTIVATED,
+      );
+      expect(
+        getAccountStatus({ status: AccountStatus.ACTIVE, isDeleted: true }),
+      ).toBe(AccountStatus.DEACTIVATED);
+    });
+
+    it('should default to active', () => {
+      expect(getAccountStatus({})).toBe(AccountStatus.ACTIVE);
+    });
+  });
+
+  describe('assertAccountActive', () => {
+    it('should allow active users', () => {
+      expect(() =>
+        assertAccountActive({ status: AccountStatus.ACTIVE }),
+      ).not.toThrow();
+    });
+
+    it.each([
+      [AccountStatus.SUSPENDED, ErrorCode.ACCOUNT_SUSPENDED],
+      [AccountStatus.DEACTIVATED, ErrorCode.ACCOUNT_DEACTIVATED],
+      [AccountStatus.PENDING_DELETION, ErrorCode.ACCOUNT_PENDING_DELETION],
+    ])('should reject %s users with %s', (status, code) => {
+      expect(() => assertAccountActive({ status })).toThrow(
+        expect.objectContaining({ code, details: { status } }) as Error,
+      );
+    });
+
+    it('should include the suspension reason with a 403', () => {
+      let error: unknown;
+      try {
+        assertAccountActive({
+          status: AccountStatus.SUSPENDED,
+          statusReason: 'Chargeback under review',
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(AppException);
+      expect((error as AppException).getStatus()).toBe(HttpStatus.FORBIDDEN);
+      expect((error as AppException).details).toEqual({
+        status: AccountStatus.SUSPENDED,
+        reason: 'Chargeback under review',
+      });
+    });
+
+    it('should include the reactivation deadline during the grace period', () => {
+      const scheduledDeletionAt = new Date(Date.now() + 60000);
+
+      expect(() =>
+        assertAccountActive({
+          status: AccountStatus.DEACTIVATED,
+          scheduledDeletionAt,
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          details: {
+            status: AccountStatus.DEACTIVATED,
+            reactivateBefore: scheduledDeletionAt.toISOString(),
+          },
+        }) as Error,
+      );
+    });
+  });
+
+  describe('canReactivateAccount', () => {
+    it('should allow deactivated users inside the grace period', () => {
+      expect(
+        canReactivateAccount({
+          status: AccountStatus.DEACTIVATED,
+          scheduledDeletionAt: new Date(Date.now() + 60000),
+        }),
+      ).toBe(true);
+    });
+
+    it.each([
+      [AccountStatus.DEACTIVATED, -60000],
+      [AccountStatus.PENDING_DELETION, 60000],
+      [AccountStatus.SUSPENDED, 60000],
+    ])('should refuse %s users %dms from deletion', (status, offset) => {
+      expect(
+        canReactivateAccount({
+          status,
+          scheduledDeletionAt: new Date(Date.now() + offset),
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('setAccountStatus', () => {
+    it('should mark deactivated users as deleted', () => {
+      const user: Parameters<typeof setAccountStatus>[0] = {};
+
+      setAccountStatus(user, AccountStatus.DEACTIVATED);
+
+      expect(user.status).toBe(AccountStatus.DEACTIVATED);
+      expect(user.isDeleted).toBe(true);
+      expect(user.deletedAt).toBeInstanceOf(Date);
+      expect(user.statusChangedAt).toBeInstanceOf(Date);
+    });
+
+    it('should keep suspended users undeleted and store the reason', () => {
+      const user: Parameters<typeof setAccountStatus>[0] = {};
+
+      setAccountStatus(user, AccountStatus.SUSPENDED, 'Spam');
+
+      expect(user.isDeleted).toBe(false);
+      expect(user.deletedAt).toBeUndefined();
+      expect(user.statusReason).toBe('Spam');
+    });
+
+    it('should clear the deletion and reason on reactivation', () => {
+      const user: Parameters<typeof setAccountStatus>[0] = {};
+      setAccountStatus(user, AccountStatus.PENDING_DELETION, 'Requested');
+
+      setAccountStatus(user, AccountStatus.ACTIVE);
+
+      expect(user.isDeleted).toBe(false);
+      expect(user.deletedAt).toBeUndefined();
+      expect(user.statusReason).toBeUndefined();
+    });
+
+    it('should cancel the scheduled deletion on reactivation', () => {
+      const user: Parameters<typeof setAccountStatus>[0] = {};
+      setAccountStatus(user, AccountStatus.DEACTIVATED);
+      user.scheduledDeletionAt = new Date();
+
+      setAccountStatus(user, AccountStatus.ACTIVE);
+
+      expect(user.scheduledDeletionAt).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { HttpStatus } from '@nestjs/common';
+import { AccountStatus } from '../../user/enums/account-status.enum';
+import { AppException } from '../exceptions/app.exception';
+import { ErrorCode } from '../enums/error-code.enum';
+
+/**
+ * Minimal user shape needed to evaluate the account status
+ */
+interface AccountStatusFields {
+  status?: AccountStatus;
+  statusReason?: string;
+  statusChangedAt?: Date;
+  isDeleted?: boolean;
+  deletedAt?: Date;
+  scheduledDeletionAt?: Date;
+}
+
+/**
+ * Error code and message reported for each blocked status
+ */
+const BLOCKED_STATUS_ERRORS: Record<
+  Exclude<AccountStatus, AccountStatus.ACTIVE>,
+  { code: ErrorCode; message: string }
+> = {
+  [AccountStatus.SUSPENDED]: {
+    code: ErrorCode.ACCOUNT_SUSPENDED,
+    message: 'This account has been suspended',
+  },
+  [AccountStatus.DEACTIVATED]: {
+    code: ErrorCode.ACCOUNT_DEACTIVATED,
+    message: 'This account has been deactivated',
+  },
+  [AccountStatus.PENDING_DELETION]: {
+    code: ErrorCode.ACCOUNT_PENDING_DELETION,
+    message: 'This account has been deleted and is scheduled for removal',
+  },
+};
+
+/**
+ * Resolve the effective status of a user.
+ * Records written before `status` existed only carry `isDeleted`, which is
+ * treated as deactivated.
+ *
+ * @param user - User document or plain object
+ * @returns The account status
+ *
+ * @example
+ * ```typescript
+ * getAccountStatus({ isDeleted: true }); // AccountStatus.DEACTIVATED
+ * getAccountStatus({ status: AccountStatus.SUSPENDED }); // AccountStatus.SUSPENDED
+ * ```
+ */
+export function getAccountStatus(user: AccountStatusFields): AccountStatus {
+  if (user.status && user.status !== AccountStatus.ACTIVE) {
+    return user.status;
+  }
+
+  return user.isDeleted ? AccountStatus.DEACTIVATED : AccountStatus.ACTIVE;
+}
+
+/**
+ * Whether a deactivated account is still inside its deletion grace period
+ * and can be reactivated by its owner
+ *
+ * @param user - User document or plain object
+ */
+export function canReactivateAccount(user: AccountStatusFields): boolean {
+  return (
+    getAccountStatus(user) === AccountStatus.DEACTIVATED &&
+    !!user.scheduledDeletionAt &&
+    user.scheduledDeletionAt > new Date()
+  );
+}
+
+/**
+ * Reject users whose account is not active.
+ * The suspension reason and the reactivation deadline are included in the
+ * error details so that the sign-in page can explain them.
+ *
+ * @param user - User document or plain object
+ * @throws AppException ACCOUNT_SUSPENDED, ACCOUNT_DEACTIVATED or ACCOUNT_PENDING_DELETION
+ */
+export function assertAccountActive(user: AccountStatusFields): void {
+  const status = getAccountStatus(user);
+
+  if (status === AccountStatus.ACTIVE) {
+    return;
+  }
+
+  const { code, message } = BLOCKED_STATUS_ERRORS[status];
+  const details: Record<string, string> = { status };
+  if (status === AccountStatus.SUSPENDED && user.statusReason) {
+    details.reason = user.statusReason;
+  }
+  if (canReactivateAccount(user)) {
+    details.reactivateBefore = user.scheduledDeletionAt!.toISOString();
+  }
+
+  throw new AppException(code, message, HttpStatus.FORBIDDEN, details);
+}
+
+/**
+ * Change the status of a user in place (the caller saves the document).
+ * Keeps the legacy `isDeleted` and `deletedAt` fields in sync, and cancels
+ * any scheduled deletion when the account is no longer removed.
+ *
+ * @param user - User document to update
+ * @param status - New account status
+ * @param reason - Optional reason, cleared when omitted
+ */
+export function setAccountStatus(
+  user: AccountStatusFields,
+  status: AccountStatus,
+  reason?: string,
+): void {
+  const now = new Date();
+  const removed =
+    status === AccountStatus.DEACTIVATED ||
+    status === AccountStatus.PENDING_DELETION;
+
+  user.status = status;
+  user.statusReason = reason || undefined;
+  user.statusChangedAt = now;
+  user.isDeleted = removed;
+  user.deletedAt = removed ? (user.deletedAt ?? now) : undefined;
+  if (!removed) {
+    user.scheduledDeletionAt = undefined;
+  }
+}
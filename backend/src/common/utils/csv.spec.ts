@@ -0,0 +1,24 @@
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('should quote cells containing separators, quotes or line breaks', () => {
+    expect(
+      toCsv(
+        ['name', 'note'],
+        [
+          ['Jane', 'plain'],
+          ['Doe, John', 'said "hi"\nthen left'],
+          ['Empty', null],
+        ],
+      ),
+    ).toBe(
+      'name,note\r\nJane,plain\r\n"Doe, John","said ""hi""\nthen left"\r\nEmpty,',
+    );
+  });
+
+  it('should neutralise cells that would run as formulas', () => {
+    expect(toCsv(['value'], [['=HYPERLINK("x")'], ['-5'], [-5]])).toBe(
+      `value\r\n"'=HYPERLINK(""x"")"\r\n'-5\r\n-5`,
+    );
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Characters that make spreadsheet applications treat a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Build an RFC 4180 CSV document with a header row
+ * Cells that could be read as spreadsheet formulas are prefixed with a quote.
+ */
+export function toCsv(
+  headers: string[],
+  rows: (string | number | boolean | null | undefined)[][],
+): string {
+  return [headers, ...rows]
+    .map((row) => row.map(formatCell).join(','))
+    .join('\r\n');
+}
+
+function formatCell(value: string | number | boolean | null | undefined) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
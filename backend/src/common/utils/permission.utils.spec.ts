@@ -0,0 +1,119 @@
+import {
+  hasAllPermissions,
+  hasAnyPermission,
+  hasPermission,
+  isPermissionDenied,
+  isPermissionPattern,
+  isValidPermission,
+  permissionMatches,
+  toDeniedPermission,
+} from './permission.utils';
+
+describe('permission utils', () => {
+  describe('permissionMatches', () => {
+    it('should match a trailing wildcard against any remaining segments', () => {
+      expect(permissionMatches('users:*', 'users:read')).toBe(true);
+      expect(permissionMatches('users:*', 'users:delete:all')).toBe(true);
+      expect(permissionMatches('users:*', 'roles:read:all')).toBe(false);
+      expect(permissionMatches('users:read:*', 'users:read:own')).toBe(true);
+      expect(permissionMatches('users:read:*', 'users:read')).toBe(false);
+    });
+
+    it('should match an inner wildcard against a single segment', () => {
+      expect(permissionMatches('*:read:own', 'sessions:read:own')).toBe(true);
+      expect(permissionMatches('*:read:own', 'sessions:read:all')).toBe(false);
+      expect(permissionMatches('*:read:own', 'sessions:read')).toBe(false);
+      expect(permissionMatches('users:*:all', 'users:delete:all')).toBe(true);
+    });
+
+    it('should treat segments literally when there is no wildcard', () => {
+      expect(permissionMatches('users:read', 'users:read:all')).toBe(false);
+      expect(permissionMatches('users:read:all', 'users:read:all')).toBe(true);
+    });
+  });
+
+  describe('isPermissionPattern', () => {
+    it('should only flag segment wildcards', () => {
+      expect(isPermissionPattern('users:*')).toBe(true);
+      expect(isPermissionPattern('*:read:own')).toBe(true);
+      expect(isPermissionPattern('*')).toBe(false);
+      expect(isPermissionPattern('users:read:all')).toBe(false);
+    });
+  });
+
+  describe('isValidPermission', () => {
+    it('should accept wildcards in any segment', () => {
+      expect(isValidPermission('users:*')).toBe(true);
+      expect(isValidPermission('users:read:*')).toBe(true);
+      expect(isValidPermission('*:read:own')).toBe(true);
+      expect(isValidPermission('*')).toBe(true);
+    });
+
+    it('should reject partial wildcards and malformed permissions', () => {
+      expect(isValidPermission('users:re*')).toBe(false);
+      expect(isValidPermission('users:**')).toBe(false);
+      expect(isValidPermission('users')).toBe(false);
+      expect(isValidPermission('users:read:all:extra')).toBe(false);
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('should match granted permissions and the wildcard', () => {
+      expect(hasPermission(['users:read:all'], 'users:read:all')).toBe(true);
+      expect(hasPermission(['users:read:all'], 'users:delete:all')).toBe(false);
+      expect(hasPermission(['*'], 'users:delete:all')).toBe(true);
+    });
+
+    it('should match segment wildcards', () => {
+      expect(hasPermission(['users:*'], 'users:delete:all')).toBe(true);
+      expect(hasPermission(['*:read:own'], 'profile:read:own')).toBe(true);
+      expect(hasPermission(['*:read:own'], 'profile:read:all')).toBe(false);
+    });
+
+    it('should let a denied pattern override grants', () => {
+      const permissions = ['users:*', '!users:delete:*'];
+
+      expect(hasPermission(permissions, 'users:delete:all')).toBe(false);
+      expect(hasPermission(permissions, 'users:read:all')).toBe(true);
+    });
+
+    it('should let a denial override the wildcard', () => {
+      const permissions = ['*', toDeniedPermission('users:delete:all')];
+
+      expect(hasPermission(permissions, 'users:delete:all')).toBe(false);
+      expect(hasPermission(permissions, 'users:read:all')).toBe(true);
+    });
+  });
+
+  describe('hasAnyPermission', () => {
+    it('should skip denied permissions', () => {
+      const permissions = ['*', '!users:delete:all'];
+
+      expect(hasAnyPermission(permissions, ['users:delete:all'])).toBe(false);
+      expect(
+        hasAnyPermission(permissions, ['users:delete:all', 'users:read:all']),
+      ).toBe(true);
+    });
+  });
+
+  describe('hasAllPermissions', () => {
+    it('should fail when any required permission is denied', () => {
+      const permissions = ['users:read:all', '!users:update:all', '*'];
+
+      expect(
+        hasAllPermissions(permissions, ['users:read:all', 'users:update:all']),
+      ).toBe(false);
+    });
+  });
+
+  describe('isPermissionDenied', () => {
+    it('should only match the exact denied permission', () => {
+      expect(
+        isPermissionDenied(['!users:delete:all'], 'users:delete:all'),
+      ).toBe(true);
+      expect(isPermissionDenied(['!users:delete:all'], 'users:read:all')).toBe(
+        false,
+      );
+    });
+  });
+});
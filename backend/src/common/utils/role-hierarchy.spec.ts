@@ -7,7 +7,9 @@ import {
   isValidRoleAssignment,
   getManageableRoles,
   getViewableRoles,
+  getRoleLevel,
   ROLE_HIERARCHY,
+  RoleLevels,
 } from './role-hierarchy';
 
 describe('Role Hierarchy Utilities', () => {
@@ -137,4 +139,63 @@ describe('Role Hierarchy Utilities', () => {
       expect(viewableBySupport).toHaveLength(2);
     });
   });
+
+  describe('with custom role levels', () => {
+    const levels: RoleLevels = {
+      ...ROLE_HIERARCHY,
+      'team-lead': 2.5,
+      auditor: 0,
+    };
+
+    it('should rank a custom role between its neighbours', () => {
+      expect(hasMinimumRole('team-lead', UserRole.SUPPORT, levels)).toBe(true);
+      expect(hasMinimumRole('team-lead', UserRole.MANAGER, levels)).toBe(false);
+    });
+
+    it('should let higher roles manage a ranked custom role', () => {
+      expect(canManageUser(UserRole.MANAGER, 'team-lead', levels)).toBe(true);
+      expect(canManageUser('team-lead', UserRole.SUPPORT, levels)).toBe(true);
+      expect(canManageUser(UserRole.SUPPORT, 'team-lead', levels)).toBe(false);
+    });
+
+    it('should leave custom roles without a level to admins', () => {
+      expect(canManageUser(UserRole.MANAGER, 'auditor', levels)).toBe(false);
+      expect(canManageUser(UserRole.ADMIN, 'auditor', levels)).toBe(true);
+      expect(canViewUser('team-lead', 'auditor', levels)).toBe(false);
+    });
+
+    it('should include custom roles in viewable and manageable roles', () => {
+      expect(getViewableRoles(UserRole.MANAGER, levels)).toEqual([
+        UserRole.USER,
+        UserRole.SUPPORT,
+        UserRole.MANAGER,
+        'team-lead',
+      ]);
+      expect(getManageableRoles('team-lead', levels)).toEqual([
+        UserRole.USER,
+        UserRole.SUPPORT,
+      ]);
+      expect(getViewableRoles(UserRole.ADMIN, levels)).toContain('auditor');
+    });
+  });
+
+  describe('with several roles', () => {
+    it('should rank a user at their highest role', () => {
+      expect(getRoleLevel([UserRole.USER, UserRole.MANAGER])).toBe(3);
+      expect(getRoleLevel(['custom-role', UserRole.SUPPORT])).toBe(2);
+      expect(getRoleLevel([])).toBe(0);
+    });
+
+    it('should compare actors and targets by their highest role', () => {
+      expect(
+        canManageUser([UserRole.SUPPORT, UserRole.MANAGER], UserRole.MANAGER),
+      ).toBe(true);
+      expect(
+        canManageUser(UserRole.SUPPORT, [UserRole.USER, UserRole.MANAGER]),
+      ).toBe(false);
+      expect(getViewableRoles([UserRole.USER, UserRole.SUPPORT])).toHaveLength(
+        2,
+      );
+    });
+  });
 });
@@ -1,34 +1,58 @@
 import { UserRole } from '../../user/enums/user-role.enum';
 
+/**
+ * Role levels keyed by role slug.
+ * Higher numeric values indicate higher privileges.
+ */
+export type RoleLevels = Record<string, number>;
+
 /**
  * Role hierarchy for permission checks.
  * Higher numeric values indicate higher privileges.
  * Supports both enum and string-based roles (for migration compatibility).
  * UserRole enum values ('user', 'support', etc.) map to the same keys.
+ * Custom roles get their level from the database (see PermissionService.getRoleLevels).
  */
-export const ROLE_HIERARCHY: Record<string, number> = {
+export const ROLE_HIERARCHY: RoleLevels = {
   user: 1,
   support: 2,
   manager: 3,
   admin: 4,
 } as const;
 
+/**
+ * Level of the admin role. Only admins reach it; custom roles rank below.
+ */
+export const ADMIN_ROLE_LEVEL = ROLE_HIERARCHY.admin;
+
+/**
+ * A role slug, or all the roles of a user
+ */
+export type RoleSlugs = string | UserRole | readonly string[];
+
 /**
  * Get role hierarchy level for a role string.
- * Custom roles (not in hierarchy) default to level 0.
+ * Users with several roles rank at their highest role.
+ * Roles without a level default to 0.
  *
- * @param role - Role slug or UserRole enum value
- * @returns Hierarchy level (0 for custom roles)
+ * @param role - Role slug, UserRole enum value or list of role slugs
+ * @param levels - Role levels (defaults to the system role hierarchy)
+ * @returns Hierarchy level (0 for custom roles without a level)
  */
-function getRoleLevel(role: string | UserRole): number {
-  return ROLE_HIERARCHY[role] ?? 0;
+export function getRoleLevel(
+  role: RoleSlugs,
+  levels: RoleLevels = ROLE_HIERARCHY,
+): number {
+  const roles = typeof role === 'string' ? [role] : role;
+  return Math.max(0, ...roles.map((slug) => levels[slug] ?? 0));
 }
 
 /**
  * Check if a user has at least the minimum required role.
  *
- * @param userRole - The user's current role (string or enum)
+ * @param userRole - The user's current role or roles (string or enum)
  * @param requiredRole - The minimum role required (string or enum)
+ * @param levels - Role levels (defaults to the system role hierarchy)
  * @returns true if user has sufficient permissions
  *
  * @example
@@ -36,22 +60,25 @@ function getRoleLevel(role: string | UserRole): number {
  * hasMinimumRole('manager', 'user'); // true
  * hasMinimumRole('user', 'manager'); // false
  * hasMinimumRole(UserRole.MANAGER, UserRole.USER); // true (backward compat)
+ * hasMinimumRole('team-lead', 'support', { ...ROLE_HIERARCHY, 'team-lead': 2.5 }); // true
  * ```
  */
 export function hasMinimumRole(
-  userRole: string | UserRole,
-  requiredRole: string | UserRole,
+  userRole: RoleSlugs,
+  requiredRole: RoleSlugs,
+  levels: RoleLevels = ROLE_HIERARCHY,
 ): boolean {
-  return getRoleLevel(userRole) >= getRoleLevel(requiredRole);
+  return getRoleLevel(userRole, levels) >= getRoleLevel(requiredRole, levels);
 }
 
 /**
  * Check if an actor can manage a target user based on role hierarchy.
  * A user can only manage users with lower or equal role level.
- * Custom roles (level 0) can only be managed by admins.
+ * Custom roles without a level (level 0) can only be managed by admins.
  *
- * @param actorRole - The role of the user performing the action
- * @param targetRole - The role of the target user
+ * @param actorRole - The role or roles of the user performing the action
+ * @param targetRole - The role or roles of the target user
+ * @param levels - Role levels (defaults to the system role hierarchy)
  * @returns true if actor can manage the target
  *
  * @example
@@ -60,18 +87,20 @@ export function hasMinimumRole(
  * canManageUser('manager', 'admin'); // false
  * canManageUser('manager', 'manager'); // true
  * canManageUser('manager', 'custom-role'); // false (custom roles need admin)
+ * canManageUser('manager', 'team-lead', { ...ROLE_HIERARCHY, 'team-lead': 2.5 }); // true
  * ```
  */
 export function canManageUser(
-  actorRole: string | UserRole,
-  targetRole: string | UserRole,
+  actorRole: RoleSlugs,
+  targetRole: RoleSlugs,
+  levels: RoleLevels = ROLE_HIERARCHY,
 ): boolean {
-  const actorLevel = getRoleLevel(actorRole);
-  const targetLevel = getRoleLevel(targetRole);
+  const actorLevel = getRoleLevel(actorRole, levels);
+  const targetLevel = getRoleLevel(targetRole, levels);
 
-  // Custom roles (level 0) can only be managed by admins (level 4)
+  // Custom roles without a level can only be managed by admins
   if (targetLevel === 0) {
-    return actorLevel === 4; // admin level
+    return actorLevel >= ADMIN_ROLE_LEVEL;
   }
 
   return actorLevel >= targetLevel;
@@ -101,21 +130,23 @@ export function isValidRoleAssignment(newRole: string | UserRole): boolean {
  * A user can view users with same or lower role level.
  * Admins can view all users including custom roles.
  *
- * @param actorRole - The role of the user performing the action
- * @param targetRole - The role of the target user
+ * @param actorRole - The role or roles of the user performing the action
+ * @param targetRole - The role or roles of the target user
+ * @param levels - Role levels (defaults to the system role hierarchy)
  * @returns true if actor can view the target
  */
 export function canViewUser(
-  actorRole: string | UserRole,
-  targetRole: string | UserRole,
+  actorRole: RoleSlugs,
+  targetRole: RoleSlugs,
+  levels: RoleLevels = ROLE_HIERARCHY,
 ): boolean {
-  const actorLevel = getRoleLevel(actorRole);
-  const targetLevel = getRoleLevel(targetRole);
+  const actorLevel = getRoleLevel(actorRole, levels);
+  const targetLevel = getRoleLevel(targetRole, levels);
 
   // Admins can view all users including custom roles
-  if (actorLevel === 4) return true;
+  if (actorLevel >= ADMIN_ROLE_LEVEL) return true;
 
-  // Custom roles (level 0) can only be viewed by admins
+  // Custom roles without a level can only be viewed by admins
   if (targetLevel === 0) return false;
 
   return actorLevel >= targetLevel;
@@ -124,22 +155,24 @@ export function canViewUser(
 /**
  * Check if an actor can modify a target user based on role hierarchy.
  * A user can only modify users with strictly lower role level.
- * Custom roles can only be modified by admins.
+ * Custom roles without a level can only be modified by admins.
  *
- * @param actorRole - The role of the user performing the action
- * @param targetRole - The role of the target user
+ * @param actorRole - The role or roles of the user performing the action
+ * @param targetRole - The role or roles of the target user
+ * @param levels - Role levels (defaults to the system role hierarchy)
  * @returns true if actor can modify the target
  */
 export function canModifyUser(
-  actorRole: string | UserRole,
-  targetRole: string | UserRole,
+  actorRole: RoleSlugs,
+  targetRole: RoleSlugs,
+  levels: RoleLevels = ROLE_HIERARCHY,
 ): boolean {
-  const actorLevel = getRoleLevel(actorRole);
-  const targetLevel = getRoleLevel(targetRole);
+  const actorLevel = getRoleLevel(actorRole, levels);
+  const targetLevel = getRoleLevel(targetRole, levels);
 
-  // Custom roles (level 0) can only be modified by admins
+  // Custom roles without a level can only be modified by admins
   if (targetLevel === 0) {
-    return actorLevel === 4;
+    return actorLevel >= ADMIN_ROLE_LEVEL;
   }
 
   return actorLevel > targetLevel;
@@ -147,28 +180,34 @@ export function canModifyUser(
 
 /**
  * Get roles that an actor can manage (view/modify).
- * Returns array of system role slugs.
+ * Returns the role slugs in `levels` (system roles by default).
  *
- * @param actorRole - The role of the user performing the action
+ * @param actorRole - The role or roles of the user performing the action
+ * @param levels - Role levels (defaults to the system role hierarchy)
  * @returns Array of manageable role slugs
  */
-export function getManageableRoles(actorRole: string | UserRole): string[] {
-  const actorLevel = getRoleLevel(actorRole);
-  const systemRoles = ['user', 'support', 'manager', 'admin'];
-
-  return systemRoles.filter((role) => getRoleLevel(role) < actorLevel);
+export function getManageableRoles(
+  actorRole: RoleSlugs,
+  levels: RoleLevels = ROLE_HIERARCHY,
+): string[] {
+  return Object.keys(levels).filter((role) =>
+    canModifyUser(actorRole, role, levels),
+  );
 }
 
 /**
  * Get roles that an actor can view (includes same level).
- * Returns array of system role slugs.
+ * Returns the role slugs in `levels` (system roles by default).
  *
- * @param actorRole - The role of the user performing the action
+ * @param actorRole - The role or roles of the user performing the action
+ * @param levels - Role levels (defaults to the system role hierarchy)
  * @returns Array of viewable role slugs
  */
-export function getViewableRoles(actorRole: string | UserRole): string[] {
-  const actorLevel = getRoleLevel(actorRole);
-  const systemRoles = ['user', 'support', 'manager', 'admin'];
-
-  return systemRoles.filter((role) => getRoleLevel(role) <= actorLevel);
+export function getViewableRoles(
+  actorRole: RoleSlugs,
+  levels: RoleLevels = ROLE_HIERARCHY,
+): string[] {
+  return Object.keys(levels).filter((role) =>
+    canViewUser(actorRole, role, levels),
+  );
 }
@@ -0,0 +1,60 @@
+import * as zlib from 'zlib';
+import { createZip } from './zip';
+
+/**
+ * Read an archive back through its central directory
+ */
+function readZip(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const count = archive.readUInt16LE(end + 10);
+  let cursor = archive.readUInt32LE(end + 16);
+  const files = new Map<string, string>();
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(cursor)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(cursor + 16);
+    const compressedSize = archive.readUInt32LE(cursor + 20);
+    const nameLength = archive.readUInt16LE(cursor + 28);
+    const localOffset = archive.readUInt32LE(cursor + 42);
+    const name = archive.toString(
+      'utf8',
+      cursor + 46,
+      cursor + 46 + nameLength,
+    );
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const content = zlib.inflateRawSync(
+      archive.subarray(dataStart, dataStart + compressedSize),
+    );
+
+    expect(zlib.crc32(content)).toBe(crc);
+    files.set(name, content.toString('utf8'));
+    cursor += 46 + nameLength;
+  }
+
+  return files;
+}
+
+describe('createZip', () => {
+  it('should store every entry so it can be read back', () => {
+    const archive = createZip([
+      { name: 'profile.json', content: '{"name":"Jane"}' },
+      { name: 'sessions/ünïcode.json', content: Buffer.from('[]') },
+    ]);
+
+    expect([...readZip(archive).entries()]).toEqual([
+      ['profile.json', '{"name":"Jane"}'],
+      ['sessions/ünïcode.json', '[]'],
+    ]);
+  });
+
+  it('should produce a valid empty archive', () => {
+    const archive = createZip([]);
+
+    expect(archive.length).toBe(22);
+    expect(readZip(archive).size).toBe(0);
+  });
+});
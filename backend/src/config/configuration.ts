@@ -6,8 +6,10 @@ import {
   IsOptional,
   IsString,
   IsUrl,
+  Matches,
   Max,
   Min,
+  ValidateIf,
 } from 'class-validator';
 
 /**
@@ -45,6 +47,15 @@ export interface EnvironmentConfig {
   OAUTH_GITHUB_CLIENT_ID?: string;
   OAUTH_GITHUB_CLIENT_SECRET?: string;
   OAUTH_GITHUB_CALLBACK_URL?: string;
+  OAUTH_STATE_EXPIRES_IN?: number;
+
+  // OpenID Connect (per-provider OIDC_<NAME>_* variables are read dynamically)
+  OIDC_PROVIDERS?: string;
+
+  // SAML SSO (connections are managed through the admin API)
+  SAML_BASE_URL?: string;
+  SAML_REQUEST_EXPIRES_IN?: number;
+  SAML_CLOCK_SKEW?: number;
 
   // SMTP
   SMTP_HOST?: string;
@@ -60,10 +71,38 @@ export interface EnvironmentConfig {
   // Session
   SESSION_COOKIE_NAME?: string;
   SESSION_COOKIE_MAX_AGE?: number;
+  SESSION_REUSE_GRACE_PERIOD?: number;
+  SESSION_RENEW_THRESHOLD?: number;
 
   // Activation
   ACTIVATION_CODE_EXPIRES_IN?: number;
   ACTIVATION_MAX_ATTEMPTS?: number;
+
+  // Two-factor authentication
+  TWO_FACTOR_ISSUER?: string;
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN?: number;
+  TWO_FACTOR_ENCRYPTION_KEY?: string;
+
+  // WebAuthn (passkeys)
+  WEBAUTHN_RP_ID?: string;
+  WEBAUTHN_RP_NAME?: string;
+  WEBAUTHN_ORIGIN?: string;
+  WEBAUTHN_CHALLENGE_EXPIRES_IN?: number;
+
+  // Login lockout
+  LOCKOUT_EMAIL_THRESHOLD?: number;
+  LOCKOUT_IP_THRESHOLD?: number;
+  LOCKOUT_BASE_DURATION?: number;
+  LOCKOUT_MAX_DURATION?: number;
+  LOCKOUT_WINDOW?: number;
+
+  // Account deletion
+  ACCOUNT_DELETION_GRACE_PERIOD?: number;
+  ACCOUNT_DELETION_MODE?: 'anonymize' | 'purge';
+  DATA_EXPORT_EXPIRES_IN?: number;
+
+  // Audit log
+  AUDIT_LOG_RETENTION?: number;
 }
 
 /**
@@ -151,6 +190,35 @@ export class EnvironmentVariables {
   @IsOptional()
   OAUTH_GITHUB_CALLBACK_URL?: string;
 
+  @IsInt()
+  @Min(60000)
+  @IsOptional()
+  OAUTH_STATE_EXPIRES_IN?: number;
+
+  // OpenID Connect
+  @Matches(/^[a-z][a-z0-9-]{1,31}(,[a-z][a-z0-9-]{1,31})*$/, {
+    message:
+      'OIDC_PROVIDERS must be a comma-separated list of lowercase provider names',
+  })
+  @IsOptional()
+  OIDC_PROVIDERS?: string;
+
+  // SAML SSO
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  SAML_BASE_URL?: string;
+
+  @IsInt()
+  @Min(60000)
+  @IsOptional()
+  SAML_REQUEST_EXPIRES_IN?: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(300000)
+  @IsOptional()
+  SAML_CLOCK_SKEW?: number;
+
   // SMTP
   @IsString()
   @IsOptional()
@@ -195,6 +263,17 @@ export class EnvironmentVariables {
   @IsOptional()
   SESSION_COOKIE_MAX_AGE?: number;
 
+  @IsInt()
+  @Min(0)
+  @Max(60000)
+  @IsOptional()
+  SESSION_REUSE_GRACE_PERIOD?: number;
+
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  SESSION_RENEW_THRESHOLD?: number;
+
   // Activation
   @IsInt()
   @Min(60000)
@@ -206,6 +285,94 @@ export class EnvironmentVariables {
   @Max(10)
   @IsOptional()
   ACTIVATION_MAX_ATTEMPTS?: number;
+
+  // Two-factor authentication
+  @IsString()
+  @IsOptional()
+  TWO_FACTOR_ISSUER?: string;
+
+  @IsInt()
+  @Min(60000)
+  @IsOptional()
+  TWO_FACTOR_CHALLENGE_EXPIRES_IN?: number;
+
+  // Required in production so TOTP secrets are never encrypted with the development key
+  @ValidateIf(
+    (env: EnvironmentVariables) =>
+      env.NODE_ENV === 'production' || !!env.TWO_FACTOR_ENCRYPTION_KEY,
+  )
+  @Matches(/^[0-9a-fA-F]{64}$/, {
+    message: 'TWO_FACTOR_ENCRYPTION_KEY must be 64 hex characters (32 bytes)',
+  })
+  TWO_FACTOR_ENCRYPTION_KEY?: string;
+
+  // WebAuthn (passkeys)
+  @IsString()
+  @IsOptional()
+  WEBAUTHN_RP_ID?: string;
+
+  @IsString()
+  @IsOptional()
+  WEBAUTHN_RP_NAME?: string;
+
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  WEBAUTHN_ORIGIN?: string;
+
+  @IsInt()
+  @Min(30000)
+  @IsOptional()
+  WEBAUTHN_CHALLENGE_EXPIRES_IN?: number;
+
+  // Login lockout
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  LOCKOUT_EMAIL_THRESHOLD?: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  @IsOptional()
+  LOCKOUT_IP_THRESHOLD?: number;
+
+  @IsInt()
+  @Min(1000)
+  @IsOptional()
+  LOCKOUT_BASE_DURATION?: number;
+
+  @IsInt()
+  @Min(1000)
+  @IsOptional()
+  LOCKOUT_MAX_DURATION?: number;
+
+  @IsInt()
+  @Min(60000)
+  @IsOptional()
+  LOCKOUT_WINDOW?: number;
+
+  // Account deletion
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  ACCOUNT_DELETION_GRACE_PERIOD?: number;
+
+  @IsEnum(['anonymize', 'purge'])
+  @IsOptional()
+  ACCOUNT_DELETION_MODE?: 'anonymize' | 'purge';
+
+  // Personal data export
+  @IsInt()
+  @Min(60000)
+  @IsOptional()
+  DATA_EXPORT_EXPIRES_IN?: number;
+
+  // Audit log
+  @IsInt()
+  @Min(86400000)
+  @IsOptional()
+  AUDIT_LOG_RETENTION?: number;
 }
 
 /**
@@ -241,11 +408,41 @@ export interface Configuration {
   session: {
     cookieName: string;
     cookieMaxAge: number;
+    reuseGracePeriod: number;
+    renewThreshold: number;
   };
   activation: {
     codeExpiresIn: number;
     maxAttempts: number;
   };
+  twoFactor: {
+    issuer: string;
+    challengeExpiresIn: number;
+    encryptionKey: string;
+  };
+  webauthn: {
+    rpId: string;
+    rpName: string;
+    origin: string;
+    challengeExpiresIn: number;
+  };
+  lockout: {
+    emailThreshold: number;
+    ipThreshold: number;
+    baseDuration: number;
+    maxDuration: number;
+    window: number;
+  };
+  accountDeletion: {
+    gracePeriod: number;
+    mode: 'anonymize' | 'purge';
+  };
+  dataExport: {
+    expiresIn: number;
+  };
+  audit: {
+    retention: number;
+  };
   oauth: {
     google: {
       enabled: boolean;
@@ -265,9 +462,86 @@ export interface Configuration {
       clientSecret?: string;
       callbackUrl?: string;
     };
+    stateExpiresIn: number;
+    oidc: Record<string, OidcProviderConfig>;
+  };
+  saml: {
+    baseUrl: string;
+    requestExpiresIn: number;
+    clockSkew: number;
   };
 }
 
+/**
+ * OpenID Connect provider configuration
+ * Built from OIDC_<NAME>_* environment variables for each OIDC_PROVIDERS entry
+ */
+export interface OidcProviderConfig {
+  enabled: boolean;
+  issuer?: string;
+  clientId?: string;
+  clientSecret?: string;
+  callbackUrl?: string;
+  displayName: string;
+  scopes: string[];
+  trustEmail: boolean;
+  claims: {
+    id: string;
+    email: string;
+    emailVerified: string;
+    name: string;
+    firstName: string;
+    lastName: string;
+    picture: string;
+  };
+}
+
+/**
+ * Load OpenID Connect providers listed in OIDC_PROVIDERS
+ * e.g. OIDC_PROVIDERS=keycloak reads OIDC_KEYCLOAK_ISSUER, OIDC_KEYCLOAK_CLIENT_ID...
+ */
+const loadOidcProviders = (): Record<string, OidcProviderConfig> => {
+  const names = (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return Object.fromEntries(
+    names.map((name) => {
+      const prefix = `OIDC_${name.toUpperCase().replace(/-/g, '_')}_`;
+      const env = (key: string): string | undefined =>
+        process.env[`${prefix}${key}`];
+
+      const config: OidcProviderConfig = {
+        enabled: !!(
+          env('ISSUER') &&
+          env('CLIENT_ID') &&
+          env('CLIENT_SECRET') &&
+          env('CALLBACK_URL')
+        ),
+        issuer: env('ISSUER'),
+        clientId: env('CLIENT_ID'),
+        clientSecret: env('CLIENT_SECRET'),
+        callbackUrl: env('CALLBACK_URL'),
+        displayName: env('DISPLAY_NAME') || name,
+        scopes: (env('SCOPES') || 'openid email profile').split(/[\s,]+/),
+        trustEmail: env('TRUST_EMAIL') === 'true',
+        claims: {
+          id: env('CLAIM_ID') || 'sub',
+          email: env('CLAIM_EMAIL') || 'email',
+          emailVerified: env('CLAIM_EMAIL_VERIFIED') || 'email_verified',
+          name: env('CLAIM_NAME') || 'name',
+          firstName: env('CLAIM_FIRST_NAME') || 'given_name',
+          lastName: env('CLAIM_LAST_NAME') || 'family_name',
+          picture: env('CLAIM_PICTURE') || 'picture',
+        },
+      };
+
+      return [name, config];
+    }),
+  );
+};
+
 const configuration = (): Configuration => ({
   server: {
     port: Number.parseInt(process.env.PORT || '3000', 10),
@@ -302,6 +576,14 @@ const configuration = (): Configuration => ({
       process.env.SESSION_COOKIE_MAX_AGE || '604800000',
       10,
     ),
+    reuseGracePeriod: Number.parseInt(
+      process.env.SESSION_REUSE_GRACE_PERIOD || '10000',
+      10,
+    ),
+    renewThreshold: Number.parseInt(
+      process.env.SESSION_RENEW_THRESHOLD || '86400000',
+      10,
+    ),
   },
   activation: {
     codeExpiresIn: Number.parseInt(
@@ -313,6 +595,63 @@ const configuration = (): Configuration => ({
       10,
     ),
   },
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'AuthBoiler',
+    challengeExpiresIn: Number.parseInt(
+      process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '300000',
+      10,
+    ),
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || '',
+  },
+  webauthn: {
+    rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+    rpName: process.env.WEBAUTHN_RP_NAME || 'AuthBoiler',
+    origin:
+      process.env.WEBAUTHN_ORIGIN ||
+      process.env.CLIENT_URL ||
+      'http://localhost:3000',
+    challengeExpiresIn: Number.parseInt(
+      process.env.WEBAUTHN_CHALLENGE_EXPIRES_IN || '300000',
+      10,
+    ),
+  },
+  lockout: {
+    emailThreshold: Number.parseInt(
+      process.env.LOCKOUT_EMAIL_THRESHOLD || '5',
+      10,
+    ),
+    ipThreshold: Number.parseInt(process.env.LOCKOUT_IP_THRESHOLD || '20', 10),
+    baseDuration: Number.parseInt(
+      process.env.LOCKOUT_BASE_DURATION || '60000',
+      10,
+    ),
+    maxDuration: Number.parseInt(
+      process.env.LOCKOUT_MAX_DURATION || '3600000',
+      10,
+    ),
+    window: Number.parseInt(process.env.LOCKOUT_WINDOW || '86400000', 10),
+  },
+  accountDeletion: {
+    gracePeriod: Number.parseInt(
+      process.env.ACCOUNT_DELETION_GRACE_PERIOD || '2592000000',
+      10,
+    ),
+    mode:
+      (process.env.ACCOUNT_DELETION_MODE as 'anonymize' | 'purge') ||
+      'anonymize',
+  },
+  dataExport: {
+    expiresIn: Number.parseInt(
+      process.env.DATA_EXPORT_EXPIRES_IN || '604800000',
+      10,
+    ),
+  },
+  audit: {
+    retention: Number.parseInt(
+      process.env.AUDIT_LOG_RETENTION || '31536000000',
+      10,
+    ),
+  },
   oauth: {
     google: {
       enabled: !!(
@@ -344,6 +683,22 @@ const configuration = (): Configuration => ({
       clientSecret: process.env.OAUTH_GITHUB_CLIENT_SECRET,
       callbackUrl: process.env.OAUTH_GITHUB_CALLBACK_URL,
     },
+    stateExpiresIn: Number.parseInt(
+      process.env.OAUTH_STATE_EXPIRES_IN || '600000',
+      10,
+    ),
+    oidc: loadOidcProviders(),
+  },
+  saml: {
+    baseUrl: (
+      process.env.SAML_BASE_URL ||
+      `http://localhost:${process.env.PORT || '3000'}`
+    ).replace(/\/+$/, ''),
+    requestExpiresIn: Number.parseInt(
+      process.env.SAML_REQUEST_EXPIRES_IN || '600000',
+      10,
+    ),
+    clockSkew: Number.parseInt(process.env.SAML_CLOCK_SKEW || '120000', 10),
   },
 });
 
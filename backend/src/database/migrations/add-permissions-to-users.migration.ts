@@ -61,24 +61,25 @@ export class AddPermissionsToUsersMigration {
         usersProcessed++;
 
         try {
-          // Get default permissions for user's role
-          const roleSlug = user.role.toLowerCase();
-          const defaultPermissions =
-            DEFAULT_ROLE_PERMISSIONS[
-              roleSlug as keyof typeof DEFAULT_ROLE_PERMISSIONS
-            ];
-
-          if (!defaultPermissions) {
-            // Custom role or unknown role - skip
+          // Get default permissions for each of the user's roles
+          const defaultPermissions = user.roles.flatMap(
+            (role) =>
+              DEFAULT_ROLE_PERMISSIONS[
+                role.toLowerCase() as keyof typeof DEFAULT_ROLE_PERMISSIONS
+              ] ?? [],
+          );
+
+          if (defaultPermissions.length === 0) {
+            // Custom or unknown roles only - skip
             this.logger.warn(
-              `Unknown role "${user.role}" for user ${user.email}. Skipping.`,
+              `Unknown roles "${user.roles.join(', ')}" for user ${user.email}. Skipping.`,
             );
             usersSkipped++;
             continue;
           }
 
           // Update user with default permissions
-          user.permissions = [...defaultPermissions];
+          user.permissions = [...new Set(defaultPermissions)];
           await user.save();
 
           this.logger.log(
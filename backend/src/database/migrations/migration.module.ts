@@ -6,6 +6,7 @@ import { User, UserSchema } from '../../user/schemas/user.schema';
 import { Role, RoleSchema } from '../../role/schemas/role.schema';
 import { AuthModule } from '../../auth/auth.module';
 import { CommonModule } from '../../common/common.module';
+import { PermissionModule } from '../../permission/permission.module';
 
 /**
  * Migration module for running database migrations.
@@ -19,6 +20,7 @@ import { CommonModule } from '../../common/common.module';
     ]),
     AuthModule,
     CommonModule,
+    PermissionModule, // Required for AuthGuard
   ],
   controllers: [MigrationController],
   providers: [AddPermissionsToUsersMigration],
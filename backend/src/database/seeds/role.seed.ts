@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { Role, RoleDocument } from '../../role/schemas/role.schema';
+import { ROLE_HIERARCHY } from '../../common/utils/role-hierarchy';
 
 /**
  * Seed service for default system roles.
@@ -23,6 +24,7 @@ export class RoleSeedService {
         slug: 'user',
         description: 'Default role for all customers',
         isSystemRole: true,
+        level: ROLE_HIERARCHY.user,
         isProtected: true, // USER role is protected from deletion/modification
         permissions: ['profile:read:own', 'profile:update:own'],
       },
@@ -31,6 +33,7 @@ export class RoleSeedService {
         slug: 'support',
         description: 'Customer support staff',
         isSystemRole: true,
+        level: ROLE_HIERARCHY.support,
         isProtected: false,
         permissions: [
           'profile:read:own',
@@ -44,6 +47,7 @@ export class RoleSeedService {
         slug: 'manager',
         description: 'Management staff',
         isSystemRole: true,
+        level: ROLE_HIERARCHY.manager,
         isProtected: false,
         permissions: [
           'profile:read:own',
@@ -59,6 +63,7 @@ export class RoleSeedService {
         slug: 'admin',
         description: 'System administrator with full access',
         isSystemRole: true,
+        level: ROLE_HIERARCHY.admin,
         isProtected: false,
         permissions: ['*'], // Wildcard grants all permissions
       },
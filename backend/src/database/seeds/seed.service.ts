@@ -116,7 +116,7 @@ export class SeedService {
         });
 
         this.logger.log(
-          `Created seed user: ${userData.email} (${userData.role})`,
+          `Created seed user: ${userData.email} (${userData.roles.join(', ')})`,
         );
         createdCount++;
       } catch (error) {
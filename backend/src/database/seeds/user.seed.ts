@@ -8,7 +8,7 @@ export interface SeedUser {
   email: string;
   password: string;
   name: string;
-  role: string;
+  roles: string[];
   permissions: string[];
 }
 
@@ -35,14 +35,14 @@ export const SEED_USERS: SeedUser[] = [
     email: 'user@seed.local',
     password: 'User123!',
     name: 'Seed User',
-    role: 'user',
+    roles: ['user'],
     permissions: ['profile:read:own', 'profile:update:own'],
   },
   {
     email: 'support@seed.local',
     password: 'Support123!',
     name: 'Seed Support',
-    role: 'support',
+    roles: ['support'],
     permissions: [
       'profile:read:own',
       'profile:update:own',
@@ -54,7 +54,7 @@ export const SEED_USERS: SeedUser[] = [
     email: 'manager@seed.local',
     password: 'Manager123!',
     name: 'Seed Manager',
-    role: 'manager',
+    roles: ['manager'],
     permissions: [
       'profile:read:own',
       'profile:update:own',
@@ -68,7 +68,7 @@ export const SEED_USERS: SeedUser[] = [
     email: 'admin@seed.local',
     password: 'Admin123!',
     name: 'Seed Admin',
-    role: 'admin',
+    roles: ['admin'],
     permissions: ['*'],
   },
 ];
@@ -139,4 +139,388 @@ export class MailService {
       text,
     });
   }
+
+  /**
+   * Send a passwordless sign-in email with a one-click link and a 6-digit code
+   * @param email - Recipient email address
+   * @param name - Recipient's name
+   * @param details - Sign-in link and the code for signing in on another device
+   */
+  async sendPasswordlessLogin(
+    email: string,
+    name: string,
+    details: { link: string; code: string },
+  ): Promise<void> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your Sign-in Link</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #333;">Your Sign-in Link</h2>
+            <p>Hi ${name},</p>
+            <p>Click the button below to sign in. No password needed.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${details.link}" style="background-color: #007bff; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold;">Sign in</a>
+            </div>
+            <p>Or enter this 6-digit code on the sign-in page:</p>
+            <div style="background-color: #f5f5f5; padding: 20px; text-align: center; border-radius: 5px; margin: 20px 0;">
+              <span style="font-size: 32px; font-weight: bold; letter-spacing: 5px; color: #007bff;">${details.code}</span>
+            </div>
+            <p>The link and code can be used once and expire in 15 minutes.</p>
+            <p>If you didn't try to sign in, you can safely ignore this email.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi ${name},\n\nOpen this link to sign in. No password needed:\n\n${details.link}\n\nOr enter this 6-digit code on the sign-in page:\n\n${details.code}\n\nThe link and code can be used once and expire in 15 minutes.\n\nIf you didn't try to sign in, you can safely ignore this email.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: 'Your Sign-in Link',
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send a notice that repeated failed sign-ins locked an account,
+   * with a link that lifts the lock early
+   * @param email - Recipient email address
+   * @param name - Recipient's name
+   * @param details - Unlock link and when the lock expires on its own
+   */
+  async sendAccountLocked(
+    email: string,
+    name: string,
+    details: { link: string; lockedUntil: Date },
+  ): Promise<void> {
+    const lockedUntil = details.lockedUntil.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Account Temporarily Locked</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #dc3545;">Account Temporarily Locked</h2>
+            <p>Hi ${name},</p>
+            <p>There were too many failed sign-in attempts on your account, so we locked it until ${lockedUntil}.</p>
+            <p>If it was you, click the button below to unlock your account now:</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${details.link}" style="background-color: #007bff; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold;">Unlock my account</a>
+            </div>
+            <p>If it wasn't you, someone may be guessing your password. Consider changing it once you are signed in.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi ${name},\n\nThere were too many failed sign-in attempts on your account, so we locked it until ${lockedUntil}.\n\nIf it was you, open this link to unlock your account now:\n\n${details.link}\n\nIf it wasn't you, someone may be guessing your password. Consider changing it once you are signed in.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: 'Account Temporarily Locked',
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send a confirmation that an account was deleted, with a link for
+   * reactivating it before the grace period ends
+   * @param email - Recipient email address
+   * @param name - Recipient's name
+   * @param details - Reactivation link and when the account is removed for good
+   */
+  async sendAccountDeactivated(
+    email: string,
+    name: string,
+    details: { link: string; deleteAt: Date },
+  ): Promise<void> {
+    const deleteAt = details.deleteAt.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your Account Has Been Deleted</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #333;">Your Account Has Been Deleted</h2>
+            <p>Hi ${name},</p>
+            <p>Your account has been deleted and you have been signed out everywhere. Your data will be permanently erased on ${deleteAt}.</p>
+            <p>Changed your mind? You can reactivate your account until then:</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${details.link}" style="background-color: #007bff; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold;">Reactivate my account</a>
+            </div>
+            <p>If you didn't delete your account, reactivate it and change your password immediately.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi ${name},\n\nYour account has been deleted and you have been signed out everywhere. Your data will be permanently erased on ${deleteAt}.\n\nChanged your mind? Open this link to reactivate your account until then:\n\n${details.link}\n\nIf you didn't delete your account, reactivate it and change your password immediately.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: 'Your Account Has Been Deleted',
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send the code for reactivating a deleted account
+   * @param email - Recipient email address
+   * @param code - 6-digit reactivation code
+   * @param name - Recipient's name
+   */
+  async sendReactivationCode(
+    email: string,
+    code: string,
+    name: string,
+  ): Promise<void> {
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Reactivate Your Account</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #333;">Reactivate Your Account</h2>
+            <p>Hi ${name},</p>
+            <p>You asked to reactivate your deleted account. Please use the following 6-digit code:</p>
+            <div style="background-color: #f5f5f5; padding: 20px; text-align: center; border-radius: 5px; margin: 20px 0;">
+              <span style="font-size: 32px; font-weight: bold; letter-spacing: 5px; color: #007bff;">${code}</span>
+            </div>
+            <p>This code will expire in 15 minutes.</p>
+            <p>If you didn't request this code, you can safely ignore this email. Your account will stay deleted.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi ${name},\n\nYou asked to reactivate your deleted account. Please use the following 6-digit code:\n\n${code}\n\nThis code will expire in 15 minutes.\n\nIf you didn't request this code, you can safely ignore this email. Your account will stay deleted.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: 'Reactivate Your Account',
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send a security alert after a reused session token revoked a login
+   * @param email - Recipient email address
+   * @param name - Recipient's name
+   * @param details - Where the reused token was presented from
+   */
+  async sendSessionReuseAlert(
+    email: string,
+    name: string,
+    details: { ip: string; userAgent: string; detectedAt: Date },
+  ): Promise<void> {
+    const detectedAt = details.detectedAt.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Suspicious Sign-in Activity</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #dc3545;">Suspicious Sign-in Activity</h2>
+            <p>Hi ${name},</p>
+            <p>An old session token for your account was used after it had already been replaced. This can happen when a session cookie is stolen, so we signed out every device that shared that login.</p>
+            <div style="background-color: #f5f5f5; padding: 20px; border-radius: 5px; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Time:</strong> ${detectedAt}</p>
+              <p style="margin: 0;"><strong>IP address:</strong> ${details.ip}</p>
+              <p style="margin: 0;"><strong>Device:</strong> ${details.userAgent}</p>
+            </div>
+            <p>If you don't recognise this activity, please sign in again and change your password.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi ${name},\n\nAn old session token for your account was used after it had already been replaced. This can happen when a session cookie is stolen, so we signed out every device that shared that login.\n\nTime: ${detectedAt}\nIP address: ${details.ip}\nDevice: ${details.userAgent}\n\nIf you don't recognise this activity, please sign in again and change your password.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: 'Suspicious Sign-in Activity',
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send a notification that a 2FA recovery code was used to sign in
+   * @param email - Recipient email address
+   * @param name - User's name
+   * @param details - Request details and remaining recovery codes
+   */
+  async sendRecoveryCodeUsedAlert(
+    email: string,
+    name: string,
+    details: { ip: string; userAgent: string; usedAt: Date; remaining: number },
+  ): Promise<void> {
+    const usedAt = details.usedAt.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Recovery Code Used</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #333;">Recovery Code Used</h2>
+            <p>Hi ${name},</p>
+            <p>A two-factor recovery code was just used to sign in to your account. That code can no longer be used.</p>
+            <div style="background-color: #f5f5f5; padding: 20px; border-radius: 5px; margin: 20px 0;">
+              <p style="margin: 0;"><strong>Time:</strong> ${usedAt}</p>
+              <p style="margin: 0;"><strong>IP address:</strong> ${details.ip}</p>
+              <p style="margin: 0;"><strong>Device:</strong> ${details.userAgent}</p>
+              <p style="margin: 0;"><strong>Recovery codes left:</strong> ${details.remaining}</p>
+            </div>
+            <p>If this wasn't you, change your password and regenerate your recovery codes from the settings page immediately.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi ${name},\n\nA two-factor recovery code was just used to sign in to your account. That code can no longer be used.\n\nTime: ${usedAt}\nIP address: ${details.ip}\nDevice: ${details.userAgent}\nRecovery codes left: ${details.remaining}\n\nIf this wasn't you, change your password and regenerate your recovery codes from the settings page immediately.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: 'Recovery Code Used',
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send the download link for a personal data export
+   * @param email - Recipient email address
+   * @param name - Recipient's name
+   * @param details - Download link and when it stops working
+   */
+  async sendDataExportReady(
+    email: string,
+    name: string,
+    details: { link: string; expiresAt: Date },
+  ): Promise<void> {
+    const expiresAt = details.expiresAt.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Your Data Export Is Ready</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #333;">Your Data Export Is Ready</h2>
+            <p>Hi ${name},</p>
+            <p>The copy of your data you requested is ready. Sign in and download it before ${expiresAt}:</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${details.link}" style="background-color: #007bff; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold;">Download my data</a>
+            </div>
+            <p>The export includes your profile, sessions with IP addresses and devices, and permission grants. Keep the file somewhere safe.</p>
+            <p>If you didn't request this export, change your password immediately.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi ${name},\n\nThe copy of your data you requested is ready. Sign in and download it before ${expiresAt}:\n\n${details.link}\n\nThe export includes your profile, sessions with IP addresses and devices, and permission grants. Keep the file somewhere safe.\n\nIf you didn't request this export, change your password immediately.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: 'Your Data Export Is Ready',
+      html,
+      text,
+    });
+  }
+
+  /**
+   * Send an invitation to join an organization
+   * @param email - Recipient email address
+   * @param details - Organization, who sent the invite, the link and when it expires
+   */
+  async sendOrganizationInvite(
+    email: string,
+    details: {
+      organizationName: string;
+      inviterName: string;
+      link: string;
+      expiresAt: Date;
+    },
+  ): Promise<void> {
+    const expiresAt = details.expiresAt.toUTCString();
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Join ${details.organizationName}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+          <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+            <h2 style="color: #333;">Join ${details.organizationName}</h2>
+            <p>Hi,</p>
+            <p>${details.inviterName} invited you to join <strong>${details.organizationName}</strong>. Sign in or create an account with this email address, then accept the invite:</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${details.link}" style="background-color: #007bff; color: #fff; padding: 12px 24px; border-radius: 5px; text-decoration: none; font-weight: bold;">Accept invite</a>
+            </div>
+            <p>The invite expires on ${expiresAt}.</p>
+            <p>If you weren't expecting this invite, you can safely ignore this email.</p>
+            <p>Best regards,<br>The Team</p>
+          </div>
+        </body>
+      </html>
+    `;
+
+    const text = `Hi,\n\n${details.inviterName} invited you to join ${details.organizationName}. Sign in or create an account with this email address, then open this link to accept the invite:\n\n${details.link}\n\nThe invite expires on ${expiresAt}.\n\nIf you weren't expecting this invite, you can safely ignore this email.\n\nBest regards,\nThe Team`;
+
+    await this.sendMail({
+      to: email,
+      subject: `Join ${details.organizationName}`,
+      html,
+      text,
+    });
+  }
 }
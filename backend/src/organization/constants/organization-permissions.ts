@@ -0,0 +1,25 @@
+import { ORGANIZATION_PERMISSIONS } from '../../common/constants/permissions';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+/**
+ * Permissions each membership role gives within the active organization.
+ * They are all team-scoped, so they never satisfy a check for :all.
+ */
+export const ORGANIZATION_ROLE_PERMISSIONS: Record<
+  OrganizationRole,
+  readonly string[]
+> = {
+  [OrganizationRole.OWNER]: Object.values(ORGANIZATION_PERMISSIONS),
+  [OrganizationRole.ADMIN]: [
+    ORGANIZATION_PERMISSIONS.READ_TEAM,
+    ORGANIZATION_PERMISSIONS.UPDATE_TEAM,
+    ORGANIZATION_PERMISSIONS.INVITE_TEAM,
+    ORGANIZATION_PERMISSIONS.MANAGE_TEAM,
+  ],
+  [OrganizationRole.MEMBER]: [ORGANIZATION_PERMISSIONS.READ_TEAM],
+};
+
+/**
+ * How long an organization invite link stays valid (7 days)
+ */
+export const ORGANIZATION_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
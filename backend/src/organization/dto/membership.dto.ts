@@ -0,0 +1,49 @@
+import { IsEmail, IsEnum, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+/**
+ * DTO for inviting someone to the active organization
+ */
+export class InviteMemberDto {
+  @ApiProperty({
+    description: 'Email address to send the invite to',
+    example: 'colleague@example.com',
+  })
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email!: string;
+
+  @ApiProperty({
+    description: 'Role the invitee gets on joining',
+    enum: OrganizationRole,
+    example: OrganizationRole.MEMBER,
+  })
+  @IsEnum(OrganizationRole, { message: 'Invalid organization role' })
+  role!: OrganizationRole;
+}
+
+/**
+ * DTO for changing a member's role in the active organization
+ */
+export class UpdateMemberRoleDto {
+  @ApiProperty({
+    description: 'New role of the member',
+    enum: OrganizationRole,
+    example: OrganizationRole.ADMIN,
+  })
+  @IsEnum(OrganizationRole, { message: 'Invalid organization role' })
+  role!: OrganizationRole;
+}
+
+/**
+ * DTO carrying the token from an emailed invite link
+ */
+export class AcceptInviteDto {
+  @ApiProperty({
+    description: 'Token from the invite email',
+    example: 'a3f1c9e2...',
+  })
+  @IsString({ message: 'Token must be a string' })
+  @Matches(/^[a-f0-9]{64}$/, { message: 'Invalid invite token' })
+  token!: string;
+}
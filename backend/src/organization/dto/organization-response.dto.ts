@@ -0,0 +1,78 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+/**
+ * An organization as seen by one of its members
+ */
+export class OrganizationResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  id!: string;
+
+  @ApiProperty({ example: 'Acme Inc.' })
+  name!: string;
+
+  @ApiProperty({ example: 'acme-inc' })
+  slug!: string;
+
+  @ApiProperty({
+    description: "The requesting user's role in the organization",
+    enum: OrganizationRole,
+    example: OrganizationRole.OWNER,
+  })
+  role!: OrganizationRole;
+
+  @ApiProperty({
+    description: "Whether this is the requesting user's active organization",
+    example: true,
+  })
+  isActive!: boolean;
+
+  @ApiProperty({ example: '2026-10-01T12:00:00.000Z' })
+  createdAt!: Date;
+}
+
+/**
+ * A member of an organization
+ */
+export class OrganizationMemberDto {
+  @ApiProperty({ description: 'User ID', example: '507f1f77bcf86cd799439012' })
+  userId!: string;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  name!: string;
+
+  @ApiProperty({ example: 'jane@example.com' })
+  email!: string;
+
+  @ApiProperty({ enum: OrganizationRole, example: OrganizationRole.MEMBER })
+  role!: OrganizationRole;
+
+  @ApiProperty({
+    description: 'When the user joined',
+    example: '2026-10-01T12:00:00.000Z',
+  })
+  joinedAt!: Date;
+}
+
+/**
+ * An invite that has not been accepted yet
+ */
+export class OrganizationInviteDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439013' })
+  id!: string;
+
+  @ApiProperty({ example: 'colleague@example.com' })
+  email!: string;
+
+  @ApiProperty({ enum: OrganizationRole, example: OrganizationRole.MEMBER })
+  role!: OrganizationRole;
+
+  @ApiPropertyOptional({
+    description: 'Name of the member who sent the invite',
+    example: 'Jane Doe',
+  })
+  invitedBy?: string;
+
+  @ApiProperty({ example: '2026-10-08T12:00:00.000Z' })
+  expiresAt!: Date;
+}
@@ -0,0 +1,54 @@
+import {
+  IsMongoId,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Letters, numbers, spaces and common punctuation in company names
+ */
+const ORGANIZATION_NAME_REGEX = /^[\p{L}\p{N}\s&.,'-]+$/u;
+
+/**
+ * DTO for creating an organization
+ */
+export class CreateOrganizationDto {
+  @ApiProperty({
+    description: 'Display name of the organization',
+    example: 'Acme Inc.',
+    minLength: 2,
+    maxLength: 80,
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(80)
+  @Matches(ORGANIZATION_NAME_REGEX, {
+    message:
+      "Organization name can only contain letters, numbers, spaces and & . , ' -",
+  })
+  name!: string;
+}
+
+/**
+ * DTO for renaming the active organization
+ */
+export class UpdateOrganizationDto extends CreateOrganizationDto {}
+
+/**
+ * DTO for switching the active organization
+ */
+export class SwitchOrganizationDto {
+  @ApiPropertyOptional({
+    description:
+      'Organization to make active; omit or send null to work outside any organization',
+    example: '507f1f77bcf86cd799439011',
+    nullable: true,
+  })
+  @IsOptional()
+  @IsMongoId({ message: 'Invalid organization ID' })
+  organizationId?: string | null;
+}
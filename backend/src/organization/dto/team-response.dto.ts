@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * A member of a team
+ */
+export class TeamMemberDto {
+  @ApiProperty({ description: 'User ID', example: '507f1f77bcf86cd799439012' })
+  userId!: string;
+
+  @ApiProperty({ example: 'Jane Doe' })
+  name!: string;
+
+  @ApiProperty({ example: 'jane@example.com' })
+  email!: string;
+}
+
+/**
+ * A team in the active organization with its members
+ */
+export class TeamResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439014' })
+  id!: string;
+
+  @ApiProperty({ example: 'Customer Success' })
+  name!: string;
+
+  @ApiProperty({ type: [TeamMemberDto] })
+  members!: TeamMemberDto[];
+
+  @ApiProperty({ example: '2026-10-01T12:00:00.000Z' })
+  createdAt!: Date;
+}
@@ -0,0 +1,35 @@
+import { IsMongoId, IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO for creating a team in the active organization
+ */
+export class CreateTeamDto {
+  @ApiProperty({
+    description: 'Name of the team, unique within the organization',
+    example: 'Customer Success',
+    minLength: 2,
+    maxLength: 60,
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(60)
+  name!: string;
+}
+
+/**
+ * DTO for renaming a team
+ */
+export class UpdateTeamDto extends CreateTeamDto {}
+
+/**
+ * DTO for adding an organization member to a team
+ */
+export class AddTeamMemberDto {
+  @ApiProperty({
+    description: 'User ID of the organization member',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsMongoId({ message: 'Invalid user ID' })
+  userId!: string;
+}
@@ -0,0 +1,8 @@
+/**
+ * Role of a member within an organization
+ */
+export enum OrganizationRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
@@ -0,0 +1,98 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  SCOPED_PERMISSION_KEY,
+  ScopedPermission,
+} from '../../common/decorators/permissions.decorator';
+import { PERMISSION_SCOPES } from '../../common/constants/permissions';
+import { hasPermission } from '../../common/utils/permission.utils';
+import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { RequestWithUser } from '../../auth/guards/auth.guard';
+import { TeamService } from '../team.service';
+
+/**
+ * Guard that resolves the scope of a permission against the target user.
+ * Works with the @RequireScopedPermission decorator.
+ *
+ * The all scope allows any target. The team scope allows targets on one of
+ * the actor's teams in their active organization; routes without a target
+ * parameter are let through so the handler can limit what it returns.
+ *
+ * @example
+ * ```typescript
+ * @UseGuards(AuthGuard, ScopedPermissionGuard)
+ * @RequireScopedPermission('users', 'update', 'id')
+ * @Patch(':id')
+ * async updateUser(@Param('id') id: string) {
+ *   return this.adminService.updateUser(id);
+ * }
+ * ```
+ */
+@Injectable()
+export class ScopedPermissionGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private readonly teamService: TeamService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<ScopedPermission>(
+      SCOPED_PERMISSION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!required) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+    const user = request.user;
+
+    if (!user) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    const { resource, action, param } = required;
+    const allPermission = `${resource}:${action}:${PERMISSION_SCOPES.ALL}`;
+    const teamPermission = `${resource}:${action}:${PERMISSION_SCOPES.TEAM}`;
+
+    if (hasPermission(user.permissions, allPermission)) {
+      return true;
+    }
+
+    if (!hasPermission(user.permissions, teamPermission)) {
+      throw new ForbiddenException(
+        `Missing at least one required permission: ${allPermission}, ${teamPermission}`,
+      );
+    }
+
+    const targetId = param ? request.params[param] : undefined;
+    if (targetId === undefined) {
+      return true;
+    }
+
+    if (
+      typeof targetId !== 'string' ||
+      !(await this.teamService.isTeammate(
+        user.id,
+        targetId,
+        user.organization?.id,
+      ))
+    ) {
+      throw new AppException(
+        ErrorCode.USER_NOT_IN_TEAM,
+        'You can only manage users on your own team',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,9 @@
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+/**
+ * The organization a request acts in, and the requesting user's role in it
+ */
+export interface ActiveOrganization {
+  id: string;
+  role: OrganizationRole;
+}
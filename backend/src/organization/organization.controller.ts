@@ -0,0 +1,427 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { OrganizationService } from './organization.service';
+import {
+  CreateOrganizationDto,
+  SwitchOrganizationDto,
+  UpdateOrganizationDto,
+} from './dto/organization.dto';
+import {
+  AcceptInviteDto,
+  InviteMemberDto,
+  UpdateMemberRoleDto,
+} from './dto/membership.dto';
+import {
+  OrganizationInviteDto,
+  OrganizationMemberDto,
+  OrganizationResponseDto,
+} from './dto/organization-response.dto';
+import { ActiveOrganization } from './interfaces/active-organization.interface';
+import { UserService } from '../user/user.service';
+import { UserProfileDto } from '../user/dto/user-profile.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequestAuditContext } from '../audit/decorators/audit-context.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { PermissionGuard } from '../common/guards/permission.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { ORGANIZATION_PERMISSIONS } from '../common/constants/permissions';
+import { ApiResponse as ApiResponseDto } from '../common/dto/api-response.dto';
+
+/**
+ * Organization controller.
+ * Any signed-in user can create organizations, switch between the ones they
+ * belong to and accept invites. Endpoints under `current` act on the active
+ * organization and require the matching permission from the user's role in it.
+ */
+@ApiTags('organizations')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations')
+@UseGuards(AuthGuard, PermissionGuard)
+export class OrganizationController {
+  constructor(
+    private readonly organizationService: OrganizationService,
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * List the organizations the current user belongs to
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List my organizations',
+    description:
+      'Organizations the current user is a member of, with their role in each.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Organizations retrieved successfully',
+    type: [OrganizationResponseDto],
+  })
+  async findMine(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponseDto<OrganizationResponseDto[]>> {
+    const data = await this.organizationService.listForUser(userId);
+    return {
+      success: true,
+      message: 'Organizations retrieved successfully',
+      data,
+    };
+  }
+
+  /**
+   * Create an organization owned by the current user
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create organization',
+    description:
+      'Create an organization with the current user as its owner and make it active.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Organization created successfully',
+    type: OrganizationResponseDto,
+  })
+  async create(
+    @CurrentUser('id') userId: string,
+    @Body() dto: CreateOrganizationDto,
+    @RequestAuditContext() auditContext: AuditContext,
+  ): Promise<ApiResponseDto<OrganizationResponseDto>> {
+    const data = await this.organizationService.create(
+      userId,
+      dto,
+      auditContext,
+    );
+    return {
+      success: true,
+      message: 'Organization created successfully',
+      data,
+    };
+  }
+
+  /**
+   * Switch the active organization
+   */
+  @Put('active')
+  @ApiOperation({
+    summary: 'Switch active organization',
+    description:
+      'Make one of your organizations active, or none. Returns the updated profile with the permissions that now apply.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Active organization switched successfully',
+    type: UserProfileDto,
+  })
+  @ApiResponse({ status: 404, description: 'Organization not found' })
+  async switchActive(
+    @CurrentUser('id') userId: string,
+    @Body() dto: SwitchOrganizationDto,
+  ): Promise<ApiResponseDto<UserProfileDto>> {
+    await this.organizationService.switchOrganization(
+      userId,
+      dto.organizationId,
+    );
+    return this.userService.getProfile(userId);
+  }
+
+  /**
+   * Accept an emailed invite
+   */
+  @Post('invites/accept')
+  @ApiOperation({
+    summary: 'Accept organization invite',
+    description:
+      'Join the organization an invite was sent for and make it active. The invite must have been sent to your email address.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Invite accepted successfully',
+    type: OrganizationResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid or expired invite' })
+  @ApiResponse({
+    status: 403,
+    description: 'Invite was sent to a different email address',
+  })
+  async acceptInvite(
+    @CurrentUser('id') userId: string,
+    @Body() dto: AcceptInviteDto,
+    @RequestAuditContext() auditContext: AuditContext,
+  ): Promise<ApiResponseDto<OrganizationResponseDto>> {
+    const data = await this.organizationService.acceptInvite(
+      userId,
+      dto.token,
+      auditContext,
+    );
+    return {
+      success: true,
+      message: 'Invite accepted successfully',
+      data,
+    };
+  }
+
+  /**
+   * Get the active organization
+   */
+  @Get('current')
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.READ_TEAM)
+  @ApiOperation({ summary: 'Get active organization' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organization retrieved successfully',
+    type: OrganizationResponseDto,
+  })
+  async findCurrent(
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<OrganizationResponseDto>> {
+    const data = await this.organizationService.getCurrent(organization);
+    return {
+      success: true,
+      message: 'Organization retrieved successfully',
+      data,
+    };
+  }
+
+  /**
+   * Rename the active organization
+   */
+  @Patch('current')
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.UPDATE_TEAM)
+  @ApiOperation({ summary: 'Update active organization' })
+  @ApiResponse({
+    status: 200,
+    description: 'Organization updated successfully',
+    type: OrganizationResponseDto,
+  })
+  async updateCurrent(
+    @Body() dto: UpdateOrganizationDto,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<OrganizationResponseDto>> {
+    const data = await this.organizationService.update(organization, dto);
+    return {
+      success: true,
+      message: 'Organization updated successfully',
+      data,
+    };
+  }
+
+  /**
+   * Delete the active organization
+   */
+  @Delete('current')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.DELETE_TEAM)
+  @ApiOperation({
+    summary: 'Delete active organization',
+    description:
+      'Delete the organization along with all memberships and pending invites.',
+  })
+  @ApiResponse({
+    status: 204,
+    description: 'Organization deleted successfully',
+  })
+  async deleteCurrent(
+    @RequestAuditContext() auditContext: AuditContext,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<void> {
+    await this.organizationService.delete(organization, auditContext);
+  }
+
+  /**
+   * List members of the active organization
+   */
+  @Get('current/members')
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.READ_TEAM)
+  @ApiOperation({ summary: 'List organization members' })
+  @ApiResponse({
+    status: 200,
+    description: 'Members retrieved successfully',
+    type: [OrganizationMemberDto],
+  })
+  async findMembers(
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<OrganizationMemberDto[]>> {
+    const data = await this.organizationService.listMembers(organization);
+    return {
+      success: true,
+      message: 'Members retrieved successfully',
+      data,
+    };
+  }
+
+  /**
+   * Change a member's role in the active organization
+   */
+  @Patch('current/members/:userId')
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.MANAGE_TEAM)
+  @ApiOperation({
+    summary: 'Update member role',
+    description:
+      'Change the role of a member. Only owners can grant or change the owner role.',
+  })
+  @ApiParam({ name: 'userId', description: 'User ID of the member' })
+  @ApiResponse({
+    status: 200,
+    description: 'Member role updated successfully',
+    type: OrganizationMemberDto,
+  })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  async updateMemberRole(
+    @Param('userId') userId: string,
+    @Body() dto: UpdateMemberRoleDto,
+    @RequestAuditContext() auditContext: AuditContext,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<OrganizationMemberDto>> {
+    const data = await this.organizationService.updateMemberRole(
+      organization,
+      userId,
+      dto.role,
+      auditContext,
+    );
+    return {
+      success: true,
+      message: 'Member role updated successfully',
+      data,
+    };
+  }
+
+  /**
+   * Remove a member from the active organization
+   */
+  @Delete('current/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.MANAGE_TEAM)
+  @ApiOperation({
+    summary: 'Remove member',
+    description: 'Only owners can remove other owners.',
+  })
+  @ApiParam({ name: 'userId', description: 'User ID of the member' })
+  @ApiResponse({ status: 204, description: 'Member removed successfully' })
+  @ApiResponse({ status: 404, description: 'Member not found' })
+  async removeMember(
+    @Param('userId') userId: string,
+    @RequestAuditContext() auditContext: AuditContext,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<void> {
+    await this.organizationService.removeMember(
+      organization,
+      userId,
+      auditContext,
+    );
+  }
+
+  /**
+   * Leave the active organization
+   */
+  @Post('current/leave')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.READ_TEAM)
+  @ApiOperation({
+    summary: 'Leave organization',
+    description:
+      'Leave the active organization. The last owner cannot leave until another member is made owner.',
+  })
+  @ApiResponse({ status: 204, description: 'Left organization successfully' })
+  @ApiResponse({ status: 409, description: 'You are the last owner' })
+  async leave(
+    @CurrentUser('id') userId: string,
+    @RequestAuditContext() auditContext: AuditContext,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<void> {
+    await this.organizationService.leave(organization, userId, auditContext);
+  }
+
+  /**
+   * List pending invites to the active organization
+   */
+  @Get('current/invites')
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.INVITE_TEAM)
+  @ApiOperation({ summary: 'List pending invites' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invites retrieved successfully',
+    type: [OrganizationInviteDto],
+  })
+  async findInvites(
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<OrganizationInviteDto[]>> {
+    const data = await this.organizationService.listInvites(organization);
+    return {
+      success: true,
+      message: 'Invites retrieved successfully',
+      data,
+    };
+  }
+
+  /**
+   * Invite someone to the active organization by email
+   */
+  @Post('current/invites')
+  @HttpCode(HttpStatus.CREATED)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.INVITE_TEAM)
+  @ApiOperation({
+    summary: 'Invite member',
+    description:
+      'Email an invite link. Inviting the same address again replaces the earlier invite. Only owners can invite owners.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Invite sent successfully',
+    type: OrganizationInviteDto,
+  })
+  @ApiResponse({ status: 409, description: 'Already a member' })
+  async invite(
+    @Body() dto: InviteMemberDto,
+    @RequestAuditContext() auditContext: AuditContext,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<OrganizationInviteDto>> {
+    const data = await this.organizationService.invite(
+      organization,
+      dto,
+      auditContext,
+    );
+    return {
+      success: true,
+      message: 'Invite sent successfully',
+      data,
+    };
+  }
+
+  /**
+   * Revoke a pending invite
+   */
+  @Delete('current/invites/:inviteId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.INVITE_TEAM)
+  @ApiOperation({ summary: 'Revoke invite' })
+  @ApiParam({ name: 'inviteId', description: 'Invite ID' })
+  @ApiResponse({ status: 204, description: 'Invite revoked successfully' })
+  @ApiResponse({ status: 404, description: 'Invite not found' })
+  async revokeInvite(
+    @Param('inviteId') inviteId: string,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<void> {
+    await this.organizationService.revokeInvite(organization, inviteId);
+  }
+}
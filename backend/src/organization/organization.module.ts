@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OrganizationController } from './organization.controller';
+import { OrganizationService } from './organization.service';
+import { TeamController } from './team.controller';
+import { TeamService } from './team.service';
+import {
+  Organization,
+  OrganizationSchema,
+} from './schemas/organization.schema';
+import { Membership, MembershipSchema } from './schemas/membership.schema';
+import {
+  OrganizationInvite,
+  OrganizationInviteSchema,
+} from './schemas/organization-invite.schema';
+import { Team, TeamSchema } from './schemas/team.schema';
+import { User, UserSchema } from '../user/schemas/user.schema';
+import { AuthModule } from '../auth/auth.module';
+import { PermissionModule } from '../permission/permission.module';
+import { CommonModule } from '../common/common.module';
+import { UserModule } from '../user/user.module';
+import { MailModule } from '../mail/mail.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Organization.name, schema: OrganizationSchema },
+      { name: Membership.name, schema: MembershipSchema },
+      { name: OrganizationInvite.name, schema: OrganizationInviteSchema },
+      { name: Team.name, schema: TeamSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    AuthModule, // Required for AuthGuard
+    PermissionModule, // Required for AuthGuard
+    CommonModule, // Required for PermissionGuard
+    UserModule, // Returns the updated profile after switching
+    MailModule,
+    AuditModule,
+  ],
+  controllers: [OrganizationController, TeamController],
+  providers: [OrganizationService, TeamService],
+  exports: [OrganizationService, TeamService], // TeamService backs ScopedPermissionGuard
+})
+export class OrganizationModule {}
@@ -0,0 +1,383 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { OrganizationService } from './organization.service';
+import { Organization } from './schemas/organization.schema';
+import { Membership } from './schemas/membership.schema';
+import { OrganizationInvite } from './schemas/organization-invite.schema';
+import { Team } from './schemas/team.schema';
+import { OrganizationRole } from './enums/organization-role.enum';
+import { User } from '../user/schemas/user.schema';
+import { MailService } from '../mail/mail.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+describe('OrganizationService', () => {
+  let service: OrganizationService;
+
+  const organizationId = new Types.ObjectId();
+  const actorId = new Types.ObjectId().toString();
+  const memberId = new Types.ObjectId().toString();
+  const context = { actorId, ip: '203.0.113.7', userAgent: 'jest' };
+  const owner = { id: organizationId.toString(), role: OrganizationRole.OWNER };
+  const admin = { id: organizationId.toString(), role: OrganizationRole.ADMIN };
+
+  const organization = {
+    _id: organizationId,
+    name: 'Acme Inc.',
+    slug: 'acme-inc',
+    createdAt: new Date('2026-10-01T12:00:00.000Z'),
+  };
+
+  const query = <T>(value: T) => ({
+    populate: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    orFail: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockOrganizationModel = {
+    create: jest.fn(),
+    exists: jest.fn(),
+    findById: jest.fn(),
+  };
+  const mockMembershipModel = {
+    create: jest.fn(),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    countDocuments: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+  const mockInviteModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  };
+  const mockTeamModel = {
+    updateMany: jest.fn(),
+  };
+  const mockUserModel = {
+    findById: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockMailService = { sendOrganizationInvite: jest.fn() };
+  const mockAuditService = { record: jest.fn() };
+
+  const membership = (role: OrganizationRole) => ({
+    role,
+    createdAt: new Date('2026-10-02T12:00:00.000Z'),
+    save: jest.fn().mockResolvedValue(undefined),
+    deleteOne: jest.fn().mockResolvedValue(undefined),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockOrganizationModel.create.mockImplementation((doc: object) =>
+      Promise.resolve({
+        _id: organizationId,
+        createdAt: organization.createdAt,
+        ...doc,
+      }),
+    );
+    mockOrganizationModel.exists.mockReturnValue(query(null));
+    mockOrganizationModel.findById.mockReturnValue(query(organization));
+    mockMembershipModel.create.mockImplementation((doc: object) =>
+      Promise.resolve(doc),
+    );
+    mockMembershipModel.exists.mockReturnValue(query(null));
+    mockMembershipModel.deleteOne.mockReturnValue(query({ deletedCount: 1 }));
+    mockUserModel.findById.mockReturnValue(
+      query({
+        _id: new Types.ObjectId(actorId),
+        name: 'Jane Doe',
+        email: 'jane@example.com',
+      }),
+    );
+    mockTeamModel.updateMany.mockReturnValue(query({ modifiedCount: 1 }));
+    mockUserModel.findOne.mockReturnValue(query(null));
+    mockUserModel.updateOne.mockReturnValue(query({ modifiedCount: 1 }));
+    mockInviteModel.findOneAndUpdate.mockImplementation(
+      (_filter: object, update: { role: OrganizationRole; expiresAt: Date }) =>
+        query({
+          _id: new Types.ObjectId(),
+          email: 'new@example.com',
+          ...update,
+        }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationService,
+        {
+          provide: getModelToken(Organization.name),
+          useValue: mockOrganizationModel,
+        },
+        {
+          provide: getModelToken(Membership.name),
+          useValue: mockMembershipModel,
+        },
+        {
+          provide: getModelToken(OrganizationInvite.name),
+          useValue: mockInviteModel,
+        },
+        { provide: getModelToken(Team.name), useValue: mockTeamModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: MailService, useValue: mockMailService },
+        { provide: AuditService, useValue: mockAuditService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'cors.clientUrl'
+                ? 'https://app.example.com'
+                : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationService>(OrganizationService);
+  });
+
+  describe('create', () => {
+    it('should make the creator owner and switch to the new organization', async () => {
+      const result = await service.create(
+        actorId,
+        { name: 'Acme Inc.' },
+        context,
+      );
+
+      expect(mockOrganizationModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Acme Inc.', slug: 'acme-inc' }),
+      );
+      expect(mockMembershipModel.create).toHaveBeenCalledWith({
+        organization: organizationId,
+        user: new Types.ObjectId(actorId),
+        role: OrganizationRole.OWNER,
+      });
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: actorId },
+        { activeOrganization: organizationId },
+      );
+      expect(result).toMatchObject({
+        slug: 'acme-inc',
+        role: OrganizationRole.OWNER,
+        isActive: true,
+      });
+    });
+
+    it('should add a suffix when the slug is taken', async () => {
+      mockOrganizationModel.exists.mockReturnValue(query({ _id: 'taken' }));
+
+      await service.create(actorId, { name: 'Acme Inc.' }, context);
+
+      expect(mockOrganizationModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          slug: expect.stringMatching(/^acme-inc-[a-f0-9]{6}$/) as string,
+        }),
+      );
+    });
+  });
+
+  describe('switchOrganization', () => {
+    it('should refuse organizations the user does not belong to', async () => {
+      await expect(
+        service.switchOrganization(actorId, organizationId.toString()),
+      ).rejects.toMatchObject({ code: ErrorCode.ORGANIZATION_NOT_FOUND });
+      expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should clear the active organization when none is given', async () => {
+      await service.switchOrganization(actorId, null);
+
+      expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+        { _id: actorId },
+        { $unset: { activeOrganization: 1 } },
+      );
+    });
+  });
+
+  it('should require an active organization', async () => {
+    await expect(service.listMembers(undefined)).rejects.toMatchObject({
+      code: ErrorCode.NO_ACTIVE_ORGANIZATION,
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('should not let admins change the role of an owner', async () => {
+      mockMembershipModel.findOne.mockReturnValue(
+        query(membership(OrganizationRole.OWNER)),
+      );
+
+      await expect(
+        service.updateMemberRole(
+          admin,
+          memberId,
+          OrganizationRole.MEMBER,
+          context,
+        ),
+      ).rejects.toMatchObject({ code: ErrorCode.ORGANIZATION_OWNER_REQUIRED });
+    });
+
+    it('should not let members change their own role', async () => {
+      await expect(
+        service.updateMemberRole(
+          owner,
+          actorId,
+          OrganizationRole.MEMBER,
+          context,
+        ),
+      ).rejects.toMatchObject({ code: ErrorCode.CANNOT_MODIFY_SELF });
+    });
+
+    it('should save and audit the new role', async () => {
+      const member = membership(OrganizationRole.MEMBER);
+      mockMembershipModel.findOne.mockReturnValue(query(member));
+
+      await service.updateMemberRole(
+        admin,
+        memberId,
+        OrganizationRole.ADMIN,
+        context,
+      );
+
+      expect(member.role).toBe(OrganizationRole.ADMIN);
+      expect(member.save).toHaveBeenCalled();
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.ORGANIZATION_MEMBER_ROLE_UPDATED,
+          targetUser: memberId,
+          changes: {
+            before: { role: OrganizationRole.MEMBER },
+            after: { role: OrganizationRole.ADMIN },
+          },
+        }),
+      );
+    });
+  });
+
+  describe('leave', () => {
+    it('should not let the last owner leave', async () => {
+      mockMembershipModel.countDocuments.mockReturnValue(query(1));
+
+      await expect(
+        service.leave(owner, actorId, context),
+      ).rejects.toMatchObject({ code: ErrorCode.ORGANIZATION_LAST_OWNER });
+      expect(mockMembershipModel.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it("should take the member off the organization's teams", async () => {
+      await service.leave(admin, actorId, context);
+
+      expect(mockTeamModel.updateMany).toHaveBeenCalledWith(
+        { organization: organizationId },
+        { $pull: { members: new Types.ObjectId(actorId) } },
+      );
+    });
+  });
+
+  describe('invite', () => {
+    it('should email a link whose token is only stored hashed', async () => {
+      await service.invite(
+        admin,
+        { email: 'New@Example.com', role: OrganizationRole.MEMBER },
+        context,
+      );
+
+      const [email, details] = mockMailService.sendOrganizationInvite.mock
+        .calls[0] as [string, { link: string }];
+      const token = new URL(details.link).searchParams.get('token')!;
+
+      expect(email).toBe('new@example.com');
+      expect(details.link).toMatch(
+        /^https:\/\/app\.example\.com\/organizations\/join\?token=[a-f0-9]{64}$/,
+      );
+      expect(mockInviteModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { organization: organizationId, email: 'new@example.com' },
+        expect.objectContaining({
+          hashedToken: crypto.createHash('sha256').update(token).digest('hex'),
+        }),
+        { upsert: true, new: true },
+      );
+    });
+
+    it('should refuse addresses that already belong to a member', async () => {
+      mockUserModel.findOne.mockReturnValue(
+        query({ _id: new Types.ObjectId(memberId) }),
+      );
+      mockMembershipModel.exists.mockReturnValue(query({ _id: 'member' }));
+
+      await expect(
+        service.invite(
+          admin,
+          { email: 'member@example.com', role: OrganizationRole.MEMBER },
+          context,
+        ),
+      ).rejects.toMatchObject({ code: ErrorCode.ORGANIZATION_MEMBER_EXISTS });
+      expect(mockMailService.sendOrganizationInvite).not.toHaveBeenCalled();
+    });
+
+    it('should only let owners invite owners', async () => {
+      await expect(
+        service.invite(
+          admin,
+          { email: 'new@example.com', role: OrganizationRole.OWNER },
+          context,
+        ),
+      ).rejects.toMatchObject({ code: ErrorCode.ORGANIZATION_OWNER_REQUIRED });
+    });
+  });
+
+  describe('acceptInvite', () => {
+    const token = 'a'.repeat(64);
+
+    it('should refuse invites sent to another address', async () => {
+      mockInviteModel.findOne.mockReturnValue(
+        query({
+          organization: organizationId,
+          email: 'someone-else@example.com',
+          role: OrganizationRole.MEMBER,
+        }),
+      );
+
+      await expect(
+        service.acceptInvite(actorId, token, context),
+      ).rejects.toMatchObject({
+        code: ErrorCode.ORGANIZATION_INVITE_EMAIL_MISMATCH,
+      });
+      expect(mockMembershipModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should join with the invited role and use up the invite', async () => {
+      const invite = {
+        organization: organizationId,
+        email: 'jane@example.com',
+        role: OrganizationRole.ADMIN,
+        deleteOne: jest.fn().mockResolvedValue(undefined),
+      };
+      mockInviteModel.findOne.mockReturnValue(query(invite));
+      mockMembershipModel.findOne.mockReturnValue(query(null));
+
+      const result = await service.acceptInvite(actorId, token, context);
+
+      expect(mockInviteModel.findOne).toHaveBeenCalledWith({
+        hashedToken: crypto.createHash('sha256').update(token).digest('hex'),
+        expiresAt: { $gt: expect.any(Date) as Date },
+      });
+      expect(mockMembershipModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({ role: OrganizationRole.ADMIN }),
+      );
+      expect(invite.deleteOne).toHaveBeenCalled();
+      expect(result).toMatchObject({
+        role: OrganizationRole.ADMIN,
+        isActive: true,
+      });
+    });
+  });
+});
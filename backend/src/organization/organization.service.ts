@@ -0,0 +1,748 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  Organization,
+  OrganizationDocument,
+} from './schemas/organization.schema';
+import { Membership, MembershipDocument } from './schemas/membership.schema';
+import {
+  OrganizationInvite,
+  OrganizationInviteDocument,
+} from './schemas/organization-invite.schema';
+import { Team, TeamDocument } from './schemas/team.schema';
+import { User, UserDocument } from '../user/schemas/user.schema';
+import { OrganizationRole } from './enums/organization-role.enum';
+import { ActiveOrganization } from './interfaces/active-organization.interface';
+import { ORGANIZATION_INVITE_TTL_MS } from './constants/organization-permissions';
+import {
+  CreateOrganizationDto,
+  UpdateOrganizationDto,
+} from './dto/organization.dto';
+import { InviteMemberDto } from './dto/membership.dto';
+import {
+  OrganizationInviteDto,
+  OrganizationMemberDto,
+  OrganizationResponseDto,
+} from './dto/organization-response.dto';
+import { MailService } from '../mail/mail.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditTargetType } from '../audit/enums/audit-action.enum';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { AppException } from '../common/exceptions/app.exception';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+/**
+ * Organization Service
+ * Manages organizations, the memberships that give users a role in them and
+ * emailed invites to join. Everything except creating, switching and
+ * accepting invites acts on the requesting user's active organization.
+ */
+@Injectable()
+export class OrganizationService {
+  private readonly logger = new Logger(OrganizationService.name);
+
+  constructor(
+    @InjectModel(Organization.name)
+    private organizationModel: Model<OrganizationDocument>,
+    @InjectModel(Membership.name)
+    private membershipModel: Model<MembershipDocument>,
+    @InjectModel(OrganizationInvite.name)
+    private inviteModel: Model<OrganizationInviteDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly mailService: MailService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Organizations the user belongs to, oldest membership first
+   */
+  async listForUser(userId: string): Promise<OrganizationResponseDto[]> {
+    const [user, memberships] = await Promise.all([
+      this.userModel.findById(userId).select('activeOrganization').exec(),
+      this.membershipModel
+        .find({ user: new Types.ObjectId(userId) })
+        .populate<{ organization: OrganizationDocument | null }>('organization')
+        .sort({ createdAt: 1 })
+        .exec(),
+    ]);
+
+    return memberships.flatMap((membership) =>
+      membership.organization
+        ? [
+            this.toResponseDto(
+              membership.organization,
+              membership.role,
+              user?.activeOrganization,
+            ),
+          ]
+        : [],
+    );
+  }
+
+  /**
+   * Create an organization owned by the user and make it their active one
+   */
+  async create(
+    userId: string,
+    dto: CreateOrganizationDto,
+    context: AuditContext,
+  ): Promise<OrganizationResponseDto> {
+    const organization = await this.organizationModel.create({
+      name: dto.name,
+      slug: await this.generateSlug(dto.name),
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    await this.membershipModel.create({
+      organization: organization._id,
+      user: new Types.ObjectId(userId),
+      role: OrganizationRole.OWNER,
+    });
+    await this.setActiveOrganization(userId, organization._id);
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ORGANIZATION_CREATED,
+      targetType: AuditTargetType.ORGANIZATION,
+      targetId: organization._id.toString(),
+      metadata: { name: organization.name, slug: organization.slug },
+    });
+
+    this.logger.log(`Organization ${organization.slug} created by ${userId}`);
+
+    return this.toResponseDto(
+      organization,
+      OrganizationRole.OWNER,
+      organization._id,
+    );
+  }
+
+  /**
+   * Make one of the user's organizations active, or none when no ID is given
+   * @throws AppException ORGANIZATION_NOT_FOUND if the user is not a member
+   */
+  async switchOrganization(
+    userId: string,
+    organizationId?: string | null,
+  ): Promise<void> {
+    if (!organizationId) {
+      await this.userModel
+        .updateOne({ _id: userId }, { $unset: { activeOrganization: 1 } })
+        .exec();
+      return;
+    }
+
+    const isMember = await this.membershipModel
+      .exists({
+        organization: new Types.ObjectId(organizationId),
+        user: new Types.ObjectId(userId),
+      })
+      .exec();
+
+    if (!isMember) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_NOT_FOUND,
+        'Organization not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    await this.setActiveOrganization(userId, organizationId);
+  }
+
+  /**
+   * The active organization
+   */
+  async getCurrent(
+    active: ActiveOrganization | undefined,
+  ): Promise<OrganizationResponseDto> {
+    const { role } = this.requireActive(active);
+    const organization = await this.findOrganization(active);
+
+    return this.toResponseDto(organization, role, organization._id);
+  }
+
+  /**
+   * Rename the active organization; its slug stays the same
+   */
+  async update(
+    active: ActiveOrganization | undefined,
+    dto: UpdateOrganizationDto,
+  ): Promise<OrganizationResponseDto> {
+    const { role } = this.requireActive(active);
+    const organization = await this.findOrganization(active);
+
+    organization.name = dto.name;
+    await organization.save();
+
+    return this.toResponseDto(organization, role, organization._id);
+  }
+
+  /**
+   * Delete the active organization with its memberships, invites and teams
+   * Members who had it active are left working outside any organization.
+   */
+  async delete(
+    active: ActiveOrganization | undefined,
+    context: AuditContext,
+  ): Promise<void> {
+    const organization = await this.findOrganization(active);
+
+    await Promise.all([
+      this.membershipModel
+        .deleteMany({ organization: organization._id })
+        .exec(),
+      this.inviteModel.deleteMany({ organization: organization._id }).exec(),
+      this.teamModel.deleteMany({ organization: organization._id }).exec(),
+      this.userModel
+        .updateMany(
+          { activeOrganization: organization._id },
+          { $unset: { activeOrganization: 1 } },
+        )
+        .exec(),
+    ]);
+    await organization.deleteOne();
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ORGANIZATION_DELETED,
+      targetType: AuditTargetType.ORGANIZATION,
+      targetId: organization._id.toString(),
+      metadata: { name: organization.name, slug: organization.slug },
+    });
+
+    this.logger.log(`Organization ${organization.slug} deleted`);
+  }
+
+  /**
+   * Members of the active organization, in the order they joined
+   */
+  async listMembers(
+    active: ActiveOrganization | undefined,
+  ): Promise<OrganizationMemberDto[]> {
+    const { id } = this.requireActive(active);
+
+    const memberships = await this.membershipModel
+      .find({ organization: new Types.ObjectId(id) })
+      .populate<{ user: UserDocument | null }>('user', 'name email')
+      .sort({ createdAt: 1 })
+      .exec();
+
+    return memberships.flatMap((membership) =>
+      membership.user ? [this.toMemberDto(membership, membership.user)] : [],
+    );
+  }
+
+  /**
+   * Change a member's role in the active organization
+   * Only owners can promote members to owner or change another owner's role.
+   * @throws AppException CANNOT_MODIFY_SELF when changing one's own role
+   * @throws AppException ORGANIZATION_OWNER_REQUIRED when a non-owner touches owners
+   */
+  async updateMemberRole(
+    active: ActiveOrganization | undefined,
+    userId: string,
+    role: OrganizationRole,
+    context: AuditContext,
+  ): Promise<OrganizationMemberDto> {
+    const organization = this.requireActive(active);
+
+    if (userId === context.actorId) {
+      throw new AppException(
+        ErrorCode.CANNOT_MODIFY_SELF,
+        'You cannot change your own organization role',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const membership = await this.findMembership(organization.id, userId);
+    this.assertCanManageRole(organization, membership.role, role);
+
+    const previousRole = membership.role;
+    membership.role = role;
+    await membership.save();
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ORGANIZATION_MEMBER_ROLE_UPDATED,
+      targetType: AuditTargetType.ORGANIZATION,
+      targetId: organization.id,
+      targetUser: userId,
+      changes: { before: { role: previousRole }, after: { role } },
+    });
+
+    const user = await this.userModel
+      .findById(userId)
+      .select('name email')
+      .orFail()
+      .exec();
+
+    return this.toMemberDto(membership, user);
+  }
+
+  /**
+   * Remove a member from the active organization
+   * Only owners can remove other owners; members leave through {@link leave}.
+   */
+  async removeMember(
+    active: ActiveOrganization | undefined,
+    userId: string,
+    context: AuditContext,
+  ): Promise<void> {
+    const organization = this.requireActive(active);
+
+    if (userId === context.actorId) {
+      throw new AppException(
+        ErrorCode.CANNOT_MODIFY_SELF,
+        'Leave the organization instead of removing yourself',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const membership = await this.findMembership(organization.id, userId);
+    this.assertCanManageRole(organization, membership.role);
+
+    await membership.deleteOne();
+    await this.removeFromTeams(userId, organization.id);
+    await this.clearActiveOrganization(userId, organization.id);
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ORGANIZATION_MEMBER_REMOVED,
+      targetType: AuditTargetType.ORGANIZATION,
+      targetId: organization.id,
+      targetUser: userId,
+      metadata: { role: membership.role },
+    });
+  }
+
+  /**
+   * Leave the active organization
+   * @throws AppException ORGANIZATION_LAST_OWNER if no other owner would remain
+   */
+  async leave(
+    active: ActiveOrganization | undefined,
+    userId: string,
+    context: AuditContext,
+  ): Promise<void> {
+    const organization = this.requireActive(active);
+
+    if (organization.role === OrganizationRole.OWNER) {
+      const owners = await this.membershipModel
+        .countDocuments({
+          organization: new Types.ObjectId(organization.id),
+          role: OrganizationRole.OWNER,
+        })
+        .exec();
+
+      if (owners <= 1) {
+        throw new AppException(
+          ErrorCode.ORGANIZATION_LAST_OWNER,
+          'Make another member an owner or delete the organization before leaving',
+          HttpStatus.CONFLICT,
+        );
+      }
+    }
+
+    await this.membershipModel
+      .deleteOne({
+        organization: new Types.ObjectId(organization.id),
+        user: new Types.ObjectId(userId),
+      })
+      .exec();
+    await this.removeFromTeams(userId, organization.id);
+    await this.clearActiveOrganization(userId, organization.id);
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ORGANIZATION_MEMBER_REMOVED,
+      targetType: AuditTargetType.ORGANIZATION,
+      targetId: organization.id,
+      targetUser: userId,
+      metadata: { role: organization.role, left: true },
+    });
+  }
+
+  /**
+   * Email an invite to join the active organization
+   * Inviting an address again replaces the earlier invite, so only the
+   * latest link works.
+   * @throws AppException ORGANIZATION_MEMBER_EXISTS if the address already belongs to a member
+   */
+  async invite(
+    active: ActiveOrganization | undefined,
+    dto: InviteMemberDto,
+    context: AuditContext,
+  ): Promise<OrganizationInviteDto> {
+    const activeOrganization = this.requireActive(active);
+    this.assertCanManageRole(activeOrganization, dto.role);
+
+    const email = dto.email.toLowerCase();
+    const existingUser = await this.userModel
+      .findOne({ email })
+      .select('_id')
+      .exec();
+
+    if (
+      existingUser &&
+      (await this.membershipModel
+        .exists({
+          organization: new Types.ObjectId(activeOrganization.id),
+          user: existingUser._id,
+        })
+        .exec())
+    ) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_MEMBER_EXISTS,
+        'This user is already a member of the organization',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const [organization, inviter] = await Promise.all([
+      this.findOrganization(activeOrganization),
+      this.userModel.findById(context.actorId).select('name').exec(),
+    ]);
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const invite = await this.inviteModel
+      .findOneAndUpdate(
+        { organization: organization._id, email },
+        {
+          role: dto.role,
+          hashedToken: this.hashToken(token),
+          invitedBy: inviter?._id,
+          expiresAt: new Date(Date.now() + ORGANIZATION_INVITE_TTL_MS),
+        },
+        { upsert: true, new: true },
+      )
+      .orFail()
+      .exec();
+
+    const clientUrl = this.configService.get<string>(
+      'cors.clientUrl',
+      'http://localhost:3000',
+    );
+    await this.mailService.sendOrganizationInvite(email, {
+      organizationName: organization.name,
+      inviterName: inviter?.name ?? 'A member',
+      link: `${clientUrl}/organizations/join?token=${token}`,
+      expiresAt: invite.expiresAt,
+    });
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ORGANIZATION_MEMBER_INVITED,
+      targetType: AuditTargetType.ORGANIZATION,
+      targetId: activeOrganization.id,
+      metadata: { email, role: dto.role },
+    });
+
+    return this.toInviteDto(invite, inviter?.name);
+  }
+
+  /**
+   * Invites to the active organization that have not expired
+   */
+  async listInvites(
+    active: ActiveOrganization | undefined,
+  ): Promise<OrganizationInviteDto[]> {
+    const { id } = this.requireActive(active);
+
+    const invites = await this.inviteModel
+      .find({
+        organization: new Types.ObjectId(id),
+        expiresAt: { $gt: new Date() },
+      })
+      .populate<{ invitedBy: UserDocument | null }>('invitedBy', 'name')
+      .sort({ createdAt: -1 })
+      .exec();
+
+    return invites.map((invite) =>
+      this.toInviteDto(invite, invite.invitedBy?.name),
+    );
+  }
+
+  /**
+   * Withdraw an invite so its link stops working
+   */
+  async revokeInvite(
+    active: ActiveOrganization | undefined,
+    inviteId: string,
+  ): Promise<void> {
+    const { id } = this.requireActive(active);
+
+    const result = Types.ObjectId.isValid(inviteId)
+      ? await this.inviteModel
+          .deleteOne({
+            _id: new Types.ObjectId(inviteId),
+            organization: new Types.ObjectId(id),
+          })
+          .exec()
+      : { deletedCount: 0 };
+
+    if (result.deletedCount === 0) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_INVITE_INVALID,
+        'Invite not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+  }
+
+  /**
+   * Join an organization through an emailed invite and make it active
+   * @throws AppException ORGANIZATION_INVITE_INVALID if the invite expired or was revoked
+   * @throws AppException ORGANIZATION_INVITE_EMAIL_MISMATCH if it was sent to another address
+   */
+  async acceptInvite(
+    userId: string,
+    token: string,
+    context: AuditContext,
+  ): Promise<OrganizationResponseDto> {
+    const invite = await this.inviteModel
+      .findOne({
+        hashedToken: this.hashToken(token),
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+    const organization = invite
+      ? await this.organizationModel.findById(invite.organization).exec()
+      : null;
+
+    if (!invite || !organization) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_INVITE_INVALID,
+        'This invite is invalid or has expired',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const user = await this.userModel
+      .findById(userId)
+      .select('email')
+      .orFail()
+      .exec();
+
+    if (user.email.toLowerCase() !== invite.email) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_INVITE_EMAIL_MISMATCH,
+        'This invite was sent to a different email address',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    // Joining twice keeps the existing membership and its role
+    const membership =
+      (await this.membershipModel
+        .findOne({ organization: organization._id, user: user._id })
+        .exec()) ??
+      (await this.membershipModel.create({
+        organization: organization._id,
+        user: user._id,
+        role: invite.role,
+        invitedBy: invite.invitedBy,
+      }));
+
+    await invite.deleteOne();
+    await this.setActiveOrganization(userId, organization._id);
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ORGANIZATION_MEMBER_JOINED,
+      targetType: AuditTargetType.ORGANIZATION,
+      targetId: organization._id.toString(),
+      targetUser: userId,
+      metadata: { role: membership.role },
+    });
+
+    return this.toResponseDto(organization, membership.role, organization._id);
+  }
+
+  /**
+   * Narrow the request's organization, failing when none is active
+   */
+  private requireActive(
+    active: ActiveOrganization | undefined,
+  ): ActiveOrganization {
+    if (!active) {
+      throw new AppException(
+        ErrorCode.NO_ACTIVE_ORGANIZATION,
+        'Switch to an organization first',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return active;
+  }
+
+  private async findOrganization(
+    active: ActiveOrganization | undefined,
+  ): Promise<OrganizationDocument> {
+    const { id } = this.requireActive(active);
+    const organization = await this.organizationModel.findById(id).exec();
+
+    if (!organization) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_NOT_FOUND,
+        'Organization not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return organization;
+  }
+
+  private async findMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<MembershipDocument> {
+    const membership = Types.ObjectId.isValid(userId)
+      ? await this.membershipModel
+          .findOne({
+            organization: new Types.ObjectId(organizationId),
+            user: new Types.ObjectId(userId),
+          })
+          .exec()
+      : null;
+
+    if (!membership) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_MEMBER_NOT_FOUND,
+        'Member not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return membership;
+  }
+
+  /**
+   * Owners are the only members who can grant, change or remove ownership
+   */
+  private assertCanManageRole(
+    active: ActiveOrganization,
+    ...roles: OrganizationRole[]
+  ): void {
+    if (
+      active.role !== OrganizationRole.OWNER &&
+      roles.includes(OrganizationRole.OWNER)
+    ) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_OWNER_REQUIRED,
+        'Only owners can manage other owners',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+
+  private async setActiveOrganization(
+    userId: string,
+    organizationId: Types.ObjectId | string,
+  ): Promise<void> {
+    await this.userModel
+      .updateOne(
+        { _id: userId },
+        { activeOrganization: new Types.ObjectId(organizationId) },
+      )
+      .exec();
+  }
+
+  /**
+   * Take a departing member off every team of the organization
+   */
+  private async removeFromTeams(
+    userId: string,
+    organizationId: string,
+  ): Promise<void> {
+    await this.teamModel
+      .updateMany(
+        { organization: new Types.ObjectId(organizationId) },
+        { $pull: { members: new Types.ObjectId(userId) } },
+      )
+      .exec();
+  }
+
+  private async clearActiveOrganization(
+    userId: string,
+    organizationId: string,
+  ): Promise<void> {
+    await this.userModel
+      .updateOne(
+        {
+          _id: userId,
+          activeOrganization: new Types.ObjectId(organizationId),
+        },
+        { $unset: { activeOrganization: 1 } },
+      )
+      .exec();
+  }
+
+  /**
+   * Slug from the name, with a random suffix when it is already taken
+   */
+  private async generateSlug(name: string): Promise<string> {
+    const base =
+      name
+        .normalize('NFKD')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60) || 'organization';
+
+    const taken = await this.organizationModel.exists({ slug: base }).exec();
+    return taken ? `${base}-${crypto.randomBytes(3).toString('hex')}` : base;
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private toResponseDto(
+    organization: OrganizationDocument,
+    role: OrganizationRole,
+    activeOrganizationId?: Types.ObjectId | null,
+  ): OrganizationResponseDto {
+    return {
+      id: organization._id.toString(),
+      name: organization.name,
+      slug: organization.slug,
+      role,
+      isActive: !!activeOrganizationId?.equals(organization._id),
+      createdAt: organization.createdAt,
+    };
+  }
+
+  private toMemberDto(
+    membership: Pick<Membership, 'role' | 'createdAt'>,
+    user: UserDocument,
+  ): OrganizationMemberDto {
+    return {
+      userId: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      role: membership.role,
+      joinedAt: membership.createdAt,
+    };
+  }
+
+  private toInviteDto(
+    invite: Pick<OrganizationInvite, 'email' | 'role' | 'expiresAt'> & {
+      _id: Types.ObjectId;
+    },
+    invitedBy?: string,
+  ): OrganizationInviteDto {
+    return {
+      id: invite._id.toString(),
+      email: invite.email,
+      role: invite.role,
+      invitedBy,
+      expiresAt: invite.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+/**
+ * A user's membership of an organization and their role in it
+ */
+@Schema({ timestamps: true })
+export class Membership {
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organization!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  user!: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    enum: OrganizationRole,
+    required: true,
+    default: OrganizationRole.MEMBER,
+  })
+  role!: OrganizationRole;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  invitedBy?: Types.ObjectId;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type MembershipDocument = HydratedDocument<Membership>;
+
+export const MembershipSchema: MongooseSchema<Membership> =
+  SchemaFactory.createForClass(Membership);
+
+// Indexes
+MembershipSchema.index({ organization: 1, user: 1 }, { unique: true });
+MembershipSchema.index({ user: 1 });
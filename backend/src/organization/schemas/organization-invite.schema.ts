@@ -0,0 +1,41 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+import { OrganizationRole } from '../enums/organization-role.enum';
+
+/**
+ * An emailed invitation to join an organization.
+ * Inviting the same address again replaces the earlier invite and its link.
+ */
+@Schema({ timestamps: true })
+export class OrganizationInvite {
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organization!: Types.ObjectId;
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  email!: string;
+
+  @Prop({ type: String, enum: OrganizationRole, required: true })
+  role!: OrganizationRole;
+
+  @Prop({ required: true, select: false })
+  hashedToken!: string; // SHA-256 of the token in the emailed link
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  invitedBy?: Types.ObjectId;
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type OrganizationInviteDocument = HydratedDocument<OrganizationInvite>;
+
+export const OrganizationInviteSchema: MongooseSchema<OrganizationInvite> =
+  SchemaFactory.createForClass(OrganizationInvite);
+
+// Indexes
+OrganizationInviteSchema.index({ organization: 1, email: 1 }, { unique: true });
+OrganizationInviteSchema.index({ hashedToken: 1 });
@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+/**
+ * A tenant grouping users who work together.
+ * Users join through memberships, which carry their role in the organization.
+ */
+@Schema({ timestamps: true })
+export class Organization {
+  @Prop({ required: true, trim: true })
+  name!: string;
+
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  slug!: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type OrganizationDocument = HydratedDocument<Organization>;
+
+export const OrganizationSchema: MongooseSchema<Organization> =
+  SchemaFactory.createForClass(Organization);
@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+/**
+ * A group of organization members.
+ * Permissions with the team scope on users (users:update:team) reach the
+ * other members of the teams the actor belongs to.
+ */
+@Schema({ timestamps: true })
+export class Team {
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  organization!: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  name!: string;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'User' }], default: [] })
+  members!: Types.ObjectId[];
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type TeamDocument = HydratedDocument<Team>;
+
+export const TeamSchema: MongooseSchema<Team> =
+  SchemaFactory.createForClass(Team);
+
+// Indexes
+TeamSchema.index({ organization: 1, name: 1 }, { unique: true });
+TeamSchema.index({ organization: 1, members: 1 });
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TeamService } from './team.service';
+import { AddTeamMemberDto, CreateTeamDto, UpdateTeamDto } from './dto/team.dto';
+import { TeamResponseDto } from './dto/team-response.dto';
+import { ActiveOrganization } from './interfaces/active-organization.interface';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { PermissionGuard } from '../common/guards/permission.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { ORGANIZATION_PERMISSIONS } from '../common/constants/permissions';
+import { ApiResponse as ApiResponseDto } from '../common/dto/api-response.dto';
+
+/**
+ * Team controller.
+ * Teams of the active organization. Members can see them; members who can
+ * manage the organization create teams and choose who is on them.
+ */
+@ApiTags('organizations')
+@ApiBearerAuth('JWT-auth')
+@Controller('organizations/current/teams')
+@UseGuards(AuthGuard, PermissionGuard)
+export class TeamController {
+  constructor(private readonly teamService: TeamService) {}
+
+  /**
+   * List the teams of the active organization
+   */
+  @Get()
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.READ_TEAM)
+  @ApiOperation({ summary: 'List teams' })
+  @ApiResponse({
+    status: 200,
+    description: 'Teams retrieved successfully',
+    type: [TeamResponseDto],
+  })
+  async findAll(
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<TeamResponseDto[]>> {
+    const data = await this.teamService.list(organization);
+    return {
+      success: true,
+      message: 'Teams retrieved successfully',
+      data,
+    };
+  }
+
+  /**
+   * Create a team in the active organization
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.MANAGE_TEAM)
+  @ApiOperation({ summary: 'Create team' })
+  @ApiResponse({
+    status: 201,
+    description: 'Team created successfully',
+    type: TeamResponseDto,
+  })
+  @ApiResponse({ status: 409, description: 'Team name already in use' })
+  async create(
+    @Body() dto: CreateTeamDto,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<TeamResponseDto>> {
+    const data = await this.teamService.create(organization, dto);
+    return {
+      success: true,
+      message: 'Team created successfully',
+      data,
+    };
+  }
+
+  /**
+   * Rename a team
+   */
+  @Patch(':teamId')
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.MANAGE_TEAM)
+  @ApiOperation({ summary: 'Rename team' })
+  @ApiParam({ name: 'teamId', description: 'Team ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Team updated successfully',
+    type: TeamResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  @ApiResponse({ status: 409, description: 'Team name already in use' })
+  async update(
+    @Param('teamId') teamId: string,
+    @Body() dto: UpdateTeamDto,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<TeamResponseDto>> {
+    const data = await this.teamService.update(organization, teamId, dto);
+    return {
+      success: true,
+      message: 'Team updated successfully',
+      data,
+    };
+  }
+
+  /**
+   * Delete a team
+   */
+  @Delete(':teamId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.MANAGE_TEAM)
+  @ApiOperation({
+    summary: 'Delete team',
+    description: 'Its members stay in the organization.',
+  })
+  @ApiParam({ name: 'teamId', description: 'Team ID' })
+  @ApiResponse({ status: 204, description: 'Team deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async delete(
+    @Param('teamId') teamId: string,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<void> {
+    await this.teamService.delete(organization, teamId);
+  }
+
+  /**
+   * Add an organization member to a team
+   */
+  @Post(':teamId/members')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.MANAGE_TEAM)
+  @ApiOperation({
+    summary: 'Add team member',
+    description: 'The user must be a member of the organization.',
+  })
+  @ApiParam({ name: 'teamId', description: 'Team ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Team member added successfully',
+    type: TeamResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Team or member not found' })
+  async addMember(
+    @Param('teamId') teamId: string,
+    @Body() dto: AddTeamMemberDto,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<ApiResponseDto<TeamResponseDto>> {
+    const data = await this.teamService.addMember(
+      organization,
+      teamId,
+      dto.userId,
+    );
+    return {
+      success: true,
+      message: 'Team member added successfully',
+      data,
+    };
+  }
+
+  /**
+   * Take a member off a team
+   */
+  @Delete(':teamId/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePermissions(ORGANIZATION_PERMISSIONS.MANAGE_TEAM)
+  @ApiOperation({ summary: 'Remove team member' })
+  @ApiParam({ name: 'teamId', description: 'Team ID' })
+  @ApiParam({ name: 'userId', description: 'User ID of the member' })
+  @ApiResponse({ status: 204, description: 'Team member removed successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async removeMember(
+    @Param('teamId') teamId: string,
+    @Param('userId') userId: string,
+    @CurrentUser('organization') organization?: ActiveOrganization,
+  ): Promise<void> {
+    await this.teamService.removeMember(organization, teamId, userId);
+  }
+}
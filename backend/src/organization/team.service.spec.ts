@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { TeamService } from './team.service';
+import { Team } from './schemas/team.schema';
+import { Membership } from './schemas/membership.schema';
+import { OrganizationRole } from './enums/organization-role.enum';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+describe('TeamService', () => {
+  let service: TeamService;
+
+  const organizationId = new Types.ObjectId();
+  const teamId = new Types.ObjectId();
+  const userId = new Types.ObjectId().toString();
+  const targetId = new Types.ObjectId().toString();
+  const active = {
+    id: organizationId.toString(),
+    role: OrganizationRole.ADMIN,
+  };
+
+  const query = <T>(value: T) => ({
+    populate: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    orFail: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const team = {
+    _id: teamId,
+    organization: organizationId,
+    name: 'Support',
+    createdAt: new Date('2026-10-01T12:00:00.000Z'),
+    updateOne: jest.fn(),
+  };
+
+  const mockTeamModel = {
+    create: jest.fn(),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    distinct: jest.fn(),
+  };
+  const mockMembershipModel = {
+    exists: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockTeamModel.create.mockImplementation((doc: object) =>
+      Promise.resolve({
+        _id: teamId,
+        createdAt: team.createdAt,
+        ...doc,
+      }),
+    );
+    mockTeamModel.exists.mockReturnValue(query(null));
+    mockTeamModel.findOne.mockReturnValue(query(team));
+    mockTeamModel.findById.mockReturnValue(query({ ...team, members: [] }));
+    mockMembershipModel.exists.mockReturnValue(query({ _id: 'member' }));
+    team.updateOne.mockReturnValue(query({ modifiedCount: 1 }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TeamService,
+        { provide: getModelToken(Team.name), useValue: mockTeamModel },
+        {
+          provide: getModelToken(Membership.name),
+          useValue: mockMembershipModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TeamService>(TeamService);
+  });
+
+  describe('create', () => {
+    it('should create an empty team in the active organization', async () => {
+      const result = await service.create(active, { name: 'Support' });
+
+      expect(mockTeamModel.create).toHaveBeenCalledWith({
+        organization: organizationId,
+        name: 'Support',
+      });
+      expect(result).toMatchObject({ name: 'Support', members: [] });
+    });
+
+    it('should refuse a name another team has', async () => {
+      mockTeamModel.exists.mockReturnValue(query({ _id: teamId }));
+
+      await expect(
+        service.create(active, { name: 'Support' }),
+      ).rejects.toMatchObject({ code: ErrorCode.TEAM_NAME_EXISTS });
+      expect(mockTeamModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should require an active organization', async () => {
+      await expect(
+        service.create(undefined, { name: 'Support' }),
+      ).rejects.toMatchObject({ code: ErrorCode.NO_ACTIVE_ORGANIZATION });
+    });
+  });
+
+  describe('addMember', () => {
+    it('should add members of the organization once', async () => {
+      await service.addMember(active, teamId.toString(), targetId);
+
+      expect(team.updateOne).toHaveBeenCalledWith({
+        $addToSet: { members: new Types.ObjectId(targetId) },
+      });
+    });
+
+    it('should refuse users outside the organization', async () => {
+      mockMembershipModel.exists.mockReturnValue(query(null));
+
+      await expect(
+        service.addMember(active, teamId.toString(), targetId),
+      ).rejects.toMatchObject({
+        code: ErrorCode.ORGANIZATION_MEMBER_NOT_FOUND,
+      });
+      expect(team.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should not find teams of other organizations', async () => {
+      mockTeamModel.findOne.mockReturnValue(query(null));
+
+      await expect(
+        service.addMember(active, teamId.toString(), targetId),
+      ).rejects.toMatchObject({ code: ErrorCode.TEAM_NOT_FOUND });
+      expect(mockTeamModel.findOne).toHaveBeenCalledWith({
+        _id: teamId,
+        organization: organizationId,
+      });
+    });
+  });
+
+  describe('isTeammate', () => {
+    it('should look for a team in the organization with both users', async () => {
+      mockTeamModel.exists.mockReturnValue(query({ _id: teamId }));
+
+      await expect(
+        service.isTeammate(userId, targetId, active.id),
+      ).resolves.toBe(true);
+      expect(mockTeamModel.exists).toHaveBeenCalledWith({
+        organization: organizationId,
+        members: {
+          $all: [new Types.ObjectId(userId), new Types.ObjectId(targetId)],
+        },
+      });
+    });
+
+    it('should be false outside an organization', async () => {
+      await expect(service.isTeammate(userId, targetId)).resolves.toBe(false);
+      expect(mockTeamModel.exists).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTeammateIds', () => {
+    it('should collect the members of the teams the user is on', async () => {
+      const teammates = [new Types.ObjectId(userId), new Types.ObjectId()];
+      mockTeamModel.distinct.mockReturnValue(query(teammates));
+
+      await expect(service.getTeammateIds(userId, active.id)).resolves.toBe(
+        teammates,
+      );
+      expect(mockTeamModel.distinct).toHaveBeenCalledWith('members', {
+        organization: organizationId,
+        members: new Types.ObjectId(userId),
+      });
+    });
+
+    it('should be empty outside an organization', async () => {
+      await expect(service.getTeammateIds(userId)).resolves.toEqual([]);
+      expect(mockTeamModel.distinct).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,281 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Team, TeamDocument } from './schemas/team.schema';
+import { Membership, MembershipDocument } from './schemas/membership.schema';
+import { UserDocument } from '../user/schemas/user.schema';
+import { ActiveOrganization } from './interfaces/active-organization.interface';
+import { CreateTeamDto, UpdateTeamDto } from './dto/team.dto';
+import { TeamResponseDto } from './dto/team-response.dto';
+import { AppException } from '../common/exceptions/app.exception';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+/**
+ * Team Service
+ * Manages teams within the active organization and resolves who is on a
+ * user's teams, which is what the team scope on users permissions covers.
+ */
+@Injectable()
+export class TeamService {
+  private readonly logger = new Logger(TeamService.name);
+
+  constructor(
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    @InjectModel(Membership.name)
+    private membershipModel: Model<MembershipDocument>,
+  ) {}
+
+  /**
+   * Teams of the active organization with their members, by name
+   */
+  async list(
+    active: ActiveOrganization | undefined,
+  ): Promise<TeamResponseDto[]> {
+    const { id } = this.requireActive(active);
+
+    const teams = await this.teamModel
+      .find({ organization: new Types.ObjectId(id) })
+      .populate<{ members: UserDocument[] }>('members', 'name email')
+      .sort({ name: 1 })
+      .exec();
+
+    return teams.map((team) => this.toResponseDto(team, team.members));
+  }
+
+  /**
+   * Create an empty team in the active organization
+   * @throws AppException TEAM_NAME_EXISTS if another team has the name
+   */
+  async create(
+    active: ActiveOrganization | undefined,
+    dto: CreateTeamDto,
+  ): Promise<TeamResponseDto> {
+    const { id } = this.requireActive(active);
+    await this.assertNameAvailable(id, dto.name);
+
+    const team = await this.teamModel.create({
+      organization: new Types.ObjectId(id),
+      name: dto.name,
+    });
+
+    this.logger.log(`Team ${team._id.toString()} created in ${id}`);
+
+    return this.toResponseDto(team, []);
+  }
+
+  /**
+   * Rename a team
+   * @throws AppException TEAM_NAME_EXISTS if another team has the name
+   */
+  async update(
+    active: ActiveOrganization | undefined,
+    teamId: string,
+    dto: UpdateTeamDto,
+  ): Promise<TeamResponseDto> {
+    const team = await this.findTeam(active, teamId);
+
+    if (dto.name !== team.name) {
+      await this.assertNameAvailable(team.organization.toString(), dto.name);
+      team.name = dto.name;
+      await team.save();
+    }
+
+    return this.findOne(team);
+  }
+
+  /**
+   * Delete a team; its members stay in the organization
+   */
+  async delete(
+    active: ActiveOrganization | undefined,
+    teamId: string,
+  ): Promise<void> {
+    const team = await this.findTeam(active, teamId);
+    await team.deleteOne();
+
+    this.logger.log(`Team ${teamId} deleted`);
+  }
+
+  /**
+   * Add a member of the active organization to a team
+   * @throws AppException ORGANIZATION_MEMBER_NOT_FOUND if the user is not in the organization
+   */
+  async addMember(
+    active: ActiveOrganization | undefined,
+    teamId: string,
+    userId: string,
+  ): Promise<TeamResponseDto> {
+    const team = await this.findTeam(active, teamId);
+
+    const isMember = await this.membershipModel
+      .exists({
+        organization: team.organization,
+        user: new Types.ObjectId(userId),
+      })
+      .exec();
+
+    if (!isMember) {
+      throw new AppException(
+        ErrorCode.ORGANIZATION_MEMBER_NOT_FOUND,
+        'Only members of the organization can join its teams',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    await team
+      .updateOne({ $addToSet: { members: new Types.ObjectId(userId) } })
+      .exec();
+
+    return this.findOne(team);
+  }
+
+  /**
+   * Take a user off a team
+   */
+  async removeMember(
+    active: ActiveOrganization | undefined,
+    teamId: string,
+    userId: string,
+  ): Promise<void> {
+    const team = await this.findTeam(active, teamId);
+
+    if (Types.ObjectId.isValid(userId)) {
+      await team
+        .updateOne({ $pull: { members: new Types.ObjectId(userId) } })
+        .exec();
+    }
+  }
+
+  /**
+   * Users who share a team with the user in the organization, including
+   * the user when they are on a team. Nobody outside an organization has
+   * teammates.
+   */
+  async getTeammateIds(
+    userId: string,
+    organizationId?: string,
+  ): Promise<Types.ObjectId[]> {
+    if (!organizationId) {
+      return [];
+    }
+
+    return this.teamModel
+      .distinct('members', {
+        organization: new Types.ObjectId(organizationId),
+        members: new Types.ObjectId(userId),
+      })
+      .exec();
+  }
+
+  /**
+   * Whether the target user is on one of the user's teams in the organization
+   */
+  async isTeammate(
+    userId: string,
+    targetId: string,
+    organizationId?: string,
+  ): Promise<boolean> {
+    if (!organizationId || !Types.ObjectId.isValid(targetId)) {
+      return false;
+    }
+
+    const shared = await this.teamModel
+      .exists({
+        organization: new Types.ObjectId(organizationId),
+        members: {
+          $all: [new Types.ObjectId(userId), new Types.ObjectId(targetId)],
+        },
+      })
+      .exec();
+
+    return !!shared;
+  }
+
+  /**
+   * Narrow the request's organization, failing when none is active
+   */
+  private requireActive(
+    active: ActiveOrganization | undefined,
+  ): ActiveOrganization {
+    if (!active) {
+      throw new AppException(
+        ErrorCode.NO_ACTIVE_ORGANIZATION,
+        'Switch to an organization first',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    return active;
+  }
+
+  private async findTeam(
+    active: ActiveOrganization | undefined,
+    teamId: string,
+  ): Promise<TeamDocument> {
+    const { id } = this.requireActive(active);
+    const team = Types.ObjectId.isValid(teamId)
+      ? await this.teamModel
+          .findOne({
+            _id: new Types.ObjectId(teamId),
+            organization: new Types.ObjectId(id),
+          })
+          .exec()
+      : null;
+
+    if (!team) {
+      throw new AppException(
+        ErrorCode.TEAM_NOT_FOUND,
+        'Team not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    return team;
+  }
+
+  /**
+   * Reload a team with its members after a change
+   */
+  private async findOne(team: TeamDocument): Promise<TeamResponseDto> {
+    const updated = await this.teamModel
+      .findById(team._id)
+      .populate<{ members: UserDocument[] }>('members', 'name email')
+      .orFail()
+      .exec();
+
+    return this.toResponseDto(updated, updated.members);
+  }
+
+  private async assertNameAvailable(
+    organizationId: string,
+    name: string,
+  ): Promise<void> {
+    const taken = await this.teamModel
+      .exists({ organization: new Types.ObjectId(organizationId), name })
+      .exec();
+
+    if (taken) {
+      throw new AppException(
+        ErrorCode.TEAM_NAME_EXISTS,
+        'A team with this name already exists',
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  private toResponseDto(
+    team: Pick<Team, 'name' | 'createdAt'> & { _id: Types.ObjectId },
+    members: UserDocument[],
+  ): TeamResponseDto {
+    return {
+      id: team._id.toString(),
+      name: team.name,
+      members: members.map((member) => ({
+        userId: member._id.toString(),
+        name: member.name,
+        email: member.email,
+      })),
+      createdAt: team.createdAt,
+    };
+  }
+}
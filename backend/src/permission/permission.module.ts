@@ -1,13 +1,22 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Permission, PermissionSchema } from './schemas/permission.schema';
+import { Role, RoleSchema } from '../role/schemas/role.schema';
+import {
+  Membership,
+  MembershipSchema,
+} from '../organization/schemas/membership.schema';
+import { PermissionService } from './permission.service';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Permission.name, schema: PermissionSchema },
+      { name: Role.name, schema: RoleSchema },
+      { name: Membership.name, schema: MembershipSchema },
     ]),
   ],
-  exports: [MongooseModule],
+  providers: [PermissionService],
+  exports: [MongooseModule, PermissionService],
 })
 export class PermissionModule {}
@@ -0,0 +1,358 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PermissionService } from './permission.service';
+import { Permission } from './schemas/permission.schema';
+import { Role } from '../role/schemas/role.schema';
+import { Membership } from '../organization/schemas/membership.schema';
+import { OrganizationRole } from '../organization/enums/organization-role.enum';
+
+describe('PermissionService', () => {
+  let service: PermissionService;
+
+  const userId = new Types.ObjectId();
+  const adminId = new Types.ObjectId().toString();
+
+  const query = <T>(value: T) => ({
+    populate: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    sort: jest.fn().mockReturnThis(),
+    orFail: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockPermissionModel = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+  const mockRoleModel = { find: jest.fn() };
+  const mockMembershipModel = { findOne: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRoleModel.find.mockReturnValue(
+      query([
+        { slug: 'user', permissions: ['profile:read:own', 'users:read:all'] },
+      ]),
+    );
+    mockPermissionModel.find.mockReturnValue(
+      query([
+        { permission: 'reports:read:all', granted: true },
+        { permission: 'users:read:all', granted: true },
+      ]),
+    );
+    mockMembershipModel.findOne.mockReturnValue(query(null));
+    mockPermissionModel.findOneAndUpdate.mockReturnValue(query({}));
+    mockPermissionModel.deleteOne.mockReturnValue(query({ deletedCount: 1 }));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionService,
+        {
+          provide: getModelToken(Permission.name),
+          useValue: mockPermissionModel,
+        },
+        { provide: getModelToken(Role.name), useValue: mockRoleModel },
+        {
+          provide: getModelToken(Membership.name),
+          useValue: mockMembershipModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PermissionService>(PermissionService);
+  });
+
+  describe('getEffectivePermissions', () => {
+    it('should combine role, direct and granted permissions', async () => {
+      const permissions = await service.getEffectivePermissions({
+        _id: userId,
+        roles: ['user'],
+        permissions: ['sessions:read:own'],
+      });
+
+      expect(permissions).toEqual([
+        'profile:read:own',
+        'users:read:all',
+        'sessions:read:own',
+        'reports:read:all',
+      ]);
+    });
+
+    it('should remove denied permissions and mark them as denied', async () => {
+      mockRoleModel.find.mockReturnValue(
+        query([{ slug: 'admin', permissions: ['*'] }]),
+      );
+      mockPermissionModel.find.mockReturnValue(
+        query([
+          { permission: 'users:delete:all', granted: false },
+          { permission: 'reports:read:all', granted: true },
+        ]),
+      );
+
+      const permissions = await service.getEffectivePermissions({
+        _id: userId,
+        roles: ['admin'],
+        permissions: ['users:delete:all'],
+      });
+
+      expect(permissions).toEqual([
+        '*',
+        'reports:read:all',
+        '!users:delete:all',
+      ]);
+    });
+
+    it('should include permissions inherited from parent roles', async () => {
+      mockRoleModel.find
+        .mockReturnValueOnce(
+          query([
+            {
+              slug: 'editor',
+              permissions: ['profile:read:own'],
+              parents: ['support'],
+            },
+          ]),
+        )
+        .mockReturnValueOnce(
+          query([{ slug: 'support', permissions: ['users:read:all'] }]),
+        );
+      mockPermissionModel.find.mockReturnValue(query([]));
+
+      const permissions = await service.getEffectivePermissions({
+        _id: userId,
+        roles: ['editor'],
+      });
+
+      expect(permissions).toEqual(['profile:read:own', 'users:read:all']);
+    });
+
+    it('should combine the permissions of every role', async () => {
+      mockRoleModel.find.mockReturnValue(
+        query([
+          { slug: 'support', permissions: ['users:read:all'] },
+          {
+            slug: 'billing-viewer',
+            permissions: ['billing:read:all', 'users:read:all'],
+          },
+        ]),
+      );
+      mockPermissionModel.find.mockReturnValue(query([]));
+
+      const permissions = await service.getEffectivePermissions({
+        _id: userId,
+        roles: ['support', 'billing-viewer'],
+      });
+
+      expect(mockRoleModel.find).toHaveBeenCalledWith({
+        slug: { $in: ['support', 'billing-viewer'] },
+      });
+      expect(permissions).toEqual(['users:read:all', 'billing:read:all']);
+    });
+
+    it('should add the permissions of the active organization role', async () => {
+      const organizationId = new Types.ObjectId();
+      mockMembershipModel.findOne.mockReturnValue(
+        query({ organization: organizationId, role: OrganizationRole.MEMBER }),
+      );
+      mockPermissionModel.find.mockReturnValue(query([]));
+
+      const permissions = await service.getEffectivePermissions({
+        _id: userId,
+        roles: ['user'],
+        activeOrganization: organizationId,
+      });
+
+      expect(mockMembershipModel.findOne).toHaveBeenCalledWith({
+        organization: organizationId,
+        user: userId,
+      });
+      expect(permissions).toEqual([
+        'profile:read:own',
+        'users:read:all',
+        'organizations:read:team',
+      ]);
+    });
+
+    it('should not look up a membership without an active organization', async () => {
+      mockPermissionModel.find.mockReturnValue(query([]));
+
+      const permissions = await service.getEffectivePermissions({
+        _id: userId,
+        roles: ['user'],
+      });
+
+      expect(mockMembershipModel.findOne).not.toHaveBeenCalled();
+      expect(permissions).toEqual(['profile:read:own', 'users:read:all']);
+    });
+
+    it('should ignore entries that have expired but not been removed yet', async () => {
+      await service.getEffectivePermissions({ _id: userId, roles: ['user'] });
+
+      const [filter] = mockPermissionModel.find.mock.calls[0] as [
+        { $or: { expiresAt: unknown }[] },
+      ];
+      expect(filter.$or).toEqual([
+        { expiresAt: null },
+        { expiresAt: { $gt: expect.any(Date) as Date } },
+      ]);
+    });
+  });
+
+  describe('getAncestorRoles', () => {
+    it('should walk up every level of parents', async () => {
+      mockRoleModel.find
+        .mockReturnValueOnce(
+          query([{ slug: 'manager', permissions: [], parents: ['support'] }]),
+        )
+        .mockReturnValueOnce(
+          query([{ slug: 'support', permissions: [], parents: [] }]),
+        );
+
+      const ancestors = await service.getAncestorRoles({
+        slug: 'lead',
+        parents: ['manager'],
+      });
+
+      expect(ancestors.map((role) => role.slug)).toEqual([
+        'manager',
+        'support',
+      ]);
+    });
+
+    it('should stop at roles it has already visited', async () => {
+      mockRoleModel.find
+        .mockReturnValueOnce(
+          query([{ slug: 'a', permissions: [], parents: ['b'] }]),
+        )
+        .mockReturnValueOnce(
+          query([{ slug: 'b', permissions: [], parents: ['a', 'lead'] }]),
+        );
+
+      const ancestors = await service.getAncestorRoles({
+        slug: 'lead',
+        parents: ['a'],
+      });
+
+      expect(ancestors.map((role) => role.slug)).toEqual(['a', 'b']);
+      expect(mockRoleModel.find).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getRoleLevels', () => {
+    beforeEach(() => {
+      mockRoleModel.find.mockReturnValue(
+        query([
+          { slug: 'admin' },
+          { slug: 'team-lead', level: 2.5 },
+          { slug: 'auditor' },
+        ]),
+      );
+    });
+
+    it('should combine stored levels with the system hierarchy', async () => {
+      await expect(service.getRoleLevels()).resolves.toEqual({
+        user: 1,
+        support: 2,
+        manager: 3,
+        admin: 4,
+        'team-lead': 2.5,
+        auditor: 0,
+      });
+      await expect(service.getRoleLevel('team-lead')).resolves.toBe(2.5);
+      await expect(
+        service.getRoleLevel(['support', 'team-lead']),
+      ).resolves.toBe(2.5);
+    });
+
+    it('should cache levels until invalidated', async () => {
+      await service.getRoleLevels();
+      await service.getRoleLevel('team-lead');
+      expect(mockRoleModel.find).toHaveBeenCalledTimes(1);
+
+      service.invalidateRoleLevels();
+      await service.getRoleLevels();
+      expect(mockRoleModel.find).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('grant', () => {
+    it('should store the grantor and expiry', async () => {
+      const expiresAt = new Date('2026-11-01T00:00:00.000Z');
+
+      await service.grant(userId, 'reports:read:all', {
+        grantedBy: adminId,
+        expiresAt,
+      });
+
+      expect(mockPermissionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { user: userId, permission: 'reports:read:all' },
+        {
+          $set: {
+            granted: true,
+            grantedBy: new Types.ObjectId(adminId),
+            expiresAt,
+          },
+          $unset: {},
+        },
+        { upsert: true, new: true },
+      );
+    });
+
+    it('should clear the expiry of a grant made permanent', async () => {
+      await service.grant(userId, 'reports:read:all');
+
+      expect(mockPermissionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.anything(),
+        {
+          $set: { granted: true },
+          $unset: { grantedBy: 1, expiresAt: 1 },
+        },
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('deny', () => {
+    it('should store a denial', async () => {
+      await service.deny(userId, 'users:delete:all', { grantedBy: adminId });
+
+      expect(mockPermissionModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { user: userId, permission: 'users:delete:all' },
+        {
+          $set: { granted: false, grantedBy: new Types.ObjectId(adminId) },
+          $unset: { expiresAt: 1 },
+        },
+        { upsert: true, new: true },
+      );
+    });
+  });
+
+  describe('removeDenial', () => {
+    it('should only remove denials', async () => {
+      await service.removeDenial(userId, 'users:delete:all');
+
+      expect(mockPermissionModel.deleteOne).toHaveBeenCalledWith({
+        user: userId,
+        permission: 'users:delete:all',
+        granted: false,
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    it('should report whether a grant was removed', async () => {
+      await expect(service.revoke(userId, 'reports:read:all')).resolves.toBe(
+        true,
+      );
+
+      mockPermissionModel.deleteOne.mockReturnValue(query({ deletedCount: 0 }));
+      await expect(service.revoke(userId, 'reports:read:all')).resolves.toBe(
+        false,
+      );
+    });
+  });
+});
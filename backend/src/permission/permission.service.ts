@@ -0,0 +1,352 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Permission, PermissionDocument } from './schemas/permission.schema';
+import { Role, RoleDocument } from '../role/schemas/role.schema';
+import {
+  Membership,
+  MembershipDocument,
+} from '../organization/schemas/membership.schema';
+import { ORGANIZATION_ROLE_PERMISSIONS } from '../organization/constants/organization-permissions';
+import { toDeniedPermission } from '../common/utils/permission.utils';
+import {
+  getRoleLevel,
+  ROLE_HIERARCHY,
+  RoleLevels,
+  RoleSlugs,
+} from '../common/utils/role-hierarchy';
+
+/**
+ * How long role levels are cached before being read again.
+ * Bounds how stale other instances can be after a role changes.
+ */
+const ROLE_LEVELS_TTL_MS = 60 * 1000;
+
+/**
+ * The parts of a user that decide which permissions they hold
+ */
+export interface PermissionSubject {
+  _id: Types.ObjectId;
+  roles: string[];
+  permissions?: string[];
+  activeOrganization?: Types.ObjectId | null;
+}
+
+/**
+ * A user's membership of their active organization
+ */
+export type ActiveMembership = Pick<Membership, 'organization' | 'role'>;
+
+/**
+ * The parts of a role needed to walk up its parents
+ */
+export type InheritingRole = Pick<Role, 'slug' | 'parents'>;
+
+/**
+ * Options for a direct permission grant or denial
+ */
+export interface GrantOptions {
+  /** Admin who granted or denied the permission */
+  grantedBy?: string;
+  /** When the grant or denial lapses; permanent if omitted */
+  expiresAt?: Date;
+}
+
+/**
+ * Permission Service
+ * Stores per-user overrides as Permission documents: grants (granted: true)
+ * add to the permissions a user's role gives them, denials (granted: false)
+ * take permissions away. Works out the permissions a user holds from both,
+ * along with their roles, the roles they inherit from and their role in
+ * the active organization.
+ * Also caches the level of every role for role hierarchy checks.
+ */
+@Injectable()
+export class PermissionService {
+  private roleLevels: { levels: RoleLevels; expiresAt: number } | null = null;
+
+  constructor(
+    @InjectModel(Permission.name)
+    private permissionModel: Model<PermissionDocument>,
+    @InjectModel(Role.name) private roleModel: Model<RoleDocument>,
+    @InjectModel(Membership.name)
+    private membershipModel: Model<MembershipDocument>,
+  ) {}
+
+  /**
+   * Get effective permissions for a user (role and inherited permissions across all roles + active organization role + direct permissions + active grants - active denials).
+   * Denials are removed from the list and appended as "!permission" so they
+   * also override the wildcard (*).
+   * @param user - User document
+   * @param membership - Membership of the active organization; looked up when omitted
+   * @returns Array of effective permissions (deduplicated)
+   */
+  async getEffectivePermissions(
+    user: PermissionSubject,
+    membership?: ActiveMembership | null,
+  ): Promise<string[]> {
+    const [rolePermissions, activeMembership, overrides] = await Promise.all([
+      this.getRolePermissions(user.roles ?? []),
+      membership === undefined ? this.getActiveMembership(user) : membership,
+      this.permissionModel
+        .find(this.activeOverrideFilter(user._id))
+        .select('permission granted')
+        .lean()
+        .exec(),
+    ]);
+
+    const permissions = new Set([
+      ...rolePermissions,
+      ...(activeMembership
+        ? ORGANIZATION_ROLE_PERMISSIONS[activeMembership.role]
+        : []),
+      ...(user.permissions ?? []),
+    ]);
+    const denied: string[] = [];
+
+    for (const override of overrides) {
+      if (override.granted) {
+        permissions.add(override.permission);
+      } else {
+        denied.push(override.permission);
+      }
+    }
+
+    for (const permission of denied) {
+      permissions.delete(permission);
+    }
+
+    return [...permissions, ...denied.map(toDeniedPermission)];
+  }
+
+  /**
+   * The user's membership of their active organization.
+   * Null when no organization is active or the user has since left it.
+   */
+  async getActiveMembership(
+    user: PermissionSubject,
+  ): Promise<ActiveMembership | null> {
+    if (!user.activeOrganization) {
+      return null;
+    }
+
+    return this.membershipModel
+      .findOne({ organization: user.activeOrganization, user: user._id })
+      .select('organization role')
+      .lean<ActiveMembership>()
+      .exec();
+  }
+
+  /**
+   * Permissions the given roles grant, including those they inherit (deduplicated)
+   */
+  async getRolePermissions(slugs: string[]): Promise<string[]> {
+    if (slugs.length === 0) {
+      return [];
+    }
+
+    const roles = await this.roleModel
+      .find({ slug: { $in: slugs } })
+      .select('slug permissions parents')
+      .lean<Role[]>()
+      .exec();
+    const inherited = await Promise.all(
+      roles.map((role) => this.getInheritedPermissions(role)),
+    );
+
+    return [
+      ...new Set([
+        ...roles.flatMap((role) => role.permissions),
+        ...inherited.flat(),
+      ]),
+    ];
+  }
+
+  /**
+   * Every role a role inherits from, directly or through its parents.
+   * Each role is visited once, so a cycle in stored data cannot loop forever.
+   */
+  async getAncestorRoles(role: InheritingRole): Promise<Role[]> {
+    const visited = new Set([role.slug]);
+    const ancestors: Role[] = [];
+    let pending = [...new Set(role.parents ?? [])];
+
+    while (pending.length > 0) {
+      pending.forEach((slug) => visited.add(slug));
+
+      const parents = await this.roleModel
+        .find({ slug: { $in: pending } })
+        .select('name slug permissions parents')
+        .lean<Role[]>()
+        .exec();
+
+      ancestors.push(...parents);
+      pending = [
+        ...new Set(parents.flatMap((parent) => parent.parents ?? [])),
+      ].filter((slug) => !visited.has(slug));
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Permissions a role inherits from its ancestors (deduplicated)
+   */
+  async getInheritedPermissions(role: InheritingRole): Promise<string[]> {
+    if (!role.parents?.length) {
+      return [];
+    }
+
+    const ancestors = await this.getAncestorRoles(role);
+    return [...new Set(ancestors.flatMap((ancestor) => ancestor.permissions))];
+  }
+
+  /**
+   * Level of every role, keyed by slug (cached)
+   * System roles without a stored level keep their ROLE_HIERARCHY level;
+   * custom roles without one are level 0.
+   */
+  async getRoleLevels(): Promise<RoleLevels> {
+    if (this.roleLevels && this.roleLevels.expiresAt > Date.now()) {
+      return this.roleLevels.levels;
+    }
+
+    const roles = await this.roleModel
+      .find()
+      .select('slug level')
+      .lean<Pick<Role, 'slug' | 'level'>[]>()
+      .exec();
+
+    const levels: RoleLevels = { ...ROLE_HIERARCHY };
+    for (const role of roles) {
+      levels[role.slug] = role.level ?? ROLE_HIERARCHY[role.slug] ?? 0;
+    }
+
+    this.roleLevels = { levels, expiresAt: Date.now() + ROLE_LEVELS_TTL_MS };
+    return levels;
+  }
+
+  /**
+   * Level of a role, or the highest level among a user's roles (cached)
+   */
+  async getRoleLevel(roles: RoleSlugs): Promise<number> {
+    return getRoleLevel(roles, await this.getRoleLevels());
+  }
+
+  /**
+   * Drop cached role levels so the next check reads them again.
+   * Call after a role is created, renamed, re-ranked or deleted.
+   */
+  invalidateRoleLevels(): void {
+    this.roleLevels = null;
+  }
+
+  /**
+   * Grants and denials that have not expired, oldest first
+   * The TTL monitor only runs about once a minute, so expired entries
+   * are filtered out here rather than relying on it.
+   */
+  async getActiveOverrides(
+    userId: Types.ObjectId | string,
+  ): Promise<PermissionDocument[]> {
+    return this.permissionModel
+      .find(this.activeOverrideFilter(userId))
+      .populate('grantedBy', 'name email')
+      .sort({ createdAt: 1 })
+      .exec();
+  }
+
+  /**
+   * Grant a permission, replacing any earlier grant or denial of the same permission
+   */
+  async grant(
+    userId: Types.ObjectId | string,
+    permission: string,
+    options: GrantOptions = {},
+  ): Promise<PermissionDocument> {
+    return this.setOverride(userId, permission, true, options);
+  }
+
+  /**
+   * Deny a permission, replacing any earlier grant or denial of the same permission
+   */
+  async deny(
+    userId: Types.ObjectId | string,
+    permission: string,
+    options: GrantOptions = {},
+  ): Promise<PermissionDocument> {
+    return this.setOverride(userId, permission, false, options);
+  }
+
+  /**
+   * Remove a granted permission
+   * @returns Whether a grant was removed
+   */
+  async revoke(
+    userId: Types.ObjectId | string,
+    permission: string,
+  ): Promise<boolean> {
+    return this.removeOverride(userId, permission, true);
+  }
+
+  /**
+   * Lift a permission denial
+   * @returns Whether a denial was removed
+   */
+  async removeDenial(
+    userId: Types.ObjectId | string,
+    permission: string,
+  ): Promise<boolean> {
+    return this.removeOverride(userId, permission, false);
+  }
+
+  private async setOverride(
+    userId: Types.ObjectId | string,
+    permission: string,
+    granted: boolean,
+    options: GrantOptions,
+  ): Promise<PermissionDocument> {
+    const set: Partial<Permission> = { granted };
+    const unset: Partial<Record<keyof Permission, 1>> = {};
+
+    if (options.grantedBy) {
+      set.grantedBy = new Types.ObjectId(options.grantedBy);
+    } else {
+      unset.grantedBy = 1;
+    }
+
+    if (options.expiresAt) {
+      set.expiresAt = options.expiresAt;
+    } else {
+      unset.expiresAt = 1;
+    }
+
+    return this.permissionModel
+      .findOneAndUpdate(
+        { user: new Types.ObjectId(userId), permission },
+        { $set: set, $unset: unset },
+        { upsert: true, new: true },
+      )
+      .orFail()
+      .exec();
+  }
+
+  private async removeOverride(
+    userId: Types.ObjectId | string,
+    permission: string,
+    granted: boolean,
+  ): Promise<boolean> {
+    const result = await this.permissionModel
+      .deleteOne({ user: new Types.ObjectId(userId), permission, granted })
+      .exec();
+
+    return result.deletedCount > 0;
+  }
+
+  private activeOverrideFilter(userId: Types.ObjectId | string) {
+    return {
+      user: new Types.ObjectId(userId),
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+    };
+  }
+}
@@ -2,12 +2,15 @@ import {
   IsString,
   IsArray,
   IsOptional,
+  IsNumber,
+  Min,
   MinLength,
   MaxLength,
   Matches,
   ArrayMinSize,
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PERMISSION_REGEX } from '../../common/constants/permissions';
 
 export class CreateRoleDto {
   @ApiProperty({
@@ -35,17 +38,40 @@ export class CreateRoleDto {
   description?: string;
 
   @ApiProperty({
-    description: 'Array of permission strings',
-    example: ['posts:create', 'posts:update', 'posts:read:all'],
+    description:
+      'Array of permission strings. Segments may be wildcards (users:*, *:read:own)',
+    example: ['posts:create', 'posts:update', 'posts:read:all', 'users:read:*'],
     type: [String],
   })
   @IsArray()
   @IsString({ each: true })
   @ArrayMinSize(1, { message: 'Role must have at least one permission' })
-  @Matches(/^([a-z-]+:[a-z-]+(:[a-z-]+)?|\*)$/, {
+  @Matches(PERMISSION_REGEX, {
     each: true,
     message:
-      'Permission must be in format resource:action[:scope] or wildcard *',
+      'Permission must be in format resource:action[:scope] or wildcard *, where any segment may be *',
   })
   permissions!: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Slugs of roles whose permissions this role inherits. Inheritance is transitive and must not form a cycle',
+    example: ['support'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  parents?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Rank in the role hierarchy. Users can manage users whose role ranks at or below theirs (user 1, support 2, manager 3, admin 4). Must be below the admin level; fractions place a role between system roles. Roles without a level can only be managed by admins',
+    example: 2.5,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  level?: number;
 }
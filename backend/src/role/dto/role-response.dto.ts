@@ -44,6 +44,28 @@ export class RoleResponseDto {
   })
   permissions!: string[];
 
+  @ApiProperty({
+    description: 'Slugs of the roles this role inherits from',
+    example: ['support'],
+    type: [String],
+  })
+  parents!: string[];
+
+  @ApiProperty({
+    description:
+      'Permissions inherited from parent roles (transitively) that the role does not grant itself',
+    example: ['sessions:read:all'],
+    type: [String],
+  })
+  inheritedPermissions!: string[];
+
+  @ApiProperty({
+    description:
+      'Rank in the role hierarchy (0 for custom roles without a level)',
+    example: 2.5,
+  })
+  level!: number;
+
   @ApiProperty({
     description: 'Creation timestamp',
     example: '2024-01-20T10:30:00Z',
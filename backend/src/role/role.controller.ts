@@ -25,6 +25,8 @@ import { UpdateRoleDto } from './dto/update-role.dto';
 import { ListRolesQueryDto } from './dto/list-roles-query.dto';
 import { RoleResponseDto, RoleListData } from './dto/role-response.dto';
 import { AuthGuard } from '../auth/guards/auth.guard';
+import { RequestAuditContext } from '../audit/decorators/audit-context.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
 import { PermissionGuard } from '../common/guards/permission.guard';
 import { RequirePermissions } from '../common/decorators/permissions.decorator';
 import { ROLE_PERMISSIONS } from '../common/constants/permissions';
@@ -168,8 +170,9 @@ export class RoleController {
   async update(
     @Param('idOrSlug') idOrSlug: string,
     @Body() dto: UpdateRoleDto,
+    @RequestAuditContext() auditContext: AuditContext,
   ): Promise<ApiResponseDto<RoleResponseDto>> {
-    const data = await this.roleService.update(idOrSlug, dto);
+    const data = await this.roleService.update(idOrSlug, dto, auditContext);
     return {
       success: true,
       message: 'Role updated successfully',
@@ -6,6 +6,8 @@ import { Role, RoleSchema } from './schemas/role.schema';
 import { User, UserSchema } from '../user/schemas/user.schema';
 import { AuthModule } from '../auth/auth.module';
 import { CommonModule } from '../common/common.module';
+import { AuditModule } from '../audit/audit.module';
+import { PermissionModule } from '../permission/permission.module';
 
 @Module({
   imports: [
@@ -14,7 +16,9 @@ import { CommonModule } from '../common/common.module';
       { name: User.name, schema: UserSchema },
     ]),
     AuthModule, // Required for AuthGuard
+    PermissionModule, // Required for AuthGuard and role inheritance
     CommonModule, // Required for RolesGuard
+    AuditModule,
   ],
   controllers: [RoleController],
   providers: [RoleService],
@@ -0,0 +1,208 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { RoleService } from './role.service';
+import { Role } from './schemas/role.schema';
+import { User } from '../user/schemas/user.schema';
+import { AuditService } from '../audit/audit.service';
+import { PermissionService } from '../permission/permission.service';
+
+describe('RoleService', () => {
+  let service: RoleService;
+
+  const query = <T>(value: T) => ({
+    select: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const roleDoc = (overrides: Partial<Role> = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Editor',
+    slug: 'editor',
+    description: undefined,
+    isSystemRole: false,
+    isProtected: false,
+    permissions: ['posts:update:all'],
+    parents: [] as string[],
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+  });
+
+  const mockRoleModel = Object.assign(
+    jest.fn().mockImplementation((data: Partial<Role>) => roleDoc(data)),
+    {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      updateMany: jest.fn(),
+      countDocuments: jest.fn(),
+      deleteOne: jest.fn(),
+    },
+  );
+  const mockUserModel = { countDocuments: jest.fn() };
+  const mockAuditService = { record: jest.fn() };
+  const mockPermissionService = {
+    getAncestorRoles: jest.fn(),
+    getInheritedPermissions: jest.fn(),
+    invalidateRoleLevels: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockRoleModel.findOne.mockResolvedValue(null);
+    mockRoleModel.find.mockImplementation(
+      ({ slug }: { slug: { $in: string[] } }) =>
+        query(slug.$in.map((parent) => ({ slug: parent }))),
+    );
+    mockRoleModel.countDocuments.mockResolvedValue(0);
+    mockUserModel.countDocuments.mockResolvedValue(0);
+    mockPermissionService.getAncestorRoles.mockResolvedValue([]);
+    mockPermissionService.getInheritedPermissions.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoleService,
+        { provide: getModelToken(Role.name), useValue: mockRoleModel },
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: PermissionService, useValue: mockPermissionService },
+      ],
+    }).compile();
+
+    service = module.get<RoleService>(RoleService);
+  });
+
+  describe('create', () => {
+    it('should store parents and return inherited permissions separately', async () => {
+      mockPermissionService.getInheritedPermissions.mockResolvedValue([
+        'posts:update:all',
+        'posts:read:all',
+      ]);
+
+      const role = await service.create({
+        name: 'Editor',
+        permissions: ['posts:update:all'],
+        parents: ['viewer', 'viewer'],
+      });
+
+      expect(mockRoleModel).toHaveBeenCalledWith(
+        expect.objectContaining({ parents: ['viewer'] }),
+      );
+      expect(role.parents).toEqual(['viewer']);
+      expect(role.inheritedPermissions).toEqual(['posts:read:all']);
+    });
+
+    it('should reject unknown parent roles', async () => {
+      mockRoleModel.find.mockReturnValue(query([]));
+
+      await expect(
+        service.create({
+          name: 'Editor',
+          permissions: ['posts:update:all'],
+          parents: ['missing'],
+        }),
+      ).rejects.toThrow('Parent role "missing" not found');
+    });
+
+    it('should store the level and refresh cached role levels', async () => {
+      const role = await service.create({
+        name: 'Team Lead',
+        permissions: ['users:read:all'],
+        level: 2.5,
+      });
+
+      expect(mockRoleModel).toHaveBeenCalledWith(
+        expect.objectContaining({ level: 2.5 }),
+      );
+      expect(role.level).toBe(2.5);
+      expect(mockPermissionService.invalidateRoleLevels).toHaveBeenCalled();
+    });
+
+    it('should reject levels at or above the admin level', async () => {
+      await expect(
+        service.create({
+          name: 'Super Lead',
+          permissions: ['users:read:all'],
+          level: 4,
+        }),
+      ).rejects.toThrow('Role level must be below the admin level (4)');
+    });
+  });
+
+  describe('update', () => {
+    it('should reject a role inheriting from itself', async () => {
+      mockRoleModel.findOne.mockResolvedValue(roleDoc());
+
+      await expect(
+        service.update('editor', { parents: ['editor'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject parents that lead back to the role', async () => {
+      mockRoleModel.findOne.mockResolvedValue(roleDoc());
+      mockPermissionService.getAncestorRoles.mockResolvedValue([
+        { slug: 'reviewer', parents: ['editor'] },
+        { slug: 'viewer', parents: [] },
+      ]);
+
+      await expect(
+        service.update('editor', { parents: ['viewer'] }),
+      ).rejects.toThrow('Cannot inherit from "reviewer"');
+      expect(mockPermissionService.getAncestorRoles).toHaveBeenCalledWith({
+        slug: 'editor',
+        parents: ['viewer'],
+      });
+    });
+
+    it('should point child roles at a renamed role', async () => {
+      mockRoleModel.findOne
+        .mockResolvedValueOnce(roleDoc())
+        .mockResolvedValueOnce(null);
+
+      await service.update('editor', { name: 'Senior Editor' });
+
+      expect(mockRoleModel.updateMany).toHaveBeenCalledWith(
+        { parents: 'editor' },
+        { $set: { 'parents.$': 'senior-editor' } },
+      );
+    });
+
+    it('should change the level of a custom role', async () => {
+      const doc = roleDoc({ level: 1 });
+      mockRoleModel.findOne.mockResolvedValue(doc);
+
+      const role = await service.update('editor', { level: 2.5 });
+
+      expect(doc.level).toBe(2.5);
+      expect(role.level).toBe(2.5);
+      expect(mockPermissionService.invalidateRoleLevels).toHaveBeenCalled();
+    });
+
+    it('should keep system role levels fixed', async () => {
+      mockRoleModel.findOne.mockResolvedValue(
+        roleDoc({ slug: 'manager', isSystemRole: true }),
+      );
+
+      await expect(service.update('manager', { level: 3 })).resolves.toEqual(
+        expect.objectContaining({ level: 3 }),
+      );
+      await expect(service.update('manager', { level: 2 })).rejects.toThrow(
+        'Cannot change the level of a system role',
+      );
+    });
+  });
+
+  describe('delete', () => {
+    it('should refuse to delete a role other roles inherit from', async () => {
+      mockRoleModel.findOne.mockResolvedValue(roleDoc());
+      mockRoleModel.countDocuments.mockResolvedValue(2);
+
+      await expect(service.delete('editor')).rejects.toThrow(
+        '2 roles inherit from it',
+      );
+      expect(mockRoleModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -13,12 +13,24 @@ import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
 import { ListRolesQueryDto } from './dto/list-roles-query.dto';
 import { RoleResponseDto, RoleListData } from './dto/role-response.dto';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditTargetType } from '../audit/enums/audit-action.enum';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { diffChanges } from '../audit/utils/audit-diff';
+import { isValidPermission } from '../common/utils/permission.utils';
+import { PermissionService } from '../permission/permission.service';
+import {
+  ADMIN_ROLE_LEVEL,
+  ROLE_HIERARCHY,
+} from '../common/utils/role-hierarchy';
 
 @Injectable()
 export class RoleService {
   constructor(
     @InjectModel(Role.name) private readonly roleModel: Model<RoleDocument>,
     @InjectModel(User.name) private readonly userModel: Model<UserDocument>,
+    private readonly auditService: AuditService,
+    private readonly permissionService: PermissionService,
   ) {}
 
   /**
@@ -38,6 +50,10 @@ export class RoleService {
 
     // Validate permissions format
     this.validatePermissions(dto.permissions);
+    const parents = await this.validateParents(slug, dto.parents ?? []);
+    if (dto.level !== undefined) {
+      this.validateLevel(dto.level);
+    }
 
     // Create role
     const role = new this.roleModel({
@@ -47,9 +63,12 @@ export class RoleService {
       isSystemRole: false,
       isProtected: false,
       permissions: dto.permissions,
+      parents,
+      level: dto.level,
     });
 
     await role.save();
+    this.permissionService.invalidateRoleLevels();
 
     return this.mapToResponseDto(role);
   }
@@ -85,7 +104,9 @@ export class RoleService {
     const pages = Math.ceil(total / limit);
 
     return {
-      roles: roles.map((role) => this.mapToResponseDto(role)),
+      roles: await Promise.all(
+        roles.map((role) => this.mapToResponseDto(role)),
+      ),
       total,
       page,
       pages,
@@ -103,8 +124,13 @@ export class RoleService {
   /**
    * Update an existing role
    */
-  async update(idOrSlug: string, dto: UpdateRoleDto): Promise<RoleResponseDto> {
+  async update(
+    idOrSlug: string,
+    dto: UpdateRoleDto,
+    context?: AuditContext,
+  ): Promise<RoleResponseDto> {
     const role = await this.findRoleByIdOrSlug(idOrSlug);
+    const before = this.toAuditSnapshot(role);
 
     // Prevent updating protected roles
     if (role.isProtected) {
@@ -113,6 +139,13 @@ export class RoleService {
       );
     }
 
+    // Validate parents against the current slug so existing children are found
+    if (dto.parents) {
+      role.parents = await this.validateParents(role.slug, dto.parents);
+    }
+
+    const previousSlug = role.slug;
+
     // If name is being changed, regenerate slug and check uniqueness
     if (dto.name && dto.name !== role.name) {
       const newSlug = this.generateSlug(dto.name);
@@ -136,7 +169,35 @@ export class RoleService {
       role.permissions = dto.permissions;
     }
 
+    if (dto.level !== undefined && dto.level !== this.getLevel(role)) {
+      if (role.isSystemRole) {
+        throw new BadRequestException(
+          'Cannot change the level of a system role',
+        );
+      }
+      this.validateLevel(dto.level);
+      role.level = dto.level;
+    }
+
     await role.save();
+    this.permissionService.invalidateRoleLevels();
+
+    // Keep roles that inherit from this one pointing at it
+    if (role.slug !== previousSlug) {
+      await this.roleModel.updateMany(
+        { parents: previousSlug },
+        { $set: { 'parents.$': role.slug } },
+      );
+    }
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.ROLE_UPDATED,
+      targetType: AuditTargetType.ROLE,
+      targetId: role._id.toString(),
+      changes: diffChanges(before, this.toAuditSnapshot(role)),
+      metadata: { slug: role.slug },
+    });
 
     return this.mapToResponseDto(role);
   }
@@ -156,7 +217,7 @@ export class RoleService {
 
     // Check if any users are assigned this role
     const userCount = await this.userModel.countDocuments({
-      role: role.slug,
+      roles: role.slug,
     });
 
     if (userCount > 0) {
@@ -165,7 +226,19 @@ export class RoleService {
       );
     }
 
+    // Check if any roles inherit from this role
+    const childCount = await this.roleModel.countDocuments({
+      parents: role.slug,
+    });
+
+    if (childCount > 0) {
+      throw new BadRequestException(
+        `Cannot delete role. ${childCount} role${childCount > 1 ? 's' : ''} inherit${childCount > 1 ? '' : 's'} from it. Please update them first.`,
+      );
+    }
+
     await this.roleModel.deleteOne({ _id: role._id });
+    this.permissionService.invalidateRoleLevels();
   }
 
   /**
@@ -179,7 +252,7 @@ export class RoleService {
    * Check if role is assigned to any users
    */
   async isRoleAssignedToUsers(roleSlug: string): Promise<boolean> {
-    const count = await this.userModel.countDocuments({ role: roleSlug });
+    const count = await this.userModel.countDocuments({ roles: roleSlug });
     return count > 0;
   }
 
@@ -187,7 +260,7 @@ export class RoleService {
    * Get user count for a role
    */
   async getUserCount(roleSlug: string): Promise<number> {
-    return this.userModel.countDocuments({ role: roleSlug });
+    return this.userModel.countDocuments({ roles: roleSlug });
   }
 
   /**
@@ -227,10 +300,8 @@ export class RoleService {
    * Validate permission format
    */
   private validatePermissions(permissions: string[]): void {
-    const permissionRegex = /^([a-z-]+:[a-z-]+(:[a-z-]+)?|\*)$/;
-
     for (const permission of permissions) {
-      if (!permissionRegex.test(permission)) {
+      if (!isValidPermission(permission)) {
         throw new BadRequestException(
           `Invalid permission format: "${permission}". Must be resource:action[:scope] or wildcard "*"`,
         );
@@ -238,12 +309,78 @@ export class RoleService {
     }
   }
 
+  /**
+   * Validate a role level: custom roles rank below admins
+   */
+  private validateLevel(level: number): void {
+    if (level >= ADMIN_ROLE_LEVEL) {
+      throw new BadRequestException(
+        `Role level must be below the admin level (${ADMIN_ROLE_LEVEL})`,
+      );
+    }
+  }
+
+  /**
+   * Validate parent roles: they must exist and must not lead back to the role
+   * @returns Deduplicated parent slugs
+   */
+  private async validateParents(
+    slug: string,
+    parents: string[],
+  ): Promise<string[]> {
+    const uniqueParents = [...new Set(parents)];
+
+    if (uniqueParents.includes(slug)) {
+      throw new BadRequestException('A role cannot inherit from itself');
+    }
+
+    const existing = await this.roleModel
+      .find({ slug: { $in: uniqueParents } })
+      .select('slug')
+      .lean()
+      .exec();
+    const missing = uniqueParents.filter(
+      (parent) => !existing.some((role) => role.slug === parent),
+    );
+
+    if (missing.length > 0) {
+      throw new BadRequestException(`Parent role "${missing[0]}" not found`);
+    }
+
+    // A cycle exists if any ancestor inherits from this role
+    const ancestors = await this.permissionService.getAncestorRoles({
+      slug,
+      parents: uniqueParents,
+    });
+    const cycle = ancestors.find((ancestor) =>
+      ancestor.parents?.includes(slug),
+    );
+
+    if (cycle) {
+      throw new BadRequestException(
+        `Cannot inherit from "${cycle.slug}": it already inherits from this role`,
+      );
+    }
+
+    return uniqueParents;
+  }
+
+  /**
+   * Level of a role, falling back to the system role hierarchy
+   */
+  private getLevel(role: Pick<Role, 'slug' | 'level'>): number {
+    return role.level ?? ROLE_HIERARCHY[role.slug] ?? 0;
+  }
+
   /**
    * Map Role document to response DTO
    */
-  private mapToResponseDto(
+  private async mapToResponseDto(
     role: RoleDocument | (Role & { _id: { toString(): string } }),
-  ): RoleResponseDto {
+  ): Promise<RoleResponseDto> {
+    const inherited =
+      await this.permissionService.getInheritedPermissions(role);
+
     return {
       id: role._id.toString(),
       name: role.name,
@@ -252,8 +389,27 @@ export class RoleService {
       isSystemRole: role.isSystemRole,
       isProtected: role.isProtected,
       permissions: role.permissions,
+      parents: role.parents ?? [],
+      inheritedPermissions: inherited.filter(
+        (permission) => !role.permissions.includes(permission),
+      ),
+      level: this.getLevel(role),
       createdAt: role.createdAt,
       updatedAt: role.updatedAt,
     };
   }
+
+  /**
+   * Fields of a role compared in audit entries
+   */
+  private toAuditSnapshot(role: RoleDocument): Record<string, unknown> {
+    return {
+      name: role.name,
+      slug: role.slug,
+      description: role.description,
+      permissions: [...role.permissions],
+      parents: [...(role.parents ?? [])],
+      level: role.level,
+    };
+  }
 }
@@ -4,6 +4,8 @@ import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
 /**
  * Role schema for dynamic role management system.
  * Supports custom roles with granular permission assignments.
+ * Roles can inherit the permissions of parent roles.
+ * A level places a role in the hierarchy used for user management.
  */
 @Schema({ timestamps: true })
 export class Role {
@@ -25,6 +27,17 @@ export class Role {
   @Prop({ type: [String], default: [] })
   permissions!: string[];
 
+  /** Slugs of the roles whose permissions this role inherits */
+  @Prop({ type: [String], default: [] })
+  parents!: string[];
+
+  /**
+   * Rank in the role hierarchy; higher levels manage lower ones.
+   * System roles fall back to ROLE_HIERARCHY and custom roles to 0 when unset.
+   */
+  @Prop({ min: 0 })
+  level?: number;
+
   // Timestamp fields (automatically managed by Mongoose with timestamps: true)
   createdAt!: Date;
   updatedAt!: Date;
@@ -38,6 +51,7 @@ export const RoleSchema: MongooseSchema<Role> =
 // Indexes for performance
 RoleSchema.index({ slug: 1 }, { unique: true });
 RoleSchema.index({ isSystemRole: 1 });
+RoleSchema.index({ parents: 1 });
 RoleSchema.index({ createdAt: -1 });
 
 // Ensure slug is always lowercase
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * SAML connection as returned by the admin API
+ */
+export class SamlConnectionResponseDto {
+  @ApiProperty({ example: 'acme' })
+  slug!: string;
+
+  @ApiProperty({ example: 'Acme Corp' })
+  name!: string;
+
+  @ApiProperty({ example: true })
+  enabled!: boolean;
+
+  @ApiProperty({ example: 'https://idp.acme.com/metadata' })
+  idpEntityId!: string;
+
+  @ApiProperty({ example: 'https://idp.acme.com/sso' })
+  idpSsoUrl!: string;
+
+  @ApiProperty({
+    description: 'Expiry of each IdP signing certificate',
+    type: [Date],
+  })
+  certificateExpiresAt!: Date[];
+
+  @ApiProperty({ example: ['acme.com'], type: [String] })
+  domains!: string[];
+
+  @ApiProperty({ example: { email: 'email', name: 'name', role: 'role' } })
+  attributeMapping!: Record<string, string>;
+
+  @ApiProperty({ example: { Engineering: 'manager' } })
+  roleMapping!: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Entity ID to register at the IdP',
+    example: 'http://localhost:5001/api/auth/saml/acme/metadata',
+  })
+  spEntityId!: string;
+
+  @ApiProperty({
+    description: 'Assertion Consumer Service URL to register at the IdP',
+    example: 'http://localhost:5001/api/auth/saml/acme/acs',
+  })
+  acsUrl!: string;
+
+  @ApiProperty()
+  createdAt!: Date;
+
+  @ApiProperty()
+  updatedAt!: Date;
+}
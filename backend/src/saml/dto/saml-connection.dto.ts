@@ -0,0 +1,164 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+
+/**
+ * Allowed shape of a connection slug (the provider name becomes saml-<slug>)
+ */
+export const SAML_CONNECTION_SLUG_PATTERN = /^[a-z][a-z0-9-]{1,26}$/;
+
+/**
+ * DTO for the assertion attributes mapped onto the user
+ */
+export class SamlAttributeMappingDto {
+  @ApiPropertyOptional({
+    description: 'Attribute holding the email (falls back to the NameID)',
+    example: 'email',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  email?: string;
+
+  @ApiPropertyOptional({
+    description: 'Attribute holding the display name',
+    example: 'name',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'firstName' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'lastName' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  lastName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Attribute holding the IdP role or group',
+    example: 'role',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  role?: string;
+}
+
+/**
+ * DTO for importing a SAML connection from IdP metadata
+ */
+export class CreateSamlConnectionDto {
+  @ApiProperty({
+    description: 'URL-safe identifier used in the SSO URLs',
+    example: 'acme',
+  })
+  @IsString()
+  @Matches(SAML_CONNECTION_SLUG_PATTERN, {
+    message:
+      'Slug must start with a letter and contain 2-27 lowercase letters, numbers or hyphens',
+  })
+  slug!: string;
+
+  @ApiProperty({ description: 'Display name', example: 'Acme Corp' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @ApiProperty({
+    description: 'IdP metadata XML (EntityDescriptor)',
+    example: '<md:EntityDescriptor ...>...</md:EntityDescriptor>',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200000)
+  metadataXml!: string;
+
+  @ApiProperty({
+    description: 'Email domains the IdP is trusted to assert',
+    example: ['acme.com'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @Matches(/^([a-z0-9-]+\.)+[a-z]{2,}$/i, {
+    each: true,
+    message: 'Each domain must be a domain name such as example.com',
+  })
+  domains!: string[];
+
+  @ApiPropertyOptional({ type: SamlAttributeMappingDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SamlAttributeMappingDto)
+  attributeMapping?: SamlAttributeMappingDto;
+
+  @ApiPropertyOptional({
+    description: 'IdP role value to role slug',
+    example: { Engineering: 'manager', Support: 'support' },
+  })
+  @IsOptional()
+  @IsObject()
+  roleMapping?: Record<string, string>;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+/**
+ * DTO for updating a SAML connection
+ * Passing metadataXml re-imports the IdP endpoint and certificates
+ */
+export class UpdateSamlConnectionDto extends PartialType(
+  OmitType(CreateSamlConnectionDto, ['slug'] as const),
+) {}
+
+/**
+ * DTO for the assertion posted to the ACS (HTTP-POST binding)
+ */
+export class SamlAssertionConsumerDto {
+  @ApiProperty({ description: 'Base64-encoded SAML response' })
+  @IsString()
+  @IsNotEmpty()
+  SAMLResponse!: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  RelayState?: string;
+}
+
+/**
+ * DTO for finding the connection responsible for a work email
+ */
+export class SamlDiscoveryQueryDto {
+  @ApiProperty({ example: 'jane@acme.com' })
+  @IsEmail()
+  email!: string;
+}
@@ -0,0 +1,134 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SamlConnectionService } from './saml-connection.service';
+import {
+  CreateSamlConnectionDto,
+  UpdateSamlConnectionDto,
+} from './dto/saml-connection.dto';
+import { SamlConnectionResponseDto } from './dto/saml-connection-response.dto';
+import { AuthGuard } from '../auth/guards/auth.guard';
+import { PermissionGuard } from '../common/guards/permission.guard';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { SSO_PERMISSIONS } from '../common/constants/permissions';
+import { ApiResponse } from '../common/dto/api-response.dto';
+
+/**
+ * SAML connection management controller.
+ * Imports customer identity providers from their metadata.
+ */
+@ApiTags('saml')
+@ApiBearerAuth('JWT-auth')
+@Controller('admin/saml/connections')
+@UseGuards(AuthGuard, PermissionGuard)
+export class SamlConnectionController {
+  constructor(private readonly connectionService: SamlConnectionService) {}
+
+  /**
+   * List SAML connections.
+   *
+   * @example GET /admin/saml/connections
+   */
+  @Get()
+  @RequirePermissions(SSO_PERMISSIONS.READ_ALL)
+  @ApiOperation({ summary: 'List SAML connections' })
+  async findAll(): Promise<ApiResponse<SamlConnectionResponseDto[]>> {
+    return ApiResponse.success(await this.connectionService.findAll());
+  }
+
+  /**
+   * Get a SAML connection.
+   *
+   * @example GET /admin/saml/connections/:slug
+   */
+  @Get(':slug')
+  @RequirePermissions(SSO_PERMISSIONS.READ_ALL)
+  @ApiOperation({
+    summary: 'Get SAML connection',
+    description:
+      'Returns the connection with the SP entity ID and ACS URL to register at the IdP.',
+  })
+  @ApiParam({ name: 'slug', example: 'acme' })
+  async findOne(
+    @Param('slug') slug: string,
+  ): Promise<ApiResponse<SamlConnectionResponseDto>> {
+    return ApiResponse.success(await this.connectionService.findOne(slug));
+  }
+
+  /**
+   * Import a SAML connection from IdP metadata.
+   *
+   * @example POST /admin/saml/connections
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @RequirePermissions(SSO_PERMISSIONS.MANAGE_ALL)
+  @ApiOperation({
+    summary: 'Import SAML connection',
+    description:
+      'Creates a connection from IdP metadata XML (entity ID, HTTP-Redirect SSO endpoint and ' +
+      'signing certificates). Only emails in the listed domains can sign in through it. ' +
+      'Role mapping values must be existing roles other than admin.',
+  })
+  @ApiBody({ type: CreateSamlConnectionDto })
+  async create(
+    @Body() dto: CreateSamlConnectionDto,
+  ): Promise<ApiResponse<SamlConnectionResponseDto>> {
+    return ApiResponse.success(await this.connectionService.create(dto));
+  }
+
+  /**
+   * Update a SAML connection.
+   *
+   * @example PATCH /admin/saml/connections/:slug
+   */
+  @Patch(':slug')
+  @RequirePermissions(SSO_PERMISSIONS.MANAGE_ALL)
+  @ApiOperation({
+    summary: 'Update SAML connection',
+    description:
+      'Updates the connection. Passing metadataXml re-imports the IdP endpoint and certificates.',
+  })
+  @ApiParam({ name: 'slug', example: 'acme' })
+  @ApiBody({ type: UpdateSamlConnectionDto })
+  async update(
+    @Param('slug') slug: string,
+    @Body() dto: UpdateSamlConnectionDto,
+  ): Promise<ApiResponse<SamlConnectionResponseDto>> {
+    return ApiResponse.success(await this.connectionService.update(slug, dto));
+  }
+
+  /**
+   * Delete a SAML connection.
+   *
+   * @example DELETE /admin/saml/connections/:slug
+   */
+  @Delete(':slug')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @RequirePermissions(SSO_PERMISSIONS.MANAGE_ALL)
+  @ApiOperation({
+    summary: 'Delete SAML connection',
+    description:
+      'Deletes the connection. Linked users keep their accounts and other sign-in methods.',
+  })
+  @ApiParam({ name: 'slug', example: 'acme' })
+  async remove(@Param('slug') slug: string): Promise<void> {
+    await this.connectionService.remove(slug);
+  }
+}
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { SamlConnectionService } from './saml-connection.service';
+import { SamlConnection } from './schemas/saml-connection.schema';
+import { CreateSamlConnectionDto } from './dto/saml-connection.dto';
+import { IdpMetadata, parseIdpMetadata } from './utils/saml.utils';
+import { RoleService } from '../role/role.service';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+// Metadata parsing is covered in saml.utils.spec.ts
+jest.mock('./utils/saml.utils', () => ({
+  ...jest.requireActual<object>('./utils/saml.utils'),
+  parseIdpMetadata: jest.fn(),
+  getCertificateExpiry: jest.fn(() => new Date('2030-01-01T00:00:00Z')),
+}));
+
+describe('SamlConnectionService', () => {
+  let service: SamlConnectionService;
+  let connectionModel: {
+    exists: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+  };
+  let roleService: { getRoleBySlug: jest.Mock };
+  const parseMock = parseIdpMetadata as jest.MockedFunction<
+    typeof parseIdpMetadata
+  >;
+
+  const metadata: IdpMetadata = {
+    entityId: 'https://idp.acme.test/metadata',
+    ssoUrl: 'https://idp.acme.test/sso',
+    certificates: ['cert'],
+  };
+
+  const dto = (
+    overrides: Partial<CreateSamlConnectionDto> = {},
+  ): CreateSamlConnectionDto => ({
+    slug: 'acme',
+    name: 'Acme',
+    metadataXml: '<EntityDescriptor/>',
+    domains: ['Acme.test', 'acme.test'],
+    roleMapping: { Engineering: 'manager' },
+    ...overrides,
+  });
+
+  const query = (result: unknown) => ({
+    exec: jest.fn().mockResolvedValue(result),
+  });
+
+  beforeEach(async () => {
+    connectionModel = {
+      exists: jest.fn().mockResolvedValue(null),
+      findOne: jest.fn().mockReturnValue(query(null)),
+      create: jest.fn((doc: Record<string, unknown>) =>
+        Promise.resolve({ ...doc, roleMapping: new Map() }),
+      ),
+    };
+    roleService = {
+      getRoleBySlug: jest.fn((slug: string) =>
+        Promise.resolve(['admin', 'manager'].includes(slug) ? { slug } : null),
+      ),
+    };
+    parseMock.mockReset().mockReturnValue(metadata);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SamlConnectionService,
+        {
+          provide: getModelToken(SamlConnection.name),
+          useValue: connectionModel,
+        },
+        { provide: RoleService, useValue: roleService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (_key: string, defaultValue?: unknown) => defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SamlConnectionService>(SamlConnectionService);
+  });
+
+  describe('create', () => {
+    it('should import the IdP metadata with normalised domains', async () => {
+      await service.create(dto());
+
+      expect(connectionModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          slug: 'acme',
+          enabled: true,
+          idpEntityId: metadata.entityId,
+          idpSsoUrl: metadata.ssoUrl,
+          idpCertificates: metadata.certificates,
+          domains: ['acme.test'],
+          roleMapping: { Engineering: 'manager' },
+        }),
+      );
+    });
+
+    it('should reject a slug that is already used', async () => {
+      connectionModel.exists.mockResolvedValue({ _id: 'existing' });
+
+      await expect(service.create(dto())).rejects.toMatchObject({
+        code: ErrorCode.SAML_CONNECTION_ALREADY_EXISTS,
+      });
+    });
+
+    it('should reject invalid metadata', async () => {
+      parseMock.mockImplementation(() => {
+        throw new Error('IdP metadata has no signing certificate');
+      });
+
+      await expect(service.create(dto())).rejects.toMatchObject({
+        code: ErrorCode.SAML_METADATA_INVALID,
+      });
+      expect(connectionModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a domain owned by another connection', async () => {
+      connectionModel.findOne.mockReturnValue(
+        query({ slug: 'globex', domains: ['acme.test'] }),
+      );
+
+      await expect(service.create(dto())).rejects.toMatchObject({
+        code: ErrorCode.SAML_CONNECTION_ALREADY_EXISTS,
+      });
+    });
+
+    it.each([['admin'], ['missing-role']])(
+      'should reject a role mapping to %s',
+      async (role) => {
+        await expect(
+          service.create(dto({ roleMapping: { Engineering: role } })),
+        ).rejects.toMatchObject({
+          code: ErrorCode.SAML_ROLE_MAPPING_INVALID,
+        });
+      },
+    );
+  });
+
+  describe('getEnabledConnection', () => {
+    it('should treat a disabled connection as missing', async () => {
+      connectionModel.findOne.mockReturnValue(
+        query({ slug: 'acme', enabled: false }),
+      );
+
+      await expect(service.getEnabledConnection('acme')).rejects.toMatchObject({
+        code: ErrorCode.SAML_CONNECTION_NOT_FOUND,
+      });
+    });
+  });
+});
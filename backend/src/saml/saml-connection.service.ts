@@ -0,0 +1,317 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  DEFAULT_SAML_ATTRIBUTE_MAPPING,
+  SamlConnection,
+  SamlConnectionDocument,
+} from './schemas/saml-connection.schema';
+import {
+  CreateSamlConnectionDto,
+  UpdateSamlConnectionDto,
+} from './dto/saml-connection.dto';
+import { SamlConnectionResponseDto } from './dto/saml-connection-response.dto';
+import {
+  IdpMetadata,
+  getCertificateExpiry,
+  parseIdpMetadata,
+} from './utils/saml.utils';
+import { RoleService } from '../role/role.service';
+import { isValidRoleAssignment } from '../common/utils/role-hierarchy';
+import { AppException } from '../common/exceptions/app.exception';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+/**
+ * SAML Connection Service
+ * Manages the customer identity providers users can sign in with.
+ * Connections are imported from IdP metadata by administrators.
+ */
+@Injectable()
+export class SamlConnectionService {
+  private readonly logger = new Logger(SamlConnectionService.name);
+
+  constructor(
+    @InjectModel(SamlConnection.name)
+    private connectionModel: Model<SamlConnectionDocument>,
+    private readonly roleService: RoleService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * List all connections
+   */
+  async findAll(): Promise<SamlConnectionResponseDto[]> {
+    const connections = await this.connectionModel
+      .find()
+      .sort({ name: 1 })
+      .exec();
+    return connections.map((connection) => this.toResponseDto(connection));
+  }
+
+  /**
+   * Get one connection
+   * @throws AppException if the connection does not exist
+   */
+  async findOne(slug: string): Promise<SamlConnectionResponseDto> {
+    return this.toResponseDto(await this.getConnection(slug));
+  }
+
+  /**
+   * Import a connection from IdP metadata
+   * @throws AppException if the slug or a domain is taken, or the metadata or role mapping is invalid
+   */
+  async create(
+    dto: CreateSamlConnectionDto,
+  ): Promise<SamlConnectionResponseDto> {
+    if (await this.connectionModel.exists({ slug: dto.slug })) {
+      throw new AppException(
+        ErrorCode.SAML_CONNECTION_ALREADY_EXISTS,
+        `SAML connection "${dto.slug}" already exists`,
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const metadata = this.parseMetadata(dto.metadataXml);
+    const domains = this.normaliseDomains(dto.domains);
+    await this.ensureDomainsAvailable(domains);
+    await this.validateRoleMapping(dto.roleMapping);
+
+    const connection = await this.connectionModel.create({
+      slug: dto.slug,
+      name: dto.name,
+      enabled: dto.enabled ?? true,
+      idpEntityId: metadata.entityId,
+      idpSsoUrl: metadata.ssoUrl,
+      idpCertificates: metadata.certificates,
+      domains,
+      attributeMapping: {
+        ...DEFAULT_SAML_ATTRIBUTE_MAPPING,
+        ...dto.attributeMapping,
+      },
+      roleMapping: dto.roleMapping ?? {},
+    });
+
+    this.logger.log(
+      `SAML connection created: ${connection.slug} (${metadata.entityId})`,
+    );
+    return this.toResponseDto(connection);
+  }
+
+  /**
+   * Update a connection, re-importing the metadata when provided
+   * @throws AppException if the connection does not exist or the update is invalid
+   */
+  async update(
+    slug: string,
+    dto: UpdateSamlConnectionDto,
+  ): Promise<SamlConnectionResponseDto> {
+    const connection = await this.getConnection(slug);
+
+    if (dto.metadataXml !== undefined) {
+      const metadata = this.parseMetadata(dto.metadataXml);
+      connection.idpEntityId = metadata.entityId;
+      connection.idpSsoUrl = metadata.ssoUrl;
+      connection.idpCertificates = metadata.certificates;
+    }
+
+    if (dto.domains !== undefined) {
+      const domains = this.normaliseDomains(dto.domains);
+      await this.ensureDomainsAvailable(domains, connection.slug);
+      connection.domains = domains;
+    }
+
+    if (dto.roleMapping !== undefined) {
+      await this.validateRoleMapping(dto.roleMapping);
+      connection.roleMapping = new Map(Object.entries(dto.roleMapping));
+    }
+
+    if (dto.attributeMapping !== undefined) {
+      connection.attributeMapping = {
+        ...connection.attributeMapping,
+        ...dto.attributeMapping,
+      };
+    }
+
+    if (dto.name !== undefined) {
+      connection.name = dto.name;
+    }
+
+    if (dto.enabled !== undefined) {
+      connection.enabled = dto.enabled;
+    }
+
+    await connection.save();
+
+    this.logger.log(`SAML connection updated: ${connection.slug}`);
+    return this.toResponseDto(connection);
+  }
+
+  /**
+   * Delete a connection
+   * Users keep their accounts and can still sign in with other methods
+   * @throws AppException if the connection does not exist
+   */
+  async remove(slug: string): Promise<void> {
+    const result = await this.connectionModel.deleteOne({ slug }).exec();
+    if (result.deletedCount === 0) {
+      throw this.notFound(slug);
+    }
+    this.logger.log(`SAML connection deleted: ${slug}`);
+  }
+
+  /**
+   * Get a connection by slug
+   * @throws AppException if the connection does not exist
+   */
+  async getConnection(slug: string): Promise<SamlConnectionDocument> {
+    const connection = await this.connectionModel
+      .findOne({ slug: slug.toLowerCase() })
+      .exec();
+    if (!connection) {
+      throw this.notFound(slug);
+    }
+    return connection;
+  }
+
+  /**
+   * Get a connection users can sign in with
+   * @throws AppException if the connection does not exist or is disabled
+   */
+  async getEnabledConnection(slug: string): Promise<SamlConnectionDocument> {
+    const connection = await this.getConnection(slug);
+    if (!connection.enabled) {
+      throw this.notFound(slug);
+    }
+    return connection;
+  }
+
+  /**
+   * Find the enabled connection responsible for an email address
+   * @throws AppException if no connection claims the email's domain
+   */
+  async findByEmail(email: string): Promise<SamlConnectionDocument> {
+    const domain = email.split('@').pop()?.toLowerCase() ?? '';
+    const connection = await this.connectionModel
+      .findOne({ domains: domain, enabled: true })
+      .exec();
+    if (!connection) {
+      throw this.notFound(domain);
+    }
+    return connection;
+  }
+
+  /**
+   * Service provider entity ID, ACS URL and sign-in URL for a connection
+   * Each connection is its own SP so IdPs can be registered independently
+   */
+  getServiceProviderUrls(slug: string): {
+    entityId: string;
+    acsUrl: string;
+    loginUrl: string;
+  } {
+    const baseUrl = this.configService.get<string>(
+      'saml.baseUrl',
+      'http://localhost:3000',
+    );
+    const connectionUrl = `${baseUrl}/api/auth/saml/${slug}`;
+
+    return {
+      entityId: `${connectionUrl}/metadata`,
+      acsUrl: `${connectionUrl}/acs`,
+      loginUrl: `${connectionUrl}/login`,
+    };
+  }
+
+  private toResponseDto(
+    connection: SamlConnectionDocument,
+  ): SamlConnectionResponseDto {
+    const { entityId, acsUrl } = this.getServiceProviderUrls(connection.slug);
+
+    return {
+      slug: connection.slug,
+      name: connection.name,
+      enabled: connection.enabled,
+      idpEntityId: connection.idpEntityId,
+      idpSsoUrl: connection.idpSsoUrl,
+      certificateExpiresAt:
+        connection.idpCertificates.map(getCertificateExpiry),
+      domains: connection.domains,
+      attributeMapping: { ...connection.attributeMapping },
+      roleMapping: Object.fromEntries(connection.roleMapping ?? []),
+      spEntityId: entityId,
+      acsUrl,
+      createdAt: connection.createdAt,
+      updatedAt: connection.updatedAt,
+    };
+  }
+
+  private parseMetadata(xml: string): IdpMetadata {
+    try {
+      return parseIdpMetadata(xml);
+    } catch (error) {
+      throw new AppException(
+        ErrorCode.SAML_METADATA_INVALID,
+        `Invalid IdP metadata: ${error instanceof Error ? error.message : String(error)}`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  private normaliseDomains(domains: string[]): string[] {
+    return [...new Set(domains.map((domain) => domain.trim().toLowerCase()))];
+  }
+
+  /**
+   * A domain may belong to one connection only, so sign-in discovery is unambiguous
+   */
+  private async ensureDomainsAvailable(
+    domains: string[],
+    exceptSlug?: string,
+  ): Promise<void> {
+    const taken = await this.connectionModel
+      .findOne({
+        domains: { $in: domains },
+        ...(exceptSlug && { slug: { $ne: exceptSlug } }),
+      })
+      .exec();
+
+    if (taken) {
+      const domain = domains.find((d) => taken.domains.includes(d));
+      throw new AppException(
+        ErrorCode.SAML_CONNECTION_ALREADY_EXISTS,
+        `Domain "${domain}" is already assigned to SAML connection "${taken.slug}"`,
+        HttpStatus.CONFLICT,
+      );
+    }
+  }
+
+  /**
+   * Every mapped role must exist and be assignable (never admin)
+   */
+  private async validateRoleMapping(
+    roleMapping?: Record<string, string>,
+  ): Promise<void> {
+    for (const [value, role] of Object.entries(roleMapping ?? {})) {
+      if (
+        typeof role !== 'string' ||
+        !isValidRoleAssignment(role) ||
+        !(await this.roleService.getRoleBySlug(role))
+      ) {
+        throw new AppException(
+          ErrorCode.SAML_ROLE_MAPPING_INVALID,
+          `Role mapping for "${value}" must name an existing, assignable role`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+    }
+  }
+
+  private notFound(slug: string): AppException {
+    return new AppException(
+      ErrorCode.SAML_CONNECTION_NOT_FOUND,
+      `SAML connection "${slug}" not found`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Res,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiParam, ApiBody } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { SamlService } from './saml.service';
+import { SamlConnectionService } from './saml-connection.service';
+import {
+  SamlAssertionConsumerDto,
+  SamlDiscoveryQueryDto,
+} from './dto/saml-connection.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { ApiResponse } from '../common/dto/api-response.dto';
+import { AppException } from '../common/exceptions/app.exception';
+
+/**
+ * SAML Controller
+ * Public SP endpoints for SP-initiated SAML SSO
+ */
+@ApiTags('saml')
+@Controller('auth/saml')
+export class SamlController {
+  private readonly logger = new Logger(SamlController.name);
+
+  constructor(
+    private readonly samlService: SamlService,
+    private readonly connectionService: SamlConnectionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Find the SSO connection for a work email
+   * GET /api/auth/saml/discover?email=jane@acme.com
+   */
+  @Public()
+  @Get('discover')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Find SSO connection by email',
+    description:
+      "Returns the enabled SAML connection registered for the email's domain and the URL " +
+      'that starts sign-in. Fails with SAML_CONNECTION_NOT_FOUND when the domain has no SSO.',
+  })
+  async discover(
+    @Query() query: SamlDiscoveryQueryDto,
+  ): Promise<
+    ApiResponse<{ connection: string; name: string; loginUrl: string }>
+  > {
+    const connection = await this.connectionService.findByEmail(query.email);
+    return ApiResponse.success({
+      connection: connection.slug,
+      name: connection.name,
+      loginUrl: this.connectionService.getServiceProviderUrls(connection.slug)
+        .loginUrl,
+    });
+  }
+
+  /**
+   * Service provider metadata
+   * GET /api/auth/saml/:connection/metadata
+   */
+  @Public()
+  @Get(':connection/metadata')
+  @Header('Content-Type', 'application/samlmetadata+xml')
+  @ApiOperation({
+    summary: 'Get SP metadata',
+    description:
+      'Returns the service provider metadata (entity ID and ACS URL) to register at the identity provider.',
+  })
+  @ApiParam({ name: 'connection', example: 'acme' })
+  getMetadata(@Param('connection') connection: string): Promise<string> {
+    return this.samlService.getServiceProviderMetadata(connection);
+  }
+
+  /**
+   * Start SP-initiated sign-in
+   * GET /api/auth/saml/:connection/login
+   */
+  @Public()
+  @Get(':connection/login')
+  @ApiOperation({
+    summary: 'Start SAML sign-in',
+    description:
+      'Redirects the browser to the identity provider with a single-use AuthnRequest ' +
+      '(HTTP-Redirect binding) that expires after SAML_REQUEST_EXPIRES_IN. A saml_request ' +
+      'cookie binds the request to this browser.',
+  })
+  @ApiParam({ name: 'connection', example: 'acme' })
+  async login(
+    @Param('connection') connection: string,
+    @Res() response: Response,
+  ): Promise<void> {
+    try {
+      const url = await this.samlService.createLoginUrl(connection, response);
+      response.redirect(HttpStatus.FOUND, url);
+    } catch (error) {
+      this.redirectToError(response, error);
+    }
+  }
+
+  /**
+   * Assertion Consumer Service
+   * POST /api/auth/saml/:connection/acs
+   */
+  @Public()
+  @Post(':connection/acs')
+  @ApiOperation({
+    summary: 'SAML Assertion Consumer Service',
+    description:
+      'Receives the SAML response (HTTP-POST binding), validates the IdP signature, issuer, ' +
+      'audience, validity window and InResponseTo, then creates or links the user, sets the ' +
+      'session cookie and redirects to the client. Failures redirect to the client error page.',
+  })
+  @ApiParam({ name: 'connection', example: 'acme' })
+  @ApiBody({ type: SamlAssertionConsumerDto })
+  async assertionConsumer(
+    @Param('connection') connection: string,
+    @Body() dto: SamlAssertionConsumerDto,
+    @Res() response: Response,
+  ): Promise<void> {
+    try {
+      await this.samlService.handleAssertion(
+        connection,
+        dto.SAMLResponse,
+        response,
+      );
+      // The cookie is not sent on this cross-site redirect, so land on a page that is
+      // allowed to load signed out and continues to the dashboard from there
+      response.redirect(
+        HttpStatus.SEE_OTHER,
+        `${this.getClientUrl()}/auth/sso/complete`,
+      );
+    } catch (error) {
+      this.redirectToError(response, error);
+    }
+  }
+
+  /**
+   * Browser-facing endpoints report failures on the client error page
+   */
+  private redirectToError(response: Response, error: unknown): void {
+    const url = new URL(`${this.getClientUrl()}/auth/oauth/error`);
+    if (error instanceof AppException) {
+      url.searchParams.append('code', error.code);
+    } else {
+      this.logger.error(
+        `SAML sign-in failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    response.redirect(HttpStatus.SEE_OTHER, url.toString());
+  }
+
+  private getClientUrl(): string {
+    return this.configService.get<string>(
+      'cors.clientUrl',
+      'http://localhost:3000',
+    );
+  }
+}
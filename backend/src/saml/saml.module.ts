@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SamlController } from './saml.controller';
+import { SamlConnectionController } from './saml-connection.controller';
+import { SamlService } from './saml.service';
+import { SamlConnectionService } from './saml-connection.service';
+import {
+  SamlConnection,
+  SamlConnectionSchema,
+} from './schemas/saml-connection.schema';
+import {
+  PendingSamlRequest,
+  PendingSamlRequestSchema,
+} from './schemas/pending-saml-request.schema';
+import { AuthModule } from '../auth/auth.module';
+import { RoleModule } from '../role/role.module';
+import { PermissionModule } from '../permission/permission.module';
+import { CommonModule } from '../common/common.module';
+
+/**
+ * SAML module.
+ * SP-initiated SAML 2.0 SSO against customer identity providers.
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: SamlConnection.name, schema: SamlConnectionSchema },
+      { name: PendingSamlRequest.name, schema: PendingSamlRequestSchema },
+    ]),
+    AuthModule, // OAuthService (find-or-create), SessionService and AuthGuard
+    RoleModule, // Role mapping validation
+    PermissionModule, // Required for AuthGuard
+    CommonModule, // Required for PermissionGuard
+  ],
+  controllers: [SamlController, SamlConnectionController],
+  providers: [SamlService, SamlConnectionService],
+  exports: [SamlConnectionService],
+})
+export class SamlModule {}
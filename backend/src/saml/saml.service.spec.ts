@@ -0,0 +1,337 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import * as zlib from 'zlib';
+import { SAML_REQUEST_COOKIE, SamlService } from './saml.service';
+import { SamlConnectionService } from './saml-connection.service';
+import { PendingSamlRequest } from './schemas/pending-saml-request.schema';
+import {
+  DEFAULT_SAML_ATTRIBUTE_MAPPING,
+  SamlConnectionDocument,
+} from './schemas/saml-connection.schema';
+import { SamlAssertion, validateSamlResponse } from './utils/saml.utils';
+import { OAuthService } from '../auth/services/oauth.service';
+import { SessionService } from '../auth/services/session.service';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+// Signature validation is covered in saml.utils.spec.ts
+jest.mock('./utils/saml.utils', () => ({
+  ...jest.requireActual<object>('./utils/saml.utils'),
+  validateSamlResponse: jest.fn(),
+}));
+
+// Only findOrCreateUser is used; its linking rules are covered by the OAuth specs
+jest.mock('../auth/services/oauth.service', () => ({
+  OAuthService: class OAuthService {},
+}));
+
+interface StoredRequest {
+  requestId: string;
+  connection: string;
+  expiresAt: Date;
+}
+
+describe('SamlService', () => {
+  let service: SamlService;
+  let stored: StoredRequest[];
+  let connection: SamlConnectionDocument;
+  let oauthService: { findOrCreateUser: jest.Mock };
+  let sessionService: { createSession: jest.Mock; setSessionCookie: jest.Mock };
+  let cookies: Record<string, string>;
+  let setCookie: jest.Mock;
+  let response: {
+    req: { headers: object; ip: string; cookies: Record<string, string> };
+    cookie: jest.Mock;
+    clearCookie: jest.Mock;
+  };
+  const validateMock = validateSamlResponse as jest.MockedFunction<
+    typeof validateSamlResponse
+  >;
+
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'jane@acme.test',
+  };
+
+  const assertion = (
+    overrides: Partial<SamlAssertion> = {},
+  ): SamlAssertion => ({
+    issuer: 'https://idp.acme.test/metadata',
+    nameId: 'jane@acme.test',
+    inResponseTo: stored[0]?.requestId ?? '_unknown',
+    attributes: {
+      email: ['Jane@Acme.test'],
+      firstName: ['Jane'],
+      lastName: ['Doe'],
+      role: ['Everyone', 'Engineering'],
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    stored = [];
+    connection = {
+      slug: 'acme',
+      name: 'Acme',
+      enabled: true,
+      idpEntityId: 'https://idp.acme.test/metadata',
+      idpSsoUrl: 'https://idp.acme.test/sso',
+      idpCertificates: ['cert'],
+      domains: ['acme.test'],
+      attributeMapping: { ...DEFAULT_SAML_ATTRIBUTE_MAPPING },
+      roleMapping: new Map([['Engineering', 'manager']]),
+    } as unknown as SamlConnectionDocument;
+
+    oauthService = { findOrCreateUser: jest.fn().mockResolvedValue(user) };
+    sessionService = {
+      createSession: jest.fn().mockResolvedValue('token'),
+      setSessionCookie: jest.fn(),
+    };
+    // One browser: cookies set on the response are sent back with later requests
+    cookies = {};
+    setCookie = jest.fn((name: string, value: string) => {
+      cookies[name] = value;
+    });
+    response = {
+      req: { headers: { 'user-agent': 'jest' }, ip: '127.0.0.1', cookies },
+      cookie: setCookie,
+      clearCookie: jest.fn((name: string) => {
+        delete cookies[name];
+      }),
+    };
+    validateMock.mockReset();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SamlService,
+        {
+          // In-memory stand-in for the collection so single use can be exercised
+          provide: getModelToken(PendingSamlRequest.name),
+          useValue: {
+            create: jest.fn((doc: StoredRequest) => {
+              stored.push(doc);
+              return Promise.resolve(doc);
+            }),
+            findOneAndDelete: jest.fn((filter: { requestId: string }) => {
+              const index = stored.findIndex(
+                (doc) => doc.requestId === filter.requestId,
+              );
+              const [doc] = index === -1 ? [null] : stored.splice(index, 1);
+              return { exec: jest.fn().mockResolvedValue(doc) };
+            }),
+          },
+        },
+        {
+          provide: SamlConnectionService,
+          useValue: {
+            getConnection: jest.fn().mockResolvedValue(connection),
+            getEnabledConnection: jest.fn().mockResolvedValue(connection),
+            getServiceProviderUrls: jest.fn((slug: string) => ({
+              entityId: `https://api.test/api/auth/saml/${slug}/metadata`,
+              acsUrl: `https://api.test/api/auth/saml/${slug}/acs`,
+              loginUrl: `https://api.test/api/auth/saml/${slug}/login`,
+            })),
+          },
+        },
+        { provide: OAuthService, useValue: oauthService },
+        { provide: SessionService, useValue: sessionService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (_key: string, defaultValue?: unknown) => defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SamlService>(SamlService);
+  });
+
+  const signIn = (slug = 'acme') =>
+    service.handleAssertion(
+      slug,
+      Buffer.from('<samlp:Response/>').toString('base64'),
+      response as never,
+    );
+
+  describe('createLoginUrl', () => {
+    it('should record the AuthnRequest and redirect to the IdP with it', async () => {
+      const url = new URL(
+        await service.createLoginUrl('acme', response as never),
+      );
+
+      expect(url.origin + url.pathname).toBe('https://idp.acme.test/sso');
+      expect(stored).toHaveLength(1);
+      expect(stored[0]).toMatchObject({ connection: 'acme' });
+      expect(stored[0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+      const request = zlib
+        .inflateRawSync(
+          Buffer.from(url.searchParams.get('SAMLRequest')!, 'base64'),
+        )
+        .toString('utf8');
+      expect(request).toContain(`ID="${stored[0].requestId}"`);
+      expect(request).toContain(
+        'AssertionConsumerServiceURL="https://api.test/api/auth/saml/acme/acs"',
+      );
+      expect(setCookie).toHaveBeenCalledWith(
+        SAML_REQUEST_COOKIE,
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+        expect.objectContaining({
+          httpOnly: true,
+          secure: true,
+          sameSite: 'none',
+        }),
+      );
+    });
+  });
+
+  describe('handleAssertion', () => {
+    beforeEach(async () => {
+      await service.createLoginUrl('acme', response as never);
+    });
+
+    it('should provision the user through the shared find-or-create path', async () => {
+      validateMock.mockReturnValue(assertion());
+
+      await signIn();
+
+      expect(validateMock).toHaveBeenCalledWith(
+        '<samlp:Response/>',
+        expect.objectContaining({
+          idpEntityId: 'https://idp.acme.test/metadata',
+          spEntityId: 'https://api.test/api/auth/saml/acme/metadata',
+          acsUrl: 'https://api.test/api/auth/saml/acme/acs',
+        }),
+      );
+      expect(oauthService.findOrCreateUser).toHaveBeenCalledWith('saml-acme', {
+        providerId: 'jane@acme.test',
+        email: 'jane@acme.test',
+        name: 'Jane Doe',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        emailVerified: true,
+        role: 'manager',
+      });
+      expect(sessionService.createSession).toHaveBeenCalledWith(
+        user._id,
+        'jest',
+        '127.0.0.1',
+        'saml',
+      );
+      expect(sessionService.setSessionCookie).toHaveBeenCalledWith(
+        response,
+        'token',
+      );
+      expect(cookies[SAML_REQUEST_COOKIE]).toBeUndefined();
+    });
+
+    it('should fall back to the NameID email and leave unmapped roles alone', async () => {
+      validateMock.mockReturnValue(
+        assertion({ attributes: { role: ['Everyone'] } }),
+      );
+
+      await signIn();
+
+      expect(oauthService.findOrCreateUser).toHaveBeenCalledWith(
+        'saml-acme',
+        expect.objectContaining({
+          email: 'jane@acme.test',
+          name: 'jane',
+          role: undefined,
+        }),
+      );
+    });
+
+    it('should reject a replayed response', async () => {
+      validateMock.mockReturnValue(assertion());
+      const requestCookie = cookies[SAML_REQUEST_COOKIE];
+      await signIn();
+
+      // Even from the browser that started the request
+      cookies[SAML_REQUEST_COOKIE] = requestCookie;
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_REQUEST_MISMATCH,
+      });
+      expect(oauthService.findOrCreateUser).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a response arriving in a browser without the request cookie', async () => {
+      delete cookies[SAML_REQUEST_COOKIE];
+      validateMock.mockReturnValue(assertion());
+
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_REQUEST_MISMATCH,
+      });
+      expect(oauthService.findOrCreateUser).not.toHaveBeenCalled();
+      // The request stays pending for the browser that started it
+      expect(stored).toHaveLength(1);
+    });
+
+    it('should reject a response to a request started in another browser', async () => {
+      cookies[SAML_REQUEST_COOKIE] = 'a'.repeat(64);
+      validateMock.mockReturnValue(assertion());
+
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_REQUEST_MISMATCH,
+      });
+      expect(oauthService.findOrCreateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject a response to a request sent to another connection', async () => {
+      stored[0].connection = 'globex';
+      validateMock.mockReturnValue(assertion());
+
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_REQUEST_MISMATCH,
+      });
+    });
+
+    it('should reject a response to an expired request', async () => {
+      stored[0].expiresAt = new Date(Date.now() - 1000);
+      validateMock.mockReturnValue(assertion());
+
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_REQUEST_MISMATCH,
+      });
+    });
+
+    it('should reject a response that fails validation', async () => {
+      validateMock.mockImplementation(() => {
+        throw new Error(
+          'SAML assertion is not signed by the identity provider',
+        );
+      });
+
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_RESPONSE_INVALID,
+      });
+      // The pending request is kept for the genuine response
+      expect(stored).toHaveLength(1);
+    });
+
+    it('should reject emails outside the connection domains', async () => {
+      validateMock.mockReturnValue(
+        assertion({ attributes: { email: ['ceo@globex.test'] } }),
+      );
+
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_DOMAIN_NOT_ALLOWED,
+      });
+      expect(oauthService.findOrCreateUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject an assertion without an email', async () => {
+      validateMock.mockReturnValue(
+        assertion({ nameId: 'opaque-id', attributes: {} }),
+      );
+
+      await expect(signIn()).rejects.toMatchObject({
+        code: ErrorCode.SAML_RESPONSE_INVALID,
+      });
+    });
+  });
+});
@@ -0,0 +1,290 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Response } from 'express';
+import * as crypto from 'crypto';
+import {
+  PendingSamlRequest,
+  PendingSamlRequestDocument,
+} from './schemas/pending-saml-request.schema';
+import { SamlConnectionDocument } from './schemas/saml-connection.schema';
+import { SamlConnectionService } from './saml-connection.service';
+import {
+  SamlAssertion,
+  buildAuthnRequest,
+  buildRedirectUrl,
+  buildSpMetadata,
+  generateRequestId,
+  validateSamlResponse,
+} from './utils/saml.utils';
+import { OAuthService } from '../auth/services/oauth.service';
+import { SessionService } from '../auth/services/session.service';
+import { OAuthUserProfile } from '../auth/strategies/oauth.strategy.interface';
+import { SAML_PROVIDER_PREFIX } from '../auth/utils/oauth-provider.utils';
+import { UserDocument } from '../user/schemas/user.schema';
+import { AppException } from '../common/exceptions/app.exception';
+import { ErrorCode } from '../common/enums/error-code.enum';
+
+/**
+ * Cookie binding a pending AuthnRequest to the browser that started sign-in
+ */
+export const SAML_REQUEST_COOKIE = 'saml_request';
+
+/**
+ * SAML Service
+ * Runs SP-initiated SSO: sends AuthnRequests over the HTTP-Redirect binding,
+ * validates the signed responses posted back to the ACS and signs the user in.
+ * Users are provisioned and linked through OAuthService.findOrCreateUser
+ * under the provider name saml-<connection>.
+ */
+@Injectable()
+export class SamlService {
+  private readonly logger = new Logger(SamlService.name);
+
+  constructor(
+    @InjectModel(PendingSamlRequest.name)
+    private pendingRequestModel: Model<PendingSamlRequestDocument>,
+    private readonly connectionService: SamlConnectionService,
+    private readonly oauthService: OAuthService,
+    private readonly sessionService: SessionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Service provider metadata to register at the IdP
+   * @param slug - Connection slug
+   * @returns Metadata XML
+   */
+  async getServiceProviderMetadata(slug: string): Promise<string> {
+    const connection = await this.connectionService.getConnection(slug);
+    const { entityId, acsUrl } = this.connectionService.getServiceProviderUrls(
+      connection.slug,
+    );
+    return buildSpMetadata({ entityId, acsUrl });
+  }
+
+  /**
+   * Start sign-in: record an AuthnRequest and return the IdP URL carrying it
+   * The request ID's hash is also set in a short-lived cookie so only this
+   * browser can complete the sign-in.
+   * @param slug - Connection slug
+   * @param response - Express response object for setting the request cookie
+   * @returns IdP SSO URL to redirect the browser to
+   */
+  async createLoginUrl(slug: string, response: Response): Promise<string> {
+    const connection = await this.connectionService.getEnabledConnection(slug);
+    const { entityId, acsUrl } = this.connectionService.getServiceProviderUrls(
+      connection.slug,
+    );
+
+    const requestId = generateRequestId();
+    const expiresIn = this.configService.get<number>(
+      'saml.requestExpiresIn',
+      600000,
+    );
+
+    await this.pendingRequestModel.create({
+      requestId,
+      connection: connection.slug,
+      expiresAt: new Date(Date.now() + expiresIn),
+    });
+
+    // None so the cookie is sent with the cross-site POST from the IdP to the ACS
+    response.cookie(SAML_REQUEST_COOKIE, this.hashRequestId(requestId), {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'none',
+      maxAge: expiresIn,
+      path: '/',
+    });
+
+    const request = buildAuthnRequest({
+      id: requestId,
+      issueInstant: new Date(),
+      destination: connection.idpSsoUrl,
+      acsUrl,
+      spEntityId: entityId,
+    });
+
+    return buildRedirectUrl(connection.idpSsoUrl, request);
+  }
+
+  /**
+   * Validate the SAML response posted to the ACS and sign the user in
+   * @param slug - Connection slug
+   * @param samlResponse - Base64-encoded SAML response
+   * @param response - Express response object for setting cookie
+   * @returns Signed-in user
+   * @throws AppException if the response is invalid or does not answer a pending
+   * request started by this browser
+   */
+  async handleAssertion(
+    slug: string,
+    samlResponse: string,
+    response: Response,
+  ): Promise<UserDocument> {
+    const connection = await this.connectionService.getEnabledConnection(slug);
+    const { entityId, acsUrl } = this.connectionService.getServiceProviderUrls(
+      connection.slug,
+    );
+
+    let assertion: SamlAssertion;
+    try {
+      assertion = validateSamlResponse(
+        Buffer.from(samlResponse, 'base64').toString('utf8'),
+        {
+          idpEntityId: connection.idpEntityId,
+          certificates: connection.idpCertificates,
+          spEntityId: entityId,
+          acsUrl,
+          clockSkew: this.configService.get<number>('saml.clockSkew', 120000),
+        },
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Rejected SAML response for ${slug}: ${message}`);
+      throw new AppException(
+        ErrorCode.SAML_RESPONSE_INVALID,
+        'SAML response is invalid',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    // Login CSRF protection: the response must answer a request this browser started
+    const requestCookie = response.req.cookies?.[SAML_REQUEST_COOKIE] as
+      | string
+      | undefined;
+    if (requestCookie !== this.hashRequestId(assertion.inResponseTo)) {
+      this.logger.warn(
+        `Rejected SAML response for ${slug}: request cookie mismatch`,
+      );
+      throw new AppException(
+        ErrorCode.SAML_REQUEST_MISMATCH,
+        'SAML sign-in request is invalid or has expired. Please try signing in again.',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    response.clearCookie(SAML_REQUEST_COOKIE, {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'none',
+      path: '/',
+    });
+
+    // Replay protection: each AuthnRequest can be answered once
+    await this.consumeRequest(connection.slug, assertion.inResponseTo);
+
+    const profile = this.toUserProfile(connection, assertion);
+    const user = await this.oauthService.findOrCreateUser(
+      `${SAML_PROVIDER_PREFIX}${connection.slug}`,
+      profile,
+    );
+
+    // Create session
+    const userAgent = response.req.headers['user-agent'] || 'Unknown';
+    const ip = response.req.ip || '127.0.0.1';
+    const sessionToken = await this.sessionService.createSession(
+      user._id,
+      userAgent,
+      ip,
+      'saml',
+    );
+
+    // Set HTTP-only cookie
+    this.sessionService.setSessionCookie(response, sessionToken);
+
+    this.logger.log(`User authenticated via SAML (${slug}): ${user.email}`);
+    return user;
+  }
+
+  /**
+   * Consume the pending AuthnRequest the assertion answers
+   * @throws AppException if the request is unknown, expired, used or for another connection
+   */
+  private async consumeRequest(
+    connection: string,
+    requestId: string,
+  ): Promise<void> {
+    const pending = await this.pendingRequestModel
+      .findOneAndDelete({ requestId })
+      .exec();
+
+    if (
+      !pending ||
+      pending.expiresAt <= new Date() ||
+      pending.connection !== connection
+    ) {
+      this.logger.warn(`Rejected SAML response for ${connection}: bad request`);
+      throw new AppException(
+        ErrorCode.SAML_REQUEST_MISMATCH,
+        'SAML sign-in request is invalid or has expired. Please try signing in again.',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+
+  /**
+   * Map assertion attributes to the profile used for find-or-create
+   * @throws AppException if there is no email or its domain is not allowed
+   */
+  private toUserProfile(
+    connection: SamlConnectionDocument,
+    assertion: SamlAssertion,
+  ): OAuthUserProfile {
+    const mapping = connection.attributeMapping;
+    const first = (attribute: string): string | undefined =>
+      assertion.attributes[attribute]?.[0];
+
+    const email = (
+      first(mapping.email) ??
+      (assertion.nameId.includes('@') ? assertion.nameId : '')
+    ).toLowerCase();
+
+    if (!email) {
+      throw new AppException(
+        ErrorCode.SAML_RESPONSE_INVALID,
+        'SAML assertion did not include an email address',
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+
+    // The IdP is only trusted for the domains it was registered for
+    const domain = email.split('@').pop() ?? '';
+    if (!connection.domains.includes(domain)) {
+      this.logger.warn(
+        `SAML connection ${connection.slug} asserted ${email} outside its domains`,
+      );
+      throw new AppException(
+        ErrorCode.SAML_DOMAIN_NOT_ALLOWED,
+        'This identity provider cannot sign in users with this email domain',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+
+    const firstName = first(mapping.firstName);
+    const lastName = first(mapping.lastName);
+
+    // First IdP role value that has a mapping wins; unmapped users keep their role
+    const role = (assertion.attributes[mapping.role] ?? [])
+      .map((value) => connection.roleMapping?.get(value))
+      .find(Boolean);
+
+    return {
+      providerId: assertion.nameId,
+      email,
+      name:
+        first(mapping.name) ||
+        [firstName, lastName].filter(Boolean).join(' ') ||
+        email.split('@')[0],
+      firstName,
+      lastName,
+      emailVerified: true,
+      role,
+    };
+  }
+
+  private hashRequestId(requestId: string): string {
+    return crypto.createHash('sha256').update(requestId).digest('hex');
+  }
+}
@@ -0,0 +1,23 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+
+@Schema({ timestamps: true })
+export class PendingSamlRequest {
+  @Prop({ required: true, unique: true })
+  requestId!: string; // AuthnRequest ID, echoed back as InResponseTo
+
+  @Prop({ required: true })
+  connection!: string; // Slug of the SAML connection the request was sent to
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type PendingSamlRequestDocument = HydratedDocument<PendingSamlRequest>;
+
+export const PendingSamlRequestSchema: MongooseSchema<PendingSamlRequest> =
+  SchemaFactory.createForClass(PendingSamlRequest);
@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+
+/**
+ * Names of the assertion attributes mapped onto the user
+ */
+export interface SamlAttributeMapping {
+  email: string;
+  name: string;
+  firstName: string;
+  lastName: string;
+  role: string;
+}
+
+export const DEFAULT_SAML_ATTRIBUTE_MAPPING: SamlAttributeMapping = {
+  email: 'email',
+  name: 'name',
+  firstName: 'firstName',
+  lastName: 'lastName',
+  role: 'role',
+};
+
+/**
+ * SAML connection schema.
+ * One customer identity provider, imported from its metadata, that users
+ * can sign in with through SP-initiated SSO.
+ */
+@Schema({ timestamps: true })
+export class SamlConnection {
+  @Prop({ required: true, unique: true, lowercase: true, trim: true })
+  slug!: string;
+
+  @Prop({ required: true, trim: true })
+  name!: string;
+
+  @Prop({ default: true })
+  enabled!: boolean;
+
+  @Prop({ required: true })
+  idpEntityId!: string;
+
+  @Prop({ required: true })
+  idpSsoUrl!: string; // HTTP-Redirect SingleSignOnService
+
+  @Prop({ type: [String], default: [] })
+  idpCertificates!: string[]; // PEM signing certificates
+
+  @Prop({ type: [String], default: [] })
+  domains!: string[]; // Email domains this IdP may assert
+
+  @Prop({
+    type: Object,
+    default: () => ({ ...DEFAULT_SAML_ATTRIBUTE_MAPPING }),
+  })
+  attributeMapping!: SamlAttributeMapping;
+
+  @Prop({ type: Map, of: String, default: () => new Map() })
+  roleMapping!: Map<string, string>; // IdP role value -> role slug
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type SamlConnectionDocument = HydratedDocument<SamlConnection>;
+
+export const SamlConnectionSchema: MongooseSchema<SamlConnection> =
+  SchemaFactory.createForClass(SamlConnection);
+
+SamlConnectionSchema.index({ domains: 1 });
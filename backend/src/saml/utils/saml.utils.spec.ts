@@ -0,0 +1,470 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { SignedXml } from 'xml-crypto';
+import {
+  SAML_BINDINGS,
+  SAML_NAMESPACES,
+  SamlResponseExpectations,
+  buildAuthnRequest,
+  buildRedirectUrl,
+  buildSpMetadata,
+  parseIdpMetadata,
+  toPemCertificate,
+  validateSamlResponse,
+} from './saml.utils';
+
+// ---------- Locally generated IdP ----------
+
+/** Minimal DER encoder, enough to issue a self-signed test certificate */
+function der(tag: number, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  let length: Buffer;
+  if (body.length < 0x80) {
+    length = Buffer.from([body.length]);
+  } else {
+    const bytes: number[] = [];
+    for (let n = body.length; n > 0; n >>= 8) {
+      bytes.unshift(n & 0xff);
+    }
+    length = Buffer.from([0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([Buffer.from([tag]), length, body]);
+}
+
+function createSelfSignedCertificate(
+  keys: crypto.KeyPairKeyObjectResult,
+  commonName: string,
+): string {
+  const algorithm = der(
+    0x30,
+    der(0x06, Buffer.from('2a864886f70d01010b', 'hex')), // sha256WithRSAEncryption
+    der(0x05),
+  );
+  const name = der(
+    0x30,
+    der(
+      0x31,
+      der(
+        0x30,
+        der(0x06, Buffer.from('550403', 'hex')), // commonName
+        der(0x0c, Buffer.from(commonName)),
+      ),
+    ),
+  );
+  const utcTime = (date: Date) =>
+    der(
+      0x17,
+      Buffer.from(`${date.toISOString().replace(/[-:T]/g, '').slice(2, 14)}Z`),
+    );
+  const day = 24 * 60 * 60 * 1000;
+
+  const tbs = der(
+    0x30,
+    der(0xa0, der(0x02, Buffer.from([2]))), // v3
+    der(0x02, crypto.randomBytes(8).fill(0x7f, 0, 1)),
+    algorithm,
+    name,
+    der(
+      0x30,
+      utcTime(new Date(Date.now() - day)),
+      utcTime(new Date(Date.now() + 365 * day)),
+    ),
+    name,
+    keys.publicKey.export({ type: 'spki', format: 'der' }),
+  );
+
+  const signature = crypto.sign('sha256', tbs, keys.privateKey);
+  const certificate = der(
+    0x30,
+    tbs,
+    algorithm,
+    der(0x03, Buffer.from([0]), signature),
+  );
+
+  return new crypto.X509Certificate(certificate).toString();
+}
+
+function createIdp(commonName = 'Test IdP') {
+  const keys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { keys, certificate: createSelfSignedCertificate(keys, commonName) };
+}
+
+const idp = createIdp();
+const otherIdp = createIdp('Other IdP');
+
+const IDP_ENTITY_ID = 'https://idp.acme.test/metadata';
+const SP_ENTITY_ID = 'https://api.example.test/api/auth/saml/acme/metadata';
+const ACS_URL = 'https://api.example.test/api/auth/saml/acme/acs';
+const REQUEST_ID = '_request-1';
+
+const expectations: SamlResponseExpectations = {
+  idpEntityId: IDP_ENTITY_ID,
+  certificates: [idp.certificate],
+  spEntityId: SP_ENTITY_ID,
+  acsUrl: ACS_URL,
+  clockSkew: 60000,
+};
+
+interface ResponseOptions {
+  issuer?: string;
+  audience?: string;
+  recipient?: string;
+  destination?: string;
+  inResponseTo?: string | null;
+  status?: string;
+  nameId?: string;
+  notOnOrAfter?: Date;
+}
+
+function buildResponse(options: ResponseOptions = {}): string {
+  const now = new Date();
+  const expires = options.notOnOrAfter ?? new Date(now.getTime() + 300000);
+  const inResponseTo =
+    options.inResponseTo === null
+      ? ''
+      : ` InResponseTo="${options.inResponseTo ?? REQUEST_ID}"`;
+
+  return (
+    `<samlp:Response xmlns:samlp="${SAML_NAMESPACES.protocol}" xmlns:saml="${SAML_NAMESPACES.assertion}"` +
+    ` ID="_response-1" Version="2.0" IssueInstant="${now.toISOString()}"` +
+    ` Destination="${options.destination ?? ACS_URL}"${inResponseTo}>` +
+    `<saml:Issuer>${IDP_ENTITY_ID}</saml:Issuer>` +
+    `<samlp:Status><samlp:StatusCode Value="${options.status ?? 'urn:oasis:names:tc:SAML:2.0:status:Success'}"/></samlp:Status>` +
+    `<saml:Assertion ID="_assertion-1" Version="2.0" IssueInstant="${now.toISOString()}">` +
+    `<saml:Issuer>${options.issuer ?? IDP_ENTITY_ID}</saml:Issuer>` +
+    '<saml:Subject>' +
+    `<saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">${options.nameId ?? 'jane@acme.test'}</saml:NameID>` +
+    '<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">' +
+    `<saml:SubjectConfirmationData Recipient="${options.recipient ?? ACS_URL}" NotOnOrAfter="${expires.toISOString()}"${inResponseTo}/>` +
+    '</saml:SubjectConfirmation>' +
+    '</saml:Subject>' +
+    `<saml:Conditions NotBefore="${now.toISOString()}" NotOnOrAfter="${expires.toISOString()}">` +
+    `<saml:AudienceRestriction><saml:Audience>${options.audience ?? SP_ENTITY_ID}</saml:Audience></saml:AudienceRestriction>` +
+    '</saml:Conditions>' +
+    `<saml:AuthnStatement AuthnInstant="${now.toISOString()}" SessionIndex="_session-1"/>` +
+    '<saml:AttributeStatement>' +
+    '<saml:Attribute Name="email"><saml:AttributeValue>Jane@Acme.test</saml:AttributeValue></saml:Attribute>' +
+    '<saml:Attribute Name="http://schemas.example/role" FriendlyName="role">' +
+    '<saml:AttributeValue>Engineering</saml:AttributeValue><saml:AttributeValue>Everyone</saml:AttributeValue>' +
+    '</saml:Attribute>' +
+    '</saml:AttributeStatement>' +
+    '</saml:Assertion>' +
+    '</samlp:Response>'
+  );
+}
+
+/** Sign an element (Response or Assertion) the way an IdP does */
+function sign(
+  xml: string,
+  localName: 'Response' | 'Assertion',
+  signer = idp,
+): string {
+  const signedXml = new SignedXml({
+    privateKey: signer.keys.privateKey.export({
+      type: 'pkcs8',
+      format: 'pem',
+    }),
+    publicCert: signer.certificate,
+    canonicalizationAlgorithm: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+    signatureAlgorithm: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  });
+  signedXml.addReference({
+    xpath: `//*[local-name(.)='${localName}']`,
+    digestAlgorithm: 'http://www.w3.org/2001/04/xmlenc#sha256',
+    transforms: [
+      'http://www.w3.org/2000/09/xmldsig#enveloped-signature',
+      'http://www.w3.org/2001/10/xml-exc-c14n#',
+    ],
+  });
+  signedXml.computeSignature(xml, {
+    prefix: 'ds',
+    location: {
+      reference: `//*[local-name(.)='${localName}']/*[local-name(.)='Issuer']`,
+      action: 'after',
+    },
+  });
+  return signedXml.getSignedXml();
+}
+
+function buildMetadata(certificate: string, extra = ''): string {
+  const base64 = certificate
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+
+  return (
+    `<md:EntityDescriptor xmlns:md="${SAML_NAMESPACES.metadata}" xmlns:ds="${SAML_NAMESPACES.signature}" entityID="${IDP_ENTITY_ID}">` +
+    `<md:IDPSSODescriptor protocolSupportEnumeration="${SAML_NAMESPACES.protocol}">` +
+    `<md:KeyDescriptor use="signing"><ds:KeyInfo><ds:X509Data><ds:X509Certificate>${base64}</ds:X509Certificate></ds:X509Data></ds:KeyInfo></md:KeyDescriptor>` +
+    extra +
+    `<md:SingleSignOnService Binding="${SAML_BINDINGS.post}" Location="https://idp.acme.test/sso/post"/>` +
+    `<md:SingleSignOnService Binding="${SAML_BINDINGS.redirect}" Location="https://idp.acme.test/sso/redirect"/>` +
+    '</md:IDPSSODescriptor>' +
+    '</md:EntityDescriptor>'
+  );
+}
+
+describe('saml.utils', () => {
+  describe('validateSamlResponse', () => {
+    it('should accept a response whose assertion is signed by the IdP', () => {
+      const assertion = validateSamlResponse(
+        sign(buildResponse(), 'Assertion'),
+        expectations,
+      );
+
+      expect(assertion).toMatchObject({
+        issuer: IDP_ENTITY_ID,
+        nameId: 'jane@acme.test',
+        inResponseTo: REQUEST_ID,
+        sessionIndex: '_session-1',
+      });
+      expect(assertion.attributes.email).toEqual(['Jane@Acme.test']);
+      // Attributes are reachable by Name and FriendlyName
+      expect(assertion.attributes.role).toEqual(['Engineering', 'Everyone']);
+      expect(assertion.attributes['http://schemas.example/role']).toEqual([
+        'Engineering',
+        'Everyone',
+      ]);
+    });
+
+    it('should accept a signed response wrapping an unsigned assertion', () => {
+      const assertion = validateSamlResponse(
+        sign(buildResponse(), 'Response'),
+        expectations,
+      );
+
+      expect(assertion.nameId).toBe('jane@acme.test');
+    });
+
+    it('should try every configured certificate (key rollover)', () => {
+      const assertion = validateSamlResponse(
+        sign(buildResponse(), 'Assertion'),
+        {
+          ...expectations,
+          certificates: [otherIdp.certificate, idp.certificate],
+        },
+      );
+
+      expect(assertion.nameId).toBe('jane@acme.test');
+    });
+
+    it('should reject an unsigned response', () => {
+      expect(() => validateSamlResponse(buildResponse(), expectations)).toThrow(
+        'not signed',
+      );
+    });
+
+    it('should reject a response signed by another key', () => {
+      expect(() =>
+        validateSamlResponse(
+          sign(buildResponse(), 'Assertion', otherIdp),
+          expectations,
+        ),
+      ).toThrow('not signed');
+    });
+
+    it('should reject an assertion modified after signing', () => {
+      const tampered = sign(buildResponse(), 'Assertion').replace(
+        'jane@acme.test</saml:NameID>',
+        'admin@acme.test</saml:NameID>',
+      );
+
+      expect(() => validateSamlResponse(tampered, expectations)).toThrow(
+        'not signed',
+      );
+    });
+
+    it('should reject a wrapped second assertion', () => {
+      const signed = sign(buildResponse(), 'Assertion');
+      const forged = buildResponse({ nameId: 'admin@acme.test' })
+        .match(/<saml:Assertion[\s\S]*<\/saml:Assertion>/)![0]
+        .replace('_assertion-1', '_forged');
+      const wrapped = signed.replace(
+        '</samlp:Status>',
+        `</samlp:Status>${forged}`,
+      );
+
+      expect(() => validateSamlResponse(wrapped, expectations)).toThrow(
+        'exactly one assertion',
+      );
+    });
+
+    it('should reject a response with a DOCTYPE', () => {
+      const xml = `<!DOCTYPE r [<!ENTITY x "y">]>${buildResponse()}`;
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow('DOCTYPE');
+    });
+
+    it('should reject encrypted assertions', () => {
+      const xml = buildResponse().replace(
+        '</samlp:Status>',
+        '</samlp:Status><saml:EncryptedAssertion/>',
+      );
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow(
+        'Encrypted assertions',
+      );
+    });
+
+    it('should reject an assertion from another issuer', () => {
+      const xml = sign(
+        buildResponse({ issuer: 'https://evil.test' }),
+        'Assertion',
+      );
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow(
+        'issuer mismatch',
+      );
+    });
+
+    it('should reject an assertion for another audience', () => {
+      const xml = sign(
+        buildResponse({ audience: 'https://other-sp.test' }),
+        'Assertion',
+      );
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow(
+        'audience mismatch',
+      );
+    });
+
+    it('should reject an assertion for another recipient', () => {
+      const xml = sign(
+        buildResponse({ recipient: 'https://other-sp.test/acs' }),
+        'Assertion',
+      );
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow(
+        'recipient mismatch',
+      );
+    });
+
+    it('should reject a response sent to another destination', () => {
+      const xml = sign(
+        buildResponse({ destination: 'https://other-sp.test/acs' }),
+        'Assertion',
+      );
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow(
+        'destination mismatch',
+      );
+    });
+
+    it('should reject an expired assertion beyond the clock skew', () => {
+      const xml = sign(buildResponse(), 'Assertion');
+      const later = Date.now() + 300000 + expectations.clockSkew + 1000;
+
+      expect(() => validateSamlResponse(xml, expectations, later)).toThrow(
+        'expired',
+      );
+    });
+
+    it('should reject an unsuccessful status', () => {
+      const xml = sign(
+        buildResponse({
+          status: 'urn:oasis:names:tc:SAML:2.0:status:Requester',
+        }),
+        'Assertion',
+      );
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow(
+        'status is urn:oasis:names:tc:SAML:2.0:status:Requester',
+      );
+    });
+
+    it('should reject unsolicited (IdP-initiated) responses', () => {
+      const xml = sign(buildResponse({ inResponseTo: null }), 'Assertion');
+
+      expect(() => validateSamlResponse(xml, expectations)).toThrow(
+        'Unsolicited',
+      );
+    });
+  });
+
+  describe('parseIdpMetadata', () => {
+    it('should read the entity ID, redirect endpoint and signing certificates', () => {
+      const encryptionKey = `<md:KeyDescriptor use="encryption"><ds:KeyInfo><ds:X509Data><ds:X509Certificate>${otherIdp.certificate.replace(/-----(BEGIN|END) CERTIFICATE-----|\s+/g, '')}</ds:X509Certificate></ds:X509Data></ds:KeyInfo></md:KeyDescriptor>`;
+
+      const metadata = parseIdpMetadata(
+        buildMetadata(idp.certificate, encryptionKey),
+      );
+
+      expect(metadata).toEqual({
+        entityId: IDP_ENTITY_ID,
+        ssoUrl: 'https://idp.acme.test/sso/redirect',
+        certificates: [idp.certificate],
+      });
+    });
+
+    it('should reject metadata without a signing certificate', () => {
+      const xml = buildMetadata(idp.certificate).replace(
+        'use="signing"',
+        'use="encryption"',
+      );
+
+      expect(() => parseIdpMetadata(xml)).toThrow('no signing certificate');
+    });
+
+    it('should reject metadata without an HTTP-Redirect endpoint', () => {
+      const xml = buildMetadata(idp.certificate).replace(
+        SAML_BINDINGS.redirect,
+        SAML_BINDINGS.post,
+      );
+
+      expect(() => parseIdpMetadata(xml)).toThrow('HTTP-Redirect');
+    });
+
+    it('should reject malformed XML', () => {
+      expect(() => parseIdpMetadata('<md:EntityDescriptor')).toThrow(
+        'Malformed XML',
+      );
+    });
+  });
+
+  describe('toPemCertificate', () => {
+    it('should reject data that is not a certificate', () => {
+      expect(() => toPemCertificate('bm90IGEgY2VydA==')).toThrow(
+        'Invalid X.509 certificate',
+      );
+    });
+  });
+
+  describe('requests and SP metadata', () => {
+    it('should deflate the AuthnRequest into the redirect URL', () => {
+      const request = buildAuthnRequest({
+        id: REQUEST_ID,
+        issueInstant: new Date(),
+        destination: 'https://idp.acme.test/sso/redirect?tenant=1',
+        acsUrl: ACS_URL,
+        spEntityId: SP_ENTITY_ID,
+      });
+
+      const url = new URL(
+        buildRedirectUrl(
+          'https://idp.acme.test/sso/redirect?tenant=1',
+          request,
+        ),
+      );
+      const inflated = zlib
+        .inflateRawSync(
+          Buffer.from(url.searchParams.get('SAMLRequest')!, 'base64'),
+        )
+        .toString('utf8');
+
+      expect(url.searchParams.get('tenant')).toBe('1');
+      expect(inflated).toBe(request);
+      expect(inflated).toContain(`ID="${REQUEST_ID}"`);
+      expect(inflated).toContain(`AssertionConsumerServiceURL="${ACS_URL}"`);
+    });
+
+    it('should publish the entity ID and ACS URL in SP metadata', () => {
+      const metadata = buildSpMetadata({
+        entityId: SP_ENTITY_ID,
+        acsUrl: `${ACS_URL}?a=1&b=2`,
+      });
+
+      expect(metadata).toContain(`entityID="${SP_ENTITY_ID}"`);
+      expect(metadata).toContain(`Location="${ACS_URL}?a=1&amp;b=2"`);
+      expect(metadata).toContain('WantAssertionsSigned="true"');
+    });
+  });
+});
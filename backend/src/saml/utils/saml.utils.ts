@@ -0,0 +1,615 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { DOMParser } from '@xmldom/xmldom';
+import { SignedXml } from 'xml-crypto';
+
+/**
+ * Service provider side of SAML 2.0 Web Browser SSO: IdP metadata import,
+ * SP metadata and AuthnRequest generation (HTTP-Redirect binding) and
+ * validation of signed responses received on the HTTP-POST binding.
+ */
+
+export const SAML_NAMESPACES = {
+  protocol: 'urn:oasis:names:tc:SAML:2.0:protocol',
+  assertion: 'urn:oasis:names:tc:SAML:2.0:assertion',
+  metadata: 'urn:oasis:names:tc:SAML:2.0:metadata',
+  signature: 'http://www.w3.org/2000/09/xmldsig#',
+} as const;
+
+export const SAML_BINDINGS = {
+  redirect: 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect',
+  post: 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST',
+} as const;
+
+export const SAML_STATUS_SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+export const SAML_BEARER_CONFIRMATION = 'urn:oasis:names:tc:SAML:2.0:cm:bearer';
+const NAMEID_FORMAT_UNSPECIFIED =
+  'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified';
+const NAMEID_FORMAT_EMAIL =
+  'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+
+const ELEMENT_NODE = 1;
+
+export interface IdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  /** PEM signing certificates */
+  certificates: string[];
+}
+
+export interface SamlAssertion {
+  issuer: string;
+  nameId: string;
+  nameIdFormat?: string;
+  /** ID of the AuthnRequest this assertion answers */
+  inResponseTo: string;
+  sessionIndex?: string;
+  /** Attribute values keyed by Name (and FriendlyName when present) */
+  attributes: Record<string, string[]>;
+}
+
+export interface SamlResponseExpectations {
+  idpEntityId: string;
+  certificates: string[];
+  spEntityId: string;
+  acsUrl: string;
+  /** Tolerated clock skew in milliseconds */
+  clockSkew: number;
+}
+
+/**
+ * Parse an XML document, rejecting DTDs (entity expansion) and parse errors.
+ * @throws Error if the document is not well-formed
+ */
+export function parseXml(xml: string): Document {
+  if (/<!DOCTYPE/i.test(xml)) {
+    throw new Error('XML documents with a DOCTYPE are not accepted');
+  }
+
+  let malformed = false;
+  const flagError = () => {
+    malformed = true;
+  };
+
+  let document: Document | undefined;
+  try {
+    document = new DOMParser({
+      errorHandler: {
+        warning: () => undefined,
+        error: flagError,
+        fatalError: flagError,
+      },
+    }).parseFromString(xml, 'text/xml');
+  } catch {
+    malformed = true;
+  }
+
+  if (malformed || !document?.documentElement) {
+    throw new Error('Malformed XML');
+  }
+
+  return document;
+}
+
+/**
+ * Escape a value for use in XML text or a double-quoted attribute
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Normalise a certificate (PEM or bare base64 DER) to PEM.
+ * @throws Error if the value is not an X.509 certificate
+ */
+export function toPemCertificate(value: string): string {
+  const base64 = value
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '');
+
+  try {
+    return new crypto.X509Certificate(Buffer.from(base64, 'base64')).toString();
+  } catch {
+    throw new Error('Invalid X.509 certificate');
+  }
+}
+
+/**
+ * Expiry date of a PEM certificate
+ */
+export function getCertificateExpiry(pem: string): Date {
+  return new Date(new crypto.X509Certificate(pem).validTo);
+}
+
+/**
+ * Read the entity ID, Redirect-binding SSO endpoint and signing certificates
+ * of an identity provider from its metadata.
+ * @throws Error describing what is missing
+ */
+export function parseIdpMetadata(xml: string): IdpMetadata {
+  const document = parseXml(xml);
+
+  const entity = elementsByName(
+    document,
+    SAML_NAMESPACES.metadata,
+    'EntityDescriptor',
+  ).find((candidate) =>
+    firstChild(candidate, SAML_NAMESPACES.metadata, 'IDPSSODescriptor'),
+  );
+  const idp =
+    entity && firstChild(entity, SAML_NAMESPACES.metadata, 'IDPSSODescriptor');
+
+  if (!entity || !idp) {
+    throw new Error('Metadata has no identity provider descriptor');
+  }
+
+  const entityId = entity.getAttribute('entityID');
+  if (!entityId) {
+    throw new Error('Metadata has no entityID');
+  }
+
+  if (
+    !(idp.getAttribute('protocolSupportEnumeration') || '').includes(
+      SAML_NAMESPACES.protocol,
+    )
+  ) {
+    throw new Error('Identity provider does not support SAML 2.0');
+  }
+
+  const ssoUrl = childElements(
+    idp,
+    SAML_NAMESPACES.metadata,
+    'SingleSignOnService',
+  )
+    .find(
+      (service) => service.getAttribute('Binding') === SAML_BINDINGS.redirect,
+    )
+    ?.getAttribute('Location');
+
+  if (!ssoUrl || !/^https?:\/\//.test(ssoUrl)) {
+    throw new Error('Metadata has no HTTP-Redirect SingleSignOnService');
+  }
+
+  const certificates = childElements(
+    idp,
+    SAML_NAMESPACES.metadata,
+    'KeyDescriptor',
+  )
+    .filter((key) => (key.getAttribute('use') || 'signing') === 'signing')
+    .flatMap((key) =>
+      elementsByName(key, SAML_NAMESPACES.signature, 'X509Certificate'),
+    )
+    .map((certificate) => toPemCertificate(textOf(certificate)));
+
+  if (certificates.length === 0) {
+    throw new Error('Metadata has no signing certificate');
+  }
+
+  return { entityId, ssoUrl, certificates: [...new Set(certificates)] };
+}
+
+/**
+ * Build the service provider metadata for one connection
+ */
+export function buildSpMetadata(options: {
+  entityId: string;
+  acsUrl: string;
+}): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<md:EntityDescriptor xmlns:md="${SAML_NAMESPACES.metadata}" entityID="${escapeXml(options.entityId)}">`,
+    `  <md:SPSSODescriptor AuthnRequestsSigned="false" WantAssertionsSigned="true" protocolSupportEnumeration="${SAML_NAMESPACES.protocol}">`,
+    `    <md:NameIDFormat>${NAMEID_FORMAT_EMAIL}</md:NameIDFormat>`,
+    `    <md:AssertionConsumerService Binding="${SAML_BINDINGS.post}" Location="${escapeXml(options.acsUrl)}" index="0" isDefault="true"/>`,
+    '  </md:SPSSODescriptor>',
+    '</md:EntityDescriptor>',
+  ].join('\n');
+}
+
+/**
+ * Generate an AuthnRequest ID (an xs:ID, so it cannot start with a digit)
+ */
+export function generateRequestId(): string {
+  return `_${crypto.randomBytes(20).toString('hex')}`;
+}
+
+/**
+ * Build an AuthnRequest asking for an assertion on the HTTP-POST binding
+ */
+export function buildAuthnRequest(options: {
+  id: string;
+  issueInstant: Date;
+  destination: string;
+  acsUrl: string;
+  spEntityId: string;
+}): string {
+  return [
+    `<samlp:AuthnRequest xmlns:samlp="${SAML_NAMESPACES.protocol}" xmlns:saml="${SAML_NAMESPACES.assertion}"`,
+    ` ID="${escapeXml(options.id)}" Version="2.0" IssueInstant="${options.issueInstant.toISOString()}"`,
+    ` Destination="${escapeXml(options.destination)}" AssertionConsumerServiceURL="${escapeXml(options.acsUrl)}"`,
+    ` ProtocolBinding="${SAML_BINDINGS.post}">`,
+    `<saml:Issuer>${escapeXml(options.spEntityId)}</saml:Issuer>`,
+    `<samlp:NameIDPolicy Format="${NAMEID_FORMAT_UNSPECIFIED}" AllowCreate="true"/>`,
+    '</samlp:AuthnRequest>',
+  ].join('');
+}
+
+/**
+ * Encode a request for the HTTP-Redirect binding (DEFLATE + base64 query parameter)
+ * @returns IdP SSO URL carrying the SAMLRequest
+ */
+export function buildRedirectUrl(
+  destination: string,
+  requestXml: string,
+): string {
+  const url = new URL(destination);
+  url.searchParams.append(
+    'SAMLRequest',
+    zlib.deflateRawSync(Buffer.from(requestXml, 'utf8')).toString('base64'),
+  );
+  return url.toString();
+}
+
+/**
+ * Validate a SAML response and return its assertion.
+ * Only content covered by a valid IdP signature is read, which protects
+ * against signature wrapping: either the Response or the Assertion must be
+ * signed with one of the connection's certificates.
+ * @throws Error describing the first failed check
+ */
+export function validateSamlResponse(
+  xml: string,
+  expected: SamlResponseExpectations,
+  now = Date.now(),
+): SamlAssertion {
+  const document = parseXml(xml);
+  const response = document.documentElement;
+
+  if (!isElement(response, SAML_NAMESPACES.protocol, 'Response')) {
+    throw new Error('Document is not a SAML response');
+  }
+
+  if (
+    elementsByName(response, SAML_NAMESPACES.assertion, 'EncryptedAssertion')
+      .length > 0
+  ) {
+    throw new Error('Encrypted assertions are not supported');
+  }
+
+  const assertions = elementsByName(
+    response,
+    SAML_NAMESPACES.assertion,
+    'Assertion',
+  );
+  if (assertions.length !== 1) {
+    throw new Error('SAML response must contain exactly one assertion');
+  }
+
+  const signedResponse = verifyEnvelopedSignature(
+    xml,
+    response,
+    expected.certificates,
+  );
+  const signedAssertion = signedResponse
+    ? onlyAssertion(signedResponse)
+    : verifyEnvelopedSignature(xml, assertions[0], expected.certificates);
+
+  if (!signedAssertion) {
+    throw new Error('SAML assertion is not signed by the identity provider');
+  }
+
+  const trustedResponse = signedResponse ?? response;
+
+  const statusCode = firstChild(
+    firstChild(trustedResponse, SAML_NAMESPACES.protocol, 'Status'),
+    SAML_NAMESPACES.protocol,
+    'StatusCode',
+  )?.getAttribute('Value');
+  if (statusCode !== SAML_STATUS_SUCCESS) {
+    throw new Error(`SAML response status is ${statusCode || 'missing'}`);
+  }
+
+  const destination = trustedResponse.getAttribute('Destination');
+  if (destination && destination !== expected.acsUrl) {
+    throw new Error('SAML response destination mismatch');
+  }
+
+  const issuer = textOf(
+    firstChild(signedAssertion, SAML_NAMESPACES.assertion, 'Issuer'),
+  );
+  if (issuer !== expected.idpEntityId) {
+    throw new Error('SAML assertion issuer mismatch');
+  }
+
+  const subject = firstChild(
+    signedAssertion,
+    SAML_NAMESPACES.assertion,
+    'Subject',
+  );
+  const nameIdElement = firstChild(
+    subject,
+    SAML_NAMESPACES.assertion,
+    'NameID',
+  );
+  const nameId = textOf(nameIdElement);
+  if (!subject || !nameId) {
+    throw new Error('SAML assertion has no subject NameID');
+  }
+
+  const inResponseTo = validateSubjectConfirmation(subject, expected, now);
+
+  const responseInResponseTo = trustedResponse.getAttribute('InResponseTo');
+  if (responseInResponseTo && responseInResponseTo !== inResponseTo) {
+    throw new Error('SAML response InResponseTo mismatch');
+  }
+
+  validateConditions(signedAssertion, expected, now);
+
+  return {
+    issuer,
+    nameId,
+    nameIdFormat: nameIdElement?.getAttribute('Format') || undefined,
+    inResponseTo,
+    sessionIndex:
+      firstChild(
+        signedAssertion,
+        SAML_NAMESPACES.assertion,
+        'AuthnStatement',
+      )?.getAttribute('SessionIndex') || undefined,
+    attributes: readAttributes(signedAssertion),
+  };
+}
+
+/**
+ * Verify the enveloped signature carried by an element.
+ * @returns The element as covered by the signature, or null when it is
+ * unsigned or no certificate verifies it
+ */
+function verifyEnvelopedSignature(
+  xml: string,
+  element: Element,
+  certificates: string[],
+): Element | null {
+  const signature = firstChild(element, SAML_NAMESPACES.signature, 'Signature');
+  const id = element.getAttribute('ID');
+  if (!signature || !id) {
+    return null;
+  }
+
+  for (const certificate of certificates) {
+    const signedXml = new SignedXml({
+      publicCert: certificate,
+      // Never trust a key embedded in the message
+      getCertFromKeyInfo: () => null,
+    });
+
+    try {
+      signedXml.loadSignature(signature);
+      if (!signedXml.checkSignature(xml)) {
+        continue;
+      }
+    } catch {
+      continue;
+    }
+
+    const references = signedXml.getSignedReferences();
+    if (references.length !== 1) {
+      return null;
+    }
+
+    // The signature must cover the element that carries it
+    const signed = parseXml(references[0]).documentElement;
+    if (
+      !isElement(signed, element.namespaceURI ?? '', element.localName) ||
+      signed.getAttribute('ID') !== id
+    ) {
+      return null;
+    }
+
+    return signed;
+  }
+
+  return null;
+}
+
+function onlyAssertion(response: Element): Element | null {
+  const assertions = elementsByName(
+    response,
+    SAML_NAMESPACES.assertion,
+    'Assertion',
+  );
+  return assertions.length === 1 ? assertions[0] : null;
+}
+
+/**
+ * Check the bearer SubjectConfirmation (SAML Profiles §4.1.4.2)
+ * @returns InResponseTo of the first valid confirmation
+ */
+function validateSubjectConfirmation(
+  subject: Element,
+  expected: SamlResponseExpectations,
+  now: number,
+): string {
+  const failures: string[] = [];
+
+  for (const confirmation of childElements(
+    subject,
+    SAML_NAMESPACES.assertion,
+    'SubjectConfirmation',
+  )) {
+    if (confirmation.getAttribute('Method') !== SAML_BEARER_CONFIRMATION) {
+      continue;
+    }
+
+    const data = firstChild(
+      confirmation,
+      SAML_NAMESPACES.assertion,
+      'SubjectConfirmationData',
+    );
+    const notOnOrAfter = parseTime(data?.getAttribute('NotOnOrAfter'));
+    const inResponseTo = data?.getAttribute('InResponseTo');
+
+    if (!data || data.getAttribute('Recipient') !== expected.acsUrl) {
+      failures.push('SAML subject confirmation recipient mismatch');
+    } else if (notOnOrAfter === undefined) {
+      failures.push('SAML subject confirmation has no expiry');
+    } else if (notOnOrAfter + expected.clockSkew <= now) {
+      failures.push('SAML subject confirmation has expired');
+    } else if (!inResponseTo) {
+      failures.push('Unsolicited SAML responses are not accepted');
+    } else {
+      return inResponseTo;
+    }
+  }
+
+  throw new Error(
+    failures[0] ?? 'SAML assertion has no bearer subject confirmation',
+  );
+}
+
+/**
+ * Check the assertion validity window and audience (SAML Core §2.5)
+ */
+function validateConditions(
+  assertion: Element,
+  expected: SamlResponseExpectations,
+  now: number,
+): void {
+  const conditions = firstChild(
+    assertion,
+    SAML_NAMESPACES.assertion,
+    'Conditions',
+  );
+  if (!conditions) {
+    throw new Error('SAML assertion has no conditions');
+  }
+
+  const notBefore = parseTime(conditions.getAttribute('NotBefore'));
+  if (notBefore !== undefined && notBefore - expected.clockSkew > now) {
+    throw new Error('SAML assertion is not valid yet');
+  }
+
+  const notOnOrAfter = parseTime(conditions.getAttribute('NotOnOrAfter'));
+  if (notOnOrAfter !== undefined && notOnOrAfter + expected.clockSkew <= now) {
+    throw new Error('SAML assertion has expired');
+  }
+
+  const restrictions = childElements(
+    conditions,
+    SAML_NAMESPACES.assertion,
+    'AudienceRestriction',
+  );
+  const allowsAudience = (restriction: Element) =>
+    childElements(restriction, SAML_NAMESPACES.assertion, 'Audience').some(
+      (audience) => textOf(audience) === expected.spEntityId,
+    );
+
+  // Every restriction must be satisfied, and at least one is required
+  if (restrictions.length === 0 || !restrictions.every(allowsAudience)) {
+    throw new Error('SAML assertion audience mismatch');
+  }
+}
+
+function readAttributes(assertion: Element): Record<string, string[]> {
+  const attributes: Record<string, string[]> = {};
+
+  for (const statement of childElements(
+    assertion,
+    SAML_NAMESPACES.assertion,
+    'AttributeStatement',
+  )) {
+    for (const attribute of childElements(
+      statement,
+      SAML_NAMESPACES.assertion,
+      'Attribute',
+    )) {
+      const values = childElements(
+        attribute,
+        SAML_NAMESPACES.assertion,
+        'AttributeValue',
+      )
+        .map(textOf)
+        .filter(Boolean);
+
+      for (const key of [
+        attribute.getAttribute('Name'),
+        attribute.getAttribute('FriendlyName'),
+      ]) {
+        if (key) {
+          attributes[key] = [...(attributes[key] ?? []), ...values];
+        }
+      }
+    }
+  }
+
+  return attributes;
+}
+
+function parseTime(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function isElement(
+  node: Node | null | undefined,
+  namespace: string,
+  localName: string,
+): node is Element {
+  return (
+    node?.nodeType === ELEMENT_NODE &&
+    (node as Element).namespaceURI === namespace &&
+    (node as Element).localName === localName
+  );
+}
+
+function childElements(
+  parent: Element | undefined,
+  namespace: string,
+  localName: string,
+): Element[] {
+  const children: Element[] = [];
+  if (!parent) {
+    return children;
+  }
+
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const child = parent.childNodes.item(i);
+    if (isElement(child, namespace, localName)) {
+      children.push(child);
+    }
+  }
+  return children;
+}
+
+function firstChild(
+  parent: Element | undefined,
+  namespace: string,
+  localName: string,
+): Element | undefined {
+  return childElements(parent, namespace, localName)[0];
+}
+
+function elementsByName(
+  root: Document | Element,
+  namespace: string,
+  localName: string,
+): Element[] {
+  const list = root.getElementsByTagNameNS(namespace, localName);
+  const elements: Element[] = [];
+  for (let i = 0; i < list.length; i++) {
+    elements.push(list.item(i) as Element);
+  }
+  return elements;
+}
+
+function textOf(element: Element | undefined): string {
+  return element?.textContent?.trim() ?? '';
+}
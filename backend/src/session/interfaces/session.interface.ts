@@ -10,6 +10,10 @@ export interface ISession {
   isValid: boolean;
   lastUsedAt?: Date;
   expiresAt: Date;
+  family: string;
+  rotatedAt?: Date;
+  replacedBy?: Types.ObjectId;
+  revokedReason?: string;
 }
 
 export type SessionDocument = HydratedDocument<Session>;
@@ -54,6 +54,18 @@ export class Session {
   @Prop({ required: true })
   expiresAt!: Date;
 
+  @Prop({ required: true })
+  family!: string; // Lineage id shared by every session rotated from the same login
+
+  @Prop()
+  rotatedAt?: Date; // Set when this token was replaced by a refresh
+
+  @Prop({ type: Types.ObjectId, ref: 'Session' })
+  replacedBy?: Types.ObjectId;
+
+  @Prop()
+  revokedReason?: string; // e.g., 'token_reuse'
+
   // Timestamp fields (automatically managed by Mongoose with timestamps: true)
   createdAt!: Date;
   updatedAt!: Date;
@@ -68,3 +80,4 @@ export const SessionSchema: MongooseSchema<Session> =
 SessionSchema.index({ user: 1 });
 SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
 SessionSchema.index({ user: 1, userAgent: 1 });
+SessionSchema.index({ family: 1 });
@@ -1,19 +1,28 @@
-import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { AuthProvider } from '../enums/auth-provider.enum';
+import { OAUTH_PROVIDER_NAME_PATTERN } from '../../auth/utils/oauth-provider.utils';
 
 /**
  * DTO for linking an OAuth provider to existing account
  */
 export class LinkProviderDto {
   @ApiProperty({
-    description: 'OAuth provider to link',
-    enum: ['GOOGLE', 'FACEBOOK', 'GITHUB'],
-    example: 'GITHUB',
+    description:
+      'OAuth provider to link (google, facebook, github or a configured OIDC provider)',
+    example: 'github',
+  })
+  @Matches(OAUTH_PROVIDER_NAME_PATTERN, {
+    message: 'Provider must be a valid provider name',
   })
-  @IsEnum(AuthProvider)
   @IsNotEmpty()
-  provider!: AuthProvider;
+  provider!: string;
 
   @ApiProperty({
     description: 'Authorization code from OAuth provider',
@@ -38,13 +47,15 @@ export class LinkProviderDto {
  */
 export class UnlinkProviderDto {
   @ApiProperty({
-    description: 'OAuth provider to unlink',
-    enum: ['GOOGLE', 'FACEBOOK', 'GITHUB'],
-    example: 'GITHUB',
+    description:
+      'OAuth provider to unlink (google, facebook, github or a configured OIDC provider)',
+    example: 'github',
+  })
+  @Matches(OAUTH_PROVIDER_NAME_PATTERN, {
+    message: 'Provider must be a valid provider name',
   })
-  @IsEnum(AuthProvider)
   @IsNotEmpty()
-  provider!: AuthProvider;
+  provider!: string;
 }
 
 /**
@@ -1,5 +1,10 @@
-import { IsNotEmpty, IsString } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
  * DTO for adding a permission to a user.
@@ -12,4 +17,13 @@ export class AddPermissionDto {
   @IsString()
   @IsNotEmpty()
   permission!: string;
+
+  @ApiPropertyOptional({
+    description:
+      'When the grant expires and is removed automatically (permanent if omitted)',
+    example: '2026-11-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
 }
@@ -0,0 +1,57 @@
+import { IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  DataExportFormat,
+  DataExportStatus,
+} from '../schemas/data-export.schema';
+
+/**
+ * DTO for requesting a personal data export
+ */
+export class DataExportQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Bundle format: a single JSON document, or a ZIP archive with one JSON file per section',
+    enum: ['json', 'zip'],
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(['json', 'zip'], { message: 'Format must be json or zip' })
+  format: DataExportFormat = 'json';
+}
+
+/**
+ * DTO carrying the token from the emailed download link
+ */
+export class DownloadDataExportQueryDto {
+  @ApiProperty({
+    description: 'Download token from the export email',
+    example: 'a3f1c9e2...',
+  })
+  @IsString({ message: 'Token must be a string' })
+  @Matches(/^[a-f0-9]{64}$/, { message: 'Invalid download token' })
+  token!: string;
+}
+
+/**
+ * DTO for a data export request
+ */
+export class DataExportResponseDto {
+  @ApiProperty({
+    description: 'Export ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  id!: string;
+
+  @ApiProperty({ enum: ['json', 'zip'], example: 'json' })
+  format!: DataExportFormat;
+
+  @ApiProperty({ enum: ['pending', 'ready', 'failed'], example: 'pending' })
+  status!: DataExportStatus;
+
+  @ApiProperty({
+    description: 'When the download link stops working',
+    example: '2026-01-08T12:00:00.000Z',
+  })
+  expiresAt!: Date;
+}
@@ -0,0 +1,30 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO for denying a permission to a user.
+ */
+export class DenyPermissionDto {
+  @ApiProperty({
+    description:
+      'Permission to deny (format: resource:action[:scope]). Overrides the role, including the wildcard (*).',
+    example: 'users:delete:all',
+  })
+  @IsString()
+  @IsNotEmpty()
+  permission!: string;
+
+  @ApiPropertyOptional({
+    description:
+      'When the denial expires and is removed automatically (permanent if omitted)',
+    example: '2026-11-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
@@ -0,0 +1,59 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * DTO carrying a code from the user's authenticator app
+ */
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: '6-digit code from the authenticator app',
+    example: '123456',
+    minLength: 6,
+    maxLength: 6,
+  })
+  @IsString({ message: 'Code must be a string' })
+  @IsNotEmpty({ message: 'Code is required' })
+  @Matches(/^\d{6}$/, { message: 'Code must be exactly 6 digits' })
+  code!: string;
+}
+
+/**
+ * DTO for the 2FA enrolment response
+ */
+export class TwoFactorSetupResponseDto {
+  @ApiProperty({
+    description: 'Base32-encoded TOTP secret for manual entry',
+    example: 'JBSWY3DPEHPK3PXP',
+  })
+  secret!: string;
+
+  @ApiProperty({
+    description: 'otpauth:// URI to render as a QR code',
+    example:
+      'otpauth://totp/AuthBoiler%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=AuthBoiler',
+  })
+  otpauthUri!: string;
+}
+
+/**
+ * DTO returning newly issued recovery codes
+ */
+export class TwoFactorRecoveryCodesResponseDto {
+  @ApiProperty({
+    description: 'Single-use recovery codes. They are only shown once.',
+    example: ['k7m2p-x9q4r', 'b3n8t-w5d2h'],
+    type: [String],
+  })
+  recoveryCodes!: string[];
+}
+
+/**
+ * DTO for the recovery code status
+ */
+export class TwoFactorRecoveryStatusDto {
+  @ApiProperty({
+    description: 'Number of unused recovery codes',
+    example: 8,
+  })
+  remaining!: number;
+}
@@ -1,4 +1,42 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Admin who granted a permission
+ */
+export class PermissionGrantorDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439012' })
+  id!: string;
+
+  @ApiProperty({ example: 'Jane Admin' })
+  name!: string;
+
+  @ApiProperty({ example: 'admin@example.com' })
+  email!: string;
+}
+
+/**
+ * A direct permission grant or denial stored as a Permission document
+ */
+export class PermissionGrantDto {
+  @ApiProperty({ example: 'reports:read:all' })
+  permission!: string;
+
+  @ApiPropertyOptional({
+    type: PermissionGrantorDto,
+    description:
+      'Admin who granted or denied the permission. Missing when unknown or erased',
+  })
+  grantedBy?: PermissionGrantorDto;
+
+  @ApiProperty({ example: '2026-10-01T12:00:00.000Z' })
+  grantedAt!: Date;
+
+  @ApiPropertyOptional({
+    description: 'When the entry lapses; permanent entries have no expiry',
+    example: '2026-11-01T00:00:00.000Z',
+  })
+  expiresAt?: Date;
+}
 
 /**
  * Response DTO for user permissions.
@@ -11,15 +49,50 @@ export class UserPermissionsResponseDto {
   userId!: string;
 
   @ApiProperty({
-    description: 'Array of user permissions',
+    description: 'Array of direct user permissions, including active grants',
     example: ['profile:read:own', 'profile:update:own', 'users:read:all'],
     type: [String],
   })
   permissions!: string[];
 
   @ApiProperty({
-    description: 'User role slug',
+    description: 'Primary role slug (the first of roles)',
     example: 'user',
   })
   role!: string;
+
+  @ApiProperty({
+    description: 'All role slugs of the user',
+    example: ['support', 'billing-viewer'],
+    type: [String],
+  })
+  roles!: string[];
+
+  @ApiProperty({
+    description:
+      'Permissions granted by all of the roles, including those inherited from parent roles',
+    example: ['profile:read:own', 'users:read:all', 'billing:read:all'],
+    type: [String],
+  })
+  rolePermissions!: string[];
+
+  @ApiProperty({
+    description:
+      'Permissions denied to the user. Denials override role permissions, including the wildcard (*)',
+    example: ['users:delete:all'],
+    type: [String],
+  })
+  denied!: string[];
+
+  @ApiProperty({
+    description: 'Active grants with their grantor and expiry',
+    type: [PermissionGrantDto],
+  })
+  grants!: PermissionGrantDto[];
+
+  @ApiProperty({
+    description: 'Active denials with the admin who set them and expiry',
+    type: [PermissionGrantDto],
+  })
+  denials!: PermissionGrantDto[];
 }
@@ -25,11 +25,25 @@ export class UserProfileDto {
 
   @ApiProperty({
     description:
-      'User role slug (user, support, manager, admin, or custom roles)',
+      'Primary role slug, the first of roles (user, support, manager, admin, or custom roles)',
     example: 'user',
   })
   role!: string;
 
+  @ApiProperty({
+    description: 'All role slugs; permissions are the union across these roles',
+    example: ['support', 'billing-viewer'],
+    type: [String],
+  })
+  roles!: string[];
+
+  @ApiProperty({
+    description:
+      'Level of the highest-ranked role in the role hierarchy (0 for custom roles without a level)',
+    example: 1,
+  })
+  roleLevel!: number;
+
   @ApiProperty({
     description: 'User permissions array',
     example: ['profile:read:own', 'profile:update:own'],
@@ -93,6 +107,20 @@ export class UserProfileDto {
   })
   profileSyncedAt?: Date;
 
+  @ApiProperty({
+    description: 'Whether two-factor authentication is enabled',
+    example: false,
+  })
+  twoFactorEnabled!: boolean;
+
+  @ApiProperty({
+    description:
+      'Organization whose membership permissions apply; absent when working outside one',
+    example: '507f1f77bcf86cd799439013',
+    required: false,
+  })
+  activeOrganization?: string;
+
   @ApiProperty({
     description: 'Account creation timestamp',
     example: '2024-01-15T10:30:00.000Z',
@@ -0,0 +1,15 @@
+/**
+ * Account status enum.
+ * Controls whether a user may authenticate. Every sign-in path and the
+ * AuthGuard reject accounts that are not ACTIVE.
+ */
+export enum AccountStatus {
+  /** Normal account that can sign in */
+  ACTIVE = 'active',
+  /** Blocked by an administrator; the reason is shown at sign-in */
+  SUSPENDED = 'suspended',
+  /** Closed by the user or an administrator */
+  DEACTIVATED = 'deactivated',
+  /** Deleted by an administrator and awaiting removal */
+  PENDING_DELETION = 'pending_deletion',
+}
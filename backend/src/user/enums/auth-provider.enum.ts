@@ -11,4 +11,8 @@ export enum AuthProvider {
   GITHUB = 'github',
   /** Facebook OAuth registration */
   FACEBOOK = 'facebook',
+  /** Configured OpenID Connect provider (name kept in linkedProviders) */
+  OIDC = 'oidc',
+  /** SAML SSO connection (connection kept in linkedProviders) */
+  SAML = 'saml',
 }
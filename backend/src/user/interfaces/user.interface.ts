@@ -6,7 +6,7 @@ export interface IUser {
   email: string;
   password?: string;
   name: string;
-  role: UserRole;
+  roles: UserRole[];
   googleId?: string;
   facebookId?: string;
   isVerified: boolean;
@@ -0,0 +1,51 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type DataExportFormat = 'json' | 'zip';
+export type DataExportStatus = 'pending' | 'ready' | 'failed';
+
+/**
+ * A personal data export requested by a user.
+ * The generated bundle is stored with the request and removed together with
+ * it once the download link expires.
+ */
+@Schema({ timestamps: true })
+export class DataExport {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  user!: Types.ObjectId;
+
+  @Prop({ type: String, enum: ['json', 'zip'], required: true })
+  format!: DataExportFormat;
+
+  @Prop({
+    type: String,
+    enum: ['pending', 'ready', 'failed'],
+    required: true,
+    default: 'pending',
+  })
+  status!: DataExportStatus;
+
+  @Prop({ required: true, select: false })
+  hashedToken!: string; // SHA-256 of the token in the emailed download link
+
+  @Prop({ type: Buffer, select: false })
+  data?: Buffer;
+
+  @Prop()
+  size?: number; // Bytes
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop({ required: true, index: { expireAfterSeconds: 0 } })
+  expiresAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type DataExportDocument = HydratedDocument<DataExport>;
+
+export const DataExportSchema: MongooseSchema<DataExport> =
+  SchemaFactory.createForClass(DataExport);
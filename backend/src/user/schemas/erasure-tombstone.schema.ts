@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type ErasureMode = 'anonymize' | 'purge';
+export type ErasureTrigger = 'grace_period' | 'admin';
+
+/**
+ * Proof that a user's personal data was erased.
+ * Holds no personal data itself: the email is only kept as a hash so that an
+ * erasure request for a given address can be confirmed later.
+ */
+@Schema({ timestamps: true })
+export class ErasureTombstone {
+  @Prop({ type: Types.ObjectId, required: true, index: true })
+  userId!: Types.ObjectId; // Not a ref: the user may no longer exist
+
+  @Prop({ required: true, index: true })
+  emailHash!: string; // SHA-256 of the lowercased email
+
+  @Prop({ type: String, enum: ['anonymize', 'purge'], required: true })
+  mode!: ErasureMode;
+
+  @Prop({ type: String, enum: ['grace_period', 'admin'], required: true })
+  trigger!: ErasureTrigger;
+
+  @Prop({ type: Types.ObjectId })
+  requestedBy?: Types.ObjectId; // Admin who asked for the erasure
+
+  @Prop()
+  deletionRequestedAt?: Date; // When the account was deleted, if it was
+
+  @Prop({ type: Map, of: Number, default: {} })
+  collections!: Map<string, number>; // Collection -> documents removed or anonymised
+
+  @Prop({ required: true })
+  erasedAt!: Date;
+
+  // Timestamp fields (automatically managed by Mongoose with timestamps: true)
+  createdAt!: Date;
+  updatedAt!: Date;
+}
+
+export type ErasureTombstoneDocument = HydratedDocument<ErasureTombstone>;
+
+export const ErasureTombstoneSchema: MongooseSchema<ErasureTombstone> =
+  SchemaFactory.createForClass(ErasureTombstone);
@@ -1,6 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { HydratedDocument, Schema as MongooseSchema } from 'mongoose';
+import { HydratedDocument, Schema as MongooseSchema, Types } from 'mongoose';
 import { AuthProvider } from '../enums/auth-provider.enum';
+import { AccountStatus } from '../enums/account-status.enum';
 
 @Schema({ timestamps: true })
 export class User {
@@ -13,12 +14,17 @@ export class User {
   @Prop({ required: true, trim: true })
   name!: string;
 
-  @Prop({ type: String, default: 'user' })
-  role!: string;
+  /** Role slugs; the first is the primary role and permissions are the union across all */
+  @Prop({ type: [String], default: () => ['user'] })
+  roles!: string[];
 
   @Prop({ type: [String], default: [] })
   permissions!: string[];
 
+  /** Organization whose membership permissions apply; none when working outside one */
+  @Prop({ type: Types.ObjectId, ref: 'Organization' })
+  activeOrganization?: Types.ObjectId;
+
   @Prop({ enum: AuthProvider, default: AuthProvider.EMAIL })
   authProvider!: AuthProvider;
 
@@ -31,6 +37,9 @@ export class User {
   @Prop({ sparse: true, unique: true })
   githubId?: string;
 
+  @Prop({ type: Map, of: String, default: undefined })
+  externalSubjects?: Map<string, string>; // OIDC provider or SAML connection -> subject
+
   @Prop({ default: false })
   isVerified!: boolean;
 
@@ -46,12 +55,27 @@ export class User {
   @Prop()
   resetPasswordExpires?: Date;
 
+  @Prop({ type: String, enum: AccountStatus, default: AccountStatus.ACTIVE })
+  status!: AccountStatus;
+
+  @Prop()
+  statusReason?: string; // Shown to the user when the account is suspended
+
+  @Prop()
+  statusChangedAt?: Date;
+
   @Prop({ default: false })
-  isDeleted!: boolean;
+  isDeleted!: boolean; // Kept in sync with status (deactivated or pending deletion)
 
   @Prop()
   deletedAt?: Date;
 
+  @Prop()
+  scheduledDeletionAt?: Date; // End of the reactivation grace period
+
+  @Prop()
+  anonymizedAt?: Date; // Personal data erased after the grace period
+
   @Prop({ type: [String], default: [] })
   linkedProviders!: string[];
 
@@ -64,6 +88,21 @@ export class User {
   @Prop()
   lastSyncedProvider?: string;
 
+  @Prop({ default: false })
+  twoFactorEnabled!: boolean;
+
+  @Prop({ select: false })
+  twoFactorSecret?: string;
+
+  @Prop({ select: false })
+  twoFactorPendingSecret?: string;
+
+  @Prop({ select: false })
+  twoFactorLastUsedStep?: number; // Last accepted TOTP time step (replay protection)
+
+  @Prop({ type: [String], select: false, default: undefined })
+  twoFactorRecoveryCodes?: string[]; // bcrypt hashes of unused recovery codes
+
   // Timestamp fields (automatically managed by Mongoose with timestamps: true)
   createdAt!: Date;
   updatedAt!: Date;
@@ -77,5 +116,8 @@ export const UserSchema: MongooseSchema<User> =
 // Indexes
 UserSchema.index({ createdAt: -1 });
 UserSchema.index({ isDeleted: 1 });
+UserSchema.index({ status: 1 });
+UserSchema.index({ scheduledDeletionAt: 1 }, { sparse: true });
 UserSchema.index({ linkedProviders: 1 });
-UserSchema.index({ role: 1 });
+UserSchema.index({ 'externalSubjects.$**': 1 });
+UserSchema.index({ roles: 1 });
@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { AccountDeletionService } from './account-deletion.service';
+import { AccountErasureService } from './account-erasure.service';
+import { User } from '../schemas/user.schema';
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+
+  const dueUser = { _id: new Types.ObjectId() };
+
+  const mockUserModel = {
+    find: jest.fn(),
+  };
+
+  const mockAccountErasureService = {
+    eraseUser: jest.fn().mockResolvedValue({}),
+  };
+
+  const mockDueUsers = (users: { _id: Types.ObjectId }[]) => {
+    const limit = jest.fn().mockReturnValue({
+      exec: jest.fn().mockResolvedValue(users),
+    });
+    mockUserModel.find.mockReturnValue({ limit });
+    return limit;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountDeletionService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        {
+          provide: AccountErasureService,
+          useValue: mockAccountErasureService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AccountDeletionService>(AccountDeletionService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should only look at accounts whose grace period has ended', async () => {
+    const limit = mockDueUsers([]);
+
+    await expect(service.processScheduledDeletions()).resolves.toBe(0);
+
+    const [filter] = mockUserModel.find.mock.calls[0] as [
+      { scheduledDeletionAt: { $lte: Date } },
+    ];
+    expect(filter.scheduledDeletionAt.$lte).toBeInstanceOf(Date);
+    expect(limit).toHaveBeenCalledWith(100);
+    expect(mockAccountErasureService.eraseUser).not.toHaveBeenCalled();
+  });
+
+  it('should erase due accounts', async () => {
+    mockDueUsers([dueUser]);
+
+    await expect(service.processScheduledDeletions()).resolves.toBe(1);
+
+    expect(mockAccountErasureService.eraseUser).toHaveBeenCalledWith(dueUser, {
+      trigger: 'grace_period',
+    });
+  });
+
+  it('should keep going when one account fails', async () => {
+    const other = { _id: new Types.ObjectId() };
+    mockDueUsers([dueUser, other]);
+    mockAccountErasureService.eraseUser.mockRejectedValueOnce(
+      new Error('write failed'),
+    );
+
+    await expect(service.processScheduledDeletions()).resolves.toBe(1);
+
+    expect(mockAccountErasureService.eraseUser).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,61 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { User, UserDocument } from '../schemas/user.schema';
+import { AccountErasureService } from './account-erasure.service';
+
+/**
+ * Account Deletion Service
+ * Erases deleted accounts whose reactivation grace period has ended
+ */
+@Injectable()
+export class AccountDeletionService {
+  private readonly logger = new Logger(AccountDeletionService.name);
+  private static readonly BATCH_SIZE = 100;
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly accountErasureService: AccountErasureService,
+  ) {}
+
+  /**
+   * Account deletion cron job
+   * Runs hourly and erases accounts whose scheduled deletion time has passed.
+   * Accounts that fail are logged and retried on the next run.
+   *
+   * @returns Number of accounts erased
+   */
+  @Cron(CronExpression.EVERY_HOUR, { name: 'account-deletion' })
+  async processScheduledDeletions(): Promise<number> {
+    const dueUsers = await this.userModel
+      .find({ scheduledDeletionAt: { $lte: new Date() } })
+      .limit(AccountDeletionService.BATCH_SIZE)
+      .exec();
+
+    if (dueUsers.length === 0) {
+      return 0;
+    }
+
+    this.logger.log(
+      `Erasing ${dueUsers.length} accounts past their grace period`,
+    );
+
+    let erased = 0;
+    for (const user of dueUsers) {
+      try {
+        await this.accountErasureService.eraseUser(user, {
+          trigger: 'grace_period',
+        });
+        erased++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to erase account ${user._id.toString()}`,
+          error,
+        );
+      }
+    }
+
+    return erased;
+  }
+}
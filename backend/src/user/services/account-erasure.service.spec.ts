@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { AccountErasureService } from './account-erasure.service';
+import { User, UserDocument } from '../schemas/user.schema';
+import { ErasureTombstone } from '../schemas/erasure-tombstone.schema';
+import { DataExport } from '../schemas/data-export.schema';
+import { Session } from '../../session/schemas/session.schema';
+import { Permission } from '../../permission/schemas/permission.schema';
+import { WebAuthnCredential } from '../../auth/schemas/webauthn-credential.schema';
+import { PendingTwoFactorLogin } from '../../auth/schemas/pending-two-factor-login.schema';
+import { PendingWebAuthnChallenge } from '../../auth/schemas/pending-webauthn-challenge.schema';
+import { PendingRegistration } from '../../auth/schemas/pending-registration.schema';
+import { PendingPasswordReset } from '../../auth/schemas/pending-password-reset.schema';
+import { PendingPasswordlessLogin } from '../../auth/schemas/pending-passwordless-login.schema';
+import { PendingReactivation } from '../../auth/schemas/pending-reactivation.schema';
+import { LoginAttempt } from '../../auth/schemas/login-attempt.schema';
+import { Membership } from '../../organization/schemas/membership.schema';
+import { OrganizationInvite } from '../../organization/schemas/organization-invite.schema';
+import { Team } from '../../organization/schemas/team.schema';
+import { AuditService } from '../../audit/audit.service';
+
+describe('AccountErasureService', () => {
+  const userId = new Types.ObjectId();
+  const adminId = new Types.ObjectId().toString();
+  const deletedAt = new Date('2026-09-01T00:00:00.000Z');
+  const user = {
+    _id: userId,
+    email: 'User@Example.com',
+    deletedAt,
+  } as unknown as UserDocument;
+
+  const deleteManyModel = (deletedCount: number) => ({
+    deleteMany: jest.fn().mockResolvedValue({ deletedCount }),
+  });
+
+  const mockUserModel = {
+    deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    updateOne: jest.fn().mockResolvedValue({ modifiedCount: 1 }),
+  };
+  const mockTombstoneModel = {
+    create: jest.fn((doc: object) =>
+      Promise.resolve({ _id: new Types.ObjectId(), ...doc }),
+    ),
+  };
+  const mockSessionModel = deleteManyModel(3);
+  const mockPermissionModel = deleteManyModel(1);
+  const mockDataExportModel = deleteManyModel(1);
+  const mockPasswordResetModel = deleteManyModel(1);
+  const mockLoginAttemptModel = deleteManyModel(1);
+  const mockMembershipModel = deleteManyModel(2);
+  const mockOrganizationInviteModel = deleteManyModel(1);
+  const mockTeamModel = {
+    updateMany: jest.fn().mockResolvedValue({ modifiedCount: 2 }),
+  };
+  const mockAuditService = { anonymizeUser: jest.fn().mockResolvedValue(4) };
+
+  const createService = async (mode: 'anonymize' | 'purge') => {
+    const models: [string, object][] = [
+      [User.name, mockUserModel],
+      [ErasureTombstone.name, mockTombstoneModel],
+      [DataExport.name, mockDataExportModel],
+      [Session.name, mockSessionModel],
+      [Permission.name, mockPermissionModel],
+      [WebAuthnCredential.name, deleteManyModel(0)],
+      [PendingTwoFactorLogin.name, deleteManyModel(0)],
+      [PendingWebAuthnChallenge.name, deleteManyModel(0)],
+      [PendingRegistration.name, deleteManyModel(0)],
+      [PendingPasswordReset.name, mockPasswordResetModel],
+      [PendingPasswordlessLogin.name, deleteManyModel(0)],
+      [PendingReactivation.name, deleteManyModel(0)],
+      [LoginAttempt.name, mockLoginAttemptModel],
+      [Membership.name, mockMembershipModel],
+      [OrganizationInvite.name, mockOrganizationInviteModel],
+      [Team.name, mockTeamModel],
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountErasureService,
+        ...models.map(([name, useValue]) => ({
+          provide: getModelToken(name),
+          useValue,
+        })),
+        { provide: AuditService, useValue: mockAuditService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'accountDeletion.mode' ? mode : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<AccountErasureService>(AccountErasureService);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should remove related documents by user and by email', async () => {
+    const service = await createService('anonymize');
+
+    await service.eraseUser(user, { trigger: 'grace_period' });
+
+    expect(mockSessionModel.deleteMany).toHaveBeenCalledWith({ user: userId });
+    expect(mockPermissionModel.deleteMany).toHaveBeenCalledWith({
+      user: userId,
+    });
+    expect(mockDataExportModel.deleteMany).toHaveBeenCalledWith({
+      user: userId,
+    });
+    expect(mockMembershipModel.deleteMany).toHaveBeenCalledWith({
+      user: userId,
+    });
+    expect(mockOrganizationInviteModel.deleteMany).toHaveBeenCalledWith({
+      email: 'user@example.com',
+    });
+    expect(mockTeamModel.updateMany).toHaveBeenCalledWith(
+      { members: userId },
+      { $pull: { members: userId } },
+    );
+    expect(mockPasswordResetModel.deleteMany).toHaveBeenCalledWith({
+      email: 'user@example.com',
+    });
+    expect(mockLoginAttemptModel.deleteMany).toHaveBeenCalledWith({
+      scope: 'email',
+      key: 'user@example.com',
+    });
+  });
+
+  it("should strip personal data from the user's audit entries", async () => {
+    const service = await createService('purge');
+
+    await service.eraseUser(user, { trigger: 'grace_period' });
+
+    expect(mockAuditService.anonymizeUser).toHaveBeenCalledWith(
+      userId,
+      'user@example.com',
+    );
+  });
+
+  it('should anonymise the user document', async () => {
+    const service = await createService('anonymize');
+
+    await service.eraseUser(user, { trigger: 'grace_period' });
+
+    expect(mockUserModel.deleteOne).not.toHaveBeenCalled();
+    expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+      { _id: userId },
+      {
+        $set: expect.objectContaining({
+          email: `deleted-${userId.toString()}@deleted.invalid`,
+          name: 'Deleted User',
+          anonymizedAt: expect.any(Date) as Date,
+        }) as object,
+        $unset: expect.objectContaining({
+          password: 1,
+          googleId: 1,
+          externalSubjects: 1,
+          twoFactorSecret: 1,
+          scheduledDeletionAt: 1,
+        }) as object,
+      },
+    );
+  });
+
+  it('should remove the user document in purge mode', async () => {
+    const service = await createService('purge');
+
+    await service.eraseUser(user, { trigger: 'grace_period' });
+
+    expect(mockUserModel.deleteOne).toHaveBeenCalledWith({ _id: userId });
+    expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should write a tombstone without personal data', async () => {
+    const service = await createService('purge');
+
+    await service.eraseUser(user, { trigger: 'admin', requestedBy: adminId });
+
+    const [tombstone] = mockTombstoneModel.create.mock.calls[0] as [
+      Record<string, unknown>,
+    ];
+    expect(tombstone).toMatchObject({
+      userId,
+      emailHash: crypto
+        .createHash('sha256')
+        .update('user@example.com')
+        .digest('hex'),
+      mode: 'purge',
+      trigger: 'admin',
+      requestedBy: new Types.ObjectId(adminId),
+      deletionRequestedAt: deletedAt,
+      collections: expect.objectContaining({
+        users: 1,
+        sessions: 3,
+        permissions: 1,
+        loginattempts: 1,
+        webauthncredentials: 0,
+        auditlogs: 4,
+      }) as object,
+    });
+    expect(JSON.stringify(tombstone)).not.toContain('example.com');
+  });
+});
@@ -0,0 +1,263 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  ErasureMode,
+  ErasureTombstone,
+  ErasureTombstoneDocument,
+  ErasureTrigger,
+} from '../schemas/erasure-tombstone.schema';
+import { DataExport, DataExportDocument } from '../schemas/data-export.schema';
+import { Session, SessionDocument } from '../../session/schemas/session.schema';
+import {
+  Permission,
+  PermissionDocument,
+} from '../../permission/schemas/permission.schema';
+import {
+  WebAuthnCredential,
+  WebAuthnCredentialDocument,
+} from '../../auth/schemas/webauthn-credential.schema';
+import {
+  PendingTwoFactorLogin,
+  PendingTwoFactorLoginDocument,
+} from '../../auth/schemas/pending-two-factor-login.schema';
+import {
+  PendingWebAuthnChallenge,
+  PendingWebAuthnChallengeDocument,
+} from '../../auth/schemas/pending-webauthn-challenge.schema';
+import {
+  PendingRegistration,
+  PendingRegistrationDocument,
+} from '../../auth/schemas/pending-registration.schema';
+import {
+  PendingPasswordReset,
+  PendingPasswordResetDocument,
+} from '../../auth/schemas/pending-password-reset.schema';
+import {
+  PendingPasswordlessLogin,
+  PendingPasswordlessLoginDocument,
+} from '../../auth/schemas/pending-passwordless-login.schema';
+import {
+  PendingReactivation,
+  PendingReactivationDocument,
+} from '../../auth/schemas/pending-reactivation.schema';
+import {
+  LoginAttempt,
+  LoginAttemptDocument,
+} from '../../auth/schemas/login-attempt.schema';
+import {
+  Membership,
+  MembershipDocument,
+} from '../../organization/schemas/membership.schema';
+import {
+  OrganizationInvite,
+  OrganizationInviteDocument,
+} from '../../organization/schemas/organization-invite.schema';
+import { Team, TeamDocument } from '../../organization/schemas/team.schema';
+import { AuditService } from '../../audit/audit.service';
+
+/**
+ * Why and by whom an erasure was requested
+ */
+export interface ErasureOptions {
+  trigger: ErasureTrigger;
+  /** Admin who requested the erasure */
+  requestedBy?: string;
+}
+
+/**
+ * Account Erasure Service
+ * Removes or anonymises everything stored about a user across all
+ * collections and writes a tombstone proving the erasure.
+ *
+ * In `anonymize` mode the user document is kept without personal data so
+ * that records referencing it stay valid; in `purge` mode it is removed.
+ * Documents in other collections are always removed, except audit log
+ * entries, which are kept with the user's personal data stripped.
+ */
+@Injectable()
+export class AccountErasureService {
+  private readonly logger = new Logger(AccountErasureService.name);
+  private readonly mode: ErasureMode;
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(ErasureTombstone.name)
+    private tombstoneModel: Model<ErasureTombstoneDocument>,
+    @InjectModel(DataExport.name)
+    private dataExportModel: Model<DataExportDocument>,
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    @InjectModel(Permission.name)
+    private permissionModel: Model<PermissionDocument>,
+    @InjectModel(WebAuthnCredential.name)
+    private webAuthnCredentialModel: Model<WebAuthnCredentialDocument>,
+    @InjectModel(PendingTwoFactorLogin.name)
+    private pendingTwoFactorLoginModel: Model<PendingTwoFactorLoginDocument>,
+    @InjectModel(PendingWebAuthnChallenge.name)
+    private pendingWebAuthnChallengeModel: Model<PendingWebAuthnChallengeDocument>,
+    @InjectModel(PendingRegistration.name)
+    private pendingRegistrationModel: Model<PendingRegistrationDocument>,
+    @InjectModel(PendingPasswordReset.name)
+    private pendingPasswordResetModel: Model<PendingPasswordResetDocument>,
+    @InjectModel(PendingPasswordlessLogin.name)
+    private pendingPasswordlessLoginModel: Model<PendingPasswordlessLoginDocument>,
+    @InjectModel(PendingReactivation.name)
+    private pendingReactivationModel: Model<PendingReactivationDocument>,
+    @InjectModel(LoginAttempt.name)
+    private loginAttemptModel: Model<LoginAttemptDocument>,
+    @InjectModel(Membership.name)
+    private membershipModel: Model<MembershipDocument>,
+    @InjectModel(OrganizationInvite.name)
+    private organizationInviteModel: Model<OrganizationInviteDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {
+    this.mode = this.configService.get<ErasureMode>(
+      'accountDeletion.mode',
+      'anonymize',
+    );
+  }
+
+  /**
+   * Erase a user's personal data from every collection
+   *
+   * @param user - User to erase
+   * @param options - Why and by whom the erasure was requested
+   * @returns The tombstone recording the erasure
+   */
+  async eraseUser(
+    user: UserDocument,
+    options: ErasureOptions,
+  ): Promise<ErasureTombstoneDocument> {
+    const userId = user._id;
+    const email = user.email.toLowerCase();
+    const collections: Record<string, number> = {};
+
+    // Documents that reference the user
+    collections.sessions = (
+      await this.sessionModel.deleteMany({ user: userId })
+    ).deletedCount;
+    collections.permissions = (
+      await this.permissionModel.deleteMany({ user: userId })
+    ).deletedCount;
+    collections.webauthncredentials = (
+      await this.webAuthnCredentialModel.deleteMany({ user: userId })
+    ).deletedCount;
+    collections.pendingtwofactorlogins = (
+      await this.pendingTwoFactorLoginModel.deleteMany({ user: userId })
+    ).deletedCount;
+    collections.pendingwebauthnchallenges = (
+      await this.pendingWebAuthnChallengeModel.deleteMany({ user: userId })
+    ).deletedCount;
+    collections.dataexports = (
+      await this.dataExportModel.deleteMany({ user: userId })
+    ).deletedCount;
+    collections.memberships = (
+      await this.membershipModel.deleteMany({ user: userId })
+    ).deletedCount;
+    collections.teams = (
+      await this.teamModel.updateMany(
+        { members: userId },
+        { $pull: { members: userId } },
+      )
+    ).modifiedCount;
+
+    // Documents keyed by email address
+    collections.pendingregistrations = (
+      await this.pendingRegistrationModel.deleteMany({ email })
+    ).deletedCount;
+    collections.pendingpasswordresets = (
+      await this.pendingPasswordResetModel.deleteMany({ email })
+    ).deletedCount;
+    collections.pendingpasswordlesslogins = (
+      await this.pendingPasswordlessLoginModel.deleteMany({ email })
+    ).deletedCount;
+    collections.pendingreactivations = (
+      await this.pendingReactivationModel.deleteMany({ email })
+    ).deletedCount;
+    collections.loginattempts = (
+      await this.loginAttemptModel.deleteMany({ scope: 'email', key: email })
+    ).deletedCount;
+    collections.organizationinvites = (
+      await this.organizationInviteModel.deleteMany({ email })
+    ).deletedCount;
+
+    // Audit entries stay for accountability, without personal data
+    collections.auditlogs = await this.auditService.anonymizeUser(
+      userId,
+      email,
+    );
+
+    // The user document itself, last so a failed run can be retried
+    collections.users =
+      this.mode === 'purge'
+        ? (await this.userModel.deleteOne({ _id: userId })).deletedCount
+        : (await this.anonymizeUser(userId)).modifiedCount;
+
+    const tombstone = await this.tombstoneModel.create({
+      userId,
+      emailHash: this.hashEmail(email),
+      mode: this.mode,
+      trigger: options.trigger,
+      requestedBy: options.requestedBy
+        ? new Types.ObjectId(options.requestedBy)
+        : undefined,
+      deletionRequestedAt: user.deletedAt,
+      collections,
+      erasedAt: new Date(),
+    });
+
+    this.logger.log(
+      `Account ${userId.toString()} ${this.mode === 'purge' ? 'purged' : 'anonymised'} (${options.trigger}), tombstone ${tombstone._id.toString()}`,
+    );
+
+    return tombstone;
+  }
+
+  /**
+   * Strip personal data from the user document but keep the document
+   */
+  private anonymizeUser(userId: Types.ObjectId) {
+    return this.userModel.updateOne(
+      { _id: userId },
+      {
+        $set: {
+          email: `deleted-${userId.toString()}@deleted.invalid`,
+          name: 'Deleted User',
+          permissions: [],
+          linkedProviders: [],
+          twoFactorEnabled: false,
+          anonymizedAt: new Date(),
+        },
+        $unset: {
+          password: 1,
+          googleId: 1,
+          facebookId: 1,
+          githubId: 1,
+          externalSubjects: 1,
+          verificationToken: 1,
+          verificationExpires: 1,
+          resetPasswordToken: 1,
+          resetPasswordExpires: 1,
+          statusReason: 1,
+          primaryProvider: 1,
+          profileSyncedAt: 1,
+          lastSyncedProvider: 1,
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorLastUsedStep: 1,
+          twoFactorRecoveryCodes: 1,
+          scheduledDeletionAt: 1,
+        },
+      },
+    );
+  }
+
+  private hashEmail(email: string): string {
+    return crypto.createHash('sha256').update(email).digest('hex');
+  }
+}
@@ -6,6 +6,13 @@ import { AuthProvider } from '../enums/auth-provider.enum';
 import { AppException } from '../../common/exceptions/app.exception';
 import { ErrorCode } from '../../common/enums/error-code.enum';
 import { OAuthUserProfile } from '../../auth/strategies/oauth.strategy.interface';
+import {
+  OAUTH_PROVIDER_NAME_PATTERN,
+  RESERVED_OAUTH_PROVIDER_NAMES,
+  getProviderIdField,
+  isBuiltInOAuthProvider,
+  toAuthProvider,
+} from '../../auth/utils/oauth-provider.utils';
 
 /**
  * Account Linking Service
@@ -27,14 +34,14 @@ export class AccountLinkingService {
    * Link an OAuth provider to an existing user account
    *
    * @param userId - User ID to link provider to
-   * @param provider - OAuth provider (google, facebook, github)
+   * @param provider - OAuth provider (google, facebook, github or an OIDC provider name)
    * @param profile - OAuth user profile from provider
    * @returns Updated user document
    * @throws AppException if validation fails
    */
   async linkProvider(
     userId: string,
-    provider: AuthProvider,
+    provider: string,
     profile: OAuthUserProfile,
   ): Promise<User> {
     // Get user
@@ -57,7 +64,7 @@ export class AccountLinkingService {
     }
 
     // VALIDATION 2: Check provider ID not linked to OTHER user
-    const providerIdField = this.getProviderIdField(provider);
+    const providerIdField = this.resolveProviderIdField(provider);
     const existingUser = await this.userModel
       .findOne({
         [providerIdField]: profile.providerId,
@@ -87,13 +94,11 @@ export class AccountLinkingService {
 
     // LINK PROVIDER
     user.linkedProviders.push(provider);
-    // Dynamic property access requires type assertion
-    (user as unknown as Record<string, unknown>)[providerIdField] =
-      profile.providerId;
+    user.set(providerIdField, profile.providerId);
 
-    // If first linked provider (besides email), set as primary
-    if (!user.primaryProvider && provider !== AuthProvider.EMAIL) {
-      user.primaryProvider = provider;
+    // If first linked provider (besides email and OIDC), set as primary
+    if (!user.primaryProvider && isBuiltInOAuthProvider(provider)) {
+      user.primaryProvider = toAuthProvider(provider);
     }
 
     await user.save();
@@ -111,7 +116,7 @@ export class AccountLinkingService {
    * @returns Updated user document
    * @throws AppException if validation fails
    */
-  async unlinkProvider(userId: string, provider: AuthProvider): Promise<User> {
+  async unlinkProvider(userId: string, provider: string): Promise<User> {
     const user = await this.userModel.findById(userId).exec();
     if (!user || user.isDeleted) {
       throw new AppException(
@@ -140,18 +145,18 @@ export class AccountLinkingService {
     }
 
     // UNLINK PROVIDER
-    user.linkedProviders = user.linkedProviders.filter(
-      (p) => (p as AuthProvider) !== provider,
-    );
+    user.linkedProviders = user.linkedProviders.filter((p) => p !== provider);
 
     // Clear provider ID field
-    const providerIdField = this.getProviderIdField(provider);
-    // Dynamic property access requires type assertion
-    (user as unknown as Record<string, unknown>)[providerIdField] = undefined;
-
-    // If unlinking primary, set new primary to first remaining provider
-    if (user.primaryProvider === provider) {
-      user.primaryProvider = user.linkedProviders[0] as AuthProvider;
+    const providerIdField = this.resolveProviderIdField(provider);
+    user.set(providerIdField, undefined);
+
+    // If unlinking primary, set new primary to first remaining OAuth provider
+    if (user.primaryProvider === toAuthProvider(provider)) {
+      const nextPrimary = user.linkedProviders.find(isBuiltInOAuthProvider);
+      user.primaryProvider = nextPrimary
+        ? toAuthProvider(nextPrimary)
+        : undefined;
     }
 
     await user.save();
@@ -167,7 +172,7 @@ export class AccountLinkingService {
    * @param userId - User ID
    * @returns Array of linked providers
    */
-  async getLinkedProviders(userId: string): Promise<AuthProvider[]> {
+  async getLinkedProviders(userId: string): Promise<string[]> {
     const user = await this.userModel
       .findById(userId)
       .select('linkedProviders')
@@ -181,7 +186,7 @@ export class AccountLinkingService {
       );
     }
 
-    return user.linkedProviders as AuthProvider[];
+    return user.linkedProviders;
   }
 
   /**
@@ -191,10 +196,7 @@ export class AccountLinkingService {
    * @param provider - Provider to check
    * @returns True if provider can be unlinked
    */
-  async canUnlinkProvider(
-    userId: string,
-    provider: AuthProvider,
-  ): Promise<boolean> {
+  async canUnlinkProvider(userId: string, provider: string): Promise<boolean> {
     const user = await this.userModel
       .findById(userId)
       .select('linkedProviders')
@@ -284,17 +286,15 @@ export class AccountLinkingService {
    * Get the provider ID field name for a given provider
    *
    * @param provider - OAuth provider
-   * @returns Field name (e.g., 'googleId', 'githubId')
+   * @returns Field name (e.g., 'googleId', 'githubId', 'externalSubjects.okta')
    */
-  private getProviderIdField(provider: AuthProvider): string {
-    const fieldMap: Record<string, string> = {
-      [AuthProvider.GOOGLE]: 'googleId',
-      [AuthProvider.FACEBOOK]: 'facebookId',
-      [AuthProvider.GITHUB]: 'githubId',
-    };
-
-    const field = fieldMap[provider];
-    if (!field) {
+  private resolveProviderIdField(provider: string): string {
+    // email and oidc are reserved names, not providers with a subject ID
+    if (
+      (RESERVED_OAUTH_PROVIDER_NAMES.includes(provider) &&
+        !isBuiltInOAuthProvider(provider)) ||
+      !OAUTH_PROVIDER_NAME_PATTERN.test(provider)
+    ) {
       throw new AppException(
         ErrorCode.INVALID_OAUTH_PROVIDER,
         `Invalid OAuth provider: ${provider}`,
@@ -302,6 +302,6 @@ export class AccountLinkingService {
       );
     }
 
-    return field;
+    return getProviderIdField(provider);
   }
 }
@@ -0,0 +1,311 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import * as crypto from 'crypto';
+import { DataExportService, UserDataBundle } from './data-export.service';
+import { User } from '../schemas/user.schema';
+import { DataExport } from '../schemas/data-export.schema';
+import { Session } from '../../session/schemas/session.schema';
+import { Permission } from '../../permission/schemas/permission.schema';
+import { WebAuthnCredential } from '../../auth/schemas/webauthn-credential.schema';
+import { Membership } from '../../organization/schemas/membership.schema';
+import { Team } from '../../organization/schemas/team.schema';
+import { MailService } from '../../mail/mail.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditAction } from '../../audit/enums/audit-action.enum';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+
+interface StoredExport {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  format: 'json' | 'zip';
+  status: 'pending' | 'ready' | 'failed';
+  hashedToken: string;
+  data?: Buffer;
+  size?: number;
+  expiresAt: Date;
+  createdAt: Date;
+  save: jest.Mock;
+}
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  let stored: StoredExport | null;
+
+  const userId = new Types.ObjectId();
+  const grantedBy = new Types.ObjectId();
+  const user = {
+    _id: userId,
+    email: 'user@example.com',
+    name: 'Jane Doe',
+    roles: ['user'],
+    permissions: [],
+    status: 'active',
+    isVerified: true,
+    isDeleted: false,
+    twoFactorEnabled: false,
+    authProvider: 'email',
+    linkedProviders: ['email', 'google'],
+    googleId: 'google-123',
+    externalSubjects: new Map([['oidc:okta', 'okta-456']]),
+  };
+
+  const query = <T>(value: T) => ({
+    sort: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    populate: jest.fn().mockReturnThis(),
+    exec: jest.fn().mockResolvedValue(value),
+  });
+
+  const mockUserModel = { findById: jest.fn() };
+  const mockDataExportModel = {
+    exists: jest.fn(),
+    create: jest.fn(),
+    findOne: jest.fn(),
+    updateOne: jest.fn(),
+  };
+  const mockSessionModel = { find: jest.fn() };
+  const mockPermissionModel = { find: jest.fn() };
+  const mockWebAuthnCredentialModel = { find: jest.fn() };
+  const mockMembershipModel = { find: jest.fn() };
+  const mockTeamModel = { find: jest.fn() };
+  const mockMailService = { sendDataExportReady: jest.fn() };
+  const mockAuditService = { findUserHistory: jest.fn() };
+
+  // Let the background generation finish
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  const sentLink = () => {
+    const [, , details] = mockMailService.sendDataExportReady.mock.calls[0] as [
+      string,
+      string,
+      { link: string },
+    ];
+    return new URL(details.link);
+  };
+  const sentToken = () => sentLink().searchParams.get('token')!;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    stored = null;
+
+    mockUserModel.findById.mockReturnValue(query(user));
+    mockDataExportModel.exists.mockReturnValue(query(null));
+    mockDataExportModel.create.mockImplementation(
+      (doc: Omit<StoredExport, '_id' | 'status' | 'createdAt' | 'save'>) => {
+        stored = {
+          ...doc,
+          _id: new Types.ObjectId(),
+          status: 'pending',
+          createdAt: new Date('2026-10-01T12:00:00.000Z'),
+          save: jest.fn().mockResolvedValue(undefined),
+        };
+        return Promise.resolve(stored);
+      },
+    );
+    mockDataExportModel.findOne.mockImplementation(() => query(stored));
+    mockDataExportModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    mockSessionModel.find.mockReturnValue(
+      query([
+        {
+          _id: new Types.ObjectId(),
+          ip: '203.0.113.7',
+          userAgent: 'Mozilla/5.0',
+          device: { type: 'desktop', name: 'Chrome on macOS' },
+          refreshToken: 'secret-refresh-token',
+          isValid: true,
+        },
+      ]),
+    );
+    mockPermissionModel.find.mockReturnValue(
+      query([{ permission: 'reports:read:all', granted: true, grantedBy }]),
+    );
+    mockWebAuthnCredentialModel.find.mockReturnValue(
+      query([{ name: 'MacBook Touch ID', publicKey: 'secret-public-key' }]),
+    );
+    mockMembershipModel.find.mockReturnValue(
+      query([
+        {
+          organization: {
+            _id: new Types.ObjectId(),
+            name: 'Acme',
+            slug: 'acme',
+          },
+          role: 'admin',
+        },
+      ]),
+    );
+    mockTeamModel.find.mockReturnValue(
+      query([
+        {
+          _id: new Types.ObjectId(),
+          name: 'Platform',
+          organization: { name: 'Acme' },
+        },
+      ]),
+    );
+    mockAuditService.findUserHistory.mockResolvedValue([
+      { action: AuditAction.LOGIN, actor: { id: userId.toString() } },
+    ]);
+    mockMailService.sendDataExportReady.mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        {
+          provide: getModelToken(DataExport.name),
+          useValue: mockDataExportModel,
+        },
+        { provide: getModelToken(Session.name), useValue: mockSessionModel },
+        {
+          provide: getModelToken(Permission.name),
+          useValue: mockPermissionModel,
+        },
+        {
+          provide: getModelToken(WebAuthnCredential.name),
+          useValue: mockWebAuthnCredentialModel,
+        },
+        {
+          provide: getModelToken(Membership.name),
+          useValue: mockMembershipModel,
+        },
+        { provide: getModelToken(Team.name), useValue: mockTeamModel },
+        { provide: MailService, useValue: mockMailService },
+        { provide: AuditService, useValue: mockAuditService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'cors.clientUrl' ? 'http://app.test' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+  });
+
+  describe('requestExport', () => {
+    it('should store a JSON bundle and email a download link', async () => {
+      const result = await service.requestExport(userId.toString(), 'json');
+
+      expect(result).toMatchObject({ format: 'json', status: 'pending' });
+      await flush();
+
+      expect(stored!.status).toBe('ready');
+      const bundle = JSON.parse(stored!.data!.toString()) as UserDataBundle;
+      expect(bundle.profile).toMatchObject({ email: 'user@example.com' });
+      expect(bundle.linkedProviders.externalIds).toEqual({
+        google: 'google-123',
+        'oidc:okta': 'okta-456',
+      });
+      expect(bundle.sessions[0]).toMatchObject({ ip: '203.0.113.7' });
+      expect(bundle.permissionGrants[0]).toMatchObject({
+        permission: 'reports:read:all',
+        grantedBy: grantedBy.toString(),
+      });
+      expect(bundle.passkeys[0]).toEqual({ name: 'MacBook Touch ID' });
+      expect(bundle.organizations[0]).toMatchObject({
+        name: 'Acme',
+        slug: 'acme',
+        role: 'admin',
+      });
+      expect(bundle.teams[0]).toMatchObject({
+        name: 'Platform',
+        organization: 'Acme',
+      });
+      expect(bundle.auditHistory[0]).toMatchObject({
+        action: AuditAction.LOGIN,
+      });
+      expect(mockAuditService.findUserHistory).toHaveBeenCalledWith(userId);
+      expect(stored!.data!.toString()).not.toContain('secret-');
+
+      const link = sentLink();
+      expect(link.origin + link.pathname).toBe('http://app.test/settings');
+      expect(link.searchParams.get('export')).toBe(result.id);
+      expect(stored!.hashedToken).toBe(
+        crypto.createHash('sha256').update(sentToken()).digest('hex'),
+      );
+    });
+
+    it('should build a ZIP archive when asked', async () => {
+      await service.requestExport(userId.toString(), 'zip');
+      await flush();
+
+      expect(stored!.data!.readUInt32LE(0)).toBe(0x04034b50);
+      const data = stored!.data!.toString('latin1');
+      expect(data).toContain('sessions.json');
+      expect(data).toContain('organizations.json');
+      expect(data).toContain('teams.json');
+      expect(data).toContain('audit-history.json');
+    });
+
+    it('should reject while another export is pending', async () => {
+      mockDataExportModel.exists.mockReturnValue(
+        query({ _id: new Types.ObjectId() }),
+      );
+
+      await expect(
+        service.requestExport(userId.toString(), 'json'),
+      ).rejects.toMatchObject({ code: ErrorCode.DATA_EXPORT_IN_PROGRESS });
+      expect(mockDataExportModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should mark the export failed when generation fails', async () => {
+      mockSessionModel.find.mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockRejectedValue(new Error('boom')),
+      });
+
+      await service.requestExport(userId.toString(), 'json');
+      await flush();
+
+      expect(mockDataExportModel.updateOne).toHaveBeenCalledWith(
+        { _id: stored!._id },
+        { status: 'failed' },
+      );
+      expect(mockMailService.sendDataExportReady).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getExportFile', () => {
+    it('should return the file for the emailed token', async () => {
+      const { id } = await service.requestExport(userId.toString(), 'zip');
+      await flush();
+
+      const file = await service.getExportFile(
+        userId.toString(),
+        id,
+        sentToken(),
+      );
+
+      expect(file).toEqual({
+        fileName: 'data-export-2026-10-01.zip',
+        contentType: 'application/zip',
+        data: stored!.data,
+      });
+      expect(mockDataExportModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ hashedToken: stored!.hashedToken }),
+      );
+    });
+
+    it('should report an export that is still being generated', async () => {
+      const { id } = await service.requestExport(userId.toString(), 'json');
+
+      await expect(
+        service.getExportFile(userId.toString(), id, 'a'.repeat(64)),
+      ).rejects.toMatchObject({ code: ErrorCode.DATA_EXPORT_NOT_READY });
+      await flush();
+    });
+
+    it('should reject unknown exports', async () => {
+      await expect(
+        service.getExportFile(userId.toString(), 'not-an-id', 'a'.repeat(64)),
+      ).rejects.toMatchObject({ code: ErrorCode.DATA_EXPORT_NOT_FOUND });
+      expect(mockDataExportModel.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
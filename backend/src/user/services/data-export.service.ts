@@ -0,0 +1,377 @@
+import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { User, UserDocument } from '../schemas/user.schema';
+import {
+  DataExport,
+  DataExportDocument,
+  DataExportFormat,
+} from '../schemas/data-export.schema';
+import { Session, SessionDocument } from '../../session/schemas/session.schema';
+import {
+  Permission,
+  PermissionDocument,
+} from '../../permission/schemas/permission.schema';
+import {
+  WebAuthnCredential,
+  WebAuthnCredentialDocument,
+} from '../../auth/schemas/webauthn-credential.schema';
+import {
+  Membership,
+  MembershipDocument,
+} from '../../organization/schemas/membership.schema';
+import { OrganizationDocument } from '../../organization/schemas/organization.schema';
+import { Team, TeamDocument } from '../../organization/schemas/team.schema';
+import { MailService } from '../../mail/mail.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditLogResponseDto } from '../../audit/dto/audit-log.dto';
+import { AppException } from '../../common/exceptions/app.exception';
+import { ErrorCode } from '../../common/enums/error-code.enum';
+import { createZip } from '../../common/utils/zip';
+import { DataExportResponseDto } from '../dto/data-export.dto';
+
+/**
+ * Everything stored about a user, grouped by section.
+ * Each section becomes its own file in ZIP exports.
+ */
+export interface UserDataBundle {
+  exportedAt: string;
+  profile: Record<string, unknown>;
+  linkedProviders: Record<string, unknown>;
+  sessions: Record<string, unknown>[];
+  permissionGrants: Record<string, unknown>[];
+  passkeys: Record<string, unknown>[];
+  organizations: Record<string, unknown>[];
+  teams: Record<string, unknown>[];
+  auditHistory: AuditLogResponseDto[];
+}
+
+/**
+ * A generated export ready to be sent to the browser
+ */
+export interface DataExportFile {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Data Export Service
+ * Builds a downloadable bundle of a user's personal data in the background
+ * and emails a download link once it is ready.
+ */
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+  private readonly expiresIn: number;
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(DataExport.name)
+    private dataExportModel: Model<DataExportDocument>,
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    @InjectModel(Permission.name)
+    private permissionModel: Model<PermissionDocument>,
+    @InjectModel(WebAuthnCredential.name)
+    private webAuthnCredentialModel: Model<WebAuthnCredentialDocument>,
+    @InjectModel(Membership.name)
+    private membershipModel: Model<MembershipDocument>,
+    @InjectModel(Team.name) private teamModel: Model<TeamDocument>,
+    private readonly mailService: MailService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {
+    this.expiresIn = this.configService.get<number>(
+      'dataExport.expiresIn',
+      604800000,
+    );
+  }
+
+  /**
+   * Start generating an export of the user's data
+   * The bundle is built after this returns; the user is emailed when it is ready.
+   * @throws AppException DATA_EXPORT_IN_PROGRESS if an export is still being generated
+   */
+  async requestExport(
+    userId: string,
+    format: DataExportFormat,
+  ): Promise<DataExportResponseDto> {
+    const user = await this.userModel.findById(userId).exec();
+
+    if (!user || user.isDeleted) {
+      throw new AppException(
+        ErrorCode.USER_NOT_FOUND,
+        'User not found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    const pending = await this.dataExportModel
+      .exists({ user: user._id, status: 'pending' })
+      .exec();
+
+    if (pending) {
+      throw new AppException(
+        ErrorCode.DATA_EXPORT_IN_PROGRESS,
+        'Your previous data export is still being prepared',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const dataExport = await this.dataExportModel.create({
+      user: user._id,
+      format,
+      hashedToken: this.hashToken(token),
+      expiresAt: new Date(Date.now() + this.expiresIn),
+    });
+
+    // Runs after the response is sent; failures are recorded on the export
+    void this.generateExport(user, dataExport, token);
+
+    this.logger.log(
+      `Data export ${dataExport._id.toString()} (${format}) requested by user ${userId}`,
+    );
+
+    return this.toResponseDto(dataExport);
+  }
+
+  /**
+   * Fetch a generated export using the token from the emailed link
+   * @throws AppException DATA_EXPORT_NOT_FOUND for unknown, expired or foreign exports
+   * @throws AppException DATA_EXPORT_NOT_READY while the export is being generated
+   */
+  async getExportFile(
+    userId: string,
+    exportId: string,
+    token: string,
+  ): Promise<DataExportFile> {
+    const dataExport = Types.ObjectId.isValid(exportId)
+      ? await this.dataExportModel
+          .findOne({
+            _id: exportId,
+            user: new Types.ObjectId(userId),
+            hashedToken: this.hashToken(token),
+            expiresAt: { $gt: new Date() },
+          })
+          .select('+data')
+          .exec()
+      : null;
+
+    if (!dataExport || dataExport.status === 'failed') {
+      throw new AppException(
+        ErrorCode.DATA_EXPORT_NOT_FOUND,
+        'Data export not found or the link has expired',
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    if (dataExport.status !== 'ready' || !dataExport.data) {
+      throw new AppException(
+        ErrorCode.DATA_EXPORT_NOT_READY,
+        'Your data export is still being prepared',
+        HttpStatus.CONFLICT,
+      );
+    }
+
+    const date = dataExport.createdAt.toISOString().slice(0, 10);
+
+    return {
+      fileName: `data-export-${date}.${dataExport.format}`,
+      contentType:
+        dataExport.format === 'zip' ? 'application/zip' : 'application/json',
+      data: dataExport.data,
+    };
+  }
+
+  /**
+   * Collect everything stored about a user
+   */
+  async buildBundle(user: UserDocument): Promise<UserDataBundle> {
+    const [sessions, grants, passkeys, memberships, teams, auditHistory] =
+      await Promise.all([
+        this.sessionModel
+          .find({ user: user._id })
+          .sort({ createdAt: -1 })
+          .exec(),
+        this.permissionModel.find({ user: user._id }).exec(),
+        this.webAuthnCredentialModel.find({ user: user._id }).exec(),
+        this.membershipModel
+          .find({ user: user._id })
+          .populate<{
+            organization: OrganizationDocument | null;
+          }>('organization', 'name slug')
+          .exec(),
+        this.teamModel
+          .find({ members: user._id })
+          .populate<{
+            organization: OrganizationDocument | null;
+          }>('organization', 'name')
+          .exec(),
+        // Entries the user made and entries about the user made by others
+        this.auditService.findUserHistory(user._id),
+      ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: {
+        id: user._id.toString(),
+        email: user.email,
+        name: user.name,
+        roles: user.roles,
+        permissions: user.permissions,
+        status: user.status,
+        statusReason: user.statusReason,
+        isVerified: user.isVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      linkedProviders: {
+        authProvider: user.authProvider,
+        primaryProvider: user.primaryProvider,
+        providers: user.linkedProviders,
+        // Account IDs at each identity provider
+        externalIds: {
+          google: user.googleId,
+          facebook: user.facebookId,
+          github: user.githubId,
+          ...Object.fromEntries(user.externalSubjects ?? new Map()),
+        },
+        profileSyncedAt: user.profileSyncedAt,
+        lastSyncedProvider: user.lastSyncedProvider,
+      },
+      sessions: sessions.map((session) => ({
+        id: session._id.toString(),
+        ip: session.ip,
+        userAgent: session.userAgent,
+        device: session.device,
+        deviceName: session.deviceName,
+        isValid: session.isValid,
+        revokedReason: session.revokedReason,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        createdAt: session.createdAt,
+      })),
+      permissionGrants: grants.map((grant) => ({
+        permission: grant.permission,
+        granted: grant.granted,
+        scope: grant.scope,
+        grantedBy: grant.grantedBy?.toString(),
+        expiresAt: grant.expiresAt,
+        createdAt: grant.createdAt,
+      })),
+      passkeys: passkeys.map((passkey) => ({
+        name: passkey.name,
+        transports: passkey.transports,
+        backedUp: passkey.backedUp,
+        lastUsedAt: passkey.lastUsedAt,
+        createdAt: passkey.createdAt,
+      })),
+      organizations: memberships.map((membership) => ({
+        id: membership.organization?._id.toString(),
+        name: membership.organization?.name,
+        slug: membership.organization?.slug,
+        role: membership.role,
+        joinedAt: membership.createdAt,
+      })),
+      teams: teams.map((team) => ({
+        id: team._id.toString(),
+        name: team.name,
+        organization: team.organization?.name,
+        createdAt: team.createdAt,
+      })),
+      auditHistory,
+    };
+  }
+
+  /**
+   * Build and store the bundle, then email the download link
+   */
+  private async generateExport(
+    user: UserDocument,
+    dataExport: DataExportDocument,
+    token: string,
+  ): Promise<void> {
+    try {
+      const bundle = await this.buildBundle(user);
+      const data =
+        dataExport.format === 'zip'
+          ? this.toZip(bundle)
+          : Buffer.from(JSON.stringify(bundle, null, 2), 'utf8');
+
+      dataExport.data = data;
+      dataExport.size = data.length;
+      dataExport.status = 'ready';
+      dataExport.completedAt = new Date();
+      await dataExport.save();
+    } catch (error) {
+      this.logger.error(
+        `Failed to generate data export ${dataExport._id.toString()}`,
+        error,
+      );
+      await this.dataExportModel
+        .updateOne({ _id: dataExport._id }, { status: 'failed' })
+        .catch(() => undefined);
+      return;
+    }
+
+    const clientUrl = this.configService.get<string>(
+      'cors.clientUrl',
+      'http://localhost:3000',
+    );
+
+    // A new export can be requested if the email never arrives
+    try {
+      await this.mailService.sendDataExportReady(user.email, user.name, {
+        link: `${clientUrl}/settings?export=${dataExport._id.toString()}&token=${token}`,
+        expiresAt: dataExport.expiresAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send data export email to ${user.email}`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * One JSON file per section
+   */
+  private toZip(bundle: UserDataBundle): Buffer {
+    const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+    return createZip([
+      {
+        name: 'export.json',
+        content: json({ exportedAt: bundle.exportedAt }),
+      },
+      { name: 'profile.json', content: json(bundle.profile) },
+      { name: 'linked-providers.json', content: json(bundle.linkedProviders) },
+      { name: 'sessions.json', content: json(bundle.sessions) },
+      {
+        name: 'permission-grants.json',
+        content: json(bundle.permissionGrants),
+      },
+      { name: 'passkeys.json', content: json(bundle.passkeys) },
+      { name: 'organizations.json', content: json(bundle.organizations) },
+      { name: 'teams.json', content: json(bundle.teams) },
+      { name: 'audit-history.json', content: json(bundle.auditHistory) },
+    ]);
+  }
+
+  private toResponseDto(dataExport: DataExportDocument): DataExportResponseDto {
+    return {
+      id: dataExport._id.toString(),
+      format: dataExport.format,
+      status: dataExport.status,
+      expiresAt: dataExport.expiresAt,
+    };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -10,17 +10,24 @@ import {
   HttpCode,
   HttpStatus,
   Req,
+  Res,
+  Query,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiBody,
   ApiParam,
+  ApiQuery,
   ApiBearerAuth,
 } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { Response } from 'express';
 import { UserService } from './user.service';
 import { AuthGuard, RequestWithUser } from '../auth/guards/auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { RequestAuditContext } from '../audit/decorators/audit-context.decorator';
+import { AuditContext } from '../audit/interfaces/audit.interface';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { UserProfileDto, SessionListData } from './dto/user-profile.dto';
@@ -33,7 +40,20 @@ import { ApiResponse } from '../common/dto/api-response.dto';
 import { AccountLinkingService } from './services/account-linking.service';
 import { ProfileSyncService } from './services/profile-sync.service';
 import { OAuthService, OAuthProvider } from '../auth/services/oauth.service';
+import { TwoFactorService } from '../auth/services/two-factor.service';
+import {
+  TwoFactorCodeDto,
+  TwoFactorSetupResponseDto,
+  TwoFactorRecoveryCodesResponseDto,
+  TwoFactorRecoveryStatusDto,
+} from './dto/two-factor.dto';
 import { AuthProvider } from './enums/auth-provider.enum';
+import { DataExportService } from './services/data-export.service';
+import {
+  DataExportQueryDto,
+  DownloadDataExportQueryDto,
+  DataExportResponseDto,
+} from './dto/data-export.dto';
 
 /**
  * User controller for self-service operations.
@@ -49,6 +69,8 @@ export class UserController {
     private readonly accountLinkingService: AccountLinkingService,
     private readonly oauthService: OAuthService,
     private readonly profileSyncService: ProfileSyncService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly dataExportService: DataExportService,
   ) {}
 
   /**
@@ -111,6 +133,120 @@ export class UserController {
     return this.userService.changePassword(userId, dto, currentSessionToken);
   }
 
+  /**
+   * Start two-factor enrolment.
+   * Generates a pending TOTP secret for the authenticator app.
+   *
+   * @example POST /user/2fa/setup
+   */
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start 2FA setup',
+    description:
+      'Generates a TOTP secret and otpauth URI for an authenticator app. ' +
+      '2FA is not enabled until the setup is verified with a code. ' +
+      'Only available for email/password accounts.',
+  })
+  async setupTwoFactor(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponse<TwoFactorSetupResponseDto>> {
+    const setup = await this.twoFactorService.beginSetup(userId);
+    return ApiResponse.success(setup);
+  }
+
+  /**
+   * Confirm two-factor enrolment.
+   *
+   * @example POST /user/2fa/verify
+   */
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Verify 2FA setup',
+    description:
+      'Confirms enrolment with a code from the authenticator app and enables 2FA. ' +
+      'Returns single-use recovery codes, which are only shown once.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  async verifyTwoFactor(
+    @CurrentUser('id') userId: string,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<ApiResponse<TwoFactorRecoveryCodesResponseDto>> {
+    const recoveryCodes = await this.twoFactorService.confirmSetup(
+      userId,
+      dto.code,
+    );
+    return ApiResponse.success(
+      { recoveryCodes },
+      'Two-factor authentication enabled',
+    );
+  }
+
+  /**
+   * Get the number of unused 2FA recovery codes.
+   *
+   * @example GET /user/2fa/recovery-codes
+   */
+  @Get('2fa/recovery-codes')
+  @ApiOperation({
+    summary: 'Get recovery code status',
+    description: 'Returns how many unused recovery codes the user has left.',
+  })
+  async getRecoveryCodeStatus(
+    @CurrentUser('id') userId: string,
+  ): Promise<ApiResponse<TwoFactorRecoveryStatusDto>> {
+    const remaining =
+      await this.twoFactorService.getRemainingRecoveryCodes(userId);
+    return ApiResponse.success({ remaining });
+  }
+
+  /**
+   * Regenerate 2FA recovery codes.
+   *
+   * @example POST /user/2fa/recovery-codes
+   */
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description:
+      'Replaces all recovery codes with a new set. Requires a current authenticator code. ' +
+      'Previously issued codes stop working.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  async regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<ApiResponse<TwoFactorRecoveryCodesResponseDto>> {
+    const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(
+      userId,
+      dto.code,
+    );
+    return ApiResponse.success({ recoveryCodes }, 'Recovery codes regenerated');
+  }
+
+  /**
+   * Disable two-factor authentication.
+   *
+   * @example POST /user/2fa/disable
+   */
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Disable 2FA',
+    description:
+      'Disables two-factor authentication. Requires a current authenticator code.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  async disableTwoFactor(
+    @CurrentUser('id') userId: string,
+    @Body() dto: TwoFactorCodeDto,
+  ): Promise<ApiResponse<UserProfileDto>> {
+    await this.twoFactorService.disable(userId, dto.code);
+    return this.userService.getProfile(userId);
+  }
+
   /**
    * Get all active sessions for current user.
    *
@@ -153,6 +289,7 @@ export class UserController {
     @CurrentUser('id') userId: string,
     @Param('sessionId') sessionId: string,
     @Req() request: RequestWithUser,
+    @RequestAuditContext() auditContext: AuditContext,
   ): Promise<ApiResponse<{ message: string }>> {
     const cookieName = process.env.SESSION_COOKIE_NAME || 'sid';
     const currentSessionToken = request.cookies?.[cookieName] as string;
@@ -160,6 +297,7 @@ export class UserController {
       userId,
       sessionId,
       currentSessionToken,
+      auditContext,
     );
   }
 
@@ -178,10 +316,15 @@ export class UserController {
   async revokeAllOtherSessions(
     @CurrentUser('id') userId: string,
     @Req() request: RequestWithUser,
+    @RequestAuditContext() auditContext: AuditContext,
   ): Promise<ApiResponse<{ revokedCount: number }>> {
     const cookieName = process.env.SESSION_COOKIE_NAME || 'sid';
     const currentSessionToken = request.cookies?.[cookieName] as string;
-    return this.userService.revokeAllOtherSessions(userId, currentSessionToken);
+    return this.userService.revokeAllOtherSessions(
+      userId,
+      currentSessionToken,
+      auditContext,
+    );
   }
 
   /**
@@ -208,7 +351,7 @@ export class UserController {
       .exec();
 
     return ApiResponse.success({
-      providers: providers as string[],
+      providers,
       primaryProvider: user?.primaryProvider,
     });
   }
@@ -223,28 +366,26 @@ export class UserController {
   @ApiOperation({
     summary: 'Link OAuth provider',
     description:
-      'Links a new OAuth provider (Google, Facebook, GitHub) to the authenticated user account. ' +
+      'Links a new OAuth provider (Google, Facebook, GitHub or a configured OIDC provider) to the authenticated user account. ' +
       'The email from the OAuth provider must match the user account email.',
   })
   @ApiBody({ type: LinkProviderDto })
   async linkProvider(
     @CurrentUser('id') userId: string,
     @Body() dto: LinkProviderDto,
+    @Res({ passthrough: true }) response: Response,
   ): Promise<ApiResponse<UserProfileDto>> {
     // Get OAuth user profile using the provider code
-    // AuthProvider and OAuthProvider use same lowercase values for OAuth providers
+    const provider: OAuthProvider = dto.provider.toLowerCase();
     const profile = await this.oauthService.getUserProfile(
-      dto.provider.toLowerCase() as OAuthProvider,
+      provider,
       dto.code,
       dto.state,
+      response,
     );
 
     // Link the provider to user account
-    await this.accountLinkingService.linkProvider(
-      userId,
-      dto.provider,
-      profile,
-    );
+    await this.accountLinkingService.linkProvider(userId, provider, profile);
 
     // Return updated user profile
     return this.userService.getProfile(userId);
@@ -266,18 +407,17 @@ export class UserController {
   @ApiParam({
     name: 'provider',
     description: 'OAuth provider to unlink',
-    enum: ['GOOGLE', 'FACEBOOK', 'GITHUB'],
     example: 'GITHUB',
   })
   async unlinkProvider(
     @CurrentUser('id') userId: string,
     @Param('provider') provider: string,
   ): Promise<ApiResponse<UserProfileDto>> {
-    // Convert string to AuthProvider enum (provider comes as uppercase from route)
-    const authProvider = provider.toLowerCase() as AuthProvider;
-
-    // Unlink the provider
-    await this.accountLinkingService.unlinkProvider(userId, authProvider);
+    // Provider may come as uppercase from route
+    await this.accountLinkingService.unlinkProvider(
+      userId,
+      provider.toLowerCase(),
+    );
 
     // Return updated user profile
     return this.userService.getProfile(userId);
@@ -357,6 +497,75 @@ export class UserController {
     return ApiResponse.success(syncInstructions);
   }
 
+  /**
+   * Request an export of everything stored about the current user.
+   *
+   * @example GET /user/export?format=zip
+   */
+  @Get('export')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Throttle({ default: { limit: 3, ttl: 3600000 } })
+  @ApiOperation({
+    summary: 'Export my data',
+    description:
+      'Starts generating a bundle of the profile, linked providers, sessions with IP and device, ' +
+      'permission grants, passkeys, organization memberships, teams and audit history. The user is emailed a download link once it is ready; ' +
+      'the link works until DATA_EXPORT_EXPIRES_IN passes.',
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'zip'] })
+  async requestDataExport(
+    @CurrentUser('id') userId: string,
+    @Query() query: DataExportQueryDto,
+  ): Promise<ApiResponse<DataExportResponseDto>> {
+    const dataExport = await this.dataExportService.requestExport(
+      userId,
+      query.format,
+    );
+    return ApiResponse.success(
+      dataExport,
+      'Your data export is being prepared. We will email you a download link.',
+    );
+  }
+
+  /**
+   * Download a generated data export.
+   *
+   * @example GET /user/export/:exportId/download?token=...
+   */
+  @Get('export/:exportId/download')
+  @ApiOperation({
+    summary: 'Download my data export',
+    description:
+      'Returns the export file as an attachment. Requires the token from the export email ' +
+      'and the session of the user who requested it.',
+  })
+  @ApiParam({
+    name: 'exportId',
+    description: 'Export ID from the download link',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiQuery({ name: 'token', required: true })
+  async downloadDataExport(
+    @CurrentUser('id') userId: string,
+    @Param('exportId') exportId: string,
+    @Query() query: DownloadDataExportQueryDto,
+    @Res() response: Response,
+  ) {
+    const file = await this.dataExportService.getExportFile(
+      userId,
+      exportId,
+      query.token,
+    );
+
+    response.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+      'Content-Length': file.data.length.toString(),
+      'Cache-Control': 'no-store',
+    });
+    return response.status(HttpStatus.OK).send(file.data);
+  }
+
   /**
    * Deactivate (soft delete) current user's account.
    *
@@ -3,12 +3,68 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { UserController } from './user.controller';
 import { UserService } from './user.service';
 import { User, UserSchema } from './schemas/user.schema';
+import { DataExport, DataExportSchema } from './schemas/data-export.schema';
+import {
+  ErasureTombstone,
+  ErasureTombstoneSchema,
+} from './schemas/erasure-tombstone.schema';
 import { Session, SessionSchema } from '../session/schemas/session.schema';
 import { Role, RoleSchema } from '../role/schemas/role.schema';
+import {
+  Permission,
+  PermissionSchema,
+} from '../permission/schemas/permission.schema';
+import {
+  WebAuthnCredential,
+  WebAuthnCredentialSchema,
+} from '../auth/schemas/webauthn-credential.schema';
+import {
+  PendingTwoFactorLogin,
+  PendingTwoFactorLoginSchema,
+} from '../auth/schemas/pending-two-factor-login.schema';
+import {
+  PendingWebAuthnChallenge,
+  PendingWebAuthnChallengeSchema,
+} from '../auth/schemas/pending-webauthn-challenge.schema';
+import {
+  PendingRegistration,
+  PendingRegistrationSchema,
+} from '../auth/schemas/pending-registration.schema';
+import {
+  PendingPasswordReset,
+  PendingPasswordResetSchema,
+} from '../auth/schemas/pending-password-reset.schema';
+import {
+  PendingPasswordlessLogin,
+  PendingPasswordlessLoginSchema,
+} from '../auth/schemas/pending-passwordless-login.schema';
+import {
+  PendingReactivation,
+  PendingReactivationSchema,
+} from '../auth/schemas/pending-reactivation.schema';
+import {
+  LoginAttempt,
+  LoginAttemptSchema,
+} from '../auth/schemas/login-attempt.schema';
+import {
+  Membership,
+  MembershipSchema,
+} from '../organization/schemas/membership.schema';
+import {
+  OrganizationInvite,
+  OrganizationInviteSchema,
+} from '../organization/schemas/organization-invite.schema';
+import { Team, TeamSchema } from '../organization/schemas/team.schema';
 import { SessionService } from '../auth/services/session.service';
+import { MailModule } from '../mail/mail.module';
+import { AuditModule } from '../audit/audit.module';
 import { AccountLinkingService } from './services/account-linking.service';
 import { ProfileSyncService } from './services/profile-sync.service';
+import { AccountDeletionService } from './services/account-deletion.service';
+import { AccountErasureService } from './services/account-erasure.service';
+import { DataExportService } from './services/data-export.service';
 import { AuthModule } from '../auth/auth.module';
+import { PermissionModule } from '../permission/permission.module';
 
 @Module({
   imports: [
@@ -16,8 +72,35 @@ import { AuthModule } from '../auth/auth.module';
       { name: User.name, schema: UserSchema },
       { name: Session.name, schema: SessionSchema },
       { name: Role.name, schema: RoleSchema },
+      { name: DataExport.name, schema: DataExportSchema },
+      // Everything the erasure pipeline clears for a user
+      { name: ErasureTombstone.name, schema: ErasureTombstoneSchema },
+      { name: Permission.name, schema: PermissionSchema },
+      { name: WebAuthnCredential.name, schema: WebAuthnCredentialSchema },
+      {
+        name: PendingTwoFactorLogin.name,
+        schema: PendingTwoFactorLoginSchema,
+      },
+      {
+        name: PendingWebAuthnChallenge.name,
+        schema: PendingWebAuthnChallengeSchema,
+      },
+      { name: PendingRegistration.name, schema: PendingRegistrationSchema },
+      { name: PendingPasswordReset.name, schema: PendingPasswordResetSchema },
+      {
+        name: PendingPasswordlessLogin.name,
+        schema: PendingPasswordlessLoginSchema,
+      },
+      { name: PendingReactivation.name, schema: PendingReactivationSchema },
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
+      { name: Membership.name, schema: MembershipSchema },
+      { name: OrganizationInvite.name, schema: OrganizationInviteSchema },
+      { name: Team.name, schema: TeamSchema },
     ]),
     forwardRef(() => AuthModule),
+    MailModule,
+    AuditModule,
+    PermissionModule,
   ],
   controllers: [UserController],
   providers: [
@@ -25,7 +108,10 @@ import { AuthModule } from '../auth/auth.module';
     SessionService,
     AccountLinkingService,
     ProfileSyncService,
+    AccountDeletionService,
+    AccountErasureService,
+    DataExportService,
   ],
-  exports: [MongooseModule, UserService],
+  exports: [MongooseModule, UserService, AccountErasureService],
 })
 export class UserModule {}
@@ -1,11 +1,17 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { getModelToken } from '@nestjs/mongoose';
 import { Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
 import { UserService } from './user.service';
 import { User } from './schemas/user.schema';
 import { UserRole } from './enums/user-role.enum';
+import { AccountStatus } from './enums/account-status.enum';
 import { SessionService } from '../auth/services/session.service';
+import { MailService } from '../mail/mail.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import { PermissionService } from '../permission/permission.service';
 import { AppException } from '../common/exceptions/app.exception';
 import { ErrorCode } from '../common/enums/error-code.enum';
 
@@ -22,7 +28,7 @@ describe('UserService', () => {
     _id: new Types.ObjectId(mockUserId),
     email: 'user@example.com',
     name: 'Test User',
-    role: UserRole.USER,
+    roles: [UserRole.USER],
     password: 'hashedPassword',
     isVerified: true,
     isDeleted: false,
@@ -56,6 +62,32 @@ describe('UserService', () => {
     invalidateSessionById: jest.fn().mockResolvedValue(true),
   };
 
+  const mockMailService = {
+    sendAccountDeactivated: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockAuditService = {
+    record: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockPermissionService = {
+    getEffectivePermissions: jest.fn().mockResolvedValue([]),
+    getActiveMembership: jest.fn().mockResolvedValue(null),
+    getRoleLevel: jest.fn().mockResolvedValue(1),
+    getRolePermissions: jest.fn().mockResolvedValue([]),
+    getActiveOverrides: jest.fn().mockResolvedValue([]),
+    grant: jest.fn().mockResolvedValue(undefined),
+    deny: jest.fn().mockResolvedValue(undefined),
+    revoke: jest.fn().mockResolvedValue(true),
+    removeDenial: jest.fn().mockResolvedValue(true),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'accountDeletion.gracePeriod' ? 86400000 : defaultValue,
+    ),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -68,6 +100,22 @@ describe('UserService', () => {
           provide: SessionService,
           useValue: mockSessionService,
         },
+        {
+          provide: MailService,
+          useValue: mockMailService,
+        },
+        {
+          provide: AuditService,
+          useValue: mockAuditService,
+        },
+        {
+          provide: PermissionService,
+          useValue: mockPermissionService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
       ],
     }).compile();
 
@@ -304,6 +352,7 @@ describe('UserService', () => {
     it('should deactivate account', async () => {
       const userToDeactivate = {
         ...mockUser,
+        status: AccountStatus.ACTIVE,
         save: jest.fn().mockResolvedValue(true),
       };
       mockUserModel.findById.mockReturnValue({
@@ -313,10 +362,60 @@ describe('UserService', () => {
       const result = await service.deactivateAccount(mockUserId);
 
       expect(result.success).toBe(true);
+      expect(userToDeactivate.status).toBe(AccountStatus.DEACTIVATED);
+      expect(userToDeactivate.isDeleted).toBe(true);
       expect(userToDeactivate.save).toHaveBeenCalled();
       expect(mockSessionService.invalidateAllSessions).toHaveBeenCalled();
     });
 
+    it('should schedule deletion and email a reactivation link', async () => {
+      const userToDeactivate = {
+        ...mockUser,
+        status: AccountStatus.ACTIVE,
+        scheduledDeletionAt: undefined as Date | undefined,
+        save: jest.fn().mockResolvedValue(true),
+      };
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(userToDeactivate),
+      });
+      const before = Date.now();
+
+      await service.deactivateAccount(mockUserId);
+
+      expect(
+        userToDeactivate.scheduledDeletionAt!.getTime() - before,
+      ).toBeGreaterThanOrEqual(86400000);
+      expect(mockMailService.sendAccountDeactivated).toHaveBeenCalledWith(
+        mockUser.email,
+        mockUser.name,
+        {
+          link: expect.stringContaining(
+            '/auth/reactivate?email=user%40example.com',
+          ) as string,
+          deleteAt: userToDeactivate.scheduledDeletionAt,
+        },
+      );
+    });
+
+    it('should still deactivate when the email cannot be sent', async () => {
+      const userToDeactivate = {
+        ...mockUser,
+        status: AccountStatus.ACTIVE,
+        save: jest.fn().mockResolvedValue(true),
+      };
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(userToDeactivate),
+      });
+      mockMailService.sendAccountDeactivated.mockRejectedValueOnce(
+        new Error('SMTP down'),
+      );
+
+      const result = await service.deactivateAccount(mockUserId);
+
+      expect(result.success).toBe(true);
+      expect(userToDeactivate.status).toBe(AccountStatus.DEACTIVATED);
+    });
+
     it('should throw error if user not found', async () => {
       mockUserModel.findById.mockReturnValue({
         exec: jest.fn().mockResolvedValue(null),
@@ -327,4 +426,216 @@ describe('UserService', () => {
       );
     });
   });
+
+  describe('permissions', () => {
+    const adminId = new Types.ObjectId().toString();
+    const grant = (permission: string, expiresAt?: Date, granted = true) => ({
+      permission,
+      granted,
+      grantedBy: {
+        _id: new Types.ObjectId(adminId),
+        name: 'Admin',
+        email: 'admin@example.com',
+      },
+      updatedAt: new Date('2026-10-01T12:00:00.000Z'),
+      expiresAt,
+    });
+
+    let target: typeof mockUser & { permissions: string[] };
+
+    beforeEach(() => {
+      target = {
+        ...mockUser,
+        permissions: ['reports:read:all'],
+        save: jest.fn().mockResolvedValue(true),
+      };
+      mockUserModel.findById.mockReturnValue({
+        exec: jest.fn().mockResolvedValue(target),
+      });
+      mockPermissionService.getActiveOverrides.mockResolvedValue([]);
+    });
+
+    it('should list stored permissions and active grants with their grantor', async () => {
+      const expiresAt = new Date(Date.now() + 86400000);
+      mockPermissionService.getActiveOverrides.mockResolvedValue([
+        grant('users:read:all', expiresAt),
+      ]);
+
+      const result = await service.getUserPermissions(mockUserId);
+
+      expect(result.data?.permissions).toEqual([
+        'reports:read:all',
+        'users:read:all',
+      ]);
+      expect(result.data?.denied).toEqual([]);
+      expect(result.data?.grants).toEqual([
+        {
+          permission: 'users:read:all',
+          grantedBy: { id: adminId, name: 'Admin', email: 'admin@example.com' },
+          grantedAt: new Date('2026-10-01T12:00:00.000Z'),
+          expiresAt,
+        },
+      ]);
+    });
+
+    it('should include the permissions of all of the user roles', async () => {
+      mockPermissionService.getRolePermissions.mockResolvedValue([
+        'users:read:all',
+        'billing:read:all',
+      ]);
+
+      const result = await service.getUserPermissions(mockUserId);
+
+      expect(mockPermissionService.getRolePermissions).toHaveBeenCalledWith(
+        target.roles,
+      );
+      expect(result.data?.rolePermissions).toEqual([
+        'users:read:all',
+        'billing:read:all',
+      ]);
+    });
+
+    it('should store a grant with its grantor and expiry', async () => {
+      const expiresAt = new Date(Date.now() + 86400000);
+
+      const result = await service.addPermission(
+        mockUserId,
+        'users:read:all',
+        expiresAt,
+        { actorId: adminId },
+      );
+
+      expect(mockPermissionService.grant).toHaveBeenCalledWith(
+        target._id,
+        'users:read:all',
+        { grantedBy: adminId, expiresAt },
+      );
+      expect(target.save).not.toHaveBeenCalled();
+      expect(result.data?.permissions).toEqual([
+        'reports:read:all',
+        'users:read:all',
+      ]);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.addPermission(
+          mockUserId,
+          'users:read:all',
+          new Date(Date.now() - 1000),
+        ),
+      ).rejects.toMatchObject({ code: ErrorCode.INVALID_PERMISSION_EXPIRY });
+      expect(mockPermissionService.grant).not.toHaveBeenCalled();
+    });
+
+    it('should reject a permission that is already granted', async () => {
+      mockPermissionService.getActiveOverrides.mockResolvedValue([
+        grant('users:read:all'),
+      ]);
+
+      await expect(
+        service.addPermission(mockUserId, 'users:read:all'),
+      ).rejects.toMatchObject({ code: ErrorCode.PERMISSION_ALREADY_EXISTS });
+    });
+
+    it('should revoke a grant', async () => {
+      mockPermissionService.getActiveOverrides.mockResolvedValue([
+        grant('users:read:all'),
+      ]);
+
+      const result = await service.removePermission(
+        mockUserId,
+        'users:read:all',
+      );
+
+      expect(mockPermissionService.revoke).toHaveBeenCalledWith(
+        target._id,
+        'users:read:all',
+      );
+      expect(target.save).not.toHaveBeenCalled();
+      expect(result.data?.permissions).toEqual(['reports:read:all']);
+    });
+
+    it('should remove a permission stored on the user', async () => {
+      await service.removePermission(mockUserId, 'reports:read:all');
+
+      expect(target.permissions).toEqual([]);
+      expect(target.save).toHaveBeenCalled();
+    });
+
+    it('should list denials separately from grants', async () => {
+      mockPermissionService.getActiveOverrides.mockResolvedValue([
+        grant('users:read:all'),
+        grant('users:delete:all', undefined, false),
+      ]);
+
+      const result = await service.getUserPermissions(mockUserId);
+
+      expect(result.data?.permissions).toEqual([
+        'reports:read:all',
+        'users:read:all',
+      ]);
+      expect(result.data?.denied).toEqual(['users:delete:all']);
+      expect(result.data?.denials).toEqual([
+        expect.objectContaining({ permission: 'users:delete:all' }),
+      ]);
+    });
+
+    it('should store a denial with its author and expiry', async () => {
+      const expiresAt = new Date(Date.now() + 86400000);
+
+      const result = await service.denyPermission(
+        mockUserId,
+        'users:delete:all',
+        expiresAt,
+        { actorId: adminId },
+      );
+
+      expect(mockPermissionService.deny).toHaveBeenCalledWith(
+        target._id,
+        'users:delete:all',
+        { grantedBy: adminId, expiresAt },
+      );
+      expect(result.data?.denied).toEqual(['users:delete:all']);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: AuditAction.PERMISSION_DENIED }),
+      );
+    });
+
+    it('should not deny the wildcard', async () => {
+      await expect(
+        service.denyPermission(mockUserId, '*'),
+      ).rejects.toMatchObject({ code: ErrorCode.INVALID_PERMISSION_FORMAT });
+      expect(mockPermissionService.deny).not.toHaveBeenCalled();
+    });
+
+    it('should reject a permission that is already denied', async () => {
+      mockPermissionService.getActiveOverrides.mockResolvedValue([
+        grant('users:delete:all', undefined, false),
+      ]);
+
+      await expect(
+        service.denyPermission(mockUserId, 'users:delete:all'),
+      ).rejects.toMatchObject({ code: ErrorCode.PERMISSION_ALREADY_DENIED });
+    });
+
+    it('should lift a denial', async () => {
+      const result = await service.removeDenial(mockUserId, 'users:delete:all');
+
+      expect(mockPermissionService.removeDenial).toHaveBeenCalledWith(
+        target._id,
+        'users:delete:all',
+      );
+      expect(result.data?.denied).toEqual([]);
+    });
+
+    it('should report a missing denial', async () => {
+      mockPermissionService.removeDenial.mockResolvedValueOnce(false);
+
+      await expect(
+        service.removeDenial(mockUserId, 'users:delete:all'),
+      ).rejects.toMatchObject({ code: ErrorCode.PERMISSION_NOT_FOUND });
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,10 +1,17 @@
 import { Injectable, Logger, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import * as bcrypt from 'bcrypt';
 import { User, UserDocument } from './schemas/user.schema';
-import { Role, RoleDocument } from '../role/schemas/role.schema';
+import { PermissionService } from '../permission/permission.service';
+import { PermissionDocument } from '../permission/schemas/permission.schema';
 import { SessionService } from '../auth/services/session.service';
+import { MailService } from '../mail/mail.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditTargetType } from '../audit/enums/audit-action.enum';
+import { AuditContext } from '../audit/interfaces/audit.interface';
+import { diffChanges } from '../audit/utils/audit-diff';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import {
@@ -12,9 +19,17 @@ import {
   SessionDto,
   SessionListData,
 } from './dto/user-profile.dto';
+import {
+  PermissionGrantDto,
+  UserPermissionsResponseDto,
+} from './dto/user-permissions-response.dto';
 import { AppException } from '../common/exceptions/app.exception';
 import { ErrorCode } from '../common/enums/error-code.enum';
+import { setAccountStatus } from '../common/utils/account-status';
+import { AccountStatus } from './enums/account-status.enum';
 import { ApiResponse } from '../common/dto/api-response.dto';
+import { WILDCARD_PERMISSION } from '../common/constants/permissions';
+import { isValidPermission } from '../common/utils/permission.utils';
 
 /**
  * User service for self-service operations.
@@ -27,8 +42,11 @@ export class UserService {
 
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
-    @InjectModel(Role.name) private roleModel: Model<RoleDocument>,
     private readonly sessionService: SessionService,
+    private readonly mailService: MailService,
+    private readonly auditService: AuditService,
+    private readonly permissionService: PermissionService,
+    private readonly configService: ConfigService,
   ) {}
 
   /**
@@ -234,6 +252,7 @@ export class UserService {
     userId: string,
     sessionId: string,
     currentSessionToken: string,
+    context?: AuditContext,
   ): Promise<ApiResponse<{ message: string }>> {
     // Validate ObjectId formats
     if (!Types.ObjectId.isValid(userId)) {
@@ -278,6 +297,14 @@ export class UserService {
     }
 
     this.logger.log(`Session ${sessionId} revoked for user: ${userId}`);
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.SESSION_REVOKED,
+      targetType: AuditTargetType.SESSION,
+      targetId: sessionId,
+      targetUser: userId,
+    });
     return ApiResponse.success({ message: 'Session revoked successfully' });
   }
 
@@ -287,6 +314,7 @@ export class UserService {
   async revokeAllOtherSessions(
     userId: string,
     currentSessionToken: string,
+    context?: AuditContext,
   ): Promise<ApiResponse<{ revokedCount: number }>> {
     // Validate ObjectId format
     if (!Types.ObjectId.isValid(userId)) {
@@ -303,6 +331,15 @@ export class UserService {
     );
 
     this.logger.log(`Revoked ${revokedCount} sessions for user: ${userId}`);
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.SESSIONS_REVOKED,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      targetUser: userId,
+      metadata: { revokedCount },
+    });
     return ApiResponse.success({
       revokedCount,
     });
@@ -324,15 +361,40 @@ export class UserService {
       );
     }
 
-    // Soft delete
-    user.isDeleted = true;
-    user.deletedAt = new Date();
+    // Soft delete; the account can be reactivated until the grace period ends
+    const gracePeriod = this.configService.get<number>(
+      'accountDeletion.gracePeriod',
+      2592000000,
+    );
+    const deleteAt = new Date(Date.now() + gracePeriod);
+    setAccountStatus(user, AccountStatus.DEACTIVATED);
+    user.scheduledDeletionAt = deleteAt;
     await user.save();
 
     // Invalidate all sessions
     await this.sessionService.invalidateAllSessions(new Types.ObjectId(userId));
 
-    this.logger.log(`Account deactivated for user: ${user.email}`);
+    const clientUrl = this.configService.get<string>(
+      'cors.clientUrl',
+      'http://localhost:3000',
+    );
+
+    // The account stays deactivated if the confirmation cannot be sent
+    try {
+      await this.mailService.sendAccountDeactivated(user.email, user.name, {
+        link: `${clientUrl}/auth/reactivate?email=${encodeURIComponent(user.email)}`,
+        deleteAt,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send account deactivated email to ${user.email}`,
+        error,
+      );
+    }
+
+    this.logger.log(
+      `Account deactivated for user: ${user.email}, deletion scheduled for ${deleteAt.toISOString()}`,
+    );
     return ApiResponse.success({
       message: 'Account deactivated successfully',
     });
@@ -343,94 +405,257 @@ export class UserService {
    */
   async getUserPermissions(
     userId: string,
-  ): Promise<
-    ApiResponse<{ userId: string; permissions: string[]; role: string }>
-  > {
-    // Validate ObjectId format
-    if (!Types.ObjectId.isValid(userId)) {
+  ): Promise<ApiResponse<UserPermissionsResponseDto>> {
+    const user = await this.findPermissionTarget(userId);
+    const [overrides, rolePermissions] = await Promise.all([
+      this.permissionService.getActiveOverrides(user._id),
+      this.permissionService.getRolePermissions(user.roles),
+    ]);
+
+    return ApiResponse.success({
+      userId: user._id.toString(),
+      permissions: this.getDirectPermissions(user, overrides),
+      denied: this.getDeniedPermissions(overrides),
+      role: user.roles[0],
+      roles: user.roles,
+      rolePermissions,
+      grants: overrides
+        .filter((override) => override.granted)
+        .map((grant) => this.mapToGrantDto(grant)),
+      denials: overrides
+        .filter((override) => !override.granted)
+        .map((denial) => this.mapToGrantDto(denial)),
+    });
+  }
+
+  /**
+   * Grant a permission to a user, optionally until a given time.
+   * The grant is stored as a Permission document and removed automatically once it expires.
+   */
+  async addPermission(
+    userId: string,
+    permission: string,
+    expiresAt?: Date,
+    context?: AuditContext,
+  ): Promise<ApiResponse<{ userId: string; permissions: string[] }>> {
+    this.assertFutureExpiry(expiresAt);
+
+    const user = await this.findPermissionTarget(userId);
+    const overrides = await this.permissionService.getActiveOverrides(user._id);
+    const previousPermissions = this.getDirectPermissions(user, overrides);
+
+    // Check if permission already exists
+    if (previousPermissions.includes(permission)) {
       throw new AppException(
-        ErrorCode.INVALID_INPUT,
-        'Invalid user ID format',
+        ErrorCode.PERMISSION_ALREADY_EXISTS,
+        'User already has this permission',
         HttpStatus.BAD_REQUEST,
       );
     }
 
-    const user = await this.userModel
-      .findById(userId)
-      .select('permissions role')
-      .exec();
+    // A grant replaces any denial of the same permission
+    const wasDenied = this.getDeniedPermissions(overrides).includes(permission);
+    await this.permissionService.grant(user._id, permission, {
+      grantedBy: context?.actorId,
+      expiresAt,
+    });
+    const permissions = [...previousPermissions, permission];
 
-    if (!user || user.isDeleted) {
+    this.logger.log(
+      `Permission ${permission} granted to user: ${user.email}${
+        expiresAt ? ` until ${expiresAt.toISOString()}` : ''
+      }`,
+    );
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.PERMISSION_GRANTED,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      targetUser: userId,
+      changes: diffChanges(
+        { permissions: previousPermissions },
+        { permissions },
+      ),
+      metadata: { permission, expiresAt, replacedDenial: wasDenied },
+    });
+    return ApiResponse.success(
+      {
+        userId: user._id.toString(),
+        permissions,
+      },
+      'Permission added successfully',
+    );
+  }
+
+  /**
+   * Remove permission from user.
+   * Revokes the grant, or removes the permission from those stored on the user.
+   */
+  async removePermission(
+    userId: string,
+    permission: string,
+    context?: AuditContext,
+  ): Promise<ApiResponse<{ userId: string; permissions: string[] }>> {
+    const user = await this.findPermissionTarget(userId);
+    const overrides = await this.permissionService.getActiveOverrides(user._id);
+    const previousPermissions = this.getDirectPermissions(user, overrides);
+
+    // Check if permission exists
+    if (!previousPermissions.includes(permission)) {
       throw new AppException(
-        ErrorCode.USER_NOT_FOUND,
-        'User not found',
+        ErrorCode.PERMISSION_NOT_FOUND,
+        'User does not have this permission',
         HttpStatus.NOT_FOUND,
       );
     }
 
-    return ApiResponse.success({
-      userId: user._id.toString(),
-      permissions: user.permissions || [],
-      role: user.role,
+    // Remove permission
+    await this.permissionService.revoke(user._id, permission);
+    if (user.permissions.includes(permission)) {
+      user.permissions = user.permissions.filter((p) => p !== permission);
+      await user.save();
+    }
+    const permissions = previousPermissions.filter((p) => p !== permission);
+
+    this.logger.log(
+      `Permission ${permission} removed from user: ${user.email}`,
+    );
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.PERMISSION_REVOKED,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      targetUser: userId,
+      changes: diffChanges(
+        { permissions: previousPermissions },
+        { permissions },
+      ),
+      metadata: { permission },
     });
+    return ApiResponse.success(
+      {
+        userId: user._id.toString(),
+        permissions,
+      },
+      'Permission removed successfully',
+    );
   }
 
   /**
-   * Add permission to user.
+   * Deny a permission to a user, optionally until a given time.
+   * Denials override the user's role and direct permissions, including the wildcard (*).
    */
-  async addPermission(
+  async denyPermission(
     userId: string,
     permission: string,
-  ): Promise<ApiResponse<{ userId: string; permissions: string[] }>> {
-    // Validate ObjectId format
-    if (!Types.ObjectId.isValid(userId)) {
+    expiresAt?: Date,
+    context?: AuditContext,
+  ): Promise<ApiResponse<{ userId: string; denied: string[] }>> {
+    if (!isValidPermission(permission) || permission === WILDCARD_PERMISSION) {
       throw new AppException(
-        ErrorCode.INVALID_INPUT,
-        'Invalid user ID format',
+        ErrorCode.INVALID_PERMISSION_FORMAT,
+        'Only a specific permission (resource:action[:scope]) can be denied',
         HttpStatus.BAD_REQUEST,
       );
     }
+    this.assertFutureExpiry(expiresAt);
 
-    const user = await this.userModel.findById(userId).exec();
+    const user = await this.findPermissionTarget(userId);
+    const overrides = await this.permissionService.getActiveOverrides(user._id);
+    const previousDenied = this.getDeniedPermissions(overrides);
 
-    if (!user || user.isDeleted) {
+    if (previousDenied.includes(permission)) {
       throw new AppException(
-        ErrorCode.USER_NOT_FOUND,
-        'User not found',
-        HttpStatus.NOT_FOUND,
+        ErrorCode.PERMISSION_ALREADY_DENIED,
+        'This permission is already denied for the user',
+        HttpStatus.BAD_REQUEST,
       );
     }
 
-    // Check if permission already exists
-    if (user.permissions.includes(permission)) {
+    // A denial replaces any grant of the same permission
+    await this.permissionService.deny(user._id, permission, {
+      grantedBy: context?.actorId,
+      expiresAt,
+    });
+    const denied = [...previousDenied, permission];
+
+    this.logger.log(
+      `Permission ${permission} denied to user: ${user.email}${
+        expiresAt ? ` until ${expiresAt.toISOString()}` : ''
+      }`,
+    );
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.PERMISSION_DENIED,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      targetUser: userId,
+      changes: diffChanges({ denied: previousDenied }, { denied }),
+      metadata: { permission, expiresAt },
+    });
+    return ApiResponse.success(
+      {
+        userId: user._id.toString(),
+        denied,
+      },
+      'Permission denied successfully',
+    );
+  }
+
+  /**
+   * Lift a permission denial so the user's other permissions apply again.
+   */
+  async removeDenial(
+    userId: string,
+    permission: string,
+    context?: AuditContext,
+  ): Promise<ApiResponse<{ userId: string; denied: string[] }>> {
+    const user = await this.findPermissionTarget(userId);
+    const removed = await this.permissionService.removeDenial(
+      user._id,
+      permission,
+    );
+
+    if (!removed) {
       throw new AppException(
-        ErrorCode.PERMISSION_ALREADY_EXISTS,
-        'User already has this permission',
-        HttpStatus.BAD_REQUEST,
+        ErrorCode.PERMISSION_NOT_FOUND,
+        'This permission is not denied for the user',
+        HttpStatus.NOT_FOUND,
       );
     }
 
-    // Add permission
-    user.permissions.push(permission);
-    await user.save();
+    const overrides = await this.permissionService.getActiveOverrides(user._id);
+    const denied = this.getDeniedPermissions(overrides);
 
-    this.logger.log(`Permission ${permission} added to user: ${user.email}`);
+    this.logger.log(
+      `Permission ${permission} no longer denied to user: ${user.email}`,
+    );
+
+    await this.auditService.record({
+      ...context,
+      action: AuditAction.PERMISSION_DENIAL_REMOVED,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      targetUser: userId,
+      changes: diffChanges({ denied: [...denied, permission] }, { denied }),
+      metadata: { permission },
+    });
     return ApiResponse.success(
       {
         userId: user._id.toString(),
-        permissions: user.permissions,
+        denied,
       },
-      'Permission added successfully',
+      'Permission denial removed successfully',
     );
   }
 
   /**
-   * Remove permission from user.
+   * Find a user whose permissions are being managed.
    */
-  async removePermission(
-    userId: string,
-    permission: string,
-  ): Promise<ApiResponse<{ userId: string; permissions: string[] }>> {
+  private async findPermissionTarget(userId: string): Promise<UserDocument> {
     // Validate ObjectId format
     if (!Types.ObjectId.isValid(userId)) {
       throw new AppException(
@@ -450,69 +675,83 @@ export class UserService {
       );
     }
 
-    // Check if permission exists
-    if (!user.permissions.includes(permission)) {
+    return user;
+  }
+
+  private assertFutureExpiry(expiresAt?: Date): void {
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
       throw new AppException(
-        ErrorCode.PERMISSION_NOT_FOUND,
-        'User does not have this permission',
-        HttpStatus.NOT_FOUND,
+        ErrorCode.INVALID_PERMISSION_EXPIRY,
+        'Permission expiry must be in the future',
+        HttpStatus.BAD_REQUEST,
       );
     }
+  }
 
-    // Remove permission
-    user.permissions = user.permissions.filter((p) => p !== permission);
-    await user.save();
-
-    this.logger.log(
-      `Permission ${permission} removed from user: ${user.email}`,
-    );
-    return ApiResponse.success(
-      {
-        userId: user._id.toString(),
-        permissions: user.permissions,
-      },
-      'Permission removed successfully',
-    );
+  /**
+   * Permissions stored on the user plus active grants (deduplicated).
+   */
+  private getDirectPermissions(
+    user: UserDocument,
+    overrides: PermissionDocument[],
+  ): string[] {
+    return [
+      ...new Set([
+        ...(user.permissions || []),
+        ...overrides
+          .filter((override) => override.granted)
+          .map((grant) => grant.permission),
+      ]),
+    ];
   }
 
   /**
-   * Get effective permissions for a user (role permissions + direct permissions).
-   * @param userId - User ID or user document
-   * @returns Array of effective permissions (deduplicated)
+   * Permissions with an active denial.
    */
-  async getEffectivePermissions(
-    user: UserDocument | { role: string; permissions: string[] },
-  ): Promise<string[]> {
-    const rolePermissions: string[] = [];
-
-    // Fetch role permissions
-    if (user.role) {
-      const role = await this.roleModel.findOne({ slug: user.role }).exec();
-      if (role && role.permissions) {
-        rolePermissions.push(...role.permissions);
-      }
-    }
+  private getDeniedPermissions(overrides: PermissionDocument[]): string[] {
+    return overrides
+      .filter((override) => !override.granted)
+      .map((denial) => denial.permission);
+  }
 
-    // Combine role permissions with direct user permissions
-    const directPermissions = user.permissions || [];
-    const allPermissions = [...rolePermissions, ...directPermissions];
+  /**
+   * Map a grant or denial with its populated grantor to a DTO.
+   */
+  private mapToGrantDto(grant: PermissionDocument): PermissionGrantDto {
+    const grantor = grant.grantedBy as unknown as UserDocument | null;
 
-    // Deduplicate permissions
-    return [...new Set(allPermissions)];
+    return {
+      permission: grant.permission,
+      grantedBy: grantor?.email
+        ? {
+            id: grantor._id.toString(),
+            name: grantor.name,
+            email: grantor.email,
+          }
+        : undefined,
+      grantedAt: grant.updatedAt,
+      expiresAt: grant.expiresAt,
+    };
   }
 
   /**
    * Map user document to profile DTO.
    */
   private async mapToProfileDto(user: UserDocument): Promise<UserProfileDto> {
-    // Compute effective permissions (role + direct)
-    const effectivePermissions = await this.getEffectivePermissions(user);
+    // Compute effective permissions (roles + organization role + direct + grants - denials)
+    const membership = await this.permissionService.getActiveMembership(user);
+    const [effectivePermissions, roleLevel] = await Promise.all([
+      this.permissionService.getEffectivePermissions(user, membership),
+      this.permissionService.getRoleLevel(user.roles),
+    ]);
 
     return {
       id: user._id.toString(),
       email: user.email,
       name: user.name,
-      role: user.role,
+      role: user.roles[0],
+      roles: user.roles,
+      roleLevel,
       permissions: effectivePermissions,
       authProvider: user.authProvider,
       isVerified: user.isVerified,
@@ -522,6 +761,8 @@ export class UserService {
       linkedProviders: user.linkedProviders,
       primaryProvider: user.primaryProvider,
       profileSyncedAt: user.profileSyncedAt,
+      twoFactorEnabled: user.twoFactorEnabled ?? false,
+      activeOrganization: membership?.organization.toString(),
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import Link from 'next/link';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { useVerifyMagicLinkMutation } from '@/modules/auth/store/authApi';
+import { AuthLayout } from '@/modules/auth/components/AuthLayout';
+import { TwoFactorLoginStep } from '@/modules/auth/components/TwoFactorLoginStep';
+import { useApiError } from '@/hooks/useApiError';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Magic Link Page
+ * Opened from the passwordless sign-in email. Posts the link token to sign in,
+ * then asks for the authenticator code when the account has 2FA enabled.
+ */
+export default function MagicLinkPage() {
+  const t = useTranslations('auth.magicLink');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [verifyMagicLink, { isError, error }] = useVerifyMagicLinkMutation();
+  const { getErrorMessage } = useApiError();
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+
+  // The link is single use, so never post it twice (e.g. React strict mode)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) {
+      return;
+    }
+    submitted.current = true;
+
+    const signIn = async () => {
+      try {
+        const response = await verifyMagicLink({ token }).unwrap();
+
+        // Account has 2FA enabled: ask for the authenticator code
+        if ('twoFactorRequired' in response) {
+          setTwoFactorChallenge(response.challengeToken);
+          return;
+        }
+
+        router.replace('/dashboard');
+      } catch {
+        // Shown from the mutation state below
+      }
+    };
+
+    signIn();
+  }, [token, verifyMagicLink, router]);
+
+  if (twoFactorChallenge) {
+    return (
+      <AuthLayout>
+        <section className="mt-12 flex flex-col items-center">
+          <h1 className="mb-8 text-2xl xl:text-3xl font-extrabold text-foreground">
+            {t('twoFactorTitle')}
+          </h1>
+          <div className="w-full">
+            <TwoFactorLoginStep
+              challengeToken={twoFactorChallenge}
+              onVerified={() => router.replace('/dashboard')}
+              onCancel={() => router.replace('/auth/login')}
+            />
+          </div>
+        </section>
+      </AuthLayout>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md text-center" data-testid="magic-link-page">
+        {!token || isError ? (
+          <>
+            <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-destructive/10">
+              <AlertCircle className="h-10 w-10 text-destructive" />
+            </div>
+            <h1 className="mb-2 text-3xl font-bold text-foreground">{t('failed')}</h1>
+            <p className="mb-6 text-muted-foreground" data-testid="magic-link-error">
+              {isError ? getErrorMessage(error) : t('missingToken')}
+            </p>
+            <Button asChild>
+              <Link href="/auth/login">{t('backToLogin')}</Link>
+            </Button>
+          </>
+        ) : (
+          <>
+            <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
+            <h1 className="mt-4 text-2xl font-semibold text-foreground">{t('title')}</h1>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,13 @@
 import { useEffect, useState } from 'react';
 import { useSearchParams, useRouter, useParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
-import { useHandleCallbackMutation, OAuthProvider } from '@/modules/oauth';
+import {
+  useHandleCallbackMutation,
+  isValidOAuthProviderName,
+  type OAuthProvider,
+} from '@/modules/oauth';
+import { useApiError } from '@/hooks/useApiError';
+import { getAccountStatusLoginPath, getBlockedAccountStatus } from '@/modules/auth/utils';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -20,6 +26,7 @@ export default function OAuthProviderCallbackPage() {
   const params = useParams();
   const searchParams = useSearchParams();
   const [handleCallback, { isLoading }] = useHandleCallbackMutation();
+  const { isCode, ErrorCode } = useApiError();
   const [isProcessing, setIsProcessing] = useState(true);
 
   // Extract provider from URL path
@@ -29,8 +36,7 @@ export default function OAuthProviderCallbackPage() {
     const processCallback = async () => {
       try {
         // Validate provider
-        const validProviders: OAuthProvider[] = ['google', 'github', 'facebook'];
-        if (!validProviders.includes(provider)) {
+        if (!isValidOAuthProviderName(provider)) {
           throw new Error(`Invalid OAuth provider: ${provider}`);
         }
 
@@ -100,6 +106,20 @@ export default function OAuthProviderCallbackPage() {
         throw new Error('No authorization code received from OAuth provider');
       } catch (error) {
         console.error('OAuth callback error:', error);
+
+        // The callback was not started from this browser (or took too long)
+        if (isCode(error, ErrorCode.OAUTH_STATE_MISMATCH)) {
+          router.replace(`/auth/oauth/error?code=${ErrorCode.OAUTH_STATE_MISMATCH}`);
+          return;
+        }
+
+        // The account is suspended or removed: explain it on the login page
+        const blocked = getBlockedAccountStatus(error);
+        if (blocked) {
+          router.replace(getAccountStatusLoginPath(blocked.status, blocked.reason));
+          return;
+        }
+
         setIsProcessing(false);
         toast.error(t('error'));
 
@@ -116,7 +136,7 @@ export default function OAuthProviderCallbackPage() {
     };
 
     processCallback();
-  }, [handleCallback, router, searchParams, provider, t]);
+  }, [handleCallback, router, searchParams, provider, t, isCode, ErrorCode]);
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-background">
@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useTranslations } from 'next-intl';
 import { useHandleCallbackMutation } from '@/modules/oauth';
+import { useApiError } from '@/hooks/useApiError';
+import { getAccountStatusLoginPath, getBlockedAccountStatus } from '@/modules/auth/utils';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -16,6 +18,7 @@ export default function OAuthCallbackPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const [handleCallback, { isLoading }] = useHandleCallbackMutation();
+  const { isCode, ErrorCode } = useApiError();
   const [isProcessing, setIsProcessing] = useState(true);
 
   useEffect(() => {
@@ -112,6 +115,20 @@ export default function OAuthCallbackPage() {
         }, 500);
       } catch (error) {
         console.error('OAuth callback error:', error);
+
+        // The callback was not started from this browser (or took too long)
+        if (isCode(error, ErrorCode.OAUTH_STATE_MISMATCH)) {
+          router.replace(`/auth/oauth/error?code=${ErrorCode.OAUTH_STATE_MISMATCH}`);
+          return;
+        }
+
+        // The account is suspended or removed: explain it on the login page
+        const blocked = getBlockedAccountStatus(error);
+        if (blocked) {
+          router.replace(getAccountStatusLoginPath(blocked.status, blocked.reason));
+          return;
+        }
+
         setIsProcessing(false);
         toast.error(t('error'));
 
@@ -128,7 +145,7 @@ export default function OAuthCallbackPage() {
     };
 
     processCallback();
-  }, [handleCallback, router, searchParams, t]);
+  }, [handleCallback, router, searchParams, t, isCode, ErrorCode]);
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-background">
@@ -1,18 +1,35 @@
 'use client';
 
-import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useTranslations } from 'next-intl';
+import { ErrorCode } from '@/constants/errorCodes';
 import { Button } from '@/components/ui/button';
 import { AlertCircle } from 'lucide-react';
 import Link from 'next/link';
+import { getAccountStatusLoginPath, getBlockedStatusForCode } from '@/modules/auth/utils';
 
 /**
  * OAuth Error Page
  * Displays user-friendly error message when OAuth authentication fails
+ * An API error code can be passed as `?code=` to explain the failure
  */
 export default function OAuthErrorPage() {
   const t = useTranslations('auth.oauth');
+  const tErrorCodes = useTranslations('errors.codes');
   const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const code = searchParams.get('code');
+  const isKnownCode = !!code && Object.values<string>(ErrorCode).includes(code);
+  const blockedStatus = getBlockedStatusForCode(code);
+
+  // Suspended or removed accounts (e.g. from SAML) are explained on the login page
+  useEffect(() => {
+    if (blockedStatus) {
+      router.replace(getAccountStatusLoginPath(blockedStatus));
+    }
+  }, [blockedStatus, router]);
 
   const handleTryAgain = () => {
     router.push('/auth/login');
@@ -29,8 +46,8 @@ export default function OAuthErrorPage() {
         {/* Error Message */}
         <h1 className="mb-2 text-3xl font-bold text-foreground">OAuth Authentication Failed</h1>
 
-        <p className="mb-6 text-lg text-muted-foreground">
-          {t('error', { provider: 'OAuth Provider' })}
+        <p className="mb-6 text-lg text-muted-foreground" data-testid="oauth-error-message">
+          {isKnownCode ? tErrorCodes(code) : t('error', { provider: 'OAuth Provider' })}
         </p>
 
         {/* Helpful Information */}
@@ -0,0 +1,28 @@
+import type { Metadata } from 'next';
+import { getTranslations } from 'next-intl/server';
+import { ReactivatePage } from '@/modules/auth/pages/ReactivatePage';
+
+/**
+ * Generate metadata for account reactivation page
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: 'auth.reactivate' });
+
+  return {
+    title: t('title'),
+    description: t('subtitle'),
+  };
+}
+
+/**
+ * Account reactivation route page
+ * Accessible at /[locale]/auth/reactivate
+ */
+export default function ReactivateRoute() {
+  return <ReactivatePage />;
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { useGetCurrentUserQuery } from '@/modules/auth/store/authApi';
+import { Loader2 } from 'lucide-react';
+
+/**
+ * SSO Complete Page
+ * The server redirects here after accepting a SAML response and setting the session cookie.
+ * Loads the signed-in user, then continues to the dashboard.
+ */
+export default function SsoCompletePage() {
+  const t = useTranslations('auth.sso.complete');
+  const router = useRouter();
+  const { isSuccess, isError } = useGetCurrentUserQuery();
+
+  useEffect(() => {
+    if (isSuccess) {
+      router.replace('/dashboard');
+    } else if (isError) {
+      router.replace('/auth/login?error=oauth_failed');
+    }
+  }, [isSuccess, isError, router]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background">
+      <div className="text-center" data-testid="sso-complete-page">
+        <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
+        <h1 className="mt-4 text-2xl font-semibold text-foreground">{t('title')}</h1>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from 'next';
+import { getTranslations } from 'next-intl/server';
+import { SsoLoginPage } from '@/modules/auth/pages/SsoLoginPage';
+
+/**
+ * Generate metadata for SSO sign-in page
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}): Promise<Metadata> {
+  const { locale } = await params;
+  const t = await getTranslations({ locale, namespace: 'auth.sso' });
+
+  return {
+    title: t('title'),
+    description: t('subtitle'),
+  };
+}
+
+/**
+ * SSO sign-in route page
+ * Accessible at /[locale]/auth/sso
+ */
+export default function SsoLoginRoute() {
+  return <SsoLoginPage />;
+}
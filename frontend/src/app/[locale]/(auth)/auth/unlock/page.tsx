@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import Link from 'next/link';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { useUnlockAccountMutation } from '@/modules/auth/store/authApi';
+import { useApiError } from '@/hooks/useApiError';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Unlock Page
+ * Opened from the account locked email. Posts the unlock token to lift the
+ * sign-in lock placed after repeated failed attempts.
+ */
+export default function UnlockPage() {
+  const t = useTranslations('auth.unlock');
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [unlockAccount, { isSuccess, isError, error }] = useUnlockAccountMutation();
+  const { getErrorMessage } = useApiError();
+
+  // The link is single use, so never post it twice (e.g. React strict mode)
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || submitted.current) {
+      return;
+    }
+    submitted.current = true;
+
+    // Result is shown from the mutation state below
+    unlockAccount({ token }).catch(() => undefined);
+  }, [token, unlockAccount]);
+
+  const renderContent = () => {
+    if (!token || isError) {
+      return (
+        <>
+          <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-destructive/10">
+            <AlertCircle className="h-10 w-10 text-destructive" />
+          </div>
+          <h1 className="mb-2 text-3xl font-bold text-foreground">{t('failed')}</h1>
+          <p className="mb-6 text-muted-foreground" data-testid="unlock-error">
+            {isError ? getErrorMessage(error) : t('missingToken')}
+          </p>
+        </>
+      );
+    }
+
+    if (isSuccess) {
+      return (
+        <>
+          <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/20">
+            <CheckCircle2 className="h-10 w-10 text-green-600 dark:text-green-400" />
+          </div>
+          <h1 className="mb-2 text-3xl font-bold text-foreground">{t('success')}</h1>
+          <p className="mb-6 text-muted-foreground" data-testid="unlock-success">
+            {t('successMessage')}
+          </p>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
+        <h1 className="mt-4 text-2xl font-semibold text-foreground">{t('title')}</h1>
+      </>
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md text-center" data-testid="unlock-page">
+        {renderContent()}
+        {(isSuccess || isError || !token) && (
+          <Button asChild>
+            <Link href="/auth/login">{t('backToLogin')}</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect, useRef, Activity } from 'react';
+import { useTranslations } from 'next-intl';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RoutePermissionGuard, AUDIT_PERMISSIONS } from '@/modules/permissions';
+import {
+  AuditLogFilterBar,
+  AuditLogItem,
+  AuditLogExportButtons,
+  useListAuditLogsInfiniteQuery,
+  type AuditLogFilters,
+} from '@/modules/audit';
+import { useApiError } from '@/hooks/useApiError';
+
+/**
+ * Admin audit log page
+ * Browses security-relevant actions newest first, loading more as the list scrolls.
+ * Accessible at /admin/audit
+ */
+export default function AdminAuditPage() {
+  const t = useTranslations('audit');
+  const tCommon = useTranslations('common');
+  const { getErrorMessage } = useApiError();
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useListAuditLogsInfiniteQuery(filters);
+
+  const entries = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: '200px' },
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  return (
+    <RoutePermissionGuard permission={AUDIT_PERMISSIONS.READ_ALL}>
+      <div className="container max-w-7xl py-8 px-4" data-testid="admin-audit-page">
+        {/* Header */}
+        <div className="my-8">
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h1 className="text-4xl font-light tracking-tight">{t('title')}</h1>
+              <p className="text-sm text-muted-foreground/60 mt-1 leading-relaxed">
+                {t('description')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => refetch()}
+                disabled={isFetching}
+                data-testid="refresh-audit-button"
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                {t('refresh')}
+              </Button>
+              <AuditLogExportButtons filters={filters} />
+            </div>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-8">
+          <AuditLogFilterBar onApply={setFilters} />
+        </div>
+
+        {/* Loading State */}
+        <Activity mode={isLoading ? 'visible' : 'hidden'}>
+          <div className="flex items-center justify-center py-12" data-testid="loading-skeleton">
+            <div className="text-center space-y-4">
+              <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">{t('loading')}</p>
+            </div>
+          </div>
+        </Activity>
+
+        {/* Error State */}
+        <Activity mode={isError ? 'visible' : 'hidden'}>
+          <Alert variant="destructive" data-testid="error-state">
+            <AlertDescription className="flex items-center justify-between">
+              <span>
+                {t('loadError')} {error ? getErrorMessage(error) : ''}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => refetch()}>
+                {tCommon('retry')}
+              </Button>
+            </AlertDescription>
+          </Alert>
+        </Activity>
+
+        {/* Empty State */}
+        <Activity mode={!isLoading && !isError && entries.length === 0 ? 'visible' : 'hidden'}>
+          <div
+            className="flex items-center justify-center py-12 text-center"
+            data-testid="empty-state"
+          >
+            <div className="space-y-3">
+              <p className="text-lg font-semibold">{t('empty')}</p>
+              <p className="text-sm text-muted-foreground/60 max-w-sm">{t('emptyHint')}</p>
+            </div>
+          </div>
+        </Activity>
+
+        {/* Entries */}
+        <Activity mode={!isLoading && !isError && entries.length > 0 ? 'visible' : 'hidden'}>
+          <div className="space-y-3" data-testid="audit-log-list">
+            {entries.map((entry) => (
+              <AuditLogItem key={entry.id} entry={entry} />
+            ))}
+          </div>
+
+          <div
+            ref={sentinelRef}
+            className="flex justify-center py-6 text-xs text-muted-foreground/50"
+          >
+            {isFetchingNextPage ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : hasNextPage ? null : (
+              t('end', { count: entries.length })
+            )}
+          </div>
+        </Activity>
+      </div>
+    </RoutePermissionGuard>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Building2, Loader2 } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { useAppSelector } from '@/store/hooks';
+import { selectUser } from '@/modules/auth/store/authSlice';
+import { PermissionGuard, ORGANIZATION_PERMISSIONS } from '@/modules/permissions';
+import {
+  OrganizationInvitesCard,
+  OrganizationMembersCard,
+  OrganizationSettingsCard,
+  OrganizationTeamsCard,
+  useGetCurrentOrganizationQuery,
+} from '@/modules/organizations';
+
+/**
+ * Organization page
+ * Members, teams, pending invites and settings of the active organization.
+ * Accessible at /[locale]/organization
+ */
+export default function OrganizationPage() {
+  const t = useTranslations('organizations.page');
+  const tRoles = useTranslations('organizations.roles');
+  const user = useAppSelector(selectUser);
+  const { data: organization, isLoading } = useGetCurrentOrganizationQuery(undefined, {
+    skip: !user?.activeOrganization,
+  });
+
+  if (!user?.activeOrganization) {
+    return (
+      <div className="container max-w-4xl px-4 py-8" data-testid="organization-page">
+        <Alert>
+          <Building2 className="h-4 w-4" />
+          <AlertDescription>{t('noActive')}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (isLoading || !organization) {
+    return (
+      <div className="flex justify-center py-12" data-testid="organization-page">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl space-y-6 px-4 py-8" data-testid="organization-page">
+      <div>
+        <h1 className="flex flex-wrap items-center gap-3 text-3xl font-bold">
+          {organization.name}
+          <Badge variant="secondary">{tRoles(organization.role)}</Badge>
+        </h1>
+        <p className="text-muted-foreground">{t('description')}</p>
+      </div>
+
+      <OrganizationMembersCard currentRole={organization.role} />
+
+      <OrganizationTeamsCard />
+
+      <PermissionGuard permission={ORGANIZATION_PERMISSIONS.INVITE_TEAM}>
+        <OrganizationInvitesCard currentRole={organization.role} />
+      </PermissionGuard>
+
+      <OrganizationSettingsCard key={organization.id} organization={organization} />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { Metadata } from 'next';
+import { AcceptInviteCard } from '@/modules/organizations';
+
+export const metadata: Metadata = {
+  title: 'Join Organization',
+  description: 'Accept an invite to join an organization',
+};
+
+interface JoinOrganizationPageProps {
+  /** `token` is set when opened from the invite email */
+  searchParams: Promise<{ token?: string }>;
+}
+
+/**
+ * Join Organization Page
+ *
+ * Landing page for invite email links
+ */
+export default async function JoinOrganizationPage({ searchParams }: JoinOrganizationPageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="container p-10">
+      <AcceptInviteCard token={token} />
+    </div>
+  );
+}
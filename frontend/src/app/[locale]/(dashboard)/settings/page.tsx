@@ -2,7 +2,9 @@ import {
   LinkedAccounts,
   ProfileSyncStatus,
   ChangePasswordCard,
+  TwoFactorCard,
   UpdateProfileCard,
+  DataExportCard,
 } from '@/modules/account';
 import { Metadata } from 'next';
 
@@ -11,12 +13,19 @@ export const metadata: Metadata = {
   description: 'Manage your linked OAuth accounts and profile synchronization',
 };
 
+interface SettingsPageProps {
+  /** `export` and `token` are set when opened from the data export email */
+  searchParams: Promise<{ export?: string; token?: string }>;
+}
+
 /**
  * Settings Page
  *
  * Allows users to manage their linked OAuth providers and profile sync
  */
-export default function SettingsPage() {
+export default async function SettingsPage({ searchParams }: SettingsPageProps) {
+  const { export: exportId, token: exportToken } = await searchParams;
+
   return (
     <div className="container p-10">
       <div className="space-y-6">
@@ -27,7 +36,9 @@ export default function SettingsPage() {
 
         <div className="grid gap-6 md:grid-cols-2">
           <UpdateProfileCard />
+          <DataExportCard exportId={exportId} exportToken={exportToken} />
           <ChangePasswordCard />
+          <TwoFactorCard />
           <LinkedAccounts />
           <ProfileSyncStatus />
         </div>
@@ -15,7 +15,9 @@ export function Header() {
       {user && (
         <div className="flex items-center gap-2 rounded-lg bg-muted px-3 py-2">
           <span className="text-sm font-medium text-foreground">{user.name}</span>
-          <span className="text-xs text-muted-foreground">({user.role})</span>
+          <span className="text-xs text-muted-foreground">
+            ({(user.roles ?? [user.role]).join(', ')})
+          </span>
         </div>
       )}
 
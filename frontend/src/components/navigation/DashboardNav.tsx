@@ -11,7 +11,10 @@ import {
   ROLE_PERMISSIONS,
   PERMISSION_PERMISSIONS,
   SESSION_PERMISSIONS,
+  AUDIT_PERMISSIONS,
+  ORGANIZATION_PERMISSIONS,
 } from '@/modules/permissions';
+import { OrganizationSwitcher } from '@/modules/organizations';
 import {
   LayoutDashboard,
   Users,
@@ -19,6 +22,8 @@ import {
   Settings,
   Activity,
   Code,
+  ScrollText,
+  Building2,
   ChevronDown,
   ChevronRight,
 } from 'lucide-react';
@@ -53,6 +58,12 @@ const NAV_SECTIONS: (NavItem | NavSection)[] = [
     href: '/settings',
     icon: Settings,
   },
+  {
+    labelKey: 'organization',
+    href: '/organization',
+    icon: Building2,
+    permission: ORGANIZATION_PERMISSIONS.READ_TEAM,
+  },
 
   // Admin Section
   {
@@ -60,15 +71,17 @@ const NAV_SECTIONS: (NavItem | NavSection)[] = [
     icon: Shield,
     anyPermissions: [
       USER_PERMISSIONS.LIST_ALL,
+      USER_PERMISSIONS.LIST_TEAM,
       ROLE_PERMISSIONS.LIST_ALL,
       PERMISSION_PERMISSIONS.MANAGE_ALL,
+      AUDIT_PERMISSIONS.READ_ALL,
     ],
     items: [
       {
         labelKey: 'users',
         href: '/admin/users',
         icon: Users,
-        permission: USER_PERMISSIONS.LIST_ALL,
+        anyPermissions: [USER_PERMISSIONS.LIST_ALL, USER_PERMISSIONS.LIST_TEAM],
       },
       {
         labelKey: 'roles',
@@ -76,6 +89,12 @@ const NAV_SECTIONS: (NavItem | NavSection)[] = [
         icon: Shield,
         permission: ROLE_PERMISSIONS.LIST_ALL,
       },
+      {
+        labelKey: 'auditLog',
+        href: '/admin/audit',
+        icon: ScrollText,
+        permission: AUDIT_PERMISSIONS.READ_ALL,
+      },
       {
         labelKey: 'permissionsDemo',
         href: '/admin/permissions-demo',
@@ -111,6 +130,8 @@ interface DashboardNavProps {
 /**
  * Dashboard navigation component with permission-based rendering.
  * Only shows navigation items the user has permission to access.
+ * The organization switcher on top changes which organization's
+ * permissions apply.
  *
  * @example
  * ```tsx
@@ -194,6 +215,9 @@ export function DashboardNav({ onNavigate }: DashboardNavProps = {}) {
 
   return (
     <nav className="space-y-1" data-testid="dashboard-nav">
+      <div className="pb-3">
+        <OrganizationSwitcher />
+      </div>
       {NAV_SECTIONS.map((item) => {
         if (isNavSection(item)) {
           // Collapsible Section
@@ -38,7 +38,8 @@ export function AuthGuard({ children }: Readonly<AuthGuardProps>) {
 
     // If not authenticated, redirect to login with return URL
     if (!isAuthenticated) {
-      const returnUrl = encodeURIComponent(pathname);
+      // Keep the query so emailed links (such as invites) still work after signing in
+      const returnUrl = encodeURIComponent(pathname + window.location.search);
       router.push(`/auth/login?redirect=${returnUrl}`);
     }
   }, [isAuthenticated, isAuthLoading, pathname, router]);
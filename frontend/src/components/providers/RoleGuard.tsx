@@ -50,8 +50,10 @@ export function RoleGuard({
       return;
     }
 
-    // Check if user's role is in allowed roles
-    const hasPermission = allowedRoles.includes(user.role);
+    // Check if any of the user's roles is in allowed roles
+    const hasPermission = (user.roles ?? [user.role]).some((role) =>
+      allowedRoles.includes(role as UserRole),
+    );
 
     // If not authorized, redirect to fallback path
     if (!hasPermission) {
@@ -65,7 +67,9 @@ export function RoleGuard({
   }
 
   // Check permission
-  const hasPermission = allowedRoles.includes(user.role);
+  const hasPermission = (user.roles ?? [user.role]).some((role) =>
+    allowedRoles.includes(role as UserRole),
+  );
 
   // Don't render if not authorized
   if (!hasPermission) {
@@ -14,6 +14,15 @@ export const ErrorCode = {
   INVALID_CREDENTIALS: 'INVALID_CREDENTIALS',
   EMAIL_ALREADY_EXISTS: 'EMAIL_ALREADY_EXISTS',
 
+  // Account Lockout
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  UNLOCK_TOKEN_INVALID: 'UNLOCK_TOKEN_INVALID',
+
+  // Account Status
+  ACCOUNT_SUSPENDED: 'ACCOUNT_SUSPENDED',
+  ACCOUNT_DEACTIVATED: 'ACCOUNT_DEACTIVATED',
+  ACCOUNT_PENDING_DELETION: 'ACCOUNT_PENDING_DELETION',
+
   // Activation & Registration
   ACTIVATION_CODE_EXPIRED: 'ACTIVATION_CODE_EXPIRED',
   ACTIVATION_CODE_INVALID: 'ACTIVATION_CODE_INVALID',
@@ -53,6 +62,16 @@ export const ErrorCode = {
   INVALID_OAUTH_PROVIDER: 'INVALID_OAUTH_PROVIDER',
   OAUTH_AUTHENTICATION_FAILED: 'OAUTH_AUTHENTICATION_FAILED',
   OAUTH_INVALID_CODE: 'OAUTH_INVALID_CODE',
+  OAUTH_STATE_MISMATCH: 'OAUTH_STATE_MISMATCH',
+
+  // SAML SSO
+  SAML_CONNECTION_NOT_FOUND: 'SAML_CONNECTION_NOT_FOUND',
+  SAML_CONNECTION_ALREADY_EXISTS: 'SAML_CONNECTION_ALREADY_EXISTS',
+  SAML_METADATA_INVALID: 'SAML_METADATA_INVALID',
+  SAML_ROLE_MAPPING_INVALID: 'SAML_ROLE_MAPPING_INVALID',
+  SAML_REQUEST_MISMATCH: 'SAML_REQUEST_MISMATCH',
+  SAML_RESPONSE_INVALID: 'SAML_RESPONSE_INVALID',
+  SAML_DOMAIN_NOT_ALLOWED: 'SAML_DOMAIN_NOT_ALLOWED',
 
   // Google OAuth
   GOOGLE_TOKEN_INVALID: 'GOOGLE_TOKEN_INVALID',
@@ -87,6 +106,22 @@ export const ErrorCode = {
   PASSWORD_RESET_CODE_INVALID: 'PASSWORD_RESET_CODE_INVALID',
   USER_NOT_FOUND_FOR_RESET: 'USER_NOT_FOUND_FOR_RESET',
 
+  // Passwordless Login
+  NO_PENDING_PASSWORDLESS_LOGIN: 'NO_PENDING_PASSWORDLESS_LOGIN',
+  PASSWORDLESS_CODE_EXPIRED: 'PASSWORDLESS_CODE_EXPIRED',
+  PASSWORDLESS_CODE_INVALID: 'PASSWORDLESS_CODE_INVALID',
+  MAGIC_LINK_INVALID: 'MAGIC_LINK_INVALID',
+
+  // Account Reactivation
+  NO_PENDING_REACTIVATION: 'NO_PENDING_REACTIVATION',
+  REACTIVATION_CODE_EXPIRED: 'REACTIVATION_CODE_EXPIRED',
+  REACTIVATION_CODE_INVALID: 'REACTIVATION_CODE_INVALID',
+
+  // Data Export
+  DATA_EXPORT_IN_PROGRESS: 'DATA_EXPORT_IN_PROGRESS',
+  DATA_EXPORT_NOT_FOUND: 'DATA_EXPORT_NOT_FOUND',
+  DATA_EXPORT_NOT_READY: 'DATA_EXPORT_NOT_READY',
+
   // Account Linking
   PROVIDER_ALREADY_LINKED: 'PROVIDER_ALREADY_LINKED',
   PROVIDER_LINKED_TO_OTHER_ACCOUNT: 'PROVIDER_LINKED_TO_OTHER_ACCOUNT',
@@ -94,10 +129,43 @@ export const ErrorCode = {
   CANNOT_UNLINK_LAST_PROVIDER: 'CANNOT_UNLINK_LAST_PROVIDER',
   PROVIDER_NOT_LINKED: 'PROVIDER_NOT_LINKED',
 
+  // Two-Factor Authentication
+  TWO_FACTOR_UNAVAILABLE: 'TWO_FACTOR_UNAVAILABLE',
+  TWO_FACTOR_ALREADY_ENABLED: 'TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_NOT_ENABLED: 'TWO_FACTOR_NOT_ENABLED',
+  TWO_FACTOR_SETUP_NOT_STARTED: 'TWO_FACTOR_SETUP_NOT_STARTED',
+  TWO_FACTOR_CODE_INVALID: 'TWO_FACTOR_CODE_INVALID',
+  TWO_FACTOR_CHALLENGE_INVALID: 'TWO_FACTOR_CHALLENGE_INVALID',
+  RECOVERY_CODE_INVALID: 'RECOVERY_CODE_INVALID',
+  RECOVERY_CODES_EXHAUSTED: 'RECOVERY_CODES_EXHAUSTED',
+
+  // WebAuthn (passkeys)
+  WEBAUTHN_CHALLENGE_INVALID: 'WEBAUTHN_CHALLENGE_INVALID',
+  WEBAUTHN_VERIFICATION_FAILED: 'WEBAUTHN_VERIFICATION_FAILED',
+  WEBAUTHN_CREDENTIAL_NOT_FOUND: 'WEBAUTHN_CREDENTIAL_NOT_FOUND',
+  WEBAUTHN_CREDENTIAL_ALREADY_REGISTERED: 'WEBAUTHN_CREDENTIAL_ALREADY_REGISTERED',
+
   // Permissions
   PERMISSION_ALREADY_EXISTS: 'PERMISSION_ALREADY_EXISTS',
   PERMISSION_NOT_FOUND: 'PERMISSION_NOT_FOUND',
   INVALID_PERMISSION_FORMAT: 'INVALID_PERMISSION_FORMAT',
+  INVALID_PERMISSION_EXPIRY: 'INVALID_PERMISSION_EXPIRY',
+  PERMISSION_ALREADY_DENIED: 'PERMISSION_ALREADY_DENIED',
+
+  // Organizations
+  ORGANIZATION_NOT_FOUND: 'ORGANIZATION_NOT_FOUND',
+  NO_ACTIVE_ORGANIZATION: 'NO_ACTIVE_ORGANIZATION',
+  ORGANIZATION_MEMBER_NOT_FOUND: 'ORGANIZATION_MEMBER_NOT_FOUND',
+  ORGANIZATION_MEMBER_EXISTS: 'ORGANIZATION_MEMBER_EXISTS',
+  ORGANIZATION_OWNER_REQUIRED: 'ORGANIZATION_OWNER_REQUIRED',
+  ORGANIZATION_LAST_OWNER: 'ORGANIZATION_LAST_OWNER',
+  ORGANIZATION_INVITE_INVALID: 'ORGANIZATION_INVITE_INVALID',
+  ORGANIZATION_INVITE_EMAIL_MISMATCH: 'ORGANIZATION_INVITE_EMAIL_MISMATCH',
+
+  // Team errors
+  TEAM_NOT_FOUND: 'TEAM_NOT_FOUND',
+  TEAM_NAME_EXISTS: 'TEAM_NAME_EXISTS',
+  USER_NOT_IN_TEAM: 'USER_NOT_IN_TEAM',
 } as const;
 
 export type ErrorCodeType = (typeof ErrorCode)[keyof typeof ErrorCode];
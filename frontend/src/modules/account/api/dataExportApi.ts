@@ -0,0 +1,32 @@
+import { baseApi, API_BASE_URL } from '@/store/api/baseApi';
+import type { DataExportRequest, DataExportResponse } from '../types';
+
+/**
+ * Data Export API
+ * RTK Query endpoint for requesting a copy of the current user's data
+ */
+export const dataExportApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    /**
+     * Start generating an export; the download link is emailed when it is ready
+     */
+    requestDataExport: builder.mutation<DataExportResponse, DataExportRequest>({
+      query: ({ format }) => ({
+        url: '/api/user/export',
+        method: 'GET',
+        params: { format },
+      }),
+      transformResponse: (response: { success: boolean; data: DataExportResponse }) =>
+        response.data,
+    }),
+  }),
+});
+
+/**
+ * URL of a generated export, from the export id and token in the emailed link
+ * Opened directly by the browser so the file is saved as a download.
+ */
+export const getDataExportDownloadUrl = (exportId: string, token: string) =>
+  `${API_BASE_URL}/api/user/export/${encodeURIComponent(exportId)}/download?token=${encodeURIComponent(token)}`;
+
+export const { useRequestDataExportMutation } = dataExportApi;
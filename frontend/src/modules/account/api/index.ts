@@ -1,2 +1,5 @@
 export * from './accountLinkingApi';
 export * from './profileSyncApi';
+export * from './twoFactorApi';
+export * from './passkeyApi';
+export * from './dataExportApi';
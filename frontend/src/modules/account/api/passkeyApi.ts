@@ -0,0 +1,77 @@
+import { baseApi } from '@/store/api/baseApi';
+import type { PasskeyRegistrationOptions } from '@/modules/auth/types/auth.types';
+import type { Passkey, VerifyPasskeyRegistrationRequest, RenamePasskeyRequest } from '../types';
+
+/**
+ * Passkey API
+ * RTK Query endpoints for registering and managing passkeys (WebAuthn)
+ */
+export const passkeyApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    /**
+     * List the current user's passkeys
+     */
+    getPasskeys: builder.query<Passkey[], void>({
+      query: () => '/api/auth/webauthn/credentials',
+      transformResponse: (response: { success: boolean; data: Passkey[] }) => response.data,
+      providesTags: ['Passkeys'],
+    }),
+
+    /**
+     * Get options for navigator.credentials.create()
+     */
+    getPasskeyRegistrationOptions: builder.mutation<PasskeyRegistrationOptions, void>({
+      query: () => ({
+        url: '/api/auth/webauthn/registration/options',
+        method: 'POST',
+      }),
+      transformResponse: (response: { success: boolean; data: PasskeyRegistrationOptions }) =>
+        response.data,
+    }),
+
+    /**
+     * Verify and store a newly created passkey
+     */
+    verifyPasskeyRegistration: builder.mutation<Passkey, VerifyPasskeyRegistrationRequest>({
+      query: (data) => ({
+        url: '/api/auth/webauthn/registration/verify',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { success: boolean; data: Passkey }) => response.data,
+      invalidatesTags: ['Passkeys'],
+    }),
+
+    /**
+     * Rename a passkey
+     */
+    renamePasskey: builder.mutation<Passkey, RenamePasskeyRequest>({
+      query: ({ id, name }) => ({
+        url: `/api/auth/webauthn/credentials/${id}`,
+        method: 'PATCH',
+        body: { name },
+      }),
+      transformResponse: (response: { success: boolean; data: Passkey }) => response.data,
+      invalidatesTags: ['Passkeys'],
+    }),
+
+    /**
+     * Remove a passkey
+     */
+    deletePasskey: builder.mutation<void, string>({
+      query: (id) => ({
+        url: `/api/auth/webauthn/credentials/${id}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Passkeys'],
+    }),
+  }),
+});
+
+export const {
+  useGetPasskeysQuery,
+  useGetPasskeyRegistrationOptionsMutation,
+  useVerifyPasskeyRegistrationMutation,
+  useRenamePasskeyMutation,
+  useDeletePasskeyMutation,
+} = passkeyApi;
@@ -0,0 +1,90 @@
+import { baseApi } from '@/store/api/baseApi';
+import type {
+  AccountUser,
+  TwoFactorSetupResponse,
+  TwoFactorCodeRequest,
+  TwoFactorRecoveryCodesResponse,
+  TwoFactorRecoveryStatus,
+} from '../types';
+
+/**
+ * Two-Factor Authentication API
+ * RTK Query endpoints for authenticator-app enrolment and recovery codes
+ */
+export const twoFactorApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    /**
+     * Start enrolment and get the TOTP secret
+     */
+    setupTwoFactor: builder.mutation<TwoFactorSetupResponse, void>({
+      query: () => ({
+        url: '/api/user/2fa/setup',
+        method: 'POST',
+      }),
+      transformResponse: (response: { success: boolean; data: TwoFactorSetupResponse }) =>
+        response.data,
+    }),
+
+    /**
+     * Confirm enrolment with a code from the authenticator app.
+     * Returns the recovery codes, which are only shown once.
+     */
+    verifyTwoFactorSetup: builder.mutation<TwoFactorRecoveryCodesResponse, TwoFactorCodeRequest>({
+      query: (data) => ({
+        url: '/api/user/2fa/verify',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { success: boolean; data: TwoFactorRecoveryCodesResponse }) =>
+        response.data,
+      invalidatesTags: ['User'],
+    }),
+
+    /**
+     * Get the number of unused recovery codes
+     */
+    getRecoveryCodeStatus: builder.query<TwoFactorRecoveryStatus, void>({
+      query: () => '/api/user/2fa/recovery-codes',
+      transformResponse: (response: { success: boolean; data: TwoFactorRecoveryStatus }) =>
+        response.data,
+      providesTags: ['User'],
+    }),
+
+    /**
+     * Replace all recovery codes with a new set
+     */
+    regenerateRecoveryCodes: builder.mutation<TwoFactorRecoveryCodesResponse, TwoFactorCodeRequest>(
+      {
+        query: (data) => ({
+          url: '/api/user/2fa/recovery-codes',
+          method: 'POST',
+          body: data,
+        }),
+        transformResponse: (response: { success: boolean; data: TwoFactorRecoveryCodesResponse }) =>
+          response.data,
+        invalidatesTags: ['User'],
+      },
+    ),
+
+    /**
+     * Disable two-factor authentication
+     */
+    disableTwoFactor: builder.mutation<AccountUser, TwoFactorCodeRequest>({
+      query: (data) => ({
+        url: '/api/user/2fa/disable',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { success: boolean; data: AccountUser }) => response.data,
+      invalidatesTags: ['User'],
+    }),
+  }),
+});
+
+export const {
+  useSetupTwoFactorMutation,
+  useVerifyTwoFactorSetupMutation,
+  useDisableTwoFactorMutation,
+  useGetRecoveryCodeStatusQuery,
+  useRegenerateRecoveryCodesMutation,
+} = twoFactorApi;
@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Loader2, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/useApiError';
+import { useWebAuthnSupport } from '@/modules/auth/hooks';
+import { createPasskey, isPasskeyCancelled } from '@/modules/auth/utils';
+import {
+  useGetPasskeyRegistrationOptionsMutation,
+  useVerifyPasskeyRegistrationMutation,
+} from '../api';
+
+/**
+ * AddPasskeyButton Component
+ * Registers a new passkey on this device (or a phone/security key)
+ */
+export function AddPasskeyButton() {
+  const t = useTranslations('settings.accounts.passkeys');
+  const { handleError } = useApiError();
+  const [getOptions, { isLoading: isLoadingOptions }] = useGetPasskeyRegistrationOptionsMutation();
+  const [verifyRegistration, { isLoading: isVerifying }] = useVerifyPasskeyRegistrationMutation();
+  const [isPrompting, setIsPrompting] = useState(false);
+  const isSupported = useWebAuthnSupport(true);
+
+  const isLoading = isLoadingOptions || isPrompting || isVerifying;
+
+  const handleAdd = async () => {
+    try {
+      const options = await getOptions().unwrap();
+
+      setIsPrompting(true);
+      const credential = await createPasskey(options).finally(() => setIsPrompting(false));
+
+      const passkey = await verifyRegistration({ credential }).unwrap();
+      toast.success(t('addSuccess', { name: passkey.name }));
+    } catch (error) {
+      if (isPasskeyCancelled(error)) {
+        toast.info(t('cancelled'));
+        return;
+      }
+
+      handleError(error, true);
+    }
+  };
+
+  if (!isSupported) {
+    return <p className="text-sm text-muted-foreground">{t('unsupported')}</p>;
+  }
+
+  return (
+    <Button
+      variant="outline"
+      onClick={handleAdd}
+      disabled={isLoading}
+      data-testid="passkey-add"
+      aria-busy={isLoading}
+    >
+      {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+      <span>{t('add')}</span>
+    </Button>
+  );
+}
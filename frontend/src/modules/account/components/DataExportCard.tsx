@@ -0,0 +1,120 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Download, Loader2, MailCheck } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { useApiError } from '@/hooks/useApiError';
+import { useRequestDataExportMutation, getDataExportDownloadUrl } from '../api';
+import type { DataExportFormat } from '../types';
+
+interface DataExportCardProps {
+  /** Export id from the emailed download link */
+  exportId?: string;
+  /** Download token from the emailed download link */
+  exportToken?: string;
+}
+
+/**
+ * DataExportCard Component
+ * Lets users request a copy of everything stored about them. The export is
+ * generated in the background and the download link is emailed; opening that
+ * link brings the user back here with the download button shown.
+ */
+export function DataExportCard({ exportId, exportToken }: DataExportCardProps) {
+  const t = useTranslations('settings.dataExport');
+  const { getErrorMessage } = useApiError();
+  const [format, setFormat] = useState<DataExportFormat>('json');
+  const [requestExport, { isLoading, isSuccess }] = useRequestDataExportMutation();
+
+  const handleRequest = async () => {
+    try {
+      await requestExport({ format }).unwrap();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Card data-testid="data-export-card">
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {exportId && exportToken && (
+          <div
+            className="flex items-center justify-between gap-4 rounded-md border border-green-200 bg-green-50 p-3 text-sm dark:border-green-900 dark:bg-green-900/20"
+            data-testid="data-export-ready"
+          >
+            <span>{t('ready')}</span>
+            <Button asChild size="sm">
+              <a
+                href={getDataExportDownloadUrl(exportId, exportToken)}
+                data-testid="data-export-download"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {t('download')}
+              </a>
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">{t('format')}</Label>
+          <RadioGroup
+            value={format}
+            onValueChange={(value) => setFormat(value as DataExportFormat)}
+            disabled={isLoading}
+            data-testid="data-export-format"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="json" id="data-export-json" />
+              <Label htmlFor="data-export-json" className="font-normal">
+                {t('formatJson')}
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="zip" id="data-export-zip" />
+              <Label htmlFor="data-export-zip" className="font-normal">
+                {t('formatZip')}
+              </Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        {isSuccess && (
+          <p
+            className="flex items-start gap-2 text-sm text-muted-foreground"
+            role="status"
+            data-testid="data-export-requested"
+          >
+            <MailCheck className="mt-0.5 h-4 w-4 shrink-0" />
+            {t('requested')}
+          </p>
+        )}
+
+        <Button
+          onClick={handleRequest}
+          disabled={isLoading}
+          className="w-full"
+          data-testid="data-export-submit"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {t('submit')}...
+            </>
+          ) : (
+            t('submit')
+          )}
+        </Button>
+        <p className="text-xs text-muted-foreground">{t('expiresHint')}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { useLinkProviderMutation } from '../api';
 import {
   useGetAuthorizationUrlQuery,
+  useGetEnabledProvidersQuery,
   getOAuthProviderIconPath,
   formatProviderName,
   openOAuthPopup,
@@ -32,6 +33,8 @@ export function LinkProviderButton({
 }: LinkProviderButtonProps) {
   const t = useTranslations('settings.accounts');
   const [isLinking, setIsLinking] = useState(false);
+  const { data: providersData } = useGetEnabledProvidersQuery();
+  const providerName = formatProviderName(provider, providersData?.displayNames);
 
   const { data: authUrlData, isLoading: isFetchingUrl } = useGetAuthorizationUrlQuery(provider, {
     skip: isLinking || disabled,
@@ -41,7 +44,7 @@ export function LinkProviderButton({
 
   const handleLinkClick = async () => {
     if (!authUrlData?.url) {
-      toast.error(t('linkError', { provider: formatProviderName(provider) }));
+      toast.error(t('linkError', { provider: providerName }));
       return;
     }
 
@@ -61,7 +64,7 @@ export function LinkProviderButton({
         state: callbackData.state,
       }).unwrap();
 
-      toast.success(t('linkSuccess', { provider: formatProviderName(provider) }));
+      toast.success(t('linkSuccess', { provider: providerName }));
       onLinkSuccess?.();
     } catch (error: unknown) {
       const err = error as Error & { data?: { message?: string } };
@@ -70,9 +73,7 @@ export function LinkProviderButton({
       } else if (err.message === 'OAuth authorization was cancelled') {
         toast.info(t('linkCancelled'));
       } else {
-        toast.error(
-          err?.data?.message || t('linkError', { provider: formatProviderName(provider) }),
-        );
+        toast.error(err?.data?.message || t('linkError', { provider: providerName }));
       }
     } finally {
       setIsLinking(false);
@@ -89,16 +90,14 @@ export function LinkProviderButton({
       {isLinking || isFetchingUrl ? (
         <>
           <Loader2 className="h-5 w-5 shrink-0 animate-spin" />
-          <span className="ml-2">
-            {t('connecting', { provider: formatProviderName(provider) })}
-          </span>
+          <span className="ml-2">{t('connecting', { provider: providerName })}</span>
         </>
       ) : (
         <>
           <svg className="h-5 w-5 shrink-0" viewBox="0 0 24 24" fill="currentColor">
             <path d={getOAuthProviderIconPath(provider)} />
           </svg>
-          <span className="ml-2">{t('linkWith', { provider: formatProviderName(provider) })}</span>
+          <span className="ml-2">{t('linkWith', { provider: providerName })}</span>
         </>
       )}
     </Button>
@@ -18,7 +18,13 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { useUnlinkProviderMutation, useSetPrimaryProviderMutation } from '../api';
-import { getOAuthProviderIconPath, formatProviderName, type OAuthProvider } from '@/modules/oauth';
+import {
+  useGetEnabledProvidersQuery,
+  getOAuthProviderIconPath,
+  formatProviderName,
+  isBuiltInOAuthProvider,
+  type OAuthProvider,
+} from '@/modules/oauth';
 
 interface LinkedAccountCardProps {
   provider: string;
@@ -39,6 +45,10 @@ export function LinkedAccountCard({
 }: LinkedAccountCardProps) {
   const t = useTranslations('settings.accounts');
   const [showUnlinkDialog, setShowUnlinkDialog] = useState(false);
+  const { data: providersData } = useGetEnabledProvidersQuery();
+  const providerName = formatProviderName(provider, providersData?.displayNames);
+  // OIDC providers cannot be used for profile sync
+  const canBePrimary = isBuiltInOAuthProvider(provider.toLowerCase());
 
   const [unlinkProvider, { isLoading: isUnlinking }] = useUnlinkProviderMutation();
   const [setPrimaryProvider, { isLoading: isSettingPrimary }] = useSetPrimaryProviderMutation();
@@ -46,14 +56,12 @@ export function LinkedAccountCard({
   const handleUnlink = async () => {
     try {
       await unlinkProvider(provider.toLowerCase() as OAuthProvider).unwrap();
-      toast.success(t('unlinkSuccess', { provider: formatProviderName(provider) }));
+      toast.success(t('unlinkSuccess', { provider: providerName }));
       onLinkSuccess?.();
       setShowUnlinkDialog(false);
     } catch (error: unknown) {
       const err = error as { data?: { message?: string } };
-      toast.error(
-        err?.data?.message || t('unlinkError', { provider: formatProviderName(provider) }),
-      );
+      toast.error(err?.data?.message || t('unlinkError', { provider: providerName }));
     }
   };
 
@@ -62,13 +70,11 @@ export function LinkedAccountCard({
       await setPrimaryProvider({
         provider: provider.toLowerCase() as OAuthProvider,
       }).unwrap();
-      toast.success(t('setPrimarySuccess', { provider: formatProviderName(provider) }));
+      toast.success(t('setPrimarySuccess', { provider: providerName }));
       onLinkSuccess?.();
     } catch (error: unknown) {
       const err = error as { data?: { message?: string } };
-      toast.error(
-        err?.data?.message || t('setPrimaryError', { provider: formatProviderName(provider) }),
-      );
+      toast.error(err?.data?.message || t('setPrimaryError', { provider: providerName }));
     }
   };
 
@@ -86,7 +92,7 @@ export function LinkedAccountCard({
 
               <div className="min-w-0 flex-1">
                 <div className="flex flex-wrap items-center gap-2">
-                  <h3 className="font-medium">{formatProviderName(provider)}</h3>
+                  <h3 className="font-medium">{providerName}</h3>
                   {isPrimary && (
                     <Badge variant="default" className="text-xs">
                       <CheckCircle2 className="mr-1 h-3 w-3" />
@@ -101,7 +107,7 @@ export function LinkedAccountCard({
             </div>
 
             <div className="flex w-full flex-col gap-2 lg:w-auto lg:flex-row lg:shrink-0">
-              {!isPrimary && (
+              {!isPrimary && canBePrimary && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -149,7 +155,7 @@ export function LinkedAccountCard({
             <AlertDialogTitle>{t('unlinkConfirmTitle')}</AlertDialogTitle>
             <AlertDialogDescription>
               {t('unlinkConfirmDescription', {
-                provider: formatProviderName(provider),
+                provider: providerName,
               })}
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -5,14 +5,16 @@ import { AlertCircle } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { useGetLinkedProvidersQuery } from '../api';
+import { useGetLinkedProvidersQuery, useGetPasskeysQuery } from '../api';
 import { useGetEnabledProvidersQuery, type OAuthProvider } from '@/modules/oauth';
 import { LinkedAccountCard } from './LinkedAccountCard';
 import { LinkProviderButton } from './LinkProviderButton';
+import { PasskeyCard } from './PasskeyCard';
+import { AddPasskeyButton } from './AddPasskeyButton';
 
 /**
  * LinkedAccounts Component
- * Displays all linked OAuth providers and allows managing them
+ * Displays all linked OAuth providers and passkeys and allows managing them
  */
 export function LinkedAccounts() {
   const t = useTranslations('settings.accounts');
@@ -25,6 +27,8 @@ export function LinkedAccounts() {
 
   const { data: enabledProvidersData, isLoading: isLoadingEnabled } = useGetEnabledProvidersQuery();
 
+  const { data: passkeys = [], isLoading: isLoadingPasskeys } = useGetPasskeysQuery();
+
   const linkedProviders = linkedProvidersData?.providers || [];
   const primaryProvider = linkedProvidersData?.primaryProvider;
   const enabledProviders = enabledProvidersData?.providers || [];
@@ -35,7 +39,7 @@ export function LinkedAccounts() {
 
   const canUnlink = linkedProviders.length > 1;
 
-  if (isLoadingLinked || isLoadingEnabled) {
+  if (isLoadingLinked || isLoadingEnabled || isLoadingPasskeys) {
     return (
       <Card>
         <CardHeader>
@@ -81,6 +85,23 @@ export function LinkedAccounts() {
           </Alert>
         )}
 
+        <div className="space-y-4" data-testid="passkeys-section">
+          <div className="space-y-1">
+            <h3 className="text-sm font-medium">{t('passkeys.title')}</h3>
+            <p className="text-sm text-muted-foreground">{t('passkeys.description')}</p>
+          </div>
+          {passkeys.length > 0 ? (
+            <div className="space-y-3">
+              {passkeys.map((passkey) => (
+                <PasskeyCard key={passkey.id} passkey={passkey} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{t('passkeys.empty')}</p>
+          )}
+          <AddPasskeyButton />
+        </div>
+
         {availableProviders.length > 0 && (
           <div className="space-y-4">
             <h3 className="text-sm font-medium">{t('availableProvidersLabel')}</h3>
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import { KeyRound, Loader2, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useApiError } from '@/hooks/useApiError';
+import { useDeletePasskeyMutation, useRenamePasskeyMutation } from '../api';
+import type { Passkey } from '../types';
+
+interface PasskeyCardProps {
+  passkey: Passkey;
+}
+
+/**
+ * PasskeyCard Component
+ * Displays a registered passkey with options to rename or remove it
+ */
+export function PasskeyCard({ passkey }: PasskeyCardProps) {
+  const t = useTranslations('settings.accounts.passkeys');
+  const { handleError } = useApiError();
+  const [showRemoveDialog, setShowRemoveDialog] = useState(false);
+  const [showRenameDialog, setShowRenameDialog] = useState(false);
+  const [name, setName] = useState(passkey.name);
+
+  const [deletePasskey, { isLoading: isDeleting }] = useDeletePasskeyMutation();
+  const [renamePasskey, { isLoading: isRenaming }] = useRenamePasskeyMutation();
+
+  const handleRemove = async () => {
+    try {
+      await deletePasskey(passkey.id).unwrap();
+      toast.success(t('removeSuccess', { name: passkey.name }));
+      setShowRemoveDialog(false);
+    } catch (error) {
+      handleError(error, true);
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    try {
+      await renamePasskey({ id: passkey.id, name: trimmed }).unwrap();
+      toast.success(t('renameSuccess'));
+      setShowRenameDialog(false);
+    } catch (error) {
+      handleError(error, true);
+    }
+  };
+
+  const openRenameDialog = () => {
+    setName(passkey.name);
+    setShowRenameDialog(true);
+  };
+
+  return (
+    <>
+      <Card className="overflow-hidden" data-testid="passkey-card">
+        <CardContent className="p-4">
+          <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between flex-wrap">
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-muted">
+                <KeyRound className="h-5 w-5" />
+              </div>
+
+              <div className="min-w-0 flex-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h3 className="font-medium">{passkey.name}</h3>
+                  {passkey.backedUp && (
+                    <Badge variant="outline" className="text-xs">
+                      {t('synced')}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {t('added', {
+                    time: formatDistanceToNow(new Date(passkey.createdAt), { addSuffix: true }),
+                  })}
+                  {' · '}
+                  {passkey.lastUsedAt
+                    ? t('lastUsed', {
+                        time: formatDistanceToNow(new Date(passkey.lastUsedAt), {
+                          addSuffix: true,
+                        }),
+                      })
+                    : t('neverUsed')}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex w-full flex-col gap-2 lg:w-auto lg:flex-row lg:shrink-0">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={openRenameDialog}
+                disabled={isDeleting || isRenaming}
+                className="w-full whitespace-nowrap lg:w-auto"
+                data-testid="passkey-rename"
+              >
+                <Pencil className="h-4 w-4 shrink-0" />
+                <span>{t('rename')}</span>
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => setShowRemoveDialog(true)}
+                disabled={isDeleting || isRenaming}
+                className="w-full whitespace-nowrap lg:w-auto"
+                data-testid="passkey-remove"
+              >
+                {isDeleting ? (
+                  <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+                ) : (
+                  <>
+                    <Trash2 className="h-4 w-4 shrink-0" />
+                    <span>{t('remove')}</span>
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showRenameDialog} onOpenChange={setShowRenameDialog}>
+        <DialogContent>
+          <form onSubmit={handleRename} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{t('renameTitle')}</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={64}
+              aria-label={t('nameLabel')}
+              autoFocus
+              data-testid="passkey-rename-input"
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowRenameDialog(false)}>
+                {t('cancel')}
+              </Button>
+              <Button type="submit" disabled={isRenaming || !name.trim()}>
+                {isRenaming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('save')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showRemoveDialog} onOpenChange={setShowRemoveDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('removeConfirmTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('removeConfirmDescription', { name: passkey.name })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t('confirmRemove')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -47,7 +47,7 @@ export function ProfileSyncStatus() {
       const provider = response.provider.toLowerCase() as OAuthProvider;
 
       const authUrlResult = await dispatch(
-        oauthApi.endpoints.getAuthorizationUrl.initiate(provider),
+        oauthApi.endpoints.getAuthorizationUrl.initiate(provider, { forceRefetch: true }),
       ).unwrap();
 
       if (!authUrlResult?.url) {
@@ -0,0 +1,289 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FormInput } from '@/components/forms';
+import { useApiError } from '@/hooks/useApiError';
+import { useGetCurrentUserQuery } from '@/modules/auth/store';
+import {
+  useSetupTwoFactorMutation,
+  useVerifyTwoFactorSetupMutation,
+  useDisableTwoFactorMutation,
+  useGetRecoveryCodeStatusQuery,
+  useRegenerateRecoveryCodesMutation,
+} from '../api';
+import type { TwoFactorSetupResponse } from '../types';
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+type TwoFactorCodeFormData = z.infer<typeof twoFactorCodeSchema>;
+
+/** Warn the user once this few recovery codes are left */
+const LOW_RECOVERY_CODES = 3;
+
+/**
+ * TwoFactorCard Component
+ * Lets users enrol an authenticator app (TOTP), manage their recovery codes
+ * or turn two-factor authentication off
+ */
+export function TwoFactorCard() {
+  const t = useTranslations('settings.twoFactor');
+  const { handleError } = useApiError();
+  const { data: user } = useGetCurrentUserQuery();
+  const [setupTwoFactor, { isLoading: isStarting }] = useSetupTwoFactorMutation();
+  const [verifySetup, { isLoading: isVerifying }] = useVerifyTwoFactorSetupMutation();
+  const [disableTwoFactor, { isLoading: isDisabling }] = useDisableTwoFactorMutation();
+  const [regenerateRecoveryCodes, { isLoading: isRegenerating }] =
+    useRegenerateRecoveryCodesMutation();
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  // Freshly issued recovery codes; they are only available until dismissed
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isRegenerateMode, setIsRegenerateMode] = useState(false);
+
+  const isEnabled = !!user?.twoFactorEnabled;
+  const isLoading = isStarting || isVerifying || isDisabling || isRegenerating;
+
+  const { data: recoveryStatus } = useGetRecoveryCodeStatusQuery(undefined, {
+    skip: !isEnabled,
+  });
+
+  const form = useForm<TwoFactorCodeFormData>({
+    resolver: zodResolver(twoFactorCodeSchema),
+    defaultValues: { code: '' },
+  });
+
+  const handleStart = async () => {
+    try {
+      const result = await setupTwoFactor().unwrap();
+      setSetup(result);
+      form.reset();
+    } catch (error) {
+      handleError(error, true);
+    }
+  };
+
+  const onSubmit = async (data: TwoFactorCodeFormData) => {
+    try {
+      if (isEnabled && isRegenerateMode) {
+        const result = await regenerateRecoveryCodes({ code: data.code }).unwrap();
+        setRecoveryCodes(result.recoveryCodes);
+        setIsRegenerateMode(false);
+        toast.success(t('regenerateSuccess'));
+      } else if (isEnabled) {
+        await disableTwoFactor({ code: data.code }).unwrap();
+        setRecoveryCodes(null);
+        toast.success(t('disableSuccess'));
+      } else {
+        const result = await verifySetup({ code: data.code }).unwrap();
+        setSetup(null);
+        setRecoveryCodes(result.recoveryCodes);
+        toast.success(t('enableSuccess'));
+      }
+      form.reset();
+    } catch (error) {
+      handleError(error, true);
+      form.setValue('code', '');
+    }
+  };
+
+  const handleCopyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success(t('recoveryCopied'));
+    } catch (error) {
+      handleError(error, true);
+    }
+  };
+
+  const handleCancelRegenerate = () => {
+    setIsRegenerateMode(false);
+    form.reset();
+  };
+
+  const showCodeForm = (isEnabled && !recoveryCodes) || !!setup;
+  const remaining = recoveryStatus?.remaining;
+
+  const codeLabel = !isEnabled
+    ? t('codeLabel')
+    : isRegenerateMode
+      ? t('regenerateCodeLabel')
+      : t('disableCodeLabel');
+
+  const submitLabel = !isEnabled
+    ? t('verify')
+    : isRegenerateMode
+      ? t('regenerateSubmit')
+      : t('disable');
+
+  return (
+    <Card data-testid="two-factor-card">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>{t('title')}</CardTitle>
+          <Badge variant={isEnabled ? 'default' : 'outline'} data-testid="two-factor-status">
+            {isEnabled ? t('enabled') : t('disabled')}
+          </Badge>
+        </div>
+        <CardDescription>{t('description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isEnabled && !setup && (
+          <Button
+            onClick={handleStart}
+            disabled={isLoading}
+            className="w-full"
+            data-testid="two-factor-enable"
+          >
+            {isStarting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="mr-2 h-4 w-4" />
+            )}
+            {t('enable')}
+          </Button>
+        )}
+
+        {!isEnabled && setup && (
+          <div className="space-y-2 text-sm" data-testid="two-factor-setup">
+            <p className="text-muted-foreground">{t('setupInstructions')}</p>
+            <a
+              href={setup.otpauthUri}
+              className="text-primary underline underline-offset-4"
+              data-testid="two-factor-otpauth-link"
+            >
+              {t('openAuthenticator')}
+            </a>
+            <p className="text-muted-foreground">{t('manualEntry')}</p>
+            <code
+              className="block break-all rounded-md bg-muted px-3 py-2 font-mono"
+              data-testid="two-factor-secret"
+            >
+              {setup.secret}
+            </code>
+          </div>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-3 text-sm" data-testid="two-factor-recovery-codes">
+            <p className="font-medium">{t('recoveryCodesShown')}</p>
+            <ul className="grid grid-cols-2 gap-2 rounded-md bg-muted px-3 py-2 font-mono">
+              {recoveryCodes.map((code) => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCopyRecoveryCodes}
+                className="flex-1"
+                data-testid="two-factor-recovery-copy"
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                {t('recoveryCopy')}
+              </Button>
+              <Button
+                type="button"
+                onClick={() => setRecoveryCodes(null)}
+                className="flex-1"
+                data-testid="two-factor-recovery-done"
+              >
+                {t('recoveryDone')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isEnabled && !recoveryCodes && (
+          <div className="space-y-2 text-sm" data-testid="two-factor-recovery-status">
+            <p className="font-medium">{t('recoveryTitle')}</p>
+            <p className="text-muted-foreground">{t('recoveryDescription')}</p>
+            {remaining !== undefined && (
+              <p
+                className={remaining <= LOW_RECOVERY_CODES ? 'text-destructive' : undefined}
+                data-testid="two-factor-recovery-remaining"
+              >
+                {t('recoveryRemaining', { count: remaining })}
+                {remaining <= LOW_RECOVERY_CODES && ` ${t('recoveryLow')}`}
+              </p>
+            )}
+            {!isRegenerateMode && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setIsRegenerateMode(true)}
+                disabled={isLoading}
+                className="w-full"
+                data-testid="two-factor-recovery-regenerate"
+              >
+                <KeyRound className="mr-2 h-4 w-4" />
+                {t('regenerate')}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {showCodeForm && (
+          <FormProvider {...form}>
+            <form
+              onSubmit={form.handleSubmit(onSubmit)}
+              className="space-y-4"
+              data-testid="two-factor-code-form"
+            >
+              <FormInput<TwoFactorCodeFormData>
+                name="code"
+                label={codeLabel}
+                placeholder="123456"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                maxLength={6}
+                disabled={isLoading}
+                data-testid="two-factor-settings-code-input"
+              />
+
+              <div className="flex gap-2">
+                {((setup && !isEnabled) || isRegenerateMode) && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={isRegenerateMode ? handleCancelRegenerate : () => setSetup(null)}
+                    disabled={isLoading}
+                    className="flex-1"
+                  >
+                    {t('cancel')}
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  variant={isEnabled && !isRegenerateMode ? 'destructive' : 'default'}
+                  disabled={isLoading}
+                  className="flex-1"
+                  data-testid="two-factor-code-submit"
+                >
+                  {isVerifying || isDisabling || isRegenerating ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    isEnabled && !isRegenerateMode && <ShieldOff className="mr-2 h-4 w-4" />
+                  )}
+                  {submitLabel}
+                </Button>
+              </div>
+            </form>
+          </FormProvider>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
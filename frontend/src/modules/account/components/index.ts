@@ -1,6 +1,10 @@
 export { LinkedAccounts } from './LinkedAccounts';
 export { LinkedAccountCard } from './LinkedAccountCard';
 export { LinkProviderButton } from './LinkProviderButton';
+export { PasskeyCard } from './PasskeyCard';
+export { AddPasskeyButton } from './AddPasskeyButton';
 export { ProfileSyncStatus } from './ProfileSyncStatus';
 export { ChangePasswordCard } from './ChangePasswordCard';
 export { UpdateProfileCard } from './UpdateProfileCard';
+export { TwoFactorCard } from './TwoFactorCard';
+export { DataExportCard } from './DataExportCard';
@@ -3,9 +3,13 @@ export {
   LinkedAccounts,
   LinkedAccountCard,
   LinkProviderButton,
+  PasskeyCard,
+  AddPasskeyButton,
   ProfileSyncStatus,
   ChangePasswordCard,
   UpdateProfileCard,
+  TwoFactorCard,
+  DataExportCard,
 } from './components';
 
 // API hooks
@@ -16,6 +20,18 @@ export {
   useSetPrimaryProviderMutation,
   useGetSyncStatusQuery,
   useInitiateProfileSyncMutation,
+  useSetupTwoFactorMutation,
+  useVerifyTwoFactorSetupMutation,
+  useDisableTwoFactorMutation,
+  useGetRecoveryCodeStatusQuery,
+  useRegenerateRecoveryCodesMutation,
+  useGetPasskeysQuery,
+  useGetPasskeyRegistrationOptionsMutation,
+  useVerifyPasskeyRegistrationMutation,
+  useRenamePasskeyMutation,
+  useDeletePasskeyMutation,
+  useRequestDataExportMutation,
+  getDataExportDownloadUrl,
 } from './api';
 
 // Types
@@ -26,4 +42,14 @@ export type {
   ProfileSyncStatus as ProfileSyncStatusType,
   ManualSyncResponse,
   AccountUser,
+  TwoFactorSetupResponse,
+  TwoFactorCodeRequest,
+  TwoFactorRecoveryCodesResponse,
+  TwoFactorRecoveryStatus,
+  Passkey,
+  VerifyPasskeyRegistrationRequest,
+  RenamePasskeyRequest,
+  DataExportFormat,
+  DataExportRequest,
+  DataExportResponse,
 } from './types';
@@ -1,4 +1,5 @@
 import type { OAuthProvider } from '@/modules/oauth';
+import type { PasskeyRegistrationCredential } from '@/modules/auth/types/auth.types';
 
 /**
  * Response type for linked providers endpoint
@@ -51,5 +52,86 @@ export interface AccountUser {
   email: string;
   name: string;
   role: string;
+  roles: string[];
   permissions: string[];
+  twoFactorEnabled?: boolean;
+}
+
+/**
+ * Two-factor enrolment response
+ */
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Request carrying an authenticator-app code
+ */
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+/**
+ * Recovery codes issued when 2FA is enabled or the codes are regenerated
+ */
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+/**
+ * Number of unused recovery codes
+ */
+export interface TwoFactorRecoveryStatus {
+  remaining: number;
+}
+
+/**
+ * Passkey registered to the current user
+ */
+export interface Passkey {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * Request to finish registering a passkey
+ */
+export interface VerifyPasskeyRegistrationRequest {
+  name?: string;
+  credential: PasskeyRegistrationCredential;
+}
+
+/**
+ * Request to rename a passkey
+ */
+export interface RenamePasskeyRequest {
+  id: string;
+  name: string;
+}
+
+/**
+ * File format of a personal data export
+ */
+export type DataExportFormat = 'json' | 'zip';
+
+/**
+ * Request to export the current user's data
+ */
+export interface DataExportRequest {
+  format: DataExportFormat;
+}
+
+/**
+ * Data export that is being generated; the download link is emailed when it is ready
+ */
+export interface DataExportResponse {
+  id: string;
+  format: DataExportFormat;
+  status: 'pending' | 'ready' | 'failed';
+  expiresAt: string;
 }
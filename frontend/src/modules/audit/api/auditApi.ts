@@ -0,0 +1,40 @@
+import { baseApi, API_BASE_URL } from '@/store/api/baseApi';
+import type { AuditLogExportFormat, AuditLogFilters, AuditLogPage } from '../types';
+
+/**
+ * Audit API
+ * RTK Query endpoints for browsing the audit log
+ */
+export const auditApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    /**
+     * Audit log entries matching the filters, loaded a page at a time
+     */
+    listAuditLogs: builder.infiniteQuery<AuditLogPage, AuditLogFilters, string | undefined>({
+      infiniteQueryOptions: {
+        initialPageParam: undefined,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+      },
+      query: ({ queryArg, pageParam }) => ({
+        url: '/api/admin/audit',
+        params: { ...queryArg, cursor: pageParam },
+      }),
+      transformResponse: (response: { success: boolean; data: AuditLogPage }) => response.data,
+      providesTags: ['AuditLogs'],
+    }),
+  }),
+});
+
+/**
+ * URL of the filtered audit log as a CSV or JSON file
+ * Opened directly by the browser so the file is saved as a download.
+ */
+export const getAuditLogExportUrl = (filters: AuditLogFilters, format: AuditLogExportFormat) => {
+  const params = new URLSearchParams({ format });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return `${API_BASE_URL}/api/admin/audit/export?${params.toString()}`;
+};
+
+export const { useListAuditLogsInfiniteQuery } = auditApi;
@@ -0,0 +1,100 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { cn } from '@/lib/utils';
+import type { AuditChanges } from '../types';
+
+interface AuditDiffViewerProps {
+  changes: AuditChanges;
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+/**
+ * Side-by-side list items for array fields such as permissions,
+ * so additions and removals stand out
+ */
+function ArrayDiff({ before, after }: { before: unknown[]; after: unknown[] }) {
+  const beforeKeys = new Set(before.map((item) => JSON.stringify(item)));
+  const afterKeys = new Set(after.map((item) => JSON.stringify(item)));
+
+  const renderList = (items: unknown[], other: Set<string>, changedClass: string) => (
+    <ul className="space-y-0.5">
+      {items.map((item) => {
+        const key = JSON.stringify(item);
+        return (
+          <li key={key} className={cn('font-mono', !other.has(key) && changedClass)}>
+            {formatValue(item)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <>
+      <td className="p-2 align-top">
+        {renderList(before, afterKeys, 'rounded bg-red-500/10 text-red-700 dark:text-red-400')}
+      </td>
+      <td className="p-2 align-top">
+        {renderList(
+          after,
+          beforeKeys,
+          'rounded bg-green-500/10 text-green-700 dark:text-green-400',
+        )}
+      </td>
+    </>
+  );
+}
+
+/**
+ * AuditDiffViewer Component
+ * Shows the before and after value of every field an audited action changed.
+ */
+export function AuditDiffViewer({ changes }: AuditDiffViewerProps) {
+  const t = useTranslations('audit.diff');
+  const fields = Array.from(
+    new Set([...Object.keys(changes.before ?? {}), ...Object.keys(changes.after ?? {})]),
+  );
+
+  return (
+    <table className="w-full table-fixed text-xs" data-testid="audit-diff">
+      <thead>
+        <tr className="border-b text-left text-muted-foreground">
+          <th className="w-1/5 p-2 font-medium">{t('field')}</th>
+          <th className="p-2 font-medium">{t('before')}</th>
+          <th className="p-2 font-medium">{t('after')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map((field) => {
+          const before = changes.before?.[field];
+          const after = changes.after?.[field];
+
+          return (
+            <tr key={field} className="border-b last:border-0">
+              <td className="p-2 align-top font-medium">{field}</td>
+              {Array.isArray(before) && Array.isArray(after) ? (
+                <ArrayDiff before={before} after={after} />
+              ) : (
+                <>
+                  <td className="p-2 align-top">
+                    <pre className="whitespace-pre-wrap break-all rounded bg-red-500/10 p-1 text-red-700 dark:text-red-400">
+                      {formatValue(before)}
+                    </pre>
+                  </td>
+                  <td className="p-2 align-top">
+                    <pre className="whitespace-pre-wrap break-all rounded bg-green-500/10 p-1 text-green-700 dark:text-green-400">
+                      {formatValue(after)}
+                    </pre>
+                  </td>
+                </>
+              )}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
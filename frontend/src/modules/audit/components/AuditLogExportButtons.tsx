@@ -0,0 +1,36 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getAuditLogExportUrl } from '../api';
+import type { AuditLogFilters } from '../types';
+
+interface AuditLogExportButtonsProps {
+  filters: AuditLogFilters;
+}
+
+/**
+ * AuditLogExportButtons Component
+ * Downloads the entries matching the current filters as CSV or JSON.
+ */
+export function AuditLogExportButtons({ filters }: AuditLogExportButtonsProps) {
+  const t = useTranslations('audit.export');
+
+  return (
+    <div className="flex gap-2">
+      <Button asChild variant="outline" size="sm">
+        <a href={getAuditLogExportUrl(filters, 'csv')} data-testid="audit-export-csv">
+          <Download className="mr-2 h-4 w-4" />
+          {t('csv')}
+        </a>
+      </Button>
+      <Button asChild variant="outline" size="sm">
+        <a href={getAuditLogExportUrl(filters, 'json')} data-testid="audit-export-json">
+          <Download className="mr-2 h-4 w-4" />
+          {t('json')}
+        </a>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AUDIT_ACTIONS, type AuditAction, type AuditLogFilters } from '../types';
+import { getAuditActionKey } from './AuditLogItem';
+
+const ALL_ACTIONS = 'all';
+
+interface AuditLogFilterBarProps {
+  onApply: (filters: AuditLogFilters) => void;
+}
+
+/**
+ * AuditLogFilterBar Component
+ * Actor, target user, action and date range filters for the audit log.
+ * Dates are picked in the browser's time zone and sent as whole days.
+ */
+export function AuditLogFilterBar({ onApply }: AuditLogFilterBarProps) {
+  const t = useTranslations('audit.filters');
+  const tActions = useTranslations('audit.actions');
+  const [actor, setActor] = useState('');
+  const [targetUser, setTargetUser] = useState('');
+  const [action, setAction] = useState<string>(ALL_ACTIONS);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onApply({
+      actor: actor.trim() || undefined,
+      targetUser: targetUser.trim() || undefined,
+      action: action === ALL_ACTIONS ? undefined : (action as AuditAction),
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    });
+  };
+
+  const handleClear = () => {
+    setActor('');
+    setTargetUser('');
+    setAction(ALL_ACTIONS);
+    setFrom('');
+    setTo('');
+    onApply({});
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5"
+      data-testid="audit-filters"
+    >
+      <div className="space-y-2">
+        <Label htmlFor="audit-actor">{t('actor')}</Label>
+        <Input
+          id="audit-actor"
+          value={actor}
+          onChange={(e) => setActor(e.target.value)}
+          placeholder={t('userPlaceholder')}
+          data-testid="audit-filter-actor"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-target-user">{t('targetUser')}</Label>
+        <Input
+          id="audit-target-user"
+          value={targetUser}
+          onChange={(e) => setTargetUser(e.target.value)}
+          placeholder={t('userPlaceholder')}
+          data-testid="audit-filter-target-user"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-action">{t('action')}</Label>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger id="audit-action" data-testid="audit-filter-action">
+            <SelectValue placeholder={t('allActions')} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ACTIONS}>{t('allActions')}</SelectItem>
+            {AUDIT_ACTIONS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {tActions(getAuditActionKey(value))}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-from">{t('from')}</Label>
+        <Input
+          id="audit-from"
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => setFrom(e.target.value)}
+          data-testid="audit-filter-from"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="audit-to">{t('to')}</Label>
+        <Input
+          id="audit-to"
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => setTo(e.target.value)}
+          data-testid="audit-filter-to"
+        />
+      </div>
+      <div className="flex gap-2 sm:col-span-2 lg:col-span-5">
+        <Button type="submit" size="sm" data-testid="audit-filter-apply">
+          {t('apply')}
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+          {t('clear')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { AuditAction, AuditLogEntry, AuditUser } from '../types';
+import { AuditDiffViewer } from './AuditDiffViewer';
+
+/**
+ * Translation key for an action, e.g. "session.revoked_all" -> "sessionRevokedAll"
+ */
+export const getAuditActionKey = (action: AuditAction) =>
+  action.replace(/[._](\w)/g, (_, letter: string) => letter.toUpperCase());
+
+interface AuditLogItemProps {
+  entry: AuditLogEntry;
+}
+
+/**
+ * AuditLogItem Component
+ * One audit log entry; expands to show the before/after diff and metadata.
+ */
+export function AuditLogItem({ entry }: AuditLogItemProps) {
+  const t = useTranslations('audit.entry');
+  const tActions = useTranslations('audit.actions');
+  const [expanded, setExpanded] = useState(false);
+  const hasDetails = !!entry.changes || !!entry.metadata;
+
+  const formatUser = (user?: AuditUser) =>
+    user ? user.email || user.name || t('erasedUser', { id: user.id }) : t('system');
+
+  return (
+    <div className="rounded-lg border bg-card p-4" data-testid="audit-log-item">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary" className="font-mono">
+              {entry.action}
+            </Badge>
+            <span className="text-sm font-medium">{tActions(getAuditActionKey(entry.action))}</span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {t('summary', {
+              actor: formatUser(entry.actor),
+              target: entry.targetUser
+                ? formatUser(entry.targetUser)
+                : `${entry.targetType} ${entry.targetId}`,
+            })}
+          </p>
+          <p className="text-xs text-muted-foreground/70">
+            {[entry.ip, entry.userAgent].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        <time className="text-xs text-muted-foreground" dateTime={entry.createdAt}>
+          {new Date(entry.createdAt).toLocaleString()}
+        </time>
+      </div>
+
+      {hasDetails && (
+        <div className="mt-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="-ml-2 h-7 px-2 text-xs"
+            onClick={() => setExpanded((value) => !value)}
+            aria-expanded={expanded}
+            data-testid="audit-log-item-toggle"
+          >
+            {expanded ? (
+              <ChevronDown className="mr-1 h-3 w-3" />
+            ) : (
+              <ChevronRight className="mr-1 h-3 w-3" />
+            )}
+            {expanded ? t('hideDetails') : t('showDetails')}
+          </Button>
+
+          {expanded && (
+            <div className="mt-2 space-y-3">
+              {entry.changes && <AuditDiffViewer changes={entry.changes} />}
+              {entry.metadata && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">{t('metadata')}</p>
+                  <pre className="whitespace-pre-wrap break-all rounded bg-muted p-2 text-xs">
+                    {JSON.stringify(entry.metadata, null, 2)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
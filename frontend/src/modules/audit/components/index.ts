@@ -0,0 +1,4 @@
+export { AuditLogFilterBar } from './AuditLogFilterBar';
+export { AuditLogItem, getAuditActionKey } from './AuditLogItem';
+export { AuditDiffViewer } from './AuditDiffViewer';
+export { AuditLogExportButtons } from './AuditLogExportButtons';
@@ -0,0 +1,24 @@
+// Components
+export {
+  AuditLogFilterBar,
+  AuditLogItem,
+  AuditDiffViewer,
+  AuditLogExportButtons,
+  getAuditActionKey,
+} from './components';
+
+// API hooks
+export { useListAuditLogsInfiniteQuery, getAuditLogExportUrl, auditApi } from './api';
+
+// Types
+export { AUDIT_ACTIONS } from './types';
+export type {
+  AuditAction,
+  AuditTargetType,
+  AuditLogExportFormat,
+  AuditUser,
+  AuditChanges,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogPage,
+} from './types';
@@ -0,0 +1,88 @@
+/**
+ * Actions recorded in the audit log
+ */
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'auth.logout',
+  'auth.password_reset',
+  'user.role_updated',
+  'user.permission_granted',
+  'user.permission_revoked',
+  'user.permission_denied',
+  'user.permission_denial_removed',
+  'role.updated',
+  'organization.created',
+  'organization.deleted',
+  'organization.member_invited',
+  'organization.member_joined',
+  'organization.member_role_updated',
+  'organization.member_removed',
+  'session.revoked',
+  'session.revoked_all',
+  'session.family_revoked',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditTargetType = 'user' | 'role' | 'session' | 'organization';
+
+export type AuditLogExportFormat = 'csv' | 'json';
+
+/**
+ * User referenced by an audit entry
+ * Email and name are missing once the user has been erased.
+ */
+export interface AuditUser {
+  id: string;
+  email?: string;
+  name?: string;
+}
+
+/**
+ * Fields that changed, before and after
+ */
+export interface AuditChanges {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * Audit log entry from backend
+ */
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actor?: AuditUser;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetUser?: AuditUser;
+  changes?: AuditChanges;
+  ip?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
+}
+
+/**
+ * Audit log filters
+ * Actor and target user accept a user ID or an email address.
+ */
+export interface AuditLogFilters {
+  actor?: string;
+  targetUser?: string;
+  action?: AuditAction;
+  /** ISO timestamp, inclusive */
+  from?: string;
+  /** ISO timestamp, inclusive */
+  to?: string;
+}
+
+/**
+ * A page of audit log entries, newest first
+ */
+export interface AuditLogPage {
+  items: AuditLogEntry[];
+  /** Cursor for the next page; missing on the last page */
+  nextCursor?: string;
+}
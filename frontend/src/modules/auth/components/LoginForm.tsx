@@ -7,14 +7,27 @@ import { FormProvider } from 'react-hook-form';
 import { useFormWithValidation } from '@/hooks/useFormWithValidation';
 import { FormInput, FormPassword } from '@/components/forms';
 import { useLoginMutation } from '../store/authApi';
-import { translateAuthError, getRedirectPath } from '../utils/authHelpers';
+import {
+  translateAuthError,
+  getRedirectPath,
+  getBlockedAccountStatus,
+  isBlockedAccountStatus,
+  translateAccountStatus,
+} from '../utils/authHelpers';
 import { zodEmail } from '@/lib/validations';
+import { isErrorCode, parseApiError } from '@/lib/apiError';
+import { ErrorCode } from '@/constants/errorCodes';
 import Link from 'next/link';
-import { UserPlus, LogIn } from 'lucide-react';
+import { UserPlus, LogIn, Building2, Mail } from 'lucide-react';
 import { IconLinkButton } from '@/components/ui/icon-link-button';
 import { Button } from '@/components/ui/button';
-import { useCallback, useMemo } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { OAuthButtons, OAuthDivider } from '@/modules/oauth';
+import { TwoFactorLoginStep } from './TwoFactorLoginStep';
+import { PasskeyLoginButton } from './PasskeyLoginButton';
+import { PasswordlessLoginStep } from './PasswordlessLoginStep';
+import { hasAnyPermission } from '@/modules/permissions/utils/permissionUtils';
+import type { User } from '../types/auth.types';
 
 /**
  * Login form validation schema using centralized validators
@@ -70,6 +83,47 @@ export function LoginForm() {
     setError,
   } = form;
 
+  // Challenge token while waiting for the two-factor code
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+
+  // Signing in with an emailed link or code instead of the password
+  const [isPasswordless, setIsPasswordless] = useState(false);
+
+  // Email of an account the owner deleted that can still be reactivated
+  const [reactivateEmail, setReactivateEmail] = useState<string | null>(null);
+
+  // Sent here after the account was found suspended or removed elsewhere (OAuth, expired session)
+  const accountStatusParam = searchParams.get('account');
+  const accountStatusNotice = isBlockedAccountStatus(accountStatusParam)
+    ? translateAccountStatus(accountStatusParam, t, searchParams.get('reason'))
+    : null;
+
+  // Redirect an authenticated user based on permissions
+  const redirectAfterLogin = useCallback(
+    (user: User) => {
+      const explicitRedirect = searchParams.get('redirect');
+      let defaultPath = '/dashboard';
+
+      // Redirect to admin dashboard if user has admin-level permissions
+      if (!explicitRedirect) {
+        // Wildcard and denied permissions are handled by hasAnyPermission
+        const hasAdminPermissions = hasAnyPermission(user.permissions, [
+          'users:list:all',
+          'roles:manage:all',
+          'permissions:manage:all',
+        ]);
+
+        if (hasAdminPermissions) {
+          defaultPath = '/admin/dashboard';
+        }
+      }
+
+      const redirectPath = getRedirectPath(explicitRedirect ?? defaultPath);
+      router.push(redirectPath);
+    },
+    [searchParams, router],
+  );
+
   // Memoize submit handler to prevent recreating on every render
   const onSubmit = useCallback(
     async (data: LoginFormData) => {
@@ -79,28 +133,36 @@ export function LoginForm() {
           password: data.password,
         }).unwrap();
 
-        // Determine redirect path based on user permissions
-        const explicitRedirect = searchParams.get('redirect');
-        let defaultPath = '/dashboard';
-
-        // Redirect to admin dashboard if user has admin-level permissions
-        if (!explicitRedirect && response.user) {
-          const hasAdminPermissions =
-            response.user.permissions.includes('*') || // Wildcard permission
-            response.user.permissions.includes('users:list:all') ||
-            response.user.permissions.includes('roles:manage:all') ||
-            response.user.permissions.includes('permissions:manage:all');
-
-          if (hasAdminPermissions) {
-            defaultPath = '/admin/dashboard';
-          }
+        // Account has 2FA enabled: ask for the authenticator code
+        if ('twoFactorRequired' in response) {
+          setTwoFactorChallenge(response.challengeToken);
+          return;
         }
 
-        const redirectPath = getRedirectPath(explicitRedirect ?? defaultPath);
-        router.push(redirectPath);
+        redirectAfterLogin(response.user);
       } catch (err) {
+        // Locked after repeated failures: say when signing in is possible again
+        const lockedUntil = isErrorCode(err, ErrorCode.ACCOUNT_LOCKED)
+          ? parseApiError(err).details?.lockedUntil
+          : undefined;
+
+        // Suspended or removed account: explain why signing in is refused
+        const blocked = getBlockedAccountStatus(err);
+
         // Handle API errors with translation
-        const errorMessage = translateAuthError(err, t);
+        let errorMessage: string;
+        if (typeof lockedUntil === 'string') {
+          errorMessage = t('errors.accountLocked', { time: new Date(lockedUntil) });
+        } else if (blocked?.reactivateBefore) {
+          errorMessage = t('accountStatus.reactivatable', {
+            date: new Date(blocked.reactivateBefore),
+          });
+        } else if (blocked) {
+          errorMessage = translateAccountStatus(blocked.status, t, blocked.reason);
+        } else {
+          errorMessage = translateAuthError(err, t);
+        }
+        setReactivateEmail(blocked?.reactivateBefore ? data.email : null);
         setError('root', {
           type: 'manual',
           message: errorMessage,
@@ -108,7 +170,29 @@ export function LoginForm() {
         // Error toast is automatically shown by errorInterceptor middleware
       }
     },
-    [login, searchParams, router, setError, t],
+    [login, redirectAfterLogin, setError, t],
+  );
+
+  // Surface passkey failures in the form's error banner
+  const handlePasskeyError = useCallback(
+    (message: string) => {
+      setError('root', { type: 'manual', message });
+    },
+    [setError],
+  );
+
+  // Return to the password step, optionally explaining why
+  const handleTwoFactorCancel = useCallback(
+    (reason?: string) => {
+      setTwoFactorChallenge(null);
+      setIsPasswordless(false);
+      form.resetField('password');
+
+      if (reason) {
+        setError('root', { type: 'manual', message: reason });
+      }
+    },
+    [form, setError],
   );
 
   return (
@@ -122,6 +206,17 @@ export function LoginForm() {
         {t('title')}
       </h1>
 
+      {/* Why the account was signed out or refused elsewhere */}
+      {accountStatusNotice && !errors.root?.message && (
+        <div
+          className="mt-6 w-full max-w-xs p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+          role="alert"
+          data-testid="login-account-status"
+        >
+          {accountStatusNotice}
+        </div>
+      )}
+
       <div className="w-full flex-1 mt-8">
         {/* Sign Up Link */}
         <div className="flex flex-col items-center">
@@ -141,85 +236,140 @@ export function LoginForm() {
           <OAuthButtons mode="signin" />
         </div>
 
-        {/* Divider */}
-        <OAuthDivider />
-
-        {/* Login Form */}
-        <FormProvider {...form}>
-          <form
-            className="mx-auto max-w-xs relative"
-            onSubmit={handleSubmit(onSubmit)}
-            data-testid="login-form"
-            noValidate
-            aria-labelledby="login-heading"
-            aria-describedby={errors.root?.message ? 'login-error' : undefined}
-          >
-            {/* Global Error Alert - Live Region */}
-            {errors.root?.message && (
-              <div
-                id="login-error"
-                className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
-                role="alert"
-                aria-live="assertive"
-                aria-atomic="true"
-                data-testid="login-error"
-              >
-                {errors.root.message}
-              </div>
-            )}
-
-            {/* Email Input */}
-            <FormInput
-              name="email"
-              type="email"
-              placeholder={t('email')}
-              autoComplete="email"
+        {/* Passkey sign-in (hidden when the browser lacks WebAuthn) and SAML SSO */}
+        {!twoFactorChallenge && (
+          <div className="mb-6 flex flex-col items-center gap-3">
+            <PasskeyLoginButton
+              onSuccess={redirectAfterLogin}
+              onError={handlePasskeyError}
               disabled={isLoading}
-              autoFocus
-              aria-label={t('email')}
-              aria-required="true"
-              aria-invalid={!!errors.email}
-              aria-describedby={errors.email ? 'email-error' : undefined}
             />
+            <Button asChild variant="outline" className="w-full max-w-xs">
+              <Link href="/auth/sso" data-testid="sso-login-link">
+                <Building2 className="h-4 w-4" aria-hidden="true" />
+                <span className="ms-2">{t('sso.button')}</span>
+              </Link>
+            </Button>
+          </div>
+        )}
 
-            {/* Password Input */}
-            <FormPassword
-              name="password"
-              placeholder={t('password')}
-              autoComplete="current-password"
-              disabled={isLoading}
-              showToggle={false}
-              className="mt-5"
-              aria-label={t('password')}
-              aria-required="true"
-              aria-invalid={!!errors.password}
-              aria-describedby={errors.password ? 'password-error' : undefined}
-            />
+        {/* Divider */}
+        <OAuthDivider />
 
-            {/* Submit Button */}
-            <Button
-              type="submit"
-              disabled={isLoading}
-              className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center"
-              data-testid="login-submit"
-              aria-label={isLoading ? `${t('submit')}...` : t('submit')}
-              aria-busy={isLoading}
+        {/* Two-factor step replaces the password form once credentials are accepted */}
+        {twoFactorChallenge ? (
+          <TwoFactorLoginStep
+            challengeToken={twoFactorChallenge}
+            onVerified={redirectAfterLogin}
+            onCancel={handleTwoFactorCancel}
+          />
+        ) : isPasswordless ? (
+          <PasswordlessLoginStep
+            initialEmail={form.getValues('email')}
+            onSignedIn={redirectAfterLogin}
+            onTwoFactorRequired={setTwoFactorChallenge}
+            onCancel={() => setIsPasswordless(false)}
+          />
+        ) : (
+          /* Login Form */
+          <FormProvider {...form}>
+            <form
+              className="mx-auto max-w-xs relative"
+              onSubmit={handleSubmit(onSubmit)}
+              data-testid="login-form"
+              noValidate
+              aria-labelledby="login-heading"
+              aria-describedby={errors.root?.message ? 'login-error' : undefined}
             >
-              <LogIn className="w-6 h-6 -ms-2" aria-hidden="true" />
-              <span className="ms-3">{isLoading ? `${t('submit')}...` : t('submit')}</span>
-            </Button>
+              {/* Global Error Alert - Live Region */}
+              {errors.root?.message && (
+                <div
+                  id="login-error"
+                  className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+                  role="alert"
+                  aria-live="assertive"
+                  aria-atomic="true"
+                  data-testid="login-error"
+                >
+                  {errors.root.message}
+                  {reactivateEmail && (
+                    <Link
+                      href={`/auth/reactivate?email=${encodeURIComponent(reactivateEmail)}`}
+                      className="mt-2 block font-semibold underline"
+                      data-testid="login-reactivate-link"
+                    >
+                      {t('accountStatus.reactivate')}
+                    </Link>
+                  )}
+                </div>
+              )}
 
-            {/* Forgot Password Link */}
-            <Link
-              href="/auth/forgot-password"
-              className="no-underline hover:underline text-primary text-md text-right absolute right-0 mt-2 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded-sm"
-              data-testid="forgot-password-link"
-              aria-label={t('forgotPassword')}
-            >
-              {t('forgotPassword')}
-            </Link>
-          </form>
-        </FormProvider>
+              {/* Email Input */}
+              <FormInput
+                name="email"
+                type="email"
+                placeholder={t('email')}
+                autoComplete="email"
+                disabled={isLoading}
+                autoFocus
+                aria-label={t('email')}
+                aria-required="true"
+                aria-invalid={!!errors.email}
+                aria-describedby={errors.email ? 'email-error' : undefined}
+              />
+
+              {/* Password Input */}
+              <FormPassword
+                name="password"
+                placeholder={t('password')}
+                autoComplete="current-password"
+                disabled={isLoading}
+                showToggle={false}
+                className="mt-5"
+                aria-label={t('password')}
+                aria-required="true"
+                aria-invalid={!!errors.password}
+                aria-describedby={errors.password ? 'password-error' : undefined}
+              />
+
+              {/* Submit Button */}
+              <Button
+                type="submit"
+                disabled={isLoading}
+                className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center"
+                data-testid="login-submit"
+                aria-label={isLoading ? `${t('submit')}...` : t('submit')}
+                aria-busy={isLoading}
+              >
+                <LogIn className="w-6 h-6 -ms-2" aria-hidden="true" />
+                <span className="ms-3">{isLoading ? `${t('submit')}...` : t('submit')}</span>
+              </Button>
+
+              {/* Forgot Password Link */}
+              <Link
+                href="/auth/forgot-password"
+                className="no-underline hover:underline text-primary text-md text-right absolute right-0 mt-2 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 rounded-sm"
+                data-testid="forgot-password-link"
+                aria-label={t('forgotPassword')}
+              >
+                {t('forgotPassword')}
+              </Link>
+
+              {/* Passwordless sign-in option */}
+              <Button
+                type="button"
+                variant="link"
+                className="mt-10 w-full"
+                onClick={() => setIsPasswordless(true)}
+                disabled={isLoading}
+                data-testid="passwordless-login-link"
+              >
+                <Mail className="h-4 w-4" aria-hidden="true" />
+                {t('passwordless.option')}
+              </Button>
+            </form>
+          </FormProvider>
+        )}
       </div>
     </section>
   );
@@ -0,0 +1,83 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/useApiError';
+import { useWebAuthnSupport } from '../hooks/useWebAuthnSupport';
+import { useGetPasskeyLoginOptionsMutation, useLoginWithPasskeyMutation } from '../store/authApi';
+import { getPasskeyAssertion, isPasskeyCancelled } from '../utils/webauthn';
+import type { User } from '../types/auth.types';
+
+interface PasskeyLoginButtonProps {
+  /** Called with the authenticated user once the passkey is accepted */
+  onSuccess: (user: User) => void;
+  /** Called with a message when passkey sign-in fails */
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Sign in with a passkey saved for this site
+ * Hidden when the browser does not support WebAuthn
+ *
+ * @example
+ * <PasskeyLoginButton onSuccess={redirect} onError={showError} />
+ */
+export function PasskeyLoginButton({
+  onSuccess,
+  onError,
+  disabled = false,
+}: PasskeyLoginButtonProps) {
+  const t = useTranslations('auth.login.passkey');
+  const { getErrorMessage } = useApiError();
+  const [getOptions, { isLoading: isLoadingOptions }] = useGetPasskeyLoginOptionsMutation();
+  const [loginWithPasskey, { isLoading: isVerifying }] = useLoginWithPasskeyMutation();
+  const [isPrompting, setIsPrompting] = useState(false);
+  const isSupported = useWebAuthnSupport();
+
+  const isLoading = isLoadingOptions || isPrompting || isVerifying;
+
+  const handleClick = useCallback(async () => {
+    try {
+      const options = await getOptions().unwrap();
+
+      setIsPrompting(true);
+      const credential = await getPasskeyAssertion(options).finally(() => setIsPrompting(false));
+
+      const response = await loginWithPasskey({ credential }).unwrap();
+      onSuccess(response.user);
+    } catch (err: unknown) {
+      if (isPasskeyCancelled(err)) {
+        onError(t('cancelled'));
+        return;
+      }
+
+      onError(getErrorMessage(err));
+    }
+  }, [getOptions, loginWithPasskey, onSuccess, onError, getErrorMessage, t]);
+
+  if (!isSupported) {
+    return null;
+  }
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      onClick={handleClick}
+      disabled={disabled || isLoading}
+      className="w-full max-w-xs"
+      data-testid="passkey-login-button"
+      aria-busy={isLoading}
+    >
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+      ) : (
+        <KeyRound className="h-4 w-4" aria-hidden="true" />
+      )}
+      <span className="ms-2">{t('button')}</span>
+    </Button>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { z } from 'zod';
+import { FormProvider } from 'react-hook-form';
+import { useCallback, useMemo, useState } from 'react';
+import { LogIn, Mail } from 'lucide-react';
+import { useFormWithValidation } from '@/hooks/useFormWithValidation';
+import { useApiError } from '@/hooks/useApiError';
+import { FormInput } from '@/components/forms';
+import { Button } from '@/components/ui/button';
+import { zodEmail } from '@/lib/validations';
+import { toast } from '@/lib/toast';
+import {
+  useRequestPasswordlessLoginMutation,
+  useVerifyPasswordlessCodeMutation,
+} from '../store/authApi';
+import type { User } from '../types/auth.types';
+
+/**
+ * Email step validation schema
+ */
+const createEmailSchema = (t: (key: string) => string) =>
+  z.object({
+    email: zodEmail({
+      required: true,
+      messages: {
+        required: t('errors.emailRequired'),
+        invalid: t('errors.emailInvalid'),
+      },
+    }),
+  });
+
+/**
+ * Code step validation schema
+ */
+const createCodeSchema = (t: (key: string) => string) =>
+  z.object({
+    code: z
+      .string()
+      .trim()
+      .min(1, t('errors.codeRequired'))
+      .regex(/^\d{6}$/, t('errors.codeInvalid')),
+  });
+
+type EmailFormData = z.infer<ReturnType<typeof createEmailSchema>>;
+type CodeFormData = z.infer<ReturnType<typeof createCodeSchema>>;
+
+interface PasswordlessLoginStepProps {
+  /** Email already typed into the password form */
+  initialEmail?: string;
+  /** Called with the authenticated user once the code is accepted */
+  onSignedIn: (user: User) => void;
+  /** Called with the challenge token when the account has 2FA enabled */
+  onTwoFactorRequired: (challengeToken: string) => void;
+  /** Called when the user goes back to the password form */
+  onCancel: () => void;
+}
+
+/**
+ * Passwordless login: emails a sign-in link and a 6-digit code,
+ * then accepts the code for signing in on this device
+ *
+ * @example
+ * <PasswordlessLoginStep onSignedIn={redirect} onTwoFactorRequired={setChallenge} onCancel={back} />
+ */
+export function PasswordlessLoginStep({
+  initialEmail = '',
+  onSignedIn,
+  onTwoFactorRequired,
+  onCancel,
+}: PasswordlessLoginStepProps) {
+  const t = useTranslations('auth.login.passwordless');
+  const [requestLogin, { isLoading: isRequesting }] = useRequestPasswordlessLoginMutation();
+  const [verifyCode, { isLoading: isVerifying }] = useVerifyPasswordlessCodeMutation();
+  const { getErrorMessage, isCode, ErrorCode } = useApiError();
+
+  // Address the link and code were sent to
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const emailSchema = useMemo(() => createEmailSchema(t), [t]);
+  const codeSchema = useMemo(() => createCodeSchema(t), [t]);
+
+  const emailForm = useFormWithValidation({
+    schema: emailSchema,
+    defaultValues: { email: initialEmail },
+    mode: 'onBlur',
+  });
+
+  const codeForm = useFormWithValidation({
+    schema: codeSchema,
+    defaultValues: { code: '' },
+    mode: 'onSubmit',
+  });
+
+  const onRequest = useCallback(
+    async (data: EmailFormData) => {
+      try {
+        await requestLogin({ email: data.email }).unwrap();
+        codeForm.reset();
+        setSentTo(data.email);
+      } catch (err: unknown) {
+        emailForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+      }
+    },
+    [requestLogin, codeForm, emailForm, getErrorMessage],
+  );
+
+  // Send a fresh link and code to the same address
+  const handleResend = useCallback(async () => {
+    if (!sentTo) {
+      return;
+    }
+
+    try {
+      await requestLogin({ email: sentTo }).unwrap();
+      codeForm.reset();
+      toast.success(t('resent'));
+    } catch (err: unknown) {
+      codeForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+    }
+  }, [sentTo, requestLogin, codeForm, getErrorMessage, t]);
+
+  const onVerify = useCallback(
+    async (data: CodeFormData) => {
+      if (!sentTo) {
+        return;
+      }
+
+      try {
+        const response = await verifyCode({ email: sentTo, code: data.code }).unwrap();
+
+        // Account has 2FA enabled: ask for the authenticator code
+        if ('twoFactorRequired' in response) {
+          onTwoFactorRequired(response.challengeToken);
+          return;
+        }
+
+        onSignedIn(response.user);
+      } catch (err: unknown) {
+        // The code is gone; a new one must be requested
+        if (
+          isCode(err, ErrorCode.MAX_ATTEMPTS_EXCEEDED) ||
+          isCode(err, ErrorCode.PASSWORDLESS_CODE_EXPIRED) ||
+          isCode(err, ErrorCode.NO_PENDING_PASSWORDLESS_LOGIN)
+        ) {
+          setSentTo(null);
+          emailForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+          return;
+        }
+
+        codeForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+        codeForm.setValue('code', '');
+      }
+    },
+    [
+      sentTo,
+      verifyCode,
+      onSignedIn,
+      onTwoFactorRequired,
+      emailForm,
+      codeForm,
+      getErrorMessage,
+      isCode,
+      ErrorCode,
+    ],
+  );
+
+  // Only allow numeric characters in the code input
+  const handleCodeChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      codeForm.setValue('code', e.target.value.replace(/\D/g, '').slice(0, 6));
+    },
+    [codeForm],
+  );
+
+  const emailError = emailForm.formState.errors.root?.message;
+  const codeError = codeForm.formState.errors.root?.message;
+
+  if (!sentTo) {
+    return (
+      <FormProvider {...emailForm}>
+        <form
+          className="mx-auto max-w-xs"
+          onSubmit={emailForm.handleSubmit(onRequest)}
+          data-testid="passwordless-email-form"
+          noValidate
+          aria-describedby={emailError ? 'passwordless-error' : undefined}
+        >
+          <p className="mb-5 text-sm text-muted-foreground text-center">{t('description')}</p>
+
+          {emailError && (
+            <div
+              id="passwordless-error"
+              className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+              role="alert"
+              aria-live="assertive"
+              data-testid="passwordless-error"
+            >
+              {emailError}
+            </div>
+          )}
+
+          <FormInput
+            name="email"
+            type="email"
+            placeholder={t('email')}
+            autoComplete="email"
+            disabled={isRequesting}
+            autoFocus
+            aria-label={t('email')}
+            aria-required="true"
+          />
+
+          <Button
+            type="submit"
+            disabled={isRequesting}
+            className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg"
+            data-testid="passwordless-send"
+            aria-busy={isRequesting}
+          >
+            <Mail className="w-6 h-6 -ms-2" aria-hidden="true" />
+            <span className="ms-3">{isRequesting ? `${t('send')}...` : t('send')}</span>
+          </Button>
+
+          <Button
+            type="button"
+            variant="ghost"
+            className="mt-2 w-full"
+            onClick={onCancel}
+            disabled={isRequesting}
+            data-testid="passwordless-back"
+          >
+            {t('back')}
+          </Button>
+        </form>
+      </FormProvider>
+    );
+  }
+
+  return (
+    <FormProvider {...codeForm}>
+      <form
+        className="mx-auto max-w-xs"
+        onSubmit={codeForm.handleSubmit(onVerify)}
+        data-testid="passwordless-code-form"
+        noValidate
+        aria-describedby={codeError ? 'passwordless-code-error' : undefined}
+      >
+        <p className="mb-5 text-sm text-muted-foreground text-center" aria-live="polite">
+          {t('sent', { email: sentTo })}
+        </p>
+
+        {codeError && (
+          <div
+            id="passwordless-code-error"
+            className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+            role="alert"
+            aria-live="assertive"
+            data-testid="passwordless-code-error"
+          >
+            {codeError}
+          </div>
+        )}
+
+        <FormInput
+          name="code"
+          type="text"
+          inputMode="numeric"
+          placeholder={t('code')}
+          autoComplete="one-time-code"
+          disabled={isVerifying}
+          maxLength={6}
+          className="text-center text-2xl tracking-widest"
+          autoFocus
+          onChange={handleCodeChange}
+          aria-label={t('code')}
+          aria-required="true"
+          data-testid="passwordless-code-input"
+        />
+
+        <Button
+          type="submit"
+          disabled={isVerifying}
+          className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg"
+          data-testid="passwordless-submit"
+          aria-busy={isVerifying}
+        >
+          <LogIn className="w-6 h-6 -ms-2" aria-hidden="true" />
+          <span className="ms-3">{isVerifying ? `${t('submit')}...` : t('submit')}</span>
+        </Button>
+
+        <Button
+          type="button"
+          variant="link"
+          className="mt-2 w-full"
+          onClick={handleResend}
+          disabled={isVerifying || isRequesting}
+          data-testid="passwordless-resend"
+        >
+          {t('resend')}
+        </Button>
+
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          onClick={onCancel}
+          disabled={isVerifying}
+          data-testid="passwordless-code-back"
+        >
+          {t('back')}
+        </Button>
+      </form>
+    </FormProvider>
+  );
+}
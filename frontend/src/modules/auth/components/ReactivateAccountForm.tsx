@@ -0,0 +1,311 @@
+'use client';
+
+import { useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { z } from 'zod';
+import { FormProvider } from 'react-hook-form';
+import { useCallback, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle2, Mail, RotateCcw } from 'lucide-react';
+import { useFormWithValidation } from '@/hooks/useFormWithValidation';
+import { useApiError } from '@/hooks/useApiError';
+import { FormInput } from '@/components/forms';
+import { Button } from '@/components/ui/button';
+import { zodEmail } from '@/lib/validations';
+import { toast } from '@/lib/toast';
+import { useReactivateAccountMutation, useRequestReactivationMutation } from '../store/authApi';
+
+/**
+ * Email step validation schema
+ */
+const createEmailSchema = (t: (key: string) => string) =>
+  z.object({
+    email: zodEmail({
+      required: true,
+      messages: {
+        required: t('errors.emailRequired'),
+        invalid: t('errors.emailInvalid'),
+      },
+    }),
+  });
+
+/**
+ * Code step validation schema
+ */
+const createCodeSchema = (t: (key: string) => string) =>
+  z.object({
+    code: z
+      .string()
+      .trim()
+      .min(1, t('errors.codeRequired'))
+      .regex(/^\d{6}$/, t('errors.codeInvalid')),
+  });
+
+type EmailFormData = z.infer<ReturnType<typeof createEmailSchema>>;
+type CodeFormData = z.infer<ReturnType<typeof createCodeSchema>>;
+
+/**
+ * ReactivateAccountForm component for restoring a deleted account
+ * Emails a 6-digit code, then accepts it to cancel the scheduled deletion.
+ * The email is prefilled from the link in the account deleted email.
+ *
+ * @example
+ * <ReactivateAccountForm />
+ */
+export function ReactivateAccountForm() {
+  const t = useTranslations('auth.reactivate');
+  const searchParams = useSearchParams();
+  const [requestReactivation, { isLoading: isRequesting }] = useRequestReactivationMutation();
+  const [reactivateAccount, { isLoading: isReactivating, isSuccess }] =
+    useReactivateAccountMutation();
+  const { getErrorMessage, isCode, ErrorCode } = useApiError();
+
+  // Address the code was sent to
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const emailSchema = useMemo(() => createEmailSchema(t), [t]);
+  const codeSchema = useMemo(() => createCodeSchema(t), [t]);
+
+  const emailForm = useFormWithValidation({
+    schema: emailSchema,
+    defaultValues: { email: searchParams.get('email') || '' },
+    mode: 'onBlur',
+  });
+
+  const codeForm = useFormWithValidation({
+    schema: codeSchema,
+    defaultValues: { code: '' },
+    mode: 'onSubmit',
+  });
+
+  const onRequest = useCallback(
+    async (data: EmailFormData) => {
+      try {
+        await requestReactivation({ email: data.email }).unwrap();
+        codeForm.reset();
+        setSentTo(data.email);
+      } catch (err: unknown) {
+        emailForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+      }
+    },
+    [requestReactivation, codeForm, emailForm, getErrorMessage],
+  );
+
+  // Send a fresh code to the same address
+  const handleResend = useCallback(async () => {
+    if (!sentTo) {
+      return;
+    }
+
+    try {
+      await requestReactivation({ email: sentTo }).unwrap();
+      codeForm.reset();
+      toast.success(t('resent'));
+    } catch (err: unknown) {
+      codeForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+    }
+  }, [sentTo, requestReactivation, codeForm, getErrorMessage, t]);
+
+  const onReactivate = useCallback(
+    async (data: CodeFormData) => {
+      if (!sentTo) {
+        return;
+      }
+
+      try {
+        await reactivateAccount({ email: sentTo, code: data.code }).unwrap();
+      } catch (err: unknown) {
+        // The code is gone; a new one must be requested
+        if (
+          isCode(err, ErrorCode.MAX_ATTEMPTS_EXCEEDED) ||
+          isCode(err, ErrorCode.REACTIVATION_CODE_EXPIRED) ||
+          isCode(err, ErrorCode.NO_PENDING_REACTIVATION)
+        ) {
+          setSentTo(null);
+          emailForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+          return;
+        }
+
+        codeForm.setError('root', { type: 'manual', message: getErrorMessage(err) });
+        codeForm.setValue('code', '');
+      }
+    },
+    [sentTo, reactivateAccount, emailForm, codeForm, getErrorMessage, isCode, ErrorCode],
+  );
+
+  // Only allow numeric characters in the code input
+  const handleCodeChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      codeForm.setValue('code', e.target.value.replace(/\D/g, '').slice(0, 6));
+    },
+    [codeForm],
+  );
+
+  const emailError = emailForm.formState.errors.root?.message;
+  const codeError = codeForm.formState.errors.root?.message;
+
+  const renderStep = () => {
+    if (isSuccess) {
+      return (
+        <div className="mx-auto max-w-xs text-center" data-testid="reactivate-success">
+          <div className="mx-auto mb-6 flex h-20 w-20 items-center justify-center rounded-full bg-green-100 dark:bg-green-900/20">
+            <CheckCircle2 className="h-10 w-10 text-green-600 dark:text-green-400" />
+          </div>
+          <p className="mb-6 text-muted-foreground">{t('successMessage')}</p>
+          <Button asChild className="w-full">
+            <Link href="/auth/login">{t('signIn')}</Link>
+          </Button>
+        </div>
+      );
+    }
+
+    if (!sentTo) {
+      return (
+        <FormProvider {...emailForm}>
+          <form
+            className="mx-auto max-w-xs"
+            onSubmit={emailForm.handleSubmit(onRequest)}
+            data-testid="reactivate-email-form"
+            noValidate
+            aria-describedby={emailError ? 'reactivate-error' : undefined}
+          >
+            {emailError && (
+              <div
+                id="reactivate-error"
+                className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+                role="alert"
+                aria-live="assertive"
+                data-testid="reactivate-error"
+              >
+                {emailError}
+              </div>
+            )}
+
+            <FormInput
+              name="email"
+              type="email"
+              placeholder={t('email')}
+              autoComplete="email"
+              disabled={isRequesting}
+              autoFocus
+              aria-label={t('email')}
+              aria-required="true"
+            />
+
+            <Button
+              type="submit"
+              disabled={isRequesting}
+              className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg"
+              data-testid="reactivate-send"
+              aria-busy={isRequesting}
+            >
+              <Mail className="w-6 h-6 -ms-2" aria-hidden="true" />
+              <span className="ms-3">{isRequesting ? `${t('send')}...` : t('send')}</span>
+            </Button>
+          </form>
+        </FormProvider>
+      );
+    }
+
+    return (
+      <FormProvider {...codeForm}>
+        <form
+          className="mx-auto max-w-xs"
+          onSubmit={codeForm.handleSubmit(onReactivate)}
+          data-testid="reactivate-code-form"
+          noValidate
+          aria-describedby={codeError ? 'reactivate-code-error' : undefined}
+        >
+          <p className="mb-5 text-sm text-muted-foreground text-center" aria-live="polite">
+            {t('sent', { email: sentTo })}
+          </p>
+
+          {codeError && (
+            <div
+              id="reactivate-code-error"
+              className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+              role="alert"
+              aria-live="assertive"
+              data-testid="reactivate-code-error"
+            >
+              {codeError}
+            </div>
+          )}
+
+          <FormInput
+            name="code"
+            type="text"
+            inputMode="numeric"
+            placeholder={t('code')}
+            autoComplete="one-time-code"
+            disabled={isReactivating}
+            maxLength={6}
+            className="text-center text-2xl tracking-widest"
+            autoFocus
+            onChange={handleCodeChange}
+            aria-label={t('code')}
+            aria-required="true"
+            data-testid="reactivate-code-input"
+          />
+
+          <Button
+            type="submit"
+            disabled={isReactivating}
+            className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg"
+            data-testid="reactivate-submit"
+            aria-busy={isReactivating}
+          >
+            <RotateCcw className="w-6 h-6 -ms-2" aria-hidden="true" />
+            <span className="ms-3">{isReactivating ? `${t('submit')}...` : t('submit')}</span>
+          </Button>
+
+          <Button
+            type="button"
+            variant="link"
+            className="mt-2 w-full"
+            onClick={handleResend}
+            disabled={isReactivating || isRequesting}
+            data-testid="reactivate-resend"
+          >
+            {t('resend')}
+          </Button>
+        </form>
+      </FormProvider>
+    );
+  };
+
+  return (
+    <section className="mt-12 flex flex-col items-center" aria-labelledby="reactivate-heading">
+      {/* Title */}
+      <h1
+        id="reactivate-heading"
+        className="text-2xl xl:text-3xl font-extrabold text-foreground"
+        data-testid="reactivate-title"
+      >
+        {t('title')}
+      </h1>
+
+      {/* Subtitle */}
+      {!isSuccess && (
+        <p className="text-base text-muted-foreground mt-4 text-center max-w-md">{t('subtitle')}</p>
+      )}
+
+      <div className="w-full flex-1 mt-8">
+        {renderStep()}
+
+        {/* Back to Login Link */}
+        {!isSuccess && (
+          <div className="mt-6 text-center">
+            <Link
+              href="/auth/login"
+              className="text-sm font-semibold text-primary hover:text-primary/80 transition-colors"
+              data-testid="reactivate-back-to-login"
+            >
+              {t('backToLogin')}
+            </Link>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
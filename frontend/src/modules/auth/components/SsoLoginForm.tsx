@@ -0,0 +1,161 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { z } from 'zod';
+import { FormProvider } from 'react-hook-form';
+import { useFormWithValidation } from '@/hooks/useFormWithValidation';
+import { useApiError } from '@/hooks/useApiError';
+import { FormInput } from '@/components/forms';
+import { useLazyDiscoverSsoConnectionQuery } from '../store/authApi';
+import { zodEmail } from '@/lib/validations';
+import { Building2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCallback, useMemo, useState } from 'react';
+import Link from 'next/link';
+
+/**
+ * SSO form validation schema
+ */
+const createSsoLoginSchema = (t: (key: string) => string) =>
+  z.object({
+    email: zodEmail({
+      required: true,
+      messages: {
+        required: t('errors.emailRequired'),
+        invalid: t('errors.emailInvalid'),
+      },
+    }),
+  });
+
+type SsoLoginFormData = z.infer<ReturnType<typeof createSsoLoginSchema>>;
+
+/**
+ * SsoLoginForm component for SAML single sign-on
+ * Finds the connection for the work email's domain and sends the browser to it
+ *
+ * @example
+ * <SsoLoginForm />
+ */
+export function SsoLoginForm() {
+  const t = useTranslations('auth.sso');
+  const { getErrorMessage } = useApiError();
+  const [discoverConnection, { isFetching }] = useLazyDiscoverSsoConnectionQuery();
+  // Stays set while the browser navigates away to the identity provider
+  const [isRedirecting, setIsRedirecting] = useState(false);
+
+  const isLoading = isFetching || isRedirecting;
+
+  // Memoize schema creation when translation function changes
+  const ssoLoginSchema = useMemo(() => createSsoLoginSchema(t), [t]);
+
+  // Initialize form with validation
+  const form = useFormWithValidation({
+    schema: ssoLoginSchema,
+    mode: 'onBlur',
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const {
+    handleSubmit,
+    formState: { errors },
+    setError,
+  } = form;
+
+  const onSubmit = useCallback(
+    async (data: SsoLoginFormData) => {
+      try {
+        const { loginUrl } = await discoverConnection(data.email).unwrap();
+
+        setIsRedirecting(true);
+        window.location.assign(loginUrl);
+      } catch (err: unknown) {
+        setError('root', {
+          type: 'manual',
+          message: getErrorMessage(err),
+        });
+      }
+    },
+    [discoverConnection, getErrorMessage, setError],
+  );
+
+  return (
+    <section className="mt-12 flex flex-col items-center" aria-labelledby="sso-login-heading">
+      {/* Title */}
+      <h1
+        id="sso-login-heading"
+        className="text-2xl xl:text-3xl font-extrabold text-foreground"
+        data-testid="sso-login-title"
+      >
+        {t('title')}
+      </h1>
+
+      {/* Subtitle */}
+      <p className="text-base text-muted-foreground mt-4 text-center max-w-md">{t('subtitle')}</p>
+
+      <div className="w-full flex-1 mt-8">
+        <FormProvider {...form}>
+          <form
+            className="mx-auto max-w-xs"
+            onSubmit={handleSubmit(onSubmit)}
+            data-testid="sso-login-form"
+            noValidate
+            aria-labelledby="sso-login-heading"
+            aria-describedby={errors.root?.message ? 'sso-login-error' : undefined}
+          >
+            {/* Global Error Alert - Live Region */}
+            {errors.root?.message && (
+              <div
+                id="sso-login-error"
+                className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+                role="alert"
+                aria-live="assertive"
+                aria-atomic="true"
+                data-testid="sso-login-error"
+              >
+                {errors.root.message}
+              </div>
+            )}
+
+            {/* Email Input */}
+            <FormInput
+              name="email"
+              type="email"
+              placeholder={t('email')}
+              autoComplete="email"
+              disabled={isLoading}
+              autoFocus
+              aria-label={t('email')}
+              aria-required="true"
+            />
+
+            {/* Submit Button */}
+            <Button
+              type="submit"
+              disabled={isLoading}
+              className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg transition-all duration-300 ease-in-out flex items-center justify-center"
+              data-testid="sso-login-submit"
+              aria-label={isLoading ? `${t('submit')}...` : t('submit')}
+              aria-busy={isLoading}
+            >
+              <Building2 className="w-6 h-6 -ms-2" aria-hidden="true" />
+              <span className="ms-3">{isLoading ? `${t('submit')}...` : t('submit')}</span>
+            </Button>
+
+            {/* Back to Login Link */}
+            <div className="mt-6 text-center">
+              <Link
+                href="/auth/login"
+                className="text-sm font-semibold text-primary hover:text-primary/80 transition-colors"
+                data-testid="back-to-login-link"
+              >
+                {t('backToLogin')}
+              </Link>
+            </div>
+          </form>
+        </FormProvider>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { z } from 'zod';
+import { FormProvider } from 'react-hook-form';
+import { useCallback, useMemo } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { useFormWithValidation } from '@/hooks/useFormWithValidation';
+import { useApiError } from '@/hooks/useApiError';
+import { FormInput } from '@/components/forms';
+import { Button } from '@/components/ui/button';
+import { useVerifyTwoFactorLoginMutation } from '../store/authApi';
+import type { User } from '../types/auth.types';
+
+/**
+ * Two-factor code validation schema.
+ * The same field carries either an authenticator code or a recovery code.
+ */
+const createTwoFactorSchema = (t: (key: string) => string) =>
+  z
+    .object({
+      useRecoveryCode: z.boolean(),
+      code: z.string().trim(),
+    })
+    .superRefine(({ useRecoveryCode, code }, ctx) => {
+      if (!code) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['code'],
+          message: useRecoveryCode ? t('errors.recoveryCodeRequired') : t('errors.codeRequired'),
+        });
+      } else if (!useRecoveryCode && !/^\d{6}$/.test(code)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['code'],
+          message: t('errors.codeInvalid'),
+        });
+      }
+    });
+
+type TwoFactorFormData = z.infer<ReturnType<typeof createTwoFactorSchema>>;
+
+interface TwoFactorLoginStepProps {
+  /** Challenge token returned by the login endpoint */
+  challengeToken: string;
+  /** Called with the authenticated user once the code is accepted */
+  onVerified: (user: User) => void;
+  /** Called when the user goes back, or with a reason when the challenge can no longer be used */
+  onCancel: (reason?: string) => void;
+}
+
+/**
+ * Second login step for accounts with two-factor authentication enabled
+ *
+ * @example
+ * <TwoFactorLoginStep challengeToken={token} onVerified={redirect} onCancel={reset} />
+ */
+export function TwoFactorLoginStep({
+  challengeToken,
+  onVerified,
+  onCancel,
+}: TwoFactorLoginStepProps) {
+  const t = useTranslations('auth.login.twoFactor');
+  const [verify, { isLoading }] = useVerifyTwoFactorLoginMutation();
+  const { getErrorMessage, isCode, ErrorCode } = useApiError();
+
+  const schema = useMemo(() => createTwoFactorSchema(t), [t]);
+
+  const form = useFormWithValidation({
+    schema,
+    defaultValues: { useRecoveryCode: false, code: '' },
+    mode: 'onSubmit',
+  });
+
+  const {
+    handleSubmit,
+    formState: { errors },
+    setError,
+    setValue,
+    watch,
+    clearErrors,
+  } = form;
+
+  const useRecoveryCode = watch('useRecoveryCode');
+
+  const onSubmit = useCallback(
+    async (data: TwoFactorFormData) => {
+      try {
+        const response = await verify(
+          data.useRecoveryCode
+            ? { challengeToken, recoveryCode: data.code }
+            : { challengeToken, code: data.code },
+        ).unwrap();
+        onVerified(response.user);
+      } catch (err: unknown) {
+        if (
+          isCode(err, ErrorCode.TWO_FACTOR_CHALLENGE_INVALID) ||
+          isCode(err, ErrorCode.MAX_ATTEMPTS_EXCEEDED)
+        ) {
+          // The challenge is gone; the password step must be repeated
+          onCancel(t('errors.challengeExpired'));
+          return;
+        }
+
+        setError('root', { type: 'manual', message: getErrorMessage(err) });
+        setValue('code', '');
+      }
+    },
+    [
+      verify,
+      challengeToken,
+      onVerified,
+      onCancel,
+      setError,
+      setValue,
+      t,
+      getErrorMessage,
+      isCode,
+      ErrorCode,
+    ],
+  );
+
+  // Only allow numeric characters in the authenticator code input
+  const handleCodeChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      setValue(
+        'code',
+        useRecoveryCode ? e.target.value : e.target.value.replace(/\D/g, '').slice(0, 6),
+      );
+    },
+    [setValue, useRecoveryCode],
+  );
+
+  // Switch between the authenticator code and a recovery code
+  const toggleRecoveryCode = useCallback(() => {
+    setValue('useRecoveryCode', !useRecoveryCode);
+    setValue('code', '');
+    clearErrors();
+  }, [setValue, clearErrors, useRecoveryCode]);
+
+  return (
+    <FormProvider {...form}>
+      <form
+        className="mx-auto max-w-xs"
+        onSubmit={handleSubmit(onSubmit)}
+        data-testid="two-factor-form"
+        noValidate
+        aria-describedby={errors.root?.message ? 'two-factor-error' : undefined}
+      >
+        <p className="mb-5 text-sm text-muted-foreground text-center">
+          {useRecoveryCode ? t('recoveryDescription') : t('description')}
+        </p>
+
+        {errors.root?.message && (
+          <div
+            id="two-factor-error"
+            className="mb-4 p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md"
+            role="alert"
+            aria-live="assertive"
+            data-testid="two-factor-error"
+          >
+            {errors.root.message}
+          </div>
+        )}
+
+        <FormInput
+          key={useRecoveryCode ? 'recovery' : 'totp'}
+          name="code"
+          type="text"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          placeholder={useRecoveryCode ? t('recoveryCode') : t('code')}
+          autoComplete={useRecoveryCode ? 'off' : 'one-time-code'}
+          disabled={isLoading}
+          maxLength={useRecoveryCode ? 32 : 6}
+          className="text-center text-2xl tracking-widest"
+          autoFocus
+          onChange={handleCodeChange}
+          aria-label={useRecoveryCode ? t('recoveryCode') : t('code')}
+          aria-required="true"
+          aria-invalid={!!errors.code}
+          data-testid="two-factor-code-input"
+        />
+
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="h-14 mt-5 tracking-wide font-semibold w-full py-4 rounded-lg"
+          data-testid="two-factor-submit"
+          aria-busy={isLoading}
+        >
+          <ShieldCheck className="w-6 h-6 -ms-2" aria-hidden="true" />
+          <span className="ms-3">{isLoading ? `${t('submit')}...` : t('submit')}</span>
+        </Button>
+
+        <Button
+          type="button"
+          variant="link"
+          className="mt-2 w-full"
+          onClick={toggleRecoveryCode}
+          disabled={isLoading}
+          data-testid="two-factor-recovery-toggle"
+        >
+          {useRecoveryCode ? t('useAuthenticator') : t('useRecoveryCode')}
+        </Button>
+
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          onClick={() => onCancel()}
+          disabled={isLoading}
+          data-testid="two-factor-back"
+        >
+          {t('back')}
+        </Button>
+      </form>
+    </FormProvider>
+  );
+}
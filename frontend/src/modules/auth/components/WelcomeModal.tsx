@@ -22,7 +22,7 @@ export function WelcomeModal({ isOpen, userName, onClose }: WelcomeModalProps) {
   const handleGetStarted = () => {
     onClose?.();
     // Navigate to role-based dashboard
-    const dashboardUrl = user ? getRoleDashboard(user.role) : '/dashboard';
+    const dashboardUrl = user ? getRoleDashboard(user.role, user.roleLevel) : '/dashboard';
     router.push(dashboardUrl);
   };
 
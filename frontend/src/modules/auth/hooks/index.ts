@@ -1 +1,2 @@
 export { useAuthValidation } from './useAuthValidation';
+export { useWebAuthnSupport } from './useWebAuthnSupport';
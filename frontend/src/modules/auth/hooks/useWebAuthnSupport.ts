@@ -0,0 +1,22 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { isWebAuthnSupported } from '../utils/webauthn';
+
+// Browser support never changes during a page's lifetime
+const subscribe = () => () => {};
+
+/**
+ * Hook reporting whether the browser can create and use passkeys
+ * Uses `serverValue` during SSR and hydration so both render the same markup
+ *
+ * @param serverValue - Value assumed before the browser can be checked
+ * @returns Whether WebAuthn is available
+ *
+ * @example
+ * const isSupported = useWebAuthnSupport();
+ * if (!isSupported) return null;
+ */
+export function useWebAuthnSupport(serverValue = false): boolean {
+  return useSyncExternalStore(subscribe, isWebAuthnSupported, () => serverValue);
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { AuthLayout } from '../components/AuthLayout';
+import { ReactivateAccountForm } from '../components/ReactivateAccountForm';
+
+/**
+ * ReactivatePage component
+ * Renders the account reactivation form within the auth layout
+ *
+ * @example
+ * // In Next.js route
+ * export default function ReactivateRoute() {
+ *   return <ReactivatePage />;
+ * }
+ */
+export function ReactivatePage() {
+  return (
+    <AuthLayout>
+      <ReactivateAccountForm />
+    </AuthLayout>
+  );
+}
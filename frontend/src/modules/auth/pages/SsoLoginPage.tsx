@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAppSelector } from '@/store/hooks';
+import { selectIsAuthenticated } from '../store/authSlice';
+import { AuthLayout } from '../components/AuthLayout';
+import { SsoLoginForm } from '../components/SsoLoginForm';
+
+/**
+ * SsoLoginPage component
+ * Renders the SSO work email form within the auth layout
+ * Redirects to dashboard if user is already authenticated
+ *
+ * @example
+ * // In Next.js route
+ * export default function SsoLoginRoute() {
+ *   return <SsoLoginPage />;
+ * }
+ */
+export function SsoLoginPage() {
+  const router = useRouter();
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+
+  useEffect(() => {
+    // Redirect to dashboard if already authenticated
+    if (isAuthenticated) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, router]);
+
+  // Don't render form if already authenticated
+  if (isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <AuthLayout>
+      <SsoLoginForm />
+    </AuthLayout>
+  );
+}
@@ -3,3 +3,4 @@ export { RegisterPage } from './RegisterPage';
 export { ActivationPage } from './ActivationPage';
 export { ForgotPasswordPage } from './ForgotPasswordPage';
 export { ResetPasswordPage } from './ResetPasswordPage';
+export { ReactivatePage } from './ReactivatePage';
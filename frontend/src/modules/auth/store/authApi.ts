@@ -3,6 +3,22 @@ import type {
   User,
   LoginRequest,
   LoginResponse,
+  LoginResult,
+  VerifyTwoFactorLoginRequest,
+  PasskeyAuthenticationOptions,
+  PasskeyLoginRequest,
+  PasswordlessLoginRequest,
+  PasswordlessLoginResponse,
+  VerifyPasswordlessCodeRequest,
+  VerifyMagicLinkRequest,
+  UnlockAccountRequest,
+  UnlockAccountResponse,
+  RequestReactivationRequest,
+  RequestReactivationResponse,
+  ReactivateAccountRequest,
+  ReactivateAccountResponse,
+  SsoDiscoveryResponse,
+  RefreshSessionResponse,
   RegisterRequest,
   RegisterResponse,
   ActivateRequest,
@@ -24,18 +40,171 @@ export const authApi = baseApi.injectEndpoints({
     /**
      * Login mutation
      * Authenticates user with email and password
+     * Returns a 2FA challenge instead of a session when the account has 2FA enabled
      */
-    login: builder.mutation<LoginResponse, LoginRequest>({
+    login: builder.mutation<LoginResult, LoginRequest>({
       query: (credentials) => ({
         url: '/api/auth/login',
         method: 'POST',
         body: credentials,
       }),
+      transformResponse: (response: { success: boolean; data: LoginResult; message: string }) =>
+        response.data,
+      invalidatesTags: ['Auth', 'User'],
+    }),
+
+    /**
+     * Verify two-factor login mutation
+     * Completes a challenged login with an authenticator code
+     */
+    verifyTwoFactorLogin: builder.mutation<LoginResponse, VerifyTwoFactorLoginRequest>({
+      query: (data) => ({
+        url: '/api/auth/2fa/verify',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { success: boolean; data: LoginResponse; message: string }) =>
+        response.data,
+      invalidatesTags: ['Auth', 'User'],
+    }),
+
+    /**
+     * Passkey sign-in options mutation
+     * Creates a single-use challenge for navigator.credentials.get()
+     */
+    getPasskeyLoginOptions: builder.mutation<PasskeyAuthenticationOptions, void>({
+      query: () => ({
+        url: '/api/auth/webauthn/authentication/options',
+        method: 'POST',
+      }),
+      transformResponse: (response: { success: boolean; data: PasskeyAuthenticationOptions }) =>
+        response.data,
+    }),
+
+    /**
+     * Passkey login mutation
+     * Verifies the signed challenge and creates a session
+     */
+    loginWithPasskey: builder.mutation<LoginResponse, PasskeyLoginRequest>({
+      query: (data) => ({
+        url: '/api/auth/webauthn/authentication/verify',
+        method: 'POST',
+        body: data,
+      }),
       transformResponse: (response: { success: boolean; data: LoginResponse; message: string }) =>
         response.data,
       invalidatesTags: ['Auth', 'User'],
     }),
 
+    /**
+     * Passwordless sign-in request mutation
+     * Emails a single-use sign-in link and 6-digit code
+     */
+    requestPasswordlessLogin: builder.mutation<PasswordlessLoginResponse, PasswordlessLoginRequest>(
+      {
+        query: (data) => ({
+          url: '/api/auth/passwordless/request',
+          method: 'POST',
+          body: data,
+        }),
+        transformResponse: (response: { success: boolean; data: PasswordlessLoginResponse }) =>
+          response.data,
+      },
+    ),
+
+    /**
+     * Passwordless code login mutation
+     * Returns a 2FA challenge instead of a session when the account has 2FA enabled
+     */
+    verifyPasswordlessCode: builder.mutation<LoginResult, VerifyPasswordlessCodeRequest>({
+      query: (data) => ({
+        url: '/api/auth/passwordless/verify',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { success: boolean; data: LoginResult; message: string }) =>
+        response.data,
+      invalidatesTags: ['Auth', 'User'],
+    }),
+
+    /**
+     * Magic link login mutation
+     * Returns a 2FA challenge instead of a session when the account has 2FA enabled
+     */
+    verifyMagicLink: builder.mutation<LoginResult, VerifyMagicLinkRequest>({
+      query: (data) => ({
+        url: '/api/auth/passwordless/verify-link',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: { success: boolean; data: LoginResult; message: string }) =>
+        response.data,
+      invalidatesTags: ['Auth', 'User'],
+    }),
+
+    /**
+     * Lift a sign-in lock with the token from the account locked email
+     */
+    unlockAccount: builder.mutation<UnlockAccountResponse, UnlockAccountRequest>({
+      query: (data) => ({
+        url: '/api/auth/unlock',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: {
+        success: boolean;
+        data: UnlockAccountResponse;
+        message: string;
+      }) => response.data,
+    }),
+
+    /**
+     * Request a code for reactivating a deleted account
+     */
+    requestReactivation: builder.mutation<RequestReactivationResponse, RequestReactivationRequest>({
+      query: (data) => ({
+        url: '/api/auth/reactivate/request',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: {
+        success: boolean;
+        data: RequestReactivationResponse;
+        message: string;
+      }) => response.data,
+    }),
+
+    /**
+     * Reactivate a deleted account with the emailed code
+     * Does not sign the user in
+     */
+    reactivateAccount: builder.mutation<ReactivateAccountResponse, ReactivateAccountRequest>({
+      query: (data) => ({
+        url: '/api/auth/reactivate',
+        method: 'POST',
+        body: data,
+      }),
+      transformResponse: (response: {
+        success: boolean;
+        data: ReactivateAccountResponse;
+        message: string;
+      }) => response.data,
+    }),
+
+    /**
+     * Find the SSO connection for a work email
+     * The browser is then sent to the connection's sign-in URL
+     */
+    discoverSsoConnection: builder.query<SsoDiscoveryResponse, string>({
+      query: (email) => ({
+        url: `/api/auth/saml/discover?email=${encodeURIComponent(email)}`,
+        method: 'GET',
+      }),
+      transformResponse: (response: { success: boolean; data: SsoDiscoveryResponse }) =>
+        response.data,
+      keepUnusedDataFor: 0,
+    }),
+
     /**
      * Logout mutation
      * Clears user session and auth cookies
@@ -45,18 +214,28 @@ export const authApi = baseApi.injectEndpoints({
         url: '/api/auth/logout',
         method: 'POST',
       }),
-      invalidatesTags: ['Auth', 'User', 'LinkedProviders', 'ProfileSync', 'Roles', 'Permissions'],
+      invalidatesTags: [
+        'Auth',
+        'User',
+        'LinkedProviders',
+        'ProfileSync',
+        'Roles',
+        'Permissions',
+        'Passkeys',
+      ],
     }),
 
     /**
-     * Refresh token mutation
-     * Refreshes the auth token using refresh cookie
+     * Refresh session mutation
+     * Rotates the session cookie and extends the session expiry
      */
-    refreshToken: builder.mutation<{ token: string }, void>({
+    refreshToken: builder.mutation<RefreshSessionResponse, void>({
       query: () => ({
         url: '/api/auth/refresh',
         method: 'POST',
       }),
+      transformResponse: (response: { success: boolean; data: RefreshSessionResponse }) =>
+        response.data,
       invalidatesTags: ['Auth'],
     }),
 
@@ -174,6 +353,16 @@ export const authApi = baseApi.injectEndpoints({
 // Export hooks for usage in components
 export const {
   useLoginMutation,
+  useVerifyTwoFactorLoginMutation,
+  useGetPasskeyLoginOptionsMutation,
+  useLoginWithPasskeyMutation,
+  useRequestPasswordlessLoginMutation,
+  useVerifyPasswordlessCodeMutation,
+  useVerifyMagicLinkMutation,
+  useUnlockAccountMutation,
+  useRequestReactivationMutation,
+  useReactivateAccountMutation,
+  useLazyDiscoverSsoConnectionQuery,
   useLogoutMutation,
   useRefreshTokenMutation,
   useGetCurrentUserQuery,
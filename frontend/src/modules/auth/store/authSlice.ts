@@ -77,16 +77,48 @@ export const authSlice = createSlice({
       state.error = null;
     });
     builder.addMatcher(authApi.endpoints.login.matchFulfilled, (state, action) => {
-      state.user = action.payload.user;
-      state.isAuthenticated = true;
       state.isLoading = false;
       state.error = null;
+
+      // A 2FA challenge does not authenticate the user yet
+      if ('user' in action.payload) {
+        state.user = action.payload.user;
+        state.isAuthenticated = true;
+      }
     });
     builder.addMatcher(authApi.endpoints.login.matchRejected, (state, action) => {
       state.isLoading = false;
       state.error = action.error.message || 'Login failed';
     });
 
+    builder.addMatcher(authApi.endpoints.verifyTwoFactorLogin.matchFulfilled, (state, action) => {
+      state.user = action.payload.user;
+      state.isAuthenticated = true;
+      state.isLoading = false;
+      state.error = null;
+    });
+
+    builder.addMatcher(authApi.endpoints.loginWithPasskey.matchFulfilled, (state, action) => {
+      state.user = action.payload.user;
+      state.isAuthenticated = true;
+      state.isLoading = false;
+      state.error = null;
+    });
+
+    // Passwordless sign-in may also end in a 2FA challenge
+    builder.addMatcher(authApi.endpoints.verifyPasswordlessCode.matchFulfilled, (state, action) => {
+      if ('user' in action.payload) {
+        state.user = action.payload.user;
+        state.isAuthenticated = true;
+      }
+    });
+    builder.addMatcher(authApi.endpoints.verifyMagicLink.matchFulfilled, (state, action) => {
+      if ('user' in action.payload) {
+        state.user = action.payload.user;
+        state.isAuthenticated = true;
+      }
+    });
+
     // Handle logout mutation lifecycle
     builder.addMatcher(authApi.endpoints.logout.matchFulfilled, (state) => {
       state.user = null;
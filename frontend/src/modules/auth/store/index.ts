@@ -2,6 +2,9 @@
 export {
   authApi,
   useLoginMutation,
+  useVerifyTwoFactorLoginMutation,
+  useGetPasskeyLoginOptionsMutation,
+  useLoginWithPasskeyMutation,
   useLogoutMutation,
   useRefreshTokenMutation,
   useGetCurrentUserQuery,
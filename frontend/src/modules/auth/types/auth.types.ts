@@ -3,6 +3,16 @@
  */
 export type UserRole = 'user' | 'admin' | 'manager' | 'support';
 
+/**
+ * Account status; only active accounts can sign in
+ */
+export type AccountStatus = 'active' | 'suspended' | 'deactivated' | 'pending_deletion';
+
+/**
+ * Account statuses that block sign-in
+ */
+export type BlockedAccountStatus = Exclude<AccountStatus, 'active'>;
+
 /**
  * User entity representing authenticated user data
  */
@@ -10,8 +20,16 @@ export interface User {
   id: string;
   email: string;
   name: string;
+  /** Primary role */
   role: UserRole;
+  /** Every role, primary first; missing in sessions stored before multiple roles */
+  roles?: string[];
+  /** Highest level among the roles in the role hierarchy (0 for custom roles without a level) */
+  roleLevel?: number;
   permissions: string[];
+  twoFactorEnabled?: boolean;
+  /** Organization whose membership permissions apply; absent when working outside one */
+  activeOrganization?: string;
 }
 
 /**
@@ -43,6 +61,187 @@ export interface LoginResponse {
   message?: string;
 }
 
+/**
+ * Login response when the account has two-factor authentication enabled
+ * No session cookie is set until the challenge is verified
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresAt: string;
+}
+
+/**
+ * Result of the login endpoint: a session or a 2FA challenge
+ */
+export type LoginResult = LoginResponse | TwoFactorChallengeResponse;
+
+/**
+ * Two-factor login verification request payload
+ */
+export interface VerifyTwoFactorLoginRequest {
+  challengeToken: string;
+  /** Authenticator code; omitted when a recovery code is sent */
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Passkey registration options (navigator.credentials.create), binary values base64url-encoded
+ */
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: AttestationConveyancePreference;
+  excludeCredentials: { type: 'public-key'; id: string; transports: string[] }[];
+  authenticatorSelection: AuthenticatorSelectionCriteria;
+}
+
+/**
+ * Passkey sign-in options (navigator.credentials.get), binary values base64url-encoded
+ */
+export interface PasskeyAuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: UserVerificationRequirement;
+}
+
+/**
+ * Serialized result of navigator.credentials.create()
+ */
+export interface PasskeyRegistrationCredential {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Serialized result of navigator.credentials.get()
+ */
+export interface PasskeyAuthenticationCredential {
+  id: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string;
+  };
+}
+
+/**
+ * Passkey sign-in request payload
+ */
+export interface PasskeyLoginRequest {
+  credential: PasskeyAuthenticationCredential;
+}
+
+/**
+ * Passwordless sign-in request payload
+ */
+export interface PasswordlessLoginRequest {
+  email: string;
+}
+
+/**
+ * Passwordless sign-in request response
+ * The same response is returned whether or not the email is registered
+ */
+export interface PasswordlessLoginResponse {
+  email: string;
+  message: string;
+}
+
+/**
+ * Emailed sign-in code payload
+ */
+export interface VerifyPasswordlessCodeRequest {
+  email: string;
+  code: string;
+}
+
+/**
+ * Emailed sign-in link payload
+ */
+export interface VerifyMagicLinkRequest {
+  token: string;
+}
+
+/**
+ * Account unlock payload (token from the account locked email)
+ */
+export interface UnlockAccountRequest {
+  token: string;
+}
+
+/**
+ * Account unlock response
+ */
+export interface UnlockAccountResponse {
+  email: string;
+  message: string;
+}
+
+/**
+ * Reactivation code request payload (deleted account inside its grace period)
+ */
+export interface RequestReactivationRequest {
+  email: string;
+}
+
+/**
+ * Reactivation code request response
+ * Always succeeds so that accounts cannot be enumerated
+ */
+export interface RequestReactivationResponse {
+  email: string;
+  message: string;
+}
+
+/**
+ * Account reactivation payload
+ */
+export interface ReactivateAccountRequest {
+  email: string;
+  code: string;
+}
+
+/**
+ * Account reactivation response
+ */
+export interface ReactivateAccountResponse {
+  email: string;
+  message: string;
+}
+
+/**
+ * SSO connection responsible for a work email
+ */
+export interface SsoDiscoveryResponse {
+  /** Connection slug used in the SSO sign-in URL */
+  connection: string;
+  /** Display name of the organization's identity provider */
+  name: string;
+  /** Server URL that redirects the browser to the identity provider */
+  loginUrl: string;
+}
+
+/**
+ * Session refresh response from API
+ * The rotated session token is set as an httpOnly cookie (not in response)
+ */
+export interface RefreshSessionResponse {
+  expiresAt: string;
+}
+
 /**
  * Auth error details
  */
@@ -138,10 +337,16 @@ export interface ResetPasswordResponse {
   message: string;
 }
 
+/**
+ * OAuth providers with their own icon and styling
+ */
+export type BuiltInOAuthProvider = 'google' | 'facebook' | 'github';
+
 /**
  * OAuth provider type
+ * A built-in provider or the name of an OpenID Connect provider configured on the server
  */
-export type OAuthProvider = 'google' | 'facebook' | 'github';
+export type OAuthProvider = BuiltInOAuthProvider | string;
 
 /**
  * OAuth authorization URL response
@@ -1,3 +1,7 @@
+import { parseApiError } from '@/lib/apiError';
+import { ErrorCode } from '@/constants/errorCodes';
+import type { BlockedAccountStatus } from '../types/auth.types';
+
 /**
  * Validates if a string is a valid email format
  * Uses RFC 5322 standard email regex
@@ -178,3 +182,110 @@ export function translateAuthError(error: unknown, t: (key: string) => string):
   // Default to server error translation
   return t('errors.serverError');
 }
+
+/**
+ * Blocked account status reported by each account status error code
+ */
+const BLOCKED_STATUS_BY_ERROR_CODE: Record<string, BlockedAccountStatus> = {
+  [ErrorCode.ACCOUNT_SUSPENDED]: 'suspended',
+  [ErrorCode.ACCOUNT_DEACTIVATED]: 'deactivated',
+  [ErrorCode.ACCOUNT_PENDING_DELETION]: 'pending_deletion',
+};
+
+/**
+ * Translation keys (under auth.login) explaining each blocked status
+ */
+const BLOCKED_STATUS_MESSAGE_KEYS: Record<BlockedAccountStatus, string> = {
+  suspended: 'accountStatus.suspended',
+  deactivated: 'accountStatus.deactivated',
+  pending_deletion: 'accountStatus.pendingDeletion',
+};
+
+/**
+ * Checks if a value (e.g. a query parameter) is a status that blocks sign-in
+ *
+ * @example
+ * isBlockedAccountStatus('suspended') // true
+ * isBlockedAccountStatus('active') // false
+ */
+export function isBlockedAccountStatus(value: string | null): value is BlockedAccountStatus {
+  return value !== null && value in BLOCKED_STATUS_MESSAGE_KEYS;
+}
+
+/**
+ * Maps an account status error code to the blocked status it reports
+ *
+ * @example
+ * getBlockedStatusForCode('ACCOUNT_SUSPENDED') // 'suspended'
+ * getBlockedStatusForCode('INVALID_CREDENTIALS') // null
+ */
+export function getBlockedStatusForCode(code: string | null): BlockedAccountStatus | null {
+  return (code && BLOCKED_STATUS_BY_ERROR_CODE[code]) || null;
+}
+
+/**
+ * Reads the blocked account status from an account status API error
+ *
+ * @param error - Error object from API
+ * @returns The status, the admin's reason and, for accounts the owner deleted,
+ * the end of the reactivation grace period; or null for other errors
+ *
+ * @example
+ * getBlockedAccountStatus(apiError) // { status: 'suspended', reason: 'Spam reports' }
+ */
+export function getBlockedAccountStatus(
+  error: unknown,
+): { status: BlockedAccountStatus; reason?: string; reactivateBefore?: string } | null {
+  const { code, details } = parseApiError(error);
+  const status = getBlockedStatusForCode(code);
+
+  if (!status) {
+    return null;
+  }
+
+  return {
+    status,
+    reason: typeof details?.reason === 'string' ? details.reason : undefined,
+    reactivateBefore:
+      typeof details?.reactivateBefore === 'string' ? details.reactivateBefore : undefined,
+  };
+}
+
+/**
+ * Builds the login page URL that explains why the account cannot sign in
+ *
+ * @example
+ * getAccountStatusLoginPath('suspended', 'Spam reports')
+ * // '/auth/login?account=suspended&reason=Spam+reports'
+ */
+export function getAccountStatusLoginPath(status: BlockedAccountStatus, reason?: string): string {
+  const params = new URLSearchParams({ account: status });
+  if (reason) {
+    params.set('reason', reason);
+  }
+
+  return `/auth/login?${params.toString()}`;
+}
+
+/**
+ * Explains a blocked account status, including the suspension reason if given
+ *
+ * @param status - Blocked account status
+ * @param t - Translation function scoped to auth.login
+ * @param reason - Reason given by the administrator
+ * @returns Translated message
+ *
+ * @example
+ * translateAccountStatus('deactivated', t) // 'This account has been deactivated...'
+ */
+export function translateAccountStatus(
+  status: BlockedAccountStatus,
+  t: (key: string, values?: Record<string, string>) => string,
+  reason?: string | null,
+): string {
+  if (status === 'suspended' && reason) {
+    return t('accountStatus.suspendedReason', { reason });
+  }
+
+  return t(BLOCKED_STATUS_MESSAGE_KEYS[status]);
+}
@@ -1,4 +1,14 @@
-export { isValidEmail, isTokenExpired, getRedirectPath, getErrorMessage } from './authHelpers';
+export {
+  isValidEmail,
+  isTokenExpired,
+  getRedirectPath,
+  getErrorMessage,
+  isBlockedAccountStatus,
+  getBlockedStatusForCode,
+  getBlockedAccountStatus,
+  getAccountStatusLoginPath,
+  translateAccountStatus,
+} from './authHelpers';
 export { saveAuthState, loadAuthState, clearAuthState, isLocalStorageAvailable } from './storage';
 export {
   openOAuthPopup,
@@ -8,3 +18,11 @@ export {
   isValidOAuthCallbackData,
   type OAuthCallbackData,
 } from './oauthHelpers';
+export {
+  isWebAuthnSupported,
+  base64UrlToBuffer,
+  bufferToBase64Url,
+  createPasskey,
+  getPasskeyAssertion,
+  isPasskeyCancelled,
+} from './webauthn';
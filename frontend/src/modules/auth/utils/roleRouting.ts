@@ -11,11 +11,25 @@ const ROLE_DASHBOARDS: Record<UserRole, string> = {
   user: '/dashboard',
 };
 
+/**
+ * Levels of the system roles in the role hierarchy
+ * Mirrors ROLE_HIERARCHY on the backend; custom roles rank between them.
+ */
+export const ROLE_LEVELS: Record<UserRole, number> = {
+  user: 1,
+  support: 2,
+  manager: 3,
+  admin: 4,
+};
+
 /**
  * Maps user role to appropriate dashboard route
- * Provides type-safe routing for role-based navigation
+ * Custom roles use the dashboard of the highest system role at or below
+ * their level, so a team lead ranked between support and manager lands on
+ * the support dashboard.
  *
- * @param role - User role from auth state
+ * @param role - User role from auth state (system or custom role slug)
+ * @param roleLevel - Level of the role in the role hierarchy
  * @returns Dashboard URL path
  *
  * @example
@@ -23,16 +37,24 @@ const ROLE_DASHBOARDS: Record<UserRole, string> = {
  * // Returns: '/admin/dashboard'
  *
  * @example
- * const dashboardUrl = getRoleDashboard('user');
- * // Returns: '/dashboard'
+ * const dashboardUrl = getRoleDashboard('team-lead', 2.5);
+ * // Returns: '/support/dashboard'
  */
-export function getRoleDashboard(role: UserRole): string {
-  const dashboardUrl = ROLE_DASHBOARDS[role];
+export function getRoleDashboard(role: string, roleLevel?: number): string {
+  const dashboardUrl = ROLE_DASHBOARDS[role as UserRole];
+
+  if (dashboardUrl) {
+    return dashboardUrl;
+  }
+
+  const systemRole = (Object.keys(ROLE_LEVELS) as UserRole[])
+    .filter((slug) => ROLE_LEVELS[slug] <= (roleLevel ?? 0))
+    .sort((a, b) => ROLE_LEVELS[b] - ROLE_LEVELS[a])[0];
 
-  if (!dashboardUrl) {
+  if (!systemRole) {
     console.warn(`Unknown role: ${role}, defaulting to /dashboard`);
     return '/dashboard';
   }
 
-  return dashboardUrl;
+  return ROLE_DASHBOARDS[systemRole];
 }
@@ -0,0 +1,127 @@
+import type {
+  PasskeyAuthenticationCredential,
+  PasskeyAuthenticationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRegistrationOptions,
+} from '../types/auth.types';
+
+/**
+ * Checks whether the browser supports passkeys (WebAuthn)
+ */
+export function isWebAuthnSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.PublicKeyCredential !== 'undefined' &&
+    typeof navigator.credentials?.create === 'function'
+  );
+}
+
+/**
+ * Decodes a base64url string into an ArrayBuffer
+ */
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes.buffer;
+}
+
+/**
+ * Encodes an ArrayBuffer as a base64url string
+ */
+export function bufferToBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Prompts the user to create a passkey
+ * @param options - Registration options from the API
+ * @returns The serialized credential to send back to the API
+ * @throws DOMException if the user cancels or the authenticator refuses
+ */
+export async function createPasskey(
+  options: PasskeyRegistrationOptions,
+): Promise<PasskeyRegistrationCredential> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+      user: { ...options.user, id: base64UrlToBuffer(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map((item) => ({
+        type: item.type,
+        id: base64UrlToBuffer(item.id),
+        transports: item.transports as AuthenticatorTransport[],
+      })),
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new DOMException('Passkey creation was cancelled', 'NotAllowedError');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    id: credential.id,
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+}
+
+/**
+ * Prompts the user to sign in with one of their passkeys
+ * @param options - Authentication options from the API
+ * @returns The serialized assertion to send back to the API
+ * @throws DOMException if the user cancels or no passkey is available
+ */
+export async function getPasskeyAssertion(
+  options: PasskeyAuthenticationOptions,
+): Promise<PasskeyAuthenticationCredential> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new DOMException('Passkey sign-in was cancelled', 'NotAllowedError');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: credential.id,
+    type: 'public-key',
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      ...(response.userHandle && { userHandle: bufferToBase64Url(response.userHandle) }),
+    },
+  };
+}
+
+/**
+ * Whether an error means the user dismissed the browser's passkey prompt
+ */
+export function isPasskeyCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'NotAllowedError';
+}
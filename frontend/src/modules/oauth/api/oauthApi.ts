@@ -16,6 +16,7 @@ export const oauthApi = baseApi.injectEndpoints({
     /**
      * Get authorization URL for OAuth provider
      * Returns the URL to redirect user to for OAuth authorization
+     * The URL carries a single-use state, so it is not cached once unused
      */
     getAuthorizationUrl: builder.query<OAuthAuthUrlResponse, OAuthProvider>({
       query: (provider) => ({
@@ -27,6 +28,7 @@ export const oauthApi = baseApi.injectEndpoints({
         data: OAuthAuthUrlResponse;
         message: string;
       }) => response.data,
+      keepUnusedDataFor: 0,
     }),
 
     /**
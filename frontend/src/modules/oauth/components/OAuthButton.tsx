@@ -5,7 +5,13 @@ import { useTranslations } from 'next-intl';
 import { useRouter } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { useGetAuthorizationUrlQuery, useHandleCallbackMutation } from '../api';
+import { useApiError } from '@/hooks/useApiError';
+import { getAccountStatusLoginPath, getBlockedAccountStatus } from '@/modules/auth/utils';
+import {
+  useGetAuthorizationUrlQuery,
+  useGetEnabledProvidersQuery,
+  useHandleCallbackMutation,
+} from '../api';
 import type { OAuthProvider } from '../types';
 import {
   formatProviderName,
@@ -32,6 +38,9 @@ export function OAuthButton({ provider, onSuccess, onError, disabled = false }:
   const tCallback = useTranslations('auth.oauth.callback');
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
+  const { isCode, ErrorCode } = useApiError();
+  const { data: providersData } = useGetEnabledProvidersQuery();
+  const providerName = formatProviderName(provider, providersData?.displayNames);
 
   const { data: authUrlData, isLoading: isFetchingUrl } = useGetAuthorizationUrlQuery(provider, {
     skip: isLoading || disabled,
@@ -41,8 +50,8 @@ export function OAuthButton({ provider, onSuccess, onError, disabled = false }:
 
   const handleOAuthClick = async () => {
     if (!authUrlData?.url) {
-      toast.error(t('error', { provider: formatProviderName(provider) }));
-      onError?.(t('error', { provider: formatProviderName(provider) }));
+      toast.error(t('error', { provider: providerName }));
+      onError?.(t('error', { provider: providerName }));
       return;
     }
 
@@ -75,8 +84,20 @@ export function OAuthButton({ provider, onSuccess, onError, disabled = false }:
 
       onSuccess?.();
     } catch (error) {
+      if (isCode(error, ErrorCode.OAUTH_STATE_MISMATCH)) {
+        router.push(`/auth/oauth/error?code=${ErrorCode.OAUTH_STATE_MISMATCH}`);
+        return;
+      }
+
+      // The account is suspended or removed: explain it on the login page
+      const blocked = getBlockedAccountStatus(error);
+      if (blocked) {
+        router.push(getAccountStatusLoginPath(blocked.status, blocked.reason));
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'OAuth authentication failed';
-      toast.error(t('error', { provider: formatProviderName(provider) }));
+      toast.error(t('error', { provider: providerName }));
       onError?.(errorMessage);
     } finally {
       setIsLoading(false);
@@ -84,7 +105,6 @@ export function OAuthButton({ provider, onSuccess, onError, disabled = false }:
   };
 
   const { bgColor, hoverColor, textColor, borderColor } = getProviderStyles(provider);
-  const providerName = formatProviderName(provider);
 
   return (
     <button
@@ -15,12 +15,15 @@ export {
   waitForOAuthCallback,
   getOAuthProviderIconPath,
   formatProviderName,
+  isBuiltInOAuthProvider,
+  isValidOAuthProviderName,
   isValidOAuthCallbackData,
   getProviderStyles,
 } from './utils';
 
 // Types
 export type {
+  BuiltInOAuthProvider,
   OAuthProvider,
   OAuthAuthUrlResponse,
   OAuthCallbackRequest,
@@ -1,9 +1,15 @@
 import type { User } from '@/modules/auth/types/auth.types';
 
+/**
+ * OAuth providers with their own icon and styling
+ */
+export type BuiltInOAuthProvider = 'google' | 'facebook' | 'github';
+
 /**
  * OAuth provider type
+ * A built-in provider or the name of an OpenID Connect provider configured on the server
  */
-export type OAuthProvider = 'google' | 'facebook' | 'github';
+export type OAuthProvider = BuiltInOAuthProvider | string;
 
 /**
  * OAuth authorization URL response
@@ -36,6 +42,8 @@ export interface OAuthCallbackResponse {
  */
 export interface OAuthProvidersResponse {
   providers: string[];
+  /** Labels for configured OpenID Connect providers */
+  displayNames?: Record<string, string>;
 }
 
 /**
@@ -1,4 +1,4 @@
-import type { OAuthCallbackData, OAuthProvider } from '../types';
+import type { BuiltInOAuthProvider, OAuthCallbackData, OAuthProvider } from '../types';
 
 /**
  * Opens a centered popup window for OAuth authorization
@@ -72,19 +72,49 @@ export function getOAuthProviderIconPath(provider: string): string {
       'M22 12c0-5.523-4.477-10-10-10S2 6.477 2 12c0 4.991 3.657 9.128 8.438 9.878v-6.987h-2.54V12h2.54V9.797c0-2.506 1.492-3.89 3.777-3.89 1.094 0 2.238.195 2.238.195v2.46h-1.26c-1.243 0-1.63.771-1.63 1.562V12h2.773l-.443 2.89h-2.33v6.988C18.343 21.128 22 16.991 22 12z',
   };
 
-  return iconPaths[provider] || '';
+  // Generic sign-in icon for OpenID Connect providers
+  return (
+    iconPaths[provider] ||
+    'M11 7 9.6 8.4l2.6 2.6H2v2h10.2l-2.6 2.6L11 17l5-5-5-5zm9 12h-8v2h8c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2h-8v2h8v14z'
+  );
+}
+
+/**
+ * Whether the provider is built in (as opposed to a configured OIDC provider)
+ * Only built-in providers can be the primary provider for profile sync
+ */
+export function isBuiltInOAuthProvider(provider: string): provider is BuiltInOAuthProvider {
+  return ['google', 'facebook', 'github'].includes(provider);
+}
+
+/**
+ * Validates the shape of a provider name taken from a URL
+ * The server decides whether the provider is actually configured
+ */
+export function isValidOAuthProviderName(provider: string): boolean {
+  return /^[a-z][a-z0-9-]{1,31}$/.test(provider);
 }
 
 /**
  * Formats provider name for display
+ * @param displayNames - Labels of configured OIDC providers from the providers endpoint
  */
-export function formatProviderName(provider: string): string {
+export function formatProviderName(
+  provider: string,
+  displayNames?: Record<string, string>,
+): string {
   const nameMap: Record<string, string> = {
     github: 'GitHub',
     google: 'Google',
     facebook: 'Facebook',
+    ...displayNames,
   };
 
+  // SAML SSO connections are linked as saml-<connection>
+  if (!nameMap[provider] && provider.startsWith('saml-')) {
+    return `SSO (${provider.slice('saml-'.length)})`;
+  }
+
   return nameMap[provider] || provider.charAt(0).toUpperCase() + provider.slice(1);
 }
 
@@ -114,7 +144,7 @@ export function getProviderStyles(provider: OAuthProvider): {
   borderColor: string;
 } {
   const styleMap: Record<
-    OAuthProvider,
+    string,
     { bgColor: string; hoverColor: string; textColor: string; borderColor: string }
   > = {
     google: {
@@ -0,0 +1,261 @@
+import { baseApi } from '@/store/api/baseApi';
+import type {
+  Organization,
+  OrganizationMember,
+  OrganizationInvite,
+  OrganizationNameRequest,
+  InviteMemberRequest,
+  UpdateMemberRoleRequest,
+  Team,
+  TeamNameRequest,
+  TeamMemberRequest,
+} from '../types';
+
+/**
+ * Organizations API slice
+ * Switching, creating, joining or leaving an organization changes the
+ * current user's permissions, so those mutations also refetch the profile.
+ */
+export const organizationsApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    /**
+     * Organizations the current user belongs to
+     */
+    listOrganizations: builder.query<Organization[], void>({
+      query: () => '/api/organizations',
+      transformResponse: (response: { success: boolean; data: Organization[] }) => response.data,
+      providesTags: ['Organizations'],
+    }),
+
+    /**
+     * Create an organization owned by the current user and make it active
+     */
+    createOrganization: builder.mutation<Organization, OrganizationNameRequest>({
+      query: (body) => ({
+        url: '/api/organizations',
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (response: { success: boolean; data: Organization }) => response.data,
+      invalidatesTags: ['Organizations', 'User'],
+    }),
+
+    /**
+     * Make an organization active, or none with null
+     */
+    switchOrganization: builder.mutation<void, string | null>({
+      query: (organizationId) => ({
+        url: '/api/organizations/active',
+        method: 'PUT',
+        body: { organizationId },
+      }),
+      invalidatesTags: ['Organizations', 'User'],
+    }),
+
+    /**
+     * Join an organization with the token from an invite email
+     */
+    acceptOrganizationInvite: builder.mutation<Organization, string>({
+      query: (token) => ({
+        url: '/api/organizations/invites/accept',
+        method: 'POST',
+        body: { token },
+      }),
+      transformResponse: (response: { success: boolean; data: Organization }) => response.data,
+      invalidatesTags: ['Organizations', 'User'],
+    }),
+
+    /**
+     * The active organization
+     */
+    getCurrentOrganization: builder.query<Organization, void>({
+      query: () => '/api/organizations/current',
+      transformResponse: (response: { success: boolean; data: Organization }) => response.data,
+      providesTags: ['Organizations'],
+    }),
+
+    /**
+     * Rename the active organization
+     */
+    updateOrganization: builder.mutation<Organization, OrganizationNameRequest>({
+      query: (body) => ({
+        url: '/api/organizations/current',
+        method: 'PATCH',
+        body,
+      }),
+      transformResponse: (response: { success: boolean; data: Organization }) => response.data,
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Delete the active organization
+     */
+    deleteOrganization: builder.mutation<void, void>({
+      query: () => ({
+        url: '/api/organizations/current',
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Organizations', 'User'],
+    }),
+
+    /**
+     * Leave the active organization
+     */
+    leaveOrganization: builder.mutation<void, void>({
+      query: () => ({
+        url: '/api/organizations/current/leave',
+        method: 'POST',
+      }),
+      invalidatesTags: ['Organizations', 'User'],
+    }),
+
+    /**
+     * Members of the active organization
+     */
+    listOrganizationMembers: builder.query<OrganizationMember[], void>({
+      query: () => '/api/organizations/current/members',
+      transformResponse: (response: { success: boolean; data: OrganizationMember[] }) =>
+        response.data,
+      providesTags: ['Organizations'],
+    }),
+
+    /**
+     * Change a member's role in the active organization
+     */
+    updateOrganizationMemberRole: builder.mutation<OrganizationMember, UpdateMemberRoleRequest>({
+      query: ({ userId, role }) => ({
+        url: `/api/organizations/current/members/${userId}`,
+        method: 'PATCH',
+        body: { role },
+      }),
+      transformResponse: (response: { success: boolean; data: OrganizationMember }) =>
+        response.data,
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Remove a member from the active organization
+     */
+    removeOrganizationMember: builder.mutation<void, string>({
+      query: (userId) => ({
+        url: `/api/organizations/current/members/${userId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Pending invites to the active organization
+     */
+    listOrganizationInvites: builder.query<OrganizationInvite[], void>({
+      query: () => '/api/organizations/current/invites',
+      transformResponse: (response: { success: boolean; data: OrganizationInvite[] }) =>
+        response.data,
+      providesTags: ['Organizations'],
+    }),
+
+    /**
+     * Email an invite to join the active organization
+     */
+    inviteOrganizationMember: builder.mutation<OrganizationInvite, InviteMemberRequest>({
+      query: (body) => ({
+        url: '/api/organizations/current/invites',
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (response: { success: boolean; data: OrganizationInvite }) =>
+        response.data,
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Revoke a pending invite
+     */
+    revokeOrganizationInvite: builder.mutation<void, string>({
+      query: (inviteId) => ({
+        url: `/api/organizations/current/invites/${inviteId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Teams of the active organization
+     */
+    listTeams: builder.query<Team[], void>({
+      query: () => '/api/organizations/current/teams',
+      transformResponse: (response: { success: boolean; data: Team[] }) => response.data,
+      providesTags: ['Organizations'],
+    }),
+
+    /**
+     * Create a team in the active organization
+     */
+    createTeam: builder.mutation<Team, TeamNameRequest>({
+      query: (body) => ({
+        url: '/api/organizations/current/teams',
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (response: { success: boolean; data: Team }) => response.data,
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Delete a team
+     */
+    deleteTeam: builder.mutation<void, string>({
+      query: (teamId) => ({
+        url: `/api/organizations/current/teams/${teamId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Add an organization member to a team
+     */
+    addTeamMember: builder.mutation<Team, TeamMemberRequest>({
+      query: ({ teamId, userId }) => ({
+        url: `/api/organizations/current/teams/${teamId}/members`,
+        method: 'POST',
+        body: { userId },
+      }),
+      transformResponse: (response: { success: boolean; data: Team }) => response.data,
+      invalidatesTags: ['Organizations'],
+    }),
+
+    /**
+     * Take a member off a team
+     */
+    removeTeamMember: builder.mutation<void, TeamMemberRequest>({
+      query: ({ teamId, userId }) => ({
+        url: `/api/organizations/current/teams/${teamId}/members/${userId}`,
+        method: 'DELETE',
+      }),
+      invalidatesTags: ['Organizations'],
+    }),
+  }),
+});
+
+export const {
+  useListOrganizationsQuery,
+  useCreateOrganizationMutation,
+  useSwitchOrganizationMutation,
+  useAcceptOrganizationInviteMutation,
+  useGetCurrentOrganizationQuery,
+  useUpdateOrganizationMutation,
+  useDeleteOrganizationMutation,
+  useLeaveOrganizationMutation,
+  useListOrganizationMembersQuery,
+  useUpdateOrganizationMemberRoleMutation,
+  useRemoveOrganizationMemberMutation,
+  useListOrganizationInvitesQuery,
+  useInviteOrganizationMemberMutation,
+  useRevokeOrganizationInviteMutation,
+  useListTeamsQuery,
+  useCreateTeamMutation,
+  useDeleteTeamMutation,
+  useAddTeamMemberMutation,
+  useRemoveTeamMemberMutation,
+} = organizationsApi;
@@ -0,0 +1,81 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Building2, Loader2 } from 'lucide-react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/useApiError';
+import { useAcceptOrganizationInviteMutation } from '../api/organizationsApi';
+
+interface AcceptInviteCardProps {
+  /** Token from the invite email link */
+  readonly token?: string;
+}
+
+/**
+ * AcceptInviteCard Component
+ * Opened from an invite email. Joining makes the organization active and
+ * takes the user to its page.
+ */
+export function AcceptInviteCard({ token }: AcceptInviteCardProps) {
+  const t = useTranslations('organizations.join');
+  const router = useRouter();
+  const { getErrorMessage } = useApiError();
+  const [acceptInvite, { isLoading, error }] = useAcceptOrganizationInviteMutation();
+
+  const handleAccept = async () => {
+    if (!token) {
+      return;
+    }
+
+    try {
+      const organization = await acceptInvite(token).unwrap();
+      toast.success(t('success', { name: organization.name }));
+      router.push('/organization');
+    } catch {
+      // Shown below the description
+    }
+  };
+
+  return (
+    <Card className="mx-auto max-w-md" data-testid="accept-invite-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          {t('title')}
+        </CardTitle>
+        <CardDescription>{t('description')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {(!token || error) && (
+          <Alert variant="destructive" data-testid="accept-invite-error">
+            <AlertDescription>
+              {token ? getErrorMessage(error) : t('missingToken')}
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          className="w-full"
+          onClick={handleAccept}
+          disabled={!token || isLoading}
+          data-testid="accept-invite-button"
+        >
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {t('accept')}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useApiError } from '@/hooks/useApiError';
+import { useCreateOrganizationMutation } from '../api/organizationsApi';
+
+export interface CreateOrganizationDialogProps {
+  /**
+   * Whether the dialog is open
+   */
+  open: boolean;
+
+  /**
+   * Callback when dialog should close
+   */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for creating an organization.
+ * The creator becomes its owner and it becomes their active organization.
+ */
+export function CreateOrganizationDialog({ open, onOpenChange }: CreateOrganizationDialogProps) {
+  const t = useTranslations('organizations.create');
+  const tCommon = useTranslations('common');
+  const { getErrorMessage } = useApiError();
+  const [name, setName] = useState('');
+  const [createOrganization, { isLoading }] = useCreateOrganizationMutation();
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setName('');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const organization = await createOrganization({ name: name.trim() }).unwrap();
+      toast.success(t('success', { name: organization.name }));
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{t('title')}</DialogTitle>
+            <DialogDescription>{t('description')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-6">
+            <Label htmlFor="organization-name">{t('name')}</Label>
+            <Input
+              id="organization-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('namePlaceholder')}
+              minLength={2}
+              maxLength={80}
+              disabled={isLoading}
+              required
+              data-testid="organization-name-input"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button
+              type="submit"
+              disabled={isLoading || name.trim().length < 2}
+              data-testid="create-organization-submit"
+            >
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('submit')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useApiError } from '@/hooks/useApiError';
+import { useInviteOrganizationMemberMutation } from '../api/organizationsApi';
+import { ORGANIZATION_ROLES, type OrganizationRole } from '../types';
+
+export interface InviteMemberDialogProps {
+  /**
+   * Whether the dialog is open
+   */
+  open: boolean;
+
+  /**
+   * Callback when dialog should close
+   */
+  onOpenChange: (open: boolean) => void;
+
+  /**
+   * The current user's role; only owners can invite owners
+   */
+  currentRole: OrganizationRole;
+}
+
+/**
+ * Dialog for emailing an invite to join the active organization
+ */
+export function InviteMemberDialog({ open, onOpenChange, currentRole }: InviteMemberDialogProps) {
+  const t = useTranslations('organizations.invite');
+  const tRoles = useTranslations('organizations.roles');
+  const tCommon = useTranslations('common');
+  const { getErrorMessage } = useApiError();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<OrganizationRole>('member');
+  const [inviteMember, { isLoading }] = useInviteOrganizationMemberMutation();
+
+  const roles = ORGANIZATION_ROLES.filter((value) => value !== 'owner' || currentRole === 'owner');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setEmail('');
+      setRole('member');
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await inviteMember({ email: email.trim(), role }).unwrap();
+      toast.success(t('success', { email: email.trim() }));
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{t('title')}</DialogTitle>
+            <DialogDescription>{t('description')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-6">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">{t('email')}</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="colleague@example.com"
+                disabled={isLoading}
+                required
+                data-testid="invite-email-input"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-role">{t('role')}</Label>
+              <Select
+                value={role}
+                onValueChange={(value) => setRole(value as OrganizationRole)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="invite-role" data-testid="invite-role-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {tRoles(value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isLoading}
+            >
+              {tCommon('cancel')}
+            </Button>
+            <Button type="submit" disabled={isLoading} data-testid="invite-member-submit">
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('submit')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Loader2, Mail, UserPlus, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/useApiError';
+import {
+  useListOrganizationInvitesQuery,
+  useRevokeOrganizationInviteMutation,
+} from '../api/organizationsApi';
+import { InviteMemberDialog } from './InviteMemberDialog';
+import type { OrganizationRole } from '../types';
+
+interface OrganizationInvitesCardProps {
+  /** The current user's role in the active organization */
+  readonly currentRole: OrganizationRole;
+}
+
+/**
+ * OrganizationInvitesCard Component
+ * Lists invites to the active organization that have not been accepted yet,
+ * with actions to send new ones and revoke pending ones.
+ */
+export function OrganizationInvitesCard({ currentRole }: OrganizationInvitesCardProps) {
+  const t = useTranslations('organizations.invites');
+  const tRoles = useTranslations('organizations.roles');
+  const { getErrorMessage } = useApiError();
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const { data: invites = [], isLoading } = useListOrganizationInvitesQuery();
+  const [revokeInvite, { isLoading: isRevoking }] = useRevokeOrganizationInviteMutation();
+
+  const handleRevoke = async (inviteId: string, email: string) => {
+    try {
+      await revokeInvite(inviteId).unwrap();
+      toast.success(t('revoked', { email }));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Card data-testid="organization-invites-card">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{t('title')}</CardTitle>
+          <CardDescription>{t('description')}</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setInviteOpen(true)} data-testid="invite-member-button">
+          <UserPlus className="mr-2 h-4 w-4" />
+          {t('invite')}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : invites.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">{t('empty')}</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {invites.map((invite) => (
+              <li
+                key={invite.id}
+                className="flex flex-wrap items-center justify-between gap-3 py-3"
+                data-testid={`organization-invite-${invite.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="flex items-center gap-2 truncate text-sm font-medium">
+                    <Mail className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    {invite.email}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {invite.invitedBy
+                      ? t('invitedBy', {
+                          name: invite.invitedBy,
+                          date: new Date(invite.expiresAt).toLocaleDateString(),
+                        })
+                      : t('expires', { date: new Date(invite.expiresAt).toLocaleDateString() })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{tRoles(invite.role)}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRevoke(invite.id, invite.email)}
+                    disabled={isRevoking}
+                    aria-label={t('revoke')}
+                    data-testid={`revoke-invite-${invite.id}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <InviteMemberDialog
+        open={inviteOpen}
+        onOpenChange={setInviteOpen}
+        currentRole={currentRole}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Loader2, UserMinus } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/useApiError';
+import { useAppSelector } from '@/store/hooks';
+import { selectUser } from '@/modules/auth/store/authSlice';
+import { usePermission, ORGANIZATION_PERMISSIONS } from '@/modules/permissions';
+import {
+  useListOrganizationMembersQuery,
+  useRemoveOrganizationMemberMutation,
+  useUpdateOrganizationMemberRoleMutation,
+} from '../api/organizationsApi';
+import { ORGANIZATION_ROLES, type OrganizationMember, type OrganizationRole } from '../types';
+
+interface OrganizationMembersCardProps {
+  /** The current user's role in the active organization */
+  readonly currentRole: OrganizationRole;
+}
+
+/**
+ * OrganizationMembersCard Component
+ * Lists members of the active organization. Members who can manage the
+ * organization can change roles and remove others; only owners can touch
+ * other owners.
+ */
+export function OrganizationMembersCard({ currentRole }: OrganizationMembersCardProps) {
+  const t = useTranslations('organizations.members');
+  const tRoles = useTranslations('organizations.roles');
+  const tCommon = useTranslations('common');
+  const { getErrorMessage } = useApiError();
+  const { can } = usePermission();
+  const currentUser = useAppSelector(selectUser);
+  const [pendingRemoval, setPendingRemoval] = useState<OrganizationMember | null>(null);
+  const { data: members = [], isLoading } = useListOrganizationMembersQuery();
+  const [updateRole, { isLoading: isUpdating }] = useUpdateOrganizationMemberRoleMutation();
+  const [removeMember, { isLoading: isRemoving }] = useRemoveOrganizationMemberMutation();
+
+  const canManage = can(ORGANIZATION_PERMISSIONS.MANAGE_TEAM);
+  const isOwner = currentRole === 'owner';
+  const assignableRoles = ORGANIZATION_ROLES.filter((role) => isOwner || role !== 'owner');
+
+  const canManageMember = (member: OrganizationMember) =>
+    canManage && member.userId !== currentUser?.id && (isOwner || member.role !== 'owner');
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrganizationRole) => {
+    try {
+      await updateRole({ userId: member.userId, role }).unwrap();
+      toast.success(t('roleChanged', { name: member.name, role: tRoles(role) }));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleConfirmRemoval = async () => {
+    if (!pendingRemoval) {
+      return;
+    }
+
+    try {
+      await removeMember(pendingRemoval.userId).unwrap();
+      toast.success(t('removed', { name: pendingRemoval.name }));
+      setPendingRemoval(null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Card data-testid="organization-members-card">
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description', { count: members.length })}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-border">
+            {members.map((member) => (
+              <li
+                key={member.userId}
+                className="flex flex-wrap items-center justify-between gap-3 py-3"
+                data-testid={`organization-member-${member.userId}`}
+              >
+                <div className="min-w-0">
+                  <p className="flex items-center gap-2 truncate text-sm font-medium">
+                    {member.name}
+                    {member.userId === currentUser?.id && (
+                      <Badge variant="outline" className="text-xs">
+                        {t('you')}
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+                </div>
+
+                {canManageMember(member) ? (
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) => handleRoleChange(member, role as OrganizationRole)}
+                      disabled={isUpdating}
+                    >
+                      <SelectTrigger
+                        className="w-[130px]"
+                        data-testid={`member-role-select-${member.userId}`}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {assignableRoles.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {tRoles(role)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setPendingRemoval(member)}
+                      aria-label={t('remove')}
+                      data-testid={`remove-member-${member.userId}`}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Badge variant="secondary">{tRoles(member.role)}</Badge>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog
+        open={!!pendingRemoval}
+        onOpenChange={(open) => !open && setPendingRemoval(null)}
+      >
+        <AlertDialogContent data-testid="remove-member-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('removeTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('removeDescription', { name: pendingRemoval?.name ?? '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRemoving}>{tCommon('cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmRemoval}
+              disabled={isRemoving}
+              data-testid="confirm-remove-member"
+            >
+              {isRemoving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('remove')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Loader2, LogOut, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useApiError } from '@/hooks/useApiError';
+import { usePermission, ORGANIZATION_PERMISSIONS } from '@/modules/permissions';
+import {
+  useDeleteOrganizationMutation,
+  useLeaveOrganizationMutation,
+  useUpdateOrganizationMutation,
+} from '../api/organizationsApi';
+import type { Organization } from '../types';
+
+interface OrganizationSettingsCardProps {
+  readonly organization: Organization;
+}
+
+type PendingAction = 'leave' | 'delete';
+
+/**
+ * OrganizationSettingsCard Component
+ * Renaming, leaving and deleting the active organization. Leaving or
+ * deleting returns the user to working outside any organization.
+ */
+export function OrganizationSettingsCard({ organization }: OrganizationSettingsCardProps) {
+  const t = useTranslations('organizations.settings');
+  const tCommon = useTranslations('common');
+  const { getErrorMessage } = useApiError();
+  const { can } = usePermission();
+  const [name, setName] = useState(organization.name);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [updateOrganization, { isLoading: isRenaming }] = useUpdateOrganizationMutation();
+  const [leaveOrganization, { isLoading: isLeaving }] = useLeaveOrganizationMutation();
+  const [deleteOrganization, { isLoading: isDeleting }] = useDeleteOrganizationMutation();
+
+  const canRename = can(ORGANIZATION_PERMISSIONS.UPDATE_TEAM);
+  const canDelete = can(ORGANIZATION_PERMISSIONS.DELETE_TEAM);
+  const isConfirming = isLeaving || isDeleting;
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await updateOrganization({ name: name.trim() }).unwrap();
+      toast.success(t('renamed'));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleConfirm = async () => {
+    try {
+      if (pendingAction === 'delete') {
+        await deleteOrganization().unwrap();
+        toast.success(t('deleted', { name: organization.name }));
+      } else {
+        await leaveOrganization().unwrap();
+        toast.success(t('left', { name: organization.name }));
+      }
+      setPendingAction(null);
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <Card data-testid="organization-settings-card">
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canRename && (
+          <form onSubmit={handleRename} className="space-y-2">
+            <Label htmlFor="organization-rename">{t('name')}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="organization-rename"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                minLength={2}
+                maxLength={80}
+                disabled={isRenaming}
+                required
+                data-testid="organization-rename-input"
+              />
+              <Button
+                type="submit"
+                disabled={isRenaming || name.trim() === organization.name || name.trim().length < 2}
+                data-testid="organization-rename-submit"
+              >
+                {isRenaming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {tCommon('save')}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setPendingAction('leave')}
+            data-testid="leave-organization-button"
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            {t('leave')}
+          </Button>
+          {canDelete && (
+            <Button
+              variant="destructive"
+              onClick={() => setPendingAction('delete')}
+              data-testid="delete-organization-button"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              {t('delete')}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent data-testid="organization-confirm-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction === 'delete' ? t('deleteTitle') : t('leaveTitle')}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction === 'delete'
+                ? t('deleteDescription', { name: organization.name })
+                : t('leaveDescription', { name: organization.name })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isConfirming}>{tCommon('cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              disabled={isConfirming}
+              data-testid="confirm-organization-action"
+            >
+              {isConfirming && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction === 'delete' ? t('delete') : t('leave')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Building2, Check, ChevronsUpDown, Loader2, Plus, User } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useApiError } from '@/hooks/useApiError';
+import { useListOrganizationsQuery, useSwitchOrganizationMutation } from '../api/organizationsApi';
+import { CreateOrganizationDialog } from './CreateOrganizationDialog';
+
+/**
+ * OrganizationSwitcher component
+ * Shows the active organization and lets the user switch to another one they
+ * belong to, work outside any organization, or create a new one. Switching
+ * refetches the profile, so navigation and permission checks follow the
+ * role in the newly active organization.
+ */
+export function OrganizationSwitcher() {
+  const t = useTranslations('organizations.switcher');
+  const tRoles = useTranslations('organizations.roles');
+  const { getErrorMessage } = useApiError();
+  const [createOpen, setCreateOpen] = useState(false);
+  const { data: organizations = [], isLoading } = useListOrganizationsQuery();
+  const [switchOrganization, { isLoading: isSwitching }] = useSwitchOrganizationMutation();
+
+  const activeOrganization = organizations.find((organization) => organization.isActive);
+
+  const handleSwitch = async (organizationId: string | null) => {
+    if ((activeOrganization?.id ?? null) === organizationId) {
+      return;
+    }
+
+    try {
+      await switchOrganization(organizationId).unwrap();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={isLoading || isSwitching}>
+          <Button
+            variant="outline"
+            className="w-full justify-between font-normal"
+            data-testid="organization-switcher"
+          >
+            <span className="flex min-w-0 items-center gap-2">
+              {isSwitching ? (
+                <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+              ) : (
+                <Building2 className="h-4 w-4 shrink-0" />
+              )}
+              <span className="truncate">{activeOrganization?.name ?? t('personal')}</span>
+            </span>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>{t('label')}</DropdownMenuLabel>
+          <DropdownMenuItem
+            onSelect={() => handleSwitch(null)}
+            data-testid="organization-option-personal"
+          >
+            <User className="h-4 w-4" />
+            <span className="flex-1">{t('personal')}</span>
+            {!activeOrganization && <Check className="h-4 w-4" />}
+          </DropdownMenuItem>
+          {organizations.map((organization) => (
+            <DropdownMenuItem
+              key={organization.id}
+              onSelect={() => handleSwitch(organization.id)}
+              data-testid={`organization-option-${organization.slug}`}
+            >
+              <Building2 className="h-4 w-4" />
+              <span className="flex-1 truncate">{organization.name}</span>
+              <span className="text-xs text-muted-foreground">{tRoles(organization.role)}</span>
+              {organization.isActive && <Check className="h-4 w-4" />}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={() => setCreateOpen(true)}
+            data-testid="organization-option-create"
+          >
+            <Plus className="h-4 w-4" />
+            {t('create')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CreateOrganizationDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </>
+  );
+}
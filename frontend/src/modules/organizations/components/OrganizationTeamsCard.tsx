@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { toast } from 'sonner';
+import { Loader2, Plus, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useApiError } from '@/hooks/useApiError';
+import { usePermission, ORGANIZATION_PERMISSIONS } from '@/modules/permissions';
+import {
+  useAddTeamMemberMutation,
+  useCreateTeamMutation,
+  useDeleteTeamMutation,
+  useListOrganizationMembersQuery,
+  useListTeamsQuery,
+  useRemoveTeamMemberMutation,
+} from '../api/organizationsApi';
+import type { Team } from '../types';
+
+/**
+ * OrganizationTeamsCard Component
+ * Lists the teams of the active organization. Members who can manage the
+ * organization create teams and choose who is on them; managers with
+ * team-scoped user permissions can only manage users on their teams.
+ */
+export function OrganizationTeamsCard() {
+  const t = useTranslations('organizations.teams');
+  const { getErrorMessage } = useApiError();
+  const { can } = usePermission();
+  const [name, setName] = useState('');
+  const { data: teams = [], isLoading } = useListTeamsQuery();
+  const { data: members = [] } = useListOrganizationMembersQuery();
+  const [createTeam, { isLoading: isCreating }] = useCreateTeamMutation();
+  const [deleteTeam, { isLoading: isDeleting }] = useDeleteTeamMutation();
+  const [addTeamMember, { isLoading: isAdding }] = useAddTeamMemberMutation();
+  const [removeTeamMember, { isLoading: isRemoving }] = useRemoveTeamMemberMutation();
+
+  const canManage = can(ORGANIZATION_PERMISSIONS.MANAGE_TEAM);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await createTeam({ name: name.trim() }).unwrap();
+      toast.success(t('created', { name: name.trim() }));
+      setName('');
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleDelete = async (team: Team) => {
+    try {
+      await deleteTeam(team.id).unwrap();
+      toast.success(t('deleted', { name: team.name }));
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleAddMember = async (team: Team, userId: string) => {
+    try {
+      await addTeamMember({ teamId: team.id, userId }).unwrap();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const handleRemoveMember = async (team: Team, userId: string) => {
+    try {
+      await removeTeamMember({ teamId: team.id, userId }).unwrap();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    }
+  };
+
+  const renderTeam = (team: Team) => {
+    const candidates = members.filter(
+      (member) => !team.members.some((teamMember) => teamMember.userId === member.userId),
+    );
+
+    return (
+      <li key={team.id} className="space-y-2 py-3" data-testid={`team-${team.id}`}>
+        <div className="flex items-center justify-between gap-2">
+          <p className="truncate text-sm font-medium">{team.name}</p>
+          {canManage && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => handleDelete(team)}
+              disabled={isDeleting}
+              aria-label={t('delete')}
+              data-testid={`delete-team-${team.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {team.members.length === 0 && (
+            <span className="text-xs text-muted-foreground">{t('noMembers')}</span>
+          )}
+          {team.members.map((member) => (
+            <Badge key={member.userId} variant="secondary" className="gap-1" title={member.email}>
+              {member.name}
+              {canManage && (
+                <button
+                  type="button"
+                  onClick={() => handleRemoveMember(team, member.userId)}
+                  disabled={isRemoving}
+                  aria-label={t('removeMember', { name: member.name })}
+                  data-testid={`remove-team-member-${team.id}-${member.userId}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          ))}
+
+          {canManage && candidates.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(userId) => handleAddMember(team, userId)}
+              disabled={isAdding}
+            >
+              <SelectTrigger
+                className="h-7 w-[160px] text-xs"
+                data-testid={`add-team-member-${team.id}`}
+              >
+                <SelectValue placeholder={t('addMember')} />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((member) => (
+                  <SelectItem key={member.userId} value={member.userId}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Card data-testid="organization-teams-card">
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t('namePlaceholder')}
+              aria-label={t('name')}
+              minLength={2}
+              maxLength={60}
+              disabled={isCreating}
+              required
+              data-testid="team-name-input"
+            />
+            <Button
+              type="submit"
+              disabled={isCreating || name.trim().length < 2}
+              data-testid="create-team-button"
+            >
+              {isCreating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              {t('create')}
+            </Button>
+          </form>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!isLoading && teams.length === 0 && (
+          <p className="py-4 text-center text-sm text-muted-foreground">{t('empty')}</p>
+        )}
+        {!isLoading && teams.length > 0 && (
+          <ul className="divide-y divide-border">{teams.map(renderTeam)}</ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,8 @@
+export { OrganizationSwitcher } from './OrganizationSwitcher';
+export { CreateOrganizationDialog } from './CreateOrganizationDialog';
+export { InviteMemberDialog } from './InviteMemberDialog';
+export { OrganizationMembersCard } from './OrganizationMembersCard';
+export { OrganizationInvitesCard } from './OrganizationInvitesCard';
+export { OrganizationSettingsCard } from './OrganizationSettingsCard';
+export { OrganizationTeamsCard } from './OrganizationTeamsCard';
+export { AcceptInviteCard } from './AcceptInviteCard';
@@ -0,0 +1,8 @@
+// Components
+export * from './components';
+
+// API
+export * from './api/organizationsApi';
+
+// Types
+export * from './types';
@@ -0,0 +1,103 @@
+/**
+ * A user's role within an organization
+ */
+export type OrganizationRole = 'owner' | 'admin' | 'member';
+
+/**
+ * Organization roles, highest first
+ */
+export const ORGANIZATION_ROLES: OrganizationRole[] = ['owner', 'admin', 'member'];
+
+/**
+ * An organization as seen by one of its members
+ */
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  /** The current user's role in the organization */
+  role: OrganizationRole;
+  /** Whether this is the current user's active organization */
+  isActive: boolean;
+  createdAt: string;
+}
+
+/**
+ * A member of the active organization
+ */
+export interface OrganizationMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+/**
+ * An invite to the active organization that has not been accepted yet
+ */
+export interface OrganizationInvite {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  /** Name of the member who sent the invite */
+  invitedBy?: string;
+  expiresAt: string;
+}
+
+/**
+ * Create or rename organization request
+ */
+export interface OrganizationNameRequest {
+  name: string;
+}
+
+/**
+ * Invite member request
+ */
+export interface InviteMemberRequest {
+  email: string;
+  role: OrganizationRole;
+}
+
+/**
+ * Update member role request
+ */
+export interface UpdateMemberRoleRequest {
+  userId: string;
+  role: OrganizationRole;
+}
+
+/**
+ * A member of a team
+ */
+export interface TeamMember {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * A team in the active organization
+ */
+export interface Team {
+  id: string;
+  name: string;
+  members: TeamMember[];
+  createdAt: string;
+}
+
+/**
+ * Create or rename team request
+ */
+export interface TeamNameRequest {
+  name: string;
+}
+
+/**
+ * Add or remove team member request
+ */
+export interface TeamMemberRequest {
+  teamId: string;
+  userId: string;
+}
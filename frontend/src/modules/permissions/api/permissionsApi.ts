@@ -1,19 +1,65 @@
 import { baseApi } from '@/store/api/baseApi';
 
+/**
+ * A direct permission grant or denial with the admin who set it and its expiry
+ */
+export interface PermissionGrant {
+  permission: string;
+  grantedBy?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  grantedAt: string;
+  /** Permanent when omitted */
+  expiresAt?: string;
+}
+
 /**
  * User permissions response
  */
 export interface UserPermissionsResponse {
   userId: string;
+  /** Direct permissions, including active grants */
   permissions: string[];
+  /** Permissions taken away from the user, even if their role grants them */
+  denied: string[];
+  /** Primary role */
   role: string;
+  /** Every role, primary first */
+  roles: string[];
+  /** Permissions granted by all of the roles, including inherited ones */
+  rolePermissions: string[];
+  grants: PermissionGrant[];
+  denials: PermissionGrant[];
 }
 
+/**
+ * Direct permissions after adding or removing one
+ */
+export type UserPermissionsChangeResponse = Pick<UserPermissionsResponse, 'userId' | 'permissions'>;
+
+/**
+ * Denied permissions after denying one or lifting a denial
+ */
+export type UserDenialsChangeResponse = Pick<UserPermissionsResponse, 'userId' | 'denied'>;
+
 /**
  * Add permission request
  */
 export interface AddPermissionRequest {
   permission: string;
+  /** ISO timestamp after which the grant is removed */
+  expiresAt?: string;
+}
+
+/**
+ * Deny permission request
+ */
+export interface DenyPermissionRequest {
+  permission: string;
+  /** ISO timestamp after which the denial is lifted */
+  expiresAt?: string;
 }
 
 /**
@@ -35,17 +81,17 @@ export const permissionsApi = baseApi.injectEndpoints({
      * Add permission to user
      */
     addPermission: builder.mutation<
-      UserPermissionsResponse,
-      { userId: string; permission: string }
+      UserPermissionsChangeResponse,
+      AddPermissionRequest & { userId: string }
     >({
-      query: ({ userId, permission }) => ({
+      query: ({ userId, ...body }) => ({
         url: `/api/admin/users/${userId}/permissions`,
         method: 'POST',
-        body: { permission },
+        body,
       }),
       transformResponse: (response: {
         success: boolean;
-        data: UserPermissionsResponse;
+        data: UserPermissionsChangeResponse;
         message: string;
       }) => response.data,
       invalidatesTags: (result, error, { userId }) => [{ type: 'Permissions', id: userId }, 'User'],
@@ -55,7 +101,7 @@ export const permissionsApi = baseApi.injectEndpoints({
      * Remove permission from user
      */
     removePermission: builder.mutation<
-      UserPermissionsResponse,
+      UserPermissionsChangeResponse,
       { userId: string; permission: string }
     >({
       query: ({ userId, permission }) => ({
@@ -64,7 +110,46 @@ export const permissionsApi = baseApi.injectEndpoints({
       }),
       transformResponse: (response: {
         success: boolean;
-        data: UserPermissionsResponse;
+        data: UserPermissionsChangeResponse;
+        message: string;
+      }) => response.data,
+      invalidatesTags: (result, error, { userId }) => [{ type: 'Permissions', id: userId }, 'User'],
+    }),
+
+    /**
+     * Deny permission to user
+     */
+    denyPermission: builder.mutation<
+      UserDenialsChangeResponse,
+      DenyPermissionRequest & { userId: string }
+    >({
+      query: ({ userId, ...body }) => ({
+        url: `/api/admin/users/${userId}/permissions/denials`,
+        method: 'POST',
+        body,
+      }),
+      transformResponse: (response: {
+        success: boolean;
+        data: UserDenialsChangeResponse;
+        message: string;
+      }) => response.data,
+      invalidatesTags: (result, error, { userId }) => [{ type: 'Permissions', id: userId }, 'User'],
+    }),
+
+    /**
+     * Lift a permission denial
+     */
+    removeDenial: builder.mutation<
+      UserDenialsChangeResponse,
+      { userId: string; permission: string }
+    >({
+      query: ({ userId, permission }) => ({
+        url: `/api/admin/users/${userId}/permissions/denials/${encodeURIComponent(permission)}`,
+        method: 'DELETE',
+      }),
+      transformResponse: (response: {
+        success: boolean;
+        data: UserDenialsChangeResponse;
         message: string;
       }) => response.data,
       invalidatesTags: (result, error, { userId }) => [{ type: 'Permissions', id: userId }, 'User'],
@@ -73,5 +158,10 @@ export const permissionsApi = baseApi.injectEndpoints({
 });
 
 // Export hooks
-export const { useGetUserPermissionsQuery, useAddPermissionMutation, useRemovePermissionMutation } =
-  permissionsApi;
+export const {
+  useGetUserPermissionsQuery,
+  useAddPermissionMutation,
+  useRemovePermissionMutation,
+  useDenyPermissionMutation,
+  useRemoveDenialMutation,
+} = permissionsApi;
@@ -11,6 +11,12 @@ export interface Role {
   isSystemRole: boolean;
   isProtected: boolean;
   permissions: string[];
+  /** Slugs of the roles this role inherits from */
+  parents: string[];
+  /** Permissions inherited from parent roles that the role does not grant itself */
+  inheritedPermissions: string[];
+  /** Rank in the role hierarchy (0 for custom roles without a level) */
+  level: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -22,6 +28,8 @@ export interface CreateRoleRequest {
   name: string;
   description?: string;
   permissions: string[];
+  parents?: string[];
+  level?: number;
 }
 
 /**
@@ -31,6 +39,8 @@ export interface UpdateRoleRequest {
   name?: string;
   description?: string;
   permissions?: string[];
+  parents?: string[];
+  level?: number;
 }
 
 /**
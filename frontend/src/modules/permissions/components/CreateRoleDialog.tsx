@@ -15,6 +15,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useCreateRoleMutation } from '../api/rolesApi';
 import { PermissionSelector } from './PermissionSelector';
+import { ParentRoleSelector } from './ParentRoleSelector';
+import { RoleLevelInput, parseRoleLevel } from './RoleLevelInput';
 import { toast } from 'sonner';
 
 export interface CreateRoleDialogProps {
@@ -52,6 +54,8 @@ export function CreateRoleDialog({ open, onOpenChange, onSuccess }: CreateRoleDi
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
   const [permissions, setPermissions] = useState<string[]>([]);
+  const [parents, setParents] = useState<string[]>([]);
+  const [level, setLevel] = useState('');
 
   const [createRole, { isLoading }] = useCreateRoleMutation();
 
@@ -73,6 +77,8 @@ export function CreateRoleDialog({ open, onOpenChange, onSuccess }: CreateRoleDi
         name: name.trim(),
         description: description.trim() || undefined,
         permissions,
+        parents,
+        level: parseRoleLevel(level),
       }).unwrap();
 
       toast.success('Role created successfully');
@@ -81,6 +87,8 @@ export function CreateRoleDialog({ open, onOpenChange, onSuccess }: CreateRoleDi
       setName('');
       setDescription('');
       setPermissions([]);
+      setParents([]);
+      setLevel('');
 
       // Close dialog
       onOpenChange(false);
@@ -102,6 +110,8 @@ export function CreateRoleDialog({ open, onOpenChange, onSuccess }: CreateRoleDi
     setName('');
     setDescription('');
     setPermissions([]);
+    setParents([]);
+    setLevel('');
 
     // Close dialog
     onOpenChange(false);
@@ -156,6 +166,27 @@ export function CreateRoleDialog({ open, onOpenChange, onSuccess }: CreateRoleDi
               </p>
             </div>
 
+            {/* Parent Roles */}
+            <div className="space-y-2">
+              <Label>Inherits From</Label>
+              <ParentRoleSelector
+                selectedParents={parents}
+                onChange={setParents}
+                disabled={isLoading}
+              />
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                The role also gets every permission of the roles it inherits from
+              </p>
+            </div>
+
+            {/* Hierarchy Level */}
+            <RoleLevelInput
+              id="role-level"
+              value={level}
+              onChange={setLevel}
+              disabled={isLoading}
+            />
+
             {/* Permissions */}
             <div className="space-y-2">
               <Label>
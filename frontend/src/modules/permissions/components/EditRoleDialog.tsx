@@ -15,6 +15,8 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useUpdateRoleMutation, type Role } from '../api/rolesApi';
 import { PermissionSelector } from './PermissionSelector';
+import { ParentRoleSelector } from './ParentRoleSelector';
+import { RoleLevelInput, parseRoleLevel } from './RoleLevelInput';
 import { toast } from 'sonner';
 
 export interface EditRoleDialogProps {
@@ -42,7 +44,13 @@ export interface EditRoleDialogProps {
 interface EditRoleFormProps {
   role: Role;
   isLoading: boolean;
-  onSubmit: (data: { name: string; description: string; permissions: string[] }) => void;
+  onSubmit: (data: {
+    name: string;
+    description: string;
+    permissions: string[];
+    parents: string[];
+    level?: number;
+  }) => void;
   onCancel: () => void;
 }
 
@@ -54,6 +62,8 @@ function EditRoleForm({ role, isLoading, onSubmit, onCancel }: EditRoleFormProps
   const [name, setName] = useState(role.name || '');
   const [description, setDescription] = useState(role.description || '');
   const [permissions, setPermissions] = useState<string[]>(role.permissions || []);
+  const [parents, setParents] = useState<string[]>(role.parents || []);
+  const [level, setLevel] = useState(role.level ? String(role.level) : '');
 
   const isProtected = role.isProtected;
   const isBaseRole = role.slug === 'user' || role.slug === 'admin';
@@ -71,7 +81,14 @@ function EditRoleForm({ role, isLoading, onSubmit, onCancel }: EditRoleFormProps
       return;
     }
 
-    onSubmit({ name, description, permissions });
+    // System role levels are fixed; clearing a custom role's level resets it to 0
+    onSubmit({
+      name,
+      description,
+      permissions,
+      parents,
+      level: role.isSystemRole ? undefined : (parseRoleLevel(level) ?? 0),
+    });
   };
 
   return (
@@ -149,6 +166,32 @@ function EditRoleForm({ role, isLoading, onSubmit, onCancel }: EditRoleFormProps
           )}
         </div>
 
+        {/* Parent Roles */}
+        {!isBaseRole && (
+          <div className="space-y-2">
+            <Label>Inherits From</Label>
+            <ParentRoleSelector
+              selectedParents={parents}
+              onChange={setParents}
+              roleSlug={role.slug}
+              disabled={isLoading || isProtected}
+            />
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The role also gets every permission of the roles it inherits from
+            </p>
+          </div>
+        )}
+
+        {/* Hierarchy Level */}
+        {!role.isSystemRole && (
+          <RoleLevelInput
+            id="edit-role-level"
+            value={level}
+            onChange={setLevel}
+            disabled={isLoading}
+          />
+        )}
+
         {/* Permissions */}
         <div className="space-y-2">
           <Label>
@@ -203,6 +246,8 @@ export function EditRoleDialog({ open, onOpenChange, role, onSuccess }: EditRole
     name: string;
     description: string;
     permissions: string[];
+    parents: string[];
+    level?: number;
   }) => {
     if (!role) return;
 
@@ -216,6 +261,8 @@ export function EditRoleDialog({ open, onOpenChange, role, onSuccess }: EditRole
             name: data.name.trim(),
             description: data.description.trim() || undefined,
             permissions: data.permissions,
+            parents: data.parents,
+            level: data.level,
           };
 
       await updateRole({
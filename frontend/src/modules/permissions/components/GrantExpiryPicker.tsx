@@ -0,0 +1,115 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Preset grant durations in days
+ */
+export const GRANT_EXPIRY_PRESETS = [1, 7, 30, 90] as const;
+
+/**
+ * How long new grants last: permanent, a preset number of days or until the end of a chosen day
+ */
+export interface GrantExpiry {
+  preset: 'never' | 'custom' | `${(typeof GRANT_EXPIRY_PRESETS)[number]}`;
+  /** yyyy-mm-dd, used with the custom preset */
+  date: string;
+}
+
+export const PERMANENT_GRANT: GrantExpiry = { preset: 'never', date: '' };
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate(),
+  ).padStart(2, '0')}`;
+
+/**
+ * Resolve a grant expiry to an ISO timestamp
+ * Presets count from now; custom dates end at midnight in the browser's time zone.
+ * @returns undefined for permanent grants, null when no custom date is picked
+ */
+export function getGrantExpiryDate(expiry: GrantExpiry): string | undefined | null {
+  if (expiry.preset === 'never') return undefined;
+  if (expiry.preset === 'custom') {
+    return expiry.date ? new Date(`${expiry.date}T23:59:59.999`).toISOString() : null;
+  }
+  return new Date(Date.now() + Number(expiry.preset) * DAY).toISOString();
+}
+
+interface GrantExpiryPickerProps {
+  /** Select id, needed when a form shows more than one picker */
+  id?: string;
+  /** Defaults to the label for new grants */
+  label?: string;
+  value: GrantExpiry;
+  onChange: (value: GrantExpiry) => void;
+  disabled?: boolean;
+}
+
+/**
+ * GrantExpiryPicker Component
+ * Picks when newly granted (or denied) permissions expire.
+ */
+export function GrantExpiryPicker({
+  id = 'grant-expiry',
+  label,
+  value,
+  onChange,
+  disabled,
+}: GrantExpiryPickerProps) {
+  const t = useTranslations('permissions.dialog.expiry');
+  const today = toDateInput(new Date());
+
+  return (
+    <div className="flex flex-wrap items-end gap-2" data-testid={`${id}-picker`}>
+      <div className="space-y-1">
+        <Label htmlFor={id} className="text-xs text-muted-foreground">
+          {label ?? t('label')}
+        </Label>
+        <Select
+          value={value.preset}
+          onValueChange={(preset) =>
+            onChange({ ...value, preset: preset as GrantExpiry['preset'] })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id={id} className="h-8 w-40" data-testid={`${id}-select`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="never">{t('never')}</SelectItem>
+            {GRANT_EXPIRY_PRESETS.map((days) => (
+              <SelectItem key={days} value={String(days)}>
+                {t('days', { count: days })}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">{t('custom')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {value.preset === 'custom' && (
+        <Input
+          type="date"
+          aria-label={t('date')}
+          className="h-8 w-40"
+          value={value.date}
+          min={today}
+          onChange={(e) => onChange({ ...value, date: e.target.value })}
+          disabled={disabled}
+          data-testid={`${id}-date`}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { memo } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useListRolesQuery } from '../api/rolesApi';
+
+export interface ParentRoleSelectorProps {
+  /**
+   * Slugs of the selected parent roles
+   */
+  selectedParents: string[];
+
+  /**
+   * Callback when the selection changes
+   */
+  onChange: (parents: string[]) => void;
+
+  /**
+   * Slug of the role being edited, which cannot inherit from itself
+   */
+  roleSlug?: string;
+
+  /**
+   * Whether the selector is disabled
+   */
+  disabled?: boolean;
+}
+
+/**
+ * ParentRoleSelector - Pick the roles a role inherits permissions from
+ *
+ * Roles that already inherit from the edited role are still listed; the
+ * backend rejects choices that would create a cycle.
+ *
+ * @example
+ * ```tsx
+ * <ParentRoleSelector selectedParents={parents} onChange={setParents} roleSlug="editor" />
+ * ```
+ */
+export const ParentRoleSelector = memo(function ParentRoleSelector({
+  selectedParents,
+  onChange,
+  roleSlug,
+  disabled = false,
+}: ParentRoleSelectorProps) {
+  const { data, isLoading } = useListRolesQuery({ limit: 100 });
+
+  const roles = (data?.roles || []).filter((role) => role.slug !== roleSlug);
+
+  const handleToggle = (slug: string) => {
+    onChange(
+      selectedParents.includes(slug)
+        ? selectedParents.filter((parent) => parent !== slug)
+        : [...selectedParents, slug],
+    );
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground/60">Loading roles...</p>;
+  }
+
+  if (roles.length === 0) {
+    return <p className="text-sm text-muted-foreground/60">No other roles to inherit from</p>;
+  }
+
+  return (
+    <div
+      className="grid grid-cols-2 gap-3 rounded-lg border border-border-subtle bg-surface-secondary p-4"
+      data-testid="parent-role-selector"
+    >
+      {roles.map((role) => (
+        <div key={role.id} className="flex items-start space-x-3">
+          <Checkbox
+            id={`parent-role-${role.slug}`}
+            checked={selectedParents.includes(role.slug)}
+            onCheckedChange={() => handleToggle(role.slug)}
+            disabled={disabled}
+            data-testid={`parent-role-checkbox-${role.slug}`}
+          />
+          <div className="flex-1">
+            <Label
+              htmlFor={`parent-role-${role.slug}`}
+              className="cursor-pointer text-sm leading-tight"
+            >
+              {role.name}
+            </Label>
+            <p className="mt-0.5 text-xs text-muted-foreground/60">
+              {role.permissions.length + role.inheritedPermissions.length} permission
+              {role.permissions.length + role.inheritedPermissions.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
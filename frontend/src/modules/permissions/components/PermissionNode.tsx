@@ -16,7 +16,7 @@ export interface PermissionNodeProps {
   /**
    * Visual variant
    */
-  variant?: 'default' | 'inherited' | 'direct';
+  variant?: 'default' | 'inherited' | 'direct' | 'denied';
 
   /**
    * Optional className
@@ -29,7 +29,7 @@ export interface PermissionNodeProps {
  *
  * Features:
  * - Indentation based on level
- * - Visual variants for inherited/direct permissions
+ * - Visual variants for inherited/direct/denied permissions
  * - Minimal aesthetic
  *
  * @example
@@ -56,6 +56,8 @@ export const PermissionNode = memo(function PermissionNode({
       'bg-blue-50 border-blue-100 text-blue-900 dark:bg-blue-950/50 dark:border-blue-900 dark:text-blue-100',
     direct:
       'bg-green-50 border-green-100 text-green-900 dark:bg-green-950/50 dark:border-green-900 dark:text-green-100',
+    denied:
+      'bg-red-50 border-red-100 text-red-900 line-through dark:bg-red-950/50 dark:border-red-900 dark:text-red-100',
   };
 
   return (
@@ -21,9 +21,12 @@ import {
   PERMISSION_PERMISSIONS,
   SESSION_PERMISSIONS,
   REPORT_PERMISSIONS,
+  SSO_PERMISSIONS,
+  AUDIT_PERMISSIONS,
+  ORGANIZATION_PERMISSIONS,
   WILDCARD_PERMISSION,
 } from '../constants/permissions';
-import { parsePermission } from '../utils/permissionUtils';
+import { isPermissionPattern, parsePermission, permissionMatches } from '../utils/permissionUtils';
 
 export interface PermissionSearchDialogProps {
   /**
@@ -47,7 +50,8 @@ export interface PermissionSearchDialogProps {
   onChange: (permissions: string[]) => void;
 
   /**
-   * Permissions to exclude from selection (already assigned)
+   * Permissions to exclude from selection (already assigned).
+   * Wildcard patterns (users:*) exclude every permission they cover.
    */
   excludedPermissions?: string[];
 
@@ -56,6 +60,21 @@ export interface PermissionSearchDialogProps {
    */
   showWildcard?: boolean;
 
+  /**
+   * Dialog title (defaults to "Add Permissions")
+   */
+  title?: string;
+
+  /**
+   * Dialog description
+   */
+  description?: string;
+
+  /**
+   * Confirm button label (defaults to "Add N Permissions")
+   */
+  confirmLabel?: string;
+
   /**
    * Whether the dialog is in loading state
    */
@@ -80,6 +99,9 @@ const PERMISSION_GROUPS: PermissionGroup[] = [
   { id: 'permissions', name: 'Permissions', permissions: PERMISSION_PERMISSIONS },
   { id: 'sessions', name: 'Sessions', permissions: SESSION_PERMISSIONS },
   { id: 'reports', name: 'Reports', permissions: REPORT_PERMISSIONS },
+  { id: 'sso', name: 'SSO', permissions: SSO_PERMISSIONS },
+  { id: 'audit', name: 'Audit Log', permissions: AUDIT_PERMISSIONS },
+  { id: 'organizations', name: 'Organizations', permissions: ORGANIZATION_PERMISSIONS },
 ];
 
 /**
@@ -112,12 +134,25 @@ export const PermissionSearchDialog = memo(function PermissionSearchDialog({
   onChange,
   excludedPermissions = [],
   showWildcard = true,
+  title = 'Add Permissions',
+  description = 'Search and select permissions to add. Use tabs to browse by category.',
+  confirmLabel,
   isLoading = false,
   onConfirm,
 }: PermissionSearchDialogProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTab, setActiveTab] = useState('all');
 
+  const isExcluded = useCallback(
+    (permission: string) =>
+      excludedPermissions.some(
+        (excluded) =>
+          excluded === permission ||
+          (isPermissionPattern(excluded) && permissionMatches(excluded, permission)),
+      ),
+    [excludedPermissions],
+  );
+
   const handleTogglePermission = useCallback(
     (permission: string) => {
       const isSelected = selectedPermissions.includes(permission);
@@ -143,9 +178,7 @@ export const PermissionSearchDialog = memo(function PermissionSearchDialog({
 
   const handleSelectAll = useCallback(
     (groupPermissions: Record<string, string>) => {
-      const groupPerms = Object.values(groupPermissions).filter(
-        (p) => !excludedPermissions.includes(p),
-      );
+      const groupPerms = Object.values(groupPermissions).filter((p) => !isExcluded(p));
       const allSelected = groupPerms.every((p) => selectedPermissions.includes(p));
 
       if (allSelected) {
@@ -160,7 +193,7 @@ export const PermissionSearchDialog = memo(function PermissionSearchDialog({
         onChange(newPermissions);
       }
     },
-    [selectedPermissions, excludedPermissions, onChange],
+    [selectedPermissions, isExcluded, onChange],
   );
 
   const formatPermissionLabel = (permission: string): string => {
@@ -181,7 +214,7 @@ export const PermissionSearchDialog = memo(function PermissionSearchDialog({
     return PERMISSION_GROUPS.map((group) => {
       const filteredPermissions = Object.entries(group.permissions).filter(([, perm]) => {
         // Exclude already assigned permissions
-        if (excludedPermissions.includes(perm)) return false;
+        if (isExcluded(perm)) return false;
 
         // Filter by search query
         if (query && !perm.toLowerCase().includes(query)) {
@@ -197,19 +230,17 @@ export const PermissionSearchDialog = memo(function PermissionSearchDialog({
         filteredPermissions: Object.fromEntries(filteredPermissions),
       };
     }).filter((group) => Object.keys(group.filteredPermissions).length > 0);
-  }, [searchQuery, excludedPermissions]);
+  }, [searchQuery, isExcluded]);
 
   const hasWildcard = selectedPermissions.includes(WILDCARD_PERMISSION);
-  const availableCount = selectedPermissions.filter((p) => !excludedPermissions.includes(p)).length;
+  const availableCount = selectedPermissions.filter((p) => !isExcluded(p)).length;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-h-[90vh] max-w-4xl overflow-hidden flex flex-col">
         <DialogHeader>
-          <DialogTitle>Add Permissions</DialogTitle>
-          <DialogDescription>
-            Search and select permissions to add. Use tabs to browse by category.
-          </DialogDescription>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
         </DialogHeader>
 
         <div className="flex-1 overflow-hidden flex flex-col gap-4">
@@ -419,7 +450,7 @@ export const PermissionSearchDialog = memo(function PermissionSearchDialog({
               data-testid="confirm-add-permissions"
             >
               <Plus className="mr-2 h-4 w-4" />
-              Add {availableCount} Permission{availableCount !== 1 ? 's' : ''}
+              {confirmLabel ?? `Add ${availableCount} Permission${availableCount !== 1 ? 's' : ''}`}
             </Button>
           </div>
         </div>
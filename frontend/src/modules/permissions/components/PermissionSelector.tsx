@@ -1,7 +1,9 @@
 'use client';
 
 import { useState, useMemo, useCallback, memo } from 'react';
+import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
@@ -11,9 +13,20 @@ import {
   PERMISSION_PERMISSIONS,
   SESSION_PERMISSIONS,
   REPORT_PERMISSIONS,
+  SSO_PERMISSIONS,
+  AUDIT_PERMISSIONS,
+  ORGANIZATION_PERMISSIONS,
   WILDCARD_PERMISSION,
+  SEGMENT_WILDCARD,
 } from '../constants/permissions';
-import { parsePermission } from '../utils/permissionUtils';
+import {
+  hasPermission,
+  isPermissionPattern,
+  isValidPermission,
+  parsePermission,
+  permissionMatches,
+} from '../utils/permissionUtils';
+import { Plus, X } from 'lucide-react';
 
 export interface PermissionSelectorProps {
   /**
@@ -40,21 +53,29 @@ export interface PermissionSelectorProps {
 
 interface PermissionGroup {
   name: string;
+  resource: string;
   permissions: Record<string, string>;
 }
 
 const PERMISSION_GROUPS: PermissionGroup[] = [
-  { name: 'Profile', permissions: PROFILE_PERMISSIONS },
-  { name: 'Users', permissions: USER_PERMISSIONS },
-  { name: 'Roles', permissions: ROLE_PERMISSIONS },
-  { name: 'Permissions', permissions: PERMISSION_PERMISSIONS },
-  { name: 'Sessions', permissions: SESSION_PERMISSIONS },
-  { name: 'Reports', permissions: REPORT_PERMISSIONS },
+  { name: 'Profile', resource: 'profile', permissions: PROFILE_PERMISSIONS },
+  { name: 'Users', resource: 'users', permissions: USER_PERMISSIONS },
+  { name: 'Roles', resource: 'roles', permissions: ROLE_PERMISSIONS },
+  { name: 'Permissions', resource: 'permissions', permissions: PERMISSION_PERMISSIONS },
+  { name: 'Sessions', resource: 'sessions', permissions: SESSION_PERMISSIONS },
+  { name: 'Reports', resource: 'reports', permissions: REPORT_PERMISSIONS },
+  { name: 'SSO', resource: 'sso', permissions: SSO_PERMISSIONS },
+  { name: 'Audit Log', resource: 'audit', permissions: AUDIT_PERMISSIONS },
+  { name: 'Organizations', resource: 'organizations', permissions: ORGANIZATION_PERMISSIONS },
 ];
 
+const resourcePattern = (group: PermissionGroup) => `${group.resource}:${SEGMENT_WILDCARD}`;
+
 /**
  * Component for selecting permissions.
  * Organizes permissions by resource category with checkboxes.
+ * Wildcard patterns (users:*, *:read:own) can be added too; permissions
+ * they cover are shown as checked and cannot be toggled on their own.
  *
  * @example
  * ```tsx
@@ -73,6 +94,54 @@ export const PermissionSelector = memo(function PermissionSelector({
   showWildcard = true,
 }: PermissionSelectorProps) {
   const [activeTab, setActiveTab] = useState('all');
+  const [patternInput, setPatternInput] = useState('');
+  const [patternError, setPatternError] = useState<string | null>(null);
+
+  // Segment wildcard patterns among the selected permissions
+  const patterns = useMemo(
+    () => selectedPermissions.filter(isPermissionPattern),
+    [selectedPermissions],
+  );
+
+  // Whether a permission is covered by a selected pattern rather than selected itself
+  const isImplied = useCallback(
+    (permission: string) =>
+      !selectedPermissions.includes(permission) && hasPermission(patterns, permission),
+    [selectedPermissions, patterns],
+  );
+
+  const handleAddPattern = useCallback(
+    (pattern: string) => {
+      if (disabled) return;
+
+      if (!isPermissionPattern(pattern) || !isValidPermission(pattern)) {
+        setPatternError('Use a pattern like users:*, users:read:* or *:read:own');
+        return;
+      }
+
+      setPatternError(null);
+      setPatternInput('');
+
+      if (selectedPermissions.includes(pattern)) return;
+
+      // Add pattern and remove the permissions it already covers
+      onChange([
+        ...selectedPermissions.filter(
+          (p) => isPermissionPattern(p) || !permissionMatches(pattern, p),
+        ),
+        pattern,
+      ]);
+    },
+    [disabled, selectedPermissions, onChange],
+  );
+
+  const handleRemovePattern = useCallback(
+    (pattern: string) => {
+      if (disabled) return;
+      onChange(selectedPermissions.filter((p) => p !== pattern));
+    },
+    [disabled, selectedPermissions, onChange],
+  );
   const handleTogglePermission = useCallback(
     (permission: string) => {
       if (disabled) return;
@@ -105,15 +174,19 @@ export const PermissionSelector = memo(function PermissionSelector({
   }, [disabled, selectedPermissions, onChange]);
 
   const handleSelectAll = useCallback(
-    (groupPermissions: Record<string, string>) => {
+    (group: PermissionGroup) => {
       if (disabled) return;
 
-      const groupPerms = Object.values(groupPermissions);
-      const allSelected = groupPerms.every((p) => selectedPermissions.includes(p));
+      const groupPerms = Object.values(group.permissions);
+      const allSelected = groupPerms.every((p) => selectedPermissions.includes(p) || isImplied(p));
 
       if (allSelected) {
-        // Deselect all from this group
-        onChange(selectedPermissions.filter((p) => !groupPerms.includes(p)));
+        // Deselect all from this group, including its resource pattern
+        onChange(
+          selectedPermissions.filter(
+            (p) => !groupPerms.includes(p) && p !== resourcePattern(group),
+          ),
+        );
       } else {
         // Select all from this group
         const newPermissions = [...selectedPermissions];
@@ -125,7 +198,7 @@ export const PermissionSelector = memo(function PermissionSelector({
         onChange(newPermissions);
       }
     },
-    [disabled, selectedPermissions, onChange],
+    [disabled, selectedPermissions, onChange, isImplied],
   );
 
   const formatPermissionLabel = (permission: string): string => {
@@ -146,10 +219,12 @@ export const PermissionSelector = memo(function PermissionSelector({
     const stats: Record<string, number> = {};
     PERMISSION_GROUPS.forEach((group) => {
       const groupPerms = Object.values(group.permissions);
-      stats[group.name] = groupPerms.filter((p) => selectedPermissions.includes(p)).length;
+      stats[group.name] = groupPerms.filter(
+        (p) => selectedPermissions.includes(p) || isImplied(p),
+      ).length;
     });
     return stats;
-  }, [selectedPermissions]);
+  }, [selectedPermissions, isImplied]);
 
   return (
     <div className="space-y-4">
@@ -179,6 +254,79 @@ export const PermissionSelector = memo(function PermissionSelector({
         </div>
       )}
 
+      {/* Wildcard Patterns */}
+      {!hasWildcard && (
+        <div
+          className="space-y-3 rounded-lg border border-border-subtle p-4"
+          data-testid="permission-patterns"
+        >
+          <div>
+            <Label htmlFor="permission-pattern" className="font-semibold">
+              Wildcard Patterns
+            </Label>
+            <p className="mt-1 text-sm text-muted-foreground/60">
+              Grant every matching permission, e.g. <code className="font-mono">users:*</code> or{' '}
+              <code className="font-mono">*:read:own</code>.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              id="permission-pattern"
+              value={patternInput}
+              placeholder="users:*"
+              className="h-8 font-mono"
+              onChange={(e) => {
+                setPatternInput(e.target.value);
+                setPatternError(null);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddPattern(patternInput.trim());
+                }
+              }}
+              disabled={disabled}
+              aria-invalid={!!patternError}
+              data-testid="permission-pattern-input"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => handleAddPattern(patternInput.trim())}
+              disabled={disabled || !patternInput.trim()}
+              data-testid="add-permission-pattern"
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {patternError && <p className="text-xs text-destructive">{patternError}</p>}
+          {patterns.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {patterns.map((pattern) => (
+                <span
+                  key={pattern}
+                  className="inline-flex items-center gap-1 rounded-md border border-border-subtle bg-surface-secondary px-2 py-1 font-mono text-xs"
+                  data-testid={`permission-pattern-${pattern}`}
+                >
+                  {pattern}
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePattern(pattern)}
+                    disabled={disabled}
+                    aria-label={`Remove ${pattern}`}
+                    className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Tabbed Permission Groups */}
       {!hasWildcard && (
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
@@ -207,7 +355,9 @@ export const PermissionSelector = memo(function PermissionSelector({
           <TabsContent value="all" className="mt-4 space-y-6">
             {PERMISSION_GROUPS.map((group) => {
               const groupPerms = Object.values(group.permissions);
-              const allSelected = groupPerms.every((p) => selectedPermissions.includes(p));
+              const allSelected = groupPerms.every(
+                (p) => selectedPermissions.includes(p) || isImplied(p),
+              );
 
               return (
                 <div key={group.name} className="space-y-3">
@@ -215,7 +365,7 @@ export const PermissionSelector = memo(function PermissionSelector({
                     <h3 className="text-sm font-semibold tracking-tight">{group.name}</h3>
                     <button
                       type="button"
-                      onClick={() => handleSelectAll(group.permissions)}
+                      onClick={() => handleSelectAll(group)}
                       disabled={disabled}
                       className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
                     >
@@ -228,9 +378,11 @@ export const PermissionSelector = memo(function PermissionSelector({
                       <div key={permission} className="flex items-start space-x-3">
                         <Checkbox
                           id={`permission-${permission}`}
-                          checked={selectedPermissions.includes(permission)}
+                          checked={
+                            selectedPermissions.includes(permission) || isImplied(permission)
+                          }
                           onCheckedChange={() => handleTogglePermission(permission)}
-                          disabled={disabled}
+                          disabled={disabled || isImplied(permission)}
                           data-testid={`permission-checkbox-${permission}`}
                         />
                         <div className="flex-1">
@@ -255,7 +407,9 @@ export const PermissionSelector = memo(function PermissionSelector({
           {/* Individual Category Tabs */}
           {PERMISSION_GROUPS.map((group) => {
             const groupPerms = Object.values(group.permissions);
-            const allSelected = groupPerms.every((p) => selectedPermissions.includes(p));
+            const allSelected = groupPerms.every(
+              (p) => selectedPermissions.includes(p) || isImplied(p),
+            );
 
             return (
               <TabsContent
@@ -269,7 +423,7 @@ export const PermissionSelector = memo(function PermissionSelector({
                   </p>
                   <button
                     type="button"
-                    onClick={() => handleSelectAll(group.permissions)}
+                    onClick={() => handleSelectAll(group)}
                     disabled={disabled}
                     className="text-xs text-blue-600 hover:text-blue-800 disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
                   >
@@ -282,9 +436,9 @@ export const PermissionSelector = memo(function PermissionSelector({
                     <div key={permission} className="flex items-start space-x-3">
                       <Checkbox
                         id={`permission-${permission}-${group.name}`}
-                        checked={selectedPermissions.includes(permission)}
+                        checked={selectedPermissions.includes(permission) || isImplied(permission)}
                         onCheckedChange={() => handleTogglePermission(permission)}
-                        disabled={disabled}
+                        disabled={disabled || isImplied(permission)}
                         data-testid={`permission-checkbox-${permission}`}
                       />
                       <div className="flex-1">
@@ -2,6 +2,7 @@
 
 import { memo, useMemo } from 'react';
 import { PermissionNode } from './PermissionNode';
+import { permissionMatches } from '../utils/permissionUtils';
 import { Shield } from 'lucide-react';
 
 export interface PermissionTreeViewProps {
@@ -13,7 +14,13 @@ export interface PermissionTreeViewProps {
   /**
    * Variant for all nodes
    */
-  variant?: 'default' | 'inherited' | 'direct';
+  variant?: 'default' | 'inherited' | 'direct' | 'denied';
+
+  /**
+   * Permissions shown with the denied variant, whatever the tree variant.
+   * Denied patterns (users:*) mark every permission they cover.
+   */
+  deniedPermissions?: string[];
 
   /**
    * Show group headers
@@ -33,6 +40,7 @@ export interface PermissionTreeViewProps {
  * - Groups permissions by resource (users, roles, sessions, etc.)
  * - Tree-style visualization
  * - Wildcard detection and highlighting
+ * - Denied permissions marked distinctly
  * - Minimal aesthetic
  *
  * @example
@@ -47,6 +55,7 @@ export interface PermissionTreeViewProps {
 export const PermissionTreeView = memo(function PermissionTreeView({
   permissions,
   variant = 'default',
+  deniedPermissions = [],
   showHeaders = true,
   className,
 }: PermissionTreeViewProps) {
@@ -111,7 +120,11 @@ export const PermissionTreeView = memo(function PermissionTreeView({
                   key={perm}
                   permission={perm}
                   level={resource === 'wildcard' ? 0 : 0}
-                  variant={variant}
+                  variant={
+                    deniedPermissions.some((denied) => permissionMatches(denied, perm))
+                      ? 'denied'
+                      : variant
+                  }
                 />
               ))}
             </div>
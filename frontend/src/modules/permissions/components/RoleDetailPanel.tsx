@@ -2,7 +2,7 @@ import { memo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { PermissionTreeView } from './PermissionTreeView';
-import { Pencil, Trash2, Shield, Lock } from 'lucide-react';
+import { GitBranch, Layers, Pencil, Trash2, Shield, Lock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { Role } from '../api/rolesApi';
 
@@ -39,6 +39,7 @@ export interface RoleDetailPanelProps {
  * Features:
  * - Large header with role name and badges
  * - Description section
+ * - Parent roles, with inherited permissions shown apart from the role's own
  * - Permission tree visualization
  * - Action buttons (Edit/Delete)
  * - Protected role warnings
@@ -86,6 +87,8 @@ export const RoleDetailPanel = memo(function RoleDetailPanel({
 
   // Check if role is user or admin (cannot be edited)
   const isBaseRole = role.slug === 'user' || role.slug === 'admin';
+  const parents = role.parents ?? [];
+  const inheritedPermissions = role.inheritedPermissions ?? [];
 
   return (
     <article className={cn('space-y-6', className)} data-testid="role-detail-panel">
@@ -97,6 +100,12 @@ export const RoleDetailPanel = memo(function RoleDetailPanel({
             <p className="text-sm text-muted-foreground/60 mt-1">{role.slug}</p>
           </div>
           <div className="flex gap-2">
+            {role.level > 0 && (
+              <Badge variant="outline" className="text-xs" data-testid="role-level">
+                <Layers className="h-3 w-3 mr-1" />
+                Level {role.level}
+              </Badge>
+            )}
             {role.isSystemRole && (
               <Badge variant="outline" className="text-xs">
                 <Shield className="h-3 w-3 mr-1" />
@@ -120,11 +129,28 @@ export const RoleDetailPanel = memo(function RoleDetailPanel({
         </section>
       )}
 
+      {/* Parent Roles */}
+      {parents.length > 0 && (
+        <section data-testid="role-parents">
+          <h3 className="mb-3 text-xs uppercase tracking-widest text-muted-foreground/40">
+            Inherits From
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {parents.map((parent) => (
+              <Badge key={parent} variant="secondary" className="text-xs">
+                <GitBranch className="h-3 w-3 mr-1" />
+                {parent}
+              </Badge>
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Permissions Section */}
       <section>
         <div className="flex items-center justify-between mb-3">
           <h3 className="text-xs uppercase tracking-widest text-muted-foreground/40">
-            Permissions ({role.permissions.length})
+            {parents.length > 0 ? 'Direct Permissions' : 'Permissions'} ({role.permissions.length})
           </h3>
           {role.permissions.includes('*') && (
             <Badge variant="outline" className="text-xs text-amber-600 border-amber-200">
@@ -135,6 +161,26 @@ export const RoleDetailPanel = memo(function RoleDetailPanel({
         <PermissionTreeView permissions={role.permissions} variant="default" showHeaders />
       </section>
 
+      {/* Inherited Permissions Section */}
+      {parents.length > 0 && (
+        <section data-testid="role-inherited-permissions">
+          <h3 className="mb-3 text-xs uppercase tracking-widest text-muted-foreground/40">
+            Inherited Permissions ({inheritedPermissions.length})
+          </h3>
+          {inheritedPermissions.length === 0 ? (
+            <p className="text-sm text-muted-foreground/60">
+              Parent roles add no permissions beyond this role&apos;s own
+            </p>
+          ) : (
+            <PermissionTreeView
+              permissions={inheritedPermissions}
+              variant="inherited"
+              showHeaders
+            />
+          )}
+        </section>
+      )}
+
       {/* Actions */}
       <footer className="flex gap-2 pt-4 border-t border-border-subtle">
         <Button
@@ -0,0 +1,73 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ROLE_LEVELS } from '@/modules/auth/utils/roleRouting';
+
+export interface RoleLevelInputProps {
+  /**
+   * Input id
+   */
+  id: string;
+
+  /**
+   * Level as typed; empty when the role has no level
+   */
+  value: string;
+
+  /**
+   * Callback when the level changes
+   */
+  onChange: (value: string) => void;
+
+  /**
+   * Whether the input is disabled
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Parse a typed role level
+ * @returns undefined when the input is empty
+ */
+export function parseRoleLevel(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * RoleLevelInput - Rank a custom role in the role hierarchy
+ *
+ * Users manage users whose role ranks at or below theirs. Fractions place
+ * a role between two system roles; custom roles always rank below admin.
+ *
+ * @example
+ * ```tsx
+ * <RoleLevelInput id="role-level" value={level} onChange={setLevel} />
+ * ```
+ */
+export function RoleLevelInput({ id, value, onChange, disabled }: RoleLevelInputProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Level</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        max={ROLE_LEVELS.admin}
+        step="any"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g., 2.5"
+        className="w-40"
+        disabled={disabled}
+        data-testid={`${id}-input`}
+      />
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Users can manage users whose role ranks at or below theirs. System roles rank user{' '}
+        {ROLE_LEVELS.user}, support {ROLE_LEVELS.support}, manager {ROLE_LEVELS.manager} and admin{' '}
+        {ROLE_LEVELS.admin}; use a value such as 2.5 to rank between them. Without a level, only
+        admins can manage users with this role.
+      </p>
+    </div>
+  );
+}
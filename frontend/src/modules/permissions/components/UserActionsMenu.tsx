@@ -2,6 +2,9 @@
 
 import { memo, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -19,17 +22,32 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Settings, MoreHorizontal, UserCheck, UserX, Trash2, Loader2, Pencil } from 'lucide-react';
+import {
+  Settings,
+  MoreHorizontal,
+  UserCheck,
+  UserX,
+  Trash2,
+  Loader2,
+  Pencil,
+  LockOpen,
+  Ban,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useUserActions } from '../hooks/useUserActions';
 import { EditUserDialog } from './EditUserDialog';
+import type { AccountStatus } from '@/modules/auth/types/auth.types';
 
 export interface UserActionsMenuUser {
   _id: string;
   name: string;
   email: string;
-  role: string;
+  roles: string[];
   isDeleted: boolean;
+  /** Account status; suspended and deleted users can be reactivated */
+  status?: AccountStatus;
+  /** Set while sign-in is locked after repeated failed logins */
+  lockedUntil?: string | null;
 }
 
 export interface UserActionsMenuProps {
@@ -43,13 +61,13 @@ export interface UserActionsMenuProps {
   className?: string;
 }
 
-type ConfirmActionType = 'activate' | 'deactivate' | 'delete' | null;
+type ConfirmActionType = 'activate' | 'suspend' | 'deactivate' | 'delete' | null;
 
 /**
  * UserActionsMenu - Dropdown menu with user actions and co-located dialogs.
  *
  * Features:
- * - Edit, Manage Permissions, Activate/Deactivate, Delete actions
+ * - Edit, Manage Permissions, Activate/Suspend/Deactivate, Clear Sign-in Lock, Delete actions
  * - Co-located confirmation dialogs for destructive actions
  * - Co-located edit dialog
  * - Loading states for async operations
@@ -71,9 +89,23 @@ export const UserActionsMenu = memo(function UserActionsMenu({
 }: UserActionsMenuProps) {
   const [confirmAction, setConfirmAction] = useState<ConfirmActionType>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
-  const { handleStatusChange, handleDelete, isLoading } = useUserActions();
+  const [suspendReason, setSuspendReason] = useState('');
+  const [eraseNow, setEraseNow] = useState(false);
+  const { handleStatusChange, handleSuspend, handleDelete, handleClearLock, isLoading } =
+    useUserActions();
+
+  const isNormalUser = user.roles.length === 1 && user.roles[0] === 'user';
+  const isBlocked = user.isDeleted || user.status === 'suspended';
+
+  const openSuspendDialog = useCallback(() => {
+    setSuspendReason('');
+    setConfirmAction('suspend');
+  }, []);
 
-  const isNormalUser = user.role === 'user';
+  const openDeleteDialog = useCallback(() => {
+    setEraseNow(false);
+    setConfirmAction('delete');
+  }, []);
 
   // Handle confirmation action
   const handleConfirm = useCallback(async () => {
@@ -81,16 +113,27 @@ export const UserActionsMenu = memo(function UserActionsMenu({
 
     if (confirmAction === 'activate') {
       success = await handleStatusChange(user._id, true, user.name);
+    } else if (confirmAction === 'suspend') {
+      success = await handleSuspend(user._id, user.name, suspendReason.trim() || undefined);
     } else if (confirmAction === 'deactivate') {
       success = await handleStatusChange(user._id, false, user.name);
     } else if (confirmAction === 'delete') {
-      success = await handleDelete(user._id, user.name);
+      success = await handleDelete(user._id, user.name, eraseNow);
     }
 
     if (success) {
       setConfirmAction(null);
     }
-  }, [confirmAction, handleStatusChange, handleDelete, user._id, user.name]);
+  }, [
+    confirmAction,
+    handleStatusChange,
+    handleSuspend,
+    handleDelete,
+    suspendReason,
+    eraseNow,
+    user._id,
+    user.name,
+  ]);
 
   // Get dialog content based on action type
   const getDialogContent = () => {
@@ -107,6 +150,18 @@ export const UserActionsMenu = memo(function UserActionsMenu({
           confirmText: 'Activate',
           destructive: false,
         };
+      case 'suspend':
+        return {
+          title: 'Suspend User?',
+          description: (
+            <>
+              Are you sure you want to suspend <strong>{user.name}</strong>? They will be signed out
+              and cannot sign in until reactivated. The reason is shown to them at sign-in.
+            </>
+          ),
+          confirmText: 'Suspend',
+          destructive: false,
+        };
       case 'deactivate':
         return {
           title: 'Deactivate User?',
@@ -124,8 +179,8 @@ export const UserActionsMenu = memo(function UserActionsMenu({
           title: 'Delete User?',
           description: (
             <>
-              Are you sure you want to delete <strong>{user.name}</strong>? This will permanently
-              remove their account and all associated data. This action cannot be undone.
+              Are you sure you want to delete <strong>{user.name}</strong>? They will be signed out
+              and their account and all associated data will be erased once the grace period ends.
             </>
           ),
           confirmText: 'Delete',
@@ -186,8 +241,8 @@ export const UserActionsMenu = memo(function UserActionsMenu({
             </>
           )}
 
-          {/* Activate/Deactivate - available for all non-admin users */}
-          {user.isDeleted ? (
+          {/* Activate/Suspend/Deactivate - available for all non-admin users */}
+          {isBlocked ? (
             <DropdownMenuItem
               onClick={() => setConfirmAction('activate')}
               data-testid={`activate-user-${user._id}`}
@@ -196,12 +251,32 @@ export const UserActionsMenu = memo(function UserActionsMenu({
               <span>Activate User</span>
             </DropdownMenuItem>
           ) : (
+            <>
+              <DropdownMenuItem
+                onClick={openSuspendDialog}
+                data-testid={`suspend-user-${user._id}`}
+              >
+                <Ban className="mr-2 h-4 w-4 text-amber-600 dark:text-amber-400" />
+                <span>Suspend User</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setConfirmAction('deactivate')}
+                data-testid={`deactivate-user-${user._id}`}
+              >
+                <UserX className="mr-2 h-4 w-4 text-amber-600 dark:text-amber-400" />
+                <span>Deactivate User</span>
+              </DropdownMenuItem>
+            </>
+          )}
+
+          {/* Clear Sign-in Lock - only while the user is locked out */}
+          {user.lockedUntil && (
             <DropdownMenuItem
-              onClick={() => setConfirmAction('deactivate')}
-              data-testid={`deactivate-user-${user._id}`}
+              onClick={() => handleClearLock(user._id, user.name)}
+              data-testid={`clear-lock-${user._id}`}
             >
-              <UserX className="mr-2 h-4 w-4 text-amber-600 dark:text-amber-400" />
-              <span>Deactivate User</span>
+              <LockOpen className="mr-2 h-4 w-4 text-blue-600 dark:text-blue-400" />
+              <span>Clear Sign-in Lock</span>
             </DropdownMenuItem>
           )}
 
@@ -210,7 +285,7 @@ export const UserActionsMenu = memo(function UserActionsMenu({
             <>
               <DropdownMenuSeparator />
               <DropdownMenuItem
-                onClick={() => setConfirmAction('delete')}
+                onClick={openDeleteDialog}
                 className="text-red-600 focus:text-red-600 dark:text-red-400 dark:focus:text-red-400"
                 data-testid={`delete-user-${user._id}`}
               >
@@ -241,6 +316,31 @@ export const UserActionsMenu = memo(function UserActionsMenu({
             <AlertDialogTitle>{dialogContent.title}</AlertDialogTitle>
             <AlertDialogDescription>{dialogContent.description}</AlertDialogDescription>
           </AlertDialogHeader>
+          {confirmAction === 'suspend' && (
+            <Textarea
+              value={suspendReason}
+              onChange={(e) => setSuspendReason(e.target.value)}
+              placeholder="Reason (optional)"
+              maxLength={500}
+              disabled={isLoading}
+              aria-label="Suspension reason"
+              data-testid="suspend-reason-input"
+            />
+          )}
+          {confirmAction === 'delete' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`delete-hard-${user._id}`}
+                checked={eraseNow}
+                onCheckedChange={(checked) => setEraseNow(checked === true)}
+                disabled={isLoading}
+                data-testid="delete-hard-checkbox"
+              />
+              <Label htmlFor={`delete-hard-${user._id}`} className="text-sm font-normal">
+                Erase all data now. This cannot be undone.
+              </Label>
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
             <AlertDialogAction
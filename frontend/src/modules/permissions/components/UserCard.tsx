@@ -9,14 +9,19 @@ import { USER_PERMISSIONS, PermissionGuard } from '@/modules/permissions';
 import { cn } from '@/lib/utils';
 import { getInitials, formatDateShort } from '@/lib/formatters';
 import { useUserActions } from '../hooks/useUserActions';
+import type { AccountStatus } from '@/modules/auth/types/auth.types';
 
 export interface User {
   _id: string;
   name: string;
   email: string;
-  role: string;
+  /** Every role, primary first */
+  roles: string[];
   isVerified: boolean;
   isDeleted: boolean;
+  status?: AccountStatus;
+  statusReason?: string;
+  lockedUntil?: string | null;
   createdAt: string;
 }
 
@@ -35,8 +40,8 @@ export interface UserCardProps {
  * Features:
  * - Avatar with initials fallback
  * - Hover-reveal actions via UserActionsMenu
- * - Role selector with permission guard
- * - Status badges (verified/pending, active/inactive)
+ * - Multi-role selector with permission guard
+ * - Status badges (verified/pending, active/inactive, suspended, pending deletion, locked)
  * - Optimized with React.memo
  *
  * @example
@@ -58,15 +63,15 @@ export const UserCard = memo(
       onManagePermissions?.(user._id);
     }, [onManagePermissions, user._id]);
 
-    const onRoleChange = useCallback(
-      async (newRole: string) => {
-        await handleRoleChange(user._id, newRole);
+    const onRolesChange = useCallback(
+      async (newRoles: string[]) => {
+        await handleRoleChange(user._id, newRoles);
       },
       [handleRoleChange, user._id],
     );
 
-    const isAdminRole = user.role === 'admin';
-    const isNormalUser = user.role === 'user';
+    const isAdminRole = user.roles.includes('admin');
+    const isNormalUser = user.roles.length === 1 && user.roles[0] === 'user';
     const isProtectedRole = isAdminRole || isNormalUser;
 
     return (
@@ -95,13 +100,46 @@ export const UserCard = memo(
           </div>
 
           <div className="flex items-center gap-2">
-            {user.isDeleted && (
+            {user.lockedUntil && (
               <StatusBadge
-                status="inactive"
+                status="danger"
                 size="sm"
                 variant="soft"
-                data-testid="user-inactive-badge"
-              />
+                title={`Sign-in locked until ${new Date(user.lockedUntil).toLocaleString()}`}
+                data-testid="user-locked-badge"
+              >
+                Locked
+              </StatusBadge>
+            )}
+            {user.status === 'suspended' && (
+              <StatusBadge
+                status="warning"
+                size="sm"
+                variant="soft"
+                title={user.statusReason}
+                data-testid="user-suspended-badge"
+              >
+                Suspended
+              </StatusBadge>
+            )}
+            {user.status === 'pending_deletion' ? (
+              <StatusBadge
+                status="danger"
+                size="sm"
+                variant="soft"
+                data-testid="user-pending-deletion-badge"
+              >
+                Pending Deletion
+              </StatusBadge>
+            ) : (
+              user.isDeleted && (
+                <StatusBadge
+                  status="inactive"
+                  size="sm"
+                  variant="soft"
+                  data-testid="user-inactive-badge"
+                />
+              )
             )}
             <StatusBadge
               status={user.isVerified ? 'verified' : 'pending'}
@@ -116,22 +154,24 @@ export const UserCard = memo(
         <div className="mb-3 min-h-[32px] flex items-center justify-between gap-2">
           <div className="flex-1 min-w-0">
             <PermissionGuard
-              permission={USER_PERMISSIONS.UPDATE_ALL}
+              anyPermissions={[USER_PERMISSIONS.UPDATE_ALL, USER_PERMISSIONS.UPDATE_TEAM]}
               fallback={
                 <div className="text-xs text-muted-foreground/50 capitalize">
-                  Role: <span className="font-medium">{user.role}</span>
+                  {user.roles.length > 1 ? 'Roles' : 'Role'}:{' '}
+                  <span className="font-medium">{user.roles.join(', ')}</span>
                 </div>
               }
             >
               {isProtectedRole || user.isDeleted ? (
                 <div className="text-xs text-muted-foreground/50 capitalize">
-                  Role: <span className="font-medium">{user.role}</span>
+                  {user.roles.length > 1 ? 'Roles' : 'Role'}:{' '}
+                  <span className="font-medium">{user.roles.join(', ')}</span>
                 </div>
               ) : (
                 <UserRoleSelector
                   userId={user._id}
-                  currentRole={user.role}
-                  onRoleChange={onRoleChange}
+                  currentRoles={user.roles}
+                  onRolesChange={onRolesChange}
                 />
               )}
             </PermissionGuard>
@@ -144,7 +184,9 @@ export const UserCard = memo(
               isAdminRole ? 'invisible' : 'opacity-0 group-hover:opacity-100',
             )}
           >
-            <PermissionGuard permission={USER_PERMISSIONS.UPDATE_ALL}>
+            <PermissionGuard
+              anyPermissions={[USER_PERMISSIONS.UPDATE_ALL, USER_PERMISSIONS.UPDATE_TEAM]}
+            >
               <UserActionsMenu
                 user={user}
                 onManagePermissions={handleManageClick}
@@ -167,9 +209,12 @@ export const UserCard = memo(
       prevProps.user._id === nextProps.user._id &&
       prevProps.user.name === nextProps.user.name &&
       prevProps.user.email === nextProps.user.email &&
-      prevProps.user.role === nextProps.user.role &&
+      prevProps.user.roles.join() === nextProps.user.roles.join() &&
       prevProps.user.isVerified === nextProps.user.isVerified &&
       prevProps.user.isDeleted === nextProps.user.isDeleted &&
+      prevProps.user.status === nextProps.user.status &&
+      prevProps.user.statusReason === nextProps.user.statusReason &&
+      prevProps.user.lockedUntil === nextProps.user.lockedUntil &&
       prevProps.onManagePermissions === nextProps.onManagePermissions
     );
   },
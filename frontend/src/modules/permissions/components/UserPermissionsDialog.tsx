@@ -15,11 +15,21 @@ import {
   useGetUserPermissionsQuery,
   useAddPermissionMutation,
   useRemovePermissionMutation,
+  useDenyPermissionMutation,
+  useRemoveDenialMutation,
+  type PermissionGrant,
 } from '../api/permissionsApi';
-import { useGetRoleQuery } from '../api/rolesApi';
 import { PermissionTreeView } from './PermissionTreeView';
 import { PermissionSearchDialog } from './PermissionSearchDialog';
-import { Loader2, Plus, Trash2, Shield, User } from 'lucide-react';
+import {
+  GrantExpiryPicker,
+  PERMANENT_GRANT,
+  getGrantExpiryDate,
+  type GrantExpiry,
+} from './GrantExpiryPicker';
+import { Ban, Clock, Loader2, Plus, ShieldCheck, Trash2, Shield, User } from 'lucide-react';
+import { WILDCARD_PERMISSION } from '../constants/permissions';
+import { permissionMatches } from '../utils/permissionUtils';
 import { toast } from 'sonner';
 
 export interface UserPermissionsDialogProps {
@@ -50,11 +60,14 @@ export interface UserPermissionsDialogProps {
  * Displays and manages user permissions with clear distinction between:
  * - **Inherited Permissions**: Permissions from the user's assigned role (read-only, blue theme)
  * - **Direct Permissions**: Permissions assigned specifically to the user (editable, green theme)
+ * - **Denied Permissions**: Permissions taken away from the user, even when the role grants them (editable, red theme)
  *
  * Features:
  * - Visual breakdown by permission source (role vs direct)
- * - Add multiple permissions at once
+ * - Add multiple permissions at once, optionally expiring after a chosen time
  * - Remove direct permissions individually
+ * - Grantor and expiry shown for each grant
+ * - Deny permissions, including to users whose role has the wildcard (*)
  * - Prevents duplicate assignments (inherited + direct)
  * - Wildcard permission (*) indicator
  * - Permission count summary
@@ -79,7 +92,6 @@ export interface UserPermissionsDialogProps {
  *
  * @see PermissionSelector - Used for adding new permissions
  * @see useGetUserPermissionsQuery - Fetches user permissions
- * @see useGetRoleQuery - Fetches role permissions for inheritance
  */
 export function UserPermissionsDialog({
   open,
@@ -89,35 +101,45 @@ export function UserPermissionsDialog({
 }: UserPermissionsDialogProps) {
   const t = useTranslations('permissions.dialog');
   // Component will remount when userId changes due to key prop on Dialog
-  const [searchDialogOpen, setSearchDialogOpen] = useState(false);
+  const [searchMode, setSearchMode] = useState<'add' | 'deny' | null>(null);
   const [selectedPermissions, setSelectedPermissions] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState<GrantExpiry>(PERMANENT_GRANT);
+  const [denyExpiry, setDenyExpiry] = useState<GrantExpiry>(PERMANENT_GRANT);
 
   const { data, isLoading, refetch } = useGetUserPermissionsQuery(userId || '', {
     skip: !userId,
   });
 
-  // Fetch role permissions to show inherited permissions
-  const { data: roleData, isLoading: isLoadingRole } = useGetRoleQuery(data?.role || '', {
-    skip: !data?.role,
-  });
-
   const [addPermission, { isLoading: isAdding }] = useAddPermissionMutation();
   const [removePermission, { isLoading: isRemoving }] = useRemovePermissionMutation();
+  const [denyPermission, { isLoading: isDenying }] = useDenyPermissionMutation();
+  const [removeDenial, { isLoading: isRemovingDenial }] = useRemoveDenialMutation();
+
+  const openSearch = (mode: 'add' | 'deny') => {
+    setSelectedPermissions([]);
+    setSearchMode(mode);
+  };
 
   const handleAddPermissions = async () => {
     if (!userId || availablePermissions.length === 0) return;
 
+    const expiresAt = getGrantExpiryDate(expiry);
+    if (expiresAt === null) {
+      toast.error(t('expiry.dateRequired'));
+      return;
+    }
+
     try {
       // Add permissions one by one
       for (const permission of availablePermissions) {
-        await addPermission({ userId, permission }).unwrap();
+        await addPermission({ userId, permission, expiresAt }).unwrap();
       }
 
       toast.success(t('addSuccess', { count: availablePermissions.length }));
 
       // Reset state
       setSelectedPermissions([]);
-      setSearchDialogOpen(false);
+      setSearchMode(null);
 
       // Refresh data
       refetch();
@@ -151,20 +173,94 @@ export function UserPermissionsDialog({
     }
   };
 
+  const handleDenyPermissions = async () => {
+    if (!userId || newDenials.length === 0) return;
+
+    const expiresAt = getGrantExpiryDate(denyExpiry);
+    if (expiresAt === null) {
+      toast.error(t('expiry.dateRequired'));
+      return;
+    }
+
+    try {
+      for (const permission of newDenials) {
+        await denyPermission({ userId, permission, expiresAt }).unwrap();
+      }
+
+      toast.success(t('denySuccess', { count: newDenials.length }));
+
+      setSelectedPermissions([]);
+      setSearchMode(null);
+
+      refetch();
+    } catch (error: unknown) {
+      const errorMessage =
+        error && typeof error === 'object' && 'data' in error
+          ? (error.data as { message?: string })?.message || t('denyError')
+          : t('denyError');
+
+      toast.error(errorMessage);
+    }
+  };
+
+  const handleRemoveDenial = async (permission: string) => {
+    if (!userId) return;
+
+    try {
+      await removeDenial({ userId, permission }).unwrap();
+
+      toast.success(t('allowSuccess'));
+
+      refetch();
+    } catch (error: unknown) {
+      const errorMessage =
+        error && typeof error === 'object' && 'data' in error
+          ? (error.data as { message?: string })?.message || t('allowError')
+          : t('allowError');
+
+      toast.error(errorMessage);
+    }
+  };
+
+  const renderOverrideDetails = (override: PermissionGrant, setBy: 'grantedBy' | 'deniedBy') => (
+    <p
+      className="flex items-center gap-1 text-xs text-muted-foreground"
+      data-testid={`grant-details-${override.permission}`}
+    >
+      {override.expiresAt && <Clock className="h-3 w-3" />}
+      {override.expiresAt
+        ? t('grantExpires', {
+            date: new Date(override.expiresAt).toLocaleString(),
+          })
+        : t('grantPermanent')}
+      {override.grantedBy && ` · ${t(setBy, { name: override.grantedBy.name })}`}
+    </p>
+  );
+
   const userPermissions = data?.permissions || [];
-  const rolePermissions = roleData?.permissions || [];
+  // Permissions of every role, including those the roles inherit from their parents
+  const roles = data?.roles || [];
+  const rolePermissions = data?.rolePermissions || [];
+  const deniedPermissions = data?.denied || [];
+  const grants = new Map((data?.grants || []).map((grant) => [grant.permission, grant]));
+  const denials = new Map((data?.denials || []).map((denial) => [denial.permission, denial]));
 
   // Direct permissions are those not inherited from role
   const directPermissions = userPermissions.filter((p) => !rolePermissions.includes(p));
   const inheritedPermissions = rolePermissions;
 
-  // All effective permissions (role + direct, deduplicated)
-  const effectivePermissions = [...new Set([...rolePermissions, ...userPermissions])];
-  const hasWildcard = effectivePermissions.includes('*');
+  // All effective permissions (role + direct - denied, deduplicated)
+  const effectivePermissions = [...new Set([...rolePermissions, ...userPermissions])].filter(
+    (p) => !deniedPermissions.some((denied) => permissionMatches(denied, p)),
+  );
+  const hasWildcard = effectivePermissions.includes(WILDCARD_PERMISSION);
 
   // Filter out permissions the user already has when adding (both direct and inherited)
   const availablePermissions = selectedPermissions.filter((p) => !effectivePermissions.includes(p));
 
+  // Filter out permissions that are already denied
+  const newDenials = selectedPermissions.filter((p) => !deniedPermissions.includes(p));
+
   return (
     <>
       <Dialog key={userId || 'no-user'} open={open} onOpenChange={onOpenChange}>
@@ -177,7 +273,7 @@ export function UserPermissionsDialog({
           </DialogHeader>
 
           <div className="space-y-6 py-6">
-            {isLoading || isLoadingRole ? (
+            {isLoading ? (
               <div className="flex items-center justify-center py-12">
                 <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
               </div>
@@ -189,7 +285,15 @@ export function UserPermissionsDialog({
                     <div>
                       <p className="text-sm text-gray-600 dark:text-gray-400">
                         <span className="font-medium">{t('currentRole')}</span>{' '}
-                        <Badge variant="secondary">{data?.role || 'None'}</Badge>
+                        {roles.length === 0 ? (
+                          <Badge variant="secondary">None</Badge>
+                        ) : (
+                          roles.map((role) => (
+                            <Badge key={role} variant="secondary" className="mr-1">
+                              {role}
+                            </Badge>
+                          ))
+                        )}
                       </p>
                       <p className="mt-1 text-xs text-gray-500 dark:text-gray-500">
                         {t('totalPermissions', { count: effectivePermissions.length })} (
@@ -216,13 +320,8 @@ export function UserPermissionsDialog({
                   <div className="flex items-center gap-2">
                     <Shield className="h-4 w-4 text-blue-600 dark:text-blue-400" />
                     <h3 className="font-semibold text-gray-900 dark:text-gray-100">
-                      {t('inheritedFromRole', { role: data?.role || '' })}
+                      {t('inheritedFromRole', { role: roles.join(', ') })}
                     </h3>
-                    {data?.role && (
-                      <Badge variant="secondary" className="text-xs">
-                        {data.role}
-                      </Badge>
-                    )}
                   </div>
 
                   {inheritedPermissions.length === 0 ? (
@@ -235,6 +334,7 @@ export function UserPermissionsDialog({
                     <PermissionTreeView
                       permissions={inheritedPermissions}
                       variant="inherited"
+                      deniedPermissions={deniedPermissions}
                       showHeaders
                     />
                   )}
@@ -249,14 +349,17 @@ export function UserPermissionsDialog({
                         {t('directPermissions', { count: directPermissions.length })}
                       </h3>
                     </div>
-                    <Button
-                      size="sm"
-                      onClick={() => setSearchDialogOpen(true)}
-                      data-testid="add-permission-button"
-                    >
-                      <Plus className="mr-2 h-4 w-4" />
-                      {t('addPermissions')}
-                    </Button>
+                    <div className="flex items-end gap-2">
+                      <GrantExpiryPicker value={expiry} onChange={setExpiry} disabled={isAdding} />
+                      <Button
+                        size="sm"
+                        onClick={() => openSearch('add')}
+                        data-testid="add-permission-button"
+                      >
+                        <Plus className="mr-2 h-4 w-4" />
+                        {t('addPermissions')}
+                      </Button>
+                    </div>
                   </div>
 
                   {directPermissions.length === 0 ? (
@@ -270,6 +373,7 @@ export function UserPermissionsDialog({
                       <PermissionTreeView
                         permissions={directPermissions}
                         variant="direct"
+                        deniedPermissions={deniedPermissions}
                         showHeaders
                       />
 
@@ -279,33 +383,111 @@ export function UserPermissionsDialog({
                           {t('removePermissions')}
                         </p>
                         <div className="grid gap-2">
-                          {directPermissions.map((permission) => (
-                            <div
-                              key={permission}
-                              className="flex items-center justify-between rounded-md border border-border-subtle p-2 bg-surface-secondary"
-                              data-testid={`direct-permission-${permission}`}
-                            >
-                              <code className="text-xs font-mono text-foreground">
-                                {permission}
-                              </code>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => handleRemovePermission(permission)}
-                                disabled={isRemoving}
-                                className="h-7 text-red-600 hover:bg-red-50 hover:text-red-700 dark:text-red-400 dark:hover:bg-red-950"
-                                data-testid={`remove-permission-${permission}`}
+                          {directPermissions.map((permission) => {
+                            const grant = grants.get(permission);
+
+                            return (
+                              <div
+                                key={permission}
+                                className="flex items-center justify-between rounded-md border border-border-subtle p-2 bg-surface-secondary"
+                                data-testid={`direct-permission-${permission}`}
                               >
-                                <Trash2 className="h-3 w-3 mr-1" />
-                                {t('remove')}
-                              </Button>
-                            </div>
-                          ))}
+                                <div className="min-w-0 space-y-0.5">
+                                  <code className="text-xs font-mono text-foreground">
+                                    {permission}
+                                  </code>
+                                  {grant && renderOverrideDetails(grant, 'grantedBy')}
+                                </div>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => handleRemovePermission(permission)}
+                                  disabled={isRemoving}
+                                  className="h-7 text-red-600 hover:bg-red-50 hover:text-red-700 dark:text-red-400 dark:hover:bg-red-950"
+                                  data-testid={`remove-permission-${permission}`}
+                                >
+                                  <Trash2 className="h-3 w-3 mr-1" />
+                                  {t('remove')}
+                                </Button>
+                              </div>
+                            );
+                          })}
                         </div>
                       </div>
                     </div>
                   )}
                 </div>
+
+                {/* Denied Permissions (Editable) - Override role and direct permissions */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Ban className="h-4 w-4 text-red-600 dark:text-red-400" />
+                      <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+                        {t('deniedPermissions', { count: deniedPermissions.length })}
+                      </h3>
+                    </div>
+                    <div className="flex items-end gap-2">
+                      <GrantExpiryPicker
+                        id="deny-expiry"
+                        label={t('expiry.denialLabel')}
+                        value={denyExpiry}
+                        onChange={setDenyExpiry}
+                        disabled={isDenying}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openSearch('deny')}
+                        data-testid="deny-permission-button"
+                      >
+                        <Ban className="mr-2 h-4 w-4" />
+                        {t('denyPermissions')}
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{t('deniedDescription')}</p>
+
+                  {deniedPermissions.length === 0 ? (
+                    <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-center dark:border-gray-700 dark:bg-gray-800">
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {t('noDeniedPermissions')}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="grid gap-2">
+                      {deniedPermissions.map((permission) => {
+                        const denial = denials.get(permission);
+
+                        return (
+                          <div
+                            key={permission}
+                            className="flex items-center justify-between rounded-md border border-red-100 bg-red-50 p-2 dark:border-red-900 dark:bg-red-950/50"
+                            data-testid={`denied-permission-${permission}`}
+                          >
+                            <div className="min-w-0 space-y-0.5">
+                              <code className="text-xs font-mono text-red-900 line-through dark:text-red-100">
+                                {permission}
+                              </code>
+                              {denial && renderOverrideDetails(denial, 'deniedBy')}
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleRemoveDenial(permission)}
+                              disabled={isRemovingDenial}
+                              className="h-7"
+                              data-testid={`allow-permission-${permission}`}
+                            >
+                              <ShieldCheck className="h-3 w-3 mr-1" />
+                              {t('allow')}
+                            </Button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
               </>
             )}
           </div>
@@ -314,13 +496,25 @@ export function UserPermissionsDialog({
 
       {/* Permission Search Dialog */}
       <PermissionSearchDialog
-        open={searchDialogOpen}
-        onOpenChange={setSearchDialogOpen}
+        open={searchMode !== null}
+        onOpenChange={(isOpen) => !isOpen && setSearchMode(null)}
         selectedPermissions={selectedPermissions}
         onChange={setSelectedPermissions}
-        excludedPermissions={effectivePermissions}
-        isLoading={isAdding}
-        onConfirm={handleAddPermissions}
+        {...(searchMode === 'deny'
+          ? {
+              excludedPermissions: deniedPermissions,
+              showWildcard: false,
+              title: t('denyDialogTitle'),
+              description: t('denyDialogDescription'),
+              confirmLabel: t('confirmDeny', { count: newDenials.length }),
+              isLoading: isDenying,
+              onConfirm: handleDenyPermissions,
+            }
+          : {
+              excludedPermissions: effectivePermissions,
+              isLoading: isAdding,
+              onConfirm: handleAddPermissions,
+            })}
       />
     </>
   );
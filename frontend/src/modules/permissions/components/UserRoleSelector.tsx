@@ -3,12 +3,11 @@
 import { useState } from 'react';
 import { useTranslations } from 'next-intl';
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -20,62 +19,74 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Shield, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, Loader2, Shield, ShieldAlert } from 'lucide-react';
 import { useListRolesQuery } from '../api/rolesApi';
 import { useToast } from '@/hooks/use-toast';
 
 interface UserRoleSelectorProps {
   readonly userId: string;
-  readonly currentRole: string;
-  readonly onRoleChange?: (newRole: string) => Promise<void>;
+  /** Current roles; the first is the user's primary role */
+  readonly currentRoles: string[];
+  readonly onRolesChange?: (newRoles: string[]) => Promise<void>;
   readonly disabled?: boolean;
 }
 
 /**
- * UserRoleSelector component for changing a user's role
- * Shows a dropdown with available roles and confirmation dialog
+ * UserRoleSelector component for changing a user's roles
+ * Shows a multi-select dropdown with available roles and confirmation dialog.
+ * Removing the primary role makes the next remaining role primary; added
+ * roles are appended.
  */
 export function UserRoleSelector({
   userId,
-  currentRole,
-  onRoleChange,
+  currentRoles,
+  onRolesChange,
   disabled = false,
 }: UserRoleSelectorProps) {
   const t = useTranslations('permissions.userRole');
   const tCommon = useTranslations('common');
-  const [pendingRole, setPendingRole] = useState<string | null>(null);
+  const [pendingRoles, setPendingRoles] = useState<string[] | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
   const { data: rolesData, isLoading: isLoadingRoles } = useListRolesQuery(undefined);
   const { toast } = useToast();
 
   const roles = rolesData?.roles || [];
 
-  const handleRoleSelect = (newRole: string) => {
-    if (newRole === currentRole) {
-      return; // No change
+  const getRoleNames = (slugs: string[]) =>
+    slugs.map((slug) => roles.find((r) => r.slug === slug)?.name || slug).join(', ');
+
+  const handleRoleToggle = (slug: string, checked: boolean) => {
+    if (!checked) {
+      if (currentRoles.length === 1) {
+        toast.error(t('lastRoleRequired'));
+        return;
+      }
+
+      setPendingRoles(currentRoles.filter((role) => role !== slug));
+      return;
     }
 
     // Check if the role is protected (admin roles)
-    const selectedRole = roles.find((r) => r.slug === newRole);
-    if (selectedRole?.isProtected && newRole !== currentRole) {
+    const selectedRole = roles.find((r) => r.slug === slug);
+    if (selectedRole?.isProtected) {
       toast.error(t('cannotAssignProtected'));
       return;
     }
 
-    setPendingRole(newRole);
+    setPendingRoles([...currentRoles, slug]);
   };
 
   const handleConfirmRoleChange = async () => {
-    if (!pendingRole || !onRoleChange) {
+    if (!pendingRoles || !onRolesChange) {
       return;
     }
 
     setIsUpdating(true);
     try {
-      await onRoleChange(pendingRole);
-      const roleName = roles.find((r) => r.slug === pendingRole)?.name || pendingRole;
-      toast.success(t('changeSuccess', { role: roleName }));
-      setPendingRole(null);
+      await onRolesChange(pendingRoles);
+      toast.success(t('changeSuccess', { role: getRoleNames(pendingRoles) }));
+      setPendingRoles(null);
     } catch (error) {
       const errorMessage =
         error && typeof error === 'object' && 'data' in error && error.data
@@ -88,73 +99,74 @@ export function UserRoleSelector({
   };
 
   const handleCancelRoleChange = () => {
-    setPendingRole(null);
+    setPendingRoles(null);
   };
 
-  const currentRoleData = roles.find((r) => r.slug === currentRole);
-  const pendingRoleData = pendingRole ? roles.find((r) => r.slug === pendingRole) : null;
-
   return (
     <>
-      <Select
-        value={currentRole}
-        onValueChange={handleRoleSelect}
-        disabled={disabled || isLoadingRoles || isUpdating}
-      >
-        <SelectTrigger className="w-full sm:w-[200px]" data-testid={`user-role-selector-${userId}`}>
-          {isLoadingRoles ? (
-            <Loader2 className="h-4 w-4 animate-spin" />
-          ) : (
-            <SelectValue>
-              <div className="flex items-center gap-2">
-                {currentRoleData?.isSystemRole && (
-                  <Shield className="h-3 w-3 text-blue-600 dark:text-blue-400" />
-                )}
-                {currentRoleData?.isProtected && (
-                  <ShieldAlert className="h-3 w-3 text-amber-600 dark:text-amber-400" />
-                )}
-                <span>{currentRoleData?.name || currentRole}</span>
-              </div>
-            </SelectValue>
-          )}
-        </SelectTrigger>
-        <SelectContent>
-          {roles.map((role) => (
-            <SelectItem
-              key={role.id}
-              value={role.slug}
-              disabled={role.isProtected && role.slug !== currentRole}
-              data-testid={`role-option-${role.slug}`}
-            >
-              <div className="flex items-center gap-2">
-                {role.isSystemRole && (
-                  <Shield className="h-3 w-3 text-blue-600 dark:text-blue-400" />
-                )}
-                {role.isProtected && (
-                  <ShieldAlert className="h-3 w-3 text-amber-600 dark:text-amber-400" />
-                )}
-                <span>{role.name}</span>
-                {role.isProtected && role.slug !== currentRole && (
-                  <Badge variant="secondary" className="ml-2 text-xs">
-                    {t('protected')}
-                  </Badge>
-                )}
-              </div>
-            </SelectItem>
-          ))}
-        </SelectContent>
-      </Select>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild disabled={disabled || isLoadingRoles || isUpdating}>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full sm:w-[200px] justify-between font-normal"
+            data-testid={`user-role-selector-${userId}`}
+          >
+            {isLoadingRoles ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <span className="truncate">{getRoleNames(currentRoles)}</span>
+            )}
+            <ChevronDown className="h-4 w-4 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-[220px]">
+          {roles.map((role) => {
+            const isAssigned = currentRoles.includes(role.slug);
+
+            return (
+              <DropdownMenuCheckboxItem
+                key={role.id}
+                checked={isAssigned}
+                onCheckedChange={(checked) => handleRoleToggle(role.slug, checked)}
+                disabled={role.isProtected && !isAssigned}
+                data-testid={`role-option-${role.slug}`}
+              >
+                <div className="flex items-center gap-2">
+                  {role.isSystemRole && (
+                    <Shield className="h-3 w-3 text-blue-600 dark:text-blue-400" />
+                  )}
+                  {role.isProtected && (
+                    <ShieldAlert className="h-3 w-3 text-amber-600 dark:text-amber-400" />
+                  )}
+                  <span>{role.name}</span>
+                  {currentRoles[0] === role.slug && currentRoles.length > 1 && (
+                    <Badge variant="outline" className="ml-2 text-xs">
+                      {t('primary')}
+                    </Badge>
+                  )}
+                  {role.isProtected && !isAssigned && (
+                    <Badge variant="secondary" className="ml-2 text-xs">
+                      {t('protected')}
+                    </Badge>
+                  )}
+                </div>
+              </DropdownMenuCheckboxItem>
+            );
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
 
       {/* Confirmation Dialog */}
-      <AlertDialog open={!!pendingRole} onOpenChange={(open) => !open && handleCancelRoleChange()}>
+      <AlertDialog open={!!pendingRoles} onOpenChange={(open) => !open && handleCancelRoleChange()}>
         <AlertDialogContent data-testid="role-change-confirm-dialog">
           <AlertDialogHeader>
             <AlertDialogTitle>{t('changeTitle')}</AlertDialogTitle>
             <AlertDialogDescription>
               {t.rich('changeDescription', {
                 name: 'this user',
-                from: currentRoleData?.name || currentRole,
-                to: pendingRoleData?.name || pendingRole || '',
+                from: getRoleNames(currentRoles),
+                to: getRoleNames(pendingRoles || []),
                 strong: (chunks) => <strong>{chunks}</strong>,
               })}
               <br />
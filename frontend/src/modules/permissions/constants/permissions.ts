@@ -2,9 +2,11 @@
  * Comprehensive permission constants for the RBAC system.
  * Format: resource:action[:scope]
  *
- * Resources: profile, users, roles, permissions, sessions, reports
- * Actions: read, create, update, delete, list, manage
- * Scopes: own, all, team (optional)
+ * Resources: profile, users, roles, permissions, sessions, reports, sso, audit, organizations
+ * Actions: read, create, update, delete, list, manage, invite
+ * Scopes: own, all, team (optional); team permissions apply within the user's active organization,
+ * to the organization itself and, for users, to members of the teams the user belongs to there
+ * Any segment may be a wildcard: users:*, users:read:*, *:read:own
  */
 
 // ========== Profile Permissions ==========
@@ -22,6 +24,9 @@ export const USER_PERMISSIONS = {
   UPDATE_ALL: 'users:update:all',
   DELETE_ALL: 'users:delete:all',
   UPDATE_OWN: 'users:update:own',
+  READ_TEAM: 'users:read:team',
+  LIST_TEAM: 'users:list:team',
+  UPDATE_TEAM: 'users:update:team',
 } as const;
 
 // ========== Role Management Permissions ==========
@@ -56,6 +61,29 @@ export const REPORT_PERMISSIONS = {
   CREATE_ALL: 'reports:create:all',
 } as const;
 
+// ========== SSO Connection Permissions ==========
+export const SSO_PERMISSIONS = {
+  READ_ALL: 'sso:read:all',
+  MANAGE_ALL: 'sso:manage:all',
+} as const;
+
+// ========== Audit Log Permissions ==========
+export const AUDIT_PERMISSIONS = {
+  READ_ALL: 'audit:read:all',
+} as const;
+
+// ========== Organization Permissions ==========
+/**
+ * Held through a membership role and only within the active organization
+ */
+export const ORGANIZATION_PERMISSIONS = {
+  READ_TEAM: 'organizations:read:team',
+  UPDATE_TEAM: 'organizations:update:team',
+  DELETE_TEAM: 'organizations:delete:team',
+  INVITE_TEAM: 'organizations:invite:team',
+  MANAGE_TEAM: 'organizations:manage:team',
+} as const;
+
 // ========== Wildcard Permission ==========
 /**
  * Wildcard permission grants all access.
@@ -63,6 +91,23 @@ export const REPORT_PERMISSIONS = {
  */
 export const WILDCARD_PERMISSION = '*' as const;
 
+/**
+ * Prefix marking a denied permission in a user's effective permissions.
+ * A denial wins over every grant, including the wildcard.
+ */
+export const DENIED_PERMISSION_PREFIX = '!' as const;
+
+/**
+ * Wildcard for a single permission segment, as in users:* or *:read:own
+ */
+export const SEGMENT_WILDCARD = '*' as const;
+
+/**
+ * Permission validation regex, kept in sync with the backend.
+ * Matches: resource:action[:scope] or wildcard (*), where any segment may be *.
+ */
+export const PERMISSION_REGEX = /^(([a-z-]+|\*):([a-z-]+|\*)(:([a-z-]+|\*))?|\*)$/;
+
 // ========== All Permissions Array ==========
 export const ALL_PERMISSIONS = [
   WILDCARD_PERMISSION,
@@ -72,6 +117,9 @@ export const ALL_PERMISSIONS = [
   ...Object.values(PERMISSION_PERMISSIONS),
   ...Object.values(SESSION_PERMISSIONS),
   ...Object.values(REPORT_PERMISSIONS),
+  ...Object.values(SSO_PERMISSIONS),
+  ...Object.values(AUDIT_PERMISSIONS),
+  ...Object.values(ORGANIZATION_PERMISSIONS),
 ] as const;
 
 /**
@@ -3,6 +3,7 @@ import {
   useUpdateUserStatusMutation,
   useUpdateUserRoleMutation,
   useDeleteUserMutation,
+  useClearUserLockMutation,
 } from '@/store/api/userApi';
 import { useToast } from '@/hooks/use-toast';
 import { getErrorMessage } from '@/modules/auth/utils/authHelpers';
@@ -11,12 +12,16 @@ import { getErrorMessage } from '@/modules/auth/utils/authHelpers';
  * Return type for the useUserActions hook.
  */
 export interface UseUserActionsReturn {
-  /** Update user role */
-  handleRoleChange: (userId: string, newRole: string) => Promise<void>;
+  /** Replace user roles; the first is the primary role */
+  handleRoleChange: (userId: string, newRoles: string[]) => Promise<void>;
   /** Activate or deactivate user */
   handleStatusChange: (userId: string, isActive: boolean, userName: string) => Promise<boolean>;
+  /** Suspend user, optionally telling them why */
+  handleSuspend: (userId: string, userName: string, reason?: string) => Promise<boolean>;
   /** Delete user */
-  handleDelete: (userId: string, userName: string) => Promise<boolean>;
+  handleDelete: (userId: string, userName: string, hard?: boolean) => Promise<boolean>;
+  /** Clear the sign-in lock after repeated failed logins */
+  handleClearLock: (userId: string, userName: string) => Promise<boolean>;
   /** Whether any action is loading */
   isLoading: boolean;
   /** Whether status update is loading */
@@ -25,6 +30,8 @@ export interface UseUserActionsReturn {
   isUpdatingRole: boolean;
   /** Whether delete is loading */
   isDeleting: boolean;
+  /** Whether clearing a sign-in lock is loading */
+  isClearingLock: boolean;
 }
 
 /**
@@ -59,16 +66,17 @@ export function useUserActions(): UseUserActionsReturn {
   const [updateStatus, { isLoading: isUpdatingStatus }] = useUpdateUserStatusMutation();
   const [updateRole, { isLoading: isUpdatingRole }] = useUpdateUserRoleMutation();
   const [deleteUser, { isLoading: isDeleting }] = useDeleteUserMutation();
+  const [clearLock, { isLoading: isClearingLock }] = useClearUserLockMutation();
   const { toast } = useToast();
 
   /**
-   * Update user role.
+   * Replace user roles.
    */
   const handleRoleChange = useCallback(
-    async (userId: string, newRole: string) => {
+    async (userId: string, newRoles: string[]) => {
       try {
-        await updateRole({ userId, role: newRole }).unwrap();
-        toast.success('Role updated successfully');
+        await updateRole({ userId, roles: newRoles }).unwrap();
+        toast.success('Roles updated successfully');
       } catch (error) {
         toast.error(getErrorMessage(error));
       }
@@ -97,14 +105,34 @@ export function useUserActions(): UseUserActionsReturn {
   );
 
   /**
-   * Delete user.
+   * Suspend user; the reason is shown to them at sign-in.
+   * Returns true on success, false on failure.
+   */
+  const handleSuspend = useCallback(
+    async (userId: string, userName: string, reason?: string): Promise<boolean> => {
+      try {
+        await updateStatus({ userId, status: 'suspended', reason }).unwrap();
+        toast.success(`${userName} suspended successfully`);
+        return true;
+      } catch (error) {
+        toast.error(getErrorMessage(error));
+        return false;
+      }
+    },
+    [updateStatus, toast],
+  );
+
+  /**
+   * Delete user; with hard set, erase their data now instead of after the grace period.
    * Returns true on success, false on failure.
    */
   const handleDelete = useCallback(
-    async (userId: string, userName: string): Promise<boolean> => {
+    async (userId: string, userName: string, hard = false): Promise<boolean> => {
       try {
-        await deleteUser(userId).unwrap();
-        toast.success(`${userName} deleted successfully`);
+        await deleteUser({ userId, hard }).unwrap();
+        toast.success(
+          hard ? `${userName} erased successfully` : `${userName} deleted successfully`,
+        );
         return true;
       } catch (error) {
         toast.error(getErrorMessage(error));
@@ -114,16 +142,37 @@ export function useUserActions(): UseUserActionsReturn {
     [deleteUser, toast],
   );
 
-  const isLoading = isUpdatingStatus || isUpdatingRole || isDeleting;
+  /**
+   * Clear the sign-in lock after repeated failed logins.
+   * Returns true on success, false on failure.
+   */
+  const handleClearLock = useCallback(
+    async (userId: string, userName: string): Promise<boolean> => {
+      try {
+        await clearLock(userId).unwrap();
+        toast.success(`Sign-in lock cleared for ${userName}`);
+        return true;
+      } catch (error) {
+        toast.error(getErrorMessage(error));
+        return false;
+      }
+    },
+    [clearLock, toast],
+  );
+
+  const isLoading = isUpdatingStatus || isUpdatingRole || isDeleting || isClearingLock;
 
   return {
     handleRoleChange,
     handleStatusChange,
+    handleSuspend,
     handleDelete,
+    handleClearLock,
     isLoading,
     isUpdatingStatus,
     isUpdatingRole,
     isDeleting,
+    isClearingLock,
   };
 }
 
@@ -4,7 +4,7 @@ export interface FilterableUser {
   _id: string;
   name: string;
   email: string;
-  role: string;
+  roles: string[];
   isVerified: boolean;
   isDeleted: boolean;
   createdAt: string;
@@ -71,7 +71,7 @@ export function useUserFilters(
       const matchesSearch =
         user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         user.email.toLowerCase().includes(searchQuery.toLowerCase());
-      const matchesRole = roleFilter === 'all' || user.role === roleFilter;
+      const matchesRole = roleFilter === 'all' || user.roles.includes(roleFilter);
       return matchesSearch && matchesRole;
     });
   }, [users, searchQuery, roleFilter]);
@@ -86,7 +86,7 @@ export function useUserFilters(
   );
 
   // Get unique roles for filter dropdown
-  const uniqueRoles = useMemo(() => Array.from(new Set(users.map((u) => u.role))), [users]);
+  const uniqueRoles = useMemo(() => Array.from(new Set(users.flatMap((u) => u.roles))), [users]);
 
   return {
     filteredUsers,
@@ -1,8 +1,116 @@
-import { WILDCARD_PERMISSION } from '../constants/permissions';
+import {
+  DENIED_PERMISSION_PREFIX,
+  PERMISSION_REGEX,
+  SEGMENT_WILDCARD,
+  WILDCARD_PERMISSION,
+} from '../constants/permissions';
+
+/**
+ * Check if a granted permission covers a required permission.
+ * A * segment matches any single segment; a trailing * also matches
+ * every segment after it, so users:* covers users:read and users:read:all.
+ *
+ * @param granted - Permission or pattern the user holds
+ * @param required - The permission to check for
+ * @returns true if the granted permission covers the required one
+ *
+ * @example
+ * ```typescript
+ * permissionMatches('users:*', 'users:delete:all'); // true
+ * permissionMatches('users:read:*', 'users:read:own'); // true
+ * permissionMatches('*:read:own', 'sessions:read:own'); // true
+ * permissionMatches('*:read:own', 'sessions:read:all'); // false
+ * ```
+ */
+export function permissionMatches(granted: string, required: string): boolean {
+  if (granted === WILDCARD_PERMISSION || granted === required) {
+    return true;
+  }
+
+  const grantedParts = granted.split(':');
+  const requiredParts = required.split(':');
+  const endsWithWildcard = grantedParts[grantedParts.length - 1] === SEGMENT_WILDCARD;
+
+  if (
+    endsWithWildcard
+      ? requiredParts.length < grantedParts.length
+      : requiredParts.length !== grantedParts.length
+  ) {
+    return false;
+  }
+
+  return grantedParts.every(
+    (part, index) => part === SEGMENT_WILDCARD || part === requiredParts[index],
+  );
+}
+
+/**
+ * Check if a permission contains segment wildcards (users:*, *:read:own).
+ * The global wildcard (*) is not a pattern.
+ */
+export function isPermissionPattern(permission: string): boolean {
+  return permission !== WILDCARD_PERMISSION && permission.split(':').includes(SEGMENT_WILDCARD);
+}
+
+/**
+ * Validate permission format.
+ * Format must be: resource:action[:scope] or wildcard (*). Any segment may be a wildcard.
+ *
+ * @example
+ * ```typescript
+ * isValidPermission('users:read:all'); // true
+ * isValidPermission('users:*'); // true
+ * isValidPermission('users:re*'); // false
+ * ```
+ */
+export function isValidPermission(permission: string): boolean {
+  return PERMISSION_REGEX.test(permission);
+}
+
+/**
+ * Mark a permission as denied.
+ *
+ * @example
+ * ```typescript
+ * toDeniedPermission('users:delete:all'); // '!users:delete:all'
+ * ```
+ */
+export function toDeniedPermission(permission: string): string {
+  return `${DENIED_PERMISSION_PREFIX}${permission}`;
+}
+
+/**
+ * Check if a permission is explicitly denied, directly or by a denied pattern.
+ *
+ * @param userPermissions - Array of permissions the user has, including denials
+ * @param permission - The permission to check for
+ * @returns true if the permission is denied
+ */
+export function isPermissionDenied(userPermissions: string[], permission: string): boolean {
+  return getDeniedPermissions(userPermissions).some((denied) =>
+    permissionMatches(denied, permission),
+  );
+}
+
+/**
+ * Get the permissions a user is denied, without the denial prefix.
+ *
+ * @example
+ * ```typescript
+ * getDeniedPermissions(['*', '!users:delete:all']); // ['users:delete:all']
+ * ```
+ */
+export function getDeniedPermissions(userPermissions: string[]): string[] {
+  return userPermissions
+    .filter((perm) => perm.startsWith(DENIED_PERMISSION_PREFIX))
+    .map((perm) => perm.slice(DENIED_PERMISSION_PREFIX.length));
+}
 
 /**
  * Check if a user has a specific permission.
- * Supports wildcard permission (*) which grants all access.
+ * Supports wildcard permission (*) which grants all access, and segment
+ * wildcards (users:*, *:read:own) which grant every matching permission.
+ * Denied permissions (!resource:action:scope) override every grant, including the wildcard.
  *
  * @param userPermissions - Array of permissions the user has
  * @param requiredPermission - The permission to check for
@@ -12,7 +120,9 @@ import { WILDCARD_PERMISSION } from '../constants/permissions';
  * ```typescript
  * hasPermission(['users:read:all', 'users:update:all'], 'users:read:all'); // true
  * hasPermission(['*'], 'anything'); // true (wildcard)
+ * hasPermission(['users:*'], 'users:delete:all'); // true (segment wildcard)
  * hasPermission(['users:read:all'], 'users:delete:all'); // false
+ * hasPermission(['*', '!users:delete:all'], 'users:delete:all'); // false (denied)
  * ```
  */
 export function hasPermission(userPermissions: string[], requiredPermission: string): boolean {
@@ -20,13 +130,16 @@ export function hasPermission(userPermissions: string[], requiredPermission: str
     return false;
   }
 
-  // Check for wildcard permission (grants all access)
-  if (userPermissions.includes(WILDCARD_PERMISSION)) {
-    return true;
+  // Denials win over grants
+  if (isPermissionDenied(userPermissions, requiredPermission)) {
+    return false;
   }
 
-  // Direct permission match
-  return userPermissions.includes(requiredPermission);
+  // Direct permission match, or a wildcard covering it
+  return userPermissions.some(
+    (perm) =>
+      !perm.startsWith(DENIED_PERMISSION_PREFIX) && permissionMatches(perm, requiredPermission),
+  );
 }
 
 /**
@@ -54,13 +167,8 @@ export function hasAnyPermission(
     return false;
   }
 
-  // Check for wildcard permission
-  if (userPermissions.includes(WILDCARD_PERMISSION)) {
-    return true;
-  }
-
   // Check if user has at least one of the required permissions
-  return requiredPermissions.some((perm) => userPermissions.includes(perm));
+  return requiredPermissions.some((perm) => hasPermission(userPermissions, perm));
 }
 
 /**
@@ -88,13 +196,8 @@ export function hasAllPermissions(
     return true; // No permissions required
   }
 
-  // Check for wildcard permission
-  if (userPermissions.includes(WILDCARD_PERMISSION)) {
-    return true;
-  }
-
   // Check if user has all required permissions
-  return requiredPermissions.every((perm) => userPermissions.includes(perm));
+  return requiredPermissions.every((perm) => hasPermission(userPermissions, perm));
 }
 
 /**
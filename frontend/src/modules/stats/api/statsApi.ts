@@ -0,0 +1,48 @@
+import { baseApi } from '@/store/api/baseApi';
+import type { AdminStats, ManagerStats, StatsQuery, SupportStats } from '../types';
+
+/**
+ * Stats API
+ * RTK Query endpoints for the admin, manager and support dashboards
+ */
+export const statsApi = baseApi.injectEndpoints({
+  endpoints: (builder) => ({
+    /**
+     * Signups, verification, roles, providers, sessions and failed sign-ins
+     */
+    getAdminStats: builder.query<AdminStats, StatsQuery | undefined>({
+      query: (params = {}) => ({
+        url: '/api/admin/stats',
+        params,
+      }),
+      transformResponse: (response: { success: boolean; data: AdminStats }) => response.data,
+      providesTags: ['Stats'],
+    }),
+
+    /**
+     * Team growth and activity
+     */
+    getManagerStats: builder.query<ManagerStats, StatsQuery | undefined>({
+      query: (params = {}) => ({
+        url: '/api/admin/stats/manager',
+        params,
+      }),
+      transformResponse: (response: { success: boolean; data: ManagerStats }) => response.data,
+      providesTags: ['Stats'],
+    }),
+
+    /**
+     * Sessions, lockouts and account recovery activity
+     */
+    getSupportStats: builder.query<SupportStats, StatsQuery | undefined>({
+      query: (params = {}) => ({
+        url: '/api/admin/stats/support',
+        params,
+      }),
+      transformResponse: (response: { success: boolean; data: SupportStats }) => response.data,
+      providesTags: ['Stats'],
+    }),
+  }),
+});
+
+export const { useGetAdminStatsQuery, useGetManagerStatsQuery, useGetSupportStatsQuery } = statsApi;
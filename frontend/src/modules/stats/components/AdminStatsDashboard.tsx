@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Users, UserCheck, Activity, ShieldAlert } from 'lucide-react';
+import { useGetAdminStatsQuery } from '../api';
+import { StatsDashboardShell } from './StatsDashboardShell';
+import { StatCard } from './StatCard';
+import { DailyChart } from './DailyChart';
+import { BreakdownChart } from './BreakdownChart';
+
+/**
+ * AdminStatsDashboard Component
+ * Signups, verification, roles, auth providers, sessions and failed sign-ins.
+ */
+export function AdminStatsDashboard() {
+  const t = useTranslations('stats');
+  const [days, setDays] = useState(30);
+  const { data, isLoading, isFetching, isError, refetch } = useGetAdminStatsQuery({ days });
+
+  return (
+    <StatsDashboardShell
+      title={t('admin.title')}
+      description={t('admin.description')}
+      days={days}
+      onDaysChange={setDays}
+      isLoading={isLoading}
+      isFetching={isFetching}
+      isError={isError}
+      onRefresh={refetch}
+    >
+      {data && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <StatCard
+              label={t('cards.totalUsers')}
+              value={data.users.total}
+              hint={t('cards.newInPeriod', { count: data.users.newInPeriod })}
+              icon={Users}
+            />
+            <StatCard
+              label={t('cards.verifiedUsers')}
+              value={data.users.verified}
+              hint={t('cards.unverified', { count: data.users.unverified })}
+              icon={UserCheck}
+            />
+            <StatCard
+              label={t('cards.activeSessions')}
+              value={data.activeSessions}
+              icon={Activity}
+            />
+            <StatCard
+              label={t('cards.failedLogins')}
+              value={data.failedLogins.total}
+              hint={t('cards.locked', {
+                emails: data.failedLogins.lockedEmails,
+                ips: data.failedLogins.lockedIps,
+              })}
+              icon={ShieldAlert}
+            />
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <DailyChart title={t('charts.signups')} data={data.signups} />
+            <DailyChart
+              title={t('charts.failedLogins')}
+              data={data.failedLogins.daily}
+              barClassName="bg-destructive/70"
+            />
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-3">
+            <BreakdownChart
+              title={t('charts.verification')}
+              data={[
+                { key: t('verified'), count: data.users.verified },
+                { key: t('unverified'), count: data.users.unverified },
+              ]}
+            />
+            <BreakdownChart title={t('charts.usersByRole')} data={data.usersByRole} />
+            <BreakdownChart title={t('charts.usersByProvider')} data={data.usersByProvider} />
+          </div>
+        </>
+      )}
+    </StatsDashboardShell>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/design-system';
+import type { GroupCount } from '../types';
+
+interface BreakdownChartProps {
+  title: string;
+  data: GroupCount[];
+  /** Display name for a group key; defaults to the key itself */
+  formatLabel?: (key: string) => string;
+}
+
+/**
+ * BreakdownChart Component
+ * Horizontal bars showing how a total splits across groups, largest first.
+ */
+export function BreakdownChart({ title, data, formatLabel = (key) => key }: BreakdownChartProps) {
+  const t = useTranslations('stats');
+  const total = data.reduce((sum, group) => sum + group.count, 0);
+
+  return (
+    <Card variant="elevated" data-testid="breakdown-chart">
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('noData')}</p>
+        ) : (
+          <ul className="space-y-3">
+            {data.map((group) => {
+              const percent = total ? Math.round((group.count / total) * 100) : 0;
+
+              return (
+                <li key={group.key} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="capitalize">{formatLabel(group.key)}</span>
+                    <span className="text-muted-foreground tabular-nums">
+                      {group.count.toLocaleString()} · {percent}%
+                    </span>
+                  </div>
+                  <div className="h-2 overflow-hidden rounded-full bg-muted">
+                    <div
+                      className="h-full rounded-full bg-primary/70"
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
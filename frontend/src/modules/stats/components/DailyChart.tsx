@@ -0,0 +1,55 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/design-system';
+import { cn } from '@/lib/utils';
+import type { DailyCount } from '../types';
+
+interface DailyChartProps {
+  title: string;
+  data: DailyCount[];
+  /** Bar colour classes */
+  barClassName?: string;
+}
+
+/**
+ * DailyChart Component
+ * Bar chart of a daily time series, oldest day on the left.
+ */
+export function DailyChart({ title, data, barClassName = 'bg-primary/70' }: DailyChartProps) {
+  const t = useTranslations('stats');
+  const max = Math.max(1, ...data.map((day) => day.count));
+  const total = data.reduce((sum, day) => sum + day.count, 0);
+
+  return (
+    <Card variant="elevated" data-testid="daily-chart">
+      <CardHeader className="flex-row items-baseline justify-between space-y-0">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <span className="text-sm text-muted-foreground tabular-nums">
+          {t('total', { count: total })}
+        </span>
+      </CardHeader>
+      <CardContent>
+        <div className="flex h-32 items-end gap-px" role="img" aria-label={title}>
+          {data.map((day) => (
+            <div
+              key={day.date}
+              className={cn(
+                'min-h-0.5 flex-1 rounded-t-sm transition-opacity hover:opacity-70',
+                barClassName,
+              )}
+              style={{ height: `${(day.count / max) * 100}%` }}
+              title={`${day.date}: ${day.count}`}
+            />
+          ))}
+        </div>
+        {data.length > 0 && (
+          <div className="mt-2 flex justify-between text-xs text-muted-foreground/70">
+            <span>{data[0].date}</span>
+            <span>{data[data.length - 1].date}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
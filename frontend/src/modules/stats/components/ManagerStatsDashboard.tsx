@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Users, UserPlus, UserCheck, Activity } from 'lucide-react';
+import { useGetManagerStatsQuery } from '../api';
+import { StatsDashboardShell } from './StatsDashboardShell';
+import { StatCard } from './StatCard';
+import { DailyChart } from './DailyChart';
+import { BreakdownChart } from './BreakdownChart';
+
+/**
+ * ManagerStatsDashboard Component
+ * Team growth, activity and account status.
+ */
+export function ManagerStatsDashboard() {
+  const t = useTranslations('stats');
+  const [days, setDays] = useState(30);
+  const { data, isLoading, isFetching, isError, refetch } = useGetManagerStatsQuery({ days });
+
+  return (
+    <StatsDashboardShell
+      title={t('manager.title')}
+      description={t('manager.description')}
+      days={days}
+      onDaysChange={setDays}
+      isLoading={isLoading}
+      isFetching={isFetching}
+      isError={isError}
+      onRefresh={refetch}
+    >
+      {data && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <StatCard label={t('cards.totalUsers')} value={data.users.total} icon={Users} />
+            <StatCard label={t('cards.newUsers')} value={data.users.newInPeriod} icon={UserPlus} />
+            <StatCard
+              label={t('cards.activeUsers')}
+              value={data.activeUsers}
+              hint={t('period', { days })}
+              icon={Activity}
+            />
+            <StatCard
+              label={t('cards.verifiedUsers')}
+              value={data.users.verified}
+              hint={t('cards.unverified', { count: data.users.unverified })}
+              icon={UserCheck}
+            />
+          </div>
+
+          <DailyChart title={t('charts.signups')} data={data.signups} />
+
+          <div className="grid gap-4 lg:grid-cols-2">
+            <BreakdownChart
+              title={t('charts.usersByStatus')}
+              data={data.usersByStatus}
+              formatLabel={(status) => t(`statuses.${status}`)}
+            />
+            <BreakdownChart title={t('charts.usersByRole')} data={data.usersByRole} />
+          </div>
+        </>
+      )}
+    </StatsDashboardShell>
+  );
+}
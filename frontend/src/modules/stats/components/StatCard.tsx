@@ -0,0 +1,30 @@
+import { Card } from '@/components/design-system';
+
+interface StatCardProps {
+  label: string;
+  value: number;
+  /** Secondary line under the value */
+  hint?: string;
+  icon: React.ComponentType<{ className?: string }>;
+}
+
+/**
+ * StatCard Component
+ * A single headline figure on a dashboard.
+ */
+export function StatCard({ label, value, hint, icon: Icon }: StatCardProps) {
+  return (
+    <Card variant="elevated" data-testid="stat-card">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+            {label}
+          </p>
+          <p className="text-3xl font-light tabular-nums">{value.toLocaleString()}</p>
+          {hint && <p className="text-xs text-muted-foreground/70">{hint}</p>}
+        </div>
+        <Icon className="h-5 w-5 text-muted-foreground" />
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { Activity } from 'react';
+import { useTranslations } from 'next-intl';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+/** Periods offered by the dashboards, in days */
+export const STATS_PERIODS = [7, 30, 90] as const;
+
+interface StatsDashboardShellProps {
+  title: string;
+  description: string;
+  days: number;
+  onDaysChange: (days: number) => void;
+  isLoading: boolean;
+  isFetching: boolean;
+  isError: boolean;
+  onRefresh: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * StatsDashboardShell Component
+ * Header, period picker and loading/error states shared by the dashboards.
+ */
+export function StatsDashboardShell({
+  title,
+  description,
+  days,
+  onDaysChange,
+  isLoading,
+  isFetching,
+  isError,
+  onRefresh,
+  children,
+}: StatsDashboardShellProps) {
+  const t = useTranslations('stats');
+  const tCommon = useTranslations('common');
+
+  return (
+    <div className="container max-w-7xl py-8 px-4" data-testid="stats-dashboard">
+      {/* Header */}
+      <div className="my-8">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-4xl font-light tracking-tight">{title}</h1>
+            <p className="text-sm text-muted-foreground/60 mt-1 leading-relaxed">{description}</p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={String(days)} onValueChange={(value) => onDaysChange(Number(value))}>
+              <SelectTrigger className="w-40" data-testid="stats-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATS_PERIODS.map((period) => (
+                  <SelectItem key={period} value={String(period)}>
+                    {t('period', { days: period })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-10"
+              onClick={onRefresh}
+              disabled={isFetching}
+              data-testid="refresh-stats-button"
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+              {t('refresh')}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Loading State */}
+      <Activity mode={isLoading ? 'visible' : 'hidden'}>
+        <div className="flex items-center justify-center py-12" data-testid="loading-skeleton">
+          <div className="text-center space-y-4">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">{t('loading')}</p>
+          </div>
+        </div>
+      </Activity>
+
+      {/* Error State */}
+      <Activity mode={isError ? 'visible' : 'hidden'}>
+        <Alert variant="destructive" data-testid="error-state">
+          <AlertDescription className="flex items-center justify-between">
+            <span>{t('loadError')}</span>
+            <Button variant="outline" size="sm" onClick={onRefresh}>
+              {tCommon('retry')}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      </Activity>
+
+      {!isLoading && !isError && <div className="space-y-6">{children}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Activity, ShieldAlert, Lock, KeyRound } from 'lucide-react';
+import { useGetSupportStatsQuery } from '../api';
+import { StatsDashboardShell } from './StatsDashboardShell';
+import { StatCard } from './StatCard';
+import { DailyChart } from './DailyChart';
+import { BreakdownChart } from './BreakdownChart';
+
+/**
+ * SupportStatsDashboard Component
+ * Sessions, lockouts and account recovery activity.
+ */
+export function SupportStatsDashboard() {
+  const t = useTranslations('stats');
+  const [days, setDays] = useState(30);
+  const { data, isLoading, isFetching, isError, refetch } = useGetSupportStatsQuery({ days });
+
+  return (
+    <StatsDashboardShell
+      title={t('support.title')}
+      description={t('support.description')}
+      days={days}
+      onDaysChange={setDays}
+      isLoading={isLoading}
+      isFetching={isFetching}
+      isError={isError}
+      onRefresh={refetch}
+    >
+      {data && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <StatCard
+              label={t('cards.activeSessions')}
+              value={data.activeSessions}
+              icon={Activity}
+            />
+            <StatCard
+              label={t('cards.failedLogins')}
+              value={data.failedLogins.total}
+              icon={ShieldAlert}
+            />
+            <StatCard
+              label={t('cards.lockedNow')}
+              value={data.failedLogins.lockedEmails + data.failedLogins.lockedIps}
+              hint={t('cards.locked', {
+                emails: data.failedLogins.lockedEmails,
+                ips: data.failedLogins.lockedIps,
+              })}
+              icon={Lock}
+            />
+            <StatCard
+              label={t('cards.passwordResets')}
+              value={data.passwordResets}
+              hint={t('cards.tokenReuse', { count: data.tokenReuseRevocations })}
+              icon={KeyRound}
+            />
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-3">
+            <div className="lg:col-span-2">
+              <DailyChart
+                title={t('charts.failedLogins')}
+                data={data.failedLogins.daily}
+                barClassName="bg-destructive/70"
+              />
+            </div>
+            <BreakdownChart
+              title={t('charts.sessionsByDevice')}
+              data={data.activeSessionsByDevice}
+              formatLabel={(device) => t(`devices.${device}`)}
+            />
+          </div>
+        </>
+      )}
+    </StatsDashboardShell>
+  );
+}
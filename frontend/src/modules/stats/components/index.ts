@@ -0,0 +1,7 @@
+export { StatCard } from './StatCard';
+export { DailyChart } from './DailyChart';
+export { BreakdownChart } from './BreakdownChart';
+export { StatsDashboardShell, STATS_PERIODS } from './StatsDashboardShell';
+export { AdminStatsDashboard } from './AdminStatsDashboard';
+export { ManagerStatsDashboard } from './ManagerStatsDashboard';
+export { SupportStatsDashboard } from './SupportStatsDashboard';
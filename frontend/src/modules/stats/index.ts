@@ -0,0 +1,31 @@
+// Components
+export {
+  StatCard,
+  DailyChart,
+  BreakdownChart,
+  StatsDashboardShell,
+  STATS_PERIODS,
+  AdminStatsDashboard,
+  ManagerStatsDashboard,
+  SupportStatsDashboard,
+} from './components';
+
+// API hooks
+export {
+  useGetAdminStatsQuery,
+  useGetManagerStatsQuery,
+  useGetSupportStatsQuery,
+  statsApi,
+} from './api';
+
+// Types
+export type {
+  DailyCount,
+  GroupCount,
+  UserTotals,
+  FailedLoginStats,
+  AdminStats,
+  ManagerStats,
+  SupportStats,
+  StatsQuery,
+} from './types';
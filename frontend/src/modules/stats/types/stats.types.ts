@@ -0,0 +1,81 @@
+/**
+ * Count for one UTC day of a time series
+ */
+export interface DailyCount {
+  /** YYYY-MM-DD */
+  date: string;
+  count: number;
+}
+
+/**
+ * Count for one value of a grouped field, e.g. a role or provider
+ */
+export interface GroupCount {
+  key: string;
+  count: number;
+}
+
+/**
+ * Registered accounts, excluding erased ones
+ */
+export interface UserTotals {
+  total: number;
+  verified: number;
+  unverified: number;
+  newInPeriod: number;
+}
+
+/**
+ * Rejected password sign-ins and current lockouts
+ */
+export interface FailedLoginStats {
+  total: number;
+  daily: DailyCount[];
+  lockedEmails: number;
+  lockedIps: number;
+}
+
+/**
+ * Admin dashboard statistics
+ */
+export interface AdminStats {
+  days: number;
+  users: UserTotals;
+  signups: DailyCount[];
+  activeSessions: number;
+  usersByRole: GroupCount[];
+  usersByProvider: GroupCount[];
+  failedLogins: FailedLoginStats;
+}
+
+/**
+ * Manager dashboard statistics
+ */
+export interface ManagerStats {
+  days: number;
+  users: UserTotals;
+  signups: DailyCount[];
+  activeUsers: number;
+  usersByStatus: GroupCount[];
+  usersByRole: GroupCount[];
+}
+
+/**
+ * Support dashboard statistics
+ */
+export interface SupportStats {
+  days: number;
+  activeSessions: number;
+  activeSessionsByDevice: GroupCount[];
+  failedLogins: FailedLoginStats;
+  passwordResets: number;
+  tokenReuseRevocations: number;
+}
+
+/**
+ * Stats query parameters
+ */
+export interface StatsQuery {
+  /** Days covered by time series (default: 30) */
+  days?: number;
+}
@@ -7,6 +7,7 @@ import type {
   UpdateUserRequest,
   UpdateUserRoleRequest,
   UpdateUserStatusRequest,
+  DeleteUserRequest,
 } from '../types';
 
 /**
@@ -149,10 +150,10 @@ export const usersApi = baseApi.injectEndpoints({
      * Update user role (admin)
      */
     updateUserRole: builder.mutation<AdminUser, UpdateUserRoleRequest>({
-      query: ({ userId, role }) => ({
+      query: ({ userId, roles }) => ({
         url: `/api/admin/users/${userId}/role`,
         method: 'PATCH',
-        body: { role },
+        body: { roles },
       }),
       transformResponse: (response: {
         success: boolean;
@@ -171,14 +172,15 @@ export const usersApi = baseApi.injectEndpoints({
     /**
      * Delete user (admin)
      */
-    deleteUser: builder.mutation<{ message: string }, string>({
-      query: (userId) => ({
+    deleteUser: builder.mutation<{ message: string }, DeleteUserRequest>({
+      query: ({ userId, hard }) => ({
         url: `/api/admin/users/${userId}`,
         method: 'DELETE',
+        params: hard ? { hard: true } : undefined,
       }),
       transformResponse: (response: { success: boolean; data: { message: string } }) =>
         response.data,
-      invalidatesTags: (result, error, userId) => [
+      invalidatesTags: (result, error, { userId }) => [
         { type: 'User', id: userId },
         { type: 'User', id: 'LIST' },
       ],
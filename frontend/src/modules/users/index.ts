@@ -32,4 +32,5 @@ export type {
   UpdateUserRequest,
   UpdateUserRoleRequest,
   UpdateUserStatusRequest,
+  DeleteUserRequest,
 } from './types';
@@ -5,7 +5,10 @@ export interface AdminUser {
   _id: string;
   email: string;
   name: string;
+  /** Primary role */
   role: string;
+  /** Every role, primary first */
+  roles: string[];
   isVerified: boolean;
   isDeleted: boolean;
   authProvider: 'email' | 'google' | 'facebook' | 'github';
@@ -50,7 +53,8 @@ export interface CreateUserRequest {
  */
 export interface UpdateUserRoleRequest {
   userId: string;
-  role: string;
+  /** Replacement roles; the first becomes the primary role */
+  roles: string[];
 }
 
 /**
@@ -69,3 +73,12 @@ export interface UpdateUserRequest {
   name: string;
   email: string;
 }
+
+/**
+ * Delete user request
+ */
+export interface DeleteUserRequest {
+  userId: string;
+  /** Erase the account and its data now instead of after the grace period */
+  hard?: boolean;
+}
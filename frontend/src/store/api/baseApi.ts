@@ -1,12 +1,26 @@
 import { createApi, fetchBaseQuery } from '@reduxjs/toolkit/query/react';
-import type { BaseQueryFn, FetchArgs, FetchBaseQueryError } from '@reduxjs/toolkit/query';
+import type {
+  BaseQueryApi,
+  BaseQueryFn,
+  FetchArgs,
+  FetchBaseQueryError,
+} from '@reduxjs/toolkit/query';
+import {
+  getAccountStatusLoginPath,
+  getBlockedAccountStatus,
+} from '@/modules/auth/utils/authHelpers';
+
+/**
+ * Backend origin, for links the browser opens directly (e.g. file downloads)
+ */
+export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
 
 /**
  * Base query configuration for RTK Query
  * Uses httpOnly cookies for authentication (credentials: 'include')
  */
 const baseQuery = fetchBaseQuery({
-  baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000',
+  baseUrl: API_BASE_URL,
   credentials: 'include', // Send httpOnly cookies automatically
   prepareHeaders: (headers) => {
     headers.set('Content-Type', 'application/json');
@@ -15,10 +29,48 @@ const baseQuery = fetchBaseQuery({
   },
 });
 
+/**
+ * Auth endpoints that need a signed-in session, where a 401 can mean the session expired
+ * Any other `/api/auth/*` 401 rejects the credentials sent (password, code, token),
+ * so refreshing the session first cannot help.
+ */
+const SESSION_AUTH_ENDPOINTS = [
+  '/api/auth/webauthn/registration',
+  '/api/auth/webauthn/credentials',
+];
+
+const isSessionAuthEndpoint = (url: string) =>
+  SESSION_AUTH_ENDPOINTS.some((endpoint) => url.startsWith(endpoint));
+
+/**
+ * In-flight session refresh shared by concurrent requests
+ * The backend rotates the session token on every refresh, so parallel 401s
+ * must wait for a single refresh instead of each presenting the old cookie.
+ */
+let refreshPromise: ReturnType<typeof baseQuery> | null = null;
+
+/**
+ * Sign out when the backend reports the account as suspended or removed,
+ * and explain why on the login page
+ * Auth pages are left alone so the login form can show the error itself.
+ */
+const signOutBlockedAccount = (error: FetchBaseQueryError | undefined, api: BaseQueryApi) => {
+  const blocked = error ? getBlockedAccountStatus(error) : null;
+  if (!blocked) {
+    return;
+  }
+
+  api.dispatch({ type: 'auth/logout' });
+
+  if (typeof window !== 'undefined' && !window.location.pathname.includes('/auth/')) {
+    window.location.href = getAccountStatusLoginPath(blocked.status, blocked.reason);
+  }
+};
+
 /**
  * Base query with automatic session refresh on 401 errors
  * Uses cookie-based session refresh
- * Skips refresh for validation endpoints to prevent unnecessary calls
+ * Skips refresh for validation and auth endpoints to prevent unnecessary calls
  */
 const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQueryError> = async (
   args,
@@ -27,34 +79,47 @@ const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQue
 ) => {
   let result = await baseQuery(args, api, extraOptions);
 
+  // The account was suspended or removed while signed in
+  if (result.error?.status === 403) {
+    signOutBlockedAccount(result.error, api);
+  }
+
   // If request fails with 401, attempt session refresh
   if (result.error?.status === 401) {
-    // Skip auto-refresh for validation endpoints (getCurrentUser)
-    // These endpoints expect 401 when user is not authenticated
+    // Skip auto-refresh for the validation endpoint (getCurrentUser) and credential-checking
+    // auth endpoints. These endpoints expect 401 when user is not authenticated
     const url = typeof args === 'string' ? args : args.url;
-    const skipRefresh = url.includes('/api/user/profile');
+    const skipRefresh =
+      url.includes('/api/user/profile') ||
+      (url.startsWith('/api/auth/') && !isSessionAuthEndpoint(url));
 
     if (skipRefresh) {
       // Don't attempt refresh for validation endpoints
       return result;
     }
 
-    // Try to refresh the session (cookie-based)
-    const refreshResult = await baseQuery('/api/auth/refresh', api, extraOptions);
+    // Sessions in use are extended by the backend on every request, so an expired session
+    // cannot be refreshed here. This only covers the rotation race: a request sent with the
+    // cookie of a session another request rotated moments earlier. Within the reuse grace
+    // period the refresh returns the replacement session and the retry succeeds
+    if (!refreshPromise) {
+      refreshPromise = Promise.resolve(
+        baseQuery({ url: '/api/auth/refresh', method: 'POST' }, api, extraOptions),
+      ).finally(() => {
+        refreshPromise = null;
+      });
+    }
+    const refreshResult = await refreshPromise;
 
-    // Check if refresh endpoint exists and was successful
     if (refreshResult.data) {
       // Refresh successful, retry the original request
       // New session cookie automatically set by backend
       result = await baseQuery(args, api, extraOptions);
-    } else if (refreshResult.error?.status === 404) {
-      // Refresh endpoint not implemented yet, return original 401 error
-      // This prevents infinite loading when refresh endpoint doesn't exist
-      return result;
     } else {
       // Refresh failed, user needs to login again
       // Trigger logout to clear client state
       api.dispatch({ type: 'auth/logout' });
+      signOutBlockedAccount(refreshResult.error, api);
     }
   }
 
@@ -68,6 +133,18 @@ const baseQueryWithReauth: BaseQueryFn<string | FetchArgs, unknown, FetchBaseQue
 export const baseApi = createApi({
   reducerPath: 'api',
   baseQuery: baseQueryWithReauth,
-  tagTypes: ['User', 'Auth', 'LinkedProviders', 'ProfileSync', 'Roles', 'Permissions', 'Sessions'],
+  tagTypes: [
+    'User',
+    'Auth',
+    'LinkedProviders',
+    'ProfileSync',
+    'Roles',
+    'Permissions',
+    'Sessions',
+    'Passkeys',
+    'AuditLogs',
+    'Stats',
+    'Organizations',
+  ],
   endpoints: () => ({}),
 });
@@ -1,4 +1,5 @@
 import { baseApi } from './baseApi';
+import type { AccountStatus } from '@/modules/auth/types/auth.types';
 
 /**
  * User interface
@@ -7,11 +8,20 @@ export interface User {
   _id: string;
   email: string;
   name: string;
+  /** Primary role */
   role: string;
+  /** Every role, primary first */
+  roles: string[];
   isVerified: boolean;
   isDeleted: boolean;
+  /** Only active accounts can sign in */
+  status?: AccountStatus;
+  /** Reason given by the administrator for the current status */
+  statusReason?: string;
   authProvider: 'email' | 'google' | 'facebook' | 'github';
   linkedProviders: string[];
+  /** End of the sign-in lock after repeated failed logins; null when not locked */
+  lockedUntil?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -65,7 +75,8 @@ export interface CreateUserRequest {
  */
 export interface UpdateUserRoleRequest {
   userId: string;
-  role: string;
+  /** Replacement roles; the first becomes the primary role */
+  roles: string[];
 }
 
 /**
@@ -73,7 +84,31 @@ export interface UpdateUserRoleRequest {
  */
 export interface UpdateUserStatusRequest {
   userId: string;
-  isActive: boolean;
+  /** Activate (true) or deactivate (false); ignored when status is given */
+  isActive?: boolean;
+  status?: AccountStatus;
+  /** Shown to the user at sign-in when suspended */
+  reason?: string;
+}
+
+/**
+ * Update user status response
+ */
+export interface UpdateUserStatusResponse {
+  id: string;
+  status: AccountStatus;
+  statusReason?: string;
+  isDeleted: boolean;
+  deletedAt?: string;
+}
+
+/**
+ * Delete user request
+ */
+export interface DeleteUserRequest {
+  userId: string;
+  /** Erase the account and its data now instead of after the grace period */
+  hard?: boolean;
 }
 
 /**
@@ -195,20 +230,17 @@ export const userApi = baseApi.injectEndpoints({
     }),
 
     /**
-     * Update user status (activate/deactivate) (admin)
+     * Update user status (activate/suspend/deactivate) (admin)
      */
-    updateUserStatus: builder.mutation<
-      { id: string; isDeleted: boolean; deletedAt?: string },
-      UpdateUserStatusRequest
-    >({
-      query: ({ userId, isActive }) => ({
+    updateUserStatus: builder.mutation<UpdateUserStatusResponse, UpdateUserStatusRequest>({
+      query: ({ userId, isActive, status, reason }) => ({
         url: `/api/admin/users/${userId}/status`,
         method: 'PATCH',
-        body: { isActive },
+        body: { isActive, status, reason },
       }),
       transformResponse: (response: {
         success: boolean;
-        data: { id: string; isDeleted: boolean; deletedAt?: string };
+        data: UpdateUserStatusResponse;
         message: string;
       }) => response.data,
       invalidatesTags: (result, error, { userId }) => [
@@ -221,10 +253,10 @@ export const userApi = baseApi.injectEndpoints({
      * Update user role (admin)
      */
     updateUserRole: builder.mutation<User, UpdateUserRoleRequest>({
-      query: ({ userId, role }) => ({
+      query: ({ userId, roles }) => ({
         url: `/api/admin/users/${userId}/role`,
         method: 'PATCH',
-        body: { role },
+        body: { roles },
       }),
       transformResponse: (response: {
         success: boolean;
@@ -246,13 +278,32 @@ export const userApi = baseApi.injectEndpoints({
     /**
      * Delete user (admin)
      */
-    deleteUser: builder.mutation<{ message: string }, string>({
-      query: (userId) => ({
+    deleteUser: builder.mutation<{ message: string }, DeleteUserRequest>({
+      query: ({ userId, hard }) => ({
         url: `/api/admin/users/${userId}`,
         method: 'DELETE',
+        params: hard ? { hard: true } : undefined,
       }),
       transformResponse: (response: { success: boolean; data: { message: string } }) =>
         response.data,
+      invalidatesTags: (result, error, { userId }) => [
+        { type: 'User', id: userId },
+        { type: 'User', id: 'LIST' },
+      ],
+    }),
+
+    /**
+     * Clear the sign-in lock placed after repeated failed logins (admin)
+     */
+    clearUserLock: builder.mutation<{ id: string; wasLocked: boolean }, string>({
+      query: (userId) => ({
+        url: `/api/admin/users/${userId}/lock`,
+        method: 'DELETE',
+      }),
+      transformResponse: (response: {
+        success: boolean;
+        data: { id: string; wasLocked: boolean };
+      }) => response.data,
       invalidatesTags: (result, error, userId) => [
         { type: 'User', id: userId },
         { type: 'User', id: 'LIST' },
@@ -270,4 +321,5 @@ export const {
   useUpdateUserStatusMutation,
   useUpdateUserRoleMutation,
   useDeleteUserMutation,
+  useClearUserLockMutation,
 } = userApi;